@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "lockedUntil" TIMESTAMP(3),
+ADD COLUMN "loginFailuresResetAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "login_history_ipAddress_createdAt_idx" ON "login_history"("ipAddress", "createdAt");
@@ -0,0 +1,26 @@
+-- AlterEnum
+ALTER TYPE "Role" ADD VALUE 'SUPERADMIN';
+ALTER TYPE "Role" ADD VALUE 'SUPPORT';
+ALTER TYPE "Role" ADD VALUE 'CONTENT_EDITOR';
+ALTER TYPE "Role" ADD VALUE 'FINANCE';
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "adminRoleId" TEXT;
+
+-- CreateTable
+CREATE TABLE "admin_roles" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "permissions" TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "admin_roles_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "admin_roles_name_key" ON "admin_roles"("name");
+
+-- AddForeignKey
+ALTER TABLE "users" ADD CONSTRAINT "users_adminRoleId_fkey" FOREIGN KEY ("adminRoleId") REFERENCES "admin_roles"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,4 @@
+-- Existing admins keep every capability they had, including assigning roles.
+-- Kept separate from the enum change because a new enum value cannot be used
+-- in the same transaction that adds it.
+UPDATE "users" SET "role" = 'SUPERADMIN' WHERE "role" = 'ADMIN';
@@ -0,0 +1,42 @@
+-- DropForeignKey
+ALTER TABLE "orders" DROP CONSTRAINT "orders_userId_fkey";
+
+-- DropForeignKey
+ALTER TABLE "transactions" DROP CONSTRAINT "transactions_userId_fkey";
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "deletedAt" TIMESTAMP(3),
+ADD COLUMN "deletionScheduledFor" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "data_exports" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "tokenHash" TEXT NOT NULL,
+    "data" JSONB NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "data_exports_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "data_exports_tokenHash_key" ON "data_exports"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "data_exports_userId_idx" ON "data_exports"("userId");
+
+-- CreateIndex
+CREATE INDEX "data_exports_expiresAt_idx" ON "data_exports"("expiresAt");
+
+-- CreateIndex
+CREATE INDEX "users_deletionScheduledFor_idx" ON "users"("deletionScheduledFor");
+
+-- AddForeignKey
+ALTER TABLE "orders" ADD CONSTRAINT "orders_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "transactions" ADD CONSTRAINT "transactions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "data_exports" ADD CONSTRAINT "data_exports_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
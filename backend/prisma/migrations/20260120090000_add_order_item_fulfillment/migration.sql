@@ -0,0 +1,65 @@
+-- AlterEnum
+ALTER TYPE "OrderStatus" ADD VALUE 'PARTIALLY_COMPLETED' BEFORE 'COMPLETED';
+
+-- CreateEnum
+CREATE TYPE "FulfillmentStatus" AS ENUM ('PENDING', 'FULFILLED', 'FAILED', 'REFUNDED');
+
+-- AlterTable
+ALTER TABLE "order_items" ADD COLUMN     "fulfillmentStatus" "FulfillmentStatus" NOT NULL DEFAULT 'PENDING',
+ADD COLUMN     "fulfilledQuantity" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "refundedQuantity" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "supplierOrderIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "fulfillmentError" TEXT,
+ADD COLUMN     "fulfilledAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "game_keys" ADD COLUMN     "orderItemId" TEXT;
+
+-- DropIndex
+DROP INDEX "transactions_orderId_key";
+
+-- CreateIndex
+CREATE INDEX "order_items_fulfillmentStatus_idx" ON "order_items"("fulfillmentStatus");
+
+-- CreateIndex
+CREATE INDEX "game_keys_orderItemId_idx" ON "game_keys"("orderItemId");
+
+-- CreateIndex
+CREATE INDEX "transactions_orderId_idx" ON "transactions"("orderId");
+
+-- AddForeignKey
+ALTER TABLE "game_keys" ADD CONSTRAINT "game_keys_orderItemId_fkey" FOREIGN KEY ("orderItemId") REFERENCES "order_items"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: link delivered keys to their order item
+UPDATE "game_keys" k
+SET "orderItemId" = i."id"
+FROM "order_items" i
+WHERE k."orderId" = i."orderId" AND k."gameId" = i."gameId";
+
+-- Backfill: derive item state from existing orders. Completed orders count as fully delivered,
+-- since keys for manually fulfilled orders may have been sent outside the shop.
+UPDATE "order_items" i
+SET "fulfilledQuantity" = CASE
+        WHEN o."status" = 'COMPLETED' THEN i."quantity"
+        ELSE LEAST(i."quantity", (SELECT COUNT(*) FROM "game_keys" k WHERE k."orderItemId" = i."id"))
+    END
+FROM "orders" o
+WHERE o."id" = i."orderId";
+
+UPDATE "order_items" i
+SET "fulfillmentStatus" = CASE
+        WHEN i."fulfilledQuantity" >= i."quantity" THEN 'FULFILLED'::"FulfillmentStatus"
+        WHEN o."status" = 'CANCELLED' THEN 'REFUNDED'::"FulfillmentStatus"
+        WHEN o."status" = 'FAILED' THEN 'FAILED'::"FulfillmentStatus"
+        ELSE 'PENDING'::"FulfillmentStatus"
+    END,
+    "refundedQuantity" = CASE
+        WHEN o."status" = 'CANCELLED' THEN i."quantity" - i."fulfilledQuantity"
+        ELSE 0
+    END,
+    "fulfilledAt" = CASE
+        WHEN i."fulfilledQuantity" >= i."quantity" THEN COALESCE(o."completedAt", o."createdAt")
+        ELSE NULL
+    END
+FROM "orders" o
+WHERE o."id" = i."orderId";
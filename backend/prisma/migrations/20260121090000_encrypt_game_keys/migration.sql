@@ -0,0 +1,43 @@
+-- DropIndex
+DROP INDEX "game_keys_key_key";
+
+-- AlterTable
+ALTER TABLE "game_keys" ALTER COLUMN "key" DROP NOT NULL,
+ADD COLUMN     "encryptedKey" TEXT,
+ADD COLUMN     "encryptedDataKey" TEXT,
+ADD COLUMN     "masterKeyId" TEXT,
+ADD COLUMN     "keyHash" TEXT,
+ADD COLUMN     "keyHint" TEXT;
+
+-- CreateTable
+CREATE TABLE "game_key_reveals" (
+    "id" TEXT NOT NULL,
+    "gameKeyId" TEXT NOT NULL,
+    "userId" TEXT,
+    "reason" TEXT,
+    "ipAddress" TEXT,
+    "userAgent" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "game_key_reveals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "game_keys_keyHash_key" ON "game_keys"("keyHash");
+
+-- CreateIndex
+CREATE INDEX "game_keys_masterKeyId_idx" ON "game_keys"("masterKeyId");
+
+-- CreateIndex
+CREATE INDEX "game_key_reveals_gameKeyId_createdAt_idx" ON "game_key_reveals"("gameKeyId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "game_key_reveals_userId_createdAt_idx" ON "game_key_reveals"("userId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "game_key_reveals" ADD CONSTRAINT "game_key_reveals_gameKeyId_fkey" FOREIGN KEY ("gameKeyId") REFERENCES "game_keys"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "game_key_reveals" ADD CONSTRAINT "game_key_reveals_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Existing plaintext keys are encrypted by `npm run keys:encrypt`, which also clears the "key" column
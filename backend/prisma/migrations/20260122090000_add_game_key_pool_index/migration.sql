@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "game_keys_gameId_orderId_createdAt_idx" ON "game_keys"("gameId", "orderId", "createdAt");
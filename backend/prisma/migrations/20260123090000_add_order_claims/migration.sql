@@ -0,0 +1,72 @@
+-- CreateEnum
+CREATE TYPE "ClaimType" AS ENUM ('KEY_NOT_WORKING', 'REFUND_REQUEST');
+
+-- CreateEnum
+CREATE TYPE "ClaimStatus" AS ENUM ('OPEN', 'REPLACED', 'REFUNDED', 'REJECTED');
+
+-- CreateTable
+CREATE TABLE "order_claims" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "orderItemId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "gameKeyId" TEXT,
+    "type" "ClaimType" NOT NULL,
+    "status" "ClaimStatus" NOT NULL DEFAULT 'OPEN',
+    "reason" TEXT NOT NULL,
+    "screenshot" TEXT,
+    "resolutionNote" TEXT,
+    "replacementKeyId" TEXT,
+    "refundAmount" DECIMAL(10,2),
+    "resolvedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "order_claims_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "order_claim_events" (
+    "id" TEXT NOT NULL,
+    "claimId" TEXT NOT NULL,
+    "status" "ClaimStatus" NOT NULL,
+    "actorType" "OrderStatusActor" NOT NULL,
+    "actorId" TEXT,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "order_claim_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "order_claims_status_createdAt_idx" ON "order_claims"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "order_claims_userId_createdAt_idx" ON "order_claims"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "order_claims_orderItemId_idx" ON "order_claims"("orderItemId");
+
+-- CreateIndex
+CREATE INDEX "order_claim_events_claimId_createdAt_idx" ON "order_claim_events"("claimId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "order_claims" ADD CONSTRAINT "order_claims_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_claims" ADD CONSTRAINT "order_claims_orderItemId_fkey" FOREIGN KEY ("orderItemId") REFERENCES "order_items"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_claims" ADD CONSTRAINT "order_claims_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_claims" ADD CONSTRAINT "order_claims_gameKeyId_fkey" FOREIGN KEY ("gameKeyId") REFERENCES "game_keys"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_claims" ADD CONSTRAINT "order_claims_replacementKeyId_fkey" FOREIGN KEY ("replacementKeyId") REFERENCES "game_keys"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_claim_events" ADD CONSTRAINT "order_claim_events_claimId_fkey" FOREIGN KEY ("claimId") REFERENCES "order_claims"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_claim_events" ADD CONSTRAINT "order_claim_events_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
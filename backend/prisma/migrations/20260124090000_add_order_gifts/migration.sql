@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "order_gifts" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "recipientEmail" TEXT NOT NULL,
+    "senderName" TEXT NOT NULL,
+    "message" TEXT,
+    "deliverAt" TIMESTAMP(3) NOT NULL,
+    "tokenHash" TEXT,
+    "sentAt" TIMESTAMP(3),
+    "openedAt" TIMESTAMP(3),
+    "redeemedAt" TIMESTAMP(3),
+    "recipientId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "order_gifts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "order_gifts_orderId_key" ON "order_gifts"("orderId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "order_gifts_tokenHash_key" ON "order_gifts"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "order_gifts_sentAt_deliverAt_idx" ON "order_gifts"("sentAt", "deliverAt");
+
+-- CreateIndex
+CREATE INDEX "order_gifts_recipientId_idx" ON "order_gifts"("recipientId");
+
+-- AddForeignKey
+ALTER TABLE "order_gifts" ADD CONSTRAINT "order_gifts_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_gifts" ADD CONSTRAINT "order_gifts_recipientId_fkey" FOREIGN KEY ("recipientId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
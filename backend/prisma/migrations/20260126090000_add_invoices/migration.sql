@@ -0,0 +1,59 @@
+-- CreateEnum
+CREATE TYPE "InvoiceType" AS ENUM ('ORDER', 'TOP_UP');
+
+-- CreateTable
+CREATE TABLE "invoices" (
+    "id" TEXT NOT NULL,
+    "number" INTEGER NOT NULL,
+    "type" "InvoiceType" NOT NULL,
+    "userId" TEXT NOT NULL,
+    "orderId" TEXT,
+    "transactionId" TEXT,
+    "currency" TEXT NOT NULL DEFAULT 'EUR',
+    "subtotal" DECIMAL(10,2) NOT NULL,
+    "discount" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "taxRate" DECIMAL(5,2) NOT NULL,
+    "taxAmount" DECIMAL(10,2) NOT NULL,
+    "total" DECIMAL(10,2) NOT NULL,
+    "seller" JSONB NOT NULL,
+    "buyer" JSONB NOT NULL,
+    "lines" JSONB NOT NULL,
+    "issuedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "invoices_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "invoice_counters" (
+    "id" TEXT NOT NULL,
+    "value" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "invoice_counters_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoices_number_key" ON "invoices"("number");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoices_orderId_key" ON "invoices"("orderId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoices_transactionId_key" ON "invoices"("transactionId");
+
+-- CreateIndex
+CREATE INDEX "invoices_userId_idx" ON "invoices"("userId");
+
+-- CreateIndex
+CREATE INDEX "invoices_issuedAt_idx" ON "invoices"("issuedAt");
+
+-- AddForeignKey
+ALTER TABLE "invoices" ADD CONSTRAINT "invoices_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "invoices" ADD CONSTRAINT "invoices_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "invoices" ADD CONSTRAINT "invoices_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "transactions"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Seed the invoice number series
+INSERT INTO "invoice_counters" ("id", "value") VALUES ('invoices', 0);
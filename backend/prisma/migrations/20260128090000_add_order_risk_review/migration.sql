@@ -0,0 +1,52 @@
+-- AlterEnum
+ALTER TYPE "OrderStatus" ADD VALUE 'ON_HOLD';
+
+-- CreateEnum
+CREATE TYPE "RiskDecision" AS ENUM ('APPROVED', 'REJECTED');
+
+-- AlterTable
+ALTER TABLE "login_history" ADD COLUMN "country" TEXT;
+
+-- CreateTable
+CREATE TABLE "order_risk_assessments" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "score" INTEGER NOT NULL,
+    "threshold" INTEGER NOT NULL,
+    "signals" JSONB NOT NULL,
+    "held" BOOLEAN NOT NULL DEFAULT false,
+    "decision" "RiskDecision",
+    "reviewedById" TEXT,
+    "reviewNote" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "order_risk_assessments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "fraud_settings" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL DEFAULT 'default',
+    "holdThreshold" INTEGER NOT NULL DEFAULT 50,
+    "rules" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "fraud_settings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "order_risk_assessments_orderId_key" ON "order_risk_assessments"("orderId");
+
+-- CreateIndex
+CREATE INDEX "order_risk_assessments_held_decision_idx" ON "order_risk_assessments"("held", "decision");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "fraud_settings_name_key" ON "fraud_settings"("name");
+
+-- AddForeignKey
+ALTER TABLE "order_risk_assessments" ADD CONSTRAINT "order_risk_assessments_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_risk_assessments" ADD CONSTRAINT "order_risk_assessments_reviewedById_fkey" FOREIGN KEY ("reviewedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "ReconciliationTrigger" AS ENUM ('SCHEDULED', 'MANUAL');
+
+-- AlterTable
+ALTER TABLE "game_keys" ADD COLUMN "supplierOrderId" TEXT;
+
+-- CreateTable
+CREATE TABLE "order_reconciliation_runs" (
+    "id" TEXT NOT NULL,
+    "trigger" "ReconciliationTrigger" NOT NULL,
+    "triggeredById" TEXT,
+    "checked" INTEGER NOT NULL DEFAULT 0,
+    "completed" INTEGER NOT NULL DEFAULT 0,
+    "retried" INTEGER NOT NULL DEFAULT 0,
+    "refunded" INTEGER NOT NULL DEFAULT 0,
+    "skipped" INTEGER NOT NULL DEFAULT 0,
+    "failed" INTEGER NOT NULL DEFAULT 0,
+    "entries" JSONB NOT NULL,
+    "startedAt" TIMESTAMP(3) NOT NULL,
+    "finishedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "order_reconciliation_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "order_reconciliation_runs_finishedAt_idx" ON "order_reconciliation_runs"("finishedAt");
+
+-- AddForeignKey
+ALTER TABLE "order_reconciliation_runs" ADD CONSTRAINT "order_reconciliation_runs_triggeredById_fkey" FOREIGN KEY ("triggeredById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
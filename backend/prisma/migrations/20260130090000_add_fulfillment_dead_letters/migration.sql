@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "DeadLetterSource" AS ENUM ('QUEUE', 'SYNC');
+
+-- CreateEnum
+CREATE TYPE "DeadLetterStatus" AS ENUM ('OPEN', 'RETRIED', 'REFUNDED');
+
+-- CreateTable
+CREATE TABLE "fulfillment_dead_letters" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "source" "DeadLetterSource" NOT NULL,
+    "jobId" TEXT,
+    "payload" JSONB NOT NULL,
+    "error" TEXT NOT NULL,
+    "attempts" JSONB NOT NULL,
+    "status" "DeadLetterStatus" NOT NULL DEFAULT 'OPEN',
+    "resolvedById" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+    "resolveNote" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "fulfillment_dead_letters_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "fulfillment_dead_letters_status_createdAt_idx" ON "fulfillment_dead_letters"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "fulfillment_dead_letters_orderId_idx" ON "fulfillment_dead_letters"("orderId");
+
+-- AddForeignKey
+ALTER TABLE "fulfillment_dead_letters" ADD CONSTRAINT "fulfillment_dead_letters_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "fulfillment_dead_letters" ADD CONSTRAINT "fulfillment_dead_letters_resolvedById_fkey" FOREIGN KEY ("resolvedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
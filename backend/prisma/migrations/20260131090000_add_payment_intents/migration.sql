@@ -0,0 +1,47 @@
+-- CreateEnum
+CREATE TYPE "PaymentIntentStatus" AS ENUM ('PENDING', 'COMPLETED', 'FAILED', 'CANCELLED', 'EXPIRED');
+
+-- CreateTable
+CREATE TABLE "payment_intents" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "currency" TEXT NOT NULL,
+    "discount" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "creditAmount" DECIMAL(10,2) NOT NULL,
+    "promoCodeId" TEXT,
+    "gateway" TEXT NOT NULL,
+    "gatewayCurrency" TEXT NOT NULL,
+    "gatewayAmount" DECIMAL(10,2) NOT NULL,
+    "status" "PaymentIntentStatus" NOT NULL DEFAULT 'PENDING',
+    "gatewayTransactionId" TEXT,
+    "transactionId" TEXT,
+    "failureReason" TEXT,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "payment_intents_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payment_intents_gatewayTransactionId_key" ON "payment_intents"("gatewayTransactionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payment_intents_transactionId_key" ON "payment_intents"("transactionId");
+
+-- CreateIndex
+CREATE INDEX "payment_intents_userId_status_idx" ON "payment_intents"("userId", "status");
+
+-- CreateIndex
+CREATE INDEX "payment_intents_status_expiresAt_idx" ON "payment_intents"("status", "expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "payment_intents" ADD CONSTRAINT "payment_intents_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payment_intents" ADD CONSTRAINT "payment_intents_promoCodeId_fkey" FOREIGN KEY ("promoCodeId") REFERENCES "promo_codes"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payment_intents" ADD CONSTRAINT "payment_intents_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "transactions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,14 @@
+-- AlterEnum
+ALTER TYPE "OrderStatus" ADD VALUE 'AWAITING_PAYMENT';
+
+-- AlterTable
+ALTER TABLE "payment_intents" ADD COLUMN     "balanceAmount" DECIMAL(10,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "checkoutUrl" TEXT,
+ADD COLUMN     "gatewayReference" TEXT,
+ADD COLUMN     "orderId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payment_intents_orderId_key" ON "payment_intents"("orderId");
+
+-- AddForeignKey
+ALTER TABLE "payment_intents" ADD CONSTRAINT "payment_intents_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,44 @@
+-- CreateEnum
+CREATE TYPE "ExchangeRateSource" AS ENUM ('PROVIDER', 'MANUAL');
+
+-- AlterTable
+ALTER TABLE "transactions" ADD COLUMN     "exchangeRate" DECIMAL(18,8),
+ADD COLUMN     "originalAmount" DECIMAL(10,2),
+ADD COLUMN     "originalCurrency" TEXT;
+
+-- AlterTable
+ALTER TABLE "payment_intents" ADD COLUMN     "exchangeRate" DECIMAL(18,8) NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE "exchange_rates" (
+    "id" TEXT NOT NULL,
+    "currency" TEXT NOT NULL,
+    "rate" DECIMAL(18,8) NOT NULL,
+    "source" "ExchangeRateSource" NOT NULL,
+    "provider" TEXT,
+    "note" TEXT,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "exchange_rates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "exchange_rate_settings" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL DEFAULT 'default',
+    "maxRateAgeHours" INTEGER NOT NULL DEFAULT 48,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "exchange_rate_settings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "exchange_rates_currency_createdAt_idx" ON "exchange_rates"("currency", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "exchange_rate_settings_name_key" ON "exchange_rate_settings"("name");
+
+-- AddForeignKey
+ALTER TABLE "exchange_rates" ADD CONSTRAINT "exchange_rates_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "exchange_rates" ADD COLUMN     "effectiveAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- Rates stored so far date from when they were stored
+UPDATE "exchange_rates" SET "effectiveAt" = "createdAt";
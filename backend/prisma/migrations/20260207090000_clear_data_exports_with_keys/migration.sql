@@ -0,0 +1,2 @@
+-- Archives stored so far hold decrypted game keys; users can request a new export
+DELETE FROM "data_exports";
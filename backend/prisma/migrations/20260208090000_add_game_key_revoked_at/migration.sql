@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "game_keys" ADD COLUMN     "revokedAt" TIMESTAMP(3);
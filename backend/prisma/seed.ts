@@ -1,5 +1,6 @@
 import { PrismaClient } from '@prisma/client';
 import { hashPassword } from '../src/utils/bcrypt';
+import { encryptGameKey } from '../src/utils/game-key-crypto';
 import dotenv from 'dotenv';
 
 // Load environment variables
@@ -896,7 +897,7 @@ async function main() {
           await prisma.gameKey.create({
             data: {
               gameId: game.id,
-              key: keyValue,
+              ...encryptGameKey(keyValue),
             },
           });
         } catch {
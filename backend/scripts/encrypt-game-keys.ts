@@ -0,0 +1,165 @@
+#!/usr/bin/env tsx
+/**
+ * Encrypt Game Keys Script
+ *
+ * Encrypts game keys and two-factor secrets that are still stored in plaintext and
+ * re-wraps the data keys of rows encrypted with an older master key. Run it after
+ * deploying the encryption migrations and again after adding a new master key to
+ * GAME_KEY_MASTER_KEYS.
+ *
+ * Usage:
+ *   npx tsx scripts/encrypt-game-keys.ts [--dry-run] [--batch=N]
+ *
+ * Options:
+ *   --dry-run          Don't save to database, just count the rows that need work
+ *   --batch=N          Rows processed per batch (default 200)
+ */
+
+import dotenv from 'dotenv';
+import { PrismaClient } from '@prisma/client';
+import {
+  decryptSecret,
+  encryptGameKey,
+  encryptSecret,
+  needsReencryption,
+  needsSecretReencryption,
+  rewrapGameKey,
+} from '../src/utils/game-key-crypto.js';
+
+dotenv.config();
+
+const prisma = new PrismaClient();
+
+interface EncryptOptions {
+  dryRun: boolean;
+  batchSize: number;
+}
+
+function parseArgs(): EncryptOptions {
+  const args = process.argv.slice(2);
+  const options: EncryptOptions = {
+    dryRun: false,
+    batchSize: 200,
+  };
+
+  for (const arg of args) {
+    if (arg === '--dry-run') {
+      options.dryRun = true;
+    } else if (arg.startsWith('--batch=')) {
+      options.batchSize = Math.max(1, parseInt(arg.split('=')[1], 10) || options.batchSize);
+    } else if (arg === '--help' || arg === '-h') {
+      console.log(`
+Encrypt Game Keys Script
+
+Encrypts plaintext game keys and two-factor secrets and re-wraps those encrypted
+with an older master key.
+
+Usage:
+  npx tsx scripts/encrypt-game-keys.ts [options]
+
+Options:
+  --dry-run          Only count the rows that need work
+  --batch=N          Rows processed per batch (default 200)
+  --help, -h         Show this help
+`);
+      process.exit(0);
+    }
+  }
+
+  return options;
+}
+
+async function encryptKeys(options: EncryptOptions): Promise<void> {
+  console.log('\n🔐 Game Key Encryption\n');
+  console.log(
+    `   Dry Run: ${options.dryRun ? 'YES (no database changes)' : 'NO (will save to DB)'}`
+  );
+  console.log('');
+
+  let encrypted = 0;
+  let rewrapped = 0;
+  let failed = 0;
+  let cursor: string | undefined;
+
+  for (;;) {
+    const rows = await prisma.gameKey.findMany({
+      select: {
+        id: true,
+        key: true,
+        encryptedKey: true,
+        encryptedDataKey: true,
+        masterKeyId: true,
+      },
+      orderBy: { id: 'asc' },
+      take: options.batchSize,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    });
+    if (rows.length === 0) {
+      break;
+    }
+    cursor = rows[rows.length - 1].id;
+
+    for (const row of rows.filter(needsReencryption)) {
+      const isPlaintext = !row.encryptedKey;
+      try {
+        if (!options.dryRun) {
+          await prisma.gameKey.update({
+            where: { id: row.id },
+            data: isPlaintext
+              ? { ...encryptGameKey(row.key || ''), key: null }
+              : rewrapGameKey(row),
+          });
+        }
+        if (isPlaintext) {
+          encrypted++;
+        } else {
+          rewrapped++;
+        }
+      } catch (error) {
+        failed++;
+        console.error(`❌ ${row.id}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+
+  console.log(`✅ Encrypted: ${encrypted}`);
+  console.log(`🔄 Re-wrapped with the active master key: ${rewrapped}`);
+
+  const secrets = await prisma.user.findMany({
+    where: { twoFactorSecret: { not: null } },
+    select: { id: true, twoFactorSecret: true },
+  });
+  let secretsEncrypted = 0;
+  for (const user of secrets) {
+    if (!user.twoFactorSecret || !needsSecretReencryption(user.twoFactorSecret)) {
+      continue;
+    }
+    try {
+      if (!options.dryRun) {
+        await prisma.user.update({
+          where: { id: user.id },
+          data: { twoFactorSecret: encryptSecret(decryptSecret(user.twoFactorSecret)) },
+        });
+      }
+      secretsEncrypted++;
+    } catch (error) {
+      failed++;
+      console.error(
+        `❌ user ${user.id}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+  console.log(`🔑 Two-factor secrets encrypted or re-wrapped: ${secretsEncrypted}`);
+
+  if (failed > 0) {
+    console.log(`❌ Failed: ${failed}`);
+    process.exitCode = 1;
+  }
+}
+
+encryptKeys(parseArgs())
+  .catch((error) => {
+    console.error('❌ Encryption failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
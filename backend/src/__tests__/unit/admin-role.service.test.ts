@@ -0,0 +1,108 @@
+/**
+ * Unit Tests: Admin roles and permissions
+ *
+ * Covers built-in role permissions, custom role merging and the route permission guard.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { Response, NextFunction } from 'express';
+
+vi.mock('../../config/database', () => import('../../../tests/helpers/mock-database.js'));
+
+import db from '../../../tests/helpers/mock-database.js';
+import { PERMISSIONS, resolvePermissions } from '../../config/permissions';
+import { createAdminRole, getUserPermissions } from '../../services/admin-role.service';
+import { requirePermission, AuthRequest } from '../../middleware/auth';
+
+const mockResponse = () => {
+  const res = {} as Response;
+  res.status = vi.fn().mockReturnValue(res);
+  res.json = vi.fn().mockReturnValue(res);
+  return res;
+};
+
+describe('Admin roles', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('resolvePermissions', () => {
+    it('gives customers no admin permissions', () => {
+      expect(resolvePermissions('USER')).toEqual([]);
+    });
+
+    it('keeps G2A credentials and refunds away from support staff', () => {
+      const permissions = resolvePermissions('SUPPORT');
+      expect(permissions).toContain(PERMISSIONS.ORDERS_READ);
+      expect(permissions).not.toContain(PERMISSIONS.G2A_SETTINGS);
+      expect(permissions).not.toContain(PERMISSIONS.PAYMENTS_REFUND);
+    });
+
+    it('reserves role management for superadmins', () => {
+      expect(resolvePermissions('ADMIN')).not.toContain(PERMISSIONS.ROLES_MANAGE);
+      expect(resolvePermissions('SUPERADMIN')).toContain(PERMISSIONS.ROLES_MANAGE);
+    });
+
+    it('adds custom role permissions and ignores unknown ones', () => {
+      const permissions = resolvePermissions('CONTENT_EDITOR', [
+        PERMISSIONS.PROMO_CODES_MANAGE,
+        'everything:allowed',
+      ]);
+      expect(permissions).toContain(PERMISSIONS.CATALOG_WRITE);
+      expect(permissions).toContain(PERMISSIONS.PROMO_CODES_MANAGE);
+      expect(permissions).not.toContain('everything:allowed');
+    });
+  });
+
+  describe('getUserPermissions', () => {
+    it('merges the custom role of the user', async () => {
+      db.user.findUnique.mockResolvedValue({
+        role: 'SUPPORT',
+        adminRole: { permissions: [PERMISSIONS.PAYMENTS_READ] },
+      });
+
+      const permissions = await getUserPermissions('user-1');
+
+      expect(permissions).toContain(PERMISSIONS.USERS_READ);
+      expect(permissions).toContain(PERMISSIONS.PAYMENTS_READ);
+    });
+
+    it('returns no permissions for unknown users', async () => {
+      db.user.findUnique.mockResolvedValue(null);
+
+      await expect(getUserPermissions('missing')).resolves.toEqual([]);
+    });
+  });
+
+  describe('createAdminRole', () => {
+    it('rejects unknown permissions', async () => {
+      await expect(
+        createAdminRole({ name: 'Auditor', permissions: ['orders:read', 'orders:delete'] })
+      ).rejects.toMatchObject({ statusCode: 400 });
+      expect(db.adminRole.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('requirePermission', () => {
+    it('passes when any of the listed permissions is granted', () => {
+      const req = { permissions: [PERMISSIONS.USERS_BALANCE] } as AuthRequest;
+      const res = mockResponse();
+      const next = vi.fn() as NextFunction;
+
+      requirePermission(PERMISSIONS.USERS_WRITE, PERMISSIONS.USERS_BALANCE)(req, res, next);
+
+      expect(next).toHaveBeenCalled();
+    });
+
+    it('responds 403 without the permission', () => {
+      const req = { permissions: [PERMISSIONS.ORDERS_READ] } as AuthRequest;
+      const res = mockResponse();
+      const next = vi.fn() as NextFunction;
+
+      requirePermission(PERMISSIONS.G2A_SETTINGS)(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(next).not.toHaveBeenCalled();
+    });
+  });
+});
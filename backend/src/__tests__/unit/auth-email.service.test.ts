@@ -0,0 +1,259 @@
+/**
+ * Unit Tests: Email verification codes and password reset
+ *
+ * Covers the forgot/reset password flow, code checks for email verification and the
+ * confirmed email change flow.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import crypto from 'crypto';
+
+vi.mock('../../config/database', () => import('../../../tests/helpers/mock-database.js'));
+
+vi.mock('../../services/email.service', () => ({
+  sendPasswordResetEmail: vi.fn(),
+  sendEmailVerificationEmail: vi.fn(),
+  sendEmailChangeCodeEmail: vi.fn(),
+  sendEmailChangeNoticeEmail: vi.fn(),
+}));
+
+vi.mock('../../services/session.service', () => ({
+  revokeAllSessions: vi.fn(),
+}));
+
+vi.mock('../../services/login-throttle.service', () => ({
+  unlockAccount: vi.fn(),
+}));
+
+vi.mock('../../utils/bcrypt', () => ({
+  hashPassword: vi.fn(async () => 'new-hash'),
+  comparePassword: vi.fn(async (password: string) => password === 'correct-password'),
+}));
+
+import db from '../../../tests/helpers/mock-database.js';
+import {
+  forgotPassword,
+  resetPassword,
+  verifyEmail,
+  requestEmailChange,
+  confirmEmailChange,
+} from '../../services/auth-email.service';
+import {
+  sendPasswordResetEmail,
+  sendEmailChangeCodeEmail,
+  sendEmailChangeNoticeEmail,
+} from '../../services/email.service';
+import { revokeAllSessions } from '../../services/session.service';
+import { unlockAccount } from '../../services/login-throttle.service';
+
+const tokenHash = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+const resetToken = (overrides: Record<string, unknown> = {}) => ({
+  id: 'token-1',
+  userId: 'user-1',
+  tokenHash: tokenHash('raw-token'),
+  expiresAt: new Date(Date.now() + 60_000),
+  usedAt: null,
+  ...overrides,
+});
+
+const codeHash = (userId: string, code: string) =>
+  crypto.createHash('sha256').update(`${userId}:${code}`).digest('hex');
+
+const pendingCode = (overrides: Record<string, unknown> = {}) => ({
+  id: 'code-1',
+  userId: 'user-1',
+  purpose: 'CHANGE_EMAIL',
+  email: 'new@example.com',
+  codeHash: codeHash('user-1', '123456'),
+  attempts: 0,
+  expiresAt: new Date(Date.now() + 60_000),
+  usedAt: null,
+  ...overrides,
+});
+
+describe('Auth Email Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db.emailVerificationCode.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  describe('forgotPassword', () => {
+    it('emails a reset link and stores only the hash of its token', async () => {
+      db.user.findUnique.mockResolvedValue({ id: 'user-1', email: 'user@example.com' });
+
+      await forgotPassword(' User@Example.com ');
+
+      const { resetLink } = vi.mocked(sendPasswordResetEmail).mock.calls[0][1];
+      const token = new URL(resetLink).searchParams.get('token')!;
+      expect(db.passwordResetToken.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1', usedAt: null },
+        data: { usedAt: expect.any(Date) },
+      });
+      expect(db.passwordResetToken.create).toHaveBeenCalledWith({
+        data: { userId: 'user-1', tokenHash: tokenHash(token), expiresAt: expect.any(Date) },
+      });
+      expect(JSON.stringify(db.passwordResetToken.create.mock.calls)).not.toContain(token);
+    });
+
+    it('does not reveal whether the email has an account', async () => {
+      db.user.findUnique.mockResolvedValue(null);
+
+      await expect(forgotPassword('nobody@example.com')).resolves.toBeUndefined();
+      expect(db.passwordResetToken.create).not.toHaveBeenCalled();
+      expect(sendPasswordResetEmail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resetPassword', () => {
+    beforeEach(() => {
+      db.passwordResetToken.updateMany.mockResolvedValue({ count: 1 });
+    });
+
+    it('sets the new password, signs out every device and lifts a lockout', async () => {
+      db.passwordResetToken.findUnique.mockResolvedValue(resetToken());
+
+      await resetPassword('raw-token', 'NewPassword1!');
+
+      expect(db.passwordResetToken.findUnique).toHaveBeenCalledWith({
+        where: { tokenHash: tokenHash('raw-token') },
+      });
+      expect(db.passwordResetToken.updateMany).toHaveBeenCalledWith({
+        where: { id: 'token-1', usedAt: null },
+        data: { usedAt: expect.any(Date) },
+      });
+      expect(db.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { passwordHash: 'new-hash' },
+      });
+      expect(revokeAllSessions).toHaveBeenCalledWith('user-1', 'password_reset');
+      expect(unlockAccount).toHaveBeenCalledWith('user-1');
+    });
+
+    it('refuses a token that was already used', async () => {
+      db.passwordResetToken.findUnique.mockResolvedValue(resetToken({ usedAt: new Date() }));
+
+      await expect(resetPassword('raw-token', 'NewPassword1!')).rejects.toMatchObject({
+        statusCode: 400,
+      });
+      expect(db.user.update).not.toHaveBeenCalled();
+    });
+
+    it('uses a token only once when two requests race', async () => {
+      db.passwordResetToken.findUnique.mockResolvedValue(resetToken());
+      db.passwordResetToken.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(resetPassword('raw-token', 'NewPassword1!')).rejects.toMatchObject({
+        statusCode: 400,
+      });
+      expect(db.user.update).not.toHaveBeenCalled();
+      expect(revokeAllSessions).not.toHaveBeenCalled();
+      expect(unlockAccount).not.toHaveBeenCalled();
+    });
+
+    it('refuses an expired token', async () => {
+      db.passwordResetToken.findUnique.mockResolvedValue(
+        resetToken({ expiresAt: new Date(Date.now() - 1000) })
+      );
+
+      await expect(resetPassword('raw-token', 'NewPassword1!')).rejects.toMatchObject({
+        statusCode: 400,
+      });
+      expect(db.passwordResetToken.updateMany).not.toHaveBeenCalled();
+      expect(db.user.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('verifyEmail', () => {
+    it('counts wrong codes and leaves the account unverified', async () => {
+      db.user.findUnique.mockResolvedValue({ email: 'user@example.com', emailVerified: false });
+      db.emailVerificationCode.findFirst.mockResolvedValue(
+        pendingCode({ purpose: 'VERIFY_EMAIL', email: 'user@example.com' })
+      );
+
+      await expect(verifyEmail('user-1', '654321')).rejects.toMatchObject({ statusCode: 400 });
+      expect(db.emailVerificationCode.update).toHaveBeenCalledWith({
+        where: { id: 'code-1' },
+        data: { attempts: { increment: 1 } },
+      });
+      expect(db.user.update).not.toHaveBeenCalled();
+    });
+
+    it('refuses further guesses once the attempt limit is reached', async () => {
+      db.user.findUnique.mockResolvedValue({ email: 'user@example.com', emailVerified: false });
+      db.emailVerificationCode.findFirst.mockResolvedValue(
+        pendingCode({ purpose: 'VERIFY_EMAIL', email: 'user@example.com', attempts: 5 })
+      );
+
+      await expect(verifyEmail('user-1', '123456')).rejects.toMatchObject({ statusCode: 429 });
+    });
+
+    it('marks the email verified with the right code', async () => {
+      db.user.findUnique.mockResolvedValue({ email: 'user@example.com', emailVerified: false });
+      db.emailVerificationCode.findFirst.mockResolvedValue(
+        pendingCode({ purpose: 'VERIFY_EMAIL', email: 'user@example.com' })
+      );
+
+      await verifyEmail('user-1', '123456');
+
+      expect(db.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { emailVerified: true, emailVerifiedAt: expect.any(Date) },
+      });
+    });
+  });
+
+  describe('requestEmailChange', () => {
+    it('rejects an address used by another account', async () => {
+      db.user.findUnique
+        .mockResolvedValueOnce({ id: 'user-1', email: 'user@example.com', passwordHash: 'hash' })
+        .mockResolvedValueOnce({ id: 'user-2' });
+
+      await expect(
+        requestEmailChange('user-1', 'taken@example.com', 'correct-password')
+      ).rejects.toMatchObject({ statusCode: 409 });
+      expect(db.emailVerificationCode.create).not.toHaveBeenCalled();
+    });
+
+    it('sends a code to the new address and a notice to the current one', async () => {
+      db.user.findUnique
+        .mockResolvedValueOnce({ id: 'user-1', email: 'user@example.com', passwordHash: 'hash' })
+        .mockResolvedValueOnce(null);
+
+      await requestEmailChange('user-1', 'New@Example.com', 'correct-password');
+
+      expect(db.user.update).not.toHaveBeenCalled();
+      expect(sendEmailChangeCodeEmail).toHaveBeenCalledWith('new@example.com', expect.any(Object));
+      expect(sendEmailChangeNoticeEmail).toHaveBeenCalledWith('user@example.com', {
+        newEmail: 'new@example.com',
+        resetLink: expect.stringContaining('/forgot-password'),
+      });
+    });
+  });
+
+  describe('confirmEmailChange', () => {
+    it('applies the new email and signs out other devices', async () => {
+      db.emailVerificationCode.findFirst.mockResolvedValue(pendingCode());
+
+      const result = await confirmEmailChange('user-1', '123456', 'session-1');
+
+      expect(result).toEqual({ email: 'new@example.com' });
+      expect(db.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { email: 'new@example.com', emailVerified: true, emailVerifiedAt: expect.any(Date) },
+      });
+      expect(revokeAllSessions).toHaveBeenCalledWith('user-1', 'email_changed', 'session-1');
+    });
+
+    it('does not apply a code that was already used', async () => {
+      db.emailVerificationCode.findFirst.mockResolvedValue(pendingCode());
+      db.emailVerificationCode.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(confirmEmailChange('user-1', '123456')).rejects.toMatchObject({
+        statusCode: 400,
+      });
+      expect(db.user.update).not.toHaveBeenCalled();
+      expect(revokeAllSessions).not.toHaveBeenCalled();
+    });
+  });
+});
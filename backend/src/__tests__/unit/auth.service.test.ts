@@ -0,0 +1,132 @@
+/**
+ * Unit Tests: Two-factor login challenge
+ *
+ * Covers throttling the challenge routes and counting wrong codes during mandatory enrolment.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('../../config/database', () => import('../../../tests/helpers/mock-database.js'));
+
+vi.mock('../../utils/bcrypt', () => ({
+  hashPassword: vi.fn(),
+  comparePassword: vi.fn(),
+}));
+
+vi.mock('../../utils/jwt', () => ({
+  generateTwoFactorChallengeToken: vi.fn(),
+  verifyTwoFactorChallengeToken: vi.fn((token: string) => {
+    if (token !== 'challenge-token') {
+      throw new Error('invalid token');
+    }
+    return { userId: 'user-1' };
+  }),
+}));
+
+vi.mock('../../services/two-factor.service', () => ({
+  isTwoFactorRequiredForRole: vi.fn(() => true),
+  verifyTwoFactorCode: vi.fn(),
+  enableTwoFactor: vi.fn(),
+  beginTwoFactorSetup: vi.fn(),
+}));
+
+vi.mock('../../services/session.service', () => ({
+  createSession: vi.fn(),
+  rotateRefreshToken: vi.fn(),
+}));
+
+vi.mock('../../services/admin-role.service', () => ({
+  getUserPermissions: vi.fn(),
+}));
+
+vi.mock('../../services/login-throttle.service', () => ({
+  assertIpNotThrottled: vi.fn(),
+  assertAccountNotThrottled: vi.fn(),
+  registerFailedLogin: vi.fn(),
+  clearFailedLogins: vi.fn(),
+}));
+
+import db from '../../../tests/helpers/mock-database.js';
+import { beginChallengeTwoFactorSetup, verifyTwoFactorLogin } from '../../services/auth.service';
+import { beginTwoFactorSetup, enableTwoFactor } from '../../services/two-factor.service';
+import {
+  assertAccountNotThrottled,
+  assertIpNotThrottled,
+  registerFailedLogin,
+} from '../../services/login-throttle.service';
+import { AppError } from '../../middleware/errorHandler';
+
+const enrollingUser = {
+  id: 'user-1',
+  email: 'admin@example.com',
+  role: 'ADMIN',
+  twoFactorEnabled: false,
+  lockedUntil: null,
+  loginFailuresResetAt: null,
+};
+
+describe('Auth Service two-factor challenge', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db.user.findUnique.mockResolvedValue(enrollingUser);
+    db.loginHistory.create.mockResolvedValue({ id: 'history-1' });
+  });
+
+  describe('verifyTwoFactorLogin', () => {
+    it('counts a wrong enrolment code like a wrong two-factor code', async () => {
+      vi.mocked(enableTwoFactor).mockRejectedValue(
+        new AppError('Invalid authentication code', 400)
+      );
+
+      await expect(
+        verifyTwoFactorLogin(
+          { challengeToken: 'challenge-token', code: '000000' },
+          undefined,
+          '10.0.0.1'
+        )
+      ).rejects.toMatchObject({ message: 'Invalid authentication code' });
+
+      expect(db.loginHistory.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ userId: 'user-1', success: false, ipAddress: '10.0.0.1' }),
+      });
+      expect(registerFailedLogin).toHaveBeenCalledWith('10.0.0.1', enrollingUser);
+    });
+
+    it('refuses codes from a throttled IP before checking them', async () => {
+      vi.mocked(assertIpNotThrottled).mockRejectedValueOnce(
+        new AppError('Too many login attempts', 429)
+      );
+
+      await expect(
+        verifyTwoFactorLogin(
+          { challengeToken: 'challenge-token', code: '000000' },
+          undefined,
+          '10.0.0.1'
+        )
+      ).rejects.toMatchObject({ statusCode: 429 });
+      expect(enableTwoFactor).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('beginChallengeTwoFactorSetup', () => {
+    it('counts an invalid challenge token against the IP', async () => {
+      await expect(beginChallengeTwoFactorSetup('forged-token', '10.0.0.1')).rejects.toMatchObject({
+        statusCode: 401,
+      });
+      expect(registerFailedLogin).toHaveBeenCalledWith('10.0.0.1');
+      expect(beginTwoFactorSetup).not.toHaveBeenCalled();
+    });
+
+    it('does not restart enrolment for a throttled account', async () => {
+      vi.mocked(assertAccountNotThrottled).mockRejectedValueOnce(
+        new AppError('Invalid email or password', 401)
+      );
+
+      await expect(
+        beginChallengeTwoFactorSetup('challenge-token', '10.0.0.1')
+      ).rejects.toMatchObject({ statusCode: 401 });
+      expect(assertIpNotThrottled).toHaveBeenCalledWith('10.0.0.1');
+      expect(beginTwoFactorSetup).not.toHaveBeenCalled();
+    });
+  });
+});
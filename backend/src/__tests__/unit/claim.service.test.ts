@@ -0,0 +1,287 @@
+/**
+ * Unit Tests: Order claims
+ *
+ * Covers customers opening claims on delivered items and admins resolving them with a
+ * replacement key, a refund to balance or a rejection.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('../../config/database', () => import('../../../tests/helpers/mock-database.js'));
+
+vi.mock('../../services/key-pool.service', () => ({
+  claimPoolKeys: vi.fn(),
+  syncPoolStock: vi.fn(),
+}));
+
+vi.mock('../../services/email.service', () => ({
+  sendClaimUpdateEmail: vi.fn(),
+  sendGameKeyEmail: vi.fn(),
+}));
+
+vi.mock('../../utils/game-key-crypto', () => ({
+  decryptGameKey: vi.fn(() => 'NEW-KEY'),
+  maskGameKey: vi.fn(() => '****-KEY'),
+}));
+
+import db from '../../../tests/helpers/mock-database.js';
+import {
+  createClaim,
+  refundClaim,
+  rejectClaim,
+  replaceClaimKey,
+} from '../../services/claim.service';
+import { claimPoolKeys, syncPoolStock } from '../../services/key-pool.service';
+import { sendClaimUpdateEmail, sendGameKeyEmail } from '../../services/email.service';
+
+const openClaim = {
+  id: 'claim-1',
+  orderId: 'order-1',
+  orderItemId: 'item-1',
+  userId: 'user-1',
+  gameKeyId: 'key-1',
+  status: 'OPEN',
+  user: { email: 'customer@example.com' },
+  order: { status: 'COMPLETED', subtotal: 40, total: 30, paymentMethod: 'balance' },
+  orderItem: {
+    price: 20,
+    quantity: 2,
+    fulfilledQuantity: 2,
+    refundedQuantity: 0,
+    game: { id: 'game-1', title: 'Test Game', platforms: [{ platform: { name: 'Steam' } }] },
+  },
+};
+
+const deliveredItem = {
+  id: 'item-1',
+  order: { status: 'COMPLETED', gift: null, user: { email: 'customer@example.com' } },
+  game: { title: 'Test Game' },
+  keys: [{ id: 'key-1' }],
+};
+
+const claimRecord = {
+  ...openClaim,
+  gameKeyId: null,
+  type: 'KEY_NOT_WORKING',
+  reason: 'Key already used',
+  screenshot: null,
+  resolutionNote: null,
+  refundAmount: null,
+  resolvedAt: null,
+  createdAt: new Date('2026-01-23T09:00:00Z'),
+  orderItem: { game: { id: 'game-1', title: 'Test Game' } },
+  gameKey: null,
+  replacementKey: null,
+  events: [],
+  user: { id: 'user-1', email: 'customer@example.com', nickname: null },
+};
+
+describe('Claim Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db.orderClaim.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  describe('createClaim', () => {
+    it('opens a claim on a delivered item and emails the customer', async () => {
+      db.orderItem.findFirst.mockResolvedValue(deliveredItem);
+      db.orderClaim.findFirst.mockResolvedValue(null);
+      db.orderClaim.create.mockResolvedValue(claimRecord);
+
+      const claim = await createClaim('user-1', 'order-1', {
+        orderItemId: 'item-1',
+        type: 'KEY_NOT_WORKING',
+        reason: '  Key already used  ',
+      });
+
+      expect(db.orderClaim.create.mock.calls[0][0].data).toMatchObject({
+        gameKeyId: 'key-1',
+        reason: 'Key already used',
+        events: { create: { status: 'OPEN', actorType: 'CUSTOMER', actorId: 'user-1' } },
+      });
+      expect(claim.status).toBe('OPEN');
+      expect(sendClaimUpdateEmail).toHaveBeenCalledWith(
+        'customer@example.com',
+        expect.objectContaining({ subject: expect.stringContaining('Test Game') })
+      );
+    });
+
+    it('allows only one open claim per item', async () => {
+      db.orderItem.findFirst.mockResolvedValue(deliveredItem);
+      db.orderClaim.findFirst.mockResolvedValue({ status: 'OPEN' });
+
+      await expect(
+        createClaim('user-1', 'order-1', {
+          orderItemId: 'item-1',
+          type: 'REFUND_REQUEST',
+          reason: 'Bought by mistake',
+        })
+      ).rejects.toMatchObject({ statusCode: 409 });
+      expect(db.orderClaim.create).not.toHaveBeenCalled();
+    });
+
+    it('refuses a new claim on an item that was already refunded', async () => {
+      db.orderItem.findFirst.mockResolvedValue(deliveredItem);
+      db.orderClaim.findFirst.mockResolvedValue({ status: 'REFUNDED' });
+
+      await expect(
+        createClaim('user-1', 'order-1', {
+          orderItemId: 'item-1',
+          type: 'REFUND_REQUEST',
+          reason: 'Bought by mistake',
+        })
+      ).rejects.toMatchObject({ statusCode: 409 });
+      expect(db.orderClaim.findFirst).toHaveBeenCalledWith({
+        where: { orderItemId: 'item-1', status: { in: ['OPEN', 'REFUNDED', 'REPLACED'] } },
+        select: { status: true },
+      });
+      expect(db.orderClaim.create).not.toHaveBeenCalled();
+    });
+
+    it('refuses claims by the buyer of a gifted order', async () => {
+      db.orderItem.findFirst.mockResolvedValue({
+        ...deliveredItem,
+        order: { ...deliveredItem.order, gift: { id: 'gift-1' } },
+      });
+
+      await expect(
+        createClaim('user-1', 'order-1', {
+          orderItemId: 'item-1',
+          type: 'REFUND_REQUEST',
+          reason: 'Bought by mistake',
+        })
+      ).rejects.toMatchObject({ statusCode: 403 });
+      expect(db.orderClaim.create).not.toHaveBeenCalled();
+    });
+
+    it('asks which key to refund when the item has several keys', async () => {
+      db.orderItem.findFirst.mockResolvedValue({
+        ...deliveredItem,
+        keys: [{ id: 'key-1' }, { id: 'key-2' }],
+      });
+
+      await expect(
+        createClaim('user-1', 'order-1', {
+          orderItemId: 'item-1',
+          type: 'REFUND_REQUEST',
+          reason: 'Bought one too many',
+        })
+      ).rejects.toMatchObject({ statusCode: 400 });
+      expect(db.orderClaim.create).not.toHaveBeenCalled();
+    });
+
+    it('rejects screenshots that are not images', async () => {
+      await expect(
+        createClaim('user-1', 'order-1', {
+          orderItemId: 'item-1',
+          type: 'KEY_NOT_WORKING',
+          reason: 'Invalid key',
+          screenshot: 'data:text/html;base64,PGI+',
+        })
+      ).rejects.toMatchObject({ statusCode: 400 });
+    });
+  });
+
+  describe('resolving claims', () => {
+    beforeEach(() => {
+      db.orderClaim.findUnique.mockResolvedValueOnce(openClaim).mockResolvedValue(claimRecord);
+      db.orderItem.updateMany.mockResolvedValue({ count: 1 });
+    });
+
+    it('sends a replacement key from the pool', async () => {
+      vi.mocked(claimPoolKeys).mockResolvedValue({ keyIds: ['key-2'], requested: 1 });
+      db.gameKey.findUniqueOrThrow.mockResolvedValue({ id: 'key-2' });
+
+      await replaceClaimKey('claim-1', 'admin-1');
+
+      expect(db.orderClaim.updateMany).toHaveBeenCalledWith({
+        where: { id: 'claim-1', status: 'OPEN' },
+        data: expect.objectContaining({ status: 'REPLACED', replacementKeyId: 'key-2' }),
+      });
+      expect(db.orderClaimEvent.create.mock.calls[0][0].data).toMatchObject({
+        status: 'REPLACED',
+        actorType: 'ADMIN',
+        actorId: 'admin-1',
+      });
+      expect(sendGameKeyEmail).toHaveBeenCalledWith('customer@example.com', {
+        gameTitle: 'Test Game',
+        key: 'NEW-KEY',
+        platform: 'Steam',
+      });
+      expect(syncPoolStock).toHaveBeenCalledWith('game-1');
+    });
+
+    it('fails when the pool has no replacement key', async () => {
+      vi.mocked(claimPoolKeys).mockResolvedValue({ keyIds: [], requested: 1 });
+
+      await expect(replaceClaimKey('claim-1', 'admin-1')).rejects.toMatchObject({
+        statusCode: 409,
+      });
+      expect(db.orderClaim.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('refunds the discounted unit price to the balance', async () => {
+      db.transaction.aggregate.mockResolvedValue({ _sum: { amount: null } });
+
+      await refundClaim('claim-1', 'admin-1');
+
+      // 20 of a 40 subtotal paid with a total of 30
+      expect(db.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { balance: { increment: 15 } },
+      });
+      expect(db.transaction.create.mock.calls[0][0].data).toMatchObject({
+        type: 'REFUND',
+        amount: 15,
+        orderId: 'order-1',
+      });
+    });
+
+    it('moves the refunded unit from delivered to refunded and revokes the key', async () => {
+      db.transaction.aggregate.mockResolvedValue({ _sum: { amount: null } });
+
+      await refundClaim('claim-1', 'admin-1');
+
+      expect(db.orderItem.updateMany).toHaveBeenCalledWith({
+        where: { id: 'item-1', fulfilledQuantity: 2, refundedQuantity: 0 },
+        data: {
+          fulfilledQuantity: { decrement: 1 },
+          refundedQuantity: { increment: 1 },
+          fulfillmentStatus: 'REFUNDED',
+        },
+      });
+      expect(db.gameKey.update).toHaveBeenCalledWith({
+        where: { id: 'key-1' },
+        data: { revokedAt: expect.any(Date) },
+      });
+    });
+
+    it('does not refund a unit that a concurrent refund already took', async () => {
+      db.orderItem.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(refundClaim('claim-1', 'admin-1')).rejects.toMatchObject({ statusCode: 409 });
+      expect(db.orderClaim.updateMany).not.toHaveBeenCalled();
+      expect(db.user.update).not.toHaveBeenCalled();
+      expect(db.transaction.create).not.toHaveBeenCalled();
+    });
+
+    it('refuses a refund once every delivered unit was refunded', async () => {
+      db.orderClaim.findUnique.mockReset();
+      db.orderClaim.findUnique.mockResolvedValueOnce({
+        ...openClaim,
+        orderItem: { ...openClaim.orderItem, fulfilledQuantity: 0, refundedQuantity: 2 },
+      });
+
+      await expect(refundClaim('claim-1', 'admin-1')).rejects.toMatchObject({ statusCode: 400 });
+      expect(db.orderItem.updateMany).not.toHaveBeenCalled();
+      expect(db.user.update).not.toHaveBeenCalled();
+    });
+
+    it('requires a reason to reject', async () => {
+      await expect(rejectClaim('claim-1', 'admin-1', ' ')).rejects.toMatchObject({
+        statusCode: 400,
+      });
+      expect(db.orderClaim.updateMany).not.toHaveBeenCalled();
+    });
+  });
+});
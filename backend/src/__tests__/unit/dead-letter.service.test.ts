@@ -0,0 +1,241 @@
+/**
+ * Unit Tests: Fulfilment Dead Letters
+ *
+ * Covers storing failed key deliveries with their attempts and staff retrying or
+ * refunding them.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('../../config/database', () => import('../../../tests/helpers/mock-database.js'));
+
+vi.mock('../../services/key-pool.service', () => ({
+  countAvailablePoolKeys: vi.fn(),
+}));
+
+vi.mock('../../services/order-fulfillment.service', () => ({
+  fulfillOrderItem: vi.fn(),
+  getOutstandingQuantity: (item: {
+    quantity: number;
+    fulfilledQuantity: number;
+    refundedQuantity: number;
+  }) => Math.max(0, item.quantity - item.fulfilledQuantity - item.refundedQuantity),
+  getSupplierClient: vi.fn(),
+  recordSupplierOrderIds: vi.fn(),
+  refundOrderItem: vi.fn(),
+  settleOrderStatus: vi.fn(),
+}));
+
+vi.mock('../../services/cache.service', () => ({
+  invalidateCache: vi.fn(),
+}));
+
+import db from '../../../tests/helpers/mock-database.js';
+import {
+  getDeadLetters,
+  recordFulfillmentFailure,
+  refundDeadLetter,
+  retryDeadLetter,
+} from '../../services/dead-letter.service';
+import { countAvailablePoolKeys } from '../../services/key-pool.service';
+import {
+  fulfillOrderItem,
+  getSupplierClient,
+  refundOrderItem,
+  settleOrderStatus,
+} from '../../services/order-fulfillment.service';
+
+const deadLetter = (overrides: Record<string, unknown> = {}) => ({
+  id: 'letter-1',
+  orderId: 'order-1',
+  source: 'QUEUE',
+  jobId: 'order-order-1',
+  payload: { orderId: 'order-1' },
+  error: 'Error: G2A timeout',
+  attempts: [{ attempt: 1, source: 'QUEUE', error: 'Error: G2A timeout' }],
+  status: 'OPEN',
+  resolvedBy: null,
+  resolvedAt: null,
+  resolveNote: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  order: {
+    status: 'PROCESSING',
+    total: 20,
+    userId: 'user-1',
+    createdAt: new Date(),
+    user: { email: 'buyer@example.com' },
+    items: [
+      {
+        id: 'item-1',
+        gameId: 'game-1',
+        quantity: 2,
+        fulfilledQuantity: 0,
+        refundedQuantity: 0,
+        fulfillmentStatus: 'FAILED',
+        fulfillmentError: 'G2A timeout',
+        game: { title: 'Test Game', g2aProductId: 'g2a-product-1' },
+      },
+    ],
+  },
+  ...overrides,
+});
+
+describe('Dead Letter Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db.fulfillmentDeadLetter.findUnique.mockResolvedValue(deadLetter());
+    db.fulfillmentDeadLetter.update.mockImplementation(({ data }: { data: object }) => ({
+      ...deadLetter(),
+      ...data,
+    }));
+    vi.mocked(countAvailablePoolKeys).mockResolvedValue(new Map([['game-1', 5]]));
+    vi.mocked(getSupplierClient).mockResolvedValue({} as never);
+    vi.mocked(settleOrderStatus).mockResolvedValue('COMPLETED');
+  });
+
+  describe('recordFulfillmentFailure', () => {
+    it('stores a failed delivery with its attempts', async () => {
+      db.fulfillmentDeadLetter.findFirst.mockResolvedValue(null);
+
+      await recordFulfillmentFailure({
+        orderId: 'order-1',
+        source: 'QUEUE',
+        jobId: 'order-order-1',
+        payload: { orderId: 'order-1' },
+        attempts: [{ error: 'Error: first' }, { error: 'Error: second' }],
+      });
+
+      expect(db.fulfillmentDeadLetter.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          orderId: 'order-1',
+          error: 'Error: second',
+          attempts: [
+            expect.objectContaining({ attempt: 1, source: 'QUEUE', error: 'Error: first' }),
+            expect.objectContaining({ attempt: 2, source: 'QUEUE', error: 'Error: second' }),
+          ],
+        }),
+      });
+    });
+
+    it('adds later failures of the same order to its open dead letter', async () => {
+      db.fulfillmentDeadLetter.findFirst.mockResolvedValue(deadLetter());
+
+      await recordFulfillmentFailure({
+        orderId: 'order-1',
+        source: 'SYNC',
+        payload: { orderId: 'order-1' },
+        attempts: [{ error: 'Out of stock' }],
+      });
+
+      expect(db.fulfillmentDeadLetter.create).not.toHaveBeenCalled();
+      expect(db.fulfillmentDeadLetter.update).toHaveBeenCalledWith({
+        where: { id: 'letter-1' },
+        data: expect.objectContaining({
+          source: 'SYNC',
+          attempts: [
+            expect.objectContaining({ attempt: 1 }),
+            expect.objectContaining({ attempt: 2, source: 'SYNC', error: 'Out of stock' }),
+          ],
+        }),
+      });
+    });
+  });
+
+  describe('getDeadLetters', () => {
+    it('rejects an unknown status', async () => {
+      await expect(getDeadLetters({ status: 'LOST' })).rejects.toMatchObject({ statusCode: 400 });
+    });
+  });
+
+  describe('retryDeadLetter', () => {
+    it('closes the dead letter once every unit is delivered', async () => {
+      vi.mocked(fulfillOrderItem).mockResolvedValue({
+        itemId: 'item-1',
+        status: 'FULFILLED',
+        delivered: 2,
+        refunded: 0,
+      });
+      db.orderItem.findMany.mockResolvedValue([
+        { quantity: 2, fulfilledQuantity: 2, refundedQuantity: 0 },
+      ]);
+
+      const result = await retryDeadLetter('letter-1', 'admin-1');
+
+      expect(fulfillOrderItem).toHaveBeenCalledWith('item-1', {}, { supplier: 'G2A' });
+      expect(result).toMatchObject({ orderStatus: 'COMPLETED', delivered: 2 });
+      expect(db.fulfillmentDeadLetter.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ status: 'RETRIED', resolvedById: 'admin-1' }),
+        })
+      );
+    });
+
+    it('keeps the dead letter open and records the retry when units are still open', async () => {
+      vi.mocked(fulfillOrderItem).mockResolvedValue({
+        itemId: 'item-1',
+        status: 'PENDING',
+        delivered: 1,
+        refunded: 0,
+        error: 'Not enough keys in the local pool (1 of 2 delivered)',
+      });
+      db.orderItem.findMany.mockResolvedValue([
+        { quantity: 2, fulfilledQuantity: 1, refundedQuantity: 0 },
+      ]);
+      vi.mocked(settleOrderStatus).mockResolvedValue('PARTIALLY_COMPLETED');
+
+      await retryDeadLetter('letter-1', 'admin-1', 'POOL');
+
+      expect(getSupplierClient).not.toHaveBeenCalled();
+      expect(fulfillOrderItem).toHaveBeenCalledWith('item-1', null, { supplier: 'POOL' });
+      const { data } = db.fulfillmentDeadLetter.update.mock.calls[0][0];
+      expect(data.status).toBeUndefined();
+      expect(data.attempts[1]).toMatchObject({
+        attempt: 2,
+        source: 'RETRY',
+        supplier: 'POOL',
+        error: 'Test Game: Not enough keys in the local pool (1 of 2 delivered)',
+      });
+    });
+
+    it('refuses resolved dead letters', async () => {
+      db.fulfillmentDeadLetter.findUnique.mockResolvedValue(deadLetter({ status: 'REFUNDED' }));
+
+      await expect(retryDeadLetter('letter-1', 'admin-1')).rejects.toMatchObject({
+        statusCode: 400,
+      });
+      expect(fulfillOrderItem).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('refundDeadLetter', () => {
+    it('refunds the open units and closes the dead letter', async () => {
+      vi.mocked(refundOrderItem).mockResolvedValue({ itemId: 'item-1', units: 2, amount: 20 });
+      vi.mocked(settleOrderStatus).mockResolvedValue('FAILED');
+
+      const result = await refundDeadLetter('letter-1', 'admin-1', 'Supplier out of stock');
+
+      expect(refundOrderItem).toHaveBeenCalledWith('item-1', 'Supplier out of stock');
+      expect(result).toMatchObject({ orderStatus: 'FAILED', refundedUnits: 2, refundedAmount: 20 });
+      expect(db.fulfillmentDeadLetter.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            status: 'REFUNDED',
+            resolveNote: 'Supplier out of stock',
+          }),
+        })
+      );
+    });
+
+    it('only closes the dead letter of an order cancelled in the meantime', async () => {
+      db.fulfillmentDeadLetter.findUnique.mockResolvedValue(
+        deadLetter({ order: { ...deadLetter().order, status: 'CANCELLED' } })
+      );
+
+      const result = await refundDeadLetter('letter-1', 'admin-1');
+
+      expect(refundOrderItem).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ orderStatus: 'CANCELLED', refundedUnits: 0 });
+    });
+  });
+});
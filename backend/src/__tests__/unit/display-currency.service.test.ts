@@ -0,0 +1,105 @@
+/**
+ * Unit Tests: Display Currency
+ *
+ * Covers picking the storefront currency from the request, converting EUR prices with
+ * per-currency rounding and falling back to EUR when no current rate is available.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+vi.mock('../../services/exchange-rate.service', () => ({
+  convertCurrency: vi.fn(),
+}));
+
+import { AppError } from '../../middleware/errorHandler';
+import { convertCurrency } from '../../services/exchange-rate.service';
+import {
+  BASE_PRICING,
+  detectDisplayCurrency,
+  fromDisplayPrice,
+  getDisplayCurrencies,
+  getDisplayPricing,
+  resolveDisplayCurrency,
+  toDisplayPrice,
+} from '../../services/display-currency.service';
+
+describe('Display Currency Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    delete process.env.DISPLAY_CURRENCIES;
+  });
+
+  describe('choosing a currency', () => {
+    it('always offers EUR next to the configured currencies', () => {
+      process.env.DISPLAY_CURRENCIES = 'pln, usd, euro';
+
+      expect(getDisplayCurrencies()).toEqual(['EUR', 'PLN', 'USD']);
+    });
+
+    it('detects the currency from the browser language', () => {
+      expect(detectDisplayCurrency('pl-PL,pl;q=0.9,en;q=0.8')).toBe('PLN');
+      expect(detectDisplayCurrency('en-GB,en;q=0.9')).toBe('GBP');
+      expect(detectDisplayCurrency('de-DE,de;q=0.9')).toBe('EUR');
+      expect(detectDisplayCurrency(undefined)).toBe('EUR');
+    });
+
+    it('skips detected currencies that are not offered', () => {
+      process.env.DISPLAY_CURRENCIES = 'EUR,PLN';
+
+      expect(detectDisplayCurrency('en-US,pl;q=0.5')).toBe('PLN');
+    });
+
+    it('prefers an offered requested currency over the detected one', () => {
+      expect(resolveDisplayCurrency('usd', 'pl-PL')).toBe('USD');
+      expect(resolveDisplayCurrency('JPY', 'pl-PL')).toBe('PLN');
+    });
+  });
+
+  describe('converting prices', () => {
+    it('rounds half up to the minor unit of the currency', () => {
+      expect(toDisplayPrice(19.99, { currency: 'PLN', rate: 4.3 })).toBe(85.96);
+      expect(toDisplayPrice(1.005, { currency: 'USD', rate: 1 })).toBe(1.01);
+      expect(toDisplayPrice(9.99, { currency: 'JPY', rate: 161.25 })).toBe(1611);
+      expect(toDisplayPrice(19.99, BASE_PRICING)).toBe(19.99);
+    });
+
+    it('converts filter amounts back to EUR', () => {
+      expect(fromDisplayPrice(100, { currency: 'PLN', rate: 4.3 })).toBe(23.26);
+      expect(fromDisplayPrice(25, BASE_PRICING)).toBe(25);
+    });
+  });
+
+  describe('getDisplayPricing', () => {
+    it('uses the current rate of the currency', async () => {
+      vi.mocked(convertCurrency).mockResolvedValue({
+        amount: 4.3,
+        currency: 'PLN',
+        originalAmount: 1,
+        originalCurrency: 'EUR',
+        rate: 4.3,
+      });
+
+      await expect(getDisplayPricing('PLN')).resolves.toEqual({ currency: 'PLN', rate: 4.3 });
+      expect(convertCurrency).toHaveBeenCalledWith(1, 'EUR', 'PLN');
+    });
+
+    it('falls back to EUR when no current rate is available', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      vi.mocked(convertCurrency).mockRejectedValue(
+        new AppError('No exchange rate for GBP is available', 503)
+      );
+
+      await expect(getDisplayPricing('GBP')).resolves.toEqual(BASE_PRICING);
+      expect(warn).toHaveBeenCalled();
+      warn.mockRestore();
+    });
+
+    it('does not look up a rate for EUR', async () => {
+      await expect(getDisplayPricing('EUR')).resolves.toEqual(BASE_PRICING);
+      expect(convertCurrency).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,235 @@
+/**
+ * Unit Tests: Exchange Rates
+ *
+ * Covers converting with the newest stored rates, refusing missing or stale rates,
+ * storing rates from the provider and overriding them by hand.
+ */
+
+import { mkdtemp, rm, stat, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+vi.mock('../../config/database', () => import('../../../tests/helpers/mock-database.js'));
+
+vi.mock('../../services/cache.service', () => ({
+  invalidateCache: vi.fn(),
+}));
+
+import db from '../../../tests/helpers/mock-database.js';
+import { invalidateCache } from '../../services/cache.service';
+import {
+  convertCurrency,
+  refreshExchangeRates,
+  setExchangeRate,
+  toTransactionConversion,
+  updateExchangeRateSettings,
+} from '../../services/exchange-rate.service';
+
+const hoursAgo = (hours: number) => new Date(Date.now() - hours * 60 * 60 * 1000);
+
+const storedRate = (currency: string, rate: number, effectiveAt = new Date()) => ({
+  id: `rate-${currency}`,
+  currency,
+  rate,
+  source: 'PROVIDER',
+  provider: 'file',
+  note: null,
+  createdById: null,
+  createdBy: null,
+  effectiveAt,
+  createdAt: new Date(),
+});
+
+describe('Exchange Rate Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db.exchangeRateSettings.findUnique.mockResolvedValue({ maxRateAgeHours: 24 });
+    db.exchangeRate.findMany.mockResolvedValue([]);
+  });
+
+  describe('convertCurrency', () => {
+    it('converts with the newest rates and returns the rate used', async () => {
+      db.exchangeRate.findFirst.mockImplementation(({ where }: { where: { currency: string } }) =>
+        where.currency === 'PLN' ? storedRate('PLN', 4.3) : storedRate('USD', 1.1)
+      );
+
+      const toEur = await convertCurrency(430, 'pln', 'EUR');
+      const toUsd = await convertCurrency(430, 'PLN', 'USD');
+
+      expect(toEur).toEqual({
+        amount: 100,
+        currency: 'EUR',
+        originalAmount: 430,
+        originalCurrency: 'PLN',
+        rate: 0.23255814,
+      });
+      expect(toUsd).toMatchObject({ amount: 110, currency: 'USD', rate: 0.25581395 });
+      expect(toTransactionConversion(toEur)).toEqual({
+        originalAmount: 430,
+        originalCurrency: 'PLN',
+        exchangeRate: 0.23255814,
+      });
+    });
+
+    it('does not look up a rate when nothing is converted', async () => {
+      const result = await convertCurrency(50, 'EUR', 'EUR');
+
+      expect(result).toMatchObject({ amount: 50, rate: 1 });
+      expect(toTransactionConversion(result)).toEqual({});
+      expect(db.exchangeRate.findFirst).not.toHaveBeenCalled();
+    });
+
+    it('refuses a rate published longer ago than the maximum rate age', async () => {
+      db.exchangeRate.findFirst.mockResolvedValue(storedRate('PLN', 4.3, hoursAgo(30)));
+
+      await expect(convertCurrency(100, 'PLN', 'EUR')).rejects.toMatchObject({
+        statusCode: 503,
+      });
+    });
+
+    it('refuses a currency without a rate', async () => {
+      db.exchangeRate.findFirst.mockResolvedValue(null);
+
+      await expect(convertCurrency(100, 'EUR', 'CHF')).rejects.toMatchObject({
+        statusCode: 503,
+        message: 'No exchange rate for CHF is available',
+      });
+    });
+
+    it('rejects an invalid currency code', async () => {
+      await expect(convertCurrency(100, 'euro', 'EUR')).rejects.toMatchObject({
+        statusCode: 400,
+      });
+    });
+  });
+
+  describe('refreshExchangeRates', () => {
+    let dir: string;
+    let file: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(path.join(tmpdir(), 'rates-'));
+      file = path.join(dir, 'rates.json');
+      process.env.EXCHANGE_RATES_FILE = file;
+    });
+
+    afterEach(async () => {
+      delete process.env.EXCHANGE_RATES_FILE;
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('stores the provider rates and skips entries that are not rates', async () => {
+      await writeFile(
+        file,
+        JSON.stringify({
+          asOf: '2026-02-02T14:00:00Z',
+          rates: { PLN: 4.27, usd: 1.08, EUR: 1, GBP: 0, XX: 2 },
+        })
+      );
+      const asOf = new Date('2026-02-02T14:00:00Z');
+
+      const result = await refreshExchangeRates('admin-1');
+
+      expect(result).toEqual({ provider: 'file', updated: ['PLN', 'USD'], unchanged: [] });
+      expect(db.exchangeRate.createMany).toHaveBeenCalledWith({
+        data: [
+          {
+            currency: 'PLN',
+            rate: 4.27,
+            source: 'PROVIDER',
+            provider: 'file',
+            effectiveAt: asOf,
+            createdById: 'admin-1',
+          },
+          {
+            currency: 'USD',
+            rate: 1.08,
+            source: 'PROVIDER',
+            provider: 'file',
+            effectiveAt: asOf,
+            createdById: 'admin-1',
+          },
+        ],
+      });
+      expect(invalidateCache).toHaveBeenCalledWith('*:PLN');
+      expect(invalidateCache).toHaveBeenCalledWith('*:USD');
+    });
+
+    it('leaves rates alone when the provider has nothing newer', async () => {
+      await writeFile(file, JSON.stringify({ PLN: 4.27, USD: 1.08 }));
+      const { mtime } = await stat(file);
+      db.exchangeRate.findMany.mockResolvedValue([
+        storedRate('PLN', 4.27, mtime),
+        storedRate('USD', 1.07, hoursAgo(30)),
+      ]);
+
+      const result = await refreshExchangeRates();
+
+      expect(result).toEqual({ provider: 'file', updated: ['USD'], unchanged: ['PLN'] });
+      expect(db.exchangeRate.createMany).toHaveBeenCalledWith({
+        data: [expect.objectContaining({ currency: 'USD', rate: 1.08, effectiveAt: mtime })],
+      });
+      expect(invalidateCache).not.toHaveBeenCalledWith('*:PLN');
+    });
+
+    it('fails when the provider cannot be read', async () => {
+      await expect(refreshExchangeRates()).rejects.toMatchObject({ statusCode: 503 });
+      expect(db.exchangeRate.createMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('setExchangeRate', () => {
+    it('stores a manual rate', async () => {
+      db.exchangeRate.create.mockImplementation(({ data }: { data: Record<string, unknown> }) => ({
+        ...storedRate('PLN', 4.25),
+        ...data,
+        createdBy: { email: 'finance@example.com' },
+      }));
+
+      const result = await setExchangeRate(
+        { currency: 'pln', rate: 4.25, note: ' Bank rate ' },
+        'admin-1'
+      );
+
+      expect(db.exchangeRate.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: {
+            currency: 'PLN',
+            rate: 4.25,
+            source: 'MANUAL',
+            note: 'Bank rate',
+            createdById: 'admin-1',
+          },
+        })
+      );
+      expect(result).toMatchObject({
+        currency: 'PLN',
+        source: 'MANUAL',
+        createdBy: 'finance@example.com',
+      });
+    });
+
+    it('rejects a rate for the base currency or a rate that is not positive', async () => {
+      await expect(setExchangeRate({ currency: 'EUR', rate: 1 })).rejects.toMatchObject({
+        statusCode: 400,
+      });
+      await expect(setExchangeRate({ currency: 'PLN', rate: -1 })).rejects.toMatchObject({
+        statusCode: 400,
+      });
+      expect(db.exchangeRate.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateExchangeRateSettings', () => {
+    it('rejects a maximum rate age that is not a whole number of hours', async () => {
+      await expect(updateExchangeRateSettings({ maxRateAgeHours: 0 })).rejects.toMatchObject({
+        statusCode: 400,
+      });
+      await expect(updateExchangeRateSettings({ maxRateAgeHours: 1.5 })).rejects.toMatchObject({
+        statusCode: 400,
+      });
+      expect(db.exchangeRateSettings.upsert).not.toHaveBeenCalled();
+    });
+  });
+});
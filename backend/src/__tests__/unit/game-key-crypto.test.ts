@@ -0,0 +1,107 @@
+/**
+ * Unit Tests: Game key encryption
+ *
+ * Covers envelope encryption of key values, the uniqueness hash, masking and master key rotation.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  decryptGameKey,
+  decryptSecret,
+  encryptGameKey,
+  encryptSecret,
+  hashGameKey,
+  maskGameKey,
+  needsReencryption,
+  needsSecretReencryption,
+  rewrapGameKey,
+} from '../../utils/game-key-crypto';
+
+const masterKey = (fill: number) => Buffer.alloc(32, fill).toString('base64');
+
+describe('Game Key Crypto', () => {
+  const originalKeys = process.env.GAME_KEY_MASTER_KEYS;
+  const originalActive = process.env.GAME_KEY_ACTIVE_MASTER_KEY;
+
+  beforeEach(() => {
+    process.env.GAME_KEY_MASTER_KEYS = `v1:${masterKey(1)}`;
+    delete process.env.GAME_KEY_ACTIVE_MASTER_KEY;
+  });
+
+  afterEach(() => {
+    process.env.GAME_KEY_MASTER_KEYS = originalKeys;
+    if (originalActive === undefined) {
+      delete process.env.GAME_KEY_ACTIVE_MASTER_KEY;
+    } else {
+      process.env.GAME_KEY_ACTIVE_MASTER_KEY = originalActive;
+    }
+  });
+
+  it('stores no plaintext and decrypts back to the key', () => {
+    const encrypted = encryptGameKey(' AAAAA-BBBBB-CCCCC ');
+
+    expect(JSON.stringify(encrypted)).not.toContain('AAAAA-BBBBB');
+    expect(encrypted.masterKeyId).toBe('v1');
+    expect(encrypted.keyHint).toBe('CCCC');
+    expect(decryptGameKey(encrypted)).toBe('AAAAA-BBBBB-CCCCC');
+  });
+
+  it('uses a fresh data key for every value but a stable hash', () => {
+    const first = encryptGameKey('AAAAA-BBBBB-CCCCC');
+    const second = encryptGameKey('AAAAA-BBBBB-CCCCC');
+
+    expect(first.encryptedKey).not.toBe(second.encryptedKey);
+    expect(first.encryptedDataKey).not.toBe(second.encryptedDataKey);
+    expect(first.keyHash).toBe(second.keyHash);
+    expect(hashGameKey('AAAAA-BBBBB-CCCCC')).toBe(first.keyHash);
+  });
+
+  it('rejects a ciphertext that was tampered with', () => {
+    const encrypted = encryptGameKey('AAAAA-BBBBB-CCCCC');
+    const bytes = Buffer.from(encrypted.encryptedKey, 'base64');
+    bytes[bytes.length - 1] ^= 1;
+
+    expect(() =>
+      decryptGameKey({ ...encrypted, encryptedKey: bytes.toString('base64') })
+    ).toThrow();
+  });
+
+  it('re-wraps data keys with a new master key without changing the ciphertext', () => {
+    const encrypted = encryptGameKey('AAAAA-BBBBB-CCCCC');
+    process.env.GAME_KEY_MASTER_KEYS = `v1:${masterKey(1)},v2:${masterKey(2)}`;
+
+    expect(needsReencryption(encrypted)).toBe(true);
+    const rewrapped = { ...encrypted, ...rewrapGameKey(encrypted) };
+    expect(rewrapped.masterKeyId).toBe('v2');
+    expect(rewrapped.encryptedKey).toBe(encrypted.encryptedKey);
+    expect(needsReencryption(rewrapped)).toBe(false);
+
+    // The old master key can be dropped once every row is re-wrapped
+    process.env.GAME_KEY_MASTER_KEYS = `v2:${masterKey(2)}`;
+    expect(decryptGameKey(rewrapped)).toBe('AAAAA-BBBBB-CCCCC');
+    expect(() => decryptGameKey(encrypted)).toThrow('Master key "v1" is not configured');
+  });
+
+  it('reads and masks keys stored before encryption', () => {
+    const legacy = { key: 'LEGACY-KEY-9XQ2', encryptedKey: null, keyHint: null };
+
+    expect(decryptGameKey(legacy)).toBe('LEGACY-KEY-9XQ2');
+    expect(maskGameKey(legacy)).toBe('****-****-9XQ2');
+    expect(needsReencryption(legacy)).toBe(true);
+  });
+
+  it('encrypts other secrets into one column and reads plaintext ones as they are', () => {
+    const stored = encryptSecret('JBSWY3DPEHPK3PXP');
+
+    expect(stored).not.toContain('JBSWY3DPEHPK3PXP');
+    expect(stored.startsWith('v1:')).toBe(true);
+    expect(decryptSecret(stored)).toBe('JBSWY3DPEHPK3PXP');
+    expect(needsSecretReencryption(stored)).toBe(false);
+    expect(decryptSecret('JBSWY3DPEHPK3PXP')).toBe('JBSWY3DPEHPK3PXP');
+    expect(needsSecretReencryption('JBSWY3DPEHPK3PXP')).toBe(true);
+
+    process.env.GAME_KEY_MASTER_KEYS = `v1:${masterKey(1)},v2:${masterKey(2)}`;
+    expect(needsSecretReencryption(stored)).toBe(true);
+    expect(decryptSecret(stored)).toBe('JBSWY3DPEHPK3PXP');
+  });
+});
@@ -0,0 +1,257 @@
+/**
+ * Unit Tests: GDPR service
+ *
+ * Covers data export links, scheduling account deletion and anonymisation of deleted accounts.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('../../config/database', () => import('../../../tests/helpers/mock-database.js'));
+
+vi.mock('../../services/email.service', () => ({
+  sendAccountDeletionScheduledEmail: vi.fn(),
+}));
+
+vi.mock('../../services/cache.service', () => ({
+  invalidateCache: vi.fn(),
+}));
+
+vi.mock('../../utils/bcrypt', () => ({
+  hashPassword: vi.fn().mockResolvedValue('random-hash'),
+  comparePassword: vi.fn(async (password: string) => password === 'correct-password'),
+}));
+
+import db from '../../../tests/helpers/mock-database.js';
+import {
+  buildUserDataArchive,
+  getDataExport,
+  requestAccountDeletion,
+  anonymiseUser,
+} from '../../services/gdpr.service';
+import { sendAccountDeletionScheduledEmail } from '../../services/email.service';
+import { ownedKeysWhere } from '../../services/key-library.service';
+
+const archivedUser = {
+  id: 'user-1',
+  email: 'user@example.com',
+  balance: 0,
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  updatedAt: new Date('2026-01-01T00:00:00Z'),
+  orders: [],
+  transactions: [],
+  wishlist: [],
+  loginHistory: [],
+  emailCodes: [
+    {
+      purpose: 'CHANGE_EMAIL',
+      email: 'new@example.com',
+      codeHash: 'hash',
+      createdAt: new Date('2026-01-02T00:00:00Z'),
+      expiresAt: new Date('2026-01-02T00:15:00Z'),
+      usedAt: null,
+    },
+  ],
+  gameKeyReveals: [
+    {
+      ipAddress: '10.0.0.1',
+      userAgent: 'Firefox',
+      createdAt: new Date('2026-01-03T00:00:00Z'),
+      gameKey: { gameId: 'game-1', game: { title: 'Some Game' } },
+    },
+  ],
+};
+
+describe('GDPR Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('buildUserDataArchive', () => {
+    beforeEach(() => {
+      db.gameKey.findMany.mockResolvedValue([]);
+    });
+
+    it('lists the keys the user owns, as the key library does, without their values', async () => {
+      db.user.findUnique.mockResolvedValue(archivedUser);
+      db.gameKey.findMany.mockResolvedValue([
+        {
+          id: 'key-1',
+          orderId: 'gifted-order',
+          gameId: 'game-1',
+          activated: false,
+          activationDate: null,
+          game: { title: 'Some Game' },
+        },
+      ]);
+
+      const archive = await buildUserDataArchive('user-1');
+
+      // Redeemed gifts count for the recipient, gifts the user sent do not
+      expect(db.gameKey.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: ownedKeysWhere('user-1') })
+      );
+      expect(archive.keys).toEqual([
+        {
+          keyId: 'key-1',
+          orderId: 'gifted-order',
+          gameId: 'game-1',
+          title: 'Some Game',
+          activated: false,
+          activationDate: null,
+        },
+      ]);
+    });
+
+    it('includes email verification codes without their hashes and key reveals', async () => {
+      db.user.findUnique.mockResolvedValue(archivedUser);
+
+      const archive = await buildUserDataArchive('user-1');
+
+      expect(archive.emailCodes).toEqual([
+        {
+          purpose: 'CHANGE_EMAIL',
+          email: 'new@example.com',
+          createdAt: '2026-01-02T00:00:00.000Z',
+          expiresAt: '2026-01-02T00:15:00.000Z',
+          usedAt: null,
+        },
+      ]);
+      expect(archive.keyReveals).toEqual([
+        {
+          gameId: 'game-1',
+          title: 'Some Game',
+          ipAddress: '10.0.0.1',
+          userAgent: 'Firefox',
+          createdAt: '2026-01-03T00:00:00.000Z',
+        },
+      ]);
+    });
+  });
+
+  describe('getDataExport', () => {
+    it('decrypts the values of keys the user still owns when the archive is downloaded', async () => {
+      const listedKey = { orderId: 'order-1', gameId: 'game-1', title: 'Some Game' };
+      db.dataExport.findUnique.mockResolvedValue({
+        userId: 'user-1',
+        data: {
+          keys: [
+            { keyId: 'key-1', ...listedKey },
+            { keyId: 'refunded-key', ...listedKey },
+          ],
+        },
+        createdAt: new Date('2026-01-05T00:00:00Z'),
+        expiresAt: new Date(Date.now() + 60_000),
+      });
+      db.gameKey.findMany.mockResolvedValue([{ id: 'key-1', key: 'AAAAA-BBBBB-CCCCC' }]);
+
+      const result = await getDataExport('token');
+
+      expect(db.gameKey.findMany).toHaveBeenCalledWith({
+        where: { id: { in: ['key-1', 'refunded-key'] }, ...ownedKeysWhere('user-1') },
+      });
+      expect(result.fileName).toBe('gkeys-data-export-2026-01-05.json');
+      expect(result.data.keys).toEqual([
+        { keyId: 'key-1', ...listedKey, key: 'AAAAA-BBBBB-CCCCC' },
+        { keyId: 'refunded-key', ...listedKey, key: null },
+      ]);
+    });
+
+    it('rejects expired download links', async () => {
+      db.dataExport.findUnique.mockResolvedValue({
+        data: {},
+        createdAt: new Date(),
+        expiresAt: new Date(Date.now() - 1000),
+      });
+
+      await expect(getDataExport('token')).rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+
+  describe('requestAccountDeletion', () => {
+    it('requires the current password', async () => {
+      db.user.findUnique.mockResolvedValue({
+        id: 'user-1',
+        email: 'user@example.com',
+        role: 'USER',
+        passwordHash: 'hash',
+        deletionScheduledFor: null,
+      });
+
+      await expect(requestAccountDeletion('user-1', 'wrong-password')).rejects.toMatchObject({
+        statusCode: 401,
+      });
+      expect(db.user.update).not.toHaveBeenCalled();
+    });
+
+    it('refuses staff accounts', async () => {
+      db.user.findUnique.mockResolvedValue({
+        id: 'admin-1',
+        email: 'admin@example.com',
+        role: 'ADMIN',
+        passwordHash: 'hash',
+        deletionScheduledFor: null,
+      });
+
+      await expect(requestAccountDeletion('admin-1', 'password')).rejects.toMatchObject({
+        statusCode: 400,
+      });
+    });
+
+    it('schedules deletion after the grace period and notifies the user', async () => {
+      db.user.findUnique.mockResolvedValue({
+        id: 'user-1',
+        email: 'user@example.com',
+        role: 'USER',
+        passwordHash: 'hash',
+        deletionScheduledFor: null,
+      });
+
+      const result = await requestAccountDeletion('user-1', 'correct-password');
+
+      const scheduled = new Date(result.deletionScheduledFor).getTime();
+      expect(scheduled).toBeGreaterThan(Date.now() + 13 * 24 * 60 * 60 * 1000);
+      expect(db.user.update).toHaveBeenCalled();
+      expect(sendAccountDeletionScheduledEmail).toHaveBeenCalledWith(
+        'user@example.com',
+        expect.any(Object)
+      );
+    });
+  });
+
+  describe('anonymiseUser', () => {
+    it('scrubs personal data but keeps the user row', async () => {
+      db.user.findUnique.mockResolvedValue({ id: 'user-1' });
+
+      await anonymiseUser('user-1');
+
+      expect(db.$transaction).toHaveBeenCalled();
+      expect(db.user.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'user-1' },
+          data: expect.objectContaining({
+            email: 'deleted-user-1@deleted.invalid',
+            firstName: null,
+            lastName: null,
+            deletedAt: expect.any(Date),
+          }),
+        })
+      );
+      expect(db.wishlist.deleteMany).toHaveBeenCalledWith({ where: { userId: 'user-1' } });
+      expect(db.emailVerificationCode.deleteMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1' },
+      });
+      expect(db.orderGift.updateMany).toHaveBeenCalledWith({
+        where: { OR: [{ order: { userId: 'user-1' } }, { recipientId: 'user-1' }] },
+        data: {
+          recipientEmail: 'deleted-user-1@deleted.invalid',
+          senderName: 'Deleted user',
+          message: null,
+        },
+      });
+      expect(db.gameKeyReveal.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1' },
+        data: { ipAddress: null, userAgent: null },
+      });
+    });
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Unit Tests: Gift purchases
+ *
+ * Covers checking gift options at checkout, the scheduled gift email with its claim link
+ * and redeeming a gift into the recipient's key library.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import crypto from 'crypto';
+
+vi.mock('../../config/database', () => import('../../../tests/helpers/mock-database.js'));
+
+vi.mock('../../services/email.service', () => ({
+  sendGiftEmail: vi.fn(),
+}));
+
+import db from '../../../tests/helpers/mock-database.js';
+import { processDueGifts, redeemGift, validateGiftRequest } from '../../services/gift.service';
+import { sendGiftEmail } from '../../services/email.service';
+
+const sha256 = (value: string) => crypto.createHash('sha256').update(value).digest('hex');
+
+const dueGift = {
+  id: 'gift-1',
+  orderId: 'order-1',
+  recipientEmail: 'friend@example.com',
+  senderName: 'Alex',
+  message: 'Happy birthday!',
+  order: {
+    userId: 'buyer-1',
+    items: [{ quantity: 1, game: { title: 'Test Game' } }],
+  },
+};
+
+const storedGift = {
+  id: 'gift-1',
+  orderId: 'order-1',
+  senderName: 'Alex',
+  message: null,
+  openedAt: null,
+  redeemedAt: null,
+  recipientId: null,
+  order: {
+    userId: 'buyer-1',
+    status: 'COMPLETED',
+    items: [
+      {
+        quantity: 1,
+        game: { id: 'game-1', title: 'Test Game', image: 'test.jpg', slug: 'test-game' },
+      },
+    ],
+  },
+};
+
+describe('Gift Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db.orderGift.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  describe('validateGiftRequest', () => {
+    it('normalises the recipient and sends past dates right away', () => {
+      const gift = validateGiftRequest(
+        {
+          recipientEmail: ' Friend@Example.com ',
+          senderName: ' Alex ',
+          message: '',
+          deliverAt: '2020-01-01T00:00:00Z',
+        },
+        'buyer@example.com'
+      );
+
+      expect(gift).toMatchObject({
+        recipientEmail: 'friend@example.com',
+        senderName: 'Alex',
+        message: null,
+      });
+      expect(gift.deliverAt.getTime()).toBeGreaterThan(Date.now() - 1000);
+    });
+
+    it('does not allow sending a gift to yourself', () => {
+      expect(() =>
+        validateGiftRequest(
+          { recipientEmail: 'buyer@example.com', senderName: 'Alex' },
+          'Buyer@example.com'
+        )
+      ).toThrow('You cannot send a gift to yourself');
+    });
+  });
+
+  describe('processDueGifts', () => {
+    it('emails a claim link and stores only the hash of its token', async () => {
+      db.orderGift.findMany.mockResolvedValue([dueGift]);
+
+      await expect(processDueGifts()).resolves.toEqual({ sent: 1, failed: 0 });
+
+      const [, email] = vi.mocked(sendGiftEmail).mock.calls[0];
+      const token = email.claimLink.split('/gift/')[1];
+      expect(email).toMatchObject({
+        senderName: 'Alex',
+        message: 'Happy birthday!',
+        games: [{ title: 'Test Game', quantity: 1 }],
+      });
+      expect(db.orderGift.updateMany).toHaveBeenCalledWith({
+        where: { id: 'gift-1', sentAt: null },
+        data: { sentAt: expect.any(Date), tokenHash: sha256(token) },
+      });
+    });
+
+    it('puts a gift back in the queue when the email fails', async () => {
+      db.orderGift.findMany.mockResolvedValue([dueGift]);
+      vi.mocked(sendGiftEmail).mockRejectedValueOnce(new Error('SMTP down'));
+
+      await expect(processDueGifts()).resolves.toEqual({ sent: 0, failed: 1 });
+      expect(db.orderGift.update).toHaveBeenCalledWith({
+        where: { id: 'gift-1' },
+        data: { sentAt: null, tokenHash: null },
+      });
+    });
+  });
+
+  describe('redeemGift', () => {
+    it('assigns the gift to the user', async () => {
+      db.orderGift.findUnique.mockResolvedValue(storedGift);
+
+      const gift = await redeemGift('token-1', 'friend-1');
+
+      expect(db.orderGift.findUnique).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { tokenHash: sha256('token-1') } })
+      );
+      expect(db.orderGift.updateMany).toHaveBeenCalledWith({
+        where: { id: 'gift-1', redeemedAt: null },
+        data: expect.objectContaining({ recipientId: 'friend-1' }),
+      });
+      expect(gift).toMatchObject({ redeemed: true, redeemedByYou: true });
+    });
+
+    it('can only be redeemed once', async () => {
+      db.orderGift.findUnique.mockResolvedValue(storedGift);
+      db.orderGift.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(redeemGift('token-1', 'friend-2')).rejects.toMatchObject({
+        statusCode: 409,
+      });
+    });
+
+    it('cannot be redeemed by the buyer', async () => {
+      db.orderGift.findUnique.mockResolvedValue(storedGift);
+
+      await expect(redeemGift('token-1', 'buyer-1')).rejects.toMatchObject({ statusCode: 400 });
+      expect(db.orderGift.updateMany).not.toHaveBeenCalled();
+    });
+  });
+});
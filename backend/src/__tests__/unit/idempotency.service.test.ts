@@ -0,0 +1,113 @@
+/**
+ * Unit Tests: Idempotency Keys
+ *
+ * Covers claiming a key, replaying the stored response, rejecting a key reused for another
+ * payload and releasing the key of a failed request.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('../../config/database', () => import('../../../tests/helpers/mock-database.js'));
+
+import db from '../../../tests/helpers/mock-database.js';
+import {
+  beginIdempotentRequest,
+  completeIdempotentRequest,
+  fingerprintRequest,
+} from '../../services/idempotency.service';
+
+const body = { items: [{ gameId: 'game-1', quantity: 1 }] };
+
+const storedKey = (overrides: object = {}) => ({
+  id: 'record-1',
+  userId: 'user-1',
+  scope: 'orders:create',
+  key: 'key-1',
+  fingerprint: fingerprintRequest(body),
+  statusCode: 201,
+  response: { success: true, data: { id: 'order-1' } },
+  createdAt: new Date(),
+  expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+  ...overrides,
+});
+
+describe('Idempotency Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db.idempotencyKey.findUnique.mockResolvedValue(null);
+    db.idempotencyKey.create.mockResolvedValue({ id: 'record-1' });
+  });
+
+  it('fingerprints payloads independently of key order', () => {
+    expect(fingerprintRequest({ a: 1, b: { c: 2, d: 3 } })).toBe(
+      fingerprintRequest({ b: { d: 3, c: 2 }, a: 1 })
+    );
+    expect(fingerprintRequest({ a: 1 })).not.toBe(fingerprintRequest({ a: 2 }));
+  });
+
+  it('claims a new key', async () => {
+    await expect(beginIdempotentRequest('user-1', 'orders:create', 'key-1', body)).resolves.toEqual(
+      { recordId: 'record-1' }
+    );
+
+    expect(db.idempotencyKey.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        userId: 'user-1',
+        scope: 'orders:create',
+        key: 'key-1',
+        fingerprint: fingerprintRequest(body),
+      }),
+    });
+  });
+
+  it('replays the stored response for a retry', async () => {
+    db.idempotencyKey.findUnique.mockResolvedValue(storedKey());
+
+    await expect(beginIdempotentRequest('user-1', 'orders:create', 'key-1', body)).resolves.toEqual(
+      {
+        replay: { statusCode: 201, response: { success: true, data: { id: 'order-1' } } },
+      }
+    );
+    expect(db.idempotencyKey.create).not.toHaveBeenCalled();
+  });
+
+  it('rejects a key reused with a different payload', async () => {
+    db.idempotencyKey.findUnique.mockResolvedValue(storedKey());
+
+    await expect(
+      beginIdempotentRequest('user-1', 'orders:create', 'key-1', {
+        items: [{ gameId: 'game-2', quantity: 1 }],
+      })
+    ).rejects.toMatchObject({ statusCode: 422 });
+  });
+
+  it('rejects a retry while the first request is still running', async () => {
+    db.idempotencyKey.findUnique.mockResolvedValue(storedKey({ statusCode: null, response: null }));
+
+    await expect(
+      beginIdempotentRequest('user-1', 'orders:create', 'key-1', body)
+    ).rejects.toMatchObject({ statusCode: 409 });
+  });
+
+  it('starts over once the stored key has expired', async () => {
+    db.idempotencyKey.findUnique.mockResolvedValue(
+      storedKey({ expiresAt: new Date(Date.now() - 1000) })
+    );
+
+    await expect(beginIdempotentRequest('user-1', 'orders:create', 'key-1', body)).resolves.toEqual(
+      { recordId: 'record-1' }
+    );
+    expect(db.idempotencyKey.deleteMany).toHaveBeenCalledWith({ where: { id: 'record-1' } });
+  });
+
+  it('stores successful responses and releases the key of failed requests', async () => {
+    await completeIdempotentRequest('record-1', 201, { success: true });
+    expect(db.idempotencyKey.update).toHaveBeenCalledWith({
+      where: { id: 'record-1' },
+      data: expect.objectContaining({ statusCode: 201, response: { success: true } }),
+    });
+
+    await completeIdempotentRequest('record-2', 400, { success: false });
+    expect(db.idempotencyKey.deleteMany).toHaveBeenCalledWith({ where: { id: 'record-2' } });
+  });
+});
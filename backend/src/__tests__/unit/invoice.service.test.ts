@@ -0,0 +1,164 @@
+/**
+ * Unit Tests: Invoices
+ *
+ * Covers numbering, the amounts billed for completed orders and paid top-ups, and who may
+ * download an invoice.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Prisma } from '@prisma/client';
+
+vi.mock('../../config/database', () => import('../../../tests/helpers/mock-database.js'));
+
+vi.mock('../../services/pdf.service', () => ({
+  generateInvoicePDF: vi.fn(),
+}));
+
+vi.mock('../../services/email.service', () => ({
+  sendOrderCompletedEmail: vi.fn(),
+}));
+
+import db from '../../../tests/helpers/mock-database.js';
+import {
+  formatInvoiceNumber,
+  getOrderInvoice,
+  issueOrderInvoice,
+  issueTopUpInvoice,
+} from '../../services/invoice.service';
+
+const buyer = { email: 'buyer@example.com', nickname: 'Buyer', firstName: 'Ann', lastName: 'Lee' };
+
+const completedOrder = {
+  id: 'order-1',
+  userId: 'user-1',
+  status: 'COMPLETED',
+  subtotal: 40,
+  discount: 4,
+  user: buyer,
+  items: [
+    { quantity: 2, refundedQuantity: 0, price: 10, game: { title: 'First Game' } },
+    { quantity: 1, refundedQuantity: 1, price: 20, game: { title: 'Refunded Game' } },
+  ],
+};
+
+describe('Invoice Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.env.INVOICE_TAX_RATE = '23';
+    db.invoice.findUnique.mockResolvedValue(null);
+    db.invoiceCounter.upsert.mockResolvedValue({ id: 'invoices', value: 7 });
+    db.invoice.create.mockImplementation(({ data }: { data: object }) => ({
+      id: 'inv-1',
+      ...data,
+    }));
+  });
+
+  afterEach(() => {
+    delete process.env.INVOICE_TAX_RATE;
+  });
+
+  it('formats invoice numbers with a fixed width', () => {
+    expect(formatInvoiceNumber(7)).toBe('INV-000007');
+  });
+
+  describe('issueOrderInvoice', () => {
+    it('bills the delivered keys with the next number and the tax included in the price', async () => {
+      db.order.findUnique.mockResolvedValue(completedOrder);
+
+      const invoice = await issueOrderInvoice('order-1');
+
+      expect(db.invoiceCounter.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ update: { value: { increment: 1 } } })
+      );
+      expect(invoice).toMatchObject({
+        number: 7,
+        type: 'ORDER',
+        orderId: 'order-1',
+        subtotal: 20,
+        // The promo discount shrinks with the refunded item
+        discount: 2,
+        total: 18,
+        taxRate: 23,
+        taxAmount: 3.37,
+        buyer: { name: 'Ann Lee', email: 'buyer@example.com' },
+        lines: [{ description: 'First Game', quantity: 2, unitPrice: 10, total: 20 }],
+      });
+    });
+
+    it('returns the invoice already issued without using a new number', async () => {
+      db.invoice.findUnique.mockResolvedValue({ id: 'inv-1', number: 3 });
+
+      await expect(issueOrderInvoice('order-1')).resolves.toEqual({ id: 'inv-1', number: 3 });
+      expect(db.invoiceCounter.upsert).not.toHaveBeenCalled();
+    });
+
+    it('keeps the invoice of a concurrent request', async () => {
+      db.order.findUnique.mockResolvedValue(completedOrder);
+      db.$transaction.mockRejectedValueOnce(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: '5.22.0',
+        })
+      );
+      db.invoice.findUniqueOrThrow.mockResolvedValue({ id: 'inv-2', number: 6 });
+
+      await expect(issueOrderInvoice('order-1')).resolves.toEqual({ id: 'inv-2', number: 6 });
+    });
+
+    it('rejects orders that are not completed', async () => {
+      db.order.findUnique.mockResolvedValue({ ...completedOrder, status: 'PROCESSING' });
+
+      await expect(issueOrderInvoice('order-1')).rejects.toMatchObject({ statusCode: 400 });
+      expect(db.invoice.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('issueTopUpInvoice', () => {
+    it('issues top-ups as prepayments without tax', async () => {
+      db.transaction.findUnique.mockResolvedValue({
+        id: 'tx-1',
+        userId: 'user-1',
+        type: 'TOP_UP',
+        status: 'COMPLETED',
+        method: 'trustly',
+        amount: 50,
+        currency: 'EUR',
+        user: buyer,
+      });
+
+      await expect(issueTopUpInvoice('tx-1')).resolves.toMatchObject({
+        type: 'TOP_UP',
+        transactionId: 'tx-1',
+        total: 50,
+        taxRate: 0,
+        taxAmount: 0,
+      });
+    });
+
+    it('does not invoice balance corrections made by staff', async () => {
+      db.transaction.findUnique.mockResolvedValue({
+        id: 'tx-1',
+        type: 'TOP_UP',
+        status: 'COMPLETED',
+        method: null,
+        amount: 50,
+        user: buyer,
+      });
+
+      await expect(issueTopUpInvoice('tx-1')).rejects.toMatchObject({ statusCode: 400 });
+    });
+  });
+
+  describe('getOrderInvoice', () => {
+    it("hides other customers' orders", async () => {
+      db.order.findFirst.mockResolvedValue(null);
+
+      await expect(getOrderInvoice('order-1', 'user-2')).rejects.toMatchObject({
+        statusCode: 404,
+      });
+      expect(db.order.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: 'order-1', userId: 'user-2' } })
+      );
+    });
+  });
+});
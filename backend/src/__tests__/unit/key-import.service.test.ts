@@ -0,0 +1,91 @@
+/**
+ * Unit Tests: Bulk key import
+ *
+ * Covers reading supplier files, per-platform format checks, duplicate detection and
+ * committing the valid keys.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('../../config/database', () => import('../../../tests/helpers/mock-database.js'));
+
+vi.mock('../../services/key-pool.service', () => ({
+  syncPoolStock: vi.fn(),
+}));
+
+import db from '../../../tests/helpers/mock-database.js';
+import { importGameKeys, parseKeyFile } from '../../services/key-import.service';
+import { syncPoolStock } from '../../services/key-pool.service';
+import { hashGameKey } from '../../utils/game-key-crypto';
+
+const steamFile = ['QWERT-YUIOP-ASDF1', 'not-a-key', 'QWERT-YUIOP-ASDF1', 'QWERT-YUIOP-ASDF2'].join(
+  '\n'
+);
+
+describe('Key Import Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db.game.findUnique.mockResolvedValue({
+      id: 'game-1',
+      title: 'Test Game',
+      activationService: 'Steam',
+    });
+    db.gameKey.findMany.mockResolvedValue([]);
+  });
+
+  describe('parseKeyFile', () => {
+    it('reads the key column of a CSV file with a header', () => {
+      const rows = parseKeyFile('title;Key\n"Test; Game";AAAAA-BBBBB-CCCCC\n\n', 'keys.csv');
+
+      expect(rows).toEqual([{ line: 2, key: 'AAAAA-BBBBB-CCCCC' }]);
+    });
+
+    it('reads one key per line from a TXT file', () => {
+      expect(parseKeyFile('\uFEFFKEY-1\r\n\r\n KEY-2 \n', 'keys.txt')).toEqual([
+        { line: 1, key: 'KEY-1' },
+        { line: 3, key: 'KEY-2' },
+      ]);
+    });
+  });
+
+  describe('importGameKeys', () => {
+    it('previews invalid keys and duplicates without saving anything', async () => {
+      db.gameKey.findMany.mockResolvedValue([{ keyHash: hashGameKey('QWERT-YUIOP-ASDF2') }]);
+
+      const report = await importGameKeys({ gameId: 'game-1', content: steamFile });
+
+      expect(report.dryRun).toBe(true);
+      expect(report.format?.service).toBe('Steam');
+      expect(report.rows.map((row) => row.status)).toEqual([
+        'VALID',
+        'INVALID_FORMAT',
+        'DUPLICATE_IN_FILE',
+        'DUPLICATE_EXISTING',
+      ]);
+      expect(report.rows[2].message).toBe('Same key as line 1');
+      expect(report.summary).toMatchObject({ total: 4, valid: 1, invalidFormat: 1 });
+      expect(JSON.stringify(report)).not.toContain('QWERT-YUIOP');
+      expect(db.gameKey.createMany).not.toHaveBeenCalled();
+    });
+
+    it('imports the valid keys and restocks the game', async () => {
+      const report = await importGameKeys({ gameId: 'game-1', content: steamFile, dryRun: false });
+
+      expect(db.gameKey.createMany).toHaveBeenCalledTimes(1);
+      const { data } = db.gameKey.createMany.mock.calls[0][0];
+      expect(data).toHaveLength(2);
+      expect(data[0]).toMatchObject({
+        gameId: 'game-1',
+        keyHash: hashGameKey('QWERT-YUIOP-ASDF1'),
+      });
+      expect(report.summary.imported).toBe(2);
+      expect(syncPoolStock).toHaveBeenCalledWith('game-1');
+    });
+
+    it('rejects an empty file', async () => {
+      await expect(importGameKeys({ gameId: 'game-1', content: '  \n' })).rejects.toMatchObject({
+        statusCode: 400,
+      });
+    });
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Unit Tests: Customer key library
+ *
+ * Covers grouping of owned keys, logged reveals and marking keys as activated.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('../../config/database', () => import('../../../tests/helpers/mock-database.js'));
+
+import db from '../../../tests/helpers/mock-database.js';
+import {
+  getKeyLibrary,
+  markLibraryKeyActivated,
+  revealLibraryKey,
+} from '../../services/key-library.service';
+import { encryptGameKey } from '../../utils/game-key-crypto';
+
+const storedKey = (overrides: Record<string, unknown> = {}) => ({
+  id: 'key-1',
+  gameId: 'game-1',
+  orderId: 'order-1',
+  activated: false,
+  activationDate: null,
+  createdAt: new Date('2026-01-10T10:00:00Z'),
+  ...encryptGameKey('AAAAA-BBBBB-7QXA'),
+  ...overrides,
+});
+
+const game = {
+  id: 'game-1',
+  title: 'Test Game',
+  slug: 'test-game',
+  image: 'test.jpg',
+  activationService: 'Steam',
+  platforms: [{ platform: { name: 'PC' } }],
+};
+
+describe('Key Library Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('getKeyLibrary', () => {
+    it('groups masked keys by game with activation steps', async () => {
+      db.gameKey.findMany.mockResolvedValue([
+        {
+          ...storedKey(),
+          game,
+          order: { createdAt: new Date('2026-01-10T09:00:00Z') },
+          reveals: [],
+        },
+        {
+          ...storedKey({ id: 'key-2', ...encryptGameKey('CCCCC-DDDDD-9ZZZ') }),
+          game,
+          order: { createdAt: new Date('2026-01-11T09:00:00Z') },
+          reveals: [{ createdAt: new Date('2026-01-12T09:00:00Z') }],
+        },
+      ]);
+
+      const library = await getKeyLibrary('user-1');
+
+      expect(db.gameKey.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            revokedAt: null,
+            OR: [
+              { order: { userId: 'user-1', status: { not: 'CANCELLED' }, gift: null } },
+              { order: { status: { not: 'CANCELLED' }, gift: { recipientId: 'user-1' } } },
+            ],
+          },
+        })
+      );
+      expect(library).toHaveLength(1);
+      expect(library[0]).toMatchObject({
+        platform: 'PC',
+        activationService: 'Steam',
+        activation: { service: 'Steam' },
+      });
+      expect(library[0].keys.map((k) => k.maskedKey)).toEqual(['****-****-7QXA', '****-****-9ZZZ']);
+      expect(library[0].keys[1].lastRevealedAt).toBe('2026-01-12T09:00:00.000Z');
+      expect(JSON.stringify(library)).not.toContain('AAAAA-BBBBB');
+    });
+  });
+
+  describe('revealLibraryKey', () => {
+    it('returns the key and records the reveal', async () => {
+      db.gameKey.findFirst.mockResolvedValue(storedKey());
+
+      const result = await revealLibraryKey('user-1', 'key-1', { ipAddress: '127.0.0.1' });
+
+      expect(result).toEqual({ id: 'key-1', key: 'AAAAA-BBBBB-7QXA' });
+      expect(db.gameKeyReveal.create).toHaveBeenCalledWith({
+        data: { gameKeyId: 'key-1', userId: 'user-1', ipAddress: '127.0.0.1', userAgent: null },
+      });
+    });
+
+    it('does not reveal keys of other customers', async () => {
+      db.gameKey.findFirst.mockResolvedValue(null);
+
+      await expect(revealLibraryKey('user-2', 'key-1')).rejects.toMatchObject({ statusCode: 404 });
+      expect(db.gameKey.findFirst).toHaveBeenCalledWith({
+        where: {
+          id: 'key-1',
+          revokedAt: null,
+          OR: [
+            { order: { userId: 'user-2', status: { not: 'CANCELLED' }, gift: null } },
+            { order: { status: { not: 'CANCELLED' }, gift: { recipientId: 'user-2' } } },
+          ],
+        },
+      });
+      expect(db.gameKeyReveal.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('markLibraryKeyActivated', () => {
+    it('sets the activation date once', async () => {
+      db.gameKey.findFirst.mockResolvedValue(storedKey());
+      db.gameKey.update.mockResolvedValue({
+        activated: true,
+        activationDate: new Date('2026-01-13T09:00:00Z'),
+      });
+
+      const result = await markLibraryKeyActivated('user-1', 'key-1');
+
+      expect(db.gameKey.update).toHaveBeenCalledWith({
+        where: { id: 'key-1' },
+        data: { activated: true, activationDate: expect.any(Date) },
+      });
+      expect(result).toEqual({
+        id: 'key-1',
+        activated: true,
+        activationDate: '2026-01-13T09:00:00.000Z',
+      });
+    });
+
+    it('keeps the original date for a key that is already activated', async () => {
+      db.gameKey.findFirst.mockResolvedValue(
+        storedKey({ activated: true, activationDate: new Date('2026-01-11T09:00:00Z') })
+      );
+
+      const result = await markLibraryKeyActivated('user-1', 'key-1');
+
+      expect(db.gameKey.update).not.toHaveBeenCalled();
+      expect(result.activationDate).toBe('2026-01-11T09:00:00.000Z');
+    });
+  });
+});
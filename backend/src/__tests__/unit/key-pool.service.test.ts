@@ -0,0 +1,86 @@
+/**
+ * Unit Tests: Local key pool
+ *
+ * Covers claiming unassigned keys for an order item and keeping the stock flag of
+ * locally stocked games in line with the pool.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { Prisma } from '@prisma/client';
+
+vi.mock('../../config/database', () => import('../../../tests/helpers/mock-database.js'));
+
+vi.mock('../../services/cache.service', () => ({
+  invalidateCache: vi.fn(),
+}));
+
+import db from '../../../tests/helpers/mock-database.js';
+import { claimPoolKeys, syncPoolStock } from '../../services/key-pool.service';
+
+// The mock stands in for the transaction client the fulfilment run passes in
+const tx = db as unknown as Prisma.TransactionClient;
+
+describe('Key Pool Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('claimPoolKeys', () => {
+    it('locks unassigned keys with SKIP LOCKED and assigns them to the item', async () => {
+      db.$queryRaw.mockResolvedValue([{ id: 'key-1' }, { id: 'key-2' }]);
+
+      const result = await claimPoolKeys(tx, 'game-1', 3, {
+        orderId: 'order-1',
+        orderItemId: 'item-1',
+      });
+
+      const [sql, ...values] = db.$queryRaw.mock.calls[0];
+      expect(sql.join('?')).toContain('FOR UPDATE SKIP LOCKED');
+      expect(values).toEqual(['game-1', 3]);
+      expect(db.gameKey.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['key-1', 'key-2'] }, orderId: null },
+        data: { orderId: 'order-1', orderItemId: 'item-1' },
+      });
+      expect(result).toEqual({ keyIds: ['key-1', 'key-2'], requested: 3 });
+    });
+
+    it('does not touch the pool when nothing is outstanding', async () => {
+      const result = await claimPoolKeys(tx, 'game-1', 0, {
+        orderId: 'order-1',
+        orderItemId: 'item-1',
+      });
+
+      expect(db.$queryRaw).not.toHaveBeenCalled();
+      expect(result.keyIds).toEqual([]);
+    });
+  });
+
+  describe('syncPoolStock', () => {
+    it('marks a game out of stock once its pool is empty', async () => {
+      db.game.findUnique.mockResolvedValue({
+        inStock: true,
+        g2aProductId: null,
+        _count: { keys: 5 },
+      });
+      db.gameKey.count.mockResolvedValue(0);
+
+      await expect(syncPoolStock('game-1')).resolves.toBe(false);
+      expect(db.game.update).toHaveBeenCalledWith({
+        where: { id: 'game-1' },
+        data: { inStock: false },
+      });
+    });
+
+    it('leaves games sold through G2A alone', async () => {
+      db.game.findUnique.mockResolvedValue({
+        inStock: true,
+        g2aProductId: 'g2a-product-1',
+        _count: { keys: 5 },
+      });
+
+      await expect(syncPoolStock('game-1')).resolves.toBeNull();
+      expect(db.gameKey.count).not.toHaveBeenCalled();
+      expect(db.game.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Unit Tests: Login throttle
+ *
+ * Covers exponential backoff and the LoginHistory fallback used when Redis is down.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const redis = vi.hoisted(() => ({
+  isReady: false,
+  del: vi.fn(),
+}));
+
+vi.mock('../../config/redis', () => ({ default: redis }));
+
+vi.mock('../../config/database', () => import('../../../tests/helpers/mock-database.js'));
+
+vi.mock('../../services/email.service', () => ({
+  sendAccountLockedEmail: vi.fn(),
+}));
+
+import db from '../../../tests/helpers/mock-database.js';
+import { sendAccountLockedEmail } from '../../services/email.service';
+import {
+  getRetryAfterSeconds,
+  assertAccountNotThrottled,
+  assertIpNotThrottled,
+  clearFailedLogins,
+  registerFailedLogin,
+  unlockAccount,
+} from '../../services/login-throttle.service';
+
+const user = {
+  id: 'user-1',
+  email: 'user@example.com',
+  lockedUntil: null,
+  loginFailuresResetAt: null,
+};
+
+describe('Login Throttle', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    redis.isReady = false;
+  });
+
+  describe('getRetryAfterSeconds', () => {
+    const now = Date.now();
+
+    it('allows the free attempts without delay', () => {
+      expect(getRetryAfterSeconds({ count: 2, lastFailureAt: new Date(now) }, 2, now)).toBe(0);
+    });
+
+    it('doubles the delay with every further failure', () => {
+      expect(getRetryAfterSeconds({ count: 3, lastFailureAt: new Date(now) }, 2, now)).toBe(1);
+      expect(getRetryAfterSeconds({ count: 4, lastFailureAt: new Date(now) }, 2, now)).toBe(2);
+      expect(getRetryAfterSeconds({ count: 6, lastFailureAt: new Date(now) }, 2, now)).toBe(8);
+    });
+
+    it('caps the delay and counts down from the last failure', () => {
+      expect(getRetryAfterSeconds({ count: 50, lastFailureAt: new Date(now) }, 2, now)).toBe(300);
+      expect(getRetryAfterSeconds({ count: 4, lastFailureAt: new Date(now - 5000) }, 2, now)).toBe(
+        0
+      );
+    });
+  });
+
+  describe('assertAccountNotThrottled', () => {
+    it('rejects a locked account like invalid credentials', async () => {
+      await expect(
+        assertAccountNotThrottled({ ...user, lockedUntil: new Date(Date.now() + 60_000) })
+      ).rejects.toMatchObject({ statusCode: 401, message: 'Invalid email or password' });
+    });
+
+    it('falls back to counting LoginHistory failures when Redis is down', async () => {
+      db.loginHistory.findFirst
+        .mockResolvedValueOnce(null) // last successful login
+        .mockResolvedValueOnce({ createdAt: new Date() }); // last failure
+      db.loginHistory.count.mockResolvedValue(4);
+
+      await expect(assertAccountNotThrottled(user)).rejects.toMatchObject({
+        statusCode: 401,
+        message: 'Invalid email or password',
+      });
+      expect(db.loginHistory.count).toHaveBeenCalledWith({
+        where: expect.objectContaining({ userId: 'user-1', success: false }),
+      });
+    });
+  });
+
+  describe('assertIpNotThrottled', () => {
+    it('keeps counting failures from the IP after a successful login', async () => {
+      db.loginHistory.findFirst.mockResolvedValue({ createdAt: new Date() }); // last failure
+      db.loginHistory.count.mockResolvedValue(20);
+
+      await expect(assertIpNotThrottled('10.0.0.1')).rejects.toMatchObject({ statusCode: 429 });
+      expect(db.loginHistory.findFirst).not.toHaveBeenCalledWith(
+        expect.objectContaining({ where: expect.objectContaining({ success: true }) })
+      );
+    });
+  });
+
+  describe('clearFailedLogins', () => {
+    it('resets the account counter but not the IP counter', async () => {
+      redis.isReady = true;
+
+      await clearFailedLogins('user-1');
+
+      expect(redis.del).toHaveBeenCalledTimes(1);
+      expect(redis.del).toHaveBeenCalledWith('auth:login-failures:account:user-1');
+    });
+  });
+
+  describe('registerFailedLogin', () => {
+    it('locks the account and notifies the owner after too many failures', async () => {
+      db.loginHistory.findFirst.mockResolvedValue(null);
+      db.loginHistory.count.mockResolvedValue(5);
+
+      await registerFailedLogin('10.0.0.1', user);
+
+      expect(db.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { lockedUntil: expect.any(Date), loginFailuresResetAt: expect.any(Date) },
+      });
+      expect(sendAccountLockedEmail).toHaveBeenCalledWith(
+        'user@example.com',
+        expect.objectContaining({ lockoutMinutes: 15 })
+      );
+    });
+
+    it('does not lock below the limit', async () => {
+      db.loginHistory.findFirst.mockResolvedValue(null);
+      db.loginHistory.count.mockResolvedValue(2);
+
+      await registerFailedLogin('10.0.0.1', user);
+
+      expect(db.user.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('unlockAccount', () => {
+    it('clears the lock and restarts counting', async () => {
+      db.user.findUnique.mockResolvedValue({ id: 'user-1' });
+
+      await unlockAccount('user-1');
+
+      expect(db.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { lockedUntil: null, loginFailuresResetAt: expect.any(Date) },
+      });
+    });
+
+    it('throws for unknown users', async () => {
+      db.user.findUnique.mockResolvedValue(null);
+
+      await expect(unlockAccount('missing')).rejects.toThrow('User not found');
+    });
+  });
+});
@@ -0,0 +1,420 @@
+/**
+ * Unit Tests: Order item fulfilment
+ *
+ * Covers per-item key delivery, refunds of undelivered units and the order status
+ * that follows from the state of the items.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('../../config/database', () => import('../../../tests/helpers/mock-database.js'));
+
+vi.mock('../../services/email.service', () => ({
+  sendGameKeyEmail: vi.fn(),
+}));
+
+vi.mock('../../config/g2a', () => ({
+  getG2AConfig: vi.fn(),
+}));
+
+vi.mock('../../services/key-pool.service', () => ({
+  claimPoolKeys: vi.fn(),
+  syncPoolStock: vi.fn(),
+}));
+
+import db from '../../../tests/helpers/mock-database.js';
+import { G2AError, G2AErrorCode } from '../../lib/g2a/errors/G2AError';
+import { G2AIntegrationClient } from '../../lib/g2a/G2AIntegrationClient';
+import {
+  deriveOrderStatus,
+  fulfillOrderItem,
+  recoverSupplierKeys,
+  refundOrderItem,
+} from '../../services/order-fulfillment.service';
+import { sendGameKeyEmail } from '../../services/email.service';
+import { claimPoolKeys, syncPoolStock } from '../../services/key-pool.service';
+import { encryptGameKey } from '../../utils/game-key-crypto';
+
+const orderItem = (overrides: Record<string, unknown> = {}) => ({
+  id: 'item-1',
+  orderId: 'order-1',
+  gameId: 'game-1',
+  quantity: 2,
+  price: 10,
+  discount: 0,
+  fulfillmentStatus: 'PENDING',
+  fulfilledQuantity: 0,
+  refundedQuantity: 0,
+  supplierOrderIds: [],
+  fulfillmentError: null,
+  order: {
+    id: 'order-1',
+    userId: 'user-1',
+    status: 'PROCESSING',
+    subtotal: 20,
+    total: 20,
+    paymentMethod: null,
+    user: { email: 'user@example.com' },
+  },
+  game: {
+    id: 'game-1',
+    title: 'Test Game',
+    g2aProductId: 'g2a-product-1',
+    platforms: [{ platform: { name: 'Steam' } }],
+  },
+  ...overrides,
+});
+
+describe('Order Fulfillment Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    // Skip the waits between G2A calls
+    vi.spyOn(globalThis, 'setTimeout').mockImplementation(((fn: () => void) => {
+      fn();
+      return 0;
+    }) as unknown as typeof setTimeout);
+    db.orderItem.updateMany.mockResolvedValue({ count: 1 });
+    db.transaction.aggregate.mockResolvedValue({ _sum: { amount: null } });
+  });
+
+  describe('deriveOrderStatus', () => {
+    it('is partially completed while some items are still open', () => {
+      expect(
+        deriveOrderStatus([
+          {
+            quantity: 1,
+            fulfilledQuantity: 1,
+            refundedQuantity: 0,
+            fulfillmentStatus: 'FULFILLED',
+          },
+          { quantity: 2, fulfilledQuantity: 0, refundedQuantity: 0, fulfillmentStatus: 'FAILED' },
+        ])
+      ).toBe('PARTIALLY_COMPLETED');
+    });
+
+    it('completes once the open items are refunded', () => {
+      expect(
+        deriveOrderStatus([
+          {
+            quantity: 1,
+            fulfilledQuantity: 1,
+            refundedQuantity: 0,
+            fulfillmentStatus: 'FULFILLED',
+          },
+          { quantity: 2, fulfilledQuantity: 0, refundedQuantity: 2, fulfillmentStatus: 'REFUNDED' },
+        ])
+      ).toBe('COMPLETED');
+    });
+
+    it('fails when nothing was delivered and an item failed', () => {
+      expect(
+        deriveOrderStatus([
+          { quantity: 1, fulfilledQuantity: 0, refundedQuantity: 0, fulfillmentStatus: 'FAILED' },
+          { quantity: 1, fulfilledQuantity: 0, refundedQuantity: 0, fulfillmentStatus: 'PENDING' },
+        ])
+      ).toBe('FAILED');
+    });
+  });
+
+  describe('fulfillOrderItem', () => {
+    it('keeps the keys that were bought when a later unit fails', async () => {
+      db.orderItem.findUnique.mockResolvedValue(orderItem());
+      db.gameKey.create.mockResolvedValue({ id: 'key-1' });
+      db.orderItem.findUniqueOrThrow
+        .mockResolvedValueOnce(orderItem())
+        .mockResolvedValue(
+          orderItem({ fulfilledQuantity: 1, supplierOrderIds: ['g2a-1', 'g2a-2'] })
+        );
+      const client = {
+        orders: {
+          create: vi
+            .fn()
+            .mockResolvedValueOnce({ order_id: 'g2a-1' })
+            .mockResolvedValueOnce({ order_id: 'g2a-2' }),
+          pay: vi.fn().mockResolvedValue({ transaction_id: 'tx-1' }),
+          getKey: vi
+            .fn()
+            .mockResolvedValueOnce({ key: 'AAAA-BBBB-CCCC' })
+            .mockRejectedValueOnce(new Error('Key not ready')),
+        },
+      } as unknown as G2AIntegrationClient;
+
+      const result = await fulfillOrderItem('item-1', client);
+
+      expect(result).toEqual({
+        itemId: 'item-1',
+        status: 'FAILED',
+        delivered: 1,
+        refunded: 0,
+        error: 'Key not ready',
+      });
+      expect(db.gameKey.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          orderId: 'order-1',
+          orderItemId: 'item-1',
+          supplierOrderId: 'g2a-1',
+        }),
+      });
+      expect(sendGameKeyEmail).toHaveBeenCalledTimes(1);
+      expect(db.orderItem.update).toHaveBeenCalledWith({
+        where: { id: 'item-1' },
+        data: { supplierOrderIds: { push: 'g2a-2' } },
+      });
+      expect(db.orderItem.update).toHaveBeenCalledWith({
+        where: { id: 'item-1' },
+        data: {
+          fulfillmentStatus: 'FAILED',
+          fulfillmentError: 'Key not ready',
+          fulfilledAt: undefined,
+        },
+      });
+      expect(db.orderItem.update).toHaveBeenLastCalledWith({
+        where: { id: 'item-1' },
+        data: { fulfillmentLockedAt: null },
+      });
+    });
+
+    it('buys each unit once when two runs reach the same item', async () => {
+      let lockedAt: Date | null = null;
+      db.orderItem.findUnique.mockResolvedValue(orderItem());
+      db.orderItem.findUniqueOrThrow.mockResolvedValue(orderItem());
+      db.orderItem.updateMany.mockImplementation(
+        async ({ data }: { data: { fulfillmentLockedAt?: Date } }) => {
+          if (data.fulfillmentLockedAt && lockedAt) {
+            return { count: 0 };
+          }
+          lockedAt = data.fulfillmentLockedAt ?? lockedAt;
+          return { count: 1 };
+        }
+      );
+      db.orderItem.update.mockImplementation(
+        async ({ data }: { data: { fulfillmentLockedAt?: Date | null } }) => {
+          if (data.fulfillmentLockedAt === null) {
+            lockedAt = null;
+          }
+          return orderItem();
+        }
+      );
+      db.gameKey.create.mockResolvedValue({ id: 'key-1' });
+      const client = {
+        orders: {
+          create: vi.fn().mockResolvedValue({ order_id: 'g2a-1' }),
+          pay: vi.fn().mockResolvedValue({ transaction_id: 'tx-1' }),
+          getKey: vi.fn().mockResolvedValue({ key: 'AAAA-BBBB-CCCC' }),
+        },
+      } as unknown as G2AIntegrationClient;
+
+      const [first, second] = await Promise.all([
+        fulfillOrderItem('item-1', client),
+        fulfillOrderItem('item-1', client),
+      ]);
+
+      expect(client.orders.create).toHaveBeenCalledTimes(2);
+      expect(first).toMatchObject({ delivered: 2 });
+      expect(second).toMatchObject({
+        delivered: 0,
+        error: 'Keys for this item are already being bought',
+      });
+      expect(lockedAt).toBeNull();
+    });
+
+    it('refunds the undelivered units after a critical supplier error', async () => {
+      db.orderItem.findUnique.mockResolvedValue(orderItem());
+      db.orderItem.findUniqueOrThrow.mockResolvedValue(orderItem());
+      const client = {
+        orders: {
+          create: vi
+            .fn()
+            .mockRejectedValue(new G2AError(G2AErrorCode.G2A_OUT_OF_STOCK, 'Out of stock')),
+        },
+      } as unknown as G2AIntegrationClient;
+
+      const result = await fulfillOrderItem('item-1', client, { refundOnCriticalError: true });
+
+      expect(client.orders.create).toHaveBeenCalledTimes(1);
+      expect(result).toMatchObject({ status: 'REFUNDED', delivered: 0, refunded: 2 });
+      expect(db.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { balance: { increment: 20 } },
+      });
+    });
+  });
+
+  describe('recoverSupplierKeys', () => {
+    it('stores the keys of paid G2A orders that never reached the order', async () => {
+      db.orderItem.findUnique.mockResolvedValue(
+        orderItem({
+          quantity: 4,
+          fulfilledQuantity: 1,
+          supplierOrderIds: ['g2a-1', 'g2a-2', 'g2a-3', 'g2a-4'],
+          keys: [{ supplierOrderId: 'g2a-1' }],
+        })
+      );
+      db.orderItem.findUniqueOrThrow.mockResolvedValue(orderItem({ fulfilledQuantity: 2 }));
+      db.gameKey.create.mockResolvedValue({ id: 'key-2' });
+      const client = {
+        orders: {
+          get: vi
+            .fn()
+            .mockResolvedValueOnce({ order_id: 'g2a-2', status: 'complete' })
+            .mockResolvedValueOnce({ order_id: 'g2a-3', status: 'complete' })
+            .mockResolvedValueOnce({ order_id: 'g2a-4', status: 'pending' }),
+          getKey: vi
+            .fn()
+            .mockResolvedValueOnce({ key: 'AAAA-BBBB-CCCC' })
+            .mockRejectedValueOnce(
+              new G2AError(
+                G2AErrorCode.G2A_INVALID_REQUEST,
+                'Order key has been downloaded already',
+                {
+                  errorCode: 'ORD004',
+                }
+              )
+            ),
+        },
+      } as unknown as G2AIntegrationClient;
+
+      const result = await recoverSupplierKeys('item-1', client);
+
+      expect(result).toEqual({
+        itemId: 'item-1',
+        recovered: 1,
+        unpaid: ['g2a-4'],
+        lost: ['g2a-3'],
+      });
+      expect(client.orders.get).not.toHaveBeenCalledWith('g2a-1');
+      expect(db.gameKey.create).toHaveBeenCalledTimes(1);
+      expect(db.gameKey.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ orderItemId: 'item-1', supplierOrderId: 'g2a-2' }),
+      });
+      expect(db.orderItem.update).toHaveBeenCalledWith({
+        where: { id: 'item-1' },
+        data: { fulfilledQuantity: { increment: 1 } },
+      });
+      expect(sendGameKeyEmail).toHaveBeenCalledWith('user@example.com', {
+        gameTitle: 'Test Game',
+        key: 'AAAA-BBBB-CCCC',
+        platform: 'Steam',
+      });
+    });
+  });
+
+  describe('fulfillOrderItem from the local key pool', () => {
+    const localItem = (overrides: Record<string, unknown> = {}) =>
+      orderItem({
+        game: { ...orderItem().game, g2aProductId: null },
+        ...overrides,
+      });
+
+    it('delivers pool keys and updates the stock flag', async () => {
+      db.orderItem.findUnique.mockResolvedValue(localItem());
+      db.orderItem.findUniqueOrThrow
+        .mockResolvedValueOnce(localItem())
+        .mockResolvedValueOnce(localItem({ fulfilledQuantity: 2 }));
+      vi.mocked(claimPoolKeys).mockResolvedValue({ keyIds: ['key-1', 'key-2'], requested: 2 });
+      db.gameKey.findMany.mockResolvedValue([
+        { id: 'key-1', ...encryptGameKey('POOL-KEY-0001') },
+        { id: 'key-2', ...encryptGameKey('POOL-KEY-0002') },
+      ]);
+
+      const result = await fulfillOrderItem('item-1', null);
+
+      expect(result).toEqual({ itemId: 'item-1', status: 'FULFILLED', delivered: 2, refunded: 0 });
+      expect(db.$queryRaw).toHaveBeenCalled();
+      expect(claimPoolKeys).toHaveBeenCalledWith(db, 'game-1', 2, {
+        orderId: 'order-1',
+        orderItemId: 'item-1',
+      });
+      expect(db.orderItem.update).toHaveBeenCalledWith({
+        where: { id: 'item-1' },
+        data: { fulfilledQuantity: { increment: 2 } },
+      });
+      expect(sendGameKeyEmail).toHaveBeenCalledWith('user@example.com', {
+        gameTitle: 'Test Game',
+        key: 'POOL-KEY-0002',
+        platform: 'Steam',
+      });
+      expect(syncPoolStock).toHaveBeenCalledWith('game-1');
+    });
+
+    it('delivers a G2A game from the pool when staff choose it', async () => {
+      db.orderItem.findUnique.mockResolvedValue(orderItem());
+      db.orderItem.findUniqueOrThrow
+        .mockResolvedValueOnce(orderItem())
+        .mockResolvedValueOnce(orderItem({ fulfilledQuantity: 2 }));
+      vi.mocked(claimPoolKeys).mockResolvedValue({ keyIds: ['key-1', 'key-2'], requested: 2 });
+      db.gameKey.findMany.mockResolvedValue([]);
+      const client = { orders: { create: vi.fn() } } as unknown as G2AIntegrationClient;
+
+      const result = await fulfillOrderItem('item-1', client, { supplier: 'POOL' });
+
+      expect(result).toMatchObject({ status: 'FULFILLED', delivered: 2 });
+      expect(client.orders.create).not.toHaveBeenCalled();
+    });
+
+    it('leaves units the pool cannot cover open for a restock', async () => {
+      db.orderItem.findUnique.mockResolvedValue(localItem());
+      db.orderItem.findUniqueOrThrow
+        .mockResolvedValueOnce(localItem())
+        .mockResolvedValueOnce(localItem({ fulfilledQuantity: 1 }));
+      vi.mocked(claimPoolKeys).mockResolvedValue({ keyIds: ['key-1'], requested: 2 });
+      db.gameKey.findMany.mockResolvedValue([{ id: 'key-1', ...encryptGameKey('POOL-KEY-0001') }]);
+
+      const result = await fulfillOrderItem('item-1', null);
+
+      expect(result).toMatchObject({
+        status: 'PENDING',
+        delivered: 1,
+        error: 'Not enough keys in the local pool (1 of 2 delivered)',
+      });
+      expect(db.user.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('refundOrderItem', () => {
+    it('refunds the item share of a discounted order total', async () => {
+      db.orderItem.findUnique.mockResolvedValue(
+        orderItem({
+          fulfilledQuantity: 1,
+          order: { ...orderItem().order, subtotal: 40, total: 30 },
+        })
+      );
+
+      const result = await refundOrderItem('item-1');
+
+      // One undelivered unit of 10 EUR with a 25% order discount
+      expect(result).toEqual({ itemId: 'item-1', units: 1, amount: 7.5 });
+      expect(db.orderItem.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: 'item-1',
+          fulfilledQuantity: 1,
+          refundedQuantity: 0,
+          OR: [{ fulfillmentLockedAt: null }, { fulfillmentLockedAt: { lt: expect.any(Date) } }],
+        },
+        data: { refundedQuantity: { increment: 1 }, fulfillmentStatus: 'REFUNDED' },
+      });
+      expect(db.transaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ orderId: 'order-1', type: 'REFUND', amount: 7.5 }),
+      });
+    });
+
+    it('does not refund an item that changed in the meantime', async () => {
+      db.orderItem.findUnique.mockResolvedValue(orderItem());
+      db.orderItem.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(refundOrderItem('item-1')).rejects.toMatchObject({ statusCode: 409 });
+      expect(db.user.update).not.toHaveBeenCalled();
+      expect(db.transaction.create).not.toHaveBeenCalled();
+    });
+
+    it('does not refund while another run is buying keys for the item', async () => {
+      db.orderItem.findUnique.mockResolvedValue(
+        orderItem({ fulfillmentLockedAt: new Date(Date.now() - 60 * 1000) })
+      );
+
+      await expect(refundOrderItem('item-1')).rejects.toMatchObject({ statusCode: 409 });
+      expect(db.orderItem.updateMany).not.toHaveBeenCalled();
+      expect(db.user.update).not.toHaveBeenCalled();
+    });
+  });
+});
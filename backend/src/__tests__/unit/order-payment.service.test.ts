@@ -0,0 +1,234 @@
+/**
+ * Unit Tests: Order Payments
+ *
+ * Covers orders paid through a gateway at checkout: confirming the payment, crediting a
+ * payment that arrives after the order was released and releasing the balance part of
+ * failed or expired payments.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('../../config/database', () => import('../../../tests/helpers/mock-database.js'));
+
+vi.mock('../../services/key-pool.service', () => ({
+  countAvailablePoolKeys: vi.fn(),
+}));
+
+vi.mock('../../services/order-fulfillment.service', () => ({
+  fulfillOrderItem: vi.fn(),
+  getSupplierClient: vi.fn(),
+  recordSupplierOrderIds: vi.fn(),
+  settleOrderStatus: vi.fn(),
+}));
+
+vi.mock('../../services/order-status.service', () => ({
+  transitionOrderStatus: vi.fn(),
+}));
+
+vi.mock('../../services/dead-letter.service', () => ({
+  recordFulfillmentFailure: vi.fn(),
+}));
+
+vi.mock('../../services/preorder.service', () => ({
+  isAwaitingRelease: () => false,
+  notifyPreorderPlaced: vi.fn(),
+}));
+
+vi.mock('../../services/cache.service', () => ({
+  invalidateCache: vi.fn(),
+}));
+
+import db from '../../../tests/helpers/mock-database.js';
+import {
+  confirmOrderPayment,
+  openOrderCheckout,
+  releaseOrderPayment,
+} from '../../services/order-payment.service';
+import { countAvailablePoolKeys } from '../../services/key-pool.service';
+import { fulfillOrderItem, settleOrderStatus } from '../../services/order-fulfillment.service';
+import { transitionOrderStatus } from '../../services/order-status.service';
+
+const orderIntent = (overrides: Record<string, unknown> = {}) => ({
+  id: 'intent-1',
+  userId: 'user-1',
+  orderId: 'order-1',
+  gateway: 'stripe',
+  gatewayCurrency: 'EUR',
+  gatewayAmount: 15,
+  balanceAmount: 10,
+  status: 'PENDING',
+  checkoutUrl: null,
+  expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+  user: { email: 'buyer@example.com' },
+  order: {
+    id: 'order-1',
+    status: 'AWAITING_PAYMENT',
+    promoCode: 'SAVE10',
+    riskAssessment: { held: false },
+    items: [
+      {
+        id: 'item-1',
+        gameId: 'game-1',
+        game: {
+          title: 'Test Game',
+          isPreorder: false,
+          releaseDate: new Date(),
+          g2aProductId: null,
+        },
+      },
+    ],
+  },
+  ...overrides,
+});
+
+const payment = { transactionId: 'gateway-tx-1', method: 'stripe' };
+
+describe('Order Payment Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db.paymentIntent.findUnique.mockResolvedValue(orderIntent());
+    db.paymentIntent.updateMany.mockResolvedValue({ count: 1 });
+    db.transaction.create.mockResolvedValue({ id: 'tx-1' });
+    vi.mocked(countAvailablePoolKeys).mockResolvedValue(new Map([['game-1', 3]]));
+    vi.mocked(fulfillOrderItem).mockResolvedValue({
+      itemId: 'item-1',
+      status: 'FULFILLED',
+      delivered: 1,
+      refunded: 0,
+    });
+    vi.mocked(settleOrderStatus).mockResolvedValue('COMPLETED');
+  });
+
+  describe('openOrderCheckout', () => {
+    it('stores where the customer pays', async () => {
+      process.env.STRIPE_SECRET_KEY = 'sk_test';
+      db.paymentIntent.update.mockImplementation(({ data }: { data: object }) => ({
+        ...orderIntent(),
+        ...data,
+      }));
+
+      const result = await openOrderCheckout('intent-1');
+
+      expect(db.paymentIntent.update).toHaveBeenCalledWith({
+        where: { id: 'intent-1' },
+        data: {
+          gatewayReference: expect.stringMatching(/^cs_/),
+          checkoutUrl: expect.stringContaining('checkout.stripe.com'),
+        },
+      });
+      expect(result).toMatchObject({ amount: 15, balanceAmount: 10, status: 'pending' });
+    });
+  });
+
+  describe('confirmOrderPayment', () => {
+    it('completes the balance part and delivers the order', async () => {
+      await confirmOrderPayment('intent-1', payment);
+
+      expect(db.transaction.updateMany).toHaveBeenCalledWith({
+        where: { orderId: 'order-1', type: 'PURCHASE', status: 'PENDING' },
+        data: { status: 'COMPLETED' },
+      });
+      expect(db.transaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ orderId: 'order-1', type: 'PURCHASE', amount: -15 }),
+      });
+      expect(transitionOrderStatus).toHaveBeenCalledWith(
+        'order-1',
+        'PROCESSING',
+        expect.objectContaining({ actorType: 'WEBHOOK' }),
+        expect.objectContaining({ data: { paymentStatus: 'COMPLETED' } })
+      );
+      expect(fulfillOrderItem).toHaveBeenCalledWith('item-1', null, {
+        refundOnCriticalError: true,
+      });
+      expect(db.user.update).not.toHaveBeenCalled();
+    });
+
+    it('credits a payment that arrives after the order was released', async () => {
+      db.paymentIntent.findUnique.mockResolvedValue(
+        orderIntent({
+          status: 'EXPIRED',
+          order: { ...orderIntent().order, status: 'CANCELLED' },
+        })
+      );
+
+      await confirmOrderPayment('intent-1', payment);
+
+      expect(db.paymentIntent.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: 'intent-1', status: 'EXPIRED' } })
+      );
+      expect(db.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { balance: { increment: 15 } },
+      });
+      expect(db.transaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ type: 'TOP_UP', amount: 15 }),
+      });
+      expect(transitionOrderStatus).not.toHaveBeenCalled();
+      expect(fulfillOrderItem).not.toHaveBeenCalled();
+    });
+
+    it('credits the payment when the order is released while it is confirmed', async () => {
+      const expired = orderIntent({
+        status: 'EXPIRED',
+        order: { ...orderIntent().order, status: 'CANCELLED' },
+      });
+      db.paymentIntent.findUnique.mockResolvedValueOnce(orderIntent()).mockResolvedValue(expired);
+      db.paymentIntent.updateMany.mockResolvedValueOnce({ count: 0 });
+
+      await confirmOrderPayment('intent-1', payment);
+
+      expect(db.paymentIntent.updateMany).toHaveBeenLastCalledWith(
+        expect.objectContaining({ where: { id: 'intent-1', status: 'EXPIRED' } })
+      );
+      expect(db.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { balance: { increment: 15 } },
+      });
+      expect(transitionOrderStatus).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('releaseOrderPayment', () => {
+    it('cancels the order and gives the balance part back', async () => {
+      const released = await releaseOrderPayment('intent-1', {
+        status: 'EXPIRED',
+        reason: 'Payment not completed in time',
+        actorType: 'SYSTEM',
+      });
+
+      expect(released).toBe(true);
+      expect(transitionOrderStatus).toHaveBeenCalledWith(
+        'order-1',
+        'CANCELLED',
+        { actorType: 'SYSTEM', reason: 'Payment not completed in time' },
+        expect.objectContaining({ data: { paymentStatus: 'FAILED' } })
+      );
+      expect(db.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { balance: { increment: 10 } },
+      });
+      expect(db.transaction.updateMany).toHaveBeenCalledWith({
+        where: { orderId: 'order-1', type: 'PURCHASE', status: 'PENDING' },
+        data: { status: 'CANCELLED' },
+      });
+      expect(db.promoCode.updateMany).toHaveBeenCalledWith({
+        where: { code: 'SAVE10', usedCount: { gt: 0 } },
+        data: { usedCount: { decrement: 1 } },
+      });
+    });
+
+    it('does nothing when the payment was already settled', async () => {
+      db.paymentIntent.updateMany.mockResolvedValue({ count: 0 });
+
+      const released = await releaseOrderPayment('intent-1', {
+        status: 'FAILED',
+        reason: 'Payment failed at the gateway',
+        actorType: 'WEBHOOK',
+      });
+
+      expect(released).toBe(false);
+      expect(transitionOrderStatus).not.toHaveBeenCalled();
+      expect(db.user.update).not.toHaveBeenCalled();
+    });
+  });
+});
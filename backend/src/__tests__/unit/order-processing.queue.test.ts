@@ -0,0 +1,94 @@
+/**
+ * Unit Tests: Order Processing Queue
+ *
+ * Covers the queue worker delivering an order and sending items it could not deliver to
+ * the dead-letter store.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { Job } from 'bullmq';
+
+vi.mock('bullmq', () => ({
+  Queue: class {},
+  Worker: class {
+    on = vi.fn();
+  },
+}));
+
+vi.mock('../../config/database', () => import('../../../tests/helpers/mock-database.js'));
+
+vi.mock('../../services/order-fulfillment.service', () => ({
+  fulfillOrderItem: vi.fn(),
+  getSupplierClient: vi.fn(),
+  recordSupplierOrderIds: vi.fn(),
+  settleOrderStatus: vi.fn(),
+}));
+
+vi.mock('../../services/dead-letter.service', () => ({
+  recordFulfillmentFailure: vi.fn(),
+}));
+
+import db from '../../../tests/helpers/mock-database.js';
+import { processOrderJob } from '../../queues/order-processing.queue';
+import {
+  fulfillOrderItem,
+  recordSupplierOrderIds,
+  settleOrderStatus,
+} from '../../services/order-fulfillment.service';
+import { recordFulfillmentFailure } from '../../services/dead-letter.service';
+
+const jobData = {
+  orderId: 'order-1',
+  userId: 'user-1',
+  userEmail: 'buyer@example.com',
+  items: [],
+  total: 20,
+};
+
+const job = { id: 'order-order-1', data: jobData } as Job<typeof jobData>;
+
+describe('Order Processing Queue', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db.orderItem.findMany.mockResolvedValue([{ id: 'item-1' }, { id: 'item-2' }]);
+  });
+
+  it('records a dead letter for items it could not deliver', async () => {
+    vi.mocked(fulfillOrderItem)
+      .mockResolvedValueOnce({ itemId: 'item-1', status: 'FULFILLED', delivered: 1, refunded: 0 })
+      .mockResolvedValueOnce({
+        itemId: 'item-2',
+        status: 'FAILED',
+        delivered: 0,
+        refunded: 0,
+        error: 'Supplier out of stock',
+      });
+    vi.mocked(settleOrderStatus).mockResolvedValue('PARTIALLY_COMPLETED');
+
+    const result = await processOrderJob(job);
+
+    expect(result).toMatchObject({ status: 'PARTIALLY_COMPLETED', keysCount: 1, errorsCount: 1 });
+    expect(recordFulfillmentFailure).toHaveBeenCalledWith({
+      orderId: 'order-1',
+      source: 'QUEUE',
+      jobId: 'order-order-1',
+      payload: jobData,
+      attempts: [{ error: 'Supplier out of stock', failedAt: expect.any(Date) }],
+    });
+  });
+
+  it('records nothing when every item is delivered', async () => {
+    vi.mocked(fulfillOrderItem).mockResolvedValue({
+      itemId: 'item-1',
+      status: 'FULFILLED',
+      delivered: 1,
+      refunded: 0,
+    });
+    vi.mocked(settleOrderStatus).mockResolvedValue('COMPLETED');
+
+    await processOrderJob(job);
+
+    expect(recordSupplierOrderIds).toHaveBeenCalledWith('order-1');
+    expect(recordFulfillmentFailure).not.toHaveBeenCalled();
+  });
+});
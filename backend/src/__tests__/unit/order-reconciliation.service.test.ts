@@ -0,0 +1,184 @@
+/**
+ * Unit Tests: Order Reconciliation
+ *
+ * Covers finding orders stuck in processing, collecting keys that were bought before the
+ * order got stuck, refunding units that fail again and storing the run report.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('../../config/database', () => import('../../../tests/helpers/mock-database.js'));
+
+vi.mock('../../services/order-fulfillment.service', () => ({
+  fulfillOrderItem: vi.fn(),
+  getSupplierClient: vi.fn(),
+  recordSupplierOrderIds: vi.fn(),
+  recoverSupplierKeys: vi.fn(),
+  refundOrderItem: vi.fn(),
+  settleOrderStatus: vi.fn(),
+}));
+
+vi.mock('../../queues/order-processing.queue', () => ({
+  orderProcessingQueue: { getJob: vi.fn() },
+}));
+
+import db from '../../../tests/helpers/mock-database.js';
+import { runOrderReconciliation } from '../../services/order-reconciliation.service';
+import {
+  fulfillOrderItem,
+  getSupplierClient,
+  recoverSupplierKeys,
+  refundOrderItem,
+  settleOrderStatus,
+} from '../../services/order-fulfillment.service';
+import { orderProcessingQueue } from '../../queues/order-processing.queue';
+import { G2AIntegrationClient } from '../../lib/g2a/G2AIntegrationClient';
+
+const client = {} as G2AIntegrationClient;
+
+describe('Order Reconciliation Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db.order.findMany.mockResolvedValue([{ id: 'order-1' }]);
+    db.orderItem.findMany.mockResolvedValue([{ id: 'item-1', supplierOrderIds: ['g2a-1'] }]);
+    db.orderReconciliationRun.create.mockImplementation(
+      ({ data }: { data: Record<string, unknown> }) => ({
+        ...data,
+        id: 'run-1',
+        finishedAt: new Date(),
+        triggeredBy: null,
+      })
+    );
+    vi.mocked(getSupplierClient).mockResolvedValue(client);
+    vi.mocked(orderProcessingQueue!.getJob).mockResolvedValue(undefined);
+    vi.mocked(recoverSupplierKeys).mockResolvedValue({
+      itemId: 'item-1',
+      recovered: 0,
+      unpaid: [],
+      lost: [],
+    });
+    vi.mocked(fulfillOrderItem).mockResolvedValue({
+      itemId: 'item-1',
+      status: 'FULFILLED',
+      delivered: 0,
+      refunded: 0,
+    });
+    vi.mocked(settleOrderStatus).mockResolvedValue('COMPLETED');
+  });
+
+  it('completes an order whose keys were bought before it got stuck', async () => {
+    vi.mocked(recoverSupplierKeys).mockResolvedValue({
+      itemId: 'item-1',
+      recovered: 1,
+      unpaid: [],
+      lost: [],
+    });
+
+    const report = await runOrderReconciliation({ trigger: 'SCHEDULED' });
+
+    expect(db.order.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: expect.objectContaining({ status: 'PROCESSING' }) })
+    );
+    expect(recoverSupplierKeys).toHaveBeenCalledWith('item-1', client);
+    expect(refundOrderItem).not.toHaveBeenCalled();
+    expect(report).toMatchObject({ id: 'run-1', checked: 1, completed: 1 });
+    expect(report.entries[0]).toMatchObject({
+      orderId: 'order-1',
+      action: 'COMPLETED',
+      status: 'COMPLETED',
+      recoveredKeys: 1,
+    });
+  });
+
+  it('refunds units that fail again', async () => {
+    vi.mocked(fulfillOrderItem).mockResolvedValue({
+      itemId: 'item-1',
+      status: 'FAILED',
+      delivered: 0,
+      refunded: 0,
+      error: 'Out of stock',
+    });
+    vi.mocked(refundOrderItem).mockResolvedValue({ itemId: 'item-1', units: 1, amount: 9.99 });
+    vi.mocked(settleOrderStatus).mockResolvedValue('FAILED');
+
+    const report = await runOrderReconciliation({ trigger: 'SCHEDULED' });
+
+    expect(refundOrderItem).toHaveBeenCalledWith(
+      'item-1',
+      'not delivered after the order got stuck'
+    );
+    expect(report.refunded).toBe(1);
+    expect(report.entries[0]).toMatchObject({
+      action: 'REFUNDED',
+      status: 'FAILED',
+      refundedUnits: 1,
+      refundedAmount: 9.99,
+      notes: ['Item item-1 failed again: Out of stock'],
+    });
+  });
+
+  it('leaves items alone while another run is buying their keys', async () => {
+    vi.mocked(fulfillOrderItem).mockResolvedValue({
+      itemId: 'item-1',
+      status: 'FAILED',
+      delivered: 0,
+      refunded: 0,
+      error: 'Keys for this item are already being bought',
+      skipped: true,
+    });
+    vi.mocked(settleOrderStatus).mockResolvedValue('PROCESSING');
+
+    const report = await runOrderReconciliation({ trigger: 'SCHEDULED' });
+
+    expect(refundOrderItem).not.toHaveBeenCalled();
+    expect(report.entries[0]).toMatchObject({
+      action: 'RETRIED',
+      refundedUnits: 0,
+      notes: ['Item item-1 was skipped: another run is buying its keys'],
+    });
+  });
+
+  it('skips orders that are still queued for processing', async () => {
+    vi.mocked(orderProcessingQueue!.getJob).mockResolvedValue({
+      getState: vi.fn().mockResolvedValue('active'),
+    } as never);
+
+    const report = await runOrderReconciliation({ trigger: 'SCHEDULED' });
+
+    expect(fulfillOrderItem).not.toHaveBeenCalled();
+    expect(settleOrderStatus).not.toHaveBeenCalled();
+    expect(report.entries[0]).toMatchObject({ action: 'SKIPPED', status: 'PROCESSING' });
+  });
+
+  it('reports an order that could not be reconciled and carries on', async () => {
+    db.order.findMany.mockResolvedValue([{ id: 'order-1' }, { id: 'order-2' }]);
+    vi.mocked(recoverSupplierKeys).mockRejectedValueOnce(new Error('G2A unavailable'));
+
+    const report = await runOrderReconciliation({ trigger: 'MANUAL', actorId: 'admin-1' });
+
+    expect(report).toMatchObject({ checked: 2, completed: 1, failed: 1 });
+    expect(report.entries[0]).toMatchObject({
+      orderId: 'order-1',
+      action: 'FAILED',
+      notes: ['G2A unavailable'],
+    });
+    expect(db.orderReconciliationRun.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ trigger: 'MANUAL', triggeredById: 'admin-1' }),
+      })
+    );
+  });
+
+  it('only stores runs that found nothing when staff started them', async () => {
+    db.order.findMany.mockResolvedValue([]);
+
+    const scheduled = await runOrderReconciliation({ trigger: 'SCHEDULED' });
+    expect(scheduled).toMatchObject({ checked: 0, entries: [] });
+    expect(scheduled.id).toBeUndefined();
+    expect(db.orderReconciliationRun.create).not.toHaveBeenCalled();
+
+    const manual = await runOrderReconciliation({ trigger: 'MANUAL', actorId: 'admin-1' });
+    expect(manual.id).toBe('run-1');
+    expect(db.orderReconciliationRun.create).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Unit Tests: Order status transitions
+ *
+ * Covers the allowed transition table and recording of status history.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('../../config/database', () => import('../../../tests/helpers/mock-database.js'));
+
+import db from '../../../tests/helpers/mock-database.js';
+import { canTransition, transitionOrderStatus } from '../../services/order-status.service';
+
+describe('Order Status Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db.order.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  describe('canTransition', () => {
+    it('never reopens completed or cancelled orders', () => {
+      expect(canTransition('COMPLETED', 'PENDING')).toBe(false);
+      expect(canTransition('COMPLETED', 'PROCESSING')).toBe(false);
+      expect(canTransition('CANCELLED', 'PENDING')).toBe(false);
+    });
+
+    it('allows completing, failing and cancelling processing orders', () => {
+      expect(canTransition('PROCESSING', 'COMPLETED')).toBe(true);
+      expect(canTransition('PROCESSING', 'FAILED')).toBe(true);
+      expect(canTransition('COMPLETED', 'CANCELLED')).toBe(true);
+    });
+
+    it('only lets partially completed orders finish or be cancelled', () => {
+      expect(canTransition('PROCESSING', 'PARTIALLY_COMPLETED')).toBe(true);
+      expect(canTransition('PARTIALLY_COMPLETED', 'COMPLETED')).toBe(true);
+      expect(canTransition('PARTIALLY_COMPLETED', 'FAILED')).toBe(false);
+      expect(canTransition('PARTIALLY_COMPLETED', 'PENDING')).toBe(false);
+    });
+  });
+
+  describe('transitionOrderStatus', () => {
+    it('rejects an illegal jump without touching the order', async () => {
+      db.order.findUnique.mockResolvedValue({ status: 'COMPLETED' });
+
+      await expect(
+        transitionOrderStatus('order-1', 'PENDING', { actorType: 'ADMIN', actorId: 'admin-1' })
+      ).rejects.toMatchObject({ statusCode: 400 });
+      expect(db.order.updateMany).not.toHaveBeenCalled();
+      expect(db.orderStatusHistory.create).not.toHaveBeenCalled();
+    });
+
+    it('updates the order and records actor and reason', async () => {
+      db.order.findUnique.mockResolvedValue({ status: 'PROCESSING' });
+
+      const result = await transitionOrderStatus(
+        'order-1',
+        'CANCELLED',
+        { actorType: 'ADMIN', actorId: 'admin-1', reason: 'Customer request' },
+        { data: { paymentStatus: 'CANCELLED' } }
+      );
+
+      expect(result).toEqual({ from: 'PROCESSING', changed: true });
+      expect(db.order.updateMany).toHaveBeenCalledWith({
+        where: { id: 'order-1', status: 'PROCESSING' },
+        data: { paymentStatus: 'CANCELLED', status: 'CANCELLED' },
+      });
+      expect(db.orderStatusHistory.create).toHaveBeenCalledWith({
+        data: {
+          orderId: 'order-1',
+          fromStatus: 'PROCESSING',
+          toStatus: 'CANCELLED',
+          actorType: 'ADMIN',
+          actorId: 'admin-1',
+          reason: 'Customer request',
+        },
+      });
+    });
+
+    it('fails when the status changed since it was read', async () => {
+      db.order.findUnique.mockResolvedValue({ status: 'PROCESSING' });
+      db.order.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        transitionOrderStatus('order-1', 'COMPLETED', { actorType: 'SYSTEM' })
+      ).rejects.toMatchObject({ statusCode: 409 });
+      expect(db.orderStatusHistory.create).not.toHaveBeenCalled();
+    });
+
+    it('does not record a change when the status stays the same', async () => {
+      db.order.findUnique.mockResolvedValue({ status: 'PROCESSING' });
+
+      const result = await transitionOrderStatus('order-1', 'PROCESSING', { actorType: 'SYSTEM' });
+
+      expect(result).toEqual({ from: 'PROCESSING', changed: false });
+      expect(db.orderStatusHistory.create).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,54 +1,90 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 
 // Mock prisma
-vi.mock('../../config/database', () => ({
-  default: {
-    user: {
-      findUnique: vi.fn(),
-      create: vi.fn(),
-      update: vi.fn(),
-    },
-    transaction: {
-      create: vi.fn(),
-    },
-    promoCode: {
-      findUnique: vi.fn(),
-    },
-  },
-}));
+vi.mock('../../config/database', () => import('../../../tests/helpers/mock-database.js'));
 
 // Mock email service
 vi.mock('../../services/email.service', () => ({
   sendBalanceTopUpEmail: vi.fn(),
 }));
 
-import { convertCurrency, createBalanceTopUpIntent } from '../../services/payment.service';
+vi.mock('../../services/invoice.service', () => ({
+  getTopUpInvoiceAttachment: vi.fn(),
+}));
 
-describe('Payment Service', () => {
-  describe('convertCurrency', () => {
-    it('should return same amount for same currency', () => {
-      expect(convertCurrency(100, 'EUR', 'EUR')).toBe(100);
-    });
+vi.mock('../../services/order-payment.service', () => ({
+  confirmOrderPayment: vi.fn(),
+  releaseOrderPayment: vi.fn(),
+}));
 
-    it('should convert EUR to PLN correctly', () => {
-      const result = convertCurrency(100, 'EUR', 'PLN');
-      expect(result).toBeGreaterThan(100); // PLN is weaker than EUR
-    });
+vi.mock('../../services/exchange-rate.service', async (importOriginal) => {
+  // Units per 1 EUR
+  const rates: Record<string, number> = { EUR: 1, PLN: 4.3, USD: 1.1 };
+  const actual = await importOriginal<typeof import('../../services/exchange-rate.service')>();
+  return {
+    ...actual,
+    convertCurrency: vi.fn(async (amount: number, from: string, to: string) => {
+      const rate = rates[to] / rates[from];
+      return {
+        amount: Number((amount * rate).toFixed(2)),
+        currency: to,
+        originalAmount: amount,
+        originalCurrency: from,
+        rate,
+      };
+    }),
+  };
+});
 
-    it('should convert EUR to USD correctly', () => {
-      const result = convertCurrency(100, 'EUR', 'USD');
-      expect(result).toBe(110); // EUR to USD at 1.1 rate
-    });
+import db from '../../../tests/helpers/mock-database.js';
+import { sendBalanceTopUpEmail } from '../../services/email.service';
+import { confirmOrderPayment, releaseOrderPayment } from '../../services/order-payment.service';
+import { convertCurrency } from '../../services/exchange-rate.service';
+import {
+  createBalanceTopUpIntent,
+  expirePaymentIntents,
+  processPaymentWebhook,
+} from '../../services/payment.service';
 
-    it('should convert PLN to EUR correctly', () => {
-      const result = convertCurrency(430, 'PLN', 'EUR');
-      expect(result).toBe(100); // PLN to EUR at 4.3 rate
-    });
-  });
+let intentCount = 0;
+const storedIntent = (overrides: Record<string, unknown> = {}) => ({
+  id: 'intent-1',
+  userId: 'user-1',
+  amount: 50,
+  currency: 'EUR',
+  discount: 5,
+  creditAmount: 50,
+  exchangeRate: 1,
+  promoCodeId: 'promo-1',
+  gateway: 'stripe',
+  gatewayCurrency: 'PLN',
+  gatewayAmount: 193.5,
+  status: 'PENDING',
+  expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+  createdAt: new Date(),
+  user: { email: 'buyer@example.com' },
+  ...overrides,
+});
 
+const webhook = (overrides: Record<string, unknown> = {}) => ({
+  intentId: 'intent-1',
+  transactionId: 'gateway-tx-1',
+  email: 'payer@example.com',
+  amount: 193.5,
+  currency: 'PLN',
+  method: 'stripe',
+  status: 'completed' as const,
+  timestamp: new Date().toISOString(),
+  ...overrides,
+});
+
+describe('Payment Service', () => {
   describe('createBalanceTopUpIntent', () => {
     beforeEach(() => {
       vi.clearAllMocks();
+      db.paymentIntent.create.mockImplementation(({ data }: { data: Record<string, unknown> }) =>
+        storedIntent({ ...data, id: `intent-${++intentCount}`, status: 'PENDING' })
+      );
     });
 
     it('should throw error for amount <= 0', async () => {
@@ -100,5 +136,215 @@ describe('Payment Service', () => {
 
       expect(result1.id).not.toBe(result2.id);
     });
+
+    it('stores the intent with the promo discount and the amount to credit', async () => {
+      db.promoCode.findUnique.mockResolvedValue({
+        id: 'promo-1',
+        active: true,
+        usedCount: 0,
+        maxUses: null,
+        discount: 10,
+        validFrom: new Date(Date.now() - 1000),
+        validUntil: new Date(Date.now() + 1000),
+      });
+
+      const result = await createBalanceTopUpIntent('user-1', {
+        amount: 50,
+        currency: 'EUR',
+        paymentMethod: 'stripe',
+        promoCode: 'SAVE10',
+      });
+
+      expect(db.paymentIntent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId: 'user-1',
+          amount: 50,
+          discount: 5,
+          creditAmount: 50,
+          exchangeRate: 1,
+          promoCodeId: 'promo-1',
+          gatewayCurrency: 'PLN',
+          gatewayAmount: 193.5,
+          expiresAt: expect.any(Date),
+        }),
+      });
+      expect(result).toMatchObject({ amount: 193.5, currency: 'PLN', requestedAmount: 50 });
+    });
+
+    it('credits the EUR value of a top-up requested in another currency', async () => {
+      await createBalanceTopUpIntent('user-1', {
+        amount: 215,
+        currency: 'PLN',
+        paymentMethod: 'stripe',
+      });
+
+      expect(convertCurrency).toHaveBeenCalledWith(215, 'PLN', 'EUR');
+      expect(db.paymentIntent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          amount: 215,
+          currency: 'PLN',
+          creditAmount: 50,
+          exchangeRate: 1 / 4.3,
+        }),
+      });
+    });
+
+    it('refuses a top-up when no current rate is available', async () => {
+      const error = Object.assign(new Error('No exchange rate for USD is available'), {
+        statusCode: 503,
+      });
+      vi.mocked(convertCurrency).mockRejectedValueOnce(error);
+
+      await expect(
+        createBalanceTopUpIntent('user-1', {
+          amount: 50,
+          currency: 'USD',
+          paymentMethod: 'stripe',
+        })
+      ).rejects.toMatchObject({ statusCode: 503 });
+      expect(db.paymentIntent.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('processPaymentWebhook', () => {
+    beforeEach(() => {
+      vi.clearAllMocks();
+      db.paymentIntent.findUnique.mockResolvedValue(storedIntent());
+      db.paymentIntent.updateMany.mockResolvedValue({ count: 1 });
+      db.transaction.create.mockResolvedValue({ id: 'tx-1' });
+      db.user.findUnique.mockResolvedValue({ id: 'user-1', balance: 80 });
+    });
+
+    it('credits the requested amount to the user of the intent', async () => {
+      await processPaymentWebhook(webhook());
+
+      expect(db.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { balance: { increment: 50 } },
+      });
+      expect(db.transaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ userId: 'user-1', amount: 50, currency: 'EUR' }),
+      });
+      expect(db.paymentIntent.update).toHaveBeenCalledWith({
+        where: { id: 'intent-1' },
+        data: { transactionId: 'tx-1' },
+      });
+      expect(db.promoCode.update).toHaveBeenCalledWith({
+        where: { id: 'promo-1' },
+        data: { usedCount: { increment: 1 } },
+      });
+      expect(sendBalanceTopUpEmail).toHaveBeenCalledWith(
+        'buyer@example.com',
+        expect.objectContaining({ amount: 50, balance: 80 })
+      );
+    });
+
+    it('records the rate used for a top-up paid in another currency', async () => {
+      db.paymentIntent.findUnique.mockResolvedValue(
+        storedIntent({ amount: 215, currency: 'PLN', discount: 0, exchangeRate: 0.23255814 })
+      );
+
+      await processPaymentWebhook(webhook());
+
+      expect(db.transaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          amount: 50,
+          currency: 'EUR',
+          originalAmount: 215,
+          originalCurrency: 'PLN',
+          exchangeRate: 0.23255814,
+        }),
+      });
+    });
+
+    it('rejects a webhook that charged a different amount', async () => {
+      await expect(processPaymentWebhook(webhook({ amount: 1000 }))).rejects.toMatchObject({
+        statusCode: 400,
+      });
+      expect(db.user.update).not.toHaveBeenCalled();
+    });
+
+    it('rejects a webhook for an unknown intent', async () => {
+      db.paymentIntent.findUnique.mockResolvedValue(null);
+
+      await expect(processPaymentWebhook(webhook())).rejects.toMatchObject({ statusCode: 404 });
+    });
+
+    it('credits a repeated webhook only once', async () => {
+      db.paymentIntent.updateMany.mockResolvedValue({ count: 0 });
+
+      await processPaymentWebhook(webhook());
+
+      expect(db.user.update).not.toHaveBeenCalled();
+      expect(sendBalanceTopUpEmail).not.toHaveBeenCalled();
+    });
+
+    it('marks the intent failed when the payment fails', async () => {
+      await processPaymentWebhook(webhook({ status: 'failed' }));
+
+      expect(db.paymentIntent.updateMany).toHaveBeenCalledWith({
+        where: { id: 'intent-1', status: 'PENDING' },
+        data: expect.objectContaining({ status: 'FAILED' }),
+      });
+      expect(db.user.update).not.toHaveBeenCalled();
+    });
+
+    it('hands the payment of an order to the order it belongs to', async () => {
+      db.paymentIntent.findUnique.mockResolvedValue(
+        storedIntent({ orderId: 'order-1', gatewayCurrency: 'EUR', gatewayAmount: 15 })
+      );
+
+      await processPaymentWebhook(webhook({ amount: 15, currency: 'EUR' }));
+
+      expect(confirmOrderPayment).toHaveBeenCalledWith('intent-1', {
+        transactionId: 'gateway-tx-1',
+        method: 'stripe',
+        gatewayResponse: expect.objectContaining({ intentId: 'intent-1' }),
+      });
+      expect(db.user.update).not.toHaveBeenCalled();
+    });
+
+    it('releases the order when its payment is cancelled', async () => {
+      db.paymentIntent.findUnique.mockResolvedValue(
+        storedIntent({ orderId: 'order-1', gatewayCurrency: 'EUR', gatewayAmount: 15 })
+      );
+
+      await processPaymentWebhook(webhook({ amount: 15, currency: 'EUR', status: 'cancelled' }));
+
+      expect(releaseOrderPayment).toHaveBeenCalledWith(
+        'intent-1',
+        expect.objectContaining({ status: 'CANCELLED', actorType: 'WEBHOOK' })
+      );
+      expect(confirmOrderPayment).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('expirePaymentIntents', () => {
+    beforeEach(() => {
+      vi.clearAllMocks();
+      db.paymentIntent.findMany.mockResolvedValue([]);
+    });
+
+    it('expires pending top-ups past their expiry', async () => {
+      db.paymentIntent.updateMany.mockResolvedValue({ count: 2 });
+
+      await expect(expirePaymentIntents()).resolves.toBe(2);
+      expect(db.paymentIntent.updateMany).toHaveBeenCalledWith({
+        where: { status: 'PENDING', orderId: null, expiresAt: { lte: expect.any(Date) } },
+        data: { status: 'EXPIRED' },
+      });
+    });
+
+    it('releases orders whose payment expired', async () => {
+      db.paymentIntent.findMany.mockResolvedValue([{ id: 'intent-2' }]);
+      db.paymentIntent.updateMany.mockResolvedValue({ count: 0 });
+      vi.mocked(releaseOrderPayment).mockResolvedValue(true);
+
+      await expect(expirePaymentIntents()).resolves.toBe(1);
+      expect(releaseOrderPayment).toHaveBeenCalledWith(
+        'intent-2',
+        expect.objectContaining({ status: 'EXPIRED', actorType: 'SYSTEM' })
+      );
+    });
   });
 });
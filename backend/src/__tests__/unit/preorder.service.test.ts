@@ -0,0 +1,185 @@
+/**
+ * Unit Tests: Preorders
+ *
+ * Covers deciding which paid preorders can be delivered, the release run started by the
+ * preorder job and staff releasing preorders by hand.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('../../config/database', () => import('../../../tests/helpers/mock-database.js'));
+
+vi.mock('../../services/key-pool.service', () => ({
+  countAvailablePoolKeys: vi.fn(),
+}));
+
+vi.mock('../../services/order-fulfillment.service', () => ({
+  fulfillOrderItem: vi.fn(),
+  getOutstandingQuantity: (item: {
+    quantity: number;
+    fulfilledQuantity: number;
+    refundedQuantity: number;
+  }) => item.quantity - item.fulfilledQuantity - item.refundedQuantity,
+  getSupplierClient: vi.fn(),
+  recordSupplierOrderIds: vi.fn(),
+  settleOrderStatus: vi.fn(),
+}));
+
+vi.mock('../../services/order-status.service', () => ({
+  transitionOrderStatus: vi.fn(),
+}));
+
+vi.mock('../../services/email.service', () => ({
+  sendPreorderUpdateEmail: vi.fn(),
+}));
+
+vi.mock('../../services/cache.service', () => ({
+  invalidateCache: vi.fn(),
+}));
+
+import db from '../../../tests/helpers/mock-database.js';
+import {
+  planPreorderRelease,
+  processReleasedPreorders,
+  releasePreorders,
+} from '../../services/preorder.service';
+import { countAvailablePoolKeys } from '../../services/key-pool.service';
+import { fulfillOrderItem, settleOrderStatus } from '../../services/order-fulfillment.service';
+import { transitionOrderStatus } from '../../services/order-status.service';
+import { sendPreorderUpdateEmail } from '../../services/email.service';
+
+const NOW = new Date('2026-03-01T12:00:00Z');
+
+const makePreorder = (
+  id: string,
+  game: { releaseDate: string; g2aProductId?: string | null },
+  quantity = 1
+) => ({
+  id,
+  userId: 'user-1',
+  status: 'PREORDER',
+  total: 59.99,
+  createdAt: new Date('2026-02-01T00:00:00Z'),
+  user: { id: 'user-1', email: 'buyer@example.com', nickname: 'Buyer' },
+  gift: null,
+  items: [
+    {
+      id: `${id}-item`,
+      gameId: 'game-1',
+      quantity,
+      fulfilledQuantity: 0,
+      refundedQuantity: 0,
+      game: {
+        id: 'game-1',
+        title: 'Future Game',
+        isPreorder: true,
+        releaseDate: new Date(game.releaseDate),
+        g2aProductId: game.g2aProductId ?? null,
+      },
+    },
+  ],
+});
+
+describe('Preorder Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(fulfillOrderItem).mockResolvedValue({
+      itemId: 'order-1-item',
+      status: 'FULFILLED',
+      delivered: 1,
+      refunded: 0,
+    });
+    vi.mocked(settleOrderStatus).mockResolvedValue('COMPLETED');
+  });
+
+  describe('planPreorderRelease', () => {
+    it('releases orders once their game is out', () => {
+      const ready = planPreorderRelease(
+        [makePreorder('order-1', { releaseDate: '2026-02-28T00:00:00Z' })],
+        new Map(),
+        NOW
+      );
+
+      expect(ready.get('order-1')).toBe('Game released');
+    });
+
+    it('uses early pool keys for the oldest orders first', () => {
+      const ready = planPreorderRelease(
+        [
+          makePreorder('order-1', { releaseDate: '2026-06-01T00:00:00Z' }, 2),
+          makePreorder('order-2', { releaseDate: '2026-06-01T00:00:00Z' }, 2),
+        ],
+        new Map([['game-1', 3]]),
+        NOW
+      );
+
+      expect([...ready.keys()]).toEqual(['order-1']);
+      expect(ready.get('order-1')).toBe('Preorder keys arrived before release');
+    });
+
+    it('keeps G2A preorders waiting until the release date', () => {
+      const ready = planPreorderRelease(
+        [makePreorder('order-1', { releaseDate: '2026-06-01T00:00:00Z', g2aProductId: 'g2a-1' })],
+        new Map([['game-1', 5]]),
+        NOW
+      );
+
+      expect(ready.size).toBe(0);
+    });
+  });
+
+  describe('processReleasedPreorders', () => {
+    it('moves a released preorder to processing, delivers it and tells the customer', async () => {
+      const order = makePreorder('order-1', { releaseDate: '2020-01-01T00:00:00Z' });
+      db.order.findMany.mockResolvedValue([order]);
+      db.order.findUnique.mockResolvedValue(order);
+      vi.mocked(countAvailablePoolKeys).mockResolvedValue(new Map());
+
+      await expect(processReleasedPreorders()).resolves.toEqual({ released: 1, failed: 0 });
+
+      expect(transitionOrderStatus).toHaveBeenCalledWith('order-1', 'PROCESSING', {
+        actorType: 'SYSTEM',
+        reason: 'Game released',
+      });
+      expect(fulfillOrderItem).toHaveBeenCalledWith('order-1-item', null, {
+        refundOnCriticalError: true,
+      });
+      expect(settleOrderStatus).toHaveBeenCalledWith('order-1', {
+        actorType: 'SYSTEM',
+        actorId: undefined,
+      });
+      expect(sendPreorderUpdateEmail).toHaveBeenCalledWith(
+        'buyer@example.com',
+        expect.objectContaining({ subject: 'Your preorder of Future Game is here' })
+      );
+    });
+  });
+
+  describe('releasePreorders', () => {
+    it('reports orders that are no longer waiting without stopping the rest', async () => {
+      db.order.findUnique
+        .mockResolvedValueOnce({
+          ...makePreorder('order-1', { releaseDate: '2026-06-01' }),
+          status: 'CANCELLED',
+        })
+        .mockResolvedValueOnce(makePreorder('order-2', { releaseDate: '2026-06-01' }));
+
+      const results = await releasePreorders(['order-1', 'order-2'], 'admin-1');
+
+      expect(results).toEqual([
+        { orderId: 'order-1', error: 'Order is not waiting for a release' },
+        { orderId: 'order-2', status: 'COMPLETED', delivered: 1 },
+      ]);
+      expect(transitionOrderStatus).toHaveBeenCalledTimes(1);
+      expect(transitionOrderStatus).toHaveBeenCalledWith('order-2', 'PROCESSING', {
+        actorType: 'ADMIN',
+        actorId: 'admin-1',
+        reason: 'Released by staff',
+      });
+    });
+
+    it('requires a list of order ids', async () => {
+      await expect(releasePreorders('order-1')).rejects.toMatchObject({ statusCode: 400 });
+    });
+  });
+});
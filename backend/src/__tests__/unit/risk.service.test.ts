@@ -0,0 +1,273 @@
+/**
+ * Unit Tests: Fraud Risk Scoring
+ *
+ * Covers scoring orders against the rules, editing the rules and staff approving or
+ * rejecting held orders.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('../../config/database', () => import('../../../tests/helpers/mock-database.js'));
+
+vi.mock('../../services/admin.service', () => ({
+  cancelOrder: vi.fn(),
+}));
+
+vi.mock('../../services/key-pool.service', () => ({
+  countAvailablePoolKeys: vi.fn(),
+}));
+
+vi.mock('../../services/order-fulfillment.service', () => ({
+  fulfillOrderItem: vi.fn(),
+  getSupplierClient: vi.fn(),
+  recordSupplierOrderIds: vi.fn(),
+  settleOrderStatus: vi.fn(),
+}));
+
+vi.mock('../../services/order-status.service', () => ({
+  transitionOrderStatus: vi.fn(),
+}));
+
+vi.mock('../../services/preorder.service', () => ({
+  isAwaitingRelease: (game: { isPreorder: boolean; releaseDate: Date }, now = new Date()) =>
+    game.isPreorder && game.releaseDate > now,
+  notifyPreorderPlaced: vi.fn(),
+}));
+
+vi.mock('../../services/cache.service', () => ({
+  invalidateCache: vi.fn(),
+}));
+
+import db from '../../../tests/helpers/mock-database.js';
+import {
+  approveHeldOrder,
+  assessOrderRisk,
+  evaluateRiskRules,
+  getFraudSettings,
+  rejectHeldOrder,
+  updateFraudSettings,
+  RiskContext,
+} from '../../services/risk.service';
+import { cancelOrder } from '../../services/admin.service';
+import { countAvailablePoolKeys } from '../../services/key-pool.service';
+import { fulfillOrderItem, settleOrderStatus } from '../../services/order-fulfillment.service';
+import { transitionOrderStatus } from '../../services/order-status.service';
+import { RiskSettings } from '../../types/risk';
+
+const trustedCustomer: RiskContext = {
+  accountAgeHours: 24 * 365,
+  emailVerified: true,
+  recentOrders: 0,
+  recentTopUps: 0,
+  orderTotal: 30,
+  highestItemPrice: 30,
+  loginIps: 1,
+  loginCountries: ['DE'],
+};
+
+const defaultSettings = async (): Promise<RiskSettings> => {
+  const response = await getFraudSettings();
+  return {
+    holdThreshold: response.holdThreshold,
+    rules: Object.fromEntries(
+      response.rules.map((rule) => [
+        rule.id,
+        {
+          enabled: rule.enabled,
+          points: rule.points,
+          params: Object.fromEntries(rule.params.map((param) => [param.key, param.value])),
+        },
+      ])
+    ) as RiskSettings['rules'],
+  };
+};
+
+const heldOrder = (overrides: object = {}) => ({
+  id: 'order-1',
+  userId: 'user-1',
+  status: 'ON_HOLD',
+  user: { email: 'buyer@example.com' },
+  items: [
+    {
+      id: 'item-1',
+      gameId: 'game-1',
+      game: {
+        title: 'Pool Game',
+        isPreorder: false,
+        releaseDate: new Date('2020-01-01T00:00:00Z'),
+        g2aProductId: null,
+      },
+    },
+  ],
+  ...overrides,
+});
+
+describe('Risk Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db.fraudSettings.findUnique.mockResolvedValue(null);
+    db.fraudSettings.upsert.mockResolvedValue({ updatedAt: new Date() });
+  });
+
+  describe('evaluateRiskRules', () => {
+    it('lets orders of established customers through', async () => {
+      const result = evaluateRiskRules(trustedCustomer, await defaultSettings());
+
+      expect(result).toEqual({ score: 0, threshold: 50, held: false, signals: [] });
+    });
+
+    it('holds an order once the matching rules reach the threshold', async () => {
+      const result = evaluateRiskRules(
+        {
+          ...trustedCustomer,
+          accountAgeHours: 2,
+          emailVerified: false,
+          recentTopUps: 100,
+          orderTotal: 95,
+          highestItemPrice: 95,
+        },
+        await defaultSettings()
+      );
+
+      expect(result.signals.map((signal) => signal.rule)).toEqual([
+        'NEW_ACCOUNT',
+        'UNVERIFIED_EMAIL',
+        'TOP_UP_THEN_SPEND',
+        'HIGH_VALUE',
+      ]);
+      expect(result.score).toBe(75);
+      expect(result.held).toBe(true);
+    });
+
+    it('skips disabled rules and uses the edited parameters', async () => {
+      const settings = await defaultSettings();
+      settings.rules.UNVERIFIED_EMAIL.enabled = false;
+      settings.rules.HIGH_VALUE.params.minItemPrice = 20;
+
+      const result = evaluateRiskRules({ ...trustedCustomer, emailVerified: false }, settings);
+
+      expect(result.signals).toEqual([
+        { rule: 'HIGH_VALUE', points: 20, detail: 'Item priced at EUR 30' },
+      ]);
+    });
+  });
+
+  describe('assessOrderRisk', () => {
+    it('flags logins from several countries', async () => {
+      db.user.findUnique.mockResolvedValue({
+        createdAt: new Date('2024-01-01'),
+        emailVerified: true,
+      });
+      db.order.count.mockResolvedValue(0);
+      db.transaction.aggregate.mockResolvedValue({ _sum: { amount: null } });
+      db.loginHistory.findMany.mockResolvedValue([
+        { ipAddress: '203.0.113.5', country: 'BR', createdAt: new Date() },
+        { ipAddress: '198.51.100.7', country: 'DE', createdAt: new Date() },
+        { ipAddress: '198.51.100.7', country: 'DE', createdAt: new Date() },
+      ]);
+
+      const result = await assessOrderRisk('user-1', { total: 20, items: [{ price: 20 }] });
+
+      expect(result.signals).toEqual([
+        expect.objectContaining({
+          rule: 'COUNTRY_CHANGE',
+          detail: expect.stringContaining('BR, DE'),
+        }),
+      ]);
+      expect(result.held).toBe(false);
+    });
+  });
+
+  describe('updateFraudSettings', () => {
+    it('saves edited rules on top of the current settings', async () => {
+      const result = await updateFraudSettings(
+        { holdThreshold: 40, rules: { COUNTRY_CHANGE: { points: 45 } } },
+        'admin-1'
+      );
+
+      const saved = db.fraudSettings.upsert.mock.calls[0][0].update;
+      expect(saved.holdThreshold).toBe(40);
+      expect(saved.rules.COUNTRY_CHANGE).toEqual({
+        enabled: true,
+        points: 45,
+        params: { windowDays: 30 },
+      });
+      expect(result.rules.find((rule) => rule.id === 'COUNTRY_CHANGE')?.points).toBe(45);
+    });
+
+    it('rejects unknown rules and invalid values', async () => {
+      await expect(
+        updateFraudSettings({ rules: { UNKNOWN: { points: 5 } } } as never)
+      ).rejects.toMatchObject({ statusCode: 400 });
+      await expect(updateFraudSettings({ holdThreshold: 0 })).rejects.toMatchObject({
+        statusCode: 400,
+      });
+      await expect(
+        updateFraudSettings({ rules: { HIGH_VALUE: { params: { minOrderTotal: -1 } } } })
+      ).rejects.toMatchObject({ statusCode: 400 });
+      expect(db.fraudSettings.upsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('approveHeldOrder', () => {
+    it('delivers an approved order like a regular checkout', async () => {
+      db.order.findUnique.mockResolvedValue(heldOrder());
+      vi.mocked(countAvailablePoolKeys).mockResolvedValue(new Map([['game-1', 5]]));
+      vi.mocked(settleOrderStatus).mockResolvedValue('COMPLETED');
+
+      await expect(approveHeldOrder('order-1', 'admin-1')).resolves.toEqual({
+        orderId: 'order-1',
+        decision: 'APPROVED',
+        status: 'COMPLETED',
+      });
+
+      expect(transitionOrderStatus).toHaveBeenCalledWith(
+        'order-1',
+        'PROCESSING',
+        expect.objectContaining({ actorType: 'ADMIN', actorId: 'admin-1' }),
+        expect.anything()
+      );
+      expect(db.orderRiskAssessment.updateMany).toHaveBeenCalledWith({
+        where: { orderId: 'order-1' },
+        data: expect.objectContaining({ decision: 'APPROVED', reviewedById: 'admin-1' }),
+      });
+      expect(fulfillOrderItem).toHaveBeenCalledWith('item-1', null, {
+        refundOnCriticalError: true,
+      });
+    });
+
+    it('refuses orders that are not on hold', async () => {
+      db.order.findUnique.mockResolvedValue(heldOrder({ status: 'PROCESSING' }));
+
+      await expect(approveHeldOrder('order-1', 'admin-1')).rejects.toMatchObject({
+        statusCode: 400,
+      });
+      expect(transitionOrderStatus).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('rejectHeldOrder', () => {
+    it('cancels and refunds the order', async () => {
+      db.order.findUnique.mockResolvedValue(heldOrder());
+
+      await rejectHeldOrder('order-1', 'admin-1', 'Stolen card');
+
+      expect(cancelOrder).toHaveBeenCalledWith(
+        'order-1',
+        'Rejected after fraud review: Stolen card',
+        'admin-1'
+      );
+      expect(db.orderRiskAssessment.updateMany).toHaveBeenCalledWith({
+        where: { orderId: 'order-1' },
+        data: expect.objectContaining({ decision: 'REJECTED', reviewNote: 'Stolen card' }),
+      });
+    });
+
+    it('requires a reason', async () => {
+      await expect(rejectHeldOrder('order-1', 'admin-1', ' ')).rejects.toMatchObject({
+        statusCode: 400,
+      });
+      expect(cancelOrder).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Unit Tests: Session service
+ *
+ * Covers refresh token rotation and reuse detection for device sessions.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('../../config/database', () => import('../../../tests/helpers/mock-database.js'));
+
+import db from '../../../tests/helpers/mock-database.js';
+import {
+  createSession,
+  rotateRefreshToken,
+  hashRefreshToken,
+  isSessionRevoked,
+} from '../../services/session.service';
+import { verifyAccessToken, verifyRefreshToken } from '../../utils/jwt';
+
+const user = { id: 'user-1', email: 'user@example.com', role: 'USER' };
+
+const storedToken = (overrides: Record<string, unknown> = {}) => ({
+  id: 'token-1',
+  sessionId: 'session-1',
+  expiresAt: new Date(Date.now() + 60_000),
+  usedAt: null,
+  session: {
+    id: 'session-1',
+    userId: user.id,
+    ipAddress: '10.0.0.1',
+    userAgent: 'Firefox',
+    expiresAt: new Date(Date.now() + 60_000),
+    revokedAt: null,
+    user,
+  },
+  ...overrides,
+});
+
+describe('Session Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('createSession', () => {
+    it('stores only the hash of the refresh token and embeds the session id', async () => {
+      const result = await createSession(user, { ipAddress: '10.0.0.1', userAgent: 'Firefox' });
+
+      const { data } = db.userSession.create.mock.calls[0][0];
+      expect(data.id).toBe(result.sessionId);
+      expect(data.refreshTokens.create.tokenHash).toBe(hashRefreshToken(result.refreshToken));
+      expect(data.refreshTokens.create.tokenHash).not.toBe(result.refreshToken);
+      expect(verifyAccessToken(result.token).sessionId).toBe(result.sessionId);
+      expect(verifyRefreshToken(result.refreshToken).sessionId).toBe(result.sessionId);
+    });
+  });
+
+  describe('rotateRefreshToken', () => {
+    it('consumes the presented token and issues a new one in the same session', async () => {
+      const { refreshToken } = await createSession(user);
+      db.refreshToken.findUnique.mockResolvedValue(storedToken());
+      db.refreshToken.updateMany.mockResolvedValue({ count: 1 });
+
+      const result = await rotateRefreshToken(refreshToken, '10.0.0.2', 'Chrome');
+
+      expect(result.refreshToken).not.toBe(refreshToken);
+      expect(db.refreshToken.updateMany).toHaveBeenCalledWith({
+        where: { id: 'token-1', usedAt: null },
+        data: { usedAt: expect.any(Date) },
+      });
+      expect(db.refreshToken.create.mock.calls[0][0].data).toMatchObject({
+        sessionId: 'session-1',
+        tokenHash: hashRefreshToken(result.refreshToken),
+      });
+      expect(db.userSession.update.mock.calls[0][0].data).toMatchObject({
+        ipAddress: '10.0.0.2',
+        userAgent: 'Chrome',
+      });
+    });
+
+    it('revokes the whole session when a used token is presented again', async () => {
+      const { refreshToken } = await createSession(user);
+      db.refreshToken.findUnique.mockResolvedValue(storedToken({ usedAt: new Date() }));
+      db.userSession.updateMany.mockResolvedValue({ count: 1 });
+
+      await expect(rotateRefreshToken(refreshToken)).rejects.toThrow('already been used');
+      expect(db.userSession.updateMany).toHaveBeenCalledWith({
+        where: { id: 'session-1', revokedAt: null },
+        data: { revokedAt: expect.any(Date), revokedReason: 'refresh_token_reuse' },
+      });
+      expect(db.refreshToken.create).not.toHaveBeenCalled();
+    });
+
+    it('treats losing a concurrent rotation race as reuse', async () => {
+      const { refreshToken } = await createSession(user);
+      db.refreshToken.findUnique.mockResolvedValue(storedToken());
+      db.refreshToken.updateMany.mockResolvedValue({ count: 0 });
+      db.userSession.updateMany.mockResolvedValue({ count: 1 });
+
+      await expect(rotateRefreshToken(refreshToken)).rejects.toThrow('already been used');
+      expect(db.userSession.updateMany).toHaveBeenCalled();
+    });
+
+    it('rejects tokens of a revoked session', async () => {
+      const { refreshToken } = await createSession(user);
+      const token = storedToken();
+      db.refreshToken.findUnique.mockResolvedValue({
+        ...token,
+        session: { ...token.session, revokedAt: new Date() },
+      });
+
+      await expect(rotateRefreshToken(refreshToken)).rejects.toThrow('Session has ended');
+      expect(db.refreshToken.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('rejects unknown tokens', async () => {
+      const { refreshToken } = await createSession(user);
+      db.refreshToken.findUnique.mockResolvedValue(null);
+
+      await expect(rotateRefreshToken(refreshToken)).rejects.toThrow('Invalid or expired');
+    });
+  });
+
+  describe('isSessionRevoked', () => {
+    it('reports revoked and missing sessions', async () => {
+      db.userSession.findUnique.mockResolvedValueOnce({ revokedAt: new Date() });
+      expect(await isSessionRevoked('session-1')).toBe(true);
+
+      db.userSession.findUnique.mockResolvedValueOnce(null);
+      expect(await isSessionRevoked('session-1')).toBe(true);
+
+      db.userSession.findUnique.mockResolvedValueOnce({ revokedAt: null });
+      expect(await isSessionRevoked('session-1')).toBe(false);
+    });
+  });
+});
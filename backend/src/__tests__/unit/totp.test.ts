@@ -0,0 +1,97 @@
+/**
+ * Unit Tests: TOTP utilities
+ *
+ * Verifies RFC 6238 code generation used for two-factor authentication.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  base32Encode,
+  base32Decode,
+  generateTotp,
+  generateTotpSecret,
+  findTotpStep,
+  verifyTotp,
+  buildOtpAuthUrl,
+} from '../../utils/totp.js';
+
+// RFC 6238 Appendix B test secret ("12345678901234567890" in ASCII)
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('TOTP utilities', () => {
+  describe('base32', () => {
+    it('should round-trip arbitrary bytes', () => {
+      const bytes = Buffer.from([0, 1, 2, 250, 251, 255, 17, 42]);
+      expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+    });
+
+    it('should reject invalid characters', () => {
+      expect(() => base32Decode('ABC1')).toThrow('Invalid base32 character');
+    });
+  });
+
+  describe('generateTotp', () => {
+    it('should match RFC 6238 reference values', () => {
+      expect(generateTotp(RFC_SECRET, 59 * 1000, 8)).toBe('94287082');
+      expect(generateTotp(RFC_SECRET, 1111111109 * 1000, 8)).toBe('07081804');
+      expect(generateTotp(RFC_SECRET, 1234567890 * 1000, 8)).toBe('89005924');
+    });
+
+    it('should produce 6-digit codes by default', () => {
+      expect(generateTotp(RFC_SECRET, 59 * 1000)).toBe('287082');
+    });
+  });
+
+  describe('verifyTotp', () => {
+    const now = 1_700_000_000_000;
+
+    it('should accept the current code', () => {
+      const secret = generateTotpSecret();
+      expect(verifyTotp(secret, generateTotp(secret, now), 1, now)).toBe(true);
+    });
+
+    it('should accept codes within the drift window', () => {
+      const secret = generateTotpSecret();
+      expect(verifyTotp(secret, generateTotp(secret, now - 30_000), 1, now)).toBe(true);
+      expect(verifyTotp(secret, generateTotp(secret, now + 30_000), 1, now)).toBe(true);
+    });
+
+    it('should reject codes outside the drift window', () => {
+      const secret = generateTotpSecret();
+      expect(verifyTotp(secret, generateTotp(secret, now - 90_000), 1, now)).toBe(false);
+    });
+
+    it('should reject malformed codes', () => {
+      const secret = generateTotpSecret();
+      expect(verifyTotp(secret, '12345', 1, now)).toBe(false);
+      expect(verifyTotp(secret, 'abcdef', 1, now)).toBe(false);
+    });
+  });
+
+  describe('findTotpStep', () => {
+    const now = 1_700_000_000_000;
+    const currentStep = Math.floor(now / 30_000);
+
+    it('should return the time step the code belongs to', () => {
+      const secret = generateTotpSecret();
+      expect(findTotpStep(secret, generateTotp(secret, now), 1, now)).toBe(currentStep);
+      expect(findTotpStep(secret, generateTotp(secret, now - 30_000), 1, now)).toBe(
+        currentStep - 1
+      );
+    });
+
+    it('should return null for a code that does not match', () => {
+      const secret = generateTotpSecret();
+      expect(findTotpStep(secret, generateTotp(secret, now - 90_000), 1, now)).toBeNull();
+    });
+  });
+
+  describe('buildOtpAuthUrl', () => {
+    it('should include issuer, account and secret', () => {
+      const url = buildOtpAuthUrl('JBSWY3DPEHPK3PXP', 'user@example.com', 'GKEYS Store');
+      expect(url.startsWith('otpauth://totp/GKEYS%20Store%3Auser%40example.com?')).toBe(true);
+      expect(url).toContain('secret=JBSWY3DPEHPK3PXP');
+      expect(url).toContain('issuer=GKEYS+Store');
+    });
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Unit Tests: Two-factor service
+ *
+ * Covers storing the TOTP secret encrypted and refusing a code that was already used.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+vi.mock('../../config/database', () => import('../../../tests/helpers/mock-database.js'));
+
+vi.mock('../../utils/bcrypt', () => ({
+  comparePassword: vi.fn(),
+}));
+
+vi.mock('qrcode', () => ({
+  default: { toDataURL: vi.fn().mockResolvedValue('data:image/png;base64,') },
+}));
+
+import db from '../../../tests/helpers/mock-database.js';
+import { beginTwoFactorSetup, verifyTwoFactorCode } from '../../services/two-factor.service';
+import { decryptSecret, encryptSecret } from '../../utils/game-key-crypto';
+import { generateTotp, generateTotpSecret } from '../../utils/totp';
+
+const secret = generateTotpSecret();
+const NOW = new Date('2026-03-01T12:00:10Z');
+const currentStep = () => Math.floor(NOW.getTime() / 30_000);
+
+const enrolledUser = (overrides: Record<string, unknown> = {}) => ({
+  id: 'user-1',
+  email: 'user@example.com',
+  role: 'USER',
+  twoFactorEnabled: true,
+  twoFactorSecret: encryptSecret(secret),
+  twoFactorLastStep: null,
+  twoFactorRecoveryCodes: [],
+  ...overrides,
+});
+
+describe('Two-Factor Service', () => {
+  const originalKeys = process.env.GAME_KEY_MASTER_KEYS;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers({ now: NOW, toFake: ['Date'] });
+    process.env.GAME_KEY_MASTER_KEYS = `v1:${Buffer.alloc(32, 1).toString('base64')}`;
+    db.user.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    process.env.GAME_KEY_MASTER_KEYS = originalKeys;
+  });
+
+  describe('beginTwoFactorSetup', () => {
+    it('stores the secret encrypted', async () => {
+      db.user.findUnique.mockResolvedValue(enrolledUser({ twoFactorEnabled: false }));
+
+      const result = await beginTwoFactorSetup('user-1');
+
+      const { data } = db.user.update.mock.calls[0][0];
+      expect(data.twoFactorSecret).not.toContain(result.secret);
+      expect(decryptSecret(data.twoFactorSecret)).toBe(result.secret);
+      expect(data.twoFactorLastStep).toBeNull();
+    });
+  });
+
+  describe('verifyTwoFactorCode', () => {
+    it('accepts a code once and records its time step', async () => {
+      db.user.findUnique.mockResolvedValue(enrolledUser());
+
+      await expect(verifyTwoFactorCode('user-1', { code: generateTotp(secret) })).resolves.toBe(
+        true
+      );
+      expect(db.user.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: 'user-1',
+          OR: [{ twoFactorLastStep: null }, { twoFactorLastStep: { lt: currentStep() } }],
+        },
+        data: { twoFactorLastStep: currentStep() },
+      });
+    });
+
+    it('refuses a code from a time step that was already used', async () => {
+      db.user.findUnique.mockResolvedValue(enrolledUser({ twoFactorLastStep: currentStep() }));
+
+      await expect(verifyTwoFactorCode('user-1', { code: generateTotp(secret) })).resolves.toBe(
+        false
+      );
+      expect(db.user.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('refuses a code another request has just used', async () => {
+      db.user.findUnique.mockResolvedValue(enrolledUser());
+      db.user.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(verifyTwoFactorCode('user-1', { code: generateTotp(secret) })).resolves.toBe(
+        false
+      );
+    });
+
+    it('still reads a secret stored before encryption', async () => {
+      db.user.findUnique.mockResolvedValue(enrolledUser({ twoFactorSecret: secret }));
+
+      await expect(verifyTwoFactorCode('user-1', { code: generateTotp(secret) })).resolves.toBe(
+        true
+      );
+    });
+  });
+});
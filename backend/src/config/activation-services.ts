@@ -0,0 +1,179 @@
+/**
+ * How to redeem a key on each activation service. Looked up by `Game.activationService`.
+ */
+export interface ActivationGuide {
+  service: string;
+  steps: string[];
+  redeemUrl?: string;
+}
+
+const GUIDES: Record<string, ActivationGuide> = {
+  steam: {
+    service: 'Steam',
+    redeemUrl: 'https://store.steampowered.com/account/registerkey',
+    steps: [
+      'Open the Steam client and sign in',
+      'Click "Games" in the top menu and choose "Activate a Product on Steam..."',
+      'Accept the subscriber agreement and enter your key',
+      'The game appears in your library once the key is accepted',
+    ],
+  },
+  epicgames: {
+    service: 'Epic Games',
+    redeemUrl: 'https://store.epicgames.com/redeem',
+    steps: [
+      'Sign in to the Epic Games Store',
+      'Open your account menu and choose "Redeem Code"',
+      'Enter your key and confirm',
+    ],
+  },
+  gog: {
+    service: 'GOG',
+    redeemUrl: 'https://www.gog.com/redeem',
+    steps: [
+      'Sign in to GOG.com',
+      'Open the redeem page and enter your key',
+      'Confirm to add the game to your library',
+    ],
+  },
+  ubisoftconnect: {
+    service: 'Ubisoft Connect',
+    steps: [
+      'Open Ubisoft Connect and sign in',
+      'Open the menu and choose "Activate a key"',
+      'Enter your key and confirm',
+    ],
+  },
+  eaapp: {
+    service: 'EA app',
+    steps: [
+      'Open the EA app and sign in',
+      'Open the menu and choose "Redeem code"',
+      'Enter your key and follow the prompts',
+    ],
+  },
+  battlenet: {
+    service: 'Battle.net',
+    redeemUrl: 'https://account.battle.net/creditsandgames/redeem',
+    steps: [
+      'Sign in to your Battle.net account',
+      'Open "Redeem a Code" from the account menu',
+      'Enter your key and confirm',
+    ],
+  },
+  rockstar: {
+    service: 'Rockstar Games Launcher',
+    redeemUrl: 'https://socialclub.rockstargames.com/activate',
+    steps: [
+      'Sign in to the Rockstar Games Social Club',
+      'Open the code activation page and enter your key',
+      'Download the game from the Rockstar Games Launcher',
+    ],
+  },
+  xboxlive: {
+    service: 'Xbox',
+    redeemUrl: 'https://redeem.microsoft.com',
+    steps: [
+      'Sign in with your Microsoft account',
+      'Open the redeem page or the Microsoft Store and choose "Redeem a code"',
+      'Enter the 25-character key and confirm',
+    ],
+  },
+  playstationnetwork: {
+    service: 'PlayStation Network',
+    steps: [
+      'Sign in to PlayStation Store on your console or in the browser',
+      'Open your account menu and choose "Redeem Codes"',
+      'Enter your key and confirm',
+    ],
+  },
+  nintendoeshop: {
+    service: 'Nintendo eShop',
+    steps: [
+      'Open Nintendo eShop on your console',
+      'Select "Enter Code" on the left side of the screen',
+      'Enter your key and confirm',
+    ],
+  },
+};
+
+// Other names the catalogue uses for the same services
+const ALIASES: Record<string, string> = {
+  epic: 'epicgames',
+  epicgamesstore: 'epicgames',
+  uplay: 'ubisoftconnect',
+  ubisoft: 'ubisoftconnect',
+  origin: 'eaapp',
+  ea: 'eaapp',
+  blizzard: 'battlenet',
+  rockstargames: 'rockstar',
+  rockstargameslauncher: 'rockstar',
+  xbox: 'xboxlive',
+  microsoftstore: 'xboxlive',
+  psn: 'playstationnetwork',
+  playstation: 'playstationnetwork',
+  nintendo: 'nintendoeshop',
+  eshop: 'nintendoeshop',
+};
+
+/**
+ * Shape of the keys a service issues, used to reject malformed keys on import
+ */
+export interface KeyFormat {
+  service: string;
+  patterns: RegExp[];
+  example: string;
+}
+
+const KEY_FORMATS: Record<string, KeyFormat> = {
+  steam: {
+    service: 'Steam',
+    patterns: [/^[A-Z0-9]{5}(-[A-Z0-9]{5}){2}$/i, /^[A-Z0-9]{5}(-[A-Z0-9]{5}){4}$/i],
+    example: 'AAAAA-BBBBB-CCCCC',
+  },
+  eaapp: {
+    service: 'EA app',
+    patterns: [/^[A-Z0-9]{4}(-[A-Z0-9]{4}){4}$/i],
+    example: 'AAAA-BBBB-CCCC-DDDD-EEEE',
+  },
+  ubisoftconnect: {
+    service: 'Ubisoft Connect',
+    patterns: [/^[A-Z0-9]{4}(-[A-Z0-9]{4}){3}$/i, /^[A-Z0-9]{3}(-[A-Z0-9]{4}){4}$/i],
+    example: 'AAAA-BBBB-CCCC-DDDD',
+  },
+  xboxlive: {
+    service: 'Xbox',
+    patterns: [/^[A-Z0-9]{5}(-[A-Z0-9]{5}){4}$/i],
+    example: 'AAAAA-BBBBB-CCCCC-DDDDD-EEEEE',
+  },
+};
+
+const normalizeService = (activationService?: string | null): string => {
+  const normalized = (activationService || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+  return ALIASES[normalized] || normalized;
+};
+
+/**
+ * Key format of a service, or null when we do not know what its keys look like
+ */
+export const getKeyFormat = (activationService?: string | null): KeyFormat | null =>
+  KEY_FORMATS[normalizeService(activationService)] || null;
+
+/**
+ * Activation guide for a service, with generic steps for services we have no guide for
+ */
+export const getActivationGuide = (activationService?: string | null): ActivationGuide => {
+  const guide = GUIDES[normalizeService(activationService)];
+  if (guide) {
+    return guide;
+  }
+
+  return {
+    service: activationService || 'the platform',
+    steps: [
+      `Open ${activationService || 'the platform the game was bought for'} and sign in`,
+      'Find the option to redeem or activate a product code',
+      'Enter your key and confirm',
+    ],
+  };
+};
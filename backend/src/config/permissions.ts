@@ -0,0 +1,93 @@
+import { Role } from '@prisma/client';
+
+/**
+ * Admin panel permissions. Every admin route declares the permission it needs.
+ */
+export const PERMISSIONS = {
+  DASHBOARD_VIEW: 'dashboard:view',
+  USERS_READ: 'users:read',
+  USERS_WRITE: 'users:write',
+  USERS_BALANCE: 'users:balance',
+  USERS_ROLES: 'users:roles',
+  ORDERS_READ: 'orders:read',
+  ORDERS_WRITE: 'orders:write',
+  TRANSACTIONS_READ: 'transactions:read',
+  PAYMENTS_READ: 'payments:read',
+  PAYMENTS_REFUND: 'payments:refund',
+  CATALOG_READ: 'catalog:read',
+  CATALOG_WRITE: 'catalog:write',
+  GAME_KEYS_READ: 'game-keys:read',
+  GAME_KEYS_WRITE: 'game-keys:write',
+  GAME_KEYS_REVEAL: 'game-keys:reveal',
+  CONTENT_WRITE: 'content:write',
+  CARTS_MANAGE: 'carts:manage',
+  WISHLISTS_READ: 'wishlists:read',
+  PROMO_CODES_MANAGE: 'promo-codes:manage',
+  G2A_MANAGE: 'g2a:manage',
+  G2A_SETTINGS: 'g2a:settings',
+  CACHE_MANAGE: 'cache:manage',
+  EMAIL_TEMPLATES: 'email:templates',
+  EMAIL_SETTINGS: 'email:settings',
+  ROLES_MANAGE: 'roles:manage',
+  FRAUD_RULES: 'fraud:rules',
+  EXCHANGE_RATES: 'exchange-rates:manage',
+} as const;
+
+export type Permission = (typeof PERMISSIONS)[keyof typeof PERMISSIONS];
+
+export const ALL_PERMISSIONS: Permission[] = Object.values(PERMISSIONS);
+
+export const isPermission = (value: string): value is Permission =>
+  (ALL_PERMISSIONS as string[]).includes(value);
+
+const P = PERMISSIONS;
+
+/**
+ * Permissions granted by each built-in role.
+ * ADMIN keeps full operational access but only SUPERADMIN can hand out roles.
+ */
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  USER: [],
+  SUPERADMIN: ALL_PERMISSIONS,
+  ADMIN: ALL_PERMISSIONS.filter((p) => p !== P.USERS_ROLES && p !== P.ROLES_MANAGE),
+  SUPPORT: [
+    P.DASHBOARD_VIEW,
+    P.USERS_READ,
+    P.USERS_WRITE,
+    P.ORDERS_READ,
+    P.ORDERS_WRITE,
+    P.TRANSACTIONS_READ,
+    P.CATALOG_READ,
+    P.GAME_KEYS_READ,
+    P.GAME_KEYS_REVEAL,
+    P.CARTS_MANAGE,
+    P.WISHLISTS_READ,
+  ],
+  CONTENT_EDITOR: [
+    P.DASHBOARD_VIEW,
+    P.CATALOG_READ,
+    P.CATALOG_WRITE,
+    P.CONTENT_WRITE,
+    P.EMAIL_TEMPLATES,
+  ],
+  FINANCE: [
+    P.DASHBOARD_VIEW,
+    P.USERS_READ,
+    P.USERS_BALANCE,
+    P.ORDERS_READ,
+    P.TRANSACTIONS_READ,
+    P.PAYMENTS_READ,
+    P.PAYMENTS_REFUND,
+    P.PROMO_CODES_MANAGE,
+    P.EXCHANGE_RATES,
+  ],
+};
+
+/**
+ * Combine the built-in role with an optional custom role
+ */
+export const resolvePermissions = (role: Role, customPermissions: string[] = []): Permission[] => {
+  const permissions = new Set<Permission>(ROLE_PERMISSIONS[role]);
+  customPermissions.filter(isPermission).forEach((p) => permissions.add(p));
+  return Array.from(permissions);
+};
@@ -1,5 +1,8 @@
 import { Response, NextFunction } from 'express';
-import { AuthRequest } from '../middleware/auth.js';
+import { Role } from '@prisma/client';
+import { AuthRequest, hasPermission } from '../middleware/auth.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { PERMISSIONS } from '../config/permissions.js';
 import {
   getDashboardStats,
   searchUsers,
@@ -24,6 +27,8 @@ import {
   updateOrder,
   cancelOrder,
   updateOrderStatus,
+  retryOrderItem,
+  refundUndeliveredItem,
   getPaymentMethods,
   getPaymentTransactions,
   processRefund,
@@ -68,6 +73,7 @@ import {
   createGameKey,
   updateGameKey,
   deleteGameKey,
+  revealGameKey,
   getGameKeyStatistics,
 } from '../services/admin.service.js';
 import {
@@ -99,6 +105,7 @@ import {
   CacheInvalidationRequest,
   BalanceUpdateRequest,
   RoleUpdateRequest,
+  AdminRoleInput,
   ActivityFilters,
 } from '../types/admin.js';
 import {
@@ -107,6 +114,36 @@ import {
   clearUserCartForAdmin,
 } from '../services/cart.service.js';
 import { getUserWishlistForAdmin } from '../services/wishlist.service.js';
+import { importGameKeys } from '../services/key-import.service.js';
+import {
+  getClaims,
+  getClaimDetails,
+  replaceClaimKey,
+  refundClaim,
+  rejectClaim,
+} from '../services/claim.service.js';
+import { getPreorders, releasePreorders } from '../services/preorder.service.js';
+import {
+  approveHeldOrder,
+  getFraudSettings,
+  getRiskReviewQueue,
+  rejectHeldOrder,
+  updateFraudSettings,
+} from '../services/risk.service.js';
+import { runOrderReconciliation } from '../services/order-reconciliation.service.js';
+import {
+  getDeadLetters,
+  refundDeadLetter,
+  retryDeadLetter,
+} from '../services/dead-letter.service.js';
+import {
+  getExchangeRateHistory,
+  getExchangeRateOverview,
+  refreshExchangeRates,
+  setExchangeRate,
+  updateExchangeRateSettings,
+} from '../services/exchange-rate.service.js';
+import { regenerateInvoice } from '../services/invoice.service.js';
 import { createFAQ, updateFAQ, deleteFAQ, getFAQCategories } from '../services/faq.service.js';
 
 export const getDashboardController = async (
@@ -136,6 +173,7 @@ export const searchUsersController = async (
       query: req.query.query as string | undefined,
       email: req.query.email as string | undefined,
       name: req.query.name as string | undefined,
+      locked: req.query.locked === 'true',
       page: req.query.page ? parseInt(req.query.page as string) : undefined,
       pageSize: req.query.pageSize ? parseInt(req.query.pageSize as string) : undefined,
     };
@@ -172,6 +210,24 @@ export const getUserDetailsController = async (
 export const updateUserController = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
+    const { role, balance, ...profileFields } = req.body;
+
+    // The route accepts any of these permissions, so check each field group here
+    if (role !== undefined) {
+      if (!hasPermission(req, PERMISSIONS.USERS_ROLES)) {
+        throw new AppError('You do not have permission to change roles', 403);
+      }
+      if (id === req.user?.userId) {
+        throw new AppError('You cannot change your own role', 400);
+      }
+    }
+    if (balance !== undefined && !hasPermission(req, PERMISSIONS.USERS_BALANCE)) {
+      throw new AppError('You do not have permission to change balances', 403);
+    }
+    if (Object.keys(profileFields).length > 0 && !hasPermission(req, PERMISSIONS.USERS_WRITE)) {
+      throw new AppError('You do not have permission to edit users', 403);
+    }
+
     const result = await updateUser(id, req.body);
 
     res.status(200).json({
@@ -644,7 +700,7 @@ export const updateOrderController = async (
 ) => {
   try {
     const { id } = req.params;
-    const result = await updateOrder(id, req.body);
+    const result = await updateOrder(id, req.body, req.user?.userId);
 
     res.status(200).json({
       success: true,
@@ -663,7 +719,7 @@ export const cancelOrderController = async (
   try {
     const { id } = req.params;
     const { reason } = req.body;
-    await cancelOrder(id, reason);
+    await cancelOrder(id, reason, req.user?.userId);
 
     res.status(200).json({
       success: true,
@@ -681,8 +737,400 @@ export const updateOrderStatusController = async (
 ) => {
   try {
     const { id } = req.params;
-    const { status } = req.body;
-    const result = await updateOrderStatus(id, status);
+    const { status, reason } = req.body;
+    const result = await updateOrderStatus(id, status, req.user?.userId, reason);
+
+    res.status(200).json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const retryOrderItemController = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id, itemId } = req.params;
+    const result = await retryOrderItem(id, itemId, req.user?.userId);
+
+    res.status(200).json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const refundOrderItemController = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id, itemId } = req.params;
+    const { reason } = req.body;
+    const result = await refundUndeliveredItem(id, itemId, reason, req.user?.userId);
+
+    res.status(200).json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getClaimsController = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const page = req.query.page ? parseInt(req.query.page as string) : 1;
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : 20;
+    const status = req.query.status as string | undefined;
+    const orderId = req.query.orderId as string | undefined;
+
+    const result = await getClaims({ status, orderId, page, limit });
+
+    res.status(200).json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getClaimDetailsController = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const claim = await getClaimDetails(req.params.id);
+
+    res.status(200).json({
+      success: true,
+      data: claim,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const replaceClaimKeyController = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const claim = await replaceClaimKey(req.params.id, req.user?.userId, req.body?.note);
+
+    res.status(200).json({
+      success: true,
+      data: claim,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const refundClaimController = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const claim = await refundClaim(req.params.id, req.user?.userId, req.body?.note);
+
+    res.status(200).json({
+      success: true,
+      data: claim,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const rejectClaimController = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const claim = await rejectClaim(req.params.id, req.user?.userId, req.body?.note);
+
+    res.status(200).json({
+      success: true,
+      data: claim,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getPreordersController = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const page = req.query.page ? parseInt(req.query.page as string) : 1;
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : 20;
+
+    const result = await getPreorders({ page, limit });
+
+    res.status(200).json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const releasePreordersController = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const results = await releasePreorders(req.body?.orderIds, req.user?.userId);
+
+    res.status(200).json({
+      success: true,
+      data: results,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getRiskReviewQueueController = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const page = req.query.page ? parseInt(req.query.page as string) : 1;
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : 20;
+
+    const result = await getRiskReviewQueue({ page, limit });
+
+    res.status(200).json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const approveHeldOrderController = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = await approveHeldOrder(req.params.id, req.user?.userId, req.body?.note);
+
+    res.status(200).json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const rejectHeldOrderController = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = await rejectHeldOrder(req.params.id, req.user?.userId, req.body?.reason);
+
+    res.status(200).json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getFraudSettingsController = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const settings = await getFraudSettings();
+
+    res.status(200).json({
+      success: true,
+      data: settings,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updateFraudSettingsController = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const settings = await updateFraudSettings(req.body || {}, req.user?.userId);
+
+    res.status(200).json({
+      success: true,
+      data: settings,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const runOrderReconciliationController = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const report = await runOrderReconciliation({
+      trigger: 'MANUAL',
+      actorId: req.user?.userId,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: report,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getDeadLettersController = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const page = req.query.page ? parseInt(req.query.page as string) : 1;
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : 20;
+    const status = req.query.status as string | undefined;
+
+    const result = await getDeadLetters({ status, page, limit });
+
+    res.status(200).json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const retryDeadLetterController = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = await retryDeadLetter(req.params.id, req.user?.userId, req.body?.supplier);
+
+    res.status(200).json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const refundDeadLetterController = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = await refundDeadLetter(req.params.id, req.user?.userId, req.body?.reason);
+
+    res.status(200).json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getExchangeRatesController = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const overview = await getExchangeRateOverview();
+
+    res.status(200).json({
+      success: true,
+      data: overview,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getExchangeRateHistoryController = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
+    const history = await getExchangeRateHistory(req.params.currency, limit);
+
+    res.status(200).json({
+      success: true,
+      data: history,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const setExchangeRateController = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const rate = await setExchangeRate(req.body || {}, req.user?.userId);
+
+    res.status(201).json({
+      success: true,
+      data: rate,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const refreshExchangeRatesController = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = await refreshExchangeRates(req.user?.userId);
 
     res.status(200).json({
       success: true,
@@ -693,6 +1141,58 @@ export const updateOrderStatusController = async (
   }
 };
 
+export const updateExchangeRateSettingsController = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const overview = await updateExchangeRateSettings(req.body || {}, req.user?.userId);
+
+    res.status(200).json({
+      success: true,
+      data: overview,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getOrderInvoiceController = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { filename, pdf } = await regenerateInvoice({ orderId: req.params.id }, req.user?.userId);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename=${filename}`);
+    res.send(pdf);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getTopUpInvoiceController = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { filename, pdf } = await regenerateInvoice(
+      { transactionId: req.params.id },
+      req.user?.userId
+    );
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename=${filename}`);
+    res.send(pdf);
+  } catch (error) {
+    next(error);
+  }
+};
+
 export const getG2AMetricsController = async (
   req: AuthRequest,
   res: Response,
@@ -1199,13 +1699,17 @@ export const updateUserRoleController = async (
 ) => {
   try {
     const { id } = req.params;
-    const { role } = req.body as RoleUpdateRequest;
+    const { role, adminRoleId } = req.body as RoleUpdateRequest;
+
+    if (!role || !Object.values(Role).includes(role)) {
+      throw new AppError(`Role must be one of ${Object.values(Role).join(', ')}`, 400);
+    }
 
-    if (!role || (role !== 'USER' && role !== 'ADMIN')) {
-      throw new Error('Role must be USER or ADMIN');
+    if (id === req.user?.userId) {
+      throw new AppError('You cannot change your own role', 400);
     }
 
-    await updateUserRoleForAdmin(id, role);
+    await updateUserRoleForAdmin(id, role, adminRoleId);
 
     res.status(200).json({
       success: true,
@@ -1216,6 +1720,100 @@ export const updateUserRoleController = async (
   }
 };
 
+export const getRolesController = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { getRolesOverview } = await import('../services/admin-role.service.js');
+    const result = await getRolesOverview();
+
+    res.status(200).json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const createRoleController = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { createAdminRole } = await import('../services/admin-role.service.js');
+    const result = await createAdminRole(req.body as AdminRoleInput);
+
+    res.status(201).json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updateRoleController = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id } = req.params;
+    const { updateAdminRole } = await import('../services/admin-role.service.js');
+    const result = await updateAdminRole(id, req.body as Partial<AdminRoleInput>);
+
+    res.status(200).json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const deleteRoleController = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id } = req.params;
+    const { deleteAdminRole } = await import('../services/admin-role.service.js');
+    await deleteAdminRole(id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Role deleted successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const unlockUserController = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id } = req.params;
+
+    const { unlockAccount } = await import('../services/login-throttle.service.js');
+    await unlockAccount(id);
+
+    res.status(200).json({
+      success: true,
+      message: 'User account unlocked',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 export const getUserActivityController = async (
   req: AuthRequest,
   res: Response,
@@ -2063,6 +2661,23 @@ export const createGameKeyController = async (
   }
 };
 
+export const importGameKeysController = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { gameId, content, fileName, activationService, dryRun } = req.body;
+    const report = await importGameKeys(
+      { gameId, content, fileName, activationService, dryRun: dryRun !== false },
+      req.user?.userId
+    );
+    res.status(report.dryRun ? 200 : 201).json({ success: true, data: report });
+  } catch (error) {
+    next(error);
+  }
+};
+
 export const updateGameKeyController = async (
   req: AuthRequest,
   res: Response,
@@ -2091,6 +2706,24 @@ export const deleteGameKeyController = async (
   }
 };
 
+export const revealGameKeyController = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id } = req.params;
+    const result = await revealGameKey(id, req.user!.userId, {
+      reason: typeof req.body?.reason === 'string' ? req.body.reason : undefined,
+      ipAddress: req.ip || req.socket.remoteAddress || undefined,
+      userAgent: req.get('user-agent') || undefined,
+    });
+    res.json({ success: true, data: result });
+  } catch (error) {
+    next(error);
+  }
+};
+
 export const getGameKeyStatisticsController = async (
   req: AuthRequest,
   res: Response,
@@ -1,11 +1,26 @@
 import { Request, Response, NextFunction } from 'express';
 import { validationResult } from 'express-validator';
-import { register, login, refreshToken } from '../services/auth.service.js';
-import { RegisterRequest, LoginRequest } from '../types/auth.js';
+import {
+  register,
+  login,
+  refreshToken,
+  verifyTwoFactorLogin,
+  beginChallengeTwoFactorSetup,
+} from '../services/auth.service.js';
+import { RegisterRequest, LoginRequest, TwoFactorVerifyRequest } from '../types/auth.js';
 import { AppError } from '../middleware/errorHandler.js';
 import { AuthRequest } from '../middleware/auth.js';
 import { getUserProfile } from '../services/user.service.js';
 
+/**
+ * Country of the client as reported by the CDN in front of the API (Cloudflare or Vercel).
+ * Unknown and Tor exits are reported as XX and T1.
+ */
+const getRequestCountry = (req: Request): string | undefined => {
+  const country = (req.get('cf-ipcountry') || req.get('x-vercel-ip-country') || '').toUpperCase();
+  return /^[A-Z]{2}$/.test(country) && country !== 'XX' && country !== 'T1' ? country : undefined;
+};
+
 export const registerController = async (req: Request, res: Response, next: NextFunction) => {
   try {
     const errors = validationResult(req);
@@ -14,7 +29,9 @@ export const registerController = async (req: Request, res: Response, next: Next
     }
 
     const data: RegisterRequest = req.body;
-    const result = await register(data);
+    const ipAddress = req.ip || req.socket.remoteAddress || undefined;
+    const userAgent = req.get('user-agent') || undefined;
+    const result = await register(data, ipAddress, userAgent);
 
     res.status(201).json({
       success: true,
@@ -38,7 +55,66 @@ export const loginController = async (req: Request, res: Response, next: NextFun
     // Get IP address and user agent for login history
     const ipAddress = req.ip || req.socket.remoteAddress || undefined;
     const userAgent = req.get('user-agent') || undefined;
-    const result = await login(data, sessionId, ipAddress, userAgent);
+    const result = await login(data, sessionId, ipAddress, userAgent, getRequestCountry(req));
+
+    res.status(200).json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const verifyTwoFactorLoginController = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, errors.array());
+    }
+
+    const data: TwoFactorVerifyRequest = req.body;
+    const sessionId = (req.cookies?.sessionId as string) || (req.headers['x-session-id'] as string);
+    const ipAddress = req.ip || req.socket.remoteAddress || undefined;
+    const userAgent = req.get('user-agent') || undefined;
+    const result = await verifyTwoFactorLogin(
+      data,
+      sessionId,
+      ipAddress,
+      userAgent,
+      getRequestCountry(req)
+    );
+
+    res.status(200).json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const twoFactorChallengeSetupController = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { challengeToken } = req.body;
+
+    if (!challengeToken || typeof challengeToken !== 'string') {
+      return res.status(400).json({
+        success: false,
+        message: 'Challenge token is required',
+      });
+    }
+
+    const ipAddress = req.ip || req.socket.remoteAddress || undefined;
+    const result = await beginChallengeTwoFactorSetup(challengeToken, ipAddress);
 
     res.status(200).json({
       success: true,
@@ -57,7 +133,9 @@ export const refreshTokenController = async (req: Request, res: Response, next:
     }
 
     const { refreshToken: refreshTokenString } = req.body;
-    const result = await refreshToken(refreshTokenString);
+    const ipAddress = req.ip || req.socket.remoteAddress || undefined;
+    const userAgent = req.get('user-agent') || undefined;
+    const result = await refreshToken(refreshTokenString, ipAddress, userAgent);
 
     res.status(200).json({
       success: true,
@@ -68,8 +146,17 @@ export const refreshTokenController = async (req: Request, res: Response, next:
   }
 };
 
-export const logoutController = async (req: Request, res: Response, next: NextFunction) => {
+export const logoutController = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
+    // End this device's session so its refresh token stops working
+    if (req.user?.sessionId) {
+      const { revokeSession } = await import('../services/session.service.js');
+      await revokeSession(req.user.userId, req.user.sessionId).catch((error) => {
+        // Already revoked or expired - logout still succeeds
+        console.warn('Failed to revoke session on logout:', error);
+      });
+    }
+
     // Clear cookies if any
     res.clearCookie('token');
     res.clearCookie('refreshToken');
@@ -132,6 +219,27 @@ export const forgotPasswordController = async (req: Request, res: Response, next
   }
 };
 
+export const resetPasswordController = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, errors.array());
+    }
+
+    const { token, newPassword } = req.body;
+
+    const { resetPassword } = await import('../services/auth-email.service.js');
+    await resetPassword(token, newPassword);
+
+    res.status(200).json({
+      success: true,
+      message: 'Password has been reset successfully. You can now log in with your new password.',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 export const sendVerificationCodeController = async (
   req: AuthRequest,
   res: Response,
@@ -193,3 +301,282 @@ export const verifyEmailController = async (
     next(error);
   }
 };
+
+export const requestEmailChangeController = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Unauthorized',
+      });
+    }
+
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, errors.array());
+    }
+
+    const { requestEmailChange } = await import('../services/auth-email.service.js');
+    const code = await requestEmailChange(req.user.userId, req.body.newEmail, req.body.password);
+
+    res.status(200).json({
+      success: true,
+      message: 'Confirmation code sent to your new email address',
+      ...(process.env.NODE_ENV === 'development' && { code }),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const confirmEmailChangeController = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Unauthorized',
+      });
+    }
+
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, errors.array());
+    }
+
+    const { confirmEmailChange } = await import('../services/auth-email.service.js');
+    const result = await confirmEmailChange(req.user.userId, req.body.code, req.user.sessionId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Email address changed. Other devices have been signed out.',
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getTwoFactorStatusController = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Unauthorized',
+      });
+    }
+
+    const { getTwoFactorStatus } = await import('../services/two-factor.service.js');
+    const status = await getTwoFactorStatus(req.user.userId);
+
+    res.status(200).json({
+      success: true,
+      data: status,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const setupTwoFactorController = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Unauthorized',
+      });
+    }
+
+    const { beginTwoFactorSetup } = await import('../services/two-factor.service.js');
+    const result = await beginTwoFactorSetup(req.user.userId);
+
+    res.status(200).json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const enableTwoFactorController = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Unauthorized',
+      });
+    }
+
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, errors.array());
+    }
+
+    const { enableTwoFactor } = await import('../services/two-factor.service.js');
+    const recoveryCodes = await enableTwoFactor(req.user.userId, req.body.code);
+
+    res.status(200).json({
+      success: true,
+      message: 'Two-factor authentication enabled',
+      data: { recoveryCodes },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const disableTwoFactorController = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Unauthorized',
+      });
+    }
+
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, errors.array());
+    }
+
+    const { disableTwoFactor } = await import('../services/two-factor.service.js');
+    await disableTwoFactor(req.user.userId, req.body.password, req.body.code);
+
+    res.status(200).json({
+      success: true,
+      message: 'Two-factor authentication disabled',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const regenerateRecoveryCodesController = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Unauthorized',
+      });
+    }
+
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, errors.array());
+    }
+
+    const { regenerateRecoveryCodes } = await import('../services/two-factor.service.js');
+    const recoveryCodes = await regenerateRecoveryCodes(req.user.userId, req.body.code);
+
+    res.status(200).json({
+      success: true,
+      data: { recoveryCodes },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getSessionsController = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Unauthorized',
+      });
+    }
+
+    const { getActiveSessions } = await import('../services/session.service.js');
+    const sessions = await getActiveSessions(req.user.userId, req.user.sessionId);
+
+    res.status(200).json({
+      success: true,
+      data: sessions,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const revokeSessionController = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Unauthorized',
+      });
+    }
+
+    const { revokeSession } = await import('../services/session.service.js');
+    await revokeSession(req.user.userId, req.params.id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Device signed out',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const revokeAllSessionsController = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Unauthorized',
+      });
+    }
+
+    const { revokeAllSessions } = await import('../services/session.service.js');
+    const count = await revokeAllSessions(req.user.userId, 'signed_out_everywhere');
+
+    res.status(200).json({
+      success: true,
+      message: 'Signed out of all devices',
+      data: { count },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -18,8 +18,14 @@ import {
   getGameAutocomplete,
 } from '../services/game.service.js';
 import { GameFilters } from '../types/game.js';
+import { CurrencyRequest } from '../middleware/currency.js';
+import { getDisplayCurrencyOptions } from '../services/display-currency.service.js';
 
-export const getGamesController = async (req: Request, res: Response, next: NextFunction) => {
+export const getGamesController = async (
+  req: CurrencyRequest,
+  res: Response,
+  next: NextFunction
+) => {
   try {
     const filters: GameFilters = {
       search: req.query.search as string,
@@ -60,7 +66,7 @@ export const getGamesController = async (req: Request, res: Response, next: Next
       pageSize: req.query.pageSize ? Number(req.query.pageSize) : undefined,
     };
 
-    const result = await getGames(filters);
+    const result = await getGames(filters, req.pricing);
 
     res.status(200).json({
       success: true,
@@ -71,10 +77,14 @@ export const getGamesController = async (req: Request, res: Response, next: Next
   }
 };
 
-export const getGameByIdController = async (req: Request, res: Response, next: NextFunction) => {
+export const getGameByIdController = async (
+  req: CurrencyRequest,
+  res: Response,
+  next: NextFunction
+) => {
   try {
     const { id } = req.params;
-    const game = await getGameById(id);
+    const game = await getGameById(id, req.pricing);
 
     if (!game) {
       return res.status(404).json({
@@ -92,10 +102,14 @@ export const getGameByIdController = async (req: Request, res: Response, next: N
   }
 };
 
-export const getGameBySlugController = async (req: Request, res: Response, next: NextFunction) => {
+export const getGameBySlugController = async (
+  req: CurrencyRequest,
+  res: Response,
+  next: NextFunction
+) => {
   try {
     const { slug } = req.params;
-    const game = await getGameBySlug(slug);
+    const game = await getGameBySlug(slug, req.pricing);
 
     if (!game) {
       return res.status(404).json({
@@ -113,10 +127,14 @@ export const getGameBySlugController = async (req: Request, res: Response, next:
   }
 };
 
-export const getBestSellersController = async (req: Request, res: Response, next: NextFunction) => {
+export const getBestSellersController = async (
+  req: CurrencyRequest,
+  res: Response,
+  next: NextFunction
+) => {
   try {
     const genre = req.query.genre as string | undefined;
-    const games = await getBestSellers(genre);
+    const games = await getBestSellers(genre, req.pricing);
 
     res.status(200).json({
       success: true,
@@ -128,12 +146,12 @@ export const getBestSellersController = async (req: Request, res: Response, next
 };
 
 export const getNewInCatalogController = async (
-  req: Request,
+  req: CurrencyRequest,
   res: Response,
   next: NextFunction
 ) => {
   try {
-    const games = await getNewInCatalog();
+    const games = await getNewInCatalog(req.pricing);
 
     res.status(200).json({
       success: true,
@@ -144,9 +162,13 @@ export const getNewInCatalogController = async (
   }
 };
 
-export const getPreordersController = async (req: Request, res: Response, next: NextFunction) => {
+export const getPreordersController = async (
+  req: CurrencyRequest,
+  res: Response,
+  next: NextFunction
+) => {
   try {
-    const games = await getPreorders();
+    const games = await getPreorders(req.pricing);
 
     res.status(200).json({
       success: true,
@@ -157,9 +179,13 @@ export const getPreordersController = async (req: Request, res: Response, next:
   }
 };
 
-export const getNewGamesController = async (req: Request, res: Response, next: NextFunction) => {
+export const getNewGamesController = async (
+  req: CurrencyRequest,
+  res: Response,
+  next: NextFunction
+) => {
   try {
-    const games = await getNewGames();
+    const games = await getNewGames(req.pricing);
 
     res.status(200).json({
       success: true,
@@ -171,13 +197,13 @@ export const getNewGamesController = async (req: Request, res: Response, next: N
 };
 
 export const getGamesByGenreController = async (
-  req: Request,
+  req: CurrencyRequest,
   res: Response,
   next: NextFunction
 ) => {
   try {
     const { genre } = req.params;
-    const games = await getGamesByGenre(genre);
+    const games = await getGamesByGenre(genre, req.pricing);
 
     res.status(200).json({
       success: true,
@@ -188,10 +214,14 @@ export const getGamesByGenreController = async (
   }
 };
 
-export const getRandomGamesController = async (req: Request, res: Response, next: NextFunction) => {
+export const getRandomGamesController = async (
+  req: CurrencyRequest,
+  res: Response,
+  next: NextFunction
+) => {
   try {
     const count = req.query.count ? Number(req.query.count) : 10;
-    const games = await getRandomGames(count);
+    const games = await getRandomGames(count, req.pricing);
 
     res.status(200).json({
       success: true,
@@ -203,14 +233,14 @@ export const getRandomGamesController = async (req: Request, res: Response, next
 };
 
 export const getSimilarGamesController = async (
-  req: Request,
+  req: CurrencyRequest,
   res: Response,
   next: NextFunction
 ) => {
   try {
     const { id } = req.params;
     const count = req.query.count ? Number(req.query.count) : 10;
-    const games = await getSimilarGames(id, count);
+    const games = await getSimilarGames(id, count, req.pricing);
 
     res.status(200).json({
       success: true,
@@ -221,7 +251,11 @@ export const getSimilarGamesController = async (
   }
 };
 
-export const searchGamesController = async (req: Request, res: Response, next: NextFunction) => {
+export const searchGamesController = async (
+  req: CurrencyRequest,
+  res: Response,
+  next: NextFunction
+) => {
   try {
     const { q } = req.query;
 
@@ -232,7 +266,7 @@ export const searchGamesController = async (req: Request, res: Response, next: N
       });
     }
 
-    const games = await searchGames(q);
+    const games = await searchGames(q, req.pricing);
 
     res.status(200).json({
       success: true,
@@ -290,9 +324,13 @@ export const getFilterOptionsController = async (
   }
 };
 
-export const getCollectionsController = async (req: Request, res: Response, next: NextFunction) => {
+export const getCollectionsController = async (
+  req: CurrencyRequest,
+  res: Response,
+  next: NextFunction
+) => {
   try {
-    const collections = await getCollections();
+    const collections = await getCollections(req.pricing);
 
     res.status(200).json({
       success: true,
@@ -338,3 +376,20 @@ export const getGameAutocompleteController = async (
     next(error);
   }
 };
+
+export const getDisplayCurrenciesController = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const options = getDisplayCurrencyOptions(req.header('Accept-Language'));
+
+    res.status(200).json({
+      success: true,
+      data: options,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,36 @@
+import { Response, NextFunction } from 'express';
+import { AuthRequest } from '../middleware/auth.js';
+import { getGiftByToken, redeemGift } from '../services/gift.service.js';
+
+export const getGiftController = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const gift = await getGiftByToken(req.params.token, req.user?.userId);
+
+    res.status(200).json({
+      success: true,
+      data: gift,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const redeemGiftController = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: { message: 'Unauthorized' },
+      });
+    }
+
+    const gift = await redeemGift(req.params.token, req.user.userId);
+
+    res.status(200).json({
+      success: true,
+      data: gift,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -1,7 +1,9 @@
 import { Response, NextFunction } from 'express';
 import { AuthRequest } from '../middleware/auth.js';
 import { createOrder, getUserOrders, getOrderById } from '../services/order.service.js';
-import { CreateOrderRequest } from '../types/order.js';
+import { createClaim, getUserClaims } from '../services/claim.service.js';
+import { getOrderInvoice } from '../services/invoice.service.js';
+import { CreateClaimRequest, CreateOrderRequest } from '../types/order.js';
 
 export const createOrderController = async (
   req: AuthRequest,
@@ -83,3 +85,75 @@ export const getOrderByIdController = async (
     next(error);
   }
 };
+
+export const getUserClaimsController = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: { message: 'Unauthorized' },
+      });
+    }
+
+    const claims = await getUserClaims(req.user.userId);
+
+    res.status(200).json({
+      success: true,
+      data: claims,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const createClaimController = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: { message: 'Unauthorized' },
+      });
+    }
+
+    const data: CreateClaimRequest = req.body;
+    const claim = await createClaim(req.user.userId, req.params.id, data);
+
+    res.status(201).json({
+      success: true,
+      data: claim,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getOrderInvoiceController = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: { message: 'Unauthorized' },
+      });
+    }
+
+    const { filename, pdf } = await getOrderInvoice(req.params.id, req.user.userId);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename=${filename}`);
+    res.send(pdf);
+  } catch (error) {
+    next(error);
+  }
+};
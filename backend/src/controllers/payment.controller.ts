@@ -2,6 +2,7 @@ import { Response, NextFunction } from 'express';
 import { AuthRequest } from '../middleware/auth.js';
 import {
   createBalanceTopUpIntent,
+  getPendingTopUps,
   processPaymentWebhook,
   processTerminalWebhook,
 } from '../services/payment.service.js';
@@ -32,6 +33,30 @@ export const createBalanceTopUpController = async (
   }
 };
 
+export const getPendingTopUpsController = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: { message: 'Unauthorized' },
+      });
+    }
+
+    const intents = await getPendingTopUps(req.user.userId);
+
+    res.status(200).json({
+      success: true,
+      data: intents,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 export const paymentWebhookController = async (req: Request, res: Response, next: NextFunction) => {
   try {
     const data = req.body as unknown as PaymentWebhook;
@@ -1,4 +1,4 @@
-import { Response, NextFunction } from 'express';
+import { Request, Response, NextFunction } from 'express';
 import { AuthRequest } from '../middleware/auth.js';
 import {
   getUserProfile,
@@ -11,6 +11,7 @@ import {
   addToWishlist,
   removeFromWishlist,
 } from '../services/user.service.js';
+import { getTopUpInvoice } from '../services/invoice.service.js';
 import { UpdateProfileRequest, ChangePasswordRequest } from '../types/user.js';
 
 export const getProfileController = async (req: AuthRequest, res: Response, next: NextFunction) => {
@@ -205,7 +206,7 @@ export const changePasswordController = async (
       });
     }
 
-    await changeUserPassword(req.user.userId, data);
+    await changeUserPassword(req.user.userId, data, req.user.sessionId);
 
     res.status(200).json({
       success: true,
@@ -245,3 +246,200 @@ export const getUserStatsController = async (
     next(error);
   }
 };
+
+export const createDataExportController = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: { message: 'Unauthorized' },
+      });
+    }
+
+    const { createDataExport } = await import('../services/gdpr.service.js');
+    const result = await createDataExport(req.user.userId);
+
+    res.status(201).json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Serve a personal data archive. The token in the link is the only credential.
+ */
+export const getTopUpInvoiceController = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: { message: 'Unauthorized' },
+      });
+    }
+
+    const { filename, pdf } = await getTopUpInvoice(req.params.id, req.user.userId);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename=${filename}`);
+    res.send(pdf);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const downloadDataExportController = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { getDataExport } = await import('../services/gdpr.service.js');
+    const { fileName, data } = await getDataExport(req.params.token);
+
+    res.setHeader('Content-Disposition', `attachment; filename=${fileName}`);
+    res.setHeader('Cache-Control', 'no-store');
+    res.status(200).json(data);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const requestAccountDeletionController = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: { message: 'Unauthorized' },
+      });
+    }
+
+    const { requestAccountDeletion } = await import('../services/gdpr.service.js');
+    const result = await requestAccountDeletion(req.user.userId, req.body?.password);
+
+    res.status(200).json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const cancelAccountDeletionController = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: { message: 'Unauthorized' },
+      });
+    }
+
+    const { cancelAccountDeletion } = await import('../services/gdpr.service.js');
+    await cancelAccountDeletion(req.user.userId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Account deletion cancelled',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getKeyLibraryController = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: { message: 'Unauthorized' },
+      });
+    }
+
+    const { getKeyLibrary } = await import('../services/key-library.service.js');
+    const library = await getKeyLibrary(req.user.userId);
+
+    res.status(200).json({
+      success: true,
+      data: library,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const revealLibraryKeyController = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: { message: 'Unauthorized' },
+      });
+    }
+
+    const { revealLibraryKey } = await import('../services/key-library.service.js');
+    const result = await revealLibraryKey(req.user.userId, req.params.id, {
+      ipAddress: req.ip || req.socket.remoteAddress || undefined,
+      userAgent: req.get('user-agent') || undefined,
+    });
+
+    res.setHeader('Cache-Control', 'no-store');
+    res.status(200).json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const activateLibraryKeyController = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: { message: 'Unauthorized' },
+      });
+    }
+
+    const { markLibraryKeyActivated } = await import('../services/key-library.service.js');
+    const result = await markLibraryKeyActivated(req.user.userId, req.params.id);
+
+    res.status(200).json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
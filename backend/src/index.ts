@@ -8,6 +8,13 @@ import { errorHandler } from './middleware/errorHandler.js';
 import { notFoundHandler } from './middleware/notFoundHandler.js';
 import { sessionMiddleware } from './middleware/session.middleware.js';
 import { startG2ASyncJob, startStockCheckJob } from './jobs/g2a-sync.job.js';
+import { startAccountDeletionJob } from './jobs/account-deletion.job.js';
+import { startGiftDeliveryJob } from './jobs/gift-delivery.job.js';
+import { startPreorderReleaseJob } from './jobs/preorder-release.job.js';
+import { startIdempotencyCleanupJob } from './jobs/idempotency-cleanup.job.js';
+import { startOrderReconciliationJob } from './jobs/order-reconciliation.job.js';
+import { startPaymentIntentExpiryJob } from './jobs/payment-intent-expiry.job.js';
+import { startExchangeRateJob } from './jobs/exchange-rate.job.js';
 import prisma, { initializeDatabase } from './config/database.js';
 import { clearAllCache } from './services/cache.service.js';
 import authRoutes from './routes/auth.routes.js';
@@ -20,6 +27,7 @@ import adminRoutes from './routes/admin.routes.js';
 import cartRoutes from './routes/cart.routes.js';
 import wishlistRoutes from './routes/wishlist.routes.js';
 import faqRoutes from './routes/faq.routes.js';
+import giftRoutes from './routes/gift.routes.js';
 import g2aWebhookRoutes from './routes/g2a-webhook.routes.js';
 import g2aSettingsRoutes from './routes/admin.routes.js';
 
@@ -174,13 +182,17 @@ app.use(
     },
     credentials: true,
     methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
-    exposedHeaders: ['Content-Range', 'X-Content-Range'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'Idempotency-Key', 'X-Currency'],
+    exposedHeaders: ['Content-Range', 'X-Content-Range', 'Idempotent-Replayed'],
   })
 );
 
 app.use(morgan('dev'));
 app.use(cookieParser());
+// Key import files hold thousands of keys, more than the default body limit
+app.use('/api/admin/game-keys/import', express.json({ limit: '5mb' }));
+// Claims can carry a screenshot as a data URL
+app.use(/^\/api\/orders\/[^/]+\/claims$/, express.json({ limit: '4mb' }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
@@ -268,6 +280,7 @@ app.use('/api/admin', adminRoutes);
 app.use('/api/cart', cartRoutes);
 app.use('/api/wishlist', wishlistRoutes);
 app.use('/api/faq', faqRoutes);
+app.use('/api/gifts', giftRoutes);
 app.use('/api/g2a', g2aWebhookRoutes);
 app.use('/api/g2a/settings', g2aSettingsRoutes);
 
@@ -306,6 +319,13 @@ if (!isVercel && !isServerless && !isTest) {
       if (process.env.NODE_ENV !== 'test' && dbConnected) {
         startG2ASyncJob();
         startStockCheckJob();
+        startAccountDeletionJob();
+        startGiftDeliveryJob();
+        startPreorderReleaseJob();
+        startIdempotencyCleanupJob();
+        startOrderReconciliationJob();
+        startPaymentIntentExpiryJob();
+        startExchangeRateJob();
         console.log('⏰ Scheduled jobs started');
 
         // Initialize order processing queue (if Redis is available)
@@ -0,0 +1,17 @@
+import cron from 'node-cron';
+import { processScheduledDeletions } from '../services/gdpr.service.js';
+
+/**
+ * Anonymise accounts whose deletion grace period has ended, once a day at 3 AM
+ */
+export const startAccountDeletionJob = () => {
+  cron.schedule('0 3 * * *', async () => {
+    console.log('🗑️ [GDPR Job] Processing scheduled account deletions...');
+    try {
+      const { anonymised, failed } = await processScheduledDeletions();
+      console.log(`✅ [GDPR Job] ${anonymised} account(s) anonymised, ${failed} failed`);
+    } catch (error) {
+      console.error('❌ [GDPR Job] Scheduled deletion run failed:', error);
+    }
+  });
+};
@@ -0,0 +1,20 @@
+import cron from 'node-cron';
+import { refreshExchangeRates } from '../services/exchange-rate.service.js';
+
+const refresh = async () => {
+  try {
+    const { provider, updated } = await refreshExchangeRates();
+    console.log(`✅ [Exchange Rate Job] ${updated.length} rate(s) updated from ${provider}`);
+  } catch (error) {
+    console.error('❌ [Exchange Rate Job] Refresh failed:', error);
+  }
+};
+
+/**
+ * Store the current rates of the configured provider on startup, so a fresh deploy can
+ * convert right away, and every hour after that
+ */
+export const startExchangeRateJob = () => {
+  void refresh();
+  cron.schedule('0 * * * *', refresh);
+};
@@ -0,0 +1,18 @@
+import cron from 'node-cron';
+import { processDueGifts } from '../services/gift.service.js';
+
+/**
+ * Email gifts whose delivery date has come, every five minutes
+ */
+export const startGiftDeliveryJob = () => {
+  cron.schedule('*/5 * * * *', async () => {
+    try {
+      const { sent, failed } = await processDueGifts();
+      if (sent > 0 || failed > 0) {
+        console.log(`🎁 [Gift Job] ${sent} gift(s) sent, ${failed} failed`);
+      }
+    } catch (error) {
+      console.error('❌ [Gift Job] Gift delivery run failed:', error);
+    }
+  });
+};
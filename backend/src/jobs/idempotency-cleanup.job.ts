@@ -0,0 +1,18 @@
+import cron from 'node-cron';
+import { purgeExpiredIdempotencyKeys } from '../services/idempotency.service.js';
+
+/**
+ * Delete expired Idempotency-Key records, once an hour
+ */
+export const startIdempotencyCleanupJob = () => {
+  cron.schedule('15 * * * *', async () => {
+    try {
+      const purged = await purgeExpiredIdempotencyKeys();
+      if (purged > 0) {
+        console.log(`✅ [Idempotency Job] ${purged} expired key(s) deleted`);
+      }
+    } catch (error) {
+      console.error('❌ [Idempotency Job] Cleanup failed:', error);
+    }
+  });
+};
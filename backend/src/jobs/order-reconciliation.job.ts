@@ -0,0 +1,20 @@
+import cron from 'node-cron';
+import { runOrderReconciliation } from '../services/order-reconciliation.service.js';
+
+/**
+ * Complete, retry or refund orders stuck in PROCESSING, every ten minutes
+ */
+export const startOrderReconciliationJob = () => {
+  cron.schedule('5-55/10 * * * *', async () => {
+    try {
+      const report = await runOrderReconciliation({ trigger: 'SCHEDULED' });
+      if (report.checked > 0) {
+        console.log(
+          `🔁 [Reconciliation Job] ${report.checked} stuck order(s): ${report.completed} completed, ${report.retried} retried, ${report.refunded} refunded, ${report.skipped} skipped, ${report.failed} failed`
+        );
+      }
+    } catch (error) {
+      console.error('❌ [Reconciliation Job] Reconciliation run failed:', error);
+    }
+  });
+};
@@ -0,0 +1,18 @@
+import cron from 'node-cron';
+import { expirePaymentIntents } from '../services/payment.service.js';
+
+/**
+ * Expire balance top-ups that were not paid in time, every 10 minutes
+ */
+export const startPaymentIntentExpiryJob = () => {
+  cron.schedule('*/10 * * * *', async () => {
+    try {
+      const expired = await expirePaymentIntents();
+      if (expired > 0) {
+        console.log(`✅ [Payment Intent Job] ${expired} unpaid top-up(s) expired`);
+      }
+    } catch (error) {
+      console.error('❌ [Payment Intent Job] Expiry failed:', error);
+    }
+  });
+};
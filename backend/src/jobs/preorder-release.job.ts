@@ -0,0 +1,18 @@
+import cron from 'node-cron';
+import { processReleasedPreorders } from '../services/preorder.service.js';
+
+/**
+ * Deliver preorders whose games were released or whose keys arrived early, every ten minutes
+ */
+export const startPreorderReleaseJob = () => {
+  cron.schedule('*/10 * * * *', async () => {
+    try {
+      const { released, failed } = await processReleasedPreorders();
+      if (released > 0 || failed > 0) {
+        console.log(`📦 [Preorder Job] ${released} preorder(s) released, ${failed} failed`);
+      }
+    } catch (error) {
+      console.error('❌ [Preorder Job] Preorder release run failed:', error);
+    }
+  });
+};
@@ -1,11 +1,15 @@
 import { Request, Response, NextFunction } from 'express';
 import { verifyAccessToken, TokenPayload } from '../utils/jwt.js';
+import { isSessionRevoked } from '../services/session.service.js';
+import { getUserPermissions } from '../services/admin-role.service.js';
+import { Permission } from '../config/permissions.js';
 
 export interface AuthRequest extends Request {
   user?: TokenPayload;
+  permissions?: Permission[];
 }
 
-export const authenticate = (req: AuthRequest, res: Response, next: NextFunction) => {
+export const authenticate = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const authHeader = req.headers.authorization;
 
@@ -18,6 +22,11 @@ export const authenticate = (req: AuthRequest, res: Response, next: NextFunction
     const token = authHeader.substring(7);
     const decoded = verifyAccessToken(token);
 
+    if (decoded.sessionId && (await isSessionRevoked(decoded.sessionId))) {
+      // Signed-out device - treat as guest
+      return next();
+    }
+
     req.user = decoded;
     next();
   } catch {
@@ -31,7 +40,7 @@ export const authenticate = (req: AuthRequest, res: Response, next: NextFunction
  * Require authentication (non-optional)
  * Returns 401 if no valid token is provided
  */
-export const requireAuth = (req: AuthRequest, res: Response, next: NextFunction) => {
+export const requireAuth = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const authHeader = req.headers.authorization;
 
@@ -77,6 +86,14 @@ export const requireAuth = (req: AuthRequest, res: Response, next: NextFunction)
       });
     }
 
+    // Tokens from a device that was signed out stop working before they expire
+    if (decoded.sessionId && (await isSessionRevoked(decoded.sessionId))) {
+      return res.status(401).json({
+        success: false,
+        error: { message: 'Session has ended. Please login again.' },
+      });
+    }
+
     req.user = decoded;
     next();
   } catch (error) {
@@ -89,12 +106,54 @@ export const requireAuth = (req: AuthRequest, res: Response, next: NextFunction)
   }
 };
 
-export const requireAdmin = (req: AuthRequest, res: Response, next: NextFunction) => {
-  if (!req.user || req.user.role !== 'ADMIN') {
+/**
+ * Require a staff account (any role with at least one admin permission).
+ * Permissions are loaded from the database so role changes apply immediately.
+ */
+export const requireAdmin = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  if (!req.user) {
     return res.status(403).json({
       success: false,
       error: { message: 'Admin access required' },
     });
   }
+
+  let permissions: Permission[];
+  try {
+    permissions = await getUserPermissions(req.user.userId);
+  } catch (error) {
+    console.error('Failed to load admin permissions:', error);
+    return res.status(503).json({
+      success: false,
+      error: { message: 'Unable to verify permissions. Please try again.' },
+    });
+  }
+
+  if (permissions.length === 0) {
+    return res.status(403).json({
+      success: false,
+      error: { message: 'Admin access required' },
+    });
+  }
+
+  req.permissions = permissions;
   next();
 };
+
+export const hasPermission = (req: AuthRequest, permission: Permission): boolean =>
+  req.permissions?.includes(permission) ?? false;
+
+/**
+ * Require at least one of the given permissions. Must run after requireAdmin.
+ */
+export const requirePermission =
+  (...required: Permission[]) =>
+  (req: AuthRequest, res: Response, next: NextFunction) => {
+    if (!required.some((permission) => hasPermission(req, permission))) {
+      return res.status(403).json({
+        success: false,
+        error: { message: 'You do not have permission to perform this action' },
+      });
+    }
+    next();
+  };
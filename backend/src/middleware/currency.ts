@@ -0,0 +1,26 @@
+import { Request, Response, NextFunction } from 'express';
+import { DisplayPricing } from '../types/exchange-rate.js';
+import { getDisplayPricing, resolveDisplayCurrency } from '../services/display-currency.service.js';
+
+export interface CurrencyRequest extends Request {
+  pricing?: DisplayPricing;
+}
+
+/**
+ * Resolve the currency prices are shown in: the `X-Currency` header (or `?currency=`) when it is
+ * offered, otherwise the one matching the browser language
+ */
+export const displayCurrency = async (req: CurrencyRequest, res: Response, next: NextFunction) => {
+  try {
+    const requested = req.header('X-Currency') || (req.query.currency as string | undefined);
+    const currency = resolveDisplayCurrency(requested, req.header('Accept-Language'));
+    req.pricing = await getDisplayPricing(currency);
+
+    // Shared caches must keep one copy per currency
+    res.vary('X-Currency');
+    res.vary('Accept-Language');
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
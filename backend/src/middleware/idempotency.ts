@@ -0,0 +1,44 @@
+import { Response, NextFunction } from 'express';
+import { AuthRequest } from './auth.js';
+import {
+  beginIdempotentRequest,
+  completeIdempotentRequest,
+} from '../services/idempotency.service.js';
+
+/**
+ * Make a POST endpoint safe to retry. When the client sends an `Idempotency-Key` header, the
+ * first successful response is stored and replayed for retries with the same key and payload.
+ * Runs after `authenticate`; keys are scoped to the user and to `scope`.
+ */
+export const idempotent =
+  (scope: string) => async (req: AuthRequest, res: Response, next: NextFunction) => {
+    const key = req.header('Idempotency-Key');
+    if (key === undefined || !req.user) {
+      return next();
+    }
+
+    try {
+      const request = await beginIdempotentRequest(req.user.userId, scope, key, req.body);
+
+      if (request.replay) {
+        res.setHeader('Idempotent-Replayed', 'true');
+        return res.status(request.replay.statusCode).json(request.replay.response);
+      }
+
+      // Store the response before sending it, so an immediate retry finds it
+      const { recordId } = request;
+      const send = res.json.bind(res);
+      res.json = (body: unknown) => {
+        completeIdempotentRequest(recordId, res.statusCode, body)
+          .catch((error) => {
+            console.error(`[Idempotency] Failed to store response for key ${key}:`, error);
+          })
+          .finally(() => send(body));
+        return res;
+      };
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
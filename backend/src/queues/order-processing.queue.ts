@@ -1,10 +1,14 @@
 import { Queue, Worker, Job } from 'bullmq';
 import prisma from '../config/database.js';
 import { G2AIntegrationClient } from '../lib/g2a/G2AIntegrationClient.js';
-import { G2AError, G2AErrorCode } from '../lib/g2a/errors/G2AError.js';
-import { sendGameKeyEmail } from '../services/email.service.js';
-import { getG2AConfig } from '../config/g2a.js';
-import { getDefaultConfig } from '../lib/g2a/config/defaults.js';
+import {
+  ItemFulfillmentResult,
+  fulfillOrderItem,
+  getSupplierClient,
+  recordSupplierOrderIds,
+  settleOrderStatus,
+} from '../services/order-fulfillment.service.js';
+import { recordFulfillmentFailure } from '../services/dead-letter.service.js';
 
 /**
  * Queue for processing G2A orders asynchronously
@@ -28,6 +32,77 @@ interface OrderProcessingJobData {
   total: number;
 }
 
+/**
+ * Deliver the items of a queued order and settle its status
+ */
+export const processOrderJob = async (job: Job<OrderProcessingJobData>) => {
+  const { orderId, userId } = job.data;
+
+  console.log(`[Order Queue] Processing order ${orderId} for user ${userId}`);
+
+  // Get G2A client
+  let g2aClient: G2AIntegrationClient | null = null;
+  try {
+    g2aClient = await getSupplierClient();
+  } catch (error) {
+    console.error(`[Order Queue] Failed to get G2A client for order ${orderId}:`, error);
+    throw error;
+  }
+
+  // Process each item. Retried jobs only buy the units that are still outstanding.
+  const orderItems = await prisma.orderItem.findMany({
+    where: { orderId },
+    select: { id: true },
+  });
+  const results: ItemFulfillmentResult[] = [];
+  for (const item of orderItems) {
+    results.push(await fulfillOrderItem(item.id, g2aClient, { refundOnCriticalError: true }));
+  }
+
+  // Store G2A order IDs in externalOrderId (comma-separated if multiple)
+  await recordSupplierOrderIds(orderId);
+
+  const finalStatus = await settleOrderStatus(orderId, { actorType: 'SYSTEM' });
+  const keysCount = results.reduce((sum, result) => sum + result.delivered, 0);
+  const errorsCount = results.filter((result) => result.error).length;
+
+  // Failed deliveries are settled rather than thrown, so the job never fails on them and the
+  // 'failed' handler never sees them. Staff pick them up from the dead-letter store instead.
+  const undelivered = results.filter((result) => result.status === 'FAILED');
+  if (undelivered.length > 0) {
+    try {
+      await recordFulfillmentFailure({
+        orderId,
+        source: 'QUEUE',
+        jobId: job.id,
+        payload: job.data,
+        attempts: [
+          {
+            error: undelivered.map((result) => result.error ?? 'Unknown error').join('; '),
+            failedAt: new Date(),
+          },
+        ],
+      });
+    } catch (deadLetterError) {
+      console.error(
+        `[Order Queue] Failed to store the dead letter of order ${orderId}:`,
+        deadLetterError
+      );
+    }
+  }
+
+  console.log(
+    `[Order Queue] Order ${orderId} processed: ${finalStatus}, keys: ${keysCount}, errors: ${errorsCount}`
+  );
+
+  return {
+    orderId,
+    status: finalStatus,
+    keysCount,
+    errorsCount,
+  };
+};
+
 // Parse Redis URL for BullMQ connection
 function getRedisConnection() {
   const redisUrl =
@@ -76,224 +151,43 @@ try {
   });
 
   // Create worker
-  orderProcessingWorker = new Worker<OrderProcessingJobData>(
-    'order-processing',
-    async (job: Job<OrderProcessingJobData>) => {
-      const { orderId, userId, userEmail, items, total } = job.data;
-
-      console.log(`[Order Queue] Processing order ${orderId} for user ${userId}`);
-
-      // Get G2A client
-      let g2aClient: G2AIntegrationClient | null = null;
-      try {
-        const g2aConfig = await getG2AConfig();
-        if (g2aConfig.apiKey && g2aConfig.apiHash) {
-          const defaultConfig = getDefaultConfig(g2aConfig.env || 'sandbox');
-          g2aClient = await G2AIntegrationClient.getInstance({
-            env: g2aConfig.env || 'sandbox',
-            apiKey: g2aConfig.apiKey,
-            apiHash: g2aConfig.apiHash,
-            email: g2aConfig.email || 'Welcome@nalytoo.com',
-            baseUrl: g2aConfig.baseUrl || defaultConfig.baseUrl,
-            timeoutMs: g2aConfig.timeoutMs || defaultConfig.timeoutMs,
-          });
-        }
-      } catch (error) {
-        console.error(`[Order Queue] Failed to get G2A client for order ${orderId}:`, error);
-        throw error;
-      }
-
-      const gameKeys: Array<{
-        id: string;
-        gameId: string;
-        key: string;
-        orderId: string | null;
-        activated: boolean;
-        activationDate: Date | null;
-        createdAt: Date;
-      }> = [];
-      const purchaseErrors: Array<{ gameId: string; error: string; g2aOrderId?: string }> = [];
-      const g2aOrderIds: string[] = [];
-
-      // Process each item
-      for (const item of items) {
-        if (item.g2aProductId && g2aClient) {
-          // Process each quantity as a separate G2A order
-          for (let qty = 0; qty < item.quantity; qty++) {
-            try {
-              // Step 1: Create G2A order
-              const g2aOrder = await g2aClient.orders.create({
-                product_id: item.g2aProductId,
-                currency: 'EUR',
-                max_price: item.price,
-              });
-
-              const g2aOrderId = g2aOrder.order_id;
-              g2aOrderIds.push(g2aOrderId);
-
-              // Step 2: Pay for the G2A order
-              let paymentResult;
-              try {
-                paymentResult = await g2aClient.orders.pay(g2aOrderId);
-              } catch (payError) {
-                if (
-                  payError instanceof G2AError &&
-                  payError.code === G2AErrorCode.G2A_INVALID_REQUEST
-                ) {
-                  const errorCode = payError.metadata?.errorCode;
-                  if (errorCode === 'ORD03' && payError.metadata?.retryable) {
-                    // Retry after delay
-                    await new Promise((resolve) => setTimeout(resolve, 2000));
-                    await g2aClient.orders.pay(g2aOrderId);
-                  } else {
-                    throw payError;
-                  }
-                } else {
-                  throw payError;
-                }
-              }
-
-              // Step 3: Get order key
-              await new Promise((resolve) => setTimeout(resolve, 1000));
-              const keyResponse = await g2aClient.orders.getKey(g2aOrderId);
-              const gameKeyValue = keyResponse.key;
-
-              // Create game key record
-              const gameKey = await prisma.gameKey.create({
-                data: {
-                  gameId: item.gameId,
-                  orderId,
-                  key: gameKeyValue,
-                  activated: false,
-                },
-              });
-
-              gameKeys.push(gameKey);
-
-              // Send email with key
-              try {
-                await sendGameKeyEmail(userEmail, {
-                  gameTitle: item.gameTitle,
-                  key: gameKeyValue,
-                  platform: item.platforms[0]?.platform?.name || 'PC',
-                });
-              } catch (emailError) {
-                console.error(
-                  `[Order Queue] Failed to send email for key ${gameKey.id}:`,
-                  emailError
-                );
-              }
-            } catch (error) {
-              const errorMessage = error instanceof Error ? error.message : String(error);
-              purchaseErrors.push({
-                gameId: item.gameId,
-                error: errorMessage,
-              });
-
-              // If critical error, mark order as failed and refund
-              if (
-                error instanceof G2AError &&
-                (error.code === G2AErrorCode.G2A_OUT_OF_STOCK ||
-                  error.code === G2AErrorCode.G2A_AUTH_FAILED ||
-                  error.code === G2AErrorCode.G2A_API_ERROR)
-              ) {
-                await prisma.$transaction(async (tx) => {
-                  await tx.order.update({
-                    where: { id: orderId },
-                    data: {
-                      status: 'FAILED',
-                      paymentStatus: 'FAILED',
-                    },
-                  });
-
-                  await tx.user.update({
-                    where: { id: userId },
-                    data: {
-                      balance: {
-                        increment: total,
-                      },
-                    },
-                  });
-
-                  await tx.transaction.create({
-                    data: {
-                      userId,
-                      orderId,
-                      type: 'REFUND',
-                      amount: total,
-                      currency: 'EUR',
-                      status: 'COMPLETED',
-                      description: `Refund for failed order ${orderId}`,
-                    },
-                  });
-                });
-
-                throw new Error(`Order failed: ${errorMessage}. Balance has been refunded.`);
-              }
-            }
-          }
-        }
-      }
-
-      // Store G2A order IDs
-      if (g2aOrderIds.length > 0) {
-        await prisma.order.update({
-          where: { id: orderId },
-          data: {
-            externalOrderId: g2aOrderIds.join(','),
-          },
-        });
-      }
-
-      // Update order status
-      const hasG2AGames = items.some((item) => item.g2aProductId);
-      let finalStatus: 'COMPLETED' | 'FAILED' | 'PENDING' = 'PENDING';
-
-      if (hasG2AGames) {
-        finalStatus = 'COMPLETED';
-        if (purchaseErrors.length > 0 && gameKeys.length === 0) {
-          finalStatus = 'FAILED';
-        }
-      }
-
-      await prisma.order.update({
-        where: { id: orderId },
-        data: {
-          status: finalStatus,
-          paymentStatus:
-            finalStatus === 'COMPLETED'
-              ? 'COMPLETED'
-              : finalStatus === 'FAILED'
-                ? 'FAILED'
-                : 'PENDING',
-          completedAt: finalStatus === 'COMPLETED' ? new Date() : null,
-        },
-      });
-
-      console.log(
-        `[Order Queue] Order ${orderId} processed: ${finalStatus}, keys: ${gameKeys.length}, errors: ${purchaseErrors.length}`
-      );
-
-      return {
-        orderId,
-        status: finalStatus,
-        keysCount: gameKeys.length,
-        errorsCount: purchaseErrors.length,
-      };
-    },
-    {
-      connection: redisConnection,
-      concurrency: 5, // Process up to 5 orders concurrently
-    }
-  );
+  orderProcessingWorker = new Worker<OrderProcessingJobData>('order-processing', processOrderJob, {
+    connection: redisConnection,
+    concurrency: 5, // Process up to 5 orders concurrently
+  });
 
   // Worker event handlers
   orderProcessingWorker.on('completed', (job) => {
     console.log(`[Order Queue] Job ${job.id} completed for order ${job.data.orderId}`);
   });
 
-  orderProcessingWorker.on('failed', (job, err) => {
+  orderProcessingWorker.on('failed', async (job, err) => {
     console.error(`[Order Queue] Job ${job?.id} failed for order ${job?.data.orderId}:`, err);
+
+    // Jobs out of retries go to the dead-letter store, where staff can retry or refund them
+    if (!job || job.attemptsMade < (job.opts.attempts ?? 1)) {
+      return;
+    }
+    try {
+      const traces = job.stacktrace.length > 0 ? job.stacktrace : [err.message];
+      await recordFulfillmentFailure({
+        orderId: job.data.orderId,
+        source: 'QUEUE',
+        jobId: job.id,
+        payload: job.data,
+        attempts: traces.map((trace, index) => ({
+          // The first line of a stack trace holds the error message
+          error: trace.split('\n')[0],
+          failedAt:
+            index === traces.length - 1 ? new Date(job.finishedOn ?? Date.now()) : undefined,
+        })),
+      });
+    } catch (deadLetterError) {
+      console.error(
+        `[Order Queue] Failed to store the dead letter of order ${job.data.orderId}:`,
+        deadLetterError
+      );
+    }
   });
 
   orderProcessingWorker.on('error', (err) => {
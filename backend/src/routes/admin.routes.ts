@@ -29,6 +29,31 @@ import {
   getOrderDetailsController,
   updateOrderController,
   cancelOrderController,
+  retryOrderItemController,
+  refundOrderItemController,
+  getClaimsController,
+  getClaimDetailsController,
+  replaceClaimKeyController,
+  refundClaimController,
+  rejectClaimController,
+  getPreordersController,
+  releasePreordersController,
+  getRiskReviewQueueController,
+  approveHeldOrderController,
+  rejectHeldOrderController,
+  getFraudSettingsController,
+  updateFraudSettingsController,
+  runOrderReconciliationController,
+  getDeadLettersController,
+  retryDeadLetterController,
+  refundDeadLetterController,
+  getExchangeRatesController,
+  getExchangeRateHistoryController,
+  setExchangeRateController,
+  refreshExchangeRatesController,
+  updateExchangeRateSettingsController,
+  getOrderInvoiceController,
+  getTopUpInvoiceController,
   updateOrderStatusController,
   getG2AMetricsController,
   getPaymentMethodsController,
@@ -55,6 +80,11 @@ import {
   clearAllCacheController,
   updateUserBalanceController,
   updateUserRoleController,
+  unlockUserController,
+  getRolesController,
+  createRoleController,
+  updateRoleController,
+  deleteRoleController,
   getUserActivityController,
   getAllCategoriesController,
   createCategoryController,
@@ -100,171 +130,221 @@ import {
   getAllGameKeysController,
   getGameKeyByIdController,
   createGameKeyController,
+  importGameKeysController,
   updateGameKeyController,
   deleteGameKeyController,
+  revealGameKeyController,
   getGameKeyStatisticsController,
   executeTestG2AExportAPIController,
   executeSyncAllG2AGamesController,
 } from '../controllers/admin.controller.js';
-import { authenticate, requireAdmin, requireAuth } from '../middleware/auth.js';
+import { authenticate, requireAdmin, requireAuth, requirePermission } from '../middleware/auth.js';
+import { PERMISSIONS } from '../config/permissions.js';
 import { sessionMiddleware } from '../middleware/session.middleware.js';
 const router = Router();
 
-// All admin routes require authentication and admin role
+// All admin routes require authentication and a staff role;
+// each route then declares the permission it needs
 router.use(authenticate);
 router.use(requireAdmin);
 router.use(sessionMiddleware);
 router.use(requireAuth);
 
 // Dashboard
-router.get('/dashboard', getDashboardController);
+router.get('/dashboard', requirePermission(PERMISSIONS.DASHBOARD_VIEW), getDashboardController);
 
 // Users
-router.get('/users', searchUsersController);
-router.get('/users/:id', getUserDetailsController);
-router.put('/users/:id', updateUserController);
-router.delete('/users/:id', deleteUserController);
-router.get('/users/:id/export', exportUserReportController);
-router.post('/users/:id/generate-fake-data', generateFakeDataController);
+router.get('/users', requirePermission(PERMISSIONS.USERS_READ), searchUsersController);
+router.get('/users/:id', requirePermission(PERMISSIONS.USERS_READ), getUserDetailsController);
+router.put('/users/:id', requirePermission(PERMISSIONS.USERS_WRITE, PERMISSIONS.USERS_BALANCE, PERMISSIONS.USERS_ROLES), updateUserController);
+router.delete('/users/:id', requirePermission(PERMISSIONS.USERS_WRITE), deleteUserController);
+router.get('/users/:id/export', requirePermission(PERMISSIONS.USERS_READ), exportUserReportController);
+router.post('/users/:id/generate-fake-data', requirePermission(PERMISSIONS.USERS_WRITE), generateFakeDataController);
 
 // Transactions
-router.get('/transactions', getTransactionsController);
+router.get('/transactions', requirePermission(PERMISSIONS.TRANSACTIONS_READ), getTransactionsController);
 
 // Games CRUD
-router.get('/games', getGamesController);
-router.get('/games/:id', getGameByIdController);
-router.post('/games', createGameController);
-router.put('/games/:id', updateGameController);
-router.delete('/games/:id', deleteGameController);
+router.get('/games', requirePermission(PERMISSIONS.CATALOG_READ), getGamesController);
+router.get('/games/:id', requirePermission(PERMISSIONS.CATALOG_READ), getGameByIdController);
+router.post('/games', requirePermission(PERMISSIONS.CATALOG_WRITE), createGameController);
+router.put('/games/:id', requirePermission(PERMISSIONS.CATALOG_WRITE), updateGameController);
+router.delete('/games/:id', requirePermission(PERMISSIONS.CATALOG_WRITE), deleteGameController);
 
 // Blog Posts CRUD
-router.get('/blog', getBlogPostsController);
-router.get('/blog/:id', getBlogPostByIdController);
-router.post('/blog', createBlogPostController);
-router.put('/blog/:id', updateBlogPostController);
-router.delete('/blog/:id', deleteBlogPostController);
+router.get('/blog', requirePermission(PERMISSIONS.CONTENT_WRITE), getBlogPostsController);
+router.get('/blog/:id', requirePermission(PERMISSIONS.CONTENT_WRITE), getBlogPostByIdController);
+router.post('/blog', requirePermission(PERMISSIONS.CONTENT_WRITE), createBlogPostController);
+router.put('/blog/:id', requirePermission(PERMISSIONS.CONTENT_WRITE), updateBlogPostController);
+router.delete('/blog/:id', requirePermission(PERMISSIONS.CONTENT_WRITE), deleteBlogPostController);
 
 // Orders
-router.get('/orders', getOrdersController);
-router.get('/orders/:id', getOrderDetailsController);
-router.put('/orders/:id', updateOrderController);
-router.post('/orders/:id/cancel', cancelOrderController);
-router.put('/orders/:id/status', updateOrderStatusController); // Keep for backward compatibility
+router.get('/orders', requirePermission(PERMISSIONS.ORDERS_READ), getOrdersController);
+router.get('/orders/:id', requirePermission(PERMISSIONS.ORDERS_READ), getOrderDetailsController);
+router.put('/orders/:id', requirePermission(PERMISSIONS.ORDERS_WRITE), updateOrderController);
+router.post('/orders/:id/cancel', requirePermission(PERMISSIONS.ORDERS_WRITE), cancelOrderController);
+router.post('/orders/:id/items/:itemId/retry', requirePermission(PERMISSIONS.ORDERS_WRITE), retryOrderItemController);
+router.post('/orders/:id/items/:itemId/refund', requirePermission(PERMISSIONS.PAYMENTS_REFUND), refundOrderItemController);
+router.put('/orders/:id/status', requirePermission(PERMISSIONS.ORDERS_WRITE), updateOrderStatusController); // Keep for backward compatibility
+router.get('/orders/:id/invoice', requirePermission(PERMISSIONS.ORDERS_READ), getOrderInvoiceController);
+
+// Customer claims
+router.get('/claims', requirePermission(PERMISSIONS.ORDERS_READ), getClaimsController);
+router.get('/claims/:id', requirePermission(PERMISSIONS.ORDERS_READ), getClaimDetailsController);
+router.post('/claims/:id/replace', requirePermission(PERMISSIONS.ORDERS_WRITE), replaceClaimKeyController);
+router.post('/claims/:id/refund', requirePermission(PERMISSIONS.PAYMENTS_REFUND), refundClaimController);
+router.post('/claims/:id/reject', requirePermission(PERMISSIONS.ORDERS_WRITE), rejectClaimController);
+
+// Preorders waiting for release
+router.get('/preorders', requirePermission(PERMISSIONS.ORDERS_READ), getPreordersController);
+router.post('/preorders/release', requirePermission(PERMISSIONS.ORDERS_WRITE), releasePreordersController);
+
+// Orders held for a fraud review
+router.get('/risk-review', requirePermission(PERMISSIONS.ORDERS_READ), getRiskReviewQueueController);
+router.post('/risk-review/:id/approve', requirePermission(PERMISSIONS.ORDERS_WRITE), approveHeldOrderController);
+router.post('/risk-review/:id/reject', requirePermission(PERMISSIONS.ORDERS_WRITE), rejectHeldOrderController);
+router.get('/fraud-settings', requirePermission(PERMISSIONS.FRAUD_RULES), getFraudSettingsController);
+router.put('/fraud-settings', requirePermission(PERMISSIONS.FRAUD_RULES), updateFraudSettingsController);
+
+// Orders stuck in processing (reports are shown on the dashboard)
+router.post('/reconciliation/run', requirePermission(PERMISSIONS.ORDERS_WRITE), runOrderReconciliationController);
+
+// Key deliveries that failed for good
+router.get('/dead-letters', requirePermission(PERMISSIONS.ORDERS_READ), getDeadLettersController);
+router.post('/dead-letters/:id/retry', requirePermission(PERMISSIONS.ORDERS_WRITE), retryDeadLetterController);
+router.post('/dead-letters/:id/refund', requirePermission(PERMISSIONS.PAYMENTS_REFUND), refundDeadLetterController);
+
+// Exchange rates used to convert payments into EUR
+router.get('/exchange-rates', requirePermission(PERMISSIONS.EXCHANGE_RATES), getExchangeRatesController);
+router.get('/exchange-rates/:currency/history', requirePermission(PERMISSIONS.EXCHANGE_RATES), getExchangeRateHistoryController);
+router.post('/exchange-rates', requirePermission(PERMISSIONS.EXCHANGE_RATES), setExchangeRateController);
+router.post('/exchange-rates/refresh', requirePermission(PERMISSIONS.EXCHANGE_RATES), refreshExchangeRatesController);
+router.put('/exchange-rates/settings', requirePermission(PERMISSIONS.EXCHANGE_RATES), updateExchangeRateSettingsController);
 
 // G2A Integration
-router.get('/g2a/test-connection', testG2AConnectionController);
-router.get('/g2a/status', getG2AStatusController);
-router.get('/g2a/sync-progress', getG2ASyncProgressController);
-router.get('/g2a/metrics', getG2AMetricsController);
-router.post('/g2a/sync', syncG2AController);
-router.post('/g2a/sync-categories', syncG2ACategoriesController);
-router.post('/g2a/sync-genres', syncG2AGenresController);
-router.post('/g2a/sync-platforms', syncG2APlatformsController);
+router.get('/g2a/test-connection', requirePermission(PERMISSIONS.G2A_MANAGE), testG2AConnectionController);
+router.get('/g2a/status', requirePermission(PERMISSIONS.G2A_MANAGE), getG2AStatusController);
+router.get('/g2a/sync-progress', requirePermission(PERMISSIONS.G2A_MANAGE), getG2ASyncProgressController);
+router.get('/g2a/metrics', requirePermission(PERMISSIONS.G2A_MANAGE), getG2AMetricsController);
+router.post('/g2a/sync', requirePermission(PERMISSIONS.G2A_MANAGE), syncG2AController);
+router.post('/g2a/sync-categories', requirePermission(PERMISSIONS.G2A_MANAGE), syncG2ACategoriesController);
+router.post('/g2a/sync-genres', requirePermission(PERMISSIONS.G2A_MANAGE), syncG2AGenresController);
+router.post('/g2a/sync-platforms', requirePermission(PERMISSIONS.G2A_MANAGE), syncG2APlatformsController);
 
 // Payment Management
-router.get('/payments/methods', getPaymentMethodsController);
-router.get('/payments/transactions', getPaymentTransactionsController);
-router.post('/payments/transactions/:id/refund', refundTransactionController);
+router.get('/payments/methods', requirePermission(PERMISSIONS.PAYMENTS_READ), getPaymentMethodsController);
+router.get('/payments/transactions', requirePermission(PERMISSIONS.PAYMENTS_READ), getPaymentTransactionsController);
+router.post('/payments/transactions/:id/refund', requirePermission(PERMISSIONS.PAYMENTS_REFUND), refundTransactionController);
+router.get('/payments/transactions/:id/invoice', requirePermission(PERMISSIONS.PAYMENTS_READ), getTopUpInvoiceController);
 
 // Cart Management
-router.get('/carts', getUserCartsController);
-router.get('/carts/user/:userId', getUserCartController);
-router.put('/carts/user/:userId', updateUserCartController);
-router.delete('/carts/user/:userId', clearUserCartController);
+router.get('/carts', requirePermission(PERMISSIONS.CARTS_MANAGE), getUserCartsController);
+router.get('/carts/user/:userId', requirePermission(PERMISSIONS.CARTS_MANAGE), getUserCartController);
+router.put('/carts/user/:userId', requirePermission(PERMISSIONS.CARTS_MANAGE), updateUserCartController);
+router.delete('/carts/user/:userId', requirePermission(PERMISSIONS.CARTS_MANAGE), clearUserCartController);
 
 // Wishlist Management
-router.get('/wishlists', getUserWishlistsController);
-router.get('/wishlists/user/:userId', getUserWishlistController);
-router.get('/wishlists/statistics', getWishlistStatisticsController);
+router.get('/wishlists', requirePermission(PERMISSIONS.WISHLISTS_READ), getUserWishlistsController);
+router.get('/wishlists/user/:userId', requirePermission(PERMISSIONS.WISHLISTS_READ), getUserWishlistController);
+router.get('/wishlists/statistics', requirePermission(PERMISSIONS.WISHLISTS_READ), getWishlistStatisticsController);
 
 // FAQ Management
-router.get('/faqs', getAllFAQsController);
-router.post('/faqs', createFAQController);
-router.put('/faqs/:id', updateFAQController);
-router.delete('/faqs/:id', deleteFAQController);
-router.get('/faqs/categories', getFAQCategoriesController);
+router.get('/faqs', requirePermission(PERMISSIONS.CONTENT_WRITE), getAllFAQsController);
+router.post('/faqs', requirePermission(PERMISSIONS.CONTENT_WRITE), createFAQController);
+router.put('/faqs/:id', requirePermission(PERMISSIONS.CONTENT_WRITE), updateFAQController);
+router.delete('/faqs/:id', requirePermission(PERMISSIONS.CONTENT_WRITE), deleteFAQController);
+router.get('/faqs/categories', requirePermission(PERMISSIONS.CONTENT_WRITE), getFAQCategoriesController);
 
 // G2A Advanced Management
-router.get('/g2a/offers', getG2AOffersController);
-router.get('/g2a/offers/:offerId', getG2AOfferByIdController);
-router.get('/g2a/reservations', getG2AReservationsController);
-router.post('/g2a/reservations/:id/cancel', cancelG2AReservationController);
+router.get('/g2a/offers', requirePermission(PERMISSIONS.G2A_MANAGE), getG2AOffersController);
+router.get('/g2a/offers/:offerId', requirePermission(PERMISSIONS.G2A_MANAGE), getG2AOfferByIdController);
+router.get('/g2a/reservations', requirePermission(PERMISSIONS.G2A_MANAGE), getG2AReservationsController);
+router.post('/g2a/reservations/:id/cancel', requirePermission(PERMISSIONS.G2A_MANAGE), cancelG2AReservationController);
 
 // Cache Management
-router.get('/cache/statistics', getCacheStatisticsController);
-router.post('/cache/invalidate', invalidateCacheController);
-router.post('/cache/clear', clearAllCacheController);
+router.get('/cache/statistics', requirePermission(PERMISSIONS.CACHE_MANAGE), getCacheStatisticsController);
+router.post('/cache/invalidate', requirePermission(PERMISSIONS.CACHE_MANAGE), invalidateCacheController);
+router.post('/cache/clear', requirePermission(PERMISSIONS.CACHE_MANAGE), clearAllCacheController);
 
 // Enhanced User Management
-router.put('/users/:id/balance', updateUserBalanceController);
-router.put('/users/:id/role', updateUserRoleController);
-router.get('/users/:id/activity', getUserActivityController);
+router.put('/users/:id/balance', requirePermission(PERMISSIONS.USERS_BALANCE), updateUserBalanceController);
+router.put('/users/:id/role', requirePermission(PERMISSIONS.USERS_ROLES), updateUserRoleController);
+router.post('/users/:id/unlock', requirePermission(PERMISSIONS.USERS_WRITE), unlockUserController);
+router.get('/users/:id/activity', requirePermission(PERMISSIONS.USERS_READ), getUserActivityController);
+
+// Admin Roles (listing is also needed to assign custom roles to users)
+router.get('/roles', requirePermission(PERMISSIONS.ROLES_MANAGE, PERMISSIONS.USERS_ROLES), getRolesController);
+router.post('/roles', requirePermission(PERMISSIONS.ROLES_MANAGE), createRoleController);
+router.put('/roles/:id', requirePermission(PERMISSIONS.ROLES_MANAGE), updateRoleController);
+router.delete('/roles/:id', requirePermission(PERMISSIONS.ROLES_MANAGE), deleteRoleController);
 
 // Catalog Metadata Management
-router.get('/categories', getAllCategoriesController);
-router.post('/categories', createCategoryController);
-router.put('/categories/:id', updateCategoryController);
-router.delete('/categories/:id', deleteCategoryController);
-
-router.get('/genres', getAllGenresController);
-router.post('/genres', createGenreController);
-router.put('/genres/:id', updateGenreController);
-router.delete('/genres/:id', deleteGenreController);
-
-router.get('/platforms', getAllPlatformsController);
-router.post('/platforms', createPlatformController);
-router.put('/platforms/:id', updatePlatformController);
-router.delete('/platforms/:id', deletePlatformController);
-
-router.get('/tags', getAllTagsController);
-router.post('/tags', createTagController);
-router.put('/tags/:id', updateTagController);
-router.delete('/tags/:id', deleteTagController);
+router.get('/categories', requirePermission(PERMISSIONS.CATALOG_READ), getAllCategoriesController);
+router.post('/categories', requirePermission(PERMISSIONS.CATALOG_WRITE), createCategoryController);
+router.put('/categories/:id', requirePermission(PERMISSIONS.CATALOG_WRITE), updateCategoryController);
+router.delete('/categories/:id', requirePermission(PERMISSIONS.CATALOG_WRITE), deleteCategoryController);
+
+router.get('/genres', requirePermission(PERMISSIONS.CATALOG_READ), getAllGenresController);
+router.post('/genres', requirePermission(PERMISSIONS.CATALOG_WRITE), createGenreController);
+router.put('/genres/:id', requirePermission(PERMISSIONS.CATALOG_WRITE), updateGenreController);
+router.delete('/genres/:id', requirePermission(PERMISSIONS.CATALOG_WRITE), deleteGenreController);
+
+router.get('/platforms', requirePermission(PERMISSIONS.CATALOG_READ), getAllPlatformsController);
+router.post('/platforms', requirePermission(PERMISSIONS.CATALOG_WRITE), createPlatformController);
+router.put('/platforms/:id', requirePermission(PERMISSIONS.CATALOG_WRITE), updatePlatformController);
+router.delete('/platforms/:id', requirePermission(PERMISSIONS.CATALOG_WRITE), deletePlatformController);
+
+router.get('/tags', requirePermission(PERMISSIONS.CATALOG_READ), getAllTagsController);
+router.post('/tags', requirePermission(PERMISSIONS.CATALOG_WRITE), createTagController);
+router.put('/tags/:id', requirePermission(PERMISSIONS.CATALOG_WRITE), updateTagController);
+router.delete('/tags/:id', requirePermission(PERMISSIONS.CATALOG_WRITE), deleteTagController);
 
 // Email Templates
-router.get('/email-templates', getEmailTemplatesController);
-router.get('/email-templates/metadata', getEmailTemplateMetadataController);
-router.get('/email-templates/:name', getEmailTemplateController);
-router.put('/email-templates/:name', updateEmailTemplateController);
-router.post('/email-templates/:name/send-test', sendTestEmailController);
-router.post('/email-templates/bulk-send', sendBulkEmailsController);
+router.get('/email-templates', requirePermission(PERMISSIONS.EMAIL_TEMPLATES), getEmailTemplatesController);
+router.get('/email-templates/metadata', requirePermission(PERMISSIONS.EMAIL_TEMPLATES), getEmailTemplateMetadataController);
+router.get('/email-templates/:name', requirePermission(PERMISSIONS.EMAIL_TEMPLATES), getEmailTemplateController);
+router.put('/email-templates/:name', requirePermission(PERMISSIONS.EMAIL_TEMPLATES), updateEmailTemplateController);
+router.post('/email-templates/:name/send-test', requirePermission(PERMISSIONS.EMAIL_TEMPLATES), sendTestEmailController);
+router.post('/email-templates/bulk-send', requirePermission(PERMISSIONS.EMAIL_TEMPLATES), sendBulkEmailsController);
 
 // Email Settings
-router.get('/email-settings', getEmailSettingsController);
-router.get('/email-settings/:id', getEmailSettingsByIdController);
-router.post('/email-settings', upsertEmailSettingsController);
-router.put('/email-settings/:id', updateEmailSettingsController);
-router.delete('/email-settings/:id', deleteEmailSettingsController);
-router.post('/email-settings/:id/test', testEmailSettingsController);
+router.get('/email-settings', requirePermission(PERMISSIONS.EMAIL_SETTINGS), getEmailSettingsController);
+router.get('/email-settings/:id', requirePermission(PERMISSIONS.EMAIL_SETTINGS), getEmailSettingsByIdController);
+router.post('/email-settings', requirePermission(PERMISSIONS.EMAIL_SETTINGS), upsertEmailSettingsController);
+router.put('/email-settings/:id', requirePermission(PERMISSIONS.EMAIL_SETTINGS), updateEmailSettingsController);
+router.delete('/email-settings/:id', requirePermission(PERMISSIONS.EMAIL_SETTINGS), deleteEmailSettingsController);
+router.post('/email-settings/:id/test', requirePermission(PERMISSIONS.EMAIL_SETTINGS), testEmailSettingsController);
 
 // G2A Settings Management
-router.get('/g2a-settings', getG2ASettingsController);
-router.get('/g2a-settings/all', getAllG2ASettingsController);
-router.get('/g2a-settings/:id/token', getG2ATokenController);
-router.get('/g2a-settings/token', getG2ATokenController); // Get token for active settings
-router.post('/g2a-settings/generate-key', generateG2AApiKeyController);
-router.post('/g2a-settings', upsertG2ASettingsController);
-router.put('/g2a-settings/:id', updateG2ASettingsController);
-router.delete('/g2a-settings/:id', deleteG2ASettingsController);
+router.get('/g2a-settings', requirePermission(PERMISSIONS.G2A_SETTINGS), getG2ASettingsController);
+router.get('/g2a-settings/all', requirePermission(PERMISSIONS.G2A_SETTINGS), getAllG2ASettingsController);
+router.get('/g2a-settings/:id/token', requirePermission(PERMISSIONS.G2A_SETTINGS), getG2ATokenController);
+router.get('/g2a-settings/token', requirePermission(PERMISSIONS.G2A_SETTINGS), getG2ATokenController); // Get token for active settings
+router.post('/g2a-settings/generate-key', requirePermission(PERMISSIONS.G2A_SETTINGS), generateG2AApiKeyController);
+router.post('/g2a-settings', requirePermission(PERMISSIONS.G2A_SETTINGS), upsertG2ASettingsController);
+router.put('/g2a-settings/:id', requirePermission(PERMISSIONS.G2A_SETTINGS), updateG2ASettingsController);
+router.delete('/g2a-settings/:id', requirePermission(PERMISSIONS.G2A_SETTINGS), deleteG2ASettingsController);
 
 // Promo Codes Management
-router.get('/promo-codes', getAllPromoCodesController);
-router.get('/promo-codes/statistics', getPromoCodeStatisticsController);
-router.get('/promo-codes/:id', getPromoCodeByIdController);
-router.post('/promo-codes', createPromoCodeController);
-router.put('/promo-codes/:id', updatePromoCodeController);
-router.delete('/promo-codes/:id', deletePromoCodeController);
+router.get('/promo-codes', requirePermission(PERMISSIONS.PROMO_CODES_MANAGE), getAllPromoCodesController);
+router.get('/promo-codes/statistics', requirePermission(PERMISSIONS.PROMO_CODES_MANAGE), getPromoCodeStatisticsController);
+router.get('/promo-codes/:id', requirePermission(PERMISSIONS.PROMO_CODES_MANAGE), getPromoCodeByIdController);
+router.post('/promo-codes', requirePermission(PERMISSIONS.PROMO_CODES_MANAGE), createPromoCodeController);
+router.put('/promo-codes/:id', requirePermission(PERMISSIONS.PROMO_CODES_MANAGE), updatePromoCodeController);
+router.delete('/promo-codes/:id', requirePermission(PERMISSIONS.PROMO_CODES_MANAGE), deletePromoCodeController);
 
 // Game Keys Management
-router.get('/game-keys', getAllGameKeysController);
-router.get('/game-keys/statistics', getGameKeyStatisticsController);
-router.get('/game-keys/:id', getGameKeyByIdController);
-router.post('/game-keys', createGameKeyController);
-router.put('/game-keys/:id', updateGameKeyController);
-router.delete('/game-keys/:id', deleteGameKeyController);
+router.get('/game-keys', requirePermission(PERMISSIONS.GAME_KEYS_READ), getAllGameKeysController);
+router.get('/game-keys/statistics', requirePermission(PERMISSIONS.GAME_KEYS_READ), getGameKeyStatisticsController);
+router.get('/game-keys/:id', requirePermission(PERMISSIONS.GAME_KEYS_READ), getGameKeyByIdController);
+router.post('/game-keys', requirePermission(PERMISSIONS.GAME_KEYS_WRITE), createGameKeyController);
+router.post('/game-keys/import', requirePermission(PERMISSIONS.GAME_KEYS_WRITE), importGameKeysController);
+router.put('/game-keys/:id', requirePermission(PERMISSIONS.GAME_KEYS_WRITE), updateGameKeyController);
+router.delete('/game-keys/:id', requirePermission(PERMISSIONS.GAME_KEYS_WRITE), deleteGameKeyController);
+router.post('/game-keys/:id/reveal', requirePermission(PERMISSIONS.GAME_KEYS_REVEAL), revealGameKeyController);
 
 // Script Execution
-router.post('/scripts/test-g2a-export-api', executeTestG2AExportAPIController);
-router.post('/scripts/sync-all-g2a-games', executeSyncAllG2AGamesController);
+router.post('/scripts/test-g2a-export-api', requirePermission(PERMISSIONS.G2A_MANAGE), executeTestG2AExportAPIController);
+router.post('/scripts/sync-all-g2a-games', requirePermission(PERMISSIONS.G2A_MANAGE), executeSyncAllG2AGamesController);
 
 export default router;
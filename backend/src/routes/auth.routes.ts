@@ -5,11 +5,34 @@ import {
   refreshTokenController,
   getCurrentUserController,
   logoutController,
+  getSessionsController,
+  revokeSessionController,
+  revokeAllSessionsController,
   forgotPasswordController,
+  resetPasswordController,
   sendVerificationCodeController,
   verifyEmailController,
+  requestEmailChangeController,
+  confirmEmailChangeController,
+  verifyTwoFactorLoginController,
+  twoFactorChallengeSetupController,
+  getTwoFactorStatusController,
+  setupTwoFactorController,
+  enableTwoFactorController,
+  disableTwoFactorController,
+  regenerateRecoveryCodesController,
 } from '../controllers/auth.controller.js';
-import { registerValidator, loginValidator, refreshTokenValidator } from '../validators/auth.js';
+import {
+  registerValidator,
+  loginValidator,
+  refreshTokenValidator,
+  resetPasswordValidator,
+  twoFactorVerifyValidator,
+  twoFactorCodeValidator,
+  twoFactorDisableValidator,
+  emailChangeValidator,
+  emailChangeConfirmValidator,
+} from '../validators/auth.js';
 import { requireAuth } from '../middleware/auth.js';
 import { sessionMiddleware } from '../middleware/session.middleware.js';
 const router = Router();
@@ -20,6 +43,33 @@ router.post('/refresh', refreshTokenValidator, refreshTokenController);
 router.get('/me', requireAuth, getCurrentUserController);
 router.post('/logout', requireAuth, sessionMiddleware, logoutController);
 router.post('/forgot-password', forgotPasswordController);
+router.post('/reset-password', resetPasswordValidator, resetPasswordController);
 router.post('/send-verification-code', requireAuth, sendVerificationCodeController);
 router.post('/verify-email', requireAuth, verifyEmailController);
+router.post('/change-email', requireAuth, emailChangeValidator, requestEmailChangeController);
+router.post(
+  '/change-email/confirm',
+  requireAuth,
+  emailChangeConfirmValidator,
+  confirmEmailChangeController
+);
+
+// Two-factor authentication
+router.post('/2fa/verify', twoFactorVerifyValidator, verifyTwoFactorLoginController);
+router.post('/2fa/challenge/setup', twoFactorChallengeSetupController);
+router.get('/2fa/status', requireAuth, getTwoFactorStatusController);
+router.post('/2fa/setup', requireAuth, setupTwoFactorController);
+router.post('/2fa/enable', requireAuth, twoFactorCodeValidator, enableTwoFactorController);
+router.post('/2fa/disable', requireAuth, twoFactorDisableValidator, disableTwoFactorController);
+router.post(
+  '/2fa/recovery-codes',
+  requireAuth,
+  twoFactorCodeValidator,
+  regenerateRecoveryCodesController
+);
+
+// Device sessions
+router.get('/sessions', requireAuth, getSessionsController);
+router.delete('/sessions', requireAuth, revokeAllSessionsController);
+router.delete('/sessions/:id', requireAuth, revokeSessionController);
 export default router;
@@ -16,11 +16,17 @@ import {
   getFilterOptionsController,
   getCollectionsController,
   getGameAutocompleteController,
+  getDisplayCurrenciesController,
 } from '../controllers/game.controller.js';
+import { displayCurrency } from '../middleware/currency.js';
 
 const router = Router();
 
+// Prices are shown in the currency the customer picked or their language maps to
+router.use(displayCurrency);
+
 router.get('/', getGamesController);
+router.get('/currencies', getDisplayCurrenciesController);
 router.get('/autocomplete', getGameAutocompleteController);
 router.get('/search', searchGamesController);
 router.get('/best-sellers', getBestSellersController);
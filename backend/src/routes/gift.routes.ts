@@ -0,0 +1,11 @@
+import { Router } from 'express';
+import { getGiftController, redeemGiftController } from '../controllers/gift.controller.js';
+import { authenticate } from '../middleware/auth.js';
+
+const router = Router();
+
+// Anyone with the claim link can see the gift; redeeming it needs an account
+router.get('/:token', authenticate, getGiftController);
+router.post('/:token/redeem', authenticate, redeemGiftController);
+
+export default router;
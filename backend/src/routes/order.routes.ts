@@ -3,16 +3,23 @@ import {
   createOrderController,
   getUserOrdersController,
   getOrderByIdController,
+  getUserClaimsController,
+  createClaimController,
+  getOrderInvoiceController,
 } from '../controllers/order.controller.js';
 import { authenticate } from '../middleware/auth.js';
+import { idempotent } from '../middleware/idempotency.js';
 
 const router = Router();
 
 // All order routes require authentication
 router.use(authenticate);
 
-router.post('/', createOrderController);
+router.post('/', idempotent('orders:create'), createOrderController);
 router.get('/', getUserOrdersController);
+router.get('/claims', getUserClaimsController);
 router.get('/:id', getOrderByIdController);
+router.get('/:id/invoice', getOrderInvoiceController);
+router.post('/:id/claims', createClaimController);
 
 export default router;
@@ -1,15 +1,25 @@
 import { Router } from 'express';
 import {
   createBalanceTopUpController,
+  getPendingTopUpsController,
   paymentWebhookController,
   terminalWebhookController,
 } from '../controllers/payment.controller.js';
 import { authenticate } from '../middleware/auth.js';
+import { idempotent } from '../middleware/idempotency.js';
 
 const router = Router();
 
 // Balance top-up requires authentication
-router.post('/balance-top-up', authenticate, createBalanceTopUpController);
+router.post(
+  '/balance-top-up',
+  authenticate,
+  idempotent('payments:balance-top-up'),
+  createBalanceTopUpController
+);
+
+// Top-ups started but not paid yet
+router.get('/balance-top-up/pending', authenticate, getPendingTopUpsController);
 
 // Webhooks don't require authentication (they use signature verification)
 router.post('/webhook', paymentWebhookController as any);
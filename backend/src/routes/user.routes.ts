@@ -6,9 +6,17 @@ import {
   getUserStatsController,
   getBalanceController,
   getTransactionsController,
+  getTopUpInvoiceController,
   getWishlistController,
   addToWishlistController,
   removeFromWishlistController,
+  createDataExportController,
+  downloadDataExportController,
+  requestAccountDeletionController,
+  cancelAccountDeletionController,
+  getKeyLibraryController,
+  revealLibraryKeyController,
+  activateLibraryKeyController,
 } from '../controllers/user.controller.js';
 import { authenticate, requireAuth } from '../middleware/auth.js';
 import { getGamesController } from '../controllers/game.controller.js';
@@ -19,7 +27,10 @@ import { migrateWishlistController } from '../controllers/wishlist.controller.js
 import { getUserOrdersController } from '../controllers/order.controller.js';
 const router = Router();
 
-// All user routes require authentication
+// Data export download links are opened from outside the app, so the token authenticates them
+router.get('/data-export/:token', downloadDataExportController);
+
+// All other user routes require authentication
 router.use(authenticate);
 router.use(sessionMiddleware);
 router.use(requireAuth);
@@ -33,11 +44,22 @@ router.get('/catalog/:id', getGameByIdController);
 router.get('/stats', getUserStatsController);
 router.get('/orders', getUserOrdersController);
 
+// Key library
+router.get('/keys', getKeyLibraryController);
+router.post('/keys/:id/reveal', revealLibraryKeyController);
+router.post('/keys/:id/activate', activateLibraryKeyController);
+
 router.get('/balance', getBalanceController);
 router.get('/transactions', getTransactionsController);
+router.get('/transactions/:id/invoice', getTopUpInvoiceController);
 router.get('/wishlist', getWishlistController);
 router.post('/wishlist/:gameId', addToWishlistController);
 router.delete('/wishlist/:gameId', removeFromWishlistController);
 router.post('/wishlist/migrate', migrateWishlistController);
 
+// Personal data (GDPR)
+router.post('/data-export', createDataExportController);
+router.post('/account-deletion', requestAccountDeletionController);
+router.delete('/account-deletion', cancelAccountDeletionController);
+
 export default router;
@@ -0,0 +1,166 @@
+import { Prisma, Role } from '@prisma/client';
+import prisma from '../config/database.js';
+import { AppError } from '../middleware/errorHandler.js';
+import {
+  ALL_PERMISSIONS,
+  Permission,
+  ROLE_PERMISSIONS,
+  isPermission,
+  resolvePermissions,
+} from '../config/permissions.js';
+import { AdminRoleInput, AdminRoleResponse, RolesOverviewResponse } from '../types/admin.js';
+
+/**
+ * Effective admin permissions of a user: the built-in role plus any custom role
+ */
+export const getUserPermissions = async (userId: string): Promise<Permission[]> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { role: true, adminRole: { select: { permissions: true } } },
+  });
+
+  if (!user) {
+    return [];
+  }
+
+  return resolvePermissions(user.role, user.adminRole?.permissions);
+};
+
+const validateRoleInput = (data: Partial<AdminRoleInput>): void => {
+  if (data.name !== undefined && !data.name.trim()) {
+    throw new AppError('Role name is required', 400);
+  }
+
+  if (data.permissions !== undefined) {
+    if (!Array.isArray(data.permissions)) {
+      throw new AppError('Permissions must be an array', 400);
+    }
+    const unknown = data.permissions.filter((permission) => !isPermission(permission));
+    if (unknown.length > 0) {
+      throw new AppError(`Unknown permissions: ${unknown.join(', ')}`, 400);
+    }
+  }
+};
+
+const formatAdminRole = (role: {
+  id: string;
+  name: string;
+  description: string | null;
+  permissions: string[];
+  createdAt: Date;
+  updatedAt: Date;
+  _count: { users: number };
+}): AdminRoleResponse => ({
+  id: role.id,
+  name: role.name,
+  description: role.description || undefined,
+  permissions: role.permissions,
+  userCount: role._count.users,
+  createdAt: role.createdAt.toISOString(),
+  updatedAt: role.updatedAt.toISOString(),
+});
+
+const isUniqueViolation = (error: unknown): boolean =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+
+/**
+ * Built-in roles with their fixed permissions plus all custom roles
+ */
+export const getRolesOverview = async (): Promise<RolesOverviewResponse> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  const customRoles = await prisma.adminRole.findMany({
+    orderBy: { name: 'asc' },
+    include: { _count: { select: { users: true } } },
+  });
+
+  return {
+    permissions: ALL_PERMISSIONS,
+    builtIn: Object.values(Role)
+      .filter((role) => role !== Role.USER)
+      .map((role) => ({ role, permissions: ROLE_PERMISSIONS[role] })),
+    custom: customRoles.map(formatAdminRole),
+  };
+};
+
+export const createAdminRole = async (data: AdminRoleInput): Promise<AdminRoleResponse> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  validateRoleInput(data);
+
+  try {
+    const role = await prisma.adminRole.create({
+      data: {
+        name: data.name.trim(),
+        description: data.description?.trim() || null,
+        permissions: data.permissions ?? [],
+      },
+      include: { _count: { select: { users: true } } },
+    });
+    return formatAdminRole(role);
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      throw new AppError('A role with this name already exists', 409);
+    }
+    throw error;
+  }
+};
+
+/**
+ * Update a custom role. Permission changes apply to its users on their next request.
+ */
+export const updateAdminRole = async (
+  id: string,
+  data: Partial<AdminRoleInput>
+): Promise<AdminRoleResponse> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  validateRoleInput(data);
+
+  const existing = await prisma.adminRole.findUnique({ where: { id }, select: { id: true } });
+  if (!existing) {
+    throw new AppError('Role not found', 404);
+  }
+
+  try {
+    const role = await prisma.adminRole.update({
+      where: { id },
+      data: {
+        ...(data.name !== undefined && { name: data.name.trim() }),
+        ...(data.description !== undefined && { description: data.description.trim() || null }),
+        ...(data.permissions !== undefined && { permissions: data.permissions }),
+      },
+      include: { _count: { select: { users: true } } },
+    });
+    return formatAdminRole(role);
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      throw new AppError('A role with this name already exists', 409);
+    }
+    throw error;
+  }
+};
+
+/**
+ * Delete a custom role. Its users keep their built-in role.
+ */
+export const deleteAdminRole = async (id: string): Promise<void> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  const result = await prisma.adminRole.deleteMany({ where: { id } });
+  if (result.count === 0) {
+    throw new AppError('Role not found', 404);
+  }
+};
@@ -11,7 +11,34 @@ import {
   RefundResult,
 } from '../types/admin.js';
 import { AppError } from '../middleware/errorHandler.js';
-import { Prisma } from '@prisma/client';
+import { Prisma, Role } from '@prisma/client';
+import {
+  ORDER_STATUS_TRANSITIONS,
+  formatStatusHistory,
+  statusHistoryInclude,
+  transitionOrderStatus,
+} from './order-status.service.js';
+import {
+  ItemFulfillmentResult,
+  ItemRefundResult,
+  fulfillOrderItem,
+  getOutstandingQuantity,
+  getSupplierClient,
+  refundOrderItem,
+  resolveItemStatus,
+  settleOrderStatus,
+} from './order-fulfillment.service.js';
+import { syncPoolStock } from './key-pool.service.js';
+import { formatOrderGift } from './gift.service.js';
+import { sendOrderInvoice } from './invoice.service.js';
+import { getReconciliationOverview } from './order-reconciliation.service.js';
+import { RiskSignal } from '../types/risk.js';
+import {
+  decryptGameKey,
+  encryptGameKey,
+  hashGameKey,
+  maskGameKey,
+} from '../utils/game-key-crypto.js';
 
 /**
  * Structured logger for Admin operations with error and audit logging
@@ -245,6 +272,7 @@ export const getDashboardStats = async (): Promise<AdminDashboardStats> => {
       createdAt: t.createdAt.toISOString(),
     })),
     salesByDay,
+    reconciliation: await getReconciliationOverview(),
   };
 };
 
@@ -273,6 +301,10 @@ export const searchUsers = async (filters: UserSearchFilters) => {
     ];
   }
 
+  if (filters.locked) {
+    where.lockedUntil = { gt: new Date() };
+  }
+
   const [users, total] = await Promise.all([
     prisma.user.findMany({
       where,
@@ -288,6 +320,10 @@ export const searchUsers = async (filters: UserSearchFilters) => {
         balance: true,
         role: true,
         createdAt: true,
+        lockedUntil: true,
+        adminRole: {
+          select: { id: true, name: true },
+        },
         _count: {
           select: { orders: true },
         },
@@ -307,6 +343,11 @@ export const searchUsers = async (filters: UserSearchFilters) => {
       role: user.role,
       createdAt: user.createdAt.toISOString(),
       ordersCount: user._count.orders,
+      lockedUntil:
+        user.lockedUntil && user.lockedUntil > new Date()
+          ? user.lockedUntil.toISOString()
+          : undefined,
+      adminRole: user.adminRole || undefined,
     })),
     total,
     page,
@@ -338,6 +379,9 @@ export const getUserDetails = async (userId: string): Promise<UserDetailsRespons
           createdAt: true,
         },
       },
+      adminRole: {
+        select: { id: true, name: true },
+      },
     },
   });
 
@@ -353,6 +397,7 @@ export const getUserDetails = async (userId: string): Promise<UserDetailsRespons
     lastName: user.lastName || undefined,
     balance: Number(user.balance),
     role: user.role,
+    adminRole: user.adminRole || undefined,
     createdAt: user.createdAt.toISOString(),
     orders: user.orders.map((order) => ({
       id: order.id,
@@ -446,6 +491,9 @@ export const getTransactions = async (filters?: TransactionFilters) => {
       type: t.type,
       amount: Number(t.amount),
       currency: t.currency,
+      originalAmount: t.originalAmount ? Number(t.originalAmount) : undefined,
+      originalCurrency: t.originalCurrency || undefined,
+      exchangeRate: t.exchangeRate ? Number(t.exchangeRate) : undefined,
       method: t.method || undefined,
       status: t.status,
       description: t.description || undefined,
@@ -1151,7 +1199,15 @@ export const deleteBlogPost = async (id: string) => {
 export const getAllOrders = async (page = 1, pageSize = 20, status?: string) => {
   const where: Prisma.OrderWhereInput = {};
   if (status) {
-    where.status = status as 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'CANCELLED';
+    where.status = status as
+      | 'PENDING'
+      | 'AWAITING_PAYMENT'
+      | 'PREORDER'
+      | 'ON_HOLD'
+      | 'PROCESSING'
+      | 'PARTIALLY_COMPLETED'
+      | 'COMPLETED'
+      | 'CANCELLED';
   }
 
   const [orders, total] = await Promise.all([
@@ -1174,6 +1230,7 @@ export const getAllOrders = async (page = 1, pageSize = 20, status?: string) =>
         keys: {
           select: {
             key: true,
+            keyHint: true,
             gameId: true,
           },
         },
@@ -1185,7 +1242,7 @@ export const getAllOrders = async (page = 1, pageSize = 20, status?: string) =>
   return {
     orders: orders.map((o) => {
       // Map keys to items by gameId
-      const keysByGameId = new Map(o.keys.map((k) => [k.gameId, k.key]));
+      const keysByGameId = new Map(o.keys.map((k) => [k.gameId, maskGameKey(k)]));
 
       return {
         id: o.id,
@@ -1239,12 +1296,21 @@ export const getOrderDetails = async (id: string) => {
         select: {
           id: true,
           gameId: true,
+          orderItemId: true,
           key: true,
+          keyHint: true,
           activated: true,
           activationDate: true,
         },
       },
-      transaction: {
+      gift: true,
+      riskAssessment: {
+        include: { reviewedBy: { select: { email: true } } },
+      },
+      statusHistory: statusHistoryInclude,
+      transactions: {
+        where: { type: { in: ['PURCHASE', 'REFUND'] } },
+        orderBy: { createdAt: 'asc' },
         select: {
           id: true,
           type: true,
@@ -1264,9 +1330,23 @@ export const getOrderDetails = async (id: string) => {
     throw new AppError('Order not found', 404);
   }
 
-  // Map keys to items by gameId
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const keysByGameId = new Map<string, any>(order.keys.map((k: any) => [k.gameId, k]));
+  // Keys delivered before per-item tracking are only linked to the order, so match them by game
+  const keysForItem = (item: { id: string; gameId: string }) =>
+    order.keys.filter(
+      (k) => k.orderItemId === item.id || (!k.orderItemId && k.gameId === item.gameId)
+    );
+  const formatTransaction = (transaction: (typeof order.transactions)[number]) => ({
+    id: transaction.id,
+    type: transaction.type,
+    amount: Number(transaction.amount),
+    currency: transaction.currency,
+    method: transaction.method || undefined,
+    status: transaction.status,
+    description: transaction.description || undefined,
+    transactionHash: transaction.transactionHash || undefined,
+    createdAt: transaction.createdAt.toISOString(),
+  });
+  const purchase = order.transactions.find((t) => t.type === 'PURCHASE');
 
   return {
     id: order.id,
@@ -1289,7 +1369,7 @@ export const getOrderDetails = async (id: string) => {
     createdAt: order.createdAt.toISOString(),
     completedAt: order.completedAt?.toISOString(),
     items: order.items.map((item) => {
-      const key = keysByGameId.get(item.gameId);
+      const keys = keysForItem(item);
       return {
         id: item.id,
         gameId: item.gameId,
@@ -1297,43 +1377,51 @@ export const getOrderDetails = async (id: string) => {
         quantity: item.quantity,
         price: Number(item.price),
         discount: Number(item.discount),
-        key: key?.key || undefined,
-        keyActivated: key?.activated || false,
+        key: keys[0] ? maskGameKey(keys[0]) : undefined,
+        keyActivated: keys[0]?.activated || false,
+        keys: keys.map((k) => ({ id: k.id, key: maskGameKey(k), activated: k.activated })),
+        fulfillmentStatus: item.fulfillmentStatus,
+        fulfilledQuantity: item.fulfilledQuantity,
+        refundedQuantity: item.refundedQuantity,
+        supplierOrderIds: item.supplierOrderIds,
+        fulfillmentError: item.fulfillmentError || undefined,
+        fulfilledAt: item.fulfilledAt?.toISOString(),
       };
     }),
-    transaction: order.transaction
+    // Held orders are approved or rejected from the fraud review, and orders awaiting a
+    // gateway payment move on with its webhook
+    allowedTransitions:
+      order.status === 'ON_HOLD' || order.status === 'AWAITING_PAYMENT'
+        ? []
+        : ORDER_STATUS_TRANSITIONS[order.status],
+    statusHistory: formatStatusHistory(order.statusHistory),
+    risk: order.riskAssessment
       ? {
-          id: order.transaction.id,
-          type: order.transaction.type,
-          amount: Number(order.transaction.amount),
-          currency: order.transaction.currency,
-          method: order.transaction.method || undefined,
-          status: order.transaction.status,
-          description: order.transaction.description || undefined,
-          transactionHash: order.transaction.transactionHash || undefined,
-          createdAt: order.transaction.createdAt.toISOString(),
+          score: order.riskAssessment.score,
+          threshold: order.riskAssessment.threshold,
+          held: order.riskAssessment.held,
+          signals: order.riskAssessment.signals as unknown as RiskSignal[],
+          decision: order.riskAssessment.decision || undefined,
+          reviewedBy: order.riskAssessment.reviewedBy?.email,
+          reviewNote: order.riskAssessment.reviewNote || undefined,
+          reviewedAt: order.riskAssessment.reviewedAt?.toISOString(),
         }
       : undefined,
+    gift: order.gift ? formatOrderGift(order.gift) : undefined,
+    transaction: purchase ? formatTransaction(purchase) : undefined,
+    refunds: order.transactions.filter((t) => t.type === 'REFUND').map(formatTransaction),
   };
 };
 
 export interface OrderUpdateInput {
-  status?: 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
+  status?: 'PENDING' | 'PROCESSING' | 'PARTIALLY_COMPLETED' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
   paymentStatus?: 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
   paymentMethod?: string;
   promoCode?: string;
+  reason?: string;
 }
 
-// Valid status transitions
-const validStatusTransitions: Record<string, string[]> = {
-  PENDING: ['PROCESSING', 'CANCELLED'],
-  PROCESSING: ['COMPLETED', 'FAILED', 'CANCELLED'],
-  COMPLETED: ['CANCELLED'], // Can only cancel completed orders (for refunds)
-  FAILED: ['PENDING', 'PROCESSING'], // Can retry failed orders
-  CANCELLED: [], // Cannot transition from cancelled
-};
-
-export const updateOrder = async (id: string, data: OrderUpdateInput) => {
+export const updateOrder = async (id: string, data: OrderUpdateInput, actorId?: string) => {
   // Get current order
   const currentOrder = await prisma.order.findUnique({
     where: { id },
@@ -1344,35 +1432,42 @@ export const updateOrder = async (id: string, data: OrderUpdateInput) => {
     throw new AppError('Order not found', 404);
   }
 
-  // Validate status transition if status is being updated
-  if (data.status && data.status !== currentOrder.status) {
-    const allowedTransitions = validStatusTransitions[currentOrder.status] || [];
-    if (!allowedTransitions.includes(data.status)) {
-      throw new AppError(
-        `Invalid status transition from ${currentOrder.status} to ${data.status}. Allowed transitions: ${allowedTransitions.join(', ')}`,
-        400
-      );
-    }
-  }
-
   // Prepare update data
-  const updateData: Prisma.OrderUpdateInput = {};
+  const updateData: Prisma.OrderUpdateManyMutationInput = {};
+  if (data.paymentStatus !== undefined) updateData.paymentStatus = data.paymentStatus;
+  if (data.paymentMethod !== undefined) updateData.paymentMethod = data.paymentMethod;
+  if (data.promoCode !== undefined) updateData.promoCode = data.promoCode;
+
   if (data.status !== undefined) {
-    updateData.status = data.status;
+    if (currentOrder.status === 'ON_HOLD') {
+      throw new AppError('Approve or reject held orders from the fraud review', 400);
+    }
+    if (currentOrder.status === 'AWAITING_PAYMENT') {
+      throw new AppError('This order moves on once its gateway payment is confirmed', 400);
+    }
     // Set completedAt if status is COMPLETED
-    if (data.status === 'COMPLETED') {
+    if (data.status === 'COMPLETED' && currentOrder.status !== 'COMPLETED') {
       updateData.completedAt = new Date();
     }
+    // Validates the transition and records it in the status history
+    await transitionOrderStatus(
+      id,
+      data.status,
+      { actorType: 'ADMIN', actorId, reason: data.reason },
+      { data: updateData }
+    );
+
+    if (data.status === 'COMPLETED' && currentOrder.status !== 'COMPLETED') {
+      await sendOrderInvoice(id);
+    }
+  } else {
+    await prisma.order.update({
+      where: { id },
+      data: updateData,
+    });
   }
-  if (data.paymentStatus !== undefined) updateData.paymentStatus = data.paymentStatus;
-  if (data.paymentMethod !== undefined) updateData.paymentMethod = data.paymentMethod;
-  if (data.promoCode !== undefined) updateData.promoCode = data.promoCode;
 
-  // Update order
-  const order = await prisma.order.update({
-    where: { id },
-    data: updateData,
-  });
+  const order = await prisma.order.findUniqueOrThrow({ where: { id } });
 
   // Invalidate cache (non-blocking)
   try {
@@ -1393,13 +1488,29 @@ export const updateOrder = async (id: string, data: OrderUpdateInput) => {
 };
 
 // Keep updateOrderStatus for backward compatibility
-export const updateOrderStatus = async (id: string, status: string) => {
-  return updateOrder(id, {
-    status: status as 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED' | 'CANCELLED',
-  });
+export const updateOrderStatus = async (
+  id: string,
+  status: string,
+  actorId?: string,
+  reason?: string
+) => {
+  return updateOrder(
+    id,
+    {
+      status: status as
+        | 'PENDING'
+        | 'PROCESSING'
+        | 'PARTIALLY_COMPLETED'
+        | 'COMPLETED'
+        | 'FAILED'
+        | 'CANCELLED',
+      reason,
+    },
+    actorId
+  );
 };
 
-export const cancelOrder = async (id: string, reason?: string): Promise<void> => {
+export const cancelOrder = async (id: string, reason?: string, actorId?: string): Promise<void> => {
   // Get order with all related data
   const order = await prisma.order.findUnique({
     where: { id },
@@ -1415,9 +1526,10 @@ export const cancelOrder = async (id: string, reason?: string): Promise<void> =>
         },
       },
       keys: {
-        select: { id: true, gameId: true, key: true },
+        select: { id: true, gameId: true },
       },
-      transaction: {
+      transactions: {
+        where: { type: { in: ['PURCHASE', 'REFUND'] } },
         select: {
           id: true,
           type: true,
@@ -1440,59 +1552,58 @@ export const cancelOrder = async (id: string, reason?: string): Promise<void> =>
     throw new AppError('Order is already cancelled', 400);
   }
 
+  // The balance part is held until the gateway answers, and released when it fails or expires
+  if (order.status === 'AWAITING_PAYMENT') {
+    throw new AppError('This order is cancelled when its gateway payment fails or expires', 400);
+  }
+
   if (order.status === 'COMPLETED' && order.keys.length > 0) {
     // For completed orders with keys, we need to handle refund and key deactivation
     // Note: Keys cannot be "restored" to inventory as they're already issued
     // But we can refund the payment
   }
 
+  const purchase = order.transactions.find((t) => t.type === 'PURCHASE');
+  // Items may already have been refunded one by one; only the rest is refunded here
+  const alreadyRefunded = order.transactions
+    .filter((t) => t.type === 'REFUND' && (t.status === 'COMPLETED' || t.status === 'PENDING'))
+    .reduce((sum, t) => sum + Number(t.amount), 0);
+  const refundAmount = Math.max(0, Number(order.total) - alreadyRefunded);
+  const keysIssued = order.status === 'COMPLETED' || order.status === 'PARTIALLY_COMPLETED';
+
   // Use transaction to ensure atomicity
   await prisma.$transaction(async (tx) => {
     // 1. Update order status to CANCELLED
-    await tx.order.update({
-      where: { id },
-      data: { status: 'CANCELLED', paymentStatus: 'CANCELLED' },
-    });
+    await transitionOrderStatus(
+      id,
+      'CANCELLED',
+      { actorType: 'ADMIN', actorId, reason },
+      { tx, data: { paymentStatus: 'CANCELLED' } }
+    );
 
     // 2. Refund payment if order was paid
-    if (
-      order.transaction &&
-      order.transaction.status === 'COMPLETED' &&
-      order.transaction.type === 'PURCHASE'
-    ) {
-      // Check if already refunded
-      const existingRefund = await tx.transaction.findFirst({
-        where: {
-          orderId: id,
-          type: 'REFUND',
-          status: 'COMPLETED',
-        },
-      });
-
-      if (!existingRefund) {
+    if (purchase && purchase.status === 'COMPLETED') {
+      if (refundAmount > 0) {
         // Refund through payment service
         try {
           const { refundTransaction } = await import('./payment.service.js');
           await refundTransaction(
-            order.transaction.id,
-            undefined,
+            purchase.id,
+            refundAmount,
             reason || `Order ${id} cancelled by admin`
           );
         } catch (refundError) {
           // If refund fails, still cancel the order but log the error
-          console.error(
-            `[Order Cancel] Failed to refund transaction ${order.transaction.id}:`,
-            refundError
-          );
+          console.error(`[Order Cancel] Failed to refund transaction ${purchase.id}:`, refundError);
           // Create a manual refund transaction record
           await tx.transaction.create({
             data: {
               userId: order.userId,
               orderId: id,
               type: 'REFUND',
-              amount: order.total,
+              amount: refundAmount,
               currency: 'EUR',
-              method: order.transaction.method,
+              method: purchase.method,
               status: 'PENDING', // Mark as pending since automatic refund failed
               description: reason || `Order ${id} cancelled by admin - refund pending`,
             },
@@ -1502,19 +1613,19 @@ export const cancelOrder = async (id: string, reason?: string): Promise<void> =>
             where: { id: order.userId },
             data: {
               balance: {
-                increment: order.total,
+                increment: refundAmount,
               },
             },
           });
         }
       }
-    } else if (order.status === 'PENDING' || order.status === 'PROCESSING') {
+    } else if ((order.status === 'PENDING' || order.status === 'PROCESSING') && refundAmount > 0) {
       // For pending/processing orders, just restore balance (no payment gateway refund needed)
       await tx.user.update({
         where: { id: order.userId },
         data: {
           balance: {
-            increment: order.total,
+            increment: refundAmount,
           },
         },
       });
@@ -1525,7 +1636,7 @@ export const cancelOrder = async (id: string, reason?: string): Promise<void> =>
           userId: order.userId,
           orderId: id,
           type: 'REFUND',
-          amount: order.total,
+          amount: refundAmount,
           currency: 'EUR',
           method: order.paymentMethod || 'balance',
           status: 'COMPLETED',
@@ -1534,8 +1645,22 @@ export const cancelOrder = async (id: string, reason?: string): Promise<void> =>
       });
     }
 
-    // 3. Delete game keys if order was not completed (keys not yet issued)
-    if (order.status !== 'COMPLETED' && order.keys.length > 0) {
+    // 3. Close the items that were never delivered
+    for (const item of order.items) {
+      if (getOutstandingQuantity(item) > 0) {
+        const refundedQuantity = item.quantity - item.fulfilledQuantity;
+        await tx.orderItem.update({
+          where: { id: item.id },
+          data: {
+            refundedQuantity,
+            fulfillmentStatus: resolveItemStatus({ ...item, refundedQuantity }, false),
+          },
+        });
+      }
+    }
+
+    // 4. Delete game keys if order was not completed (keys not yet issued)
+    if (!keysIssued && order.keys.length > 0) {
       await tx.gameKey.deleteMany({
         where: { orderId: id },
       });
@@ -1555,6 +1680,99 @@ export const cancelOrder = async (id: string, reason?: string): Promise<void> =>
   }
 };
 
+const findOpenOrderItem = async (orderId: string, itemId: string) => {
+  const item = await prisma.orderItem.findFirst({
+    where: { id: itemId, orderId },
+    include: {
+      order: { select: { status: true, userId: true } },
+      game: { select: { g2aProductId: true } },
+    },
+  });
+
+  if (!item) {
+    throw new AppError('Order item not found', 404);
+  }
+
+  if (item.order.status === 'CANCELLED') {
+    throw new AppError('Order is already cancelled', 400);
+  }
+
+  if (getOutstandingQuantity(item) === 0) {
+    throw new AppError('All units of this item have already been delivered or refunded', 400);
+  }
+
+  return item;
+};
+
+const invalidateOrderCache = async (orderId: string, userId: string) => {
+  try {
+    const { invalidateCache } = await import('./cache.service.js');
+    await invalidateCache(`order:${orderId}`);
+    await invalidateCache(`user:${userId}:orders`);
+  } catch (cacheError) {
+    console.warn('[Order Items] Failed to invalidate cache:', cacheError);
+  }
+};
+
+/**
+ * Retry delivering the undelivered units of a single order item, from G2A or the local key pool
+ */
+export const retryOrderItem = async (
+  orderId: string,
+  itemId: string,
+  actorId?: string
+): Promise<{
+  result: ItemFulfillmentResult;
+  order: Awaited<ReturnType<typeof getOrderDetails>>;
+}> => {
+  const item = await findOpenOrderItem(orderId, itemId);
+
+  // Items without a G2A product are delivered from the local key pool
+  const client = item.game.g2aProductId ? await getSupplierClient() : null;
+  if (item.game.g2aProductId && !client) {
+    throw new AppError('G2A integration is not configured', 503);
+  }
+
+  const result = await fulfillOrderItem(itemId, client);
+  await settleOrderStatus(orderId, { actorType: 'ADMIN', actorId });
+
+  adminLogger.audit('ORDER_ITEM_RETRY', actorId || 'system', 'retry_order_item', {
+    orderId,
+    itemId,
+    delivered: result.delivered,
+    error: result.error,
+  });
+
+  await invalidateOrderCache(orderId, item.order.userId);
+  return { result, order: await getOrderDetails(orderId) };
+};
+
+/**
+ * Refund the undelivered units of a single order item to the customer's balance
+ */
+export const refundUndeliveredItem = async (
+  orderId: string,
+  itemId: string,
+  reason?: string,
+  actorId?: string
+): Promise<{ result: ItemRefundResult; order: Awaited<ReturnType<typeof getOrderDetails>> }> => {
+  const item = await findOpenOrderItem(orderId, itemId);
+
+  const result = await refundOrderItem(itemId, reason);
+  await settleOrderStatus(orderId, { actorType: 'ADMIN', actorId });
+
+  adminLogger.audit('ORDER_ITEM_REFUND', actorId || 'system', 'refund_order_item', {
+    orderId,
+    itemId,
+    units: result.units,
+    amount: result.amount,
+    reason,
+  });
+
+  await invalidateOrderCache(orderId, item.order.userId);
+  return { result, order: await getOrderDetails(orderId) };
+};
+
 export const generateFakeDataForUser = async (
   userId: string,
   webhookData: Record<string, unknown>
@@ -1705,6 +1923,9 @@ export const getPaymentTransactions = async (
       type: t.type,
       amount: Number(t.amount),
       currency: t.currency,
+      originalAmount: t.originalAmount ? Number(t.originalAmount) : undefined,
+      originalCurrency: t.originalCurrency || undefined,
+      exchangeRate: t.exchangeRate ? Number(t.exchangeRate) : undefined,
       method: t.method || undefined,
       status: t.status,
       description: t.description || undefined,
@@ -2322,17 +2543,18 @@ export const updateUserBalanceForAdmin = async (
 
 export const updateUserRoleForAdmin = async (
   userId: string,
-  role: 'USER' | 'ADMIN'
+  role: Role,
+  adminRoleId?: string | null
 ): Promise<void> => {
   const { updateUserRole } = await import('./user.service.js');
-  return updateUserRole(userId, role);
+  return updateUserRole(userId, role, adminRoleId);
 };
 
 export interface UserUpdateInput {
   nickname?: string;
   firstName?: string;
   lastName?: string;
-  role?: 'USER' | 'ADMIN';
+  role?: Role;
   balance?: number;
 }
 
@@ -2341,8 +2563,8 @@ export const updateUser = async (
   data: UserUpdateInput
 ): Promise<UserDetailsResponse> => {
   // Validate role if provided
-  if (data.role && !['USER', 'ADMIN'].includes(data.role)) {
-    throw new AppError('Invalid role. Must be USER or ADMIN', 400);
+  if (data.role && !Object.values(Role).includes(data.role)) {
+    throw new AppError(`Invalid role. Must be one of ${Object.values(Role).join(', ')}`, 400);
   }
 
   // Validate balance if provided
@@ -2365,7 +2587,10 @@ export const updateUser = async (
   if (data.nickname !== undefined) updateData.nickname = data.nickname;
   if (data.firstName !== undefined) updateData.firstName = data.firstName;
   if (data.lastName !== undefined) updateData.lastName = data.lastName;
-  if (data.role !== undefined) updateData.role = data.role;
+  if (data.role !== undefined) {
+    // Same rules as the dedicated role endpoint (last superadmin, custom role cleanup)
+    await updateUserRoleForAdmin(userId, data.role);
+  }
   if (data.balance !== undefined) {
     // If balance is being updated, create a transaction record
     const balanceChange = data.balance - Number(existingUser.balance);
@@ -2465,12 +2690,11 @@ export const deleteUser = async (userId: string): Promise<void> => {
     throw new AppError('User not found', 404);
   }
 
-  // Check for dependencies
-  if (user._count.orders > 0) {
-    throw new AppError(
-      `Cannot delete user with ${user._count.orders} active order(s). Please cancel or complete orders first.`,
-      409
-    );
+  // Order and payment records must be kept, so such accounts are anonymised instead
+  if (user._count.orders > 0 || user._count.transactions > 0) {
+    const { anonymiseUser } = await import('./gdpr.service.js');
+    await anonymiseUser(userId);
+    return;
   }
 
   // Use transaction to ensure atomicity
@@ -2489,13 +2713,6 @@ export const deleteUser = async (userId: string): Promise<void> => {
       });
     }
 
-    // Delete user's transactions (if any)
-    if (user._count.transactions > 0) {
-      await tx.transaction.deleteMany({
-        where: { userId },
-      });
-    }
-
     // Delete user's login history
     await tx.loginHistory.deleteMany({
       where: { userId },
@@ -3434,7 +3651,7 @@ export const getPromoCodeStatistics = async (): Promise<PromoCodeStatistics> =>
 export interface GameKey {
   id: string;
   gameId: string;
-  key: string;
+  maskedKey: string;
   orderId: string | null;
   activated: boolean;
   activationDate: Date | null;
@@ -3528,8 +3745,9 @@ export const getAllGameKeys = async (
   }
 
   if (filters?.search) {
+    // Key values are encrypted, so they can only be found by an exact match on their hash
     where.OR = [
-      { key: { contains: filters.search, mode: 'insensitive' } },
+      { keyHash: hashGameKey(filters.search) },
       {
         game: {
           title: { contains: filters.search, mode: 'insensitive' },
@@ -3585,7 +3803,7 @@ export const getAllGameKeys = async (
     keys: keys.map((k) => ({
       id: k.id,
       gameId: k.gameId,
-      key: k.key,
+      maskedKey: maskGameKey(k),
       orderId: k.orderId,
       activated: k.activated,
       activationDate: k.activationDate,
@@ -3660,7 +3878,7 @@ export const getGameKeyById = async (id: string): Promise<GameKey | null> => {
   return {
     id: key.id,
     gameId: key.gameId,
-    key: key.key,
+    maskedKey: maskGameKey(key),
     orderId: key.orderId,
     activated: key.activated,
     activationDate: key.activationDate,
@@ -3693,9 +3911,11 @@ export const getGameKeyById = async (id: string): Promise<GameKey | null> => {
 };
 
 export const createGameKey = async (data: GameKeyCreateInput): Promise<GameKey> => {
+  const encrypted = encryptGameKey(data.key);
+
   // Check if key already exists
   const existing = await prisma.gameKey.findUnique({
-    where: { key: data.key },
+    where: { keyHash: encrypted.keyHash },
   });
 
   if (existing) {
@@ -3725,7 +3945,7 @@ export const createGameKey = async (data: GameKeyCreateInput): Promise<GameKey>
   const gameKey = await prisma.gameKey.create({
     data: {
       gameId: data.gameId,
-      key: data.key,
+      ...encrypted,
       orderId: data.orderId || null,
       activated: data.activated ?? false,
     },
@@ -3763,10 +3983,12 @@ export const createGameKey = async (data: GameKeyCreateInput): Promise<GameKey>
     orderId: gameKey.orderId,
   });
 
+  await syncPoolStock(gameKey.gameId);
+
   return {
     id: gameKey.id,
     gameId: gameKey.gameId,
-    key: gameKey.key,
+    maskedKey: maskGameKey(gameKey),
     orderId: gameKey.orderId,
     activated: gameKey.activated,
     activationDate: gameKey.activationDate,
@@ -3808,9 +4030,11 @@ export const updateGameKey = async (id: string, data: GameKeyUpdateInput): Promi
   }
 
   // Check if key is being changed and new key already exists
-  if (data.key && data.key !== existing.key) {
+  const encrypted = data.key ? encryptGameKey(data.key) : null;
+  const keyChanged = !!encrypted && encrypted.keyHash !== existing.keyHash;
+  if (encrypted && keyChanged) {
     const keyExists = await prisma.gameKey.findUnique({
-      where: { key: data.key },
+      where: { keyHash: encrypted.keyHash },
     });
 
     if (keyExists) {
@@ -3846,7 +4070,9 @@ export const updateGameKey = async (id: string, data: GameKeyUpdateInput): Promi
   if (data.gameId !== undefined) {
     updateData.game = { connect: { id: data.gameId } };
   }
-  if (data.key !== undefined) updateData.key = data.key;
+  if (encrypted && (keyChanged || !existing.encryptedKey)) {
+    Object.assign(updateData, encrypted, { key: null });
+  }
   if (data.orderId !== undefined) {
     if (data.orderId === null) {
       updateData.order = { disconnect: true };
@@ -3903,10 +4129,16 @@ export const updateGameKey = async (id: string, data: GameKeyUpdateInput): Promi
     gameId: gameKey.gameId,
   });
 
+  // Assigning a key to an order or moving it to another game changes the pool
+  await syncPoolStock(gameKey.gameId);
+  if (existing.gameId !== gameKey.gameId) {
+    await syncPoolStock(existing.gameId);
+  }
+
   return {
     id: gameKey.id,
     gameId: gameKey.gameId,
-    key: gameKey.key,
+    maskedKey: maskGameKey(gameKey),
     orderId: gameKey.orderId,
     activated: gameKey.activated,
     activationDate: gameKey.activationDate,
@@ -3960,6 +4192,52 @@ export const deleteGameKey = async (id: string): Promise<void> => {
     gameKeyId: id,
     gameId: gameKey.gameId,
   });
+
+  await syncPoolStock(gameKey.gameId);
+};
+
+export interface GameKeyRevealContext {
+  reason?: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * Decrypt a key for an admin. Every reveal is recorded with who asked and why.
+ */
+export const revealGameKey = async (
+  id: string,
+  actorId: string,
+  context: GameKeyRevealContext = {}
+): Promise<{ id: string; key: string }> => {
+  const gameKey = await prisma.gameKey.findUnique({
+    where: { id },
+  });
+
+  if (!gameKey) {
+    throw new AppError('Game key not found', 404);
+  }
+
+  const key = decryptGameKey(gameKey);
+
+  await prisma.gameKeyReveal.create({
+    data: {
+      gameKeyId: id,
+      userId: actorId,
+      reason: context.reason?.trim() || null,
+      ipAddress: context.ipAddress || null,
+      userAgent: context.userAgent || null,
+    },
+  });
+
+  adminLogger.audit('GAME_KEY_REVEALED', actorId, 'reveal', {
+    gameKeyId: id,
+    gameId: gameKey.gameId,
+    orderId: gameKey.orderId,
+    reason: context.reason,
+  });
+
+  return { id, key };
 };
 
 export const getGameKeyStatistics = async (): Promise<GameKeyStatistics> => {
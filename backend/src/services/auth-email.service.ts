@@ -1,11 +1,30 @@
+import { EmailCodePurpose, EmailVerificationCode, Prisma } from '@prisma/client';
 import prisma from '../config/database.js';
-import { hashPassword } from '../utils/bcrypt.js';
+import { comparePassword, hashPassword } from '../utils/bcrypt.js';
 import { AppError } from '../middleware/errorHandler.js';
-import { sendPasswordResetEmail, sendEmailVerificationEmail } from './email.service.js';
+import {
+  sendPasswordResetEmail,
+  sendEmailVerificationEmail,
+  sendEmailChangeCodeEmail,
+  sendEmailChangeNoticeEmail,
+} from './email.service.js';
 import crypto from 'crypto';
 
+// Reset links are valid for one hour and can only be used once
+const PASSWORD_RESET_TOKEN_TTL_MINUTES = 60;
+// Emailed verification codes are short-lived and allow a few wrong guesses
+const EMAIL_CODE_TTL_MINUTES = 15;
+const EMAIL_CODE_MAX_ATTEMPTS = 5;
+
+/**
+ * Hash a reset token before storing or looking it up.
+ * Only the hash is persisted, so a database dump cannot be used to reset passwords.
+ */
+const hashResetToken = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
 /**
- * Forgot password - send reset email
+ * Forgot password - send reset link email
  */
 export const forgotPassword = async (email: string): Promise<void> => {
   if (!prisma) {
@@ -25,25 +44,174 @@ export const forgotPassword = async (email: string): Promise<void> => {
     return;
   }
 
-  // Generate new password
-  const newPassword = crypto.randomBytes(16).toString('hex');
-  const passwordHash = await hashPassword(newPassword);
+  // Generate single-use reset token; the raw value only ever leaves the server in the email
+  const resetToken = crypto.randomBytes(32).toString('hex');
+  const expiresAt = new Date(Date.now() + PASSWORD_RESET_TOKEN_TTL_MINUTES * 60 * 1000);
 
-  // Update user password
-  await prisma.user.update({
-    where: { id: user.id },
-    data: { passwordHash },
-  });
+  await prisma.$transaction([
+    // Invalidate any previously issued, still unused tokens
+    prisma.passwordResetToken.updateMany({
+      where: { userId: user.id, usedAt: null },
+      data: { usedAt: new Date() },
+    }),
+    prisma.passwordResetToken.create({
+      data: {
+        userId: user.id,
+        tokenHash: hashResetToken(resetToken),
+        expiresAt,
+      },
+    }),
+  ]);
+
+  const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
+  const resetLink = `${frontendUrl}/reset-password?token=${resetToken}`;
 
   // Send password reset email
   try {
-    await sendPasswordResetEmail(user.email, { newPassword });
+    await sendPasswordResetEmail(user.email, {
+      resetLink,
+      expiresInMinutes: PASSWORD_RESET_TOKEN_TTL_MINUTES,
+    });
   } catch (error) {
     console.error('Failed to send password reset email:', error);
     // Don't fail the operation if email fails
   }
 };
 
+/**
+ * Reset password using a token from the reset email
+ */
+export const resetPassword = async (token: string, newPassword: string): Promise<void> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  const resetToken = await prisma.passwordResetToken.findUnique({
+    where: { tokenHash: hashResetToken(token) },
+  });
+
+  if (!resetToken || resetToken.usedAt || resetToken.expiresAt < new Date()) {
+    throw new AppError('Invalid or expired reset token', 400);
+  }
+
+  const passwordHash = await hashPassword(newPassword);
+
+  await prisma.$transaction(async (tx) => {
+    // Consume the token atomically so two concurrent requests cannot both use it
+    const consumed = await tx.passwordResetToken.updateMany({
+      where: { id: resetToken.id, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    if (consumed.count === 0) {
+      throw new AppError('Invalid or expired reset token', 400);
+    }
+
+    await tx.user.update({
+      where: { id: resetToken.userId },
+      data: { passwordHash },
+    });
+
+    // Any other outstanding tokens for this user are no longer needed
+    await tx.passwordResetToken.updateMany({
+      where: { userId: resetToken.userId, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+  });
+
+  // Whoever knew the old password may still hold a session
+  const { revokeAllSessions } = await import('./session.service.js');
+  await revokeAllSessions(resetToken.userId, 'password_reset');
+
+  // Proving control of the mailbox also lifts a login lockout
+  const { unlockAccount } = await import('./login-throttle.service.js');
+  await unlockAccount(resetToken.userId);
+};
+
+/**
+ * Hash a one-time email code. The user id is mixed in so equal codes of different users differ.
+ */
+const hashEmailCode = (userId: string, code: string): string =>
+  crypto.createHash('sha256').update(`${userId}:${code}`).digest('hex');
+
+/**
+ * Store a new one-time code for the address, replacing any unused code issued for the same purpose
+ */
+const issueEmailCode = async (
+  userId: string,
+  purpose: EmailCodePurpose,
+  email: string
+): Promise<string> => {
+  const code = crypto.randomInt(100000, 1000000).toString();
+  const now = new Date();
+
+  await prisma.$transaction([
+    prisma.emailVerificationCode.updateMany({
+      where: { userId, purpose, usedAt: null, expiresAt: { gt: now } },
+      data: { expiresAt: now },
+    }),
+    prisma.emailVerificationCode.create({
+      data: {
+        userId,
+        purpose,
+        email,
+        codeHash: hashEmailCode(userId, code),
+        expiresAt: new Date(now.getTime() + EMAIL_CODE_TTL_MINUTES * 60 * 1000),
+      },
+    }),
+  ]);
+
+  return code;
+};
+
+/**
+ * Find the pending code matching the one entered by the user. Wrong guesses count towards a limit.
+ */
+const findPendingEmailCode = async (
+  userId: string,
+  purpose: EmailCodePurpose,
+  code: string
+): Promise<EmailVerificationCode> => {
+  const pending = await prisma.emailVerificationCode.findFirst({
+    where: { userId, purpose, usedAt: null, expiresAt: { gt: new Date() } },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  if (!pending) {
+    throw new AppError('Invalid or expired verification code', 400);
+  }
+
+  if (pending.attempts >= EMAIL_CODE_MAX_ATTEMPTS) {
+    throw new AppError('Too many incorrect attempts. Please request a new code.', 429);
+  }
+
+  const expected = Buffer.from(pending.codeHash);
+  const actual = Buffer.from(hashEmailCode(userId, code.trim()));
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    await prisma.emailVerificationCode.update({
+      where: { id: pending.id },
+      data: { attempts: { increment: 1 } },
+    });
+    throw new AppError('Invalid or expired verification code', 400);
+  }
+
+  return pending;
+};
+
+/**
+ * Mark a code as used. Fails if a concurrent request already used it.
+ */
+const consumeEmailCode = async (tx: Prisma.TransactionClient, id: string): Promise<void> => {
+  const consumed = await tx.emailVerificationCode.updateMany({
+    where: { id, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+
+  if (consumed.count === 0) {
+    throw new AppError('Invalid or expired verification code', 400);
+  }
+};
+
 /**
  * Send email verification code
  */
@@ -66,12 +234,7 @@ export const sendVerificationCode = async (userId: string): Promise<string> => {
     throw new AppError('Email already verified', 400);
   }
 
-  // Generate verification code (6 digits)
-  const verificationCode = crypto.randomInt(100000, 999999).toString();
-
-  // Store verification code in user's session or temporary storage
-  // For now, we'll just send it. In production, you might want to store it in Redis
-  // with expiration (e.g., 15 minutes)
+  const verificationCode = await issueEmailCode(user.id, 'VERIFY_EMAIL', user.email);
 
   // Send verification email
   try {
@@ -87,17 +250,14 @@ export const sendVerificationCode = async (userId: string): Promise<string> => {
 /**
  * Verify email with code
  */
-export const verifyEmail = async (userId: string, _code: string): Promise<void> => {
+export const verifyEmail = async (userId: string, code: string): Promise<void> => {
   if (!prisma) {
     throw new AppError('Database connection not available', 503);
   }
 
-  // In production, you would verify the code from Redis/cache
-  // For now, this is a placeholder - you'll need to implement code storage/verification
-  // This is just the structure
-
   const user = await prisma.user.findUnique({
     where: { id: userId },
+    select: { email: true, emailVerified: true },
   });
 
   if (!user) {
@@ -108,12 +268,126 @@ export const verifyEmail = async (userId: string, _code: string): Promise<void>
     throw new AppError('Email already verified', 400);
   }
 
-  // TODO: Verify code from cache/Redis
-  // For now, we'll just mark as verified (not secure, but shows structure)
-  // In production, implement proper code verification
+  const pending = await findPendingEmailCode(userId, 'VERIFY_EMAIL', code);
+
+  // The code was sent to an address the account no longer uses
+  if (pending.email !== user.email) {
+    throw new AppError('Invalid or expired verification code', 400);
+  }
+
+  await prisma.$transaction(async (tx) => {
+    await consumeEmailCode(tx, pending.id);
+    await tx.user.update({
+      where: { id: userId },
+      data: { emailVerified: true, emailVerifiedAt: new Date() },
+    });
+  });
+};
+
+/**
+ * Start an email change. The new address gets a confirmation code and the current one a notice;
+ * the account keeps its email until the code is confirmed.
+ */
+export const requestEmailChange = async (
+  userId: string,
+  newEmail: string,
+  password: string
+): Promise<string> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
 
-  await prisma.user.update({
+  const user = await prisma.user.findUnique({
     where: { id: userId },
-    data: { emailVerified: true },
+    select: { id: true, email: true, passwordHash: true },
+  });
+
+  if (!user) {
+    throw new AppError('User not found', 404);
+  }
+
+  if (!(await comparePassword(password, user.passwordHash))) {
+    throw new AppError('Current password is incorrect', 401);
+  }
+
+  const normalizedEmail = newEmail.toLowerCase().trim();
+
+  if (normalizedEmail === user.email) {
+    throw new AppError('New email must be different from the current one', 400);
+  }
+
+  const taken = await prisma.user.findUnique({
+    where: { email: normalizedEmail },
+    select: { id: true },
   });
+  if (taken) {
+    throw new AppError('User with this email already exists', 409);
+  }
+
+  const verificationCode = await issueEmailCode(user.id, 'CHANGE_EMAIL', normalizedEmail);
+
+  try {
+    await sendEmailChangeCodeEmail(normalizedEmail, {
+      verificationCode,
+      newEmail: normalizedEmail,
+      expiresInMinutes: EMAIL_CODE_TTL_MINUTES,
+    });
+  } catch (error) {
+    console.error('Failed to send email change code:', error);
+    throw new AppError('Failed to send verification email', 500);
+  }
+
+  try {
+    const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
+    await sendEmailChangeNoticeEmail(user.email, {
+      newEmail: normalizedEmail,
+      resetLink: `${frontendUrl}/forgot-password`,
+    });
+  } catch (error) {
+    // Non-blocking - the change still needs the code from the new address
+    console.error('Failed to send email change notice:', error);
+  }
+
+  return verificationCode;
+};
+
+/**
+ * Apply a pending email change and sign out every other device
+ */
+export const confirmEmailChange = async (
+  userId: string,
+  code: string,
+  currentSessionId?: string
+): Promise<{ email: string }> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  const pending = await findPendingEmailCode(userId, 'CHANGE_EMAIL', code);
+
+  try {
+    await prisma.$transaction(async (tx) => {
+      await consumeEmailCode(tx, pending.id);
+      await tx.user.update({
+        where: { id: userId },
+        data: { email: pending.email, emailVerified: true, emailVerifiedAt: new Date() },
+      });
+      // Codes sent to the previous address must not verify the new one
+      await tx.emailVerificationCode.updateMany({
+        where: { userId, usedAt: null, expiresAt: { gt: new Date() } },
+        data: { expiresAt: new Date() },
+      });
+    });
+  } catch (error) {
+    // Someone registered the address since the code was sent
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new AppError('User with this email already exists', 409);
+    }
+    throw error;
+  }
+
+  const { revokeAllSessions } = await import('./session.service.js');
+  await revokeAllSessions(userId, 'email_changed', currentSessionId);
+
+  return { email: pending.email };
 };
@@ -1,15 +1,40 @@
 import prisma from '../config/database.js';
 import { hashPassword, comparePassword } from '../utils/bcrypt.js';
-import { generateAccessToken, generateRefreshToken, TokenPayload } from '../utils/jwt.js';
-import { RegisterRequest, LoginRequest, AuthResponse } from '../types/auth.js';
+import { generateTwoFactorChallengeToken, verifyTwoFactorChallengeToken } from '../utils/jwt.js';
+import {
+  RegisterRequest,
+  LoginRequest,
+  AuthResponse,
+  LoginResponse,
+  TwoFactorVerifyRequest,
+  TwoFactorSetupResponse,
+} from '../types/auth.js';
 import { AppError } from '../middleware/errorHandler.js';
+import {
+  isTwoFactorRequiredForRole,
+  verifyTwoFactorCode,
+  enableTwoFactor,
+  beginTwoFactorSetup,
+} from './two-factor.service.js';
+import { createSession, rotateRefreshToken } from './session.service.js';
+import { getUserPermissions } from './admin-role.service.js';
+import {
+  assertIpNotThrottled,
+  assertAccountNotThrottled,
+  registerFailedLogin,
+  clearFailedLogins,
+} from './login-throttle.service.js';
 
 // Verify Prisma client is available (non-blocking check)
 if (!prisma) {
   console.error('⚠️  Prisma client not initialized');
 }
 
-export const register = async (data: RegisterRequest): Promise<AuthResponse> => {
+export const register = async (
+  data: RegisterRequest,
+  ipAddress?: string,
+  userAgent?: string
+): Promise<AuthResponse> => {
   if (!prisma) {
     throw new AppError('Database connection not available', 503);
   }
@@ -19,10 +44,9 @@ export const register = async (data: RegisterRequest): Promise<AuthResponse> =>
   // Normalize email to lowercase for consistency
   const normalizedEmail = email.toLowerCase().trim();
 
-  // Use transaction to ensure atomicity of user creation and token generation
-  let result;
+  let user;
   try {
-    result = await prisma.$transaction(async (tx) => {
+    user = await prisma.$transaction(async (tx) => {
       // Check if user already exists (within transaction)
       let existingUser;
       try {
@@ -48,7 +72,7 @@ export const register = async (data: RegisterRequest): Promise<AuthResponse> =>
       }
 
       // Create user (within transaction)
-      const user = await tx.user.create({
+      return tx.user.create({
         data: {
           email: normalizedEmail,
           passwordHash,
@@ -66,18 +90,6 @@ export const register = async (data: RegisterRequest): Promise<AuthResponse> =>
           role: true,
         },
       });
-
-      // Generate tokens (synchronous, fast operation - safe to include in transaction context)
-      const tokenPayload: TokenPayload = {
-        userId: user.id,
-        email: user.email,
-        role: user.role,
-      };
-
-      const token = generateAccessToken(tokenPayload);
-      const refreshToken = generateRefreshToken(tokenPayload);
-
-      return { user, token, refreshToken };
     });
   } catch (error) {
     // Re-throw AppError as-is
@@ -89,21 +101,31 @@ export const register = async (data: RegisterRequest): Promise<AuthResponse> =>
     throw new AppError('Registration failed. Please try again later.', 500);
   }
 
+  const session = await createSession(user, { ipAddress, userAgent });
+
   // Send registration email (non-blocking, fire-and-forget)
   // Email failures should not block registration
   try {
     const { sendRegistrationEmail } = await import('./email.service.js');
-    await sendRegistrationEmail(result.user.email, { username: result.user.nickname || 'User' });
+    await sendRegistrationEmail(user.email, { username: user.nickname || 'User' });
   } catch (error) {
     console.error('Failed to send registration email:', error);
     // Don't fail registration if email fails - already logged
   }
 
   return {
-    user: result.user,
-    token: result.token,
-    refreshToken: result.refreshToken,
-    expiresIn: 7 * 24 * 60 * 60, // 7 days in seconds
+    user: {
+      ...user,
+      nickname: user.nickname || 'Newbie Guy',
+      firstName: user.firstName || undefined,
+      lastName: user.lastName || undefined,
+      avatar: user.avatar || undefined,
+      // New accounts are always customers
+      permissions: [],
+    },
+    token: session.token,
+    refreshToken: session.refreshToken,
+    expiresIn: session.expiresIn,
   };
 };
 
@@ -111,8 +133,9 @@ export const login = async (
   data: LoginRequest,
   sessionId?: string,
   ipAddress?: string,
-  userAgent?: string
-): Promise<AuthResponse> => {
+  userAgent?: string,
+  country?: string
+): Promise<LoginResponse> => {
   if (!prisma) {
     throw new AppError('Database connection not available', 503);
   }
@@ -122,6 +145,8 @@ export const login = async (
   // Normalize email to lowercase
   const normalizedEmail = email?.toLowerCase().trim();
 
+  await assertIpNotThrottled(ipAddress);
+
   // Find user
   let user;
   try {
@@ -133,78 +158,189 @@ export const login = async (
     throw new AppError('Database connection error. Please try again later.', 503);
   }
 
-  // Record failed login attempt if user not found or password invalid
-  const recordFailedLogin = async (userId?: string) => {
-    try {
-      // Only record if we have a userId (user exists but password wrong)
-      if (userId) {
-        await prisma.loginHistory.create({
-          data: {
-            userId,
-            ipAddress: ipAddress || undefined,
-            userAgent: userAgent || undefined,
-            success: false,
-          },
-        });
-      }
-      // Note: We don't record failed logins for non-existent users to avoid information leakage
-    } catch (loginHistoryError) {
-      // Non-blocking - log but don't fail
-      console.warn('Failed to record login history:', loginHistoryError);
-    }
-  };
-
   if (!user) {
-    // Don't record failed login for non-existent users (security best practice)
+    // Don't record failed login for non-existent users (security best practice),
+    // but still count it against the IP
+    await registerFailedLogin(ipAddress);
     throw new AppError('Invalid email or password', 401);
   }
 
+  // Record failed login attempt and feed the throttle
+  const recordFailedLogin = async () => {
+    await recordLoginAttempt(user.id, false, ipAddress, userAgent, country);
+    await registerFailedLogin(ipAddress, user);
+  };
+
+  await assertAccountNotThrottled(user);
+
   // Verify password
   let isValidPassword = false;
   try {
     isValidPassword = await comparePassword(password, user.passwordHash);
   } catch (compareError) {
     console.error('Password comparison error:', compareError);
-    await recordFailedLogin(user.id);
+    await recordFailedLogin();
     throw new AppError('Invalid email or password', 401);
   }
 
   if (!isValidPassword) {
-    await recordFailedLogin(user.id);
+    await recordFailedLogin();
     throw new AppError('Invalid email or password', 401);
   }
 
-  // Generate tokens
-  const tokenPayload: TokenPayload = {
-    userId: user.id,
-    email: user.email,
-    role: user.role,
-  };
+  // Password is correct - ask for the second factor before issuing real tokens
+  if (user.twoFactorEnabled || isTwoFactorRequiredForRole(user.role)) {
+    return {
+      twoFactorRequired: true,
+      setupRequired: !user.twoFactorEnabled,
+      challengeToken: generateTwoFactorChallengeToken(user.id),
+      expiresIn: 5 * 60, // 5 minutes in seconds
+    };
+  }
+
+  return createLoginSession(user, sessionId, ipAddress, userAgent, country);
+};
 
-  let token: string;
-  let refreshToken: string;
+/**
+ * Find the account a two-factor challenge belongs to. The challenge routes are throttled
+ * per IP and per account like the login, and a bad challenge token counts against the IP.
+ */
+const findChallengeUser = async (challengeToken: string, ipAddress?: string) => {
+  await assertIpNotThrottled(ipAddress);
+
+  let userId: string;
   try {
-    token = generateAccessToken(tokenPayload);
-    refreshToken = generateRefreshToken(tokenPayload);
-  } catch (tokenError) {
-    console.error('Token generation error:', tokenError);
-    throw new AppError('Authentication error. Please try again.', 500);
+    ({ userId } = verifyTwoFactorChallengeToken(challengeToken));
+  } catch {
+    await registerFailedLogin(ipAddress);
+    throw new AppError('Two-factor challenge is invalid or has expired. Please log in again.', 401);
+  }
+
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user) {
+    throw new AppError('User not found', 401);
+  }
+
+  // Code guesses count towards the same lockout as password guesses
+  await assertAccountNotThrottled(user);
+  return user;
+};
+
+/**
+ * Complete a login that was paused for two-factor authentication.
+ * If the account still has to enrol (mandatory admin 2FA), the code confirms the enrolment.
+ */
+export const verifyTwoFactorLogin = async (
+  data: TwoFactorVerifyRequest,
+  sessionId?: string,
+  ipAddress?: string,
+  userAgent?: string,
+  country?: string
+): Promise<AuthResponse> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  const user = await findChallengeUser(data.challengeToken, ipAddress);
+  const recordFailedCode = async () => {
+    await recordLoginAttempt(user.id, false, ipAddress, userAgent, country);
+    await registerFailedLogin(ipAddress, user);
+  };
+
+  let recoveryCodes: string[] | undefined;
+
+  if (user.twoFactorEnabled) {
+    const isValid = await verifyTwoFactorCode(user.id, {
+      code: data.code,
+      recoveryCode: data.recoveryCode,
+    });
+    if (!isValid) {
+      await recordFailedCode();
+      throw new AppError('Invalid authentication code', 401);
+    }
+  } else {
+    if (!data.code) {
+      throw new AppError('Authentication code is required', 400);
+    }
+    // enableTwoFactor validates the code against the secret from the setup step
+    try {
+      recoveryCodes = await enableTwoFactor(user.id, data.code);
+    } catch (error) {
+      // A wrong enrolment code is a guess like a wrong two-factor code
+      if (error instanceof AppError && error.message === 'Invalid authentication code') {
+        await recordFailedCode();
+      }
+      throw error;
+    }
+  }
+
+  const session = await createLoginSession(user, sessionId, ipAddress, userAgent, country);
+  return recoveryCodes ? { ...session, recoveryCodes } : session;
+};
+
+/**
+ * Start mandatory 2FA enrolment for an account that was stopped at the challenge step
+ */
+export const beginChallengeTwoFactorSetup = async (
+  challengeToken: string,
+  ipAddress?: string
+): Promise<TwoFactorSetupResponse> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
   }
 
-  // Record successful login history (non-blocking)
+  const user = await findChallengeUser(challengeToken, ipAddress);
+  return beginTwoFactorSetup(user.id);
+};
+
+const recordLoginAttempt = async (
+  userId: string,
+  success: boolean,
+  ipAddress?: string,
+  userAgent?: string,
+  country?: string
+): Promise<string | undefined> => {
   try {
-    await prisma.loginHistory.create({
+    const entry = await prisma.loginHistory.create({
       data: {
-        userId: user.id,
+        userId,
         ipAddress: ipAddress || undefined,
         userAgent: userAgent || undefined,
-        success: true,
+        country: country || undefined,
+        success,
       },
     });
+    return entry.id;
   } catch (loginHistoryError) {
     // Non-blocking - log but don't fail login
     console.warn('Failed to record login history:', loginHistoryError);
+    return undefined;
   }
+};
+
+/**
+ * Issue tokens for a fully authenticated user, record the login and migrate the guest session
+ */
+const createLoginSession = async (
+  user: {
+    id: string;
+    email: string;
+    role: string;
+    nickname: string | null;
+    firstName: string | null;
+    lastName: string | null;
+    avatar: string | null;
+    displayCurrency?: string | null;
+  },
+  sessionId?: string,
+  ipAddress?: string,
+  userAgent?: string,
+  country?: string
+): Promise<AuthResponse> => {
+  // Record successful login history (non-blocking) and open a device session linked to it
+  const loginHistoryId = await recordLoginAttempt(user.id, true, ipAddress, userAgent, country);
+  await clearFailedLogins(user.id);
+  const session = await createSession(user, { ipAddress, userAgent, loginHistoryId });
 
   // Trigger cart/wishlist migration if guest session exists
   // This is non-blocking - migration failures should not prevent login
@@ -237,72 +373,22 @@ export const login = async (
       lastName: user.lastName || undefined,
       avatar: user.avatar || undefined,
       role: user.role,
+      permissions: await getUserPermissions(user.id),
+      displayCurrency: user.displayCurrency || undefined,
     },
-    token,
-    refreshToken,
-    expiresIn: 7 * 24 * 60 * 60, // 7 days in seconds
+    token: session.token,
+    refreshToken: session.refreshToken,
+    expiresIn: session.expiresIn,
   };
 };
 
 export const refreshToken = async (
-  refreshTokenString: string
+  refreshTokenString: string,
+  ipAddress?: string,
+  userAgent?: string
 ): Promise<{ token: string; refreshToken: string; expiresIn: number }> => {
-  if (!prisma) {
-    throw new AppError('Database connection not available', 503);
-  }
-
   try {
-    // Verify refresh token
-    const { verifyRefreshToken } = await import('../utils/jwt.js');
-    let decoded: TokenPayload;
-    try {
-      decoded = verifyRefreshToken(refreshTokenString);
-    } catch {
-      throw new AppError('Invalid or expired refresh token', 401);
-    }
-
-    // Find user to ensure they still exist
-    let user;
-    try {
-      user = await prisma.user.findUnique({
-        where: { id: decoded.userId },
-        select: {
-          id: true,
-          email: true,
-          role: true,
-        },
-      });
-    } catch (dbError) {
-      console.error('Database error during token refresh:', dbError);
-      throw new AppError('Database connection error. Please try again later.', 503);
-    }
-
-    if (!user) {
-      throw new AppError('User not found', 401);
-    }
-
-    // Generate new tokens
-    const tokenPayload: TokenPayload = {
-      userId: user.id,
-      email: user.email,
-      role: user.role,
-    };
-
-    let newToken: string;
-    let newRefreshToken: string;
-    try {
-      newToken = generateAccessToken(tokenPayload);
-      newRefreshToken = generateRefreshToken(tokenPayload);
-    } catch (tokenError) {
-      console.error('Token generation error during refresh:', tokenError);
-      throw new AppError('Authentication error. Please try again.', 500);
-    }
-
-    return {
-      token: newToken,
-      refreshToken: newRefreshToken,
-      expiresIn: 7 * 24 * 60 * 60, // 7 days in seconds
-    };
+    return await rotateRefreshToken(refreshTokenString, ipAddress, userAgent);
   } catch (error) {
     if (error instanceof AppError) {
       throw error;
@@ -1,5 +1,7 @@
 import redisClient from '../config/redis.js';
 import prisma from '../config/database.js';
+import { DisplayPricing } from '../types/exchange-rate.js';
+import { BASE_PRICING, toDisplayPrice } from './display-currency.service.js';
 
 // Cache TTLs
 const CACHE_TTL = {
@@ -24,12 +26,19 @@ const CACHE_KEYS = {
   FILTER_OPTIONS: 'catalog:filterOptions',
 };
 
+/**
+ * Cached prices are converted, so every key holding prices ends with the display currency.
+ * Keys of one currency can then be dropped when its rate changes: `*:PLN`.
+ */
+const withCurrency = (key: string, pricing: DisplayPricing) => `${key}:${pricing.currency}`;
+
 interface CachedGame {
   id: string;
   title: string;
   slug: string;
   price: number;
   originalPrice?: number;
+  currency: string;
   imageUrl: string;
   platform: string;
   genre: string;
@@ -112,6 +121,7 @@ const getCachedOrFetch = async <T>(
  *                  - `user:{id}:cart` - User cart cache
  *                  - `user:{id}:wishlist` - User wishlist cache
  *                  - `user:{id}:orders` - User orders cache
+ *                  - `*:{currency}` - Prices converted to one display currency
  *
  * @remarks
  * - Cache invalidation is non-blocking (errors are logged but not thrown)
@@ -169,8 +179,14 @@ export const invalidateCache = async (pattern: string, tags?: string[]): Promise
  * Get Best Sellers (cached for 7 days)
  * Randomly selects 8 games from top sellers
  */
-export const getBestSellers = async (genre?: string): Promise<CachedGame[]> => {
-  const key = genre ? `${CACHE_KEYS.BEST_SELLERS}:${genre}` : CACHE_KEYS.BEST_SELLERS;
+export const getBestSellers = async (
+  genre?: string,
+  pricing: DisplayPricing = BASE_PRICING
+): Promise<CachedGame[]> => {
+  const key = withCurrency(
+    genre ? `${CACHE_KEYS.BEST_SELLERS}:${genre}` : CACHE_KEYS.BEST_SELLERS,
+    pricing
+  );
 
   return getCachedOrFetch(key, CACHE_TTL.BEST_SELLERS, async () => {
     // Get games with most orders in the last 30 days
@@ -263,7 +279,7 @@ export const getBestSellers = async (genre?: string): Promise<CachedGame[]> => {
     const shuffled = games.sort(() => Math.random() - 0.5);
     const selected = shuffled.slice(0, 8);
 
-    return selected.map(mapGameToCache);
+    return selected.map((game) => mapGameToCache(game, pricing));
   });
 };
 
@@ -271,8 +287,12 @@ export const getBestSellers = async (genre?: string): Promise<CachedGame[]> => {
  * Get New in Catalog (cached for 24 hours)
  * Returns 15 newest games
  */
-export const getNewInCatalog = async (): Promise<CachedGame[]> => {
-  return getCachedOrFetch(CACHE_KEYS.NEW_IN_CATALOG, CACHE_TTL.NEW_IN_CATALOG, async () => {
+export const getNewInCatalog = async (
+  pricing: DisplayPricing = BASE_PRICING
+): Promise<CachedGame[]> => {
+  const key = withCurrency(CACHE_KEYS.NEW_IN_CATALOG, pricing);
+
+  return getCachedOrFetch(key, CACHE_TTL.NEW_IN_CATALOG, async () => {
     const games = await prisma.game.findMany({
       where: { inStock: true },
       orderBy: { createdAt: 'desc' },
@@ -302,7 +322,7 @@ export const getNewInCatalog = async (): Promise<CachedGame[]> => {
     });
 
     return games.map((g) => ({
-      ...mapGameToCache(g),
+      ...mapGameToCache(g, pricing),
       isNew: true,
     }));
   });
@@ -311,8 +331,12 @@ export const getNewInCatalog = async (): Promise<CachedGame[]> => {
 /**
  * Get Preorder Games (cached for 1 hour)
  */
-export const getPreorderGames = async (): Promise<CachedGame[]> => {
-  return getCachedOrFetch(CACHE_KEYS.PREORDERS, CACHE_TTL.PREORDER_GAMES, async () => {
+export const getPreorderGames = async (
+  pricing: DisplayPricing = BASE_PRICING
+): Promise<CachedGame[]> => {
+  const key = withCurrency(CACHE_KEYS.PREORDERS, pricing);
+
+  return getCachedOrFetch(key, CACHE_TTL.PREORDER_GAMES, async () => {
     const games = await prisma.game.findMany({
       where: {
         isPreorder: true,
@@ -344,15 +368,19 @@ export const getPreorderGames = async (): Promise<CachedGame[]> => {
       },
     });
 
-    return games.map(mapGameToCache);
+    return games.map((game) => mapGameToCache(game, pricing));
   });
 };
 
 /**
  * Get New Games (released within last 2 weeks)
  */
-export const getNewGames = async (): Promise<CachedGame[]> => {
-  return getCachedOrFetch(CACHE_KEYS.NEW_GAMES, CACHE_TTL.NEW_IN_CATALOG, async () => {
+export const getNewGames = async (
+  pricing: DisplayPricing = BASE_PRICING
+): Promise<CachedGame[]> => {
+  const key = withCurrency(CACHE_KEYS.NEW_GAMES, pricing);
+
+  return getCachedOrFetch(key, CACHE_TTL.NEW_IN_CATALOG, async () => {
     const twoWeeksAgo = new Date();
     twoWeeksAgo.setDate(twoWeeksAgo.getDate() - 14);
 
@@ -389,7 +417,7 @@ export const getNewGames = async (): Promise<CachedGame[]> => {
     });
 
     return games.map((g) => ({
-      ...mapGameToCache(g),
+      ...mapGameToCache(g, pricing),
       isNew: true,
     }));
   });
@@ -398,7 +426,10 @@ export const getNewGames = async (): Promise<CachedGame[]> => {
 /**
  * Get Random Games (refreshes every page load)
  */
-export const getRandomGames = async (count: number = 10): Promise<CachedGame[]> => {
+export const getRandomGames = async (
+  count: number = 10,
+  pricing: DisplayPricing = BASE_PRICING
+): Promise<CachedGame[]> => {
   // Don't cache random games for long - they should refresh
   const games = await prisma.game.findMany({
     where: { inStock: true },
@@ -431,14 +462,18 @@ export const getRandomGames = async (count: number = 10): Promise<CachedGame[]>
   const shuffled = games.sort(() => Math.random() - 0.5);
   const selected = shuffled.slice(0, count);
 
-  return selected.map(mapGameToCache);
+  return selected.map((game) => mapGameToCache(game, pricing));
 };
 
 /**
  * Get Games by Genre (cached for 6 hours)
  */
-export const getGamesByGenre = async (genre: string, count: number = 20): Promise<CachedGame[]> => {
-  const key = `${CACHE_KEYS.GENRE_PREFIX}${genre.toLowerCase()}`;
+export const getGamesByGenre = async (
+  genre: string,
+  count: number = 20,
+  pricing: DisplayPricing = BASE_PRICING
+): Promise<CachedGame[]> => {
+  const key = withCurrency(`${CACHE_KEYS.GENRE_PREFIX}${genre.toLowerCase()}`, pricing);
 
   return getCachedOrFetch(key, CACHE_TTL.GENRE_GAMES, async () => {
     const games = await prisma.game.findMany({
@@ -478,15 +513,18 @@ export const getGamesByGenre = async (genre: string, count: number = 20): Promis
       },
     });
 
-    return games.map(mapGameToCache);
+    return games.map((game) => mapGameToCache(game, pricing));
   });
 };
 
 /**
  * Get Game by slug (cached for 1 hour)
  */
-export const getCachedGame = async (slug: string): Promise<CachedGame | null> => {
-  const key = `${CACHE_KEYS.GAME_PREFIX}${slug}`;
+export const getCachedGame = async (
+  slug: string,
+  pricing: DisplayPricing = BASE_PRICING
+): Promise<CachedGame | null> => {
+  const key = withCurrency(`${CACHE_KEYS.GAME_PREFIX}${slug}`, pricing);
 
   return getCachedOrFetch(key, CACHE_TTL.GAME_DETAILS, async () => {
     const game = await prisma.game.findUnique({
@@ -515,20 +553,24 @@ export const getCachedGame = async (slug: string): Promise<CachedGame | null> =>
       },
     });
 
-    return game ? mapGameToCache(game) : null;
+    return game ? mapGameToCache(game, pricing) : null;
   });
 };
 
 /**
  * Get Filter Options (cached for 1 hour)
  */
-export const getFilterOptions = async (): Promise<{
+export const getFilterOptions = async (
+  pricing: DisplayPricing = BASE_PRICING
+): Promise<{
   platforms: string[];
   genres: string[];
   publishers: string[];
   priceRange: { min: number; max: number };
 }> => {
-  return getCachedOrFetch(CACHE_KEYS.FILTER_OPTIONS, CACHE_TTL.FILTER_OPTIONS, async () => {
+  const key = withCurrency(CACHE_KEYS.FILTER_OPTIONS, pricing);
+
+  return getCachedOrFetch(key, CACHE_TTL.FILTER_OPTIONS, async () => {
     const [platformResults, genreResults, publishers, priceRange] = await Promise.all([
       prisma.platform.findMany({
         where: {
@@ -593,8 +635,8 @@ export const getFilterOptions = async (): Promise<{
       genres: genreResults.map((g) => g.name).filter(Boolean),
       publishers: publishers.map((p) => p.publisher).filter((p): p is string => p !== null),
       priceRange: {
-        min: Number(priceRange._min.price || 0),
-        max: Number(priceRange._max.price || 100),
+        min: toDisplayPrice(Number(priceRange._min.price || 0), pricing),
+        max: toDisplayPrice(Number(priceRange._max.price || 100), pricing),
       },
     };
   });
@@ -613,16 +655,16 @@ export const refreshBestSellers = async (): Promise<void> => {
  * Refresh New in Catalog cache
  */
 export const refreshNewInCatalog = async (): Promise<void> => {
-  await invalidateCache(CACHE_KEYS.NEW_IN_CATALOG);
+  await invalidateCache(`${CACHE_KEYS.NEW_IN_CATALOG}*`);
   await getNewInCatalog();
   console.log('[Cache] New in Catalog cache refreshed');
 };
 
 /**
- * Map Prisma Game to CachedGame
+ * Map Prisma Game to CachedGame, with prices in the display currency
  */
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-function mapGameToCache(game: any): CachedGame {
+function mapGameToCache(game: any, pricing: DisplayPricing): CachedGame {
   const price = typeof game.price === 'object' ? game.price.toNumber() : Number(game.price);
   const originalPrice = game.originalPrice
     ? typeof game.originalPrice === 'object'
@@ -651,8 +693,9 @@ function mapGameToCache(game: any): CachedGame {
     id: game.id,
     title: game.title,
     slug: game.slug,
-    price,
-    originalPrice,
+    price: toDisplayPrice(price, pricing),
+    originalPrice: originalPrice !== undefined ? toDisplayPrice(originalPrice, pricing) : undefined,
+    currency: pricing.currency,
     imageUrl: game.image || game.imageUrl || '',
     platform,
     genre,
@@ -0,0 +1,551 @@
+import { ClaimStatus, Prisma } from '@prisma/client';
+import prisma from '../config/database.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { AdminClaimResponse, ClaimResponse, CreateClaimRequest } from '../types/order.js';
+import { decryptGameKey, maskGameKey } from '../utils/game-key-crypto.js';
+import { claimPoolKeys, syncPoolStock } from './key-pool.service.js';
+import { resolveItemStatus } from './order-fulfillment.service.js';
+import { sendClaimUpdateEmail, sendGameKeyEmail } from './email.service.js';
+
+const CLAIM_TYPES = ['KEY_NOT_WORKING', 'REFUND_REQUEST'];
+const MAX_REASON_LENGTH = 2000;
+// Base64 grows data by a third, so this allows screenshots of about 2 MB
+const MAX_SCREENSHOT_LENGTH = 2.8 * 1024 * 1024;
+const SCREENSHOT_PATTERN = /^data:image\/(png|jpeg|webp);base64,[A-Za-z0-9+/]+=*$/;
+
+const claimInclude = {
+  orderItem: { select: { game: { select: { id: true, title: true } } } },
+  gameKey: { select: { key: true, keyHint: true } },
+  replacementKey: { select: { key: true, keyHint: true } },
+  events: {
+    orderBy: { createdAt: 'asc' },
+    include: { actor: { select: { id: true, email: true, nickname: true } } },
+  },
+} satisfies Prisma.OrderClaimInclude;
+
+type ClaimWithRelations = Prisma.OrderClaimGetPayload<{ include: typeof claimInclude }>;
+
+/**
+ * Format a claim for the customer. Staff identities stay hidden.
+ */
+const formatClaim = (claim: ClaimWithRelations): ClaimResponse => ({
+  id: claim.id,
+  orderId: claim.orderId,
+  orderItemId: claim.orderItemId,
+  game: claim.orderItem.game,
+  type: claim.type,
+  status: claim.status,
+  reason: claim.reason,
+  maskedKey: claim.gameKey ? maskGameKey(claim.gameKey) : undefined,
+  hasScreenshot: Boolean(claim.screenshot),
+  resolutionNote: claim.resolutionNote || undefined,
+  replacementKey: claim.replacementKey ? maskGameKey(claim.replacementKey) : undefined,
+  refundAmount: claim.refundAmount !== null ? Number(claim.refundAmount) : undefined,
+  resolvedAt: claim.resolvedAt?.toISOString(),
+  createdAt: claim.createdAt.toISOString(),
+  events: claim.events.map((event) => ({
+    id: event.id,
+    status: event.status,
+    actorType: event.actorType,
+    note: event.note || undefined,
+    createdAt: event.createdAt.toISOString(),
+  })),
+});
+
+const formatAdminClaim = (
+  claim: ClaimWithRelations & {
+    user: { id: string; email: string; nickname: string | null };
+  },
+  withScreenshot: boolean
+): AdminClaimResponse => ({
+  ...formatClaim(claim),
+  user: {
+    id: claim.user.id,
+    email: claim.user.email,
+    nickname: claim.user.nickname || undefined,
+  },
+  screenshot: withScreenshot ? claim.screenshot || undefined : undefined,
+  events: claim.events.map((event) => ({
+    id: event.id,
+    status: event.status,
+    actorType: event.actorType,
+    note: event.note || undefined,
+    actor: event.actor
+      ? {
+          id: event.actor.id,
+          email: event.actor.email,
+          nickname: event.actor.nickname || undefined,
+        }
+      : undefined,
+    createdAt: event.createdAt.toISOString(),
+  })),
+});
+
+const auditClaim = (operation: string, userId: string | undefined, data: object) => {
+  const auditData = {
+    timestamp: new Date().toISOString(),
+    operation,
+    userId: userId || 'system',
+    data,
+  };
+  console.log(`[Claims] [AUDIT] ${JSON.stringify(auditData, null, 2)}`);
+};
+
+const ordersLink = () => `${process.env.FRONTEND_URL || 'http://localhost:5173'}/profile/orders`;
+
+/**
+ * Email the customer about their claim. A failed email does not undo the step.
+ */
+const notifyCustomer = async (
+  email: string,
+  data: { subject: string; headline: string; message: string }
+) => {
+  try {
+    await sendClaimUpdateEmail(email, { ...data, ordersLink: ordersLink() });
+  } catch (error) {
+    console.error('[Claims] Failed to send claim email:', error);
+  }
+};
+
+/**
+ * Open a claim on an item of one of the customer's orders: a key that does not work
+ * or a request for a refund.
+ */
+export const createClaim = async (
+  userId: string,
+  orderId: string,
+  data: CreateClaimRequest
+): Promise<ClaimResponse> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  if (!CLAIM_TYPES.includes(data.type)) {
+    throw new AppError('Invalid claim type', 400);
+  }
+  const reason = typeof data.reason === 'string' ? data.reason.trim() : '';
+  if (!reason) {
+    throw new AppError('Please describe the problem', 400);
+  }
+  if (reason.length > MAX_REASON_LENGTH) {
+    throw new AppError(`The description can be at most ${MAX_REASON_LENGTH} characters`, 400);
+  }
+  if (data.screenshot) {
+    if (data.screenshot.length > MAX_SCREENSHOT_LENGTH) {
+      throw new AppError('The screenshot can be at most 2 MB', 400);
+    }
+    if (!SCREENSHOT_PATTERN.test(data.screenshot)) {
+      throw new AppError('The screenshot must be a PNG, JPEG or WebP image', 400);
+    }
+  }
+
+  const item = await prisma.orderItem.findFirst({
+    where: { id: data.orderItemId, orderId, order: { userId } },
+    include: {
+      order: {
+        select: { status: true, gift: { select: { id: true } }, user: { select: { email: true } } },
+      },
+      game: { select: { title: true } },
+      keys: { select: { id: true } },
+    },
+  });
+  if (!item) {
+    throw new AppError('Order item not found', 404);
+  }
+  if (item.order.status === 'CANCELLED') {
+    throw new AppError('Order is cancelled', 400);
+  }
+  if (item.order.gift) {
+    throw new AppError('The keys of a gifted order belong to the recipient', 403);
+  }
+  if (item.keys.length === 0) {
+    throw new AppError('No keys have been delivered for this item yet', 400);
+  }
+  if (!data.gameKeyId && item.keys.length > 1) {
+    throw new AppError(
+      data.type === 'KEY_NOT_WORKING'
+        ? 'Please choose the key that does not work'
+        : 'Please choose the key to refund',
+      400
+    );
+  }
+
+  const gameKeyId = data.gameKeyId || (item.keys.length === 1 ? item.keys[0].id : undefined);
+  if (gameKeyId && !item.keys.some((key) => key.id === gameKeyId)) {
+    throw new AppError('Key not found on this order item', 404);
+  }
+
+  // A unit that was refunded or replaced cannot be claimed again
+  const previousClaim = await prisma.orderClaim.findFirst({
+    where: { orderItemId: item.id, status: { in: ['OPEN', 'REFUNDED', 'REPLACED'] } },
+    select: { status: true },
+  });
+  if (previousClaim?.status === 'OPEN') {
+    throw new AppError('There is already an open claim for this item', 409);
+  }
+  if (previousClaim) {
+    throw new AppError('This item was already refunded or replaced through a claim', 409);
+  }
+
+  const claim = await prisma.orderClaim.create({
+    data: {
+      orderId,
+      orderItemId: item.id,
+      userId,
+      gameKeyId: gameKeyId || null,
+      type: data.type,
+      reason,
+      screenshot: data.screenshot || null,
+      events: {
+        create: { status: 'OPEN', actorType: 'CUSTOMER', actorId: userId },
+      },
+    },
+    include: claimInclude,
+  });
+
+  auditClaim('CLAIM_OPENED', userId, {
+    claimId: claim.id,
+    orderId,
+    orderItemId: item.id,
+    type: data.type,
+  });
+
+  await notifyCustomer(item.order.user.email, {
+    subject: `We received your claim for ${item.game.title}`,
+    headline: `We received your claim for ${item.game.title}.`,
+    message: 'Our support team will review it and get back to you by email.',
+  });
+
+  return formatClaim(claim);
+};
+
+/**
+ * All claims of a customer, newest first
+ */
+export const getUserClaims = async (userId: string): Promise<ClaimResponse[]> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  const claims = await prisma.orderClaim.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'desc' },
+    include: claimInclude,
+  });
+
+  return claims.map(formatClaim);
+};
+
+/**
+ * Claims for the admin queue. Screenshots are only loaded with the claim details.
+ */
+export const getClaims = async (
+  filters: { status?: string; orderId?: string; page?: number; limit?: number } = {}
+): Promise<{
+  claims: AdminClaimResponse[];
+  total: number;
+  page: number;
+  totalPages: number;
+}> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  const page = Math.max(1, filters.page || 1);
+  const limit = Math.min(100, Math.max(1, filters.limit || 20));
+  if (filters.status && !Object.values(ClaimStatus).includes(filters.status as ClaimStatus)) {
+    throw new AppError('Invalid claim status', 400);
+  }
+  const where: Prisma.OrderClaimWhereInput = {
+    ...(filters.status && { status: filters.status as ClaimStatus }),
+    ...(filters.orderId && { orderId: filters.orderId }),
+  };
+
+  const [claims, total] = await Promise.all([
+    prisma.orderClaim.findMany({
+      where,
+      orderBy: { createdAt: 'asc' },
+      skip: (page - 1) * limit,
+      take: limit,
+      include: {
+        ...claimInclude,
+        user: { select: { id: true, email: true, nickname: true } },
+      },
+    }),
+    prisma.orderClaim.count({ where }),
+  ]);
+
+  return {
+    claims: claims.map((claim) => formatAdminClaim(claim, false)),
+    total,
+    page,
+    totalPages: Math.ceil(total / limit),
+  };
+};
+
+export const getClaimDetails = async (id: string): Promise<AdminClaimResponse> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  const claim = await prisma.orderClaim.findUnique({
+    where: { id },
+    include: {
+      ...claimInclude,
+      user: { select: { id: true, email: true, nickname: true } },
+    },
+  });
+  if (!claim) {
+    throw new AppError('Claim not found', 404);
+  }
+
+  return formatAdminClaim(claim, true);
+};
+
+const findOpenClaim = async (id: string) => {
+  const claim = await prisma.orderClaim.findUnique({
+    where: { id },
+    include: {
+      user: { select: { email: true } },
+      order: { select: { status: true, subtotal: true, total: true, paymentMethod: true } },
+      orderItem: {
+        select: {
+          price: true,
+          quantity: true,
+          fulfilledQuantity: true,
+          refundedQuantity: true,
+          game: {
+            select: {
+              id: true,
+              title: true,
+              platforms: { select: { platform: { select: { name: true } } } },
+            },
+          },
+        },
+      },
+    },
+  });
+  if (!claim) {
+    throw new AppError('Claim not found', 404);
+  }
+  if (claim.status !== 'OPEN') {
+    throw new AppError('Claim has already been resolved', 400);
+  }
+  return claim;
+};
+
+/**
+ * Close an open claim and record the step. Fails when another admin resolved it first.
+ */
+const closeClaim = async (
+  tx: Prisma.TransactionClient,
+  claimId: string,
+  status: ClaimStatus,
+  actorId: string | undefined,
+  note: string | undefined,
+  data: Prisma.OrderClaimUncheckedUpdateManyInput = {}
+) => {
+  const updated = await tx.orderClaim.updateMany({
+    where: { id: claimId, status: 'OPEN' },
+    data: { ...data, status, resolutionNote: note || null, resolvedAt: new Date() },
+  });
+  if (updated.count === 0) {
+    throw new AppError('Claim was resolved by another request', 409);
+  }
+
+  await tx.orderClaimEvent.create({
+    data: {
+      claimId,
+      status,
+      actorType: 'ADMIN',
+      actorId: actorId || null,
+      note: note || null,
+    },
+  });
+};
+
+/**
+ * Resolve a claim with a new key for the same item from the local key pool
+ */
+export const replaceClaimKey = async (
+  id: string,
+  actorId?: string,
+  note?: string
+): Promise<AdminClaimResponse> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  const claim = await findOpenClaim(id);
+  const game = claim.orderItem.game;
+
+  const replacementKeyId = await prisma.$transaction(async (tx) => {
+    const { keyIds } = await claimPoolKeys(tx, game.id, 1, {
+      orderId: claim.orderId,
+      orderItemId: claim.orderItemId,
+    });
+    if (keyIds.length === 0) {
+      throw new AppError(`No keys for ${game.title} left in the key pool`, 409);
+    }
+
+    await closeClaim(tx, id, 'REPLACED', actorId, note, { replacementKeyId: keyIds[0] });
+    return keyIds[0];
+  });
+
+  auditClaim('CLAIM_KEY_REPLACED', actorId, {
+    claimId: id,
+    orderId: claim.orderId,
+    replacementKeyId,
+  });
+
+  const replacement = await prisma.gameKey.findUniqueOrThrow({ where: { id: replacementKeyId } });
+  try {
+    await sendGameKeyEmail(claim.user.email, {
+      gameTitle: game.title,
+      key: decryptGameKey(replacement),
+      platform: game.platforms[0]?.platform.name || 'PC',
+    });
+  } catch (error) {
+    // The key is in the customer's key library either way
+    console.error(`[Claims] Failed to send replacement key ${replacementKeyId}:`, error);
+  }
+  await notifyCustomer(claim.user.email, {
+    subject: `Your claim for ${game.title} was resolved`,
+    headline: `We replaced your key for ${game.title}.`,
+    message: `The new key was sent in a separate email and is in your key library.${note ? ` ${note}` : ''}`,
+  });
+  await syncPoolStock(game.id);
+
+  return getClaimDetails(id);
+};
+
+/**
+ * Resolve a claim by refunding one unit of the item to the customer's balance. The amount
+ * is the unit's share of the order total and never more than what is left to refund.
+ * The unit counts as refunded instead of delivered and the claimed key is revoked.
+ */
+export const refundClaim = async (
+  id: string,
+  actorId?: string,
+  note?: string
+): Promise<AdminClaimResponse> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  const claim = await findOpenClaim(id);
+  if (claim.order.status === 'CANCELLED') {
+    throw new AppError('Order is already cancelled', 400);
+  }
+  const item = claim.orderItem;
+  if (item.fulfilledQuantity === 0) {
+    throw new AppError('All delivered units of this item have already been refunded', 400);
+  }
+
+  const amount = await prisma.$transaction(async (tx) => {
+    // Only apply while no other delivery or refund touched the item since it was read
+    const updated = await tx.orderItem.updateMany({
+      where: {
+        id: claim.orderItemId,
+        fulfilledQuantity: item.fulfilledQuantity,
+        refundedQuantity: item.refundedQuantity,
+      },
+      data: {
+        fulfilledQuantity: { decrement: 1 },
+        refundedQuantity: { increment: 1 },
+        fulfillmentStatus: resolveItemStatus(
+          {
+            quantity: item.quantity,
+            fulfilledQuantity: item.fulfilledQuantity - 1,
+            refundedQuantity: item.refundedQuantity + 1,
+          },
+          false
+        ),
+      },
+    });
+    if (updated.count === 0) {
+      throw new AppError('Order item was changed by another request. Please try again.', 409);
+    }
+    if (claim.gameKeyId) {
+      await tx.gameKey.update({
+        where: { id: claim.gameKeyId },
+        data: { revokedAt: new Date() },
+      });
+    }
+
+    const subtotal = Number(claim.order.subtotal);
+    const share = subtotal > 0 ? Number(claim.order.total) / subtotal : 0;
+    const refunded = await tx.transaction.aggregate({
+      where: { orderId: claim.orderId, type: 'REFUND', status: { in: ['COMPLETED', 'PENDING'] } },
+      _sum: { amount: true },
+    });
+    const remaining = Number(claim.order.total) - Number(refunded._sum.amount ?? 0);
+    const refundAmount = Math.max(
+      0,
+      Math.min(Number((Number(claim.orderItem.price) * share).toFixed(2)), remaining)
+    );
+    if (refundAmount <= 0) {
+      throw new AppError('Nothing left to refund on this order', 400);
+    }
+
+    await closeClaim(tx, id, 'REFUNDED', actorId, note, { refundAmount });
+
+    await tx.user.update({
+      where: { id: claim.userId },
+      data: { balance: { increment: refundAmount } },
+    });
+    await tx.transaction.create({
+      data: {
+        userId: claim.userId,
+        orderId: claim.orderId,
+        type: 'REFUND',
+        amount: refundAmount,
+        currency: 'EUR',
+        method: claim.order.paymentMethod || 'balance',
+        status: 'COMPLETED',
+        description: `Refund for claim ${id} on order ${claim.orderId}`,
+      },
+    });
+
+    return refundAmount;
+  });
+
+  auditClaim('CLAIM_REFUNDED', actorId, { claimId: id, orderId: claim.orderId, amount });
+
+  await notifyCustomer(claim.user.email, {
+    subject: `Your claim for ${claim.orderItem.game.title} was resolved`,
+    headline: `We refunded €${amount.toFixed(2)} for ${claim.orderItem.game.title} to your balance.`,
+    message: note || 'You can use the balance for your next purchase.',
+  });
+
+  return getClaimDetails(id);
+};
+
+/**
+ * Reject a claim. The customer is told why.
+ */
+export const rejectClaim = async (
+  id: string,
+  actorId: string | undefined,
+  note: string
+): Promise<AdminClaimResponse> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  if (!note?.trim()) {
+    throw new AppError('Please give the customer a reason for the rejection', 400);
+  }
+
+  const claim = await findOpenClaim(id);
+  await prisma.$transaction((tx) => closeClaim(tx, id, 'REJECTED', actorId, note.trim()));
+  auditClaim('CLAIM_REJECTED', actorId, { claimId: id, orderId: claim.orderId });
+
+  await notifyCustomer(claim.user.email, {
+    subject: `Your claim for ${claim.orderItem.game.title} was reviewed`,
+    headline: `We reviewed your claim for ${claim.orderItem.game.title} and could not approve it.`,
+    message: note.trim(),
+  });
+
+  return getClaimDetails(id);
+};
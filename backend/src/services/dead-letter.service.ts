@@ -0,0 +1,367 @@
+import { DeadLetterSource, DeadLetterStatus, Prisma } from '@prisma/client';
+import prisma from '../config/database.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { DeadLetterActionResult, DeadLetterResponse, FulfillmentAttempt } from '../types/order.js';
+import { countAvailablePoolKeys } from './key-pool.service.js';
+import {
+  FulfillmentSupplier,
+  fulfillOrderItem,
+  getOutstandingQuantity,
+  getSupplierClient,
+  recordSupplierOrderIds,
+  refundOrderItem,
+  settleOrderStatus,
+} from './order-fulfillment.service.js';
+
+const DEAD_LETTER_STATUSES: DeadLetterStatus[] = ['OPEN', 'RETRIED', 'REFUNDED'];
+const SUPPLIERS: FulfillmentSupplier[] = ['G2A', 'POOL'];
+
+const deadLetterInclude = {
+  order: {
+    select: {
+      status: true,
+      total: true,
+      userId: true,
+      createdAt: true,
+      user: { select: { email: true } },
+      items: {
+        select: {
+          id: true,
+          gameId: true,
+          quantity: true,
+          fulfilledQuantity: true,
+          refundedQuantity: true,
+          fulfillmentStatus: true,
+          fulfillmentError: true,
+          game: { select: { title: true, g2aProductId: true } },
+        },
+      },
+    },
+  },
+  resolvedBy: { select: { email: true } },
+} satisfies Prisma.FulfillmentDeadLetterInclude;
+
+type DeadLetterWithOrder = Prisma.FulfillmentDeadLetterGetPayload<{
+  include: typeof deadLetterInclude;
+}>;
+
+const deadLetterLogger = {
+  audit: (operation: string, userId: string | undefined, data: object) => {
+    const auditData = {
+      timestamp: new Date().toISOString(),
+      operation,
+      userId: userId || 'system',
+      data,
+    };
+    console.log(`[Dead Letters] [AUDIT] ${JSON.stringify(auditData, null, 2)}`);
+  },
+};
+
+const formatDeadLetter = (
+  letter: DeadLetterWithOrder,
+  poolStock: Map<string, number>
+): DeadLetterResponse => ({
+  id: letter.id,
+  orderId: letter.orderId,
+  source: letter.source,
+  jobId: letter.jobId || undefined,
+  status: letter.status,
+  error: letter.error,
+  attempts: letter.attempts as unknown as FulfillmentAttempt[],
+  payload: letter.payload as Record<string, unknown>,
+  order: {
+    status: letter.order.status,
+    total: Number(letter.order.total),
+    userEmail: letter.order.user.email,
+    createdAt: letter.order.createdAt.toISOString(),
+  },
+  items: letter.order.items.map((item) => ({
+    id: item.id,
+    gameId: item.gameId,
+    title: item.game.title,
+    quantity: item.quantity,
+    outstanding: getOutstandingQuantity(item),
+    fulfillmentStatus: item.fulfillmentStatus,
+    fulfillmentError: item.fulfillmentError || undefined,
+    hasG2AProduct: Boolean(item.game.g2aProductId),
+    poolKeys: poolStock.get(item.gameId) ?? 0,
+  })),
+  resolvedBy: letter.resolvedBy?.email,
+  resolvedAt: letter.resolvedAt?.toISOString(),
+  resolveNote: letter.resolveNote || undefined,
+  createdAt: letter.createdAt.toISOString(),
+  updatedAt: letter.updatedAt.toISOString(),
+});
+
+const formatDeadLetters = async (letters: DeadLetterWithOrder[]): Promise<DeadLetterResponse[]> => {
+  const poolStock = await countAvailablePoolKeys([
+    ...new Set(letters.flatMap((letter) => letter.order.items.map((item) => item.gameId))),
+  ]);
+  return letters.map((letter) => formatDeadLetter(letter, poolStock));
+};
+
+const findOpenDeadLetter = async (id: string): Promise<DeadLetterWithOrder> => {
+  const letter = await prisma.fulfillmentDeadLetter.findUnique({
+    where: { id },
+    include: deadLetterInclude,
+  });
+
+  if (!letter) {
+    throw new AppError('Dead letter not found', 404);
+  }
+
+  if (letter.status !== 'OPEN') {
+    throw new AppError('This failure has already been resolved', 400);
+  }
+
+  return letter;
+};
+
+const invalidateOrderCache = async (orderId: string, userId: string) => {
+  try {
+    const { invalidateCache } = await import('./cache.service.js');
+    await invalidateCache(`order:${orderId}`);
+    await invalidateCache(`user:${userId}:orders`);
+  } catch (cacheError) {
+    console.warn('[Dead Letters] Failed to invalidate cache:', cacheError);
+  }
+};
+
+/**
+ * Keep a failed key delivery for staff. An order has at most one open dead letter: a
+ * later failure of the same order adds its attempts to it.
+ */
+export const recordFulfillmentFailure = async (failure: {
+  orderId: string;
+  source: DeadLetterSource;
+  jobId?: string;
+  payload: object;
+  attempts: Array<{ error: string; failedAt?: Date }>;
+}): Promise<void> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  const open = await prisma.fulfillmentDeadLetter.findFirst({
+    where: { orderId: failure.orderId, status: 'OPEN' },
+  });
+  const previous = (open?.attempts as unknown as FulfillmentAttempt[]) ?? [];
+  const attempts: FulfillmentAttempt[] = [
+    ...previous,
+    ...failure.attempts.map((attempt, index) => ({
+      attempt: previous.length + index + 1,
+      source: failure.source,
+      error: attempt.error,
+      failedAt: attempt.failedAt?.toISOString(),
+    })),
+  ];
+  const data = {
+    source: failure.source,
+    jobId: failure.jobId ?? null,
+    payload: failure.payload as Prisma.InputJsonValue,
+    error: attempts[attempts.length - 1]?.error ?? 'Unknown error',
+    attempts: attempts as unknown as Prisma.InputJsonValue,
+  };
+
+  if (open) {
+    await prisma.fulfillmentDeadLetter.update({ where: { id: open.id }, data });
+  } else {
+    await prisma.fulfillmentDeadLetter.create({ data: { orderId: failure.orderId, ...data } });
+  }
+
+  deadLetterLogger.audit('DEAD_LETTER_RECORDED', undefined, {
+    orderId: failure.orderId,
+    source: failure.source,
+    jobId: failure.jobId,
+    error: data.error,
+    attempts: attempts.length,
+  });
+};
+
+/**
+ * Failed key deliveries, newest first. Open ones by default.
+ */
+export const getDeadLetters = async (filters: {
+  status?: string;
+  page?: number;
+  limit?: number;
+}): Promise<{
+  deadLetters: DeadLetterResponse[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  const status = (filters.status || 'OPEN') as DeadLetterStatus;
+  if (!DEAD_LETTER_STATUSES.includes(status)) {
+    throw new AppError(`Status must be one of ${DEAD_LETTER_STATUSES.join(', ')}`, 400);
+  }
+
+  const page = Math.max(1, filters.page || 1);
+  const limit = Math.min(100, Math.max(1, filters.limit || 20));
+
+  const [letters, total] = await Promise.all([
+    prisma.fulfillmentDeadLetter.findMany({
+      where: { status },
+      orderBy: { createdAt: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit,
+      include: deadLetterInclude,
+    }),
+    prisma.fulfillmentDeadLetter.count({ where: { status } }),
+  ]);
+
+  return {
+    deadLetters: await formatDeadLetters(letters),
+    total,
+    page,
+    limit,
+    totalPages: Math.ceil(total / limit),
+  };
+};
+
+/**
+ * Deliver the open units of a dead-lettered order again, from G2A or from the local key
+ * pool. The dead letter is closed once nothing is left open, otherwise the retry is added
+ * to its attempts.
+ */
+export const retryDeadLetter = async (
+  id: string,
+  actorId?: string,
+  supplier: FulfillmentSupplier = 'G2A'
+): Promise<DeadLetterActionResult> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  if (!SUPPLIERS.includes(supplier)) {
+    throw new AppError(`Supplier must be one of ${SUPPLIERS.join(', ')}`, 400);
+  }
+
+  const letter = await findOpenDeadLetter(id);
+  if (letter.order.status === 'CANCELLED') {
+    throw new AppError('Order is already cancelled', 400);
+  }
+
+  const open = letter.order.items.filter((item) => getOutstandingQuantity(item) > 0);
+  // Items without a G2A product are delivered from the local key pool
+  const needsG2A = supplier === 'G2A' && open.some((item) => item.game.g2aProductId);
+  const client = needsG2A ? await getSupplierClient() : null;
+  if (needsG2A && !client) {
+    throw new AppError('G2A integration is not configured', 503);
+  }
+
+  let delivered = 0;
+  const errors: string[] = [];
+  for (const item of open) {
+    const result = await fulfillOrderItem(item.id, client, { supplier });
+    delivered += result.delivered;
+    if (result.error) {
+      errors.push(`${item.game.title}: ${result.error}`);
+    }
+  }
+
+  await recordSupplierOrderIds(letter.orderId);
+  const orderStatus = await settleOrderStatus(letter.orderId, { actorType: 'ADMIN', actorId });
+
+  const items = await prisma.orderItem.findMany({
+    where: { orderId: letter.orderId },
+    select: { quantity: true, fulfilledQuantity: true, refundedQuantity: true },
+  });
+  const stillOpen = items.some((item) => getOutstandingQuantity(item) > 0);
+  const error = errors.join('; ') || 'Some units are still undelivered';
+
+  const updated = await prisma.fulfillmentDeadLetter.update({
+    where: { id },
+    data: stillOpen
+      ? {
+          error,
+          attempts: [
+            ...(letter.attempts as unknown as FulfillmentAttempt[]),
+            {
+              attempt: (letter.attempts as unknown as FulfillmentAttempt[]).length + 1,
+              source: 'RETRY',
+              supplier,
+              error,
+              failedAt: new Date().toISOString(),
+            },
+          ] as unknown as Prisma.InputJsonValue,
+        }
+      : {
+          status: 'RETRIED',
+          resolvedById: actorId,
+          resolvedAt: new Date(),
+          resolveNote: `Delivered on retry from ${supplier === 'POOL' ? 'the key pool' : 'G2A'}`,
+        },
+    include: deadLetterInclude,
+  });
+
+  deadLetterLogger.audit('DEAD_LETTER_RETRY', actorId, {
+    deadLetterId: id,
+    orderId: letter.orderId,
+    supplier,
+    delivered,
+    resolved: !stillOpen,
+    error: stillOpen ? error : undefined,
+  });
+
+  await invalidateOrderCache(letter.orderId, letter.order.userId);
+  const [deadLetter] = await formatDeadLetters([updated]);
+  return { deadLetter, orderStatus, delivered, refundedUnits: 0, refundedAmount: 0 };
+};
+
+/**
+ * Refund the open units of a dead-lettered order to the customer's balance and close it.
+ * Orders cancelled in the meantime were refunded then, so the dead letter is just closed.
+ */
+export const refundDeadLetter = async (
+  id: string,
+  actorId?: string,
+  reason?: string
+): Promise<DeadLetterActionResult> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  const letter = await findOpenDeadLetter(id);
+  const note = reason?.trim() || undefined;
+
+  let refundedUnits = 0;
+  let refundedAmount = 0;
+  let orderStatus: string = letter.order.status;
+  if (letter.order.status !== 'CANCELLED') {
+    for (const item of letter.order.items.filter((item) => getOutstandingQuantity(item) > 0)) {
+      const refund = await refundOrderItem(item.id, note ?? 'key delivery failed');
+      refundedUnits += refund.units;
+      refundedAmount = Number((refundedAmount + refund.amount).toFixed(2));
+    }
+    orderStatus = await settleOrderStatus(letter.orderId, { actorType: 'ADMIN', actorId });
+  }
+
+  const updated = await prisma.fulfillmentDeadLetter.update({
+    where: { id },
+    data: {
+      status: 'REFUNDED',
+      resolvedById: actorId,
+      resolvedAt: new Date(),
+      resolveNote: note ?? `Refunded ${refundedUnits} undelivered unit(s)`,
+    },
+    include: deadLetterInclude,
+  });
+
+  deadLetterLogger.audit('DEAD_LETTER_REFUND', actorId, {
+    deadLetterId: id,
+    orderId: letter.orderId,
+    refundedUnits,
+    refundedAmount,
+    reason: note,
+  });
+
+  await invalidateOrderCache(letter.orderId, letter.order.userId);
+  const [deadLetter] = await formatDeadLetters([updated]);
+  return { deadLetter, orderStatus, delivered: 0, refundedUnits, refundedAmount };
+};
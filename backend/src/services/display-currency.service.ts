@@ -0,0 +1,104 @@
+import { DisplayCurrencyOptions, DisplayPricing } from '../types/exchange-rate.js';
+import { convertCurrency } from './exchange-rate.service.js';
+
+// Prices are stored and settled in EUR, the balance currency
+const BASE_CURRENCY = 'EUR';
+const DEFAULT_DISPLAY_CURRENCIES = 'EUR,PLN,GBP,USD';
+
+export const BASE_PRICING: DisplayPricing = { currency: BASE_CURRENCY, rate: 1 };
+
+// Region of a browser language first (en-GB), then the language alone (pl)
+const REGION_CURRENCIES: Record<string, string> = { PL: 'PLN', GB: 'GBP', UK: 'GBP', US: 'USD' };
+const LANGUAGE_CURRENCIES: Record<string, string> = { pl: 'PLN' };
+
+/**
+ * Currencies customers can show prices in, from DISPLAY_CURRENCIES. EUR is always offered.
+ */
+export const getDisplayCurrencies = (): string[] => {
+  const configured = (process.env.DISPLAY_CURRENCIES || DEFAULT_DISPLAY_CURRENCIES)
+    .split(',')
+    .map((currency) => currency.trim().toUpperCase())
+    .filter((currency) => /^[A-Z]{3}$/.test(currency));
+  return Array.from(new Set([BASE_CURRENCY, ...configured]));
+};
+
+export const isDisplayCurrency = (currency: string): boolean =>
+  getDisplayCurrencies().includes(currency);
+
+/**
+ * Currency of the first language in an Accept-Language header that maps to an offered currency
+ */
+export const detectDisplayCurrency = (acceptLanguage?: string): string => {
+  const currencies = getDisplayCurrencies();
+  const languages = (acceptLanguage || '')
+    .split(',')
+    .map((part) => part.split(';')[0].trim())
+    .filter(Boolean);
+
+  for (const language of languages) {
+    const [code, region] = language.split('-');
+    const currency =
+      (region && REGION_CURRENCIES[region.toUpperCase()]) ||
+      LANGUAGE_CURRENCIES[code.toLowerCase()];
+    if (currency && currencies.includes(currency)) {
+      return currency;
+    }
+  }
+
+  return BASE_CURRENCY;
+};
+
+/**
+ * The requested currency when it is offered, otherwise the one detected from the language
+ */
+export const resolveDisplayCurrency = (requested?: string, acceptLanguage?: string): string => {
+  const currency = requested?.trim().toUpperCase();
+  return currency && isDisplayCurrency(currency) ? currency : detectDisplayCurrency(acceptLanguage);
+};
+
+export const getDisplayCurrencyOptions = (acceptLanguage?: string): DisplayCurrencyOptions => ({
+  currencies: getDisplayCurrencies(),
+  detected: detectDisplayCurrency(acceptLanguage),
+});
+
+/**
+ * Current rate of a display currency. Prices fall back to EUR while its rate is missing or
+ * stale, so the storefront keeps working; checkout settles in EUR either way.
+ */
+export const getDisplayPricing = async (currency: string): Promise<DisplayPricing> => {
+  if (currency === BASE_CURRENCY) {
+    return BASE_PRICING;
+  }
+
+  try {
+    const { rate } = await convertCurrency(1, BASE_CURRENCY, currency);
+    return { currency, rate };
+  } catch (error) {
+    console.warn(
+      `[Display Currency] Showing EUR prices, no current ${currency} rate:`,
+      error instanceof Error ? error.message : error
+    );
+    return BASE_PRICING;
+  }
+};
+
+const getMinorUnits = (currency: string): number =>
+  new Intl.NumberFormat('en', { style: 'currency', currency }).resolvedOptions()
+    .maximumFractionDigits ?? 2;
+
+/**
+ * Convert an EUR price, rounded half up to the minor unit of the currency (2 decimals for
+ * PLN, 0 for JPY). The product is rounded to 15 significant digits first, so 1.005 rounds
+ * to 1.01 rather than to 1.00.
+ */
+export const toDisplayPrice = (amount: number, pricing: DisplayPricing): number => {
+  const factor = 10 ** getMinorUnits(pricing.currency);
+  const scaled = Number((amount * pricing.rate * factor).toPrecision(15));
+  return Math.round(scaled) / factor;
+};
+
+/**
+ * Convert a display-currency amount back to EUR, for price filters
+ */
+export const fromDisplayPrice = (amount: number, pricing: DisplayPricing): number =>
+  pricing.rate === 1 ? amount : Number((amount / pricing.rate).toFixed(2));
@@ -42,9 +42,23 @@ const TEMPLATE_METADATA: Record<string, Omit<EmailTemplate, 'content'>> = {
     name: 'Password Reset',
     filename: 'password-reset.html',
     description: 'Email sent when user requests password reset',
-    variables: ['newPassword'],
+    variables: ['resetLink', 'expiresInMinutes'],
     subject: 'Password Reset Request',
   },
+  'account-locked': {
+    name: 'Account Locked',
+    filename: 'account-locked.html',
+    description: 'Email sent when an account is locked after too many failed logins',
+    variables: ['lockoutMinutes', 'resetLink'],
+    subject: 'Your GKEYS account has been temporarily locked',
+  },
+  'account-deletion-scheduled': {
+    name: 'Account Deletion Scheduled',
+    filename: 'account-deletion-scheduled.html',
+    description: 'Email sent when a customer requests deletion of their account',
+    variables: ['deletionDate', 'profileLink'],
+    subject: 'Your GKEYS account is scheduled for deletion',
+  },
   'email-verification': {
     name: 'Email Verification',
     filename: 'email-verification.html',
@@ -52,6 +66,20 @@ const TEMPLATE_METADATA: Record<string, Omit<EmailTemplate, 'content'>> = {
     variables: ['verificationCode'],
     subject: 'Verify your GKEYS email address',
   },
+  'email-change-code': {
+    name: 'Email Change Code',
+    filename: 'email-change-code.html',
+    description: 'Confirmation code sent to the new address when a user changes their email',
+    variables: ['verificationCode', 'newEmail', 'expiresInMinutes'],
+    subject: 'Confirm your new GKEYS email address',
+  },
+  'email-change-notice': {
+    name: 'Email Change Notice',
+    filename: 'email-change-notice.html',
+    description: 'Notice sent to the current address when an email change is requested',
+    variables: ['newEmail', 'resetLink'],
+    subject: 'Email change requested for your GKEYS account',
+  },
 };
 
 export const getEmailTemplates = async (): Promise<(EmailTemplate & { content: string })[]> => {
@@ -4,6 +4,7 @@ import path from 'path';
 import { fileURLToPath } from 'url';
 import { dirname } from 'path';
 import { getActiveEmailSettings } from './email-settings.service.js';
+import { InvoiceDocument } from '../types/invoice.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -52,6 +53,15 @@ const getFromEmail = async (): Promise<string> => {
   return EMAIL_FROM;
 };
 
+// Customer-provided text is escaped before it goes into a template
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
 // Load email templates
 const loadTemplate = async (
   templateName: string,
@@ -123,9 +133,18 @@ export const sendRegistrationEmail = async (
   });
 };
 
+const invoiceAttachments = (invoice?: InvoiceDocument) =>
+  invoice ? [{ filename: invoice.filename, content: invoice.pdf, contentType: 'application/pdf' }] : undefined;
+
 export const sendBalanceTopUpEmail = async (
   email: string,
-  data: { amount: number; currency: string; balance: number; paymentMethod?: string }
+  data: {
+    amount: number;
+    currency: string;
+    balance: number;
+    paymentMethod?: string;
+    invoice?: InvoiceDocument;
+  }
 ): Promise<void> => {
   const html = await loadTemplate('balance-topup', {
     amount: data.amount.toString(),
@@ -143,6 +162,37 @@ export const sendBalanceTopUpEmail = async (
     to: email,
     subject: 'Balance Top-up Successful',
     html,
+    attachments: invoiceAttachments(data.invoice),
+  });
+};
+
+export const sendOrderCompletedEmail = async (
+  email: string,
+  data: {
+    orderNumber: string;
+    total: number;
+    currency: string;
+    ordersLink: string;
+    invoice: InvoiceDocument;
+  }
+): Promise<void> => {
+  const html = await loadTemplate('order-completed', {
+    orderNumber: data.orderNumber,
+    total: data.total.toFixed(2),
+    currency: data.currency,
+    invoiceNumber: data.invoice.number,
+    ordersLink: data.ordersLink,
+  });
+
+  const transporter = await createTransporter();
+  const fromEmail = await getFromEmail();
+
+  await transporter.sendMail({
+    from: fromEmail,
+    to: email,
+    subject: `Order #${data.orderNumber} completed`,
+    html,
+    attachments: invoiceAttachments(data.invoice),
   });
 };
 
@@ -169,10 +219,11 @@ export const sendGameKeyEmail = async (
 
 export const sendPasswordResetEmail = async (
   email: string,
-  data: { newPassword: string }
+  data: { resetLink: string; expiresInMinutes: number }
 ): Promise<void> => {
   const html = await loadTemplate('password-reset', {
-    newPassword: data.newPassword,
+    resetLink: data.resetLink,
+    expiresInMinutes: data.expiresInMinutes.toString(),
   });
 
   const transporter = await createTransporter();
@@ -186,6 +237,46 @@ export const sendPasswordResetEmail = async (
   });
 };
 
+export const sendAccountLockedEmail = async (
+  email: string,
+  data: { lockoutMinutes: number; resetLink: string }
+): Promise<void> => {
+  const html = await loadTemplate('account-locked', {
+    lockoutMinutes: data.lockoutMinutes.toString(),
+    resetLink: data.resetLink,
+  });
+
+  const transporter = await createTransporter();
+  const fromEmail = await getFromEmail();
+
+  await transporter.sendMail({
+    from: fromEmail,
+    to: email,
+    subject: 'Your GKEYS account has been temporarily locked',
+    html,
+  });
+};
+
+export const sendAccountDeletionScheduledEmail = async (
+  email: string,
+  data: { deletionDate: string; profileLink: string }
+): Promise<void> => {
+  const html = await loadTemplate('account-deletion-scheduled', {
+    deletionDate: data.deletionDate,
+    profileLink: data.profileLink,
+  });
+
+  const transporter = await createTransporter();
+  const fromEmail = await getFromEmail();
+
+  await transporter.sendMail({
+    from: fromEmail,
+    to: email,
+    subject: 'Your GKEYS account is scheduled for deletion',
+    html,
+  });
+};
+
 export const sendEmailVerificationEmail = async (
   email: string,
   data: { verificationCode: string }
@@ -205,6 +296,123 @@ export const sendEmailVerificationEmail = async (
   });
 };
 
+export const sendEmailChangeCodeEmail = async (
+  email: string,
+  data: { verificationCode: string; newEmail: string; expiresInMinutes: number }
+): Promise<void> => {
+  const html = await loadTemplate('email-change-code', {
+    verificationCode: data.verificationCode,
+    newEmail: data.newEmail,
+    expiresInMinutes: String(data.expiresInMinutes),
+  });
+
+  const transporter = await createTransporter();
+  const fromEmail = await getFromEmail();
+
+  await transporter.sendMail({
+    from: fromEmail,
+    to: email,
+    subject: 'Confirm your new GKEYS email address',
+    html,
+  });
+};
+
+export const sendEmailChangeNoticeEmail = async (
+  email: string,
+  data: { newEmail: string; resetLink: string }
+): Promise<void> => {
+  const html = await loadTemplate('email-change-notice', {
+    newEmail: data.newEmail,
+    resetLink: data.resetLink,
+  });
+
+  const transporter = await createTransporter();
+  const fromEmail = await getFromEmail();
+
+  await transporter.sendMail({
+    from: fromEmail,
+    to: email,
+    subject: 'Email change requested for your GKEYS account',
+    html,
+  });
+};
+
+export const sendClaimUpdateEmail = async (
+  email: string,
+  data: { subject: string; headline: string; message: string; ordersLink: string }
+): Promise<void> => {
+  const html = await loadTemplate('claim-update', {
+    headline: data.headline,
+    message: data.message,
+    ordersLink: data.ordersLink,
+  });
+
+  const transporter = await createTransporter();
+  const fromEmail = await getFromEmail();
+
+  await transporter.sendMail({
+    from: fromEmail,
+    to: email,
+    subject: data.subject,
+    html,
+  });
+};
+
+export const sendPreorderUpdateEmail = async (
+  email: string,
+  data: { subject: string; headline: string; message: string; ordersLink: string }
+): Promise<void> => {
+  const html = await loadTemplate('preorder-update', {
+    headline: data.headline,
+    message: data.message,
+    ordersLink: data.ordersLink,
+  });
+
+  const transporter = await createTransporter();
+  const fromEmail = await getFromEmail();
+
+  await transporter.sendMail({
+    from: fromEmail,
+    to: email,
+    subject: data.subject,
+    html,
+  });
+};
+
+export const sendGiftEmail = async (
+  email: string,
+  data: {
+    senderName: string;
+    message?: string;
+    games: Array<{ title: string; quantity: number }>;
+    claimLink: string;
+  }
+): Promise<void> => {
+  const html = await loadTemplate('gift', {
+    senderName: escapeHtml(data.senderName),
+    gameList: data.games
+      .map(
+        (game) =>
+          `<li>${escapeHtml(game.title)}${game.quantity > 1 ? ` &times; ${game.quantity}` : ''}</li>`
+      )
+      .join(''),
+    personalMessage: data.message
+      ? `<div class="gift-message">${escapeHtml(data.message)}</div>`
+      : '',
+    claimLink: data.claimLink,
+  });
+
+  const transporter = await createTransporter();
+  const fromEmail = await getFromEmail();
+
+  await transporter.sendMail({
+    from: fromEmail,
+    to: email,
+    subject: `${data.senderName} sent you a gift`,
+    html,
+  });
+};
+
 export const sendTestEmail = async (
   templateName: string,
   email: string,
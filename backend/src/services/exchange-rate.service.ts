@@ -0,0 +1,437 @@
+import { readFile, stat } from 'fs/promises';
+import path from 'path';
+import { Prisma } from '@prisma/client';
+import prisma from '../config/database.js';
+import { AppError } from '../middleware/errorHandler.js';
+import {
+  CurrencyConversion,
+  CurrentExchangeRate,
+  ExchangeRateOverview,
+  ExchangeRateRefreshResult,
+  ExchangeRateResponse,
+} from '../types/exchange-rate.js';
+
+// Every rate is stored against EUR, the currency balances are kept in
+const BASE_CURRENCY = 'EUR';
+const SETTINGS_NAME = 'default';
+const DEFAULT_MAX_RATE_AGE_HOURS = 48;
+const MAX_RATE_AGE_LIMIT_HOURS = 24 * 365;
+const HISTORY_LIMIT = 50;
+
+/**
+ * Rates of a provider as units of each currency per 1 EUR, with the time they were published
+ */
+export interface ProviderRates {
+  rates: Record<string, number>;
+  asOf: Date;
+}
+
+/**
+ * Source of current rates
+ */
+export interface ExchangeRateProvider {
+  name: string;
+  fetchRates: () => Promise<ProviderRates>;
+}
+
+/**
+ * Reads rates from a JSON file, either `{ "asOf": "2026-02-02", "rates": { "PLN": 4.27 } }`
+ * or `{ "PLN": 4.27 }`. Without `asOf` the rates date from the last change of the file.
+ * Useful for development, tests and shops that take rates from their bank by hand.
+ */
+const fileRateProvider: ExchangeRateProvider = {
+  name: 'file',
+  fetchRates: async () => {
+    const file = path.resolve(process.env.EXCHANGE_RATES_FILE || 'exchange-rates.json');
+    let content: string;
+    let modifiedAt: Date;
+    try {
+      content = await readFile(file, 'utf8');
+      modifiedAt = (await stat(file)).mtime;
+    } catch {
+      throw new AppError(`Exchange rate file ${file} could not be read`, 503);
+    }
+
+    let parsed;
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      throw new AppError(`Exchange rate file ${file} is not valid JSON`, 503);
+    }
+
+    if (!parsed.rates) {
+      return { rates: parsed, asOf: modifiedAt };
+    }
+    const asOf = parsed.asOf ? new Date(parsed.asOf) : modifiedAt;
+    if (Number.isNaN(asOf.getTime())) {
+      throw new AppError(`Exchange rate file ${file} has an invalid asOf date`, 503);
+    }
+    return { rates: parsed.rates, asOf };
+  },
+};
+
+const providers = new Map<string, ExchangeRateProvider>([
+  [fileRateProvider.name, fileRateProvider],
+]);
+
+/**
+ * Make a rate provider available to EXCHANGE_RATE_PROVIDER
+ */
+export const registerExchangeRateProvider = (provider: ExchangeRateProvider): void => {
+  providers.set(provider.name, provider);
+};
+
+const getProviderName = () => process.env.EXCHANGE_RATE_PROVIDER || fileRateProvider.name;
+
+const exchangeRateInclude = {
+  createdBy: { select: { email: true } },
+} satisfies Prisma.ExchangeRateInclude;
+
+type ExchangeRateWithActor = Prisma.ExchangeRateGetPayload<{ include: typeof exchangeRateInclude }>;
+
+const exchangeRateLogger = {
+  audit: (operation: string, userId: string | undefined, data: object) => {
+    const auditData = {
+      timestamp: new Date().toISOString(),
+      operation,
+      userId: userId || 'system',
+      data,
+    };
+    console.log(`[Exchange Rates] [AUDIT] ${JSON.stringify(auditData, null, 2)}`);
+  },
+};
+
+/**
+ * Drop cached storefront prices converted with the previous rates
+ */
+const invalidatePriceCache = async (currencies: string[]) => {
+  try {
+    const { invalidateCache } = await import('./cache.service.js');
+    await Promise.all(currencies.map((currency) => invalidateCache(`*:${currency}`)));
+  } catch (cacheError) {
+    console.warn('[Exchange Rates] Failed to invalidate cache:', cacheError);
+  }
+};
+
+const formatExchangeRate = (rate: ExchangeRateWithActor): ExchangeRateResponse => ({
+  id: rate.id,
+  currency: rate.currency,
+  rate: Number(rate.rate),
+  source: rate.source,
+  provider: rate.provider || undefined,
+  note: rate.note || undefined,
+  createdBy: rate.createdBy?.email,
+  effectiveAt: rate.effectiveAt.toISOString(),
+  createdAt: rate.createdAt.toISOString(),
+});
+
+const normalizeCurrency = (currency: string): string => {
+  const code = String(currency || '')
+    .trim()
+    .toUpperCase();
+  if (!/^[A-Z]{3}$/.test(code)) {
+    throw new AppError(`Invalid currency code: ${currency}`, 400);
+  }
+  return code;
+};
+
+const isRate = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+const getMaxRateAgeHours = async (): Promise<number> => {
+  const settings = await prisma.exchangeRateSettings.findUnique({ where: { name: SETTINGS_NAME } });
+  return settings?.maxRateAgeHours ?? DEFAULT_MAX_RATE_AGE_HOURS;
+};
+
+const ageInHours = (effectiveAt: Date, now: Date) =>
+  Math.max(0, (now.getTime() - effectiveAt.getTime()) / (60 * 60 * 1000));
+
+/**
+ * Units of a currency per 1 EUR, from its newest stored rate. Refused when there is no
+ * rate or it is older than the maximum rate age.
+ */
+const getCurrentRate = async (currency: string, maxAgeHours: number): Promise<number> => {
+  if (currency === BASE_CURRENCY) {
+    return 1;
+  }
+
+  const latest = await prisma.exchangeRate.findFirst({
+    where: { currency },
+    orderBy: { createdAt: 'desc' },
+  });
+  if (!latest) {
+    throw new AppError(`No exchange rate for ${currency} is available`, 503);
+  }
+  if (ageInHours(latest.effectiveAt, new Date()) > maxAgeHours) {
+    throw new AppError(
+      `The exchange rate for ${currency} is older than ${maxAgeHours} hour(s). Conversions are refused until it is updated`,
+      503
+    );
+  }
+
+  return Number(latest.rate);
+};
+
+/**
+ * Convert an amount with the newest stored rates. The result carries the rate used, so it
+ * can be recorded with the money it moved.
+ */
+export const convertCurrency = async (
+  amount: number,
+  from: string,
+  to: string
+): Promise<CurrencyConversion> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  const fromCurrency = normalizeCurrency(from);
+  const toCurrency = normalizeCurrency(to);
+  if (fromCurrency === toCurrency) {
+    return {
+      amount,
+      currency: toCurrency,
+      originalAmount: amount,
+      originalCurrency: fromCurrency,
+      rate: 1,
+    };
+  }
+
+  const maxAgeHours = await getMaxRateAgeHours();
+  const fromRate = await getCurrentRate(fromCurrency, maxAgeHours);
+  const toRate = await getCurrentRate(toCurrency, maxAgeHours);
+  const rate = Number((toRate / fromRate).toFixed(8));
+
+  return {
+    amount: Number((amount * (toRate / fromRate)).toFixed(2)),
+    currency: toCurrency,
+    originalAmount: amount,
+    originalCurrency: fromCurrency,
+    rate,
+  };
+};
+
+/**
+ * Newest rate of every currency with its age, and the settings, for the admin page
+ */
+export const getExchangeRateOverview = async (): Promise<ExchangeRateOverview> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  const [latest, maxRateAgeHours] = await Promise.all([
+    prisma.exchangeRate.findMany({
+      distinct: ['currency'],
+      orderBy: [{ currency: 'asc' }, { createdAt: 'desc' }],
+      include: exchangeRateInclude,
+    }),
+    getMaxRateAgeHours(),
+  ]);
+
+  const now = new Date();
+  const rates: CurrentExchangeRate[] = latest.map((rate) => {
+    const ageHours = ageInHours(rate.effectiveAt, now);
+    return {
+      ...formatExchangeRate(rate),
+      ageHours: Number(ageHours.toFixed(1)),
+      stale: ageHours > maxRateAgeHours,
+    };
+  });
+
+  return { baseCurrency: BASE_CURRENCY, maxRateAgeHours, provider: getProviderName(), rates };
+};
+
+/**
+ * Stored rates of one currency, newest first
+ */
+export const getExchangeRateHistory = async (
+  currency: string,
+  limit = HISTORY_LIMIT
+): Promise<ExchangeRateResponse[]> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  const rates = await prisma.exchangeRate.findMany({
+    where: { currency: normalizeCurrency(currency) },
+    orderBy: { createdAt: 'desc' },
+    take: Math.min(HISTORY_LIMIT, Math.max(1, limit)),
+    include: exchangeRateInclude,
+  });
+
+  return rates.map(formatExchangeRate);
+};
+
+/**
+ * Store rates from the configured provider. Rates that are not positive numbers are
+ * skipped and reported, so one bad entry does not block the others. A currency whose newest
+ * stored rate is not older than the provider's data is left alone, so refreshing unchanged
+ * data does not make it look current, and a later manual override stays in force.
+ */
+export const refreshExchangeRates = async (
+  actorId?: string
+): Promise<ExchangeRateRefreshResult> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  const providerName = getProviderName();
+  const provider = providers.get(providerName);
+  if (!provider) {
+    throw new AppError(`Unknown exchange rate provider: ${providerName}`, 500);
+  }
+
+  const fetched = await provider.fetchRates();
+  const rates: Array<{ currency: string; rate: number }> = [];
+  const skipped: string[] = [];
+  for (const [currency, rate] of Object.entries(fetched?.rates || {})) {
+    const code = currency.trim().toUpperCase();
+    if (code === BASE_CURRENCY) {
+      continue;
+    }
+    if (!/^[A-Z]{3}$/.test(code) || !isRate(rate)) {
+      skipped.push(currency);
+      continue;
+    }
+    rates.push({ currency: code, rate });
+  }
+
+  if (rates.length === 0) {
+    throw new AppError(`The ${provider.name} provider returned no usable exchange rates`, 502);
+  }
+
+  const latest = await prisma.exchangeRate.findMany({
+    where: { currency: { in: rates.map((rate) => rate.currency) } },
+    distinct: ['currency'],
+    orderBy: [{ currency: 'asc' }, { createdAt: 'desc' }],
+  });
+  const latestEffectiveAt = new Map(latest.map((rate) => [rate.currency, rate.effectiveAt]));
+  const changed = rates.filter(({ currency }) => {
+    const stored = latestEffectiveAt.get(currency);
+    return !stored || stored < fetched.asOf;
+  });
+  const unchanged = rates.filter((rate) => !changed.includes(rate)).map((rate) => rate.currency);
+
+  if (changed.length > 0) {
+    await prisma.exchangeRate.createMany({
+      data: changed.map(({ currency, rate }) => ({
+        currency,
+        rate,
+        source: 'PROVIDER' as const,
+        provider: provider.name,
+        effectiveAt: fetched.asOf,
+        createdById: actorId,
+      })),
+    });
+
+    await invalidatePriceCache(changed.map((rate) => rate.currency));
+  }
+
+  exchangeRateLogger.audit('EXCHANGE_RATES_REFRESHED', actorId, {
+    provider: provider.name,
+    asOf: fetched.asOf.toISOString(),
+    rates: changed,
+    unchanged,
+    skipped,
+  });
+
+  return {
+    provider: provider.name,
+    updated: changed.map((rate) => rate.currency),
+    unchanged,
+  };
+};
+
+/**
+ * Override the rate of a currency by hand. It is used until a newer rate is stored.
+ */
+export const setExchangeRate = async (
+  data: { currency: string; rate: number; note?: string },
+  actorId?: string
+): Promise<ExchangeRateResponse> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  const currency = normalizeCurrency(data.currency);
+  if (currency === BASE_CURRENCY) {
+    throw new AppError(`${BASE_CURRENCY} is the base currency and always has a rate of 1`, 400);
+  }
+
+  const rate = Number(data.rate);
+  if (!isRate(rate)) {
+    throw new AppError('Rate must be a number greater than 0', 400);
+  }
+
+  const stored = await prisma.exchangeRate.create({
+    data: {
+      currency,
+      rate,
+      source: 'MANUAL',
+      note: data.note?.trim() || null,
+      createdById: actorId,
+    },
+    include: exchangeRateInclude,
+  });
+
+  await invalidatePriceCache([currency]);
+
+  exchangeRateLogger.audit('EXCHANGE_RATE_SET', actorId, { currency, rate, note: stored.note });
+
+  return formatExchangeRate(stored);
+};
+
+/**
+ * Change how old a rate may be before conversions with it are refused
+ */
+export const updateExchangeRateSettings = async (
+  data: { maxRateAgeHours?: number },
+  actorId?: string
+): Promise<ExchangeRateOverview> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  const { maxRateAgeHours } = data;
+  if (
+    typeof maxRateAgeHours !== 'number' ||
+    !Number.isInteger(maxRateAgeHours) ||
+    maxRateAgeHours < 1 ||
+    maxRateAgeHours > MAX_RATE_AGE_LIMIT_HOURS
+  ) {
+    throw new AppError(
+      `Maximum rate age must be a whole number of hours from 1 to ${MAX_RATE_AGE_LIMIT_HOURS}`,
+      400
+    );
+  }
+
+  const previous = await getMaxRateAgeHours();
+  await prisma.exchangeRateSettings.upsert({
+    where: { name: SETTINGS_NAME },
+    create: { name: SETTINGS_NAME, maxRateAgeHours },
+    update: { maxRateAgeHours },
+  });
+
+  exchangeRateLogger.audit('EXCHANGE_RATE_SETTINGS_UPDATED', actorId, {
+    maxRateAgeHours: { from: previous, to: maxRateAgeHours },
+  });
+
+  return getExchangeRateOverview();
+};
+
+/**
+ * Transaction fields that record a conversion. Empty when nothing was converted.
+ */
+export const toTransactionConversion = (
+  conversion: CurrencyConversion
+): Pick<
+  Prisma.TransactionUncheckedCreateInput,
+  'originalAmount' | 'originalCurrency' | 'exchangeRate'
+> =>
+  conversion.originalCurrency === conversion.currency
+    ? {}
+    : {
+        originalAmount: conversion.originalAmount,
+        originalCurrency: conversion.originalCurrency,
+        exchangeRate: conversion.rate,
+      };
@@ -4,6 +4,8 @@ import redisClient from '../config/redis.js';
 import { AppError } from '../middleware/errorHandler.js';
 import { G2AWebhookEvent, IdempotencyRecord } from '../types/g2a.js';
 import { getG2AConfigSync } from '../config/g2a.js';
+import { canTransition, transitionOrderStatus } from './order-status.service.js';
+import { sendOrderInvoice } from './invoice.service.js';
 
 const CLOCK_SKEW_TOLERANCE_MS = 5 * 60 * 1000; // 5 minutes
 const IDEMPOTENCY_TTL_SECONDS = 24 * 60 * 60; // 24 hours
@@ -251,14 +253,26 @@ const handleOrderStatusWebhook = async (
     };
 
     const mappedStatus = orderStatusMap[status.toLowerCase()];
-    if (mappedStatus) {
-      await prisma.order.update({
-        where: { id: order.id },
-        data: { status: mappedStatus },
+    if (mappedStatus && mappedStatus !== order.status) {
+      // Late or replayed notifications must not move an order backwards
+      if (!canTransition(order.status, mappedStatus)) {
+        console.warn(
+          `[Webhook] Ignoring status ${mappedStatus} for order ${order.id} in status ${order.status}`
+        );
+        return;
+      }
+
+      await transitionOrderStatus(order.id, mappedStatus, {
+        actorType: 'WEBHOOK',
+        reason: `G2A notification: ${status}`,
       });
 
       console.log(`Order ${order.id} status updated to ${mappedStatus} via webhook`);
 
+      if (mappedStatus === 'COMPLETED') {
+        await sendOrderInvoice(order.id);
+      }
+
       // Invalidate cache after order status update
       try {
         const { invalidateCache } = await import('./cache.service.js');
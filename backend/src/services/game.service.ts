@@ -1,7 +1,9 @@
 import prisma from '../config/database.js';
 import redisClient from '../config/redis.js';
 import { GameFilters, PaginatedResponse, GameResponse } from '../types/game.js';
+import { DisplayPricing } from '../types/exchange-rate.js';
 import { Prisma } from '@prisma/client';
+import { BASE_PRICING, fromDisplayPrice, toDisplayPrice } from './display-currency.service.js';
 
 const DEFAULT_PAGE_SIZE = 36;
 // const CATALOG_PAGE_SIZE = 36; // Reserved for future use
@@ -18,9 +20,9 @@ const isNewGame = (releaseDate: Date): boolean => {
   return new Date(releaseDate) >= twoWeeksAgo;
 };
 
-// Transform Prisma Game to GameResponse
+// Transform Prisma Game to GameResponse, with prices in the display currency
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-const transformGame = (game: any): GameResponse => {
+const transformGame = (game: any, pricing: DisplayPricing = BASE_PRICING): GameResponse => {
   const isNew = isNewGame(game.releaseDate);
 
   // Apply random discount (5-10%) except for New games
@@ -39,10 +41,10 @@ const transformGame = (game: any): GameResponse => {
       slug: game.slug,
       description: game.description,
       shortDescription: game.shortDescription,
-      price: Number(newPrice.toFixed(2)),
-      originalPrice: Number(originalPrice.toFixed(2)),
+      price: toDisplayPrice(newPrice, pricing),
+      originalPrice: toDisplayPrice(Number(originalPrice), pricing),
       discount,
-      currency: game.currency,
+      currency: pricing.currency,
       image: game.image,
       images: game.images,
       inStock: game.inStock,
@@ -74,10 +76,10 @@ const transformGame = (game: any): GameResponse => {
     slug: game.slug,
     description: game.description,
     shortDescription: game.shortDescription,
-    price: Number(game.price),
-    originalPrice: originalPrice ? Number(originalPrice) : undefined,
+    price: toDisplayPrice(Number(game.price), pricing),
+    originalPrice: originalPrice ? toDisplayPrice(Number(originalPrice), pricing) : undefined,
     discount: discount || undefined,
-    currency: game.currency,
+    currency: pricing.currency,
     image: game.image,
     images: game.images,
     inStock: game.inStock,
@@ -103,7 +105,10 @@ const transformGame = (game: any): GameResponse => {
   };
 };
 
-export const getGames = async (filters?: GameFilters): Promise<PaginatedResponse<GameResponse>> => {
+export const getGames = async (
+  filters?: GameFilters,
+  pricing: DisplayPricing = BASE_PRICING
+): Promise<PaginatedResponse<GameResponse>> => {
   const page = filters?.page || 1;
   const pageSize = filters?.pageSize || DEFAULT_PAGE_SIZE;
   const skip = (page - 1) * pageSize;
@@ -124,11 +129,14 @@ export const getGames = async (filters?: GameFilters): Promise<PaginatedResponse
     where.isPreorder = false;
   }
 
+  // Price filters are in the display currency; prices are stored in EUR
+  const toBasePrice = (amount: number) => fromDisplayPrice(amount, pricing);
+
   // Price range filter
   if (filters?.priceRange) {
     where.price = {
-      gte: filters.priceRange.min,
-      lte: filters.priceRange.max,
+      gte: toBasePrice(filters.priceRange.min),
+      lte: toBasePrice(filters.priceRange.max),
     };
   }
 
@@ -136,19 +144,19 @@ export const getGames = async (filters?: GameFilters): Promise<PaginatedResponse
   if (filters?.pricePreset) {
     switch (filters.pricePreset) {
       case 'under-10':
-        where.price = { lt: 10 };
+        where.price = { lt: toBasePrice(10) };
         break;
       case '10-25':
-        where.price = { gte: 10, lt: 25 };
+        where.price = { gte: toBasePrice(10), lt: toBasePrice(25) };
         break;
       case '25-50':
-        where.price = { gte: 25, lt: 50 };
+        where.price = { gte: toBasePrice(25), lt: toBasePrice(50) };
         break;
       case '50-100':
-        where.price = { gte: 50, lt: 100 };
+        where.price = { gte: toBasePrice(50), lt: toBasePrice(100) };
         break;
       case 'over-100':
-        where.price = { gte: 100 };
+        where.price = { gte: toBasePrice(100) };
         break;
     }
   }
@@ -249,7 +257,7 @@ export const getGames = async (filters?: GameFilters): Promise<PaginatedResponse
   const totalPages = Math.ceil(total / pageSize);
 
   return {
-    data: games.map(transformGame),
+    data: games.map((game) => transformGame(game, pricing)),
     total,
     page,
     pageSize,
@@ -257,7 +265,10 @@ export const getGames = async (filters?: GameFilters): Promise<PaginatedResponse
   };
 };
 
-export const getGameById = async (id: string): Promise<GameResponse | null> => {
+export const getGameById = async (
+  id: string,
+  pricing: DisplayPricing = BASE_PRICING
+): Promise<GameResponse | null> => {
   const game = await prisma.game.findUnique({
     where: { id },
     include: {
@@ -286,10 +297,13 @@ export const getGameById = async (id: string): Promise<GameResponse | null> => {
 
   if (!game) return null;
 
-  return transformGame(game);
+  return transformGame(game, pricing);
 };
 
-export const getGameBySlug = async (slug: string): Promise<GameResponse | null> => {
+export const getGameBySlug = async (
+  slug: string,
+  pricing: DisplayPricing = BASE_PRICING
+): Promise<GameResponse | null> => {
   const game = await prisma.game.findUnique({
     where: { slug },
     include: {
@@ -318,11 +332,14 @@ export const getGameBySlug = async (slug: string): Promise<GameResponse | null>
 
   if (!game) return null;
 
-  return transformGame(game);
+  return transformGame(game, pricing);
 };
 
-export const getBestSellers = async (genre?: string): Promise<GameResponse[]> => {
-  const cacheKey = `best-sellers:weekly:${genre || 'all'}`;
+export const getBestSellers = async (
+  genre?: string,
+  pricing: DisplayPricing = BASE_PRICING
+): Promise<GameResponse[]> => {
+  const cacheKey = `best-sellers:weekly:${genre || 'all'}:${pricing.currency}`;
 
   // Try to get from cache
   try {
@@ -381,7 +398,7 @@ export const getBestSellers = async (genre?: string): Promise<GameResponse[]> =>
 
   // Shuffle and take 30 random
   const shuffled = games.sort(() => 0.5 - Math.random());
-  const result = shuffled.slice(0, 30).map(transformGame);
+  const result = shuffled.slice(0, 30).map((game) => transformGame(game, pricing));
 
   // Cache for 7 days
   try {
@@ -393,8 +410,10 @@ export const getBestSellers = async (genre?: string): Promise<GameResponse[]> =>
   return result;
 };
 
-export const getNewInCatalog = async (): Promise<GameResponse[]> => {
-  const cacheKey = 'new-in-catalog:daily';
+export const getNewInCatalog = async (
+  pricing: DisplayPricing = BASE_PRICING
+): Promise<GameResponse[]> => {
+  const cacheKey = `new-in-catalog:daily:${pricing.currency}`;
 
   // Try to get from cache
   try {
@@ -444,7 +463,7 @@ export const getNewInCatalog = async (): Promise<GameResponse[]> => {
 
   // Shuffle and take 40 random
   const shuffled = games.sort(() => 0.5 - Math.random());
-  const result = shuffled.slice(0, 40).map(transformGame);
+  const result = shuffled.slice(0, 40).map((game) => transformGame(game, pricing));
 
   // Cache for 24 hours
   try {
@@ -456,7 +475,9 @@ export const getNewInCatalog = async (): Promise<GameResponse[]> => {
   return result;
 };
 
-export const getPreorders = async (): Promise<GameResponse[]> => {
+export const getPreorders = async (
+  pricing: DisplayPricing = BASE_PRICING
+): Promise<GameResponse[]> => {
   const games = await prisma.game.findMany({
     where: {
       isPreorder: true,
@@ -490,10 +511,12 @@ export const getPreorders = async (): Promise<GameResponse[]> => {
     },
   });
 
-  return games.map(transformGame);
+  return games.map((game) => transformGame(game, pricing));
 };
 
-export const getNewGames = async (): Promise<GameResponse[]> => {
+export const getNewGames = async (
+  pricing: DisplayPricing = BASE_PRICING
+): Promise<GameResponse[]> => {
   const twoWeeksAgo = new Date();
   twoWeeksAgo.setDate(twoWeeksAgo.getDate() - 14);
 
@@ -531,10 +554,13 @@ export const getNewGames = async (): Promise<GameResponse[]> => {
     },
   });
 
-  return games.map(transformGame);
+  return games.map((game) => transformGame(game, pricing));
 };
 
-export const getGamesByGenre = async (genreSlug: string): Promise<GameResponse[]> => {
+export const getGamesByGenre = async (
+  genreSlug: string,
+  pricing: DisplayPricing = BASE_PRICING
+): Promise<GameResponse[]> => {
   // Try to find by slug first, then by name (case-insensitive)
   const games = await prisma.game.findMany({
     where: {
@@ -597,10 +623,13 @@ export const getGamesByGenre = async (genreSlug: string): Promise<GameResponse[]
     return getBestSellers();
   }
 
-  return games.map(transformGame);
+  return games.map((game) => transformGame(game, pricing));
 };
 
-export const getRandomGames = async (count: number = 10): Promise<GameResponse[]> => {
+export const getRandomGames = async (
+  count: number = 10,
+  pricing: DisplayPricing = BASE_PRICING
+): Promise<GameResponse[]> => {
   // Get total count
   const total = await prisma.game.count({
     where: { inStock: true },
@@ -644,12 +673,13 @@ export const getRandomGames = async (count: number = 10): Promise<GameResponse[]
 
   // Shuffle results
   const shuffled = games.sort(() => 0.5 - Math.random());
-  return shuffled.map(transformGame);
+  return shuffled.map((game) => transformGame(game, pricing));
 };
 
 export const getSimilarGames = async (
   gameId: string,
-  count: number = 10
+  count: number = 10,
+  pricing: DisplayPricing = BASE_PRICING
 ): Promise<GameResponse[]> => {
   const game = await prisma.game.findUnique({
     where: { id: gameId },
@@ -742,12 +772,15 @@ export const getSimilarGames = async (
     .filter((item) => item.score >= 2)
     .sort((a, b) => b.score - a.score)
     .slice(0, count)
-    .map((item) => transformGame(item.game));
+    .map((item) => transformGame(item.game, pricing));
 
   return scored;
 };
 
-export const searchGames = async (query: string): Promise<GameResponse[]> => {
+export const searchGames = async (
+  query: string,
+  pricing: DisplayPricing = BASE_PRICING
+): Promise<GameResponse[]> => {
   const games = await prisma.game.findMany({
     where: {
       OR: [
@@ -782,7 +815,7 @@ export const searchGames = async (query: string): Promise<GameResponse[]> => {
     },
   });
 
-  return games.map(transformGame);
+  return games.map((game) => transformGame(game, pricing));
 };
 
 export const getAllGenres = async (): Promise<Array<{ name: string; slug: string }>> => {
@@ -840,7 +873,9 @@ export const getFilterOptions = async () => {
   };
 };
 
-export const getCollections = async (): Promise<
+export const getCollections = async (
+  pricing: DisplayPricing = BASE_PRICING
+): Promise<
   Array<{
     id: string;
     title: string;
@@ -887,7 +922,7 @@ export const getCollections = async (): Promise<
 
   // Create genre collections
   for (const genre of topGenres) {
-    const genreGames = await getGamesByGenre(genre.slug);
+    const genreGames = await getGamesByGenre(genre.slug, pricing);
     if (genreGames.length > 0) {
       collections.push({
         id: `genre-${genre.slug}`,
@@ -940,7 +975,7 @@ export const getCollections = async (): Promise<
         title: publisher,
         type: 'publisher' as const,
         value: publisher,
-        games: publisherGames.map(transformGame).slice(0, 40),
+        games: publisherGames.map((game) => transformGame(game, pricing)).slice(0, 40),
       });
     }
   }
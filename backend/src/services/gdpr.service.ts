@@ -0,0 +1,410 @@
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import prisma from '../config/database.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { comparePassword, hashPassword } from '../utils/bcrypt.js';
+import { decryptGameKey } from '../utils/game-key-crypto.js';
+import { ownedKeysWhere } from './key-library.service.js';
+import { DataExportResponse, AccountDeletionResponse } from '../types/user.js';
+
+// Download links for personal data archives stay valid for a day
+const DATA_EXPORT_TTL_HOURS = 24;
+// Minimum time between two archive requests of the same user
+const DATA_EXPORT_COOLDOWN_MINUTES = 5;
+const DELETION_GRACE_DAYS = parseInt(process.env.ACCOUNT_DELETION_GRACE_DAYS || '14', 10);
+
+const hashExportToken = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+/**
+ * Collect everything we store about a user into a machine-readable archive.
+ * Keys are listed without their values, which are only decrypted when the archive is downloaded.
+ */
+export const buildUserDataArchive = async (userId: string) => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    include: {
+      orders: {
+        orderBy: { createdAt: 'desc' },
+        include: {
+          items: { include: { game: { select: { title: true } } } },
+        },
+      },
+      transactions: { orderBy: { createdAt: 'desc' } },
+      wishlist: {
+        orderBy: { addedAt: 'desc' },
+        include: { game: { select: { title: true, slug: true } } },
+      },
+      loginHistory: { orderBy: { createdAt: 'desc' } },
+      emailCodes: { orderBy: { createdAt: 'desc' } },
+      gameKeyReveals: {
+        orderBy: { createdAt: 'desc' },
+        include: { gameKey: { select: { gameId: true, game: { select: { title: true } } } } },
+      },
+    },
+  });
+
+  if (!user) {
+    throw new AppError('User not found', 404);
+  }
+
+  // The same keys the key library shows: gifted keys belong to the recipient
+  const keys = await prisma.gameKey.findMany({
+    where: ownedKeysWhere(userId),
+    orderBy: { createdAt: 'desc' },
+    select: {
+      id: true,
+      orderId: true,
+      gameId: true,
+      activated: true,
+      activationDate: true,
+      game: { select: { title: true } },
+    },
+  });
+
+  return {
+    exportedAt: new Date().toISOString(),
+    profile: {
+      id: user.id,
+      email: user.email,
+      nickname: user.nickname,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      avatar: user.avatar,
+      balance: Number(user.balance),
+      emailVerified: user.emailVerified,
+      twoFactorEnabled: user.twoFactorEnabled,
+      createdAt: user.createdAt.toISOString(),
+      updatedAt: user.updatedAt.toISOString(),
+    },
+    orders: user.orders.map((order) => ({
+      id: order.id,
+      status: order.status,
+      subtotal: Number(order.subtotal),
+      discount: Number(order.discount),
+      total: Number(order.total),
+      paymentMethod: order.paymentMethod,
+      paymentStatus: order.paymentStatus,
+      promoCode: order.promoCode,
+      createdAt: order.createdAt.toISOString(),
+      completedAt: order.completedAt?.toISOString() ?? null,
+      items: order.items.map((item) => ({
+        gameId: item.gameId,
+        title: item.game.title,
+        quantity: item.quantity,
+        price: Number(item.price),
+        discount: Number(item.discount),
+      })),
+    })),
+    keys: keys.map((key) => ({
+      keyId: key.id,
+      orderId: key.orderId,
+      gameId: key.gameId,
+      title: key.game.title,
+      activated: key.activated,
+      activationDate: key.activationDate?.toISOString() ?? null,
+    })),
+    transactions: user.transactions.map((transaction) => ({
+      id: transaction.id,
+      orderId: transaction.orderId,
+      type: transaction.type,
+      amount: Number(transaction.amount),
+      currency: transaction.currency,
+      method: transaction.method,
+      status: transaction.status,
+      description: transaction.description,
+      createdAt: transaction.createdAt.toISOString(),
+    })),
+    wishlist: user.wishlist.map((entry) => ({
+      gameId: entry.gameId,
+      title: entry.game.title,
+      slug: entry.game.slug,
+      addedAt: entry.addedAt.toISOString(),
+    })),
+    loginHistory: user.loginHistory.map((entry) => ({
+      ipAddress: entry.ipAddress,
+      userAgent: entry.userAgent,
+      success: entry.success,
+      createdAt: entry.createdAt.toISOString(),
+    })),
+    // The codes themselves are only stored as hashes
+    emailCodes: user.emailCodes.map((code) => ({
+      purpose: code.purpose,
+      email: code.email,
+      createdAt: code.createdAt.toISOString(),
+      expiresAt: code.expiresAt.toISOString(),
+      usedAt: code.usedAt?.toISOString() ?? null,
+    })),
+    keyReveals: user.gameKeyReveals.map((reveal) => ({
+      gameId: reveal.gameKey.gameId,
+      title: reveal.gameKey.game.title,
+      ipAddress: reveal.ipAddress,
+      userAgent: reveal.userAgent,
+      createdAt: reveal.createdAt.toISOString(),
+    })),
+  };
+};
+
+type UserDataArchive = Awaited<ReturnType<typeof buildUserDataArchive>>;
+
+/**
+ * Add the key values to a stored archive. Keys the user no longer owns, e.g. refunded
+ * since the export was made, come back without a value.
+ */
+const addKeyValues = async (userId: string, archive: UserDataArchive) => {
+  const keys = await prisma.gameKey.findMany({
+    where: { id: { in: archive.keys.map((key) => key.keyId) }, ...ownedKeysWhere(userId) },
+  });
+  const values = new Map(keys.map((key) => [key.id, decryptGameKey(key)]));
+
+  return {
+    ...archive,
+    keys: archive.keys.map((key) => ({ ...key, key: values.get(key.keyId) ?? null })),
+  };
+};
+
+/**
+ * Build a fresh archive and return a download link for it.
+ * The raw token only appears in the link; the database keeps its hash.
+ */
+export const createDataExport = async (userId: string): Promise<DataExportResponse> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  const recent = await prisma.dataExport.findFirst({
+    where: {
+      userId,
+      createdAt: { gt: new Date(Date.now() - DATA_EXPORT_COOLDOWN_MINUTES * 60 * 1000) },
+    },
+    select: { id: true },
+  });
+  if (recent) {
+    throw new AppError(
+      `A data export was requested recently. Please wait ${DATA_EXPORT_COOLDOWN_MINUTES} minutes before requesting another.`,
+      429
+    );
+  }
+
+  const archive = await buildUserDataArchive(userId);
+  const token = crypto.randomBytes(32).toString('hex');
+  const expiresAt = new Date(Date.now() + DATA_EXPORT_TTL_HOURS * 60 * 60 * 1000);
+
+  await prisma.$transaction([
+    // Only the latest archive stays downloadable
+    prisma.dataExport.deleteMany({ where: { userId } }),
+    prisma.dataExport.create({
+      data: {
+        userId,
+        tokenHash: hashExportToken(token),
+        data: archive as Prisma.InputJsonValue,
+        expiresAt,
+      },
+    }),
+  ]);
+
+  return {
+    downloadPath: `/api/user/data-export/${token}`,
+    expiresAt: expiresAt.toISOString(),
+  };
+};
+
+/**
+ * Look up an archive by the token from its download link and fill in the key values
+ */
+export const getDataExport = async (
+  token: string
+): Promise<{ fileName: string; data: Awaited<ReturnType<typeof addKeyValues>> }> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  const dataExport = await prisma.dataExport.findUnique({
+    where: { tokenHash: hashExportToken(token) },
+  });
+
+  if (!dataExport || dataExport.expiresAt < new Date()) {
+    throw new AppError('Download link is invalid or has expired', 404);
+  }
+
+  const date = dataExport.createdAt.toISOString().slice(0, 10);
+  const archive = dataExport.data as unknown as UserDataArchive;
+  return {
+    fileName: `gkeys-data-export-${date}.json`,
+    data: await addKeyValues(dataExport.userId, archive),
+  };
+};
+
+/**
+ * Schedule the account for deletion after the grace period.
+ * The user can still sign in and cancel until then.
+ */
+export const requestAccountDeletion = async (
+  userId: string,
+  password: string
+): Promise<AccountDeletionResponse> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, email: true, role: true, passwordHash: true, deletionScheduledFor: true },
+  });
+
+  if (!user) {
+    throw new AppError('User not found', 404);
+  }
+
+  if (user.role !== 'USER') {
+    throw new AppError('Staff accounts must be removed by an administrator', 400);
+  }
+
+  if (!password || !(await comparePassword(password, user.passwordHash))) {
+    throw new AppError('Current password is incorrect', 401);
+  }
+
+  if (user.deletionScheduledFor) {
+    return { deletionScheduledFor: user.deletionScheduledFor.toISOString() };
+  }
+
+  const deletionScheduledFor = new Date(Date.now() + DELETION_GRACE_DAYS * 24 * 60 * 60 * 1000);
+  await prisma.user.update({
+    where: { id: userId },
+    data: { deletionScheduledFor },
+  });
+
+  try {
+    const { sendAccountDeletionScheduledEmail } = await import('./email.service.js');
+    const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
+    await sendAccountDeletionScheduledEmail(user.email, {
+      deletionDate: deletionScheduledFor.toUTCString(),
+      profileLink: `${frontendUrl}/profile/edit`,
+    });
+  } catch (error) {
+    // Non-blocking - the deletion is scheduled either way
+    console.error('Failed to send account deletion email:', error);
+  }
+
+  return { deletionScheduledFor: deletionScheduledFor.toISOString() };
+};
+
+export const cancelAccountDeletion = async (userId: string): Promise<void> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { deletionScheduledFor: null },
+  });
+};
+
+/**
+ * Erase personal data while keeping the order and payment records we must retain.
+ * The user row stays as an anonymous owner of those records and can no longer sign in.
+ */
+export const anonymiseUser = async (userId: string): Promise<void> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { id: true } });
+  if (!user) {
+    throw new AppError('User not found', 404);
+  }
+
+  // Random password nobody knows
+  const passwordHash = await hashPassword(crypto.randomBytes(32).toString('hex'));
+
+  await prisma.$transaction([
+    prisma.cartItem.deleteMany({ where: { userId } }),
+    prisma.wishlist.deleteMany({ where: { userId } }),
+    prisma.loginHistory.deleteMany({ where: { userId } }),
+    prisma.userSession.deleteMany({ where: { userId } }),
+    prisma.passwordResetToken.deleteMany({ where: { userId } }),
+    prisma.emailVerificationCode.deleteMany({ where: { userId } }),
+    // The reveal log stays as an audit trail of the keys, without the network details
+    prisma.gameKeyReveal.updateMany({
+      where: { userId },
+      data: { ipAddress: null, userAgent: null },
+    }),
+    prisma.dataExport.deleteMany({ where: { userId } }),
+    // Gifts the user sent or received keep their order link but not who they were for
+    prisma.orderGift.updateMany({
+      where: { OR: [{ order: { userId } }, { recipientId: userId }] },
+      data: {
+        recipientEmail: `deleted-${userId}@deleted.invalid`,
+        senderName: 'Deleted user',
+        message: null,
+      },
+    }),
+    // Gateway payloads can carry payer details
+    prisma.transaction.updateMany({
+      where: { userId },
+      data: { gatewayResponse: Prisma.DbNull },
+    }),
+    prisma.user.update({
+      where: { id: userId },
+      data: {
+        email: `deleted-${userId}@deleted.invalid`,
+        passwordHash,
+        nickname: 'Deleted user',
+        firstName: null,
+        lastName: null,
+        avatar: null,
+        emailVerified: false,
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorLastStep: null,
+        twoFactorRecoveryCodes: [],
+        lockedUntil: null,
+        role: 'USER',
+        adminRoleId: null,
+        deletionScheduledFor: null,
+        deletedAt: new Date(),
+      },
+    }),
+  ]);
+
+  try {
+    const { invalidateCache } = await import('./cache.service.js');
+    await invalidateCache(`user:${userId}:*`);
+  } catch (cacheError) {
+    console.warn('[GDPR] Failed to invalidate cache:', cacheError);
+  }
+};
+
+/**
+ * Anonymise accounts whose grace period is over and drop expired archives
+ */
+export const processScheduledDeletions = async (): Promise<{ anonymised: number; failed: number }> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  const due = await prisma.user.findMany({
+    where: { deletionScheduledFor: { lte: new Date() }, deletedAt: null },
+    select: { id: true },
+  });
+
+  let anonymised = 0;
+  let failed = 0;
+  for (const { id } of due) {
+    try {
+      await anonymiseUser(id);
+      anonymised++;
+    } catch (error) {
+      failed++;
+      console.error(`[GDPR] Failed to anonymise user ${id}:`, error);
+    }
+  }
+
+  await prisma.dataExport.deleteMany({ where: { expiresAt: { lt: new Date() } } });
+
+  return { anonymised, failed };
+};
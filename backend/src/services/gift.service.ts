@@ -0,0 +1,262 @@
+import { OrderGift } from '@prisma/client';
+import crypto from 'crypto';
+import prisma from '../config/database.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { GiftPreviewResponse, GiftRequest, OrderGiftResponse } from '../types/order.js';
+import { sendGiftEmail } from './email.service.js';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MAX_SENDER_NAME_LENGTH = 50;
+const MAX_MESSAGE_LENGTH = 500;
+// Gifts can be scheduled up to a year ahead
+const MAX_DELIVERY_DELAY_DAYS = 365;
+const DELIVERY_BATCH_SIZE = 50;
+
+export interface GiftDeliveryRunResult {
+  sent: number;
+  failed: number;
+}
+
+/**
+ * Hash a claim link token before storing or looking it up, so the stored value cannot be
+ * used to redeem the gift.
+ */
+const hashGiftToken = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+const giftLogger = {
+  audit: (operation: string, userId: string | undefined, data: object) => {
+    const auditData = {
+      timestamp: new Date().toISOString(),
+      operation,
+      userId: userId || 'system',
+      data,
+    };
+    console.log(`[Gifts] [AUDIT] ${JSON.stringify(auditData, null, 2)}`);
+  },
+};
+
+/**
+ * Check the gift options of a checkout and normalise them for storage
+ */
+export const validateGiftRequest = (
+  gift: GiftRequest,
+  buyerEmail: string
+): Pick<OrderGift, 'recipientEmail' | 'senderName' | 'message' | 'deliverAt'> => {
+  const recipientEmail =
+    typeof gift.recipientEmail === 'string' ? gift.recipientEmail.toLowerCase().trim() : '';
+  if (!EMAIL_PATTERN.test(recipientEmail)) {
+    throw new AppError('Please enter a valid recipient email', 400);
+  }
+  if (recipientEmail === buyerEmail.toLowerCase()) {
+    throw new AppError('You cannot send a gift to yourself', 400);
+  }
+
+  const senderName = typeof gift.senderName === 'string' ? gift.senderName.trim() : '';
+  if (!senderName) {
+    throw new AppError('Please enter your name for the gift', 400);
+  }
+  if (senderName.length > MAX_SENDER_NAME_LENGTH) {
+    throw new AppError(`The name can be at most ${MAX_SENDER_NAME_LENGTH} characters`, 400);
+  }
+
+  const message = typeof gift.message === 'string' ? gift.message.trim() : '';
+  if (message.length > MAX_MESSAGE_LENGTH) {
+    throw new AppError(`The message can be at most ${MAX_MESSAGE_LENGTH} characters`, 400);
+  }
+
+  const now = new Date();
+  let deliverAt = now;
+  if (gift.deliverAt) {
+    deliverAt = new Date(gift.deliverAt);
+    if (Number.isNaN(deliverAt.getTime())) {
+      throw new AppError('Invalid delivery date', 400);
+    }
+    if (deliverAt.getTime() > now.getTime() + MAX_DELIVERY_DELAY_DAYS * 24 * 60 * 60 * 1000) {
+      throw new AppError(
+        `Gifts can be scheduled at most ${MAX_DELIVERY_DELAY_DAYS} days ahead`,
+        400
+      );
+    }
+    // A date in the past means "as soon as possible"
+    if (deliverAt < now) {
+      deliverAt = now;
+    }
+  }
+
+  return { recipientEmail, senderName, message: message || null, deliverAt };
+};
+
+/**
+ * Gift status for the buyer. The claim link itself is never shown.
+ */
+export const formatOrderGift = (gift: OrderGift): OrderGiftResponse => ({
+  recipientEmail: gift.recipientEmail,
+  senderName: gift.senderName,
+  message: gift.message || undefined,
+  deliverAt: gift.deliverAt.toISOString(),
+  sentAt: gift.sentAt?.toISOString(),
+  openedAt: gift.openedAt?.toISOString(),
+  redeemedAt: gift.redeemedAt?.toISOString(),
+});
+
+/**
+ * Email the gifts that are due and whose orders have been fully delivered. Each gift gets
+ * a fresh claim link; gifts of orders that did not complete wait for a retry or refund.
+ */
+export const processDueGifts = async (): Promise<GiftDeliveryRunResult> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  const gifts = await prisma.orderGift.findMany({
+    where: {
+      sentAt: null,
+      deliverAt: { lte: new Date() },
+      order: { status: 'COMPLETED' },
+    },
+    orderBy: { deliverAt: 'asc' },
+    take: DELIVERY_BATCH_SIZE,
+    include: {
+      order: {
+        select: {
+          userId: true,
+          items: {
+            select: { quantity: true, game: { select: { title: true } } },
+          },
+        },
+      },
+    },
+  });
+
+  const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
+  let sent = 0;
+  let failed = 0;
+
+  for (const gift of gifts) {
+    const token = crypto.randomBytes(32).toString('hex');
+
+    // Claim the gift first so a parallel run cannot email it twice
+    const claimed = await prisma.orderGift.updateMany({
+      where: { id: gift.id, sentAt: null },
+      data: { sentAt: new Date(), tokenHash: hashGiftToken(token) },
+    });
+    if (claimed.count === 0) {
+      continue;
+    }
+
+    try {
+      await sendGiftEmail(gift.recipientEmail, {
+        senderName: gift.senderName,
+        message: gift.message || undefined,
+        games: gift.order.items.map((item) => ({
+          title: item.game.title,
+          quantity: item.quantity,
+        })),
+        claimLink: `${frontendUrl}/gift/${token}`,
+      });
+      sent++;
+      giftLogger.audit('GIFT_SENT', gift.order.userId, {
+        giftId: gift.id,
+        orderId: gift.orderId,
+      });
+    } catch (error) {
+      failed++;
+      console.error(`[Gifts] Failed to send gift ${gift.id}:`, error);
+      // Put it back in the queue for the next run
+      await prisma.orderGift.update({
+        where: { id: gift.id },
+        data: { sentAt: null, tokenHash: null },
+      });
+    }
+  }
+
+  return { sent, failed };
+};
+
+const findGiftByToken = async (token: string) => {
+  const gift = await prisma.orderGift.findUnique({
+    where: { tokenHash: hashGiftToken(token) },
+    include: {
+      order: {
+        select: {
+          userId: true,
+          status: true,
+          items: {
+            select: {
+              quantity: true,
+              game: { select: { id: true, title: true, image: true, slug: true } },
+            },
+          },
+        },
+      },
+    },
+  });
+  if (!gift || gift.order.status === 'CANCELLED') {
+    throw new AppError('Gift not found', 404);
+  }
+  return gift;
+};
+
+const formatGiftPreview = (
+  gift: Awaited<ReturnType<typeof findGiftByToken>>,
+  userId?: string
+): GiftPreviewResponse => ({
+  senderName: gift.senderName,
+  message: gift.message || undefined,
+  games: gift.order.items.map((item) => ({ ...item.game, quantity: item.quantity })),
+  redeemed: Boolean(gift.redeemedAt),
+  redeemedByYou: Boolean(userId && gift.recipientId === userId),
+});
+
+/**
+ * Show a gift behind a claim link. The first view marks the gift as opened for the buyer.
+ */
+export const getGiftByToken = async (
+  token: string,
+  userId?: string
+): Promise<GiftPreviewResponse> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  const gift = await findGiftByToken(token);
+  if (!gift.openedAt) {
+    await prisma.orderGift.updateMany({
+      where: { id: gift.id, openedAt: null },
+      data: { openedAt: new Date() },
+    });
+  }
+
+  return formatGiftPreview(gift, userId);
+};
+
+/**
+ * Move the keys of a gift into the user's key library. A gift can be redeemed once.
+ */
+export const redeemGift = async (token: string, userId: string): Promise<GiftPreviewResponse> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  const gift = await findGiftByToken(token);
+  if (gift.order.userId === userId) {
+    throw new AppError('You cannot redeem a gift you sent', 400);
+  }
+  if (gift.recipientId === userId) {
+    return formatGiftPreview(gift, userId);
+  }
+
+  const now = new Date();
+  const redeemed = await prisma.orderGift.updateMany({
+    where: { id: gift.id, redeemedAt: null },
+    data: { recipientId: userId, redeemedAt: now, openedAt: gift.openedAt ?? now },
+  });
+  if (redeemed.count === 0) {
+    throw new AppError('This gift has already been redeemed', 409);
+  }
+
+  giftLogger.audit('GIFT_REDEEMED', userId, { giftId: gift.id, orderId: gift.orderId });
+
+  return formatGiftPreview({ ...gift, recipientId: userId, redeemedAt: now }, userId);
+};
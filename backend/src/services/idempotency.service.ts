@@ -0,0 +1,144 @@
+import { Prisma } from '@prisma/client';
+import crypto from 'crypto';
+import prisma from '../config/database.js';
+import { AppError } from '../middleware/errorHandler.js';
+
+// Retries are answered from the stored response for a day
+const KEY_TTL_MS = 24 * 60 * 60 * 1000;
+// A request still running after this long was cut off, e.g. by a restart, and may be retried
+const ABANDONED_AFTER_MS = 5 * 60 * 1000;
+const MAX_KEY_LENGTH = 255;
+
+export interface IdempotentRequest {
+  // Record that stores the response of a request that claimed its key
+  recordId?: string;
+  // Stored response of an earlier request with the same key
+  replay?: { statusCode: number; response: unknown };
+}
+
+/**
+ * JSON with object keys in a fixed order, so the same payload always gives the same fingerprint
+ */
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+export const fingerprintRequest = (body: unknown): string =>
+  crypto
+    .createHash('sha256')
+    .update(stableStringify(body ?? {}))
+    .digest('hex');
+
+/**
+ * Claim an Idempotency-Key for a request, or return the stored response of an earlier request
+ * with the same key. A key reused with a different payload is rejected.
+ */
+export const beginIdempotentRequest = async (
+  userId: string,
+  scope: string,
+  key: string,
+  body: unknown
+): Promise<IdempotentRequest> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  if (!key.trim() || key.length > MAX_KEY_LENGTH) {
+    throw new AppError(`Idempotency-Key must be between 1 and ${MAX_KEY_LENGTH} characters`, 400);
+  }
+
+  const fingerprint = fingerprintRequest(body);
+  const now = new Date();
+
+  const existing = await prisma.idempotencyKey.findUnique({
+    where: { userId_scope_key: { userId, scope, key } },
+  });
+
+  if (existing) {
+    const abandoned =
+      existing.statusCode === null &&
+      now.getTime() - existing.createdAt.getTime() > ABANDONED_AFTER_MS;
+
+    if (existing.expiresAt > now && !abandoned) {
+      if (existing.fingerprint !== fingerprint) {
+        throw new AppError('This Idempotency-Key was already used for a different request', 422);
+      }
+      if (existing.statusCode === null) {
+        throw new AppError('A request with this Idempotency-Key is still being processed', 409);
+      }
+      return { replay: { statusCode: existing.statusCode, response: existing.response } };
+    }
+
+    await prisma.idempotencyKey.deleteMany({ where: { id: existing.id } });
+  }
+
+  try {
+    const record = await prisma.idempotencyKey.create({
+      data: {
+        userId,
+        scope,
+        key,
+        fingerprint,
+        expiresAt: new Date(now.getTime() + KEY_TTL_MS),
+      },
+    });
+    return { recordId: record.id };
+  } catch (error) {
+    // Another request claimed the key between the lookup and the insert
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new AppError('A request with this Idempotency-Key is still being processed', 409);
+    }
+    throw error;
+  }
+};
+
+/**
+ * Store the response of a request for replay. Failed requests release the key instead,
+ * so the client can retry them once the problem is fixed.
+ */
+export const completeIdempotentRequest = async (
+  recordId: string,
+  statusCode: number,
+  response: unknown
+): Promise<void> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  if (statusCode < 200 || statusCode >= 300) {
+    await prisma.idempotencyKey.deleteMany({ where: { id: recordId } });
+    return;
+  }
+
+  await prisma.idempotencyKey.update({
+    where: { id: recordId },
+    data: {
+      statusCode,
+      response: response as Prisma.InputJsonValue,
+      completedAt: new Date(),
+    },
+  });
+};
+
+/**
+ * Delete keys that can no longer be replayed
+ */
+export const purgeExpiredIdempotencyKeys = async (): Promise<number> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  const { count } = await prisma.idempotencyKey.deleteMany({
+    where: { expiresAt: { lte: new Date() } },
+  });
+  return count;
+};
@@ -0,0 +1,348 @@
+import { Invoice, Prisma } from '@prisma/client';
+import prisma from '../config/database.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { InvoiceDocument, InvoiceLine, InvoiceParty, InvoiceResponse } from '../types/invoice.js';
+import { generateInvoicePDF } from './pdf.service.js';
+import { sendOrderCompletedEmail } from './email.service.js';
+
+const INVOICE_COUNTER_ID = 'invoices';
+const TOP_UP_NOTE =
+  'Prepayment credited to the customer balance. VAT is charged on the purchases paid with it.';
+
+const invoiceLogger = {
+  audit: (operation: string, userId: string | undefined, data: object) => {
+    const auditData = {
+      timestamp: new Date().toISOString(),
+      operation,
+      userId: userId || 'system',
+      data,
+    };
+    console.log(`[Invoices] [AUDIT] ${JSON.stringify(auditData, null, 2)}`);
+  },
+};
+
+const roundMoney = (amount: number): number => Math.round(amount * 100) / 100;
+
+export const formatInvoiceNumber = (number: number): string =>
+  `INV-${String(number).padStart(6, '0')}`;
+
+/**
+ * Seller details printed on new invoices
+ */
+const getSeller = (): InvoiceParty => ({
+  name: process.env.INVOICE_SELLER_NAME || 'GKEYS Store',
+  address: process.env.INVOICE_SELLER_ADDRESS || undefined,
+  vatId: process.env.INVOICE_SELLER_VAT_ID || undefined,
+  email: process.env.INVOICE_SELLER_EMAIL || undefined,
+});
+
+/**
+ * VAT rate in percent included in the shop prices
+ */
+const getTaxRate = (): number => {
+  const rate = Number(process.env.INVOICE_TAX_RATE || 0);
+  return Number.isFinite(rate) && rate >= 0 && rate < 100 ? rate : 0;
+};
+
+const getBuyer = (user: {
+  email: string;
+  nickname: string | null;
+  firstName: string | null;
+  lastName: string | null;
+}): InvoiceParty => ({
+  name: `${user.firstName || ''} ${user.lastName || ''}`.trim() || user.nickname || user.email,
+  email: user.email,
+});
+
+/**
+ * Tax included in a gross amount. Shop prices include tax.
+ */
+export const calculateIncludedTax = (gross: number, taxRate: number): number =>
+  roundMoney(gross - gross / (1 + taxRate / 100));
+
+/**
+ * Create an invoice with the next number of the series. The counter is raised in the same
+ * transaction, so an invoice that fails to save gives its number back.
+ * Returns null when the order or top-up got its invoice from a concurrent request.
+ */
+const createInvoice = async (
+  data: Omit<Prisma.InvoiceUncheckedCreateInput, 'number'>
+): Promise<Invoice | null> => {
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const counter = await tx.invoiceCounter.upsert({
+        where: { id: INVOICE_COUNTER_ID },
+        create: { id: INVOICE_COUNTER_ID, value: 1 },
+        update: { value: { increment: 1 } },
+      });
+      return tx.invoice.create({ data: { ...data, number: counter.value } });
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return null;
+    }
+    throw error;
+  }
+};
+
+/**
+ * Issue the invoice of a completed order, or return the one already issued
+ */
+export const issueOrderInvoice = async (orderId: string): Promise<Invoice> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  const existing = await prisma.invoice.findUnique({ where: { orderId } });
+  if (existing) {
+    return existing;
+  }
+
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    include: {
+      user: { select: { email: true, nickname: true, firstName: true, lastName: true } },
+      items: { include: { game: { select: { title: true } } } },
+    },
+  });
+
+  if (!order) {
+    throw new AppError('Order not found', 404);
+  }
+  if (order.status !== 'COMPLETED') {
+    throw new AppError('Invoices are issued for completed orders only', 400);
+  }
+
+  // Refunded keys are not billed
+  const lines: InvoiceLine[] = order.items
+    .map((item) => {
+      const quantity = item.quantity - item.refundedQuantity;
+      const unitPrice = Number(item.price);
+      return {
+        description: item.game.title,
+        quantity,
+        unitPrice,
+        total: roundMoney(unitPrice * quantity),
+      };
+    })
+    .filter((line) => line.quantity > 0);
+
+  const subtotal = roundMoney(lines.reduce((sum, line) => sum + line.total, 0));
+  // The promo discount shrinks with the refunded part of the order
+  const discount =
+    Number(order.subtotal) > 0
+      ? roundMoney((Number(order.discount) * subtotal) / Number(order.subtotal))
+      : 0;
+  const total = roundMoney(subtotal - discount);
+  const taxRate = getTaxRate();
+
+  const invoice = await createInvoice({
+    type: 'ORDER',
+    userId: order.userId,
+    orderId: order.id,
+    currency: 'EUR',
+    subtotal,
+    discount,
+    taxRate,
+    taxAmount: calculateIncludedTax(total, taxRate),
+    total,
+    seller: getSeller() as unknown as Prisma.InputJsonObject,
+    buyer: getBuyer(order.user) as unknown as Prisma.InputJsonObject,
+    lines: lines as unknown as Prisma.InputJsonArray,
+  });
+
+  return invoice ?? prisma.invoice.findUniqueOrThrow({ where: { orderId } });
+};
+
+/**
+ * Issue the invoice of a paid balance top-up, or return the one already issued.
+ * Top-ups are prepayments, so the invoice carries no tax.
+ */
+export const issueTopUpInvoice = async (transactionId: string): Promise<Invoice> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  const existing = await prisma.invoice.findUnique({ where: { transactionId } });
+  if (existing) {
+    return existing;
+  }
+
+  const transaction = await prisma.transaction.findUnique({
+    where: { id: transactionId },
+    include: {
+      user: { select: { email: true, nickname: true, firstName: true, lastName: true } },
+    },
+  });
+
+  if (!transaction) {
+    throw new AppError('Transaction not found', 404);
+  }
+  // Balance corrections by staff have no payment method and are not sales
+  if (transaction.type !== 'TOP_UP' || transaction.status !== 'COMPLETED' || !transaction.method) {
+    throw new AppError('Invoices are issued for paid top-ups only', 400);
+  }
+
+  const amount = Number(transaction.amount);
+  const invoice = await createInvoice({
+    type: 'TOP_UP',
+    userId: transaction.userId,
+    transactionId: transaction.id,
+    currency: transaction.currency,
+    subtotal: amount,
+    taxRate: 0,
+    taxAmount: 0,
+    total: amount,
+    seller: getSeller() as unknown as Prisma.InputJsonObject,
+    buyer: getBuyer(transaction.user) as unknown as Prisma.InputJsonObject,
+    lines: [
+      {
+        description: `Balance top-up via ${transaction.method}`,
+        quantity: 1,
+        unitPrice: amount,
+        total: amount,
+      },
+    ],
+  });
+
+  return invoice ?? prisma.invoice.findUniqueOrThrow({ where: { transactionId } });
+};
+
+export const formatInvoice = (invoice: Invoice): InvoiceResponse => ({
+  id: invoice.id,
+  number: formatInvoiceNumber(invoice.number),
+  type: invoice.type,
+  orderId: invoice.orderId || undefined,
+  transactionId: invoice.transactionId || undefined,
+  currency: invoice.currency,
+  seller: invoice.seller as unknown as InvoiceParty,
+  buyer: invoice.buyer as unknown as InvoiceParty,
+  lines: invoice.lines as unknown as InvoiceLine[],
+  subtotal: Number(invoice.subtotal),
+  discount: Number(invoice.discount),
+  taxRate: Number(invoice.taxRate),
+  taxAmount: Number(invoice.taxAmount),
+  total: Number(invoice.total),
+  note: invoice.type === 'TOP_UP' ? TOP_UP_NOTE : undefined,
+  issuedAt: invoice.issuedAt.toISOString(),
+});
+
+/**
+ * Render an issued invoice. The PDF is built from the stored snapshot, so it comes out the
+ * same every time.
+ */
+export const renderInvoice = async (invoice: Invoice): Promise<InvoiceDocument> => {
+  const number = formatInvoiceNumber(invoice.number);
+  return {
+    number,
+    filename: `${number}.pdf`,
+    pdf: await generateInvoicePDF(formatInvoice(invoice)),
+  };
+};
+
+/**
+ * Invoice of one of the customer's orders
+ */
+export const getOrderInvoice = async (
+  orderId: string,
+  userId: string
+): Promise<InvoiceDocument> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  const order = await prisma.order.findFirst({
+    where: { id: orderId, userId },
+    select: { id: true },
+  });
+  if (!order) {
+    throw new AppError('Order not found', 404);
+  }
+
+  return renderInvoice(await issueOrderInvoice(orderId));
+};
+
+/**
+ * Invoice of one of the customer's top-ups
+ */
+export const getTopUpInvoice = async (
+  transactionId: string,
+  userId: string
+): Promise<InvoiceDocument> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  const transaction = await prisma.transaction.findFirst({
+    where: { id: transactionId, userId },
+    select: { id: true },
+  });
+  if (!transaction) {
+    throw new AppError('Transaction not found', 404);
+  }
+
+  return renderInvoice(await issueTopUpInvoice(transactionId));
+};
+
+/**
+ * Generate an invoice again for staff, issuing it first if the order or top-up has none yet
+ */
+export const regenerateInvoice = async (
+  target: { orderId: string } | { transactionId: string },
+  actorId?: string
+): Promise<InvoiceDocument> => {
+  const invoice =
+    'orderId' in target
+      ? await issueOrderInvoice(target.orderId)
+      : await issueTopUpInvoice(target.transactionId);
+
+  invoiceLogger.audit('INVOICE_REGENERATED', actorId, {
+    invoiceId: invoice.id,
+    number: formatInvoiceNumber(invoice.number),
+    ...target,
+  });
+
+  return renderInvoice(invoice);
+};
+
+/**
+ * Invoice to attach to the top-up confirmation. A failure must not hold up the email,
+ * the customer can still download the invoice later.
+ */
+export const getTopUpInvoiceAttachment = async (
+  transactionId: string
+): Promise<InvoiceDocument | undefined> => {
+  try {
+    return await renderInvoice(await issueTopUpInvoice(transactionId));
+  } catch (error) {
+    console.error(`[Invoices] Failed to issue invoice for top-up ${transactionId}:`, error);
+    return undefined;
+  }
+};
+
+/**
+ * Issue the invoice of a newly completed order and send it with the completion email.
+ * Never throws; the order is complete whether or not the email goes out.
+ */
+export const sendOrderInvoice = async (orderId: string): Promise<void> => {
+  try {
+    const invoice = await issueOrderInvoice(orderId);
+    const order = await prisma.order.findUnique({
+      where: { id: orderId },
+      select: { user: { select: { email: true } } },
+    });
+    if (!order) {
+      return;
+    }
+
+    await sendOrderCompletedEmail(order.user.email, {
+      orderNumber: orderId.substring(0, 8),
+      total: Number(invoice.total),
+      currency: invoice.currency,
+      ordersLink: `${process.env.FRONTEND_URL || 'http://localhost:5173'}/profile/orders`,
+      invoice: await renderInvoice(invoice),
+    });
+  } catch (error) {
+    console.error(`[Invoices] Failed to send invoice for order ${orderId}:`, error);
+  }
+};
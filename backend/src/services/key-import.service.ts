@@ -0,0 +1,298 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../config/database.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { getKeyFormat } from '../config/activation-services.js';
+import { encryptGameKey, hashGameKey, maskGameKey } from '../utils/game-key-crypto.js';
+import { syncPoolStock } from './key-pool.service.js';
+
+const MAX_IMPORT_ROWS = 20000;
+const IMPORT_BATCH_SIZE = 500;
+const LOOKUP_CHUNK_SIZE = 1000;
+
+// Header names suppliers use for the key column in CSV files
+const KEY_COLUMNS = ['key', 'keys', 'code', 'serial', 'cdkey', 'productkey', 'activationkey'];
+
+export type KeyImportRowStatus =
+  | 'VALID'
+  | 'INVALID_FORMAT'
+  | 'DUPLICATE_IN_FILE'
+  | 'DUPLICATE_EXISTING'
+  | 'IMPORTED'
+  | 'FAILED';
+
+export interface KeyImportInput {
+  gameId: string;
+  content: string;
+  fileName?: string;
+  // Validate against this service instead of the game's activation service
+  activationService?: string;
+  dryRun?: boolean;
+}
+
+export interface KeyImportRow {
+  line: number;
+  maskedKey: string;
+  status: KeyImportRowStatus;
+  message?: string;
+}
+
+export interface KeyImportReport {
+  fileName: string;
+  game: { id: string; title: string };
+  format: { service: string; example: string } | null;
+  dryRun: boolean;
+  summary: {
+    total: number;
+    valid: number;
+    invalidFormat: number;
+    duplicateInFile: number;
+    duplicateExisting: number;
+    imported: number;
+    failed: number;
+  };
+  rows: KeyImportRow[];
+}
+
+interface ParsedKey {
+  line: number;
+  key: string;
+}
+
+const isUniqueViolation = (error: unknown): boolean =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+
+const splitCsvLine = (line: string, separator: string): string[] => {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (quoted && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (char === separator && !quoted) {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell);
+
+  return cells.map((value) => value.trim());
+};
+
+/**
+ * Read keys from a supplier file. TXT files hold one key per line. CSV files use the
+ * column named like a key (key, code, serial, ...) or the first column when there is
+ * no header row.
+ */
+export const parseKeyFile = (content: string, fileName = ''): ParsedKey[] => {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+
+  if (!fileName.toLowerCase().endsWith('.csv')) {
+    return lines
+      .map((line, index) => ({ line: index + 1, key: line.trim() }))
+      .filter((row) => row.key);
+  }
+
+  const firstIndex = lines.findIndex((line) => line.trim());
+  if (firstIndex === -1) {
+    return [];
+  }
+  const separator = lines[firstIndex].includes(';') && !lines[firstIndex].includes(',') ? ';' : ',';
+
+  const header = splitCsvLine(lines[firstIndex], separator).map((cell) =>
+    cell.toLowerCase().replace(/[^a-z]/g, '')
+  );
+  const keyColumn = header.findIndex((cell) => KEY_COLUMNS.includes(cell));
+  const column = Math.max(keyColumn, 0);
+  const startIndex = keyColumn === -1 ? firstIndex : firstIndex + 1;
+
+  const rows: ParsedKey[] = [];
+  for (let index = startIndex; index < lines.length; index++) {
+    if (!lines[index].trim()) {
+      continue;
+    }
+    rows.push({ line: index + 1, key: splitCsvLine(lines[index], separator)[column] || '' });
+  }
+  return rows;
+};
+
+const findExistingHashes = async (hashes: string[]): Promise<Set<string>> => {
+  const existing = new Set<string>();
+  for (let i = 0; i < hashes.length; i += LOOKUP_CHUNK_SIZE) {
+    const found = await prisma.gameKey.findMany({
+      where: { keyHash: { in: hashes.slice(i, i + LOOKUP_CHUNK_SIZE) } },
+      select: { keyHash: true },
+    });
+    for (const row of found) {
+      existing.add(row.keyHash!);
+    }
+  }
+  return existing;
+};
+
+/**
+ * Insert one batch of keys. When another import added one of the keys in the meantime the
+ * batch is retried key by key, so only the conflicting rows are reported as duplicates.
+ */
+const insertBatch = async (
+  gameId: string,
+  batch: Array<{ row: KeyImportRow; key: string }>
+): Promise<void> => {
+  try {
+    await prisma.gameKey.createMany({
+      data: batch.map(({ key }) => ({ gameId, ...encryptGameKey(key), activated: false })),
+    });
+    for (const { row } of batch) {
+      row.status = 'IMPORTED';
+    }
+    return;
+  } catch (error) {
+    if (!isUniqueViolation(error)) {
+      console.error('[Key Import] Batch insert failed, retrying key by key:', error);
+    }
+  }
+
+  for (const { row, key } of batch) {
+    try {
+      await prisma.gameKey.create({
+        data: { gameId, ...encryptGameKey(key), activated: false },
+      });
+      row.status = 'IMPORTED';
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        row.status = 'DUPLICATE_EXISTING';
+        row.message = 'Key was added while the import was running';
+      } else {
+        row.status = 'FAILED';
+        row.message = error instanceof Error ? error.message : 'Unknown error';
+      }
+    }
+  }
+};
+
+/**
+ * Validate a supplier key file for a game and, unless it is a dry run, add the valid keys
+ * to the game's key pool in batches. Keys that are malformed or already known are skipped
+ * and listed in the report. Key values never appear in the report.
+ */
+export const importGameKeys = async (
+  input: KeyImportInput,
+  actorId?: string
+): Promise<KeyImportReport> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  if (!input.gameId) {
+    throw new AppError('Game is required', 400);
+  }
+  if (typeof input.content !== 'string' || !input.content.trim()) {
+    throw new AppError('The file is empty', 400);
+  }
+
+  const game = await prisma.game.findUnique({
+    where: { id: input.gameId },
+    select: { id: true, title: true, activationService: true },
+  });
+  if (!game) {
+    throw new AppError('Game not found', 404);
+  }
+
+  const fileName = input.fileName || 'keys.txt';
+  const parsed = parseKeyFile(input.content, fileName);
+  if (parsed.length === 0) {
+    throw new AppError('No keys found in the file', 400);
+  }
+  if (parsed.length > MAX_IMPORT_ROWS) {
+    throw new AppError(`A file can hold at most ${MAX_IMPORT_ROWS} keys`, 400);
+  }
+
+  const format = getKeyFormat(input.activationService || game.activationService);
+  const dryRun = input.dryRun !== false;
+
+  // Validate formats and find duplicates within the file
+  const firstLineByHash = new Map<string, number>();
+  const candidates: Array<{ row: KeyImportRow; key: string; hash: string }> = [];
+  const rows: KeyImportRow[] = parsed.map(({ line, key }) => {
+    const row: KeyImportRow = { line, maskedKey: maskGameKey({ key }), status: 'VALID' };
+
+    if (!key || /\s/.test(key) || (format && !format.patterns.some((p) => p.test(key)))) {
+      row.status = 'INVALID_FORMAT';
+      row.message = format
+        ? `Does not look like a ${format.service} key (e.g. ${format.example})`
+        : 'Key is empty or contains spaces';
+      return row;
+    }
+
+    const hash = hashGameKey(key);
+    const firstLine = firstLineByHash.get(hash);
+    if (firstLine !== undefined) {
+      row.status = 'DUPLICATE_IN_FILE';
+      row.message = `Same key as line ${firstLine}`;
+      return row;
+    }
+
+    firstLineByHash.set(hash, line);
+    candidates.push({ row, key, hash });
+    return row;
+  });
+
+  // Keys we already hold, for any game
+  const existing = await findExistingHashes(candidates.map((candidate) => candidate.hash));
+  const toImport = candidates.filter(({ row, hash }) => {
+    if (existing.has(hash)) {
+      row.status = 'DUPLICATE_EXISTING';
+      row.message = 'Key already exists';
+      return false;
+    }
+    return true;
+  });
+
+  if (!dryRun) {
+    for (let i = 0; i < toImport.length; i += IMPORT_BATCH_SIZE) {
+      await insertBatch(game.id, toImport.slice(i, i + IMPORT_BATCH_SIZE));
+    }
+  }
+
+  const count = (status: KeyImportRowStatus) => rows.filter((row) => row.status === status).length;
+  const report: KeyImportReport = {
+    fileName,
+    game: { id: game.id, title: game.title },
+    format: format ? { service: format.service, example: format.example } : null,
+    dryRun,
+    summary: {
+      total: rows.length,
+      valid: toImport.length,
+      invalidFormat: count('INVALID_FORMAT'),
+      duplicateInFile: count('DUPLICATE_IN_FILE'),
+      duplicateExisting: count('DUPLICATE_EXISTING'),
+      imported: count('IMPORTED'),
+      failed: count('FAILED'),
+    },
+    rows,
+  };
+
+  if (!dryRun) {
+    const auditData = {
+      timestamp: new Date().toISOString(),
+      operation: 'GAME_KEYS_IMPORTED',
+      userId: actorId || 'system',
+      data: { fileName, gameId: game.id, ...report.summary },
+    };
+    console.log(`[Key Import] [AUDIT] ${JSON.stringify(auditData, null, 2)}`);
+
+    if (report.summary.imported > 0) {
+      await syncPoolStock(game.id);
+    }
+  }
+
+  return report;
+};
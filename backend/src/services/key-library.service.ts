@@ -0,0 +1,161 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../config/database.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { getActivationGuide } from '../config/activation-services.js';
+import { decryptGameKey, maskGameKey } from '../utils/game-key-crypto.js';
+import { KeyLibraryGroupResponse } from '../types/user.js';
+
+export interface KeyRevealContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * Keys the user owns. Keys of cancelled orders and keys revoked by a claim were refunded and
+ * no longer belong to the customer. Keys of gifted orders belong to whoever redeemed the
+ * gift, not to the buyer.
+ */
+export const ownedKeysWhere = (userId: string): Prisma.GameKeyWhereInput => ({
+  revokedAt: null,
+  OR: [
+    { order: { userId, status: { not: 'CANCELLED' }, gift: null } },
+    { order: { status: { not: 'CANCELLED' }, gift: { recipientId: userId } } },
+  ],
+});
+
+const findOwnedKey = async (userId: string, keyId: string) => {
+  const key = await prisma.gameKey.findFirst({
+    where: { id: keyId, ...ownedKeysWhere(userId) },
+  });
+  if (!key) {
+    throw new AppError('Key not found', 404);
+  }
+  return key;
+};
+
+/**
+ * All keys the user owns, grouped by game and platform. Key values stay masked.
+ */
+export const getKeyLibrary = async (userId: string): Promise<KeyLibraryGroupResponse[]> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  const keys = await prisma.gameKey.findMany({
+    where: ownedKeysWhere(userId),
+    orderBy: { createdAt: 'desc' },
+    include: {
+      game: {
+        select: {
+          id: true,
+          title: true,
+          slug: true,
+          image: true,
+          activationService: true,
+          platforms: { select: { platform: { select: { name: true } } } },
+        },
+      },
+      order: { select: { createdAt: true } },
+      reveals: {
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+        take: 1,
+        select: { createdAt: true },
+      },
+    },
+  });
+
+  const groups = new Map<string, KeyLibraryGroupResponse>();
+  for (const key of keys) {
+    const platform = key.game.platforms[0]?.platform.name || 'PC';
+    const groupId = `${key.gameId}:${platform}`;
+
+    let group = groups.get(groupId);
+    if (!group) {
+      group = {
+        game: {
+          id: key.game.id,
+          title: key.game.title,
+          slug: key.game.slug,
+          image: key.game.image,
+        },
+        platform,
+        activationService: key.game.activationService || undefined,
+        activation: getActivationGuide(key.game.activationService),
+        keys: [],
+      };
+      groups.set(groupId, group);
+    }
+
+    group.keys.push({
+      id: key.id,
+      orderId: key.orderId!,
+      maskedKey: maskGameKey(key),
+      activated: key.activated,
+      activationDate: key.activationDate?.toISOString(),
+      purchasedAt: (key.order?.createdAt ?? key.createdAt).toISOString(),
+      lastRevealedAt: key.reveals[0]?.createdAt.toISOString(),
+    });
+  }
+
+  return Array.from(groups.values());
+};
+
+/**
+ * Show a key to its owner. Every reveal is recorded.
+ */
+export const revealLibraryKey = async (
+  userId: string,
+  keyId: string,
+  context: KeyRevealContext = {}
+): Promise<{ id: string; key: string }> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  const gameKey = await findOwnedKey(userId, keyId);
+  const key = decryptGameKey(gameKey);
+
+  await prisma.gameKeyReveal.create({
+    data: {
+      gameKeyId: keyId,
+      userId,
+      ipAddress: context.ipAddress || null,
+      userAgent: context.userAgent || null,
+    },
+  });
+
+  return { id: keyId, key };
+};
+
+/**
+ * Record that the customer redeemed a key. Activation cannot be undone by the customer.
+ */
+export const markLibraryKeyActivated = async (
+  userId: string,
+  keyId: string
+): Promise<{ id: string; activated: boolean; activationDate?: string }> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  const gameKey = await findOwnedKey(userId, keyId);
+  if (gameKey.activated) {
+    return {
+      id: keyId,
+      activated: true,
+      activationDate: gameKey.activationDate?.toISOString(),
+    };
+  }
+
+  const updated = await prisma.gameKey.update({
+    where: { id: keyId },
+    data: { activated: true, activationDate: new Date() },
+  });
+
+  return {
+    id: keyId,
+    activated: updated.activated,
+    activationDate: updated.activationDate?.toISOString(),
+  };
+};
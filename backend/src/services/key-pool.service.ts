@@ -0,0 +1,104 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../config/database.js';
+import { AppError } from '../middleware/errorHandler.js';
+
+/**
+ * Keys taken from the local pool, i.e. keys uploaded for a game that were not assigned
+ * to an order yet. Games without a G2A product are sold from this pool.
+ */
+export interface PoolAllocation {
+  keyIds: string[];
+  requested: number;
+}
+
+/**
+ * Number of unassigned keys per game
+ */
+export const countAvailablePoolKeys = async (gameIds: string[]): Promise<Map<string, number>> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  const counts = await prisma.gameKey.groupBy({
+    by: ['gameId'],
+    where: { gameId: { in: gameIds }, orderId: null },
+    _count: { _all: true },
+  });
+
+  return new Map(counts.map((row) => [row.gameId, row._count._all]));
+};
+
+/**
+ * Claim up to `count` unassigned keys of a game for an order item. Must run inside a
+ * transaction: the rows stay locked until it commits, and SKIP LOCKED makes concurrent
+ * checkouts take different keys instead of waiting for each other.
+ */
+export const claimPoolKeys = async (
+  tx: Prisma.TransactionClient,
+  gameId: string,
+  count: number,
+  target: { orderId: string; orderItemId: string }
+): Promise<PoolAllocation> => {
+  if (count <= 0) {
+    return { keyIds: [], requested: count };
+  }
+
+  const rows = await tx.$queryRaw<Array<{ id: string }>>`
+    SELECT "id" FROM "game_keys"
+    WHERE "gameId" = ${gameId} AND "orderId" IS NULL
+    ORDER BY "createdAt" ASC
+    LIMIT ${count}
+    FOR UPDATE SKIP LOCKED
+  `;
+  const keyIds = rows.map((row) => row.id);
+
+  if (keyIds.length > 0) {
+    await tx.gameKey.updateMany({
+      where: { id: { in: keyIds }, orderId: null },
+      data: { orderId: target.orderId, orderItemId: target.orderItemId },
+    });
+  }
+
+  return { keyIds, requested: count };
+};
+
+/**
+ * Keep `inStock` of a locally stocked game in line with its pool. Games sold through G2A
+ * and games that never had pool keys (fulfilled by hand) are left alone.
+ * Returns the new stock flag, or null when the game was not touched.
+ */
+export const syncPoolStock = async (gameId: string): Promise<boolean | null> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  const game = await prisma.game.findUnique({
+    where: { id: gameId },
+    select: { inStock: true, g2aProductId: true, _count: { select: { keys: true } } },
+  });
+  if (!game || game.g2aProductId || game._count.keys === 0) {
+    return null;
+  }
+
+  const available = await prisma.gameKey.count({ where: { gameId, orderId: null } });
+  const inStock = available > 0;
+  if (inStock === game.inStock) {
+    return inStock;
+  }
+
+  await prisma.game.update({ where: { id: gameId }, data: { inStock } });
+  console.log(
+    `[Key Pool] Game ${gameId} ${inStock ? 'restocked' : 'sold out'} (${available} key(s) left)`
+  );
+
+  try {
+    const { invalidateCache } = await import('./cache.service.js');
+    await invalidateCache('home:*');
+    await invalidateCache('game:*');
+    await invalidateCache('catalog:*');
+  } catch (cacheError) {
+    console.warn('[Key Pool] Failed to invalidate cache:', cacheError);
+  }
+
+  return inStock;
+};
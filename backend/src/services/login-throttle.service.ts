@@ -0,0 +1,281 @@
+import redisClient from '../config/redis.js';
+import prisma from '../config/database.js';
+import { AppError } from '../middleware/errorHandler.js';
+
+const MAX_ACCOUNT_FAILURES = parseInt(process.env.LOGIN_MAX_ATTEMPTS || '5', 10);
+const MAX_IP_FAILURES = parseInt(process.env.LOGIN_IP_MAX_ATTEMPTS || '20', 10);
+const LOCKOUT_MINUTES = parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '15', 10);
+
+// Failures older than this stop counting (Redis keys expire after the same time)
+const FAILURE_WINDOW_SECONDS = LOCKOUT_MINUTES * 60;
+const MAX_BACKOFF_SECONDS = 5 * 60;
+
+// Failures allowed before exponential backoff kicks in
+const FREE_ATTEMPTS = {
+  account: 2,
+  ip: Math.floor(MAX_IP_FAILURES / 2),
+};
+
+type ThrottleScope = 'account' | 'ip';
+
+interface FailureState {
+  count: number;
+  lastFailureAt: Date | null;
+}
+
+export interface ThrottledUser {
+  id: string;
+  email: string;
+  lockedUntil: Date | null;
+  loginFailuresResetAt: Date | null;
+}
+
+const failureKey = (scope: ThrottleScope, id: string): string =>
+  `auth:login-failures:${scope}:${id}`;
+
+/**
+ * Seconds until the next attempt is allowed.
+ * Backoff doubles with every failure past the free attempts.
+ */
+export const getRetryAfterSeconds = (
+  state: FailureState,
+  freeAttempts: number,
+  now: number = Date.now()
+): number => {
+  if (!state.lastFailureAt || state.count <= freeAttempts) {
+    return 0;
+  }
+
+  const delaySeconds = Math.min(2 ** (state.count - freeAttempts - 1), MAX_BACKOFF_SECONDS);
+  const remaining = Math.ceil((state.lastFailureAt.getTime() + delaySeconds * 1000 - now) / 1000);
+  return Math.max(remaining, 0);
+};
+
+// Redis counters. Every helper returns null when Redis cannot be used so callers fall back to LoginHistory.
+
+const readRedisFailures = async (
+  scope: ThrottleScope,
+  id: string
+): Promise<FailureState | null> => {
+  if (!redisClient.isReady) {
+    return null;
+  }
+
+  try {
+    const data = await redisClient.hGetAll(failureKey(scope, id));
+    return {
+      count: parseInt(data.count || '0', 10),
+      lastFailureAt: data.lastFailureAt ? new Date(Number(data.lastFailureAt)) : null,
+    };
+  } catch (error) {
+    console.warn('[LoginThrottle] Redis read failed, using login history:', error);
+    return null;
+  }
+};
+
+const incrementRedisFailures = async (
+  scope: ThrottleScope,
+  id: string
+): Promise<FailureState | null> => {
+  if (!redisClient.isReady) {
+    return null;
+  }
+
+  try {
+    const key = failureKey(scope, id);
+    const now = Date.now();
+    const [count] = await redisClient
+      .multi()
+      .hIncrBy(key, 'count', 1)
+      .hSet(key, 'lastFailureAt', now.toString())
+      .expire(key, FAILURE_WINDOW_SECONDS)
+      .exec();
+    return { count: Number(count), lastFailureAt: new Date(now) };
+  } catch (error) {
+    console.warn('[LoginThrottle] Redis write failed, using login history:', error);
+    return null;
+  }
+};
+
+const clearRedisFailures = async (scope: ThrottleScope, id: string): Promise<void> => {
+  if (!redisClient.isReady) {
+    return;
+  }
+
+  try {
+    await redisClient.del(failureKey(scope, id));
+  } catch (error) {
+    console.warn('[LoginThrottle] Redis delete failed:', error);
+  }
+};
+
+// LoginHistory fallback. Only attempts against existing accounts are recorded there,
+// so the per-IP fallback cannot see attempts for unknown emails.
+
+const countHistoryFailures = async (
+  where: { userId: string } | { ipAddress: string },
+  since: Date
+): Promise<FailureState> => {
+  const failureWhere = { ...where, success: false, createdAt: { gt: since } };
+  const [count, last] = await Promise.all([
+    prisma.loginHistory.count({ where: failureWhere }),
+    prisma.loginHistory.findFirst({
+      where: failureWhere,
+      orderBy: { createdAt: 'desc' },
+      select: { createdAt: true },
+    }),
+  ]);
+  return { count, lastFailureAt: last?.createdAt ?? null };
+};
+
+const getAccountFailures = async (user: ThrottledUser): Promise<FailureState> => {
+  const cached = await readRedisFailures('account', user.id);
+  if (cached) {
+    return cached;
+  }
+
+  // Count only failures after the window start, the last reset and the last successful login
+  const lastSuccess = await prisma.loginHistory.findFirst({
+    where: { userId: user.id, success: true },
+    orderBy: { createdAt: 'desc' },
+    select: { createdAt: true },
+  });
+  const since = [
+    new Date(Date.now() - FAILURE_WINDOW_SECONDS * 1000),
+    user.loginFailuresResetAt,
+    lastSuccess?.createdAt,
+  ].reduce<Date>((latest, date) => (date && date > latest ? date : latest), new Date(0));
+
+  return countHistoryFailures({ userId: user.id }, since);
+};
+
+const getIpFailures = async (ipAddress: string): Promise<FailureState> => {
+  const cached = await readRedisFailures('ip', ipAddress);
+  if (cached) {
+    return cached;
+  }
+
+  return countHistoryFailures({ ipAddress }, new Date(Date.now() - FAILURE_WINDOW_SECONDS * 1000));
+};
+
+// Same answer as a wrong password or an unknown email, so throttling does not reveal
+// which emails have an account. The owner learns about a lock from the locked email.
+const invalidCredentials = (): AppError => new AppError('Invalid email or password', 401);
+
+const tooManyAttempts = (retryAfterSeconds: number): AppError =>
+  new AppError(
+    `Too many login attempts. Please try again in ${retryAfterSeconds} second${retryAfterSeconds === 1 ? '' : 's'}.`,
+    429
+  );
+
+/**
+ * Reject the attempt early when the client IP is backing off or blocked
+ */
+export const assertIpNotThrottled = async (ipAddress?: string): Promise<void> => {
+  if (!ipAddress || !prisma) {
+    return;
+  }
+
+  const state = await getIpFailures(ipAddress);
+  const retryAfter =
+    state.count >= MAX_IP_FAILURES && state.lastFailureAt
+      ? Math.ceil((state.lastFailureAt.getTime() + LOCKOUT_MINUTES * 60 * 1000 - Date.now()) / 1000)
+      : getRetryAfterSeconds(state, FREE_ATTEMPTS.ip);
+
+  if (retryAfter > 0) {
+    throw tooManyAttempts(retryAfter);
+  }
+};
+
+/**
+ * Reject the attempt when the account is locked or backing off.
+ * Runs before the password check so a locked account cannot be probed, and answers like
+ * invalid credentials so the rejection looks the same as for an unknown email.
+ */
+export const assertAccountNotThrottled = async (user: ThrottledUser): Promise<void> => {
+  if (user.lockedUntil && user.lockedUntil > new Date()) {
+    throw invalidCredentials();
+  }
+
+  const retryAfter = getRetryAfterSeconds(await getAccountFailures(user), FREE_ATTEMPTS.account);
+  if (retryAfter > 0) {
+    throw invalidCredentials();
+  }
+};
+
+/**
+ * Count a failed attempt against the IP and, when known, the account.
+ * Must run after the failure was written to LoginHistory so the fallback sees it.
+ */
+export const registerFailedLogin = async (
+  ipAddress?: string,
+  user?: ThrottledUser
+): Promise<void> => {
+  if (ipAddress) {
+    await incrementRedisFailures('ip', ipAddress);
+  }
+
+  if (!user) {
+    return;
+  }
+
+  const state =
+    (await incrementRedisFailures('account', user.id)) ?? (await getAccountFailures(user));
+
+  if (state.count >= MAX_ACCOUNT_FAILURES) {
+    await lockAccount(user);
+  }
+};
+
+/**
+ * Reset the account counter after a successful login. The IP counter keeps running, so
+ * logging into an own account between guesses does not lift the limit on the IP.
+ */
+export const clearFailedLogins = async (userId: string): Promise<void> => {
+  await clearRedisFailures('account', userId);
+};
+
+const lockAccount = async (user: ThrottledUser): Promise<void> => {
+  const lockedUntil = new Date(Date.now() + LOCKOUT_MINUTES * 60 * 1000);
+
+  // Restart counting once the lock ends
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { lockedUntil, loginFailuresResetAt: new Date() },
+  });
+  await clearRedisFailures('account', user.id);
+
+  console.warn(`[LoginThrottle] Account ${user.id} locked until ${lockedUntil.toISOString()}`);
+
+  try {
+    const { sendAccountLockedEmail } = await import('./email.service.js');
+    const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
+    await sendAccountLockedEmail(user.email, {
+      lockoutMinutes: LOCKOUT_MINUTES,
+      resetLink: `${frontendUrl}/forgot-password`,
+    });
+  } catch (error) {
+    // Non-blocking - the lock itself already applies
+    console.error('Failed to send account locked email:', error);
+  }
+};
+
+/**
+ * Lift a lockout (admin action or password reset) and restart the failure count
+ */
+export const unlockAccount = async (userId: string): Promise<void> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { id: true } });
+  if (!user) {
+    throw new AppError('User not found', 404);
+  }
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { lockedUntil: null, loginFailuresResetAt: new Date() },
+  });
+  await clearRedisFailures('account', userId);
+};
@@ -0,0 +1,662 @@
+import { FulfillmentStatus, OrderItem, OrderStatus, Prisma } from '@prisma/client';
+import prisma from '../config/database.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { G2AIntegrationClient } from '../lib/g2a/G2AIntegrationClient.js';
+import { G2AError, G2AErrorCode } from '../lib/g2a/errors/G2AError.js';
+import { getG2AConfig } from '../config/g2a.js';
+import { getDefaultConfig } from '../lib/g2a/config/defaults.js';
+import { sendGameKeyEmail } from './email.service.js';
+import { decryptGameKey, encryptGameKey } from '../utils/game-key-crypto.js';
+import { claimPoolKeys, syncPoolStock } from './key-pool.service.js';
+import { sendOrderInvoice } from './invoice.service.js';
+import {
+  StatusChange,
+  canTransition,
+  describeDeliveryResult,
+  transitionOrderStatus,
+} from './order-status.service.js';
+
+/**
+ * Supplier errors that retrying the same purchase will not fix.
+ * The undelivered units of an item that hits one are refunded during checkout.
+ */
+const CRITICAL_SUPPLIER_ERRORS: string[] = [
+  G2AErrorCode.G2A_OUT_OF_STOCK,
+  G2AErrorCode.G2A_AUTH_FAILED,
+  G2AErrorCode.G2A_API_ERROR,
+];
+
+// A G2A purchase lock older than this belongs to a run that died and may be taken over
+const FULFILLMENT_LOCK_TTL_MS = 15 * 60 * 1000;
+
+// Items no run holds the G2A purchase lock for
+const unlockedItemWhere = (): Prisma.OrderItemWhereInput => ({
+  OR: [
+    { fulfillmentLockedAt: null },
+    { fulfillmentLockedAt: { lt: new Date(Date.now() - FULFILLMENT_LOCK_TTL_MS) } },
+  ],
+});
+
+// Where keys come from: bought from G2A, or taken from the local key pool
+export type FulfillmentSupplier = 'G2A' | 'POOL';
+
+export interface ItemFulfillmentResult {
+  itemId: string;
+  status: FulfillmentStatus;
+  delivered: number;
+  refunded: number;
+  error?: string;
+  // Another run holds the purchase lock, so this run left the item alone
+  skipped?: boolean;
+}
+
+export interface ItemRefundResult {
+  itemId: string;
+  units: number;
+  amount: number;
+}
+
+export interface SupplierRecoveryResult {
+  itemId: string;
+  recovered: number;
+  // G2A orders that were never paid, so they hold no key
+  unpaid: string[];
+  // G2A orders whose key was downloaded but never stored
+  lost: string[];
+}
+
+type ItemQuantities = Pick<OrderItem, 'quantity' | 'fulfilledQuantity' | 'refundedQuantity'>;
+
+const fulfillmentItemInclude = {
+  order: {
+    select: { id: true, user: { select: { email: true } }, gift: { select: { id: true } } },
+  },
+  game: {
+    select: {
+      id: true,
+      title: true,
+      g2aProductId: true,
+      platforms: { include: { platform: true } },
+    },
+  },
+} satisfies Prisma.OrderItemInclude;
+
+type FulfillmentItem = Prisma.OrderItemGetPayload<{ include: typeof fulfillmentItemInclude }>;
+
+export const getOutstandingQuantity = (item: ItemQuantities): number =>
+  Math.max(0, item.quantity - item.fulfilledQuantity - item.refundedQuantity);
+
+/**
+ * Fulfilment state of an item from its delivered and refunded units
+ */
+export const resolveItemStatus = (item: ItemQuantities, failed: boolean): FulfillmentStatus => {
+  if (item.fulfilledQuantity >= item.quantity) {
+    return 'FULFILLED';
+  }
+  if (getOutstandingQuantity(item) === 0) {
+    return 'REFUNDED';
+  }
+  return failed ? 'FAILED' : 'PENDING';
+};
+
+/**
+ * Order status that follows from the state of its items:
+ * - every unit delivered or refunded: COMPLETED, or FAILED when nothing was delivered
+ * - some keys delivered while other items are still open: PARTIALLY_COMPLETED
+ * - nothing delivered yet: FAILED if an item failed, otherwise PENDING for manual fulfilment
+ */
+export const deriveOrderStatus = (
+  items: Array<ItemQuantities & { fulfillmentStatus: FulfillmentStatus }>
+): OrderStatus => {
+  const delivered = items.reduce((sum, item) => sum + item.fulfilledQuantity, 0);
+  const open = items.filter((item) => getOutstandingQuantity(item) > 0);
+
+  if (open.length === 0) {
+    return delivered > 0 ? 'COMPLETED' : 'FAILED';
+  }
+  if (delivered > 0) {
+    return 'PARTIALLY_COMPLETED';
+  }
+  return open.some((item) => item.fulfillmentStatus === 'FAILED') ? 'FAILED' : 'PENDING';
+};
+
+/**
+ * Get the G2A client used for key purchases.
+ * Returns null when no G2A credentials are configured.
+ */
+export const getSupplierClient = async (): Promise<G2AIntegrationClient | null> => {
+  const g2aConfig = await getG2AConfig();
+  if (!g2aConfig.apiKey || !g2aConfig.apiHash) {
+    return null;
+  }
+
+  const defaultConfig = getDefaultConfig(g2aConfig.env || 'sandbox');
+  return G2AIntegrationClient.getInstance({
+    env: g2aConfig.env || 'sandbox',
+    apiKey: g2aConfig.apiKey,
+    apiHash: g2aConfig.apiHash,
+    email: g2aConfig.email || 'Welcome@nalytoo.com',
+    baseUrl: g2aConfig.baseUrl || defaultConfig.baseUrl,
+    timeoutMs: g2aConfig.timeoutMs || defaultConfig.timeoutMs,
+  });
+};
+
+/**
+ * Pay for a G2A order, retrying once when G2A reports the order is not ready yet (ORD03)
+ */
+const paySupplierOrder = async (client: G2AIntegrationClient, supplierOrderId: string) => {
+  try {
+    return await client.orders.pay(supplierOrderId);
+  } catch (payError) {
+    if (
+      payError instanceof G2AError &&
+      payError.code === G2AErrorCode.G2A_INVALID_REQUEST &&
+      payError.metadata?.errorCode === 'ORD03' &&
+      payError.metadata?.retryable
+    ) {
+      console.warn(`[Fulfillment] G2A order ${supplierOrderId} not ready for payment, retrying`);
+      await new Promise((resolve) => setTimeout(resolve, 2000));
+      try {
+        return await client.orders.pay(supplierOrderId);
+      } catch {
+        // Report the original error
+        throw payError;
+      }
+    }
+    throw payError;
+  }
+};
+
+/**
+ * Store the item status that follows from its delivered units and the last error
+ */
+const recordItemOutcome = async (itemId: string, error: string | undefined, failed: boolean) => {
+  const current = await prisma.orderItem.findUniqueOrThrow({ where: { id: itemId } });
+  const status = resolveItemStatus(current, failed);
+  await prisma.orderItem.update({
+    where: { id: itemId },
+    data: {
+      fulfillmentStatus: status,
+      fulfillmentError: status === 'FULFILLED' ? null : (error ?? current.fulfillmentError),
+      fulfilledAt: status === 'FULFILLED' ? new Date() : undefined,
+    },
+  });
+  return { current, status };
+};
+
+/**
+ * Store a key bought from G2A on its order item and email it to the customer
+ */
+const storeSupplierKey = async (item: FulfillmentItem, supplierOrderId: string, key: string) => {
+  const gameKey = await prisma.$transaction(async (tx) => {
+    const created = await tx.gameKey.create({
+      data: {
+        gameId: item.game.id,
+        ...encryptGameKey(key),
+        orderId: item.order.id,
+        orderItemId: item.id,
+        supplierOrderId,
+        activated: false,
+      },
+    });
+    await tx.orderItem.update({
+      where: { id: item.id },
+      data: { fulfilledQuantity: { increment: 1 } },
+    });
+    return created;
+  });
+
+  try {
+    // Gifted keys reach the recipient through the gift email instead
+    if (!item.order.gift) {
+      await sendGameKeyEmail(item.order.user.email, {
+        gameTitle: item.game.title,
+        key,
+        platform: item.game.platforms[0]?.platform.name || 'PC',
+      });
+    }
+  } catch (emailError) {
+    // The key is stored on the order, so a failed email does not fail the item
+    console.error(`[Fulfillment] Failed to send key ${gameKey.id} by email:`, emailError);
+  }
+};
+
+/**
+ * Deliver the outstanding units of an order item from the local key pool. The item row
+ * is locked while keys are claimed, so a retry running at the same time cannot deliver
+ * the same units twice. Units the pool cannot cover stay open until it is restocked.
+ */
+const fulfillFromPool = async (item: {
+  id: string;
+  order: { id: string; user: { email: string }; gift: { id: string } | null };
+  game: { id: string; title: string; platforms: Array<{ platform: { name: string } }> };
+}): Promise<ItemFulfillmentResult> => {
+  const allocation = await prisma.$transaction(async (tx) => {
+    await tx.$queryRaw`SELECT "id" FROM "order_items" WHERE "id" = ${item.id} FOR UPDATE`;
+    const current = await tx.orderItem.findUniqueOrThrow({ where: { id: item.id } });
+
+    const claimed = await claimPoolKeys(tx, item.game.id, getOutstandingQuantity(current), {
+      orderId: item.order.id,
+      orderItemId: item.id,
+    });
+    if (claimed.keyIds.length > 0) {
+      await tx.orderItem.update({
+        where: { id: item.id },
+        data: { fulfilledQuantity: { increment: claimed.keyIds.length } },
+      });
+    }
+    return claimed;
+  });
+
+  const delivered = allocation.keyIds.length;
+  // Gifted keys reach the recipient through the gift email instead
+  const keys =
+    delivered && !item.order.gift
+      ? await prisma.gameKey.findMany({ where: { id: { in: allocation.keyIds } } })
+      : [];
+  for (const gameKey of keys) {
+    try {
+      await sendGameKeyEmail(item.order.user.email, {
+        gameTitle: item.game.title,
+        key: decryptGameKey(gameKey),
+        platform: item.game.platforms[0]?.platform.name || 'PC',
+      });
+    } catch (emailError) {
+      // The key is stored on the order, so a failed email does not fail the item
+      console.error(`[Fulfillment] Failed to send key ${gameKey.id} by email:`, emailError);
+    }
+  }
+
+  if (delivered > 0) {
+    await syncPoolStock(item.game.id);
+  }
+
+  const error =
+    delivered < allocation.requested
+      ? `Not enough keys in the local pool (${delivered} of ${allocation.requested} delivered)`
+      : undefined;
+  const { status } = await recordItemOutcome(item.id, error, false);
+  return { itemId: item.id, status, delivered, refunded: 0, error };
+};
+
+/**
+ * Buy the outstanding units of an item from G2A. Callers hold the item's fulfilment lock.
+ */
+const buySupplierKeys = async (
+  item: FulfillmentItem,
+  g2aProductId: string,
+  client: G2AIntegrationClient,
+  options: { refundOnCriticalError?: boolean }
+): Promise<ItemFulfillmentResult> => {
+  const itemId = item.id;
+  // Re-read after locking: a run that just finished may have delivered the units already
+  const outstanding = getOutstandingQuantity(
+    await prisma.orderItem.findUniqueOrThrow({ where: { id: itemId } })
+  );
+  let delivered = 0;
+  let error: string | undefined;
+  let critical = false;
+
+  for (let unit = 0; unit < outstanding; unit++) {
+    let supplierOrderId: string | undefined;
+    try {
+      const g2aOrder = await client.orders.create({
+        product_id: g2aProductId,
+        currency: 'EUR',
+        max_price: Number(item.price),
+      });
+      supplierOrderId = g2aOrder.order_id;
+      await prisma.orderItem.update({
+        where: { id: itemId },
+        data: { supplierOrderIds: { push: supplierOrderId } },
+      });
+
+      await paySupplierOrder(client, supplierOrderId);
+
+      // Give G2A a moment to process the payment. The key can only be downloaded once.
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+      const keyResponse = await client.orders.getKey(supplierOrderId);
+
+      await storeSupplierKey(item, supplierOrderId, keyResponse.key);
+      delivered++;
+    } catch (purchaseError) {
+      error = purchaseError instanceof Error ? purchaseError.message : 'Unknown error';
+      critical =
+        purchaseError instanceof G2AError && CRITICAL_SUPPLIER_ERRORS.includes(purchaseError.code);
+
+      console.error(
+        `[Fulfillment] Failed to buy unit ${unit + 1}/${outstanding} of item ${itemId} (order ${item.order.id}, G2A order ${supplierOrderId ?? 'none'}):`,
+        purchaseError
+      );
+
+      if (critical) {
+        break;
+      }
+    }
+  }
+
+  const { current, status } = await recordItemOutcome(itemId, error, Boolean(error));
+
+  if (critical && options.refundOnCriticalError && getOutstandingQuantity(current) > 0) {
+    const refund = await refundOrderItem(itemId, `key purchase failed (${error})`);
+    return { itemId, status: 'REFUNDED', delivered, refunded: refund.units, error };
+  }
+
+  return { itemId, status, delivered, refunded: 0, error };
+};
+
+/**
+ * Deliver the outstanding units of an order item. Games without a G2A product, and items
+ * staff switched to the POOL supplier, are served from the local key pool. Otherwise the
+ * keys are bought from G2A, one supplier order per unit, and each key is stored and emailed
+ * as soon as it arrives, so a failure later on does not hold back keys that were already bought.
+ */
+export const fulfillOrderItem = async (
+  itemId: string,
+  client: G2AIntegrationClient | null,
+  options: { refundOnCriticalError?: boolean; supplier?: FulfillmentSupplier } = {}
+): Promise<ItemFulfillmentResult> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  const item = await prisma.orderItem.findUnique({
+    where: { id: itemId },
+    include: fulfillmentItemInclude,
+  });
+
+  if (!item) {
+    throw new AppError('Order item not found', 404);
+  }
+
+  const outstanding = getOutstandingQuantity(item);
+  if (outstanding > 0 && (options.supplier === 'POOL' || !item.game.g2aProductId)) {
+    return fulfillFromPool(item);
+  }
+  if (outstanding === 0 || !item.game.g2aProductId || !client) {
+    return { itemId, status: item.fulfillmentStatus, delivered: 0, refunded: 0 };
+  }
+
+  // Admin retries, the queue, reconciliation and review approval can all reach the same
+  // item. Only the run holding the lock buys keys, so G2A is never paid twice for a unit.
+  const locked = await prisma.orderItem.updateMany({
+    where: { id: itemId, ...unlockedItemWhere() },
+    data: { fulfillmentLockedAt: new Date() },
+  });
+  if (locked.count === 0) {
+    return {
+      itemId,
+      status: item.fulfillmentStatus,
+      delivered: 0,
+      refunded: 0,
+      error: 'Keys for this item are already being bought',
+      skipped: true,
+    };
+  }
+
+  try {
+    return await buySupplierKeys(item, item.game.g2aProductId, client, options);
+  } finally {
+    await prisma.orderItem.update({
+      where: { id: itemId },
+      data: { fulfillmentLockedAt: null },
+    });
+  }
+};
+
+/**
+ * Collect the keys of G2A orders that were bought for an item but never stored, e.g.
+ * because the process stopped between paying and downloading. Each G2A order is checked
+ * with its details first: unpaid orders hold no key, and a key can only be downloaded once.
+ */
+export const recoverSupplierKeys = async (
+  itemId: string,
+  client: G2AIntegrationClient
+): Promise<SupplierRecoveryResult> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  const item = await prisma.orderItem.findUnique({
+    where: { id: itemId },
+    include: { ...fulfillmentItemInclude, keys: { select: { supplierOrderId: true } } },
+  });
+
+  if (!item) {
+    throw new AppError('Order item not found', 404);
+  }
+
+  const stored = new Set(item.keys.map((key) => key.supplierOrderId));
+  const result: SupplierRecoveryResult = { itemId, recovered: 0, unpaid: [], lost: [] };
+  let outstanding = getOutstandingQuantity(item);
+
+  for (const supplierOrderId of item.supplierOrderIds) {
+    if (outstanding === 0) {
+      break;
+    }
+    if (stored.has(supplierOrderId)) {
+      continue;
+    }
+
+    const details = await client.orders.get(supplierOrderId);
+    if (details.status !== 'complete') {
+      result.unpaid.push(supplierOrderId);
+      continue;
+    }
+
+    try {
+      const keyResponse = await client.orders.getKey(supplierOrderId);
+      await storeSupplierKey(item, supplierOrderId, keyResponse.key);
+      result.recovered++;
+      outstanding--;
+    } catch (keyError) {
+      if (keyError instanceof G2AError && keyError.metadata?.errorCode === 'ORD004') {
+        result.lost.push(supplierOrderId);
+        continue;
+      }
+      throw keyError;
+    }
+  }
+
+  if (result.recovered > 0) {
+    await recordItemOutcome(itemId, undefined, false);
+  }
+
+  return result;
+};
+
+/**
+ * Refund the undelivered units of an order item to the customer's balance.
+ * The amount is the item's share of the order total, so an order-level promo discount
+ * is refunded proportionally, and never more than what is left to refund on the order.
+ */
+export const refundOrderItem = async (
+  itemId: string,
+  reason?: string
+): Promise<ItemRefundResult> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const item = await tx.orderItem.findUnique({
+      where: { id: itemId },
+      include: {
+        order: {
+          select: {
+            id: true,
+            userId: true,
+            status: true,
+            subtotal: true,
+            total: true,
+            paymentMethod: true,
+          },
+        },
+      },
+    });
+
+    if (!item) {
+      throw new AppError('Order item not found', 404);
+    }
+
+    if (item.order.status === 'CANCELLED') {
+      throw new AppError('Order is already cancelled', 400);
+    }
+
+    const units = getOutstandingQuantity(item);
+    if (units === 0) {
+      throw new AppError('All units of this item have already been delivered or refunded', 400);
+    }
+    // A run holding the purchase lock may have paid G2A for keys it has not stored yet
+    if (
+      item.fulfillmentLockedAt &&
+      item.fulfillmentLockedAt.getTime() > Date.now() - FULFILLMENT_LOCK_TTL_MS
+    ) {
+      throw new AppError('Keys for this item are being bought. Please try again later.', 409);
+    }
+
+    // Only apply while no other delivery, refund or purchase touched the item since it was read
+    const updated = await tx.orderItem.updateMany({
+      where: {
+        id: itemId,
+        fulfilledQuantity: item.fulfilledQuantity,
+        refundedQuantity: item.refundedQuantity,
+        ...unlockedItemWhere(),
+      },
+      data: {
+        refundedQuantity: { increment: units },
+        fulfillmentStatus: resolveItemStatus(
+          { ...item, refundedQuantity: item.refundedQuantity + units },
+          false
+        ),
+      },
+    });
+    if (updated.count === 0) {
+      throw new AppError('Order item was changed by another request. Please try again.', 409);
+    }
+
+    const subtotal = Number(item.order.subtotal);
+    const share = subtotal > 0 ? Number(item.order.total) / subtotal : 0;
+    const refunded = await tx.transaction.aggregate({
+      where: { orderId: item.order.id, type: 'REFUND', status: { in: ['COMPLETED', 'PENDING'] } },
+      _sum: { amount: true },
+    });
+    const remaining = Number(item.order.total) - Number(refunded._sum.amount ?? 0);
+    const amount = Math.max(
+      0,
+      Math.min(Number((Number(item.price) * units * share).toFixed(2)), remaining)
+    );
+
+    if (amount > 0) {
+      await tx.user.update({
+        where: { id: item.order.userId },
+        data: { balance: { increment: amount } },
+      });
+
+      await tx.transaction.create({
+        data: {
+          userId: item.order.userId,
+          orderId: item.order.id,
+          type: 'REFUND',
+          amount,
+          currency: 'EUR',
+          method: item.order.paymentMethod || 'balance',
+          status: 'COMPLETED',
+          description: `Refund for ${units} undelivered unit(s) of item ${itemId} in order ${item.order.id}${reason ? `: ${reason}` : ''}`,
+        },
+      });
+    }
+
+    console.log(
+      `[Fulfillment] Refunded ${units} unit(s) of item ${itemId} in order ${item.order.id}: ${amount} EUR`
+    );
+
+    return { itemId, units, amount };
+  });
+};
+
+/**
+ * Store the G2A order IDs of an order's items in externalOrderId (comma-separated)
+ * and return them
+ */
+export const recordSupplierOrderIds = async (orderId: string): Promise<string[]> => {
+  const supplierOrderIds = (
+    await prisma.orderItem.findMany({
+      where: { orderId },
+      select: { supplierOrderIds: true },
+    })
+  ).flatMap((item) => item.supplierOrderIds);
+  if (supplierOrderIds.length > 0) {
+    await prisma.order.update({
+      where: { id: orderId },
+      data: { externalOrderId: supplierOrderIds.join(',') },
+    });
+  }
+  return supplierOrderIds;
+};
+
+/**
+ * Move an order to the status that follows from its items and record why.
+ * Orders a staff member moved elsewhere by hand (e.g. cancelled) are left alone.
+ */
+export const settleOrderStatus = async (
+  orderId: string,
+  change: Omit<StatusChange, 'reason'>
+): Promise<OrderStatus> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    select: {
+      status: true,
+      items: {
+        select: {
+          quantity: true,
+          fulfilledQuantity: true,
+          refundedQuantity: true,
+          fulfillmentStatus: true,
+        },
+      },
+    },
+  });
+
+  if (!order) {
+    throw new AppError('Order not found', 404);
+  }
+
+  const status = deriveOrderStatus(order.items);
+  if (status !== order.status && !canTransition(order.status, status)) {
+    console.warn(
+      `[Fulfillment] Leaving order ${orderId} in ${order.status}; item state suggests ${status}`
+    );
+    return order.status;
+  }
+
+  const openItems = order.items.filter((item) => getOutstandingQuantity(item) > 0).length;
+  const refundedItems = order.items.filter((item) => item.refundedQuantity > 0).length;
+
+  await transitionOrderStatus(
+    orderId,
+    status,
+    { ...change, reason: describeDeliveryResult(status, openItems, refundedItems) },
+    {
+      data: {
+        paymentStatus:
+          status === 'COMPLETED' || status === 'PARTIALLY_COMPLETED'
+            ? 'COMPLETED'
+            : status === 'FAILED'
+              ? 'FAILED'
+              : 'PENDING',
+        completedAt: status === 'COMPLETED' ? new Date() : null,
+      },
+    }
+  );
+
+  if (status === 'COMPLETED' && order.status !== 'COMPLETED') {
+    await sendOrderInvoice(orderId);
+  }
+
+  return status;
+};
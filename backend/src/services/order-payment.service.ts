@@ -0,0 +1,431 @@
+import {
+  OrderStatus,
+  OrderStatusActor,
+  PaymentIntent,
+  PaymentIntentStatus,
+  Prisma,
+} from '@prisma/client';
+import prisma from '../config/database.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { G2AIntegrationClient } from '../lib/g2a/G2AIntegrationClient.js';
+import { OrderPaymentGateway, OrderPaymentResponse } from '../types/order.js';
+import { recordFulfillmentFailure } from './dead-letter.service.js';
+import { countAvailablePoolKeys } from './key-pool.service.js';
+import { createMolliePayment } from './mollie.service.js';
+import {
+  fulfillOrderItem,
+  getSupplierClient,
+  recordSupplierOrderIds,
+  settleOrderStatus,
+} from './order-fulfillment.service.js';
+import { transitionOrderStatus } from './order-status.service.js';
+import { createPayPalOrder } from './paypal.service.js';
+import { isAwaitingRelease, notifyPreorderPlaced } from './preorder.service.js';
+import { createStripeCheckoutSession } from './stripe.service.js';
+
+export const ORDER_PAYMENT_GATEWAYS: OrderPaymentGateway[] = ['stripe', 'paypal', 'mollie'];
+
+// Intents whose order was given up; a payment confirmed for them is credited to the balance
+const RELEASED_INTENT_STATUSES: PaymentIntentStatus[] = ['FAILED', 'EXPIRED', 'CANCELLED'];
+
+const orderPaymentInclude = {
+  user: { select: { email: true } },
+  order: {
+    select: {
+      id: true,
+      status: true,
+      promoCode: true,
+      riskAssessment: { select: { held: true } },
+      items: {
+        select: {
+          id: true,
+          gameId: true,
+          game: {
+            select: { title: true, isPreorder: true, releaseDate: true, g2aProductId: true },
+          },
+        },
+      },
+    },
+  },
+} satisfies Prisma.PaymentIntentInclude;
+
+type OrderPaymentIntent = Prisma.PaymentIntentGetPayload<{ include: typeof orderPaymentInclude }>;
+
+const orderPaymentLogger = {
+  audit: (operation: string, userId: string | undefined, data: object) => {
+    const auditData = {
+      timestamp: new Date().toISOString(),
+      operation,
+      userId: userId || 'system',
+      data,
+    };
+    console.log(`[Order Payment] [AUDIT] ${JSON.stringify(auditData, null, 2)}`);
+  },
+};
+
+export const formatOrderPayment = (intent: PaymentIntent): OrderPaymentResponse => ({
+  intentId: intent.id,
+  gateway: intent.gateway,
+  amount: Number(intent.gatewayAmount),
+  currency: intent.gatewayCurrency,
+  balanceAmount: Number(intent.balanceAmount),
+  status: intent.status.toLowerCase() as OrderPaymentResponse['status'],
+  checkoutUrl: intent.status === 'PENDING' ? intent.checkoutUrl || undefined : undefined,
+  expiresAt: intent.expiresAt.toISOString(),
+});
+
+const findOrderPayment = async (intentId: string): Promise<OrderPaymentIntent> => {
+  const intent = await prisma.paymentIntent.findUnique({
+    where: { id: intentId },
+    include: orderPaymentInclude,
+  });
+
+  if (!intent || !intent.orderId) {
+    throw new AppError('Order payment not found', 404);
+  }
+
+  return intent;
+};
+
+const invalidateOrderCache = async (orderId: string, userId: string) => {
+  try {
+    const { invalidateCache } = await import('./cache.service.js');
+    await invalidateCache(`order:${orderId}`);
+    await invalidateCache(`user:${userId}:orders`);
+  } catch (cacheError) {
+    console.warn('[Order Payment] Failed to invalidate cache:', cacheError);
+  }
+};
+
+/**
+ * Start the gateway checkout of an order's payment and store where the customer pays
+ */
+export const openOrderCheckout = async (intentId: string): Promise<OrderPaymentResponse> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  const intent = await findOrderPayment(intentId);
+  if (intent.status !== 'PENDING') {
+    throw new AppError('This payment is no longer open', 400);
+  }
+
+  const amount = Number(intent.gatewayAmount);
+  const returnUrl = `${process.env.FRONTEND_URL || 'http://localhost:5173'}/profile/orders`;
+
+  let checkout: { reference: string; url: string };
+  switch (intent.gateway) {
+    case 'stripe': {
+      const session = await createStripeCheckoutSession(
+        intent.userId,
+        amount,
+        intent.gatewayCurrency,
+        returnUrl,
+        returnUrl
+      );
+      checkout = { reference: session.sessionId, url: session.url };
+      break;
+    }
+    case 'paypal': {
+      const order = await createPayPalOrder(
+        intent.userId,
+        amount,
+        intent.gatewayCurrency,
+        returnUrl,
+        returnUrl
+      );
+      checkout = { reference: order.orderId, url: order.approvalUrl };
+      break;
+    }
+    case 'mollie': {
+      const payment = await createMolliePayment(
+        intent.userId,
+        amount,
+        intent.gatewayCurrency,
+        `Order ${intent.orderId}`,
+        returnUrl,
+        process.env.PAYMENT_WEBHOOK_URL ||
+          `http://localhost:${process.env.PORT || 3001}/api/payment/webhook`
+      );
+      checkout = { reference: payment.paymentId, url: payment.checkoutUrl };
+      break;
+    }
+    default:
+      throw new AppError(`Unsupported payment gateway: ${intent.gateway}`, 400);
+  }
+
+  const updated = await prisma.paymentIntent.update({
+    where: { id: intent.id },
+    data: { gatewayReference: checkout.reference, checkoutUrl: checkout.url },
+  });
+
+  return formatOrderPayment(updated);
+};
+
+/**
+ * The gateway confirmed the payment of an order: the balance part is kept, the gateway
+ * part is recorded and the order continues like one paid from the balance alone. A payment
+ * that arrives after the order was released is credited to the balance instead.
+ */
+export const confirmOrderPayment = async (
+  intentId: string,
+  payment: { transactionId: string; method: string; gatewayResponse?: object }
+): Promise<void> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  const intent = await findOrderPayment(intentId);
+  if (intent.status === 'COMPLETED') {
+    return;
+  }
+
+  const order = intent.order;
+  const gatewayAmount = Number(intent.gatewayAmount);
+  const released = intent.status !== 'PENDING' || order?.status !== 'AWAITING_PAYMENT';
+
+  const now = new Date();
+  const preorderGames = (order?.items ?? [])
+    .map((item) => item.game)
+    .filter((game) => isAwaitingRelease(game, now));
+  const poolStock = await countAvailablePoolKeys(
+    (order?.items ?? []).filter((item) => !item.game.g2aProductId).map((item) => item.gameId)
+  );
+  // Items without a G2A product or local keys are left for manual fulfilment
+  const automaticItems = (order?.items ?? []).filter(
+    (item) => item.game.g2aProductId || poolStock.get(item.gameId)
+  );
+  const nextStatus: OrderStatus = order?.riskAssessment?.held
+    ? 'ON_HOLD'
+    : preorderGames.length > 0
+      ? 'PREORDER'
+      : automaticItems.length > 0
+        ? 'PROCESSING'
+        : 'PENDING';
+
+  const confirmed = await prisma.$transaction(async (tx) => {
+    const claimed = await tx.paymentIntent.updateMany({
+      where: { id: intent.id, status: intent.status },
+      data: {
+        status: 'COMPLETED',
+        gatewayTransactionId: payment.transactionId,
+        failureReason: null,
+        completedAt: new Date(),
+      },
+    });
+    if (claimed.count === 0) {
+      return false;
+    }
+
+    if (released || !order) {
+      await tx.user.update({
+        where: { id: intent.userId },
+        data: { balance: { increment: gatewayAmount } },
+      });
+      const transaction = await tx.transaction.create({
+        data: {
+          userId: intent.userId,
+          type: 'TOP_UP',
+          amount: gatewayAmount,
+          currency: intent.gatewayCurrency,
+          method: payment.method,
+          status: 'COMPLETED',
+          description: `Late payment of order ${intent.orderId} credited to the balance`,
+          transactionHash: payment.transactionId,
+          gatewayResponse: payment.gatewayResponse as Prisma.InputJsonValue | undefined,
+        },
+      });
+      await tx.paymentIntent.update({
+        where: { id: intent.id },
+        data: { transactionId: transaction.id },
+      });
+      return true;
+    }
+
+    await tx.transaction.updateMany({
+      where: { orderId: order.id, type: 'PURCHASE', status: 'PENDING' },
+      data: { status: 'COMPLETED' },
+    });
+    const transaction = await tx.transaction.create({
+      data: {
+        userId: intent.userId,
+        orderId: order.id,
+        type: 'PURCHASE',
+        amount: -gatewayAmount,
+        currency: intent.gatewayCurrency,
+        method: payment.method,
+        status: 'COMPLETED',
+        description: `Order ${order.id} (${intent.gateway} part)`,
+        transactionHash: payment.transactionId,
+        gatewayResponse: payment.gatewayResponse as Prisma.InputJsonValue | undefined,
+      },
+    });
+    await tx.paymentIntent.update({
+      where: { id: intent.id },
+      data: { transactionId: transaction.id },
+    });
+    await transitionOrderStatus(
+      order.id,
+      nextStatus,
+      { actorType: 'WEBHOOK', reason: `Payment confirmed by ${intent.gateway}` },
+      { tx, data: { paymentStatus: 'COMPLETED' } }
+    );
+    return true;
+  });
+
+  if (!confirmed) {
+    // The expiry job or a failure webhook released the intent after it was read. The gateway
+    // still took the money, so confirm again against the released intent to credit it.
+    const current = await findOrderPayment(intentId);
+    if (RELEASED_INTENT_STATUSES.includes(current.status)) {
+      return confirmOrderPayment(intentId, payment);
+    }
+    return;
+  }
+
+  if (released || !order) {
+    orderPaymentLogger.audit('ORDER_PAYMENT_CREDITED', intent.userId, {
+      intentId: intent.id,
+      orderId: intent.orderId,
+      amount: gatewayAmount,
+    });
+    return;
+  }
+
+  let status: string = nextStatus;
+  if (nextStatus === 'PREORDER') {
+    await notifyPreorderPlaced(intent.user.email, preorderGames);
+  } else if (nextStatus === 'PROCESSING') {
+    let client: G2AIntegrationClient | null = null;
+    if (automaticItems.some((item) => item.game.g2aProductId)) {
+      try {
+        client = await getSupplierClient();
+      } catch (error) {
+        console.warn(`[Order Payment] Failed to get G2A client for order ${order.id}:`, error);
+      }
+    }
+
+    const errors: string[] = [];
+    for (const item of automaticItems) {
+      const result = await fulfillOrderItem(item.id, client, { refundOnCriticalError: true });
+      if (result.status === 'FAILED') {
+        errors.push(`${item.game.title}: ${result.error ?? 'Unknown error'}`);
+      }
+    }
+    await recordSupplierOrderIds(order.id);
+    status = await settleOrderStatus(order.id, { actorType: 'WEBHOOK' });
+
+    // Nothing retries a delivery started by a webhook, so staff pick failures up
+    if (errors.length > 0) {
+      try {
+        await recordFulfillmentFailure({
+          orderId: order.id,
+          source: 'SYNC',
+          payload: { orderId: order.id, userId: intent.userId, intentId: intent.id },
+          attempts: [{ error: errors.join('; '), failedAt: new Date() }],
+        });
+      } catch (deadLetterError) {
+        console.warn(
+          `[Order Payment] Failed to store the dead letter of order ${order.id}:`,
+          deadLetterError
+        );
+      }
+    }
+  }
+
+  orderPaymentLogger.audit('ORDER_PAYMENT_CONFIRMED', intent.userId, {
+    intentId: intent.id,
+    orderId: order.id,
+    gateway: intent.gateway,
+    amount: gatewayAmount,
+    balanceAmount: Number(intent.balanceAmount),
+    status,
+  });
+
+  await invalidateOrderCache(order.id, intent.userId);
+};
+
+/**
+ * The gateway payment of an order failed, was cancelled or expired: the order is cancelled
+ * and the part held from the balance goes back to it. Does nothing once the payment is no
+ * longer pending.
+ */
+export const releaseOrderPayment = async (
+  intentId: string,
+  release: {
+    status: 'FAILED' | 'CANCELLED' | 'EXPIRED';
+    reason: string;
+    actorType: OrderStatusActor;
+    transactionId?: string;
+  }
+): Promise<boolean> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  const intent = await findOrderPayment(intentId);
+  const order = intent.order;
+  const balanceAmount = Number(intent.balanceAmount);
+
+  const released = await prisma.$transaction(async (tx) => {
+    const claimed = await tx.paymentIntent.updateMany({
+      where: { id: intent.id, status: 'PENDING' },
+      data: {
+        status: release.status,
+        gatewayTransactionId: release.transactionId,
+        failureReason: release.reason,
+      },
+    });
+    if (claimed.count === 0) {
+      return false;
+    }
+
+    if (order?.status !== 'AWAITING_PAYMENT') {
+      return true;
+    }
+
+    await transitionOrderStatus(
+      order.id,
+      'CANCELLED',
+      { actorType: release.actorType, reason: release.reason },
+      { tx, data: { paymentStatus: release.status === 'CANCELLED' ? 'CANCELLED' : 'FAILED' } }
+    );
+
+    if (balanceAmount > 0) {
+      await tx.user.update({
+        where: { id: intent.userId },
+        data: { balance: { increment: balanceAmount } },
+      });
+    }
+    await tx.transaction.updateMany({
+      where: { orderId: order.id, type: 'PURCHASE', status: 'PENDING' },
+      data: { status: 'CANCELLED' },
+    });
+
+    // The promo code was counted at checkout, but the order was never paid
+    if (order.promoCode) {
+      await tx.promoCode.updateMany({
+        where: { code: order.promoCode, usedCount: { gt: 0 } },
+        data: { usedCount: { decrement: 1 } },
+      });
+    }
+    return true;
+  });
+
+  if (!released) {
+    return false;
+  }
+
+  orderPaymentLogger.audit('ORDER_PAYMENT_RELEASED', intent.userId, {
+    intentId: intent.id,
+    orderId: intent.orderId,
+    status: release.status,
+    reason: release.reason,
+    releasedBalance: order?.status === 'AWAITING_PAYMENT' ? balanceAmount : 0,
+  });
+
+  if (order) {
+    await invalidateOrderCache(order.id, intent.userId);
+  }
+  return true;
+};
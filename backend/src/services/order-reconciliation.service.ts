@@ -0,0 +1,265 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../config/database.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { G2AIntegrationClient } from '../lib/g2a/G2AIntegrationClient.js';
+import {
+  ReconciliationEntry,
+  ReconciliationOverview,
+  ReconciliationReport,
+} from '../types/order.js';
+import {
+  fulfillOrderItem,
+  getSupplierClient,
+  recordSupplierOrderIds,
+  recoverSupplierKeys,
+  refundOrderItem,
+  settleOrderStatus,
+} from './order-fulfillment.service.js';
+
+// Orders sitting in PROCESSING this long without a status change are treated as stuck
+const STUCK_AFTER_MINUTES = parseInt(process.env.ORDER_RECONCILE_AFTER_MINUTES || '30', 10);
+const RECONCILE_BATCH_SIZE = 50;
+const REPORT_HISTORY = 5;
+const QUEUED_JOB_STATES = ['active', 'waiting', 'delayed', 'prioritized', 'waiting-children'];
+
+// Runs started by the job and by staff must not work on the same orders at once
+let reconciliationRunning = false;
+
+const reconciliationRunInclude = {
+  triggeredBy: { select: { email: true } },
+} satisfies Prisma.OrderReconciliationRunInclude;
+
+type ReconciliationRunWithActor = Prisma.OrderReconciliationRunGetPayload<{
+  include: typeof reconciliationRunInclude;
+}>;
+
+const reconciliationLogger = {
+  audit: (operation: string, userId: string | undefined, data: object) => {
+    const auditData = {
+      timestamp: new Date().toISOString(),
+      operation,
+      userId: userId || 'system',
+      data,
+    };
+    console.log(`[Reconciliation] [AUDIT] ${JSON.stringify(auditData, null, 2)}`);
+  },
+};
+
+const stuckOrderWhere = (now: Date): Prisma.OrderWhereInput => {
+  const cutoff = new Date(now.getTime() - STUCK_AFTER_MINUTES * 60 * 1000);
+  return {
+    status: 'PROCESSING',
+    createdAt: { lt: cutoff },
+    statusHistory: { none: { createdAt: { gte: cutoff } } },
+  };
+};
+
+const toReconciliationReport = (run: ReconciliationRunWithActor): ReconciliationReport => ({
+  id: run.id,
+  trigger: run.trigger,
+  triggeredBy: run.triggeredBy?.email,
+  checked: run.checked,
+  completed: run.completed,
+  retried: run.retried,
+  refunded: run.refunded,
+  skipped: run.skipped,
+  failed: run.failed,
+  entries: run.entries as unknown as ReconciliationEntry[],
+  startedAt: run.startedAt.toISOString(),
+  finishedAt: run.finishedAt.toISOString(),
+});
+
+/**
+ * Whether the order still has a job waiting or running in the processing queue
+ */
+const hasQueuedJob = async (orderId: string): Promise<boolean> => {
+  try {
+    const { orderProcessingQueue } = await import('../queues/order-processing.queue.js');
+    const job = await orderProcessingQueue?.getJob(`order-${orderId}`);
+    return job ? QUEUED_JOB_STATES.includes(await job.getState()) : false;
+  } catch (error) {
+    console.warn(`[Reconciliation] Could not check the queue job of order ${orderId}:`, error);
+    return false;
+  }
+};
+
+/**
+ * Resolve one stuck order:
+ * 1. collect the keys of G2A orders that were paid before the order got stuck
+ * 2. retry the units that are still open
+ * 3. refund the units that failed again, so the customer's balance is not held any longer
+ * The order then moves to the status that follows from its items. Units waiting for the
+ * local key pool are left open for manual fulfilment, as at checkout.
+ */
+const reconcileOrder = async (
+  orderId: string,
+  client: G2AIntegrationClient | null
+): Promise<ReconciliationEntry> => {
+  const entry: ReconciliationEntry = {
+    orderId,
+    action: 'RETRIED',
+    status: 'PROCESSING',
+    recoveredKeys: 0,
+    deliveredKeys: 0,
+    refundedUnits: 0,
+    refundedAmount: 0,
+    notes: [],
+  };
+
+  if (await hasQueuedJob(orderId)) {
+    entry.action = 'SKIPPED';
+    entry.notes.push('Still queued for processing');
+    return entry;
+  }
+
+  const items = await prisma.orderItem.findMany({
+    where: { orderId },
+    select: { id: true, supplierOrderIds: true },
+  });
+
+  const bought = items.filter((item) => item.supplierOrderIds.length > 0);
+  if (client) {
+    for (const item of bought) {
+      const recovery = await recoverSupplierKeys(item.id, client);
+      entry.recoveredKeys += recovery.recovered;
+      if (recovery.lost.length > 0) {
+        entry.notes.push(
+          `Keys of G2A order(s) ${recovery.lost.join(', ')} were downloaded but never stored`
+        );
+      }
+    }
+  } else if (bought.length > 0) {
+    entry.notes.push('G2A is not configured, so the G2A orders already bought were not checked');
+  }
+
+  const failedItems: string[] = [];
+  for (const item of items) {
+    const result = await fulfillOrderItem(item.id, client);
+    entry.deliveredKeys += result.delivered;
+    if (result.skipped) {
+      entry.notes.push(`Item ${item.id} was skipped: another run is buying its keys`);
+    } else if (result.status === 'FAILED') {
+      failedItems.push(item.id);
+      entry.notes.push(`Item ${item.id} failed again: ${result.error ?? 'unknown error'}`);
+    }
+  }
+
+  for (const itemId of failedItems) {
+    const refund = await refundOrderItem(itemId, 'not delivered after the order got stuck');
+    entry.refundedUnits += refund.units;
+    entry.refundedAmount = Number((entry.refundedAmount + refund.amount).toFixed(2));
+  }
+
+  await recordSupplierOrderIds(orderId);
+  entry.status = await settleOrderStatus(orderId, { actorType: 'SYSTEM' });
+  entry.action =
+    entry.refundedUnits > 0 ? 'REFUNDED' : entry.status === 'COMPLETED' ? 'COMPLETED' : 'RETRIED';
+
+  return entry;
+};
+
+/**
+ * Find orders stuck in PROCESSING, e.g. because the process stopped during checkout or a
+ * queue job failed silently, and complete, retry or refund them. Every run that checked
+ * orders is stored as a report. Scheduled runs that found nothing to do are not stored.
+ */
+export const runOrderReconciliation = async (options: {
+  trigger: 'SCHEDULED' | 'MANUAL';
+  actorId?: string;
+}): Promise<ReconciliationReport> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  if (reconciliationRunning) {
+    throw new AppError('A reconciliation run is already in progress', 409);
+  }
+  reconciliationRunning = true;
+
+  try {
+    const startedAt = new Date();
+    const orders = await prisma.order.findMany({
+      where: stuckOrderWhere(startedAt),
+      orderBy: { createdAt: 'asc' },
+      take: RECONCILE_BATCH_SIZE,
+      select: { id: true },
+    });
+
+    const entries: ReconciliationEntry[] = [];
+    const client = orders.length > 0 ? await getSupplierClient() : null;
+    for (const order of orders) {
+      let entry: ReconciliationEntry;
+      try {
+        entry = await reconcileOrder(order.id, client);
+      } catch (error) {
+        console.error(`[Reconciliation] Failed to reconcile order ${order.id}:`, error);
+        entry = {
+          orderId: order.id,
+          action: 'FAILED',
+          status: 'PROCESSING',
+          recoveredKeys: 0,
+          deliveredKeys: 0,
+          refundedUnits: 0,
+          refundedAmount: 0,
+          notes: [error instanceof Error ? error.message : 'Unknown error'],
+        };
+      }
+      entries.push(entry);
+      reconciliationLogger.audit('ORDER_RECONCILED', options.actorId, entry);
+    }
+
+    const counts = {
+      checked: entries.length,
+      completed: entries.filter((entry) => entry.action === 'COMPLETED').length,
+      retried: entries.filter((entry) => entry.action === 'RETRIED').length,
+      refunded: entries.filter((entry) => entry.action === 'REFUNDED').length,
+      skipped: entries.filter((entry) => entry.action === 'SKIPPED').length,
+      failed: entries.filter((entry) => entry.action === 'FAILED').length,
+    };
+
+    if (counts.checked === 0 && options.trigger === 'SCHEDULED') {
+      return {
+        trigger: options.trigger,
+        ...counts,
+        entries,
+        startedAt: startedAt.toISOString(),
+        finishedAt: new Date().toISOString(),
+      };
+    }
+
+    const run = await prisma.orderReconciliationRun.create({
+      data: {
+        trigger: options.trigger,
+        triggeredById: options.actorId,
+        ...counts,
+        entries: entries as unknown as Prisma.InputJsonValue,
+        startedAt,
+      },
+      include: reconciliationRunInclude,
+    });
+
+    return toReconciliationReport(run);
+  } finally {
+    reconciliationRunning = false;
+  }
+};
+
+/**
+ * Orders stuck right now and the latest reconciliation reports, for the dashboard
+ */
+export const getReconciliationOverview = async (): Promise<ReconciliationOverview> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  const [stuckOrders, runs] = await Promise.all([
+    prisma.order.count({ where: stuckOrderWhere(new Date()) }),
+    prisma.orderReconciliationRun.findMany({
+      orderBy: { finishedAt: 'desc' },
+      take: REPORT_HISTORY,
+      include: reconciliationRunInclude,
+    }),
+  ]);
+
+  return { stuckOrders, runs: runs.map(toReconciliationReport) };
+};
@@ -0,0 +1,178 @@
+import { OrderStatus, OrderStatusActor, Prisma } from '@prisma/client';
+import prisma from '../config/database.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { OrderStatusHistoryResponse } from '../types/order.js';
+
+/**
+ * Allowed order status transitions. Every status change goes through this table.
+ */
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  PENDING: ['PROCESSING', 'CANCELLED'],
+  // Paid at the gateway it continues like a new order; failed or expired payments cancel it
+  AWAITING_PAYMENT: ['PENDING', 'PREORDER', 'ON_HOLD', 'PROCESSING', 'CANCELLED'],
+  // Delivery starts when the game is released or its keys arrive early
+  PREORDER: ['PROCESSING', 'CANCELLED'],
+  // Approval continues like a new order; rejection cancels and refunds
+  ON_HOLD: ['PENDING', 'PREORDER', 'PROCESSING', 'CANCELLED'],
+  // Back to PENDING hands an order without automatic delivery over to manual fulfilment
+  PROCESSING: ['PENDING', 'PARTIALLY_COMPLETED', 'COMPLETED', 'FAILED', 'CANCELLED'],
+  // Completes once the remaining items are delivered or refunded
+  PARTIALLY_COMPLETED: ['COMPLETED', 'CANCELLED'],
+  // Completed orders can only be cancelled for a refund
+  COMPLETED: ['CANCELLED'],
+  // Failed orders can be retried as a whole or item by item
+  FAILED: ['PENDING', 'PROCESSING', 'PARTIALLY_COMPLETED', 'COMPLETED', 'CANCELLED'],
+  CANCELLED: [],
+};
+
+export const canTransition = (from: OrderStatus, to: OrderStatus): boolean =>
+  ORDER_STATUS_TRANSITIONS[from].includes(to);
+
+export const assertTransition = (from: OrderStatus, to: OrderStatus): void => {
+  if (!canTransition(from, to)) {
+    const allowed = ORDER_STATUS_TRANSITIONS[from];
+    throw new AppError(
+      `Invalid status transition from ${from} to ${to}. Allowed transitions: ${allowed.join(', ') || 'none'}`,
+      400
+    );
+  }
+};
+
+export interface StatusChange {
+  actorType: OrderStatusActor;
+  actorId?: string;
+  reason?: string;
+}
+
+/**
+ * Record the status a new order starts in
+ */
+export const recordInitialStatus = async (
+  db: Prisma.TransactionClient,
+  orderId: string,
+  status: OrderStatus,
+  change: StatusChange
+): Promise<void> => {
+  await db.orderStatusHistory.create({
+    data: { orderId, fromStatus: null, toStatus: status, ...change },
+  });
+};
+
+/**
+ * Move an order to a new status and record the change.
+ * The update only applies while the order still has the status that was validated,
+ * so a concurrent change cannot slip an illegal jump through.
+ * `data` holds other order fields to update together with the status.
+ */
+export const transitionOrderStatus = async (
+  orderId: string,
+  to: OrderStatus,
+  change: StatusChange,
+  options: {
+    tx?: Prisma.TransactionClient;
+    data?: Omit<Prisma.OrderUpdateManyMutationInput, 'status'>;
+  } = {}
+): Promise<{ from: OrderStatus; changed: boolean }> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  const apply = async (db: Prisma.TransactionClient) => {
+    const order = await db.order.findUnique({ where: { id: orderId }, select: { status: true } });
+    if (!order) {
+      throw new AppError('Order not found', 404);
+    }
+
+    if (order.status === to) {
+      if (options.data) {
+        await db.order.update({ where: { id: orderId }, data: options.data });
+      }
+      return { from: order.status, changed: false };
+    }
+
+    assertTransition(order.status, to);
+
+    const updated = await db.order.updateMany({
+      where: { id: orderId, status: order.status },
+      data: { ...options.data, status: to },
+    });
+    if (updated.count === 0) {
+      throw new AppError('Order status was changed by another request. Please try again.', 409);
+    }
+
+    await db.orderStatusHistory.create({
+      data: { orderId, fromStatus: order.status, toStatus: to, ...change },
+    });
+
+    return { from: order.status, changed: true };
+  };
+
+  return options.tx ? apply(options.tx) : prisma.$transaction(apply);
+};
+
+/**
+ * Reason recorded when key delivery settles an order
+ */
+export const describeDeliveryResult = (
+  status: OrderStatus,
+  openItems: number,
+  refundedItems = 0
+): string => {
+  if (status === 'FAILED') {
+    return refundedItems > 0 && openItems === 0
+      ? 'No keys could be delivered. Payment refunded'
+      : 'No keys could be delivered';
+  }
+  if (status === 'PENDING') {
+    return 'Awaiting manual fulfilment';
+  }
+  if (status === 'PARTIALLY_COMPLETED') {
+    return `Keys delivered; ${openItems} item(s) awaiting delivery or refund`;
+  }
+  return refundedItems > 0
+    ? `Delivered with ${refundedItems} item(s) refunded`
+    : 'All keys delivered';
+};
+
+type HistoryEntry = Prisma.OrderStatusHistoryGetPayload<{
+  include: { actor: { select: { id: true; email: true; nickname: true } } };
+}>;
+
+export const statusHistoryInclude = {
+  orderBy: { createdAt: 'asc' },
+  include: { actor: { select: { id: true, email: true, nickname: true } } },
+} satisfies Prisma.Order$statusHistoryArgs;
+
+/**
+ * Format the history for admins, including who made each change and why
+ */
+export const formatStatusHistory = (entries: HistoryEntry[]): OrderStatusHistoryResponse[] =>
+  entries.map((entry) => ({
+    id: entry.id,
+    fromStatus: entry.fromStatus || undefined,
+    toStatus: entry.toStatus,
+    actorType: entry.actorType,
+    reason: entry.reason || undefined,
+    actor: entry.actor
+      ? {
+          id: entry.actor.id,
+          email: entry.actor.email,
+          nickname: entry.actor.nickname || undefined,
+        }
+      : undefined,
+    createdAt: entry.createdAt.toISOString(),
+  }));
+
+/**
+ * Format the history for the customer. Staff identities and internal notes stay hidden.
+ */
+export const formatCustomerStatusHistory = (
+  entries: Array<Pick<HistoryEntry, 'id' | 'fromStatus' | 'toStatus' | 'actorType' | 'createdAt'>>
+): OrderStatusHistoryResponse[] =>
+  entries.map((entry) => ({
+    id: entry.id,
+    fromStatus: entry.fromStatus || undefined,
+    toStatus: entry.toStatus,
+    actorType: entry.actorType,
+    createdAt: entry.createdAt.toISOString(),
+  }));
@@ -1,10 +1,34 @@
+import { Prisma } from '@prisma/client';
 import prisma from '../config/database.js';
 import { CreateOrderRequest, OrderResponse } from '../types/order.js';
 import { AppError } from '../middleware/errorHandler.js';
 import { validateGameStock } from './g2a.service.js';
-import { G2AError, G2AErrorCode } from '../lib/g2a/errors/G2AError.js';
-import { sendGameKeyEmail } from './email.service.js';
 import { G2AIntegrationClient } from '../lib/g2a/G2AIntegrationClient.js';
+import {
+  formatCustomerStatusHistory,
+  recordInitialStatus,
+  transitionOrderStatus,
+} from './order-status.service.js';
+import {
+  ItemFulfillmentResult,
+  fulfillOrderItem,
+  getSupplierClient,
+  recordSupplierOrderIds,
+  settleOrderStatus,
+} from './order-fulfillment.service.js';
+import { countAvailablePoolKeys } from './key-pool.service.js';
+import { maskGameKey } from '../utils/game-key-crypto.js';
+import { formatOrderGift, validateGiftRequest } from './gift.service.js';
+import { isAwaitingRelease, notifyPreorderPlaced } from './preorder.service.js';
+import { assessOrderRisk } from './risk.service.js';
+import { recordFulfillmentFailure } from './dead-letter.service.js';
+import {
+  ORDER_PAYMENT_GATEWAYS,
+  formatOrderPayment,
+  openOrderCheckout,
+  releaseOrderPayment,
+} from './order-payment.service.js';
+import { getPaymentIntentExpiry } from './payment.service.js';
 
 /**
  * Structured logger for Order operations with audit logging
@@ -61,7 +85,11 @@ export const createOrder = async (
   userId: string,
   data: CreateOrderRequest
 ): Promise<OrderResponse> => {
-  const { items, promoCode } = data;
+  const { items, promoCode, gift, payment } = data;
+
+  if (payment && !ORDER_PAYMENT_GATEWAYS.includes(payment.gateway)) {
+    throw new AppError(`Payment gateway must be one of ${ORDER_PAYMENT_GATEWAYS.join(', ')}`, 400);
+  }
 
   // Audit log: Order creation started
   orderLogger.audit('ORDER_CREATE_START', userId, 'pending', {
@@ -80,6 +108,8 @@ export const createOrder = async (
     throw new AppError('User not found', 404);
   }
 
+  const giftData = gift ? validateGiftRequest(gift, user.email) : null;
+
   // Get games and calculate totals
   const gameIds = items.map((item) => item.gameId);
   const games = await prisma.game.findMany({
@@ -95,6 +125,16 @@ export const createOrder = async (
     throw new AppError('Some games not found', 404);
   }
 
+  // Games that are not released yet are paid now and delivered on release
+  const now = new Date();
+  const preorderGames = games.filter((game) => isAwaitingRelease(game, now));
+  const isPreorder = preorderGames.length > 0;
+
+  // Keys in the local pool for games that are not sold through G2A
+  const poolStock = await countAvailablePoolKeys(
+    games.filter((game) => !game.g2aProductId).map((game) => game.id)
+  );
+
   // Check stock (both local and G2A if applicable)
   for (const item of items) {
     const game = games.find((g) => g.id === item.gameId);
@@ -102,6 +142,19 @@ export const createOrder = async (
       throw new AppError(`Game ${game?.title || item.gameId} is out of stock`, 400);
     }
 
+    // Keys for a preorder are only needed once the game is released
+    if (preorderGames.includes(game)) {
+      continue;
+    }
+
+    const available = poolStock.get(game.id) ?? 0;
+    if (!game.g2aProductId && available > 0 && available < item.quantity) {
+      throw new AppError(
+        `Only ${available} key(s) of ${game.title} are in stock, requested: ${item.quantity}`,
+        400
+      );
+    }
+
     // Validate G2A stock if game has G2A product ID
     if (game.g2aProductId) {
       try {
@@ -171,8 +224,18 @@ export const createOrder = async (
 
   const total = subtotal - discount;
 
+  // With a gateway the balance pays what it can (unless the customer opts out) and the
+  // gateway the rest. The order then waits for the gateway to confirm its part
+  const balanceAmount = payment
+    ? payment.useBalance === false
+      ? 0
+      : Math.min(Math.max(Number(user.balance), 0), total)
+    : total;
+  const gatewayAmount = Number((total - balanceAmount).toFixed(2));
+  const awaitingPayment = gatewayAmount > 0;
+
   // Check balance
-  if (Number(user.balance) < total) {
+  if (!payment && Number(user.balance) < total) {
     orderLogger.audit('ORDER_CREATE_FAILED', userId, 'failed', {
       reason: 'INSUFFICIENT_BALANCE',
       userBalance: Number(user.balance),
@@ -182,43 +245,12 @@ export const createOrder = async (
     throw new AppError('Insufficient balance', 400);
   }
 
-  // Check for existing order with same items (idempotency check)
-  // This is a simple check - in production, you might want a more sophisticated approach
-  const existingOrder = await prisma.order.findFirst({
-    where: {
-      userId,
-      status: { in: ['PENDING', 'PROCESSING'] },
-      createdAt: {
-        gte: new Date(Date.now() - 5 * 60 * 1000), // Within last 5 minutes
-      },
-    },
-    include: {
-      items: true,
-    },
-  });
-
-  if (existingOrder && 'items' in existingOrder && Array.isArray(existingOrder.items)) {
-    // Check if items match (simple idempotency check)
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const existingItemIds = existingOrder.items
-      .map((i: any) => i.gameId)
-      .sort()
-      .join(',');
-    const newItemIds = items
-      .map((i) => i.gameId)
-      .sort()
-      .join(',');
-
-    if (existingItemIds === newItemIds) {
-      // Return existing order to prevent duplicate
-      const orderResponse = await getOrderById(userId, existingOrder.id);
-      if (orderResponse) {
-        return orderResponse;
-      }
-    }
-  }
+  // Orders scoring above the fraud threshold are paid now but wait for a staff review
+  // before any keys are bought
+  const risk = await assessOrderRisk(userId, { total, items: orderItems });
 
   // Create order, deduct balance, and create transaction atomically
+  let paymentIntentId: string | undefined;
   const order = await prisma.$transaction(async (tx) => {
     orderLogger.info('Starting order transaction', {
       userId,
@@ -227,19 +259,36 @@ export const createOrder = async (
       promoCode: promoCode || null,
     });
 
-    // Create order with PENDING status initially
+    // Create order with PENDING status initially, PREORDER until the release, ON_HOLD
+    // until a fraud review, or AWAITING_PAYMENT until the gateway confirms its part
     const newOrder = await tx.order.create({
       data: {
         userId,
-        status: 'PENDING', // Will be updated to PROCESSING when G2A API call starts
+        status: awaitingPayment
+          ? 'AWAITING_PAYMENT'
+          : risk.held
+            ? 'ON_HOLD'
+            : isPreorder
+              ? 'PREORDER'
+              : 'PENDING', // PENDING is updated to PROCESSING when G2A API call starts
         subtotal,
         discount,
         total,
         promoCode,
+        paymentMethod: awaitingPayment ? payment?.gateway : undefined,
         paymentStatus: 'PENDING',
         items: {
           create: orderItems,
         },
+        ...(giftData && { gift: { create: giftData } }),
+        riskAssessment: {
+          create: {
+            score: risk.score,
+            threshold: risk.threshold,
+            signals: risk.signals as unknown as Prisma.InputJsonArray,
+            held: risk.held,
+          },
+        },
       },
       include: {
         items: {
@@ -258,46 +307,80 @@ export const createOrder = async (
             },
           },
         },
+        gift: true,
       },
     });
 
-    // Deduct balance
-    await tx.user.update({
-      where: { id: userId },
-      data: {
-        balance: {
-          decrement: total,
-        },
-      },
+    await recordInitialStatus(tx, newOrder.id, newOrder.status, {
+      actorType: 'CUSTOMER',
+      actorId: userId,
+      reason: awaitingPayment
+        ? `Waiting for the ${payment?.gateway} payment`
+        : risk.held
+          ? `Held for a fraud review (score ${risk.score})`
+          : undefined,
     });
 
-    // Create transaction
-    await tx.transaction.create({
-      data: {
-        userId,
-        orderId: newOrder.id,
-        type: 'PURCHASE',
-        amount: -total,
-        currency: 'EUR',
-        status: 'COMPLETED',
-        description: `Order ${newOrder.id}`,
-      },
-    });
+    if (balanceAmount > 0) {
+      // Deduct balance
+      await tx.user.update({
+        where: { id: userId },
+        data: {
+          balance: {
+            decrement: balanceAmount,
+          },
+        },
+      });
 
-    // Update order status to PROCESSING only if there are G2A games
-    // Otherwise keep it as PENDING (manual processing)
-    const hasG2AGames = items.some((item) => {
-      const game = games.find((g) => g.id === item.gameId);
-      return game?.g2aProductId;
-    });
+      // Create transaction; the balance part of an order paid through a gateway is held
+      // until the gateway confirms its part
+      await tx.transaction.create({
+        data: {
+          userId,
+          orderId: newOrder.id,
+          type: 'PURCHASE',
+          amount: -balanceAmount,
+          currency: 'EUR',
+          status: awaitingPayment ? 'PENDING' : 'COMPLETED',
+          description: awaitingPayment
+            ? `Order ${newOrder.id} (balance part)`
+            : `Order ${newOrder.id}`,
+        },
+      });
+    }
 
-    if (hasG2AGames) {
-      await tx.order.update({
-        where: { id: newOrder.id },
+    if (awaitingPayment && payment) {
+      const paymentIntent = await tx.paymentIntent.create({
         data: {
-          status: 'PROCESSING',
+          userId,
+          orderId: newOrder.id,
+          amount: gatewayAmount,
+          currency: 'EUR',
+          creditAmount: gatewayAmount,
+          gateway: payment.gateway,
+          gatewayCurrency: 'EUR',
+          gatewayAmount,
+          balanceAmount,
+          expiresAt: getPaymentIntentExpiry(),
         },
       });
+      paymentIntentId = paymentIntent.id;
+    }
+
+    // Update order status to PROCESSING only if keys are delivered automatically, from G2A
+    // or the local key pool. Otherwise keep it as PENDING (manual processing)
+    const hasAutomaticDelivery = items.some((item) => {
+      const game = games.find((g) => g.id === item.gameId);
+      return game?.g2aProductId || poolStock.get(item.gameId);
+    });
+
+    if (hasAutomaticDelivery && !isPreorder && !risk.held && !awaitingPayment) {
+      await transitionOrderStatus(
+        newOrder.id,
+        'PROCESSING',
+        { actorType: 'SYSTEM', reason: 'Automatic key delivery started' },
+        { tx }
+      );
     }
 
     orderLogger.info('Order transaction completed successfully', {
@@ -315,9 +398,14 @@ export const createOrder = async (
     total,
     subtotal,
     discount,
+    balanceAmount,
+    gatewayAmount,
     itemsCount: items.length,
     status: order.status,
     paymentStatus: order.paymentStatus,
+    preorder: isPreorder,
+    riskScore: risk.score,
+    gift: giftData ? { deliverAt: giftData.deliverAt.toISOString() } : null,
   });
 
   // Invalidate cache after order creation
@@ -335,6 +423,59 @@ export const createOrder = async (
     });
   }
 
+  // Orders waiting for a gateway continue once its webhook confirms the payment
+  if (paymentIntentId) {
+    try {
+      await openOrderCheckout(paymentIntentId);
+    } catch (checkoutError) {
+      orderLogger.error('Failed to start the gateway checkout', checkoutError, {
+        orderId: order.id,
+        gateway: payment?.gateway,
+      });
+      await releaseOrderPayment(paymentIntentId, {
+        status: 'FAILED',
+        reason: 'Payment could not be started',
+        actorType: 'SYSTEM',
+      });
+      throw checkoutError;
+    }
+
+    const awaitingResponse = await getOrderById(userId, order.id);
+    if (!awaitingResponse) {
+      throw new AppError('Order not found', 404);
+    }
+    return awaitingResponse;
+  }
+
+  // Held orders are delivered once staff approve them, and preorders by the preorder job
+  // once their games are released
+  if (risk.held || isPreorder) {
+    if (!risk.held) {
+      await notifyPreorderPlaced(user.email, preorderGames);
+    }
+    const deferredResponse = await getOrderById(userId, order.id);
+    if (!deferredResponse) {
+      throw new AppError('Order not found', 404);
+    }
+    return deferredResponse;
+  }
+
+  // What the queue worker gets, and what a failed delivery keeps in the dead-letter store
+  const queueData = {
+    orderId: order.id,
+    userId,
+    userEmail: user.email,
+    items: order.items.map((item) => ({
+      gameId: item.gameId,
+      gameTitle: item.game.title,
+      quantity: item.quantity,
+      g2aProductId: item.game.g2aProductId,
+      price: Number(item.price),
+      platforms: item.game.platforms || [],
+    })),
+    total,
+  };
+
   // Try to add order to processing queue (if available)
   // If queue is not available, process synchronously
   try {
@@ -342,21 +483,6 @@ export const createOrder = async (
       await import('../queues/order-processing.queue.js');
 
     if (isQueueAvailable()) {
-      const queueData = {
-        orderId: order.id,
-        userId,
-        userEmail: user.email,
-        items: order.items.map((item) => ({
-          gameId: item.gameId,
-          gameTitle: item.game.title,
-          quantity: item.quantity,
-          g2aProductId: item.game.g2aProductId,
-          price: Number(item.price),
-          platforms: item.game.platforms || [],
-        })),
-        total,
-      };
-
       const addedToQueue = await addOrderToQueue(queueData);
       if (addedToQueue) {
         orderLogger.info('Order added to processing queue', {
@@ -364,12 +490,9 @@ export const createOrder = async (
           userId,
         });
 
-        // Update order status to PROCESSING
-        await prisma.order.update({
-          where: { id: order.id },
-          data: {
-            status: 'PROCESSING',
-          },
+        await transitionOrderStatus(order.id, 'PROCESSING', {
+          actorType: 'SYSTEM',
+          reason: 'Queued for key delivery',
         });
 
         // Return order immediately (processing happens in background)
@@ -392,8 +515,12 @@ export const createOrder = async (
             quantity: item.quantity,
             price: Number(item.price),
             discount: Number(item.discount),
+            fulfillmentStatus: item.fulfillmentStatus,
+            fulfilledQuantity: item.fulfilledQuantity,
+            refundedQuantity: item.refundedQuantity,
           })),
           keys: [],
+          gift: order.gift ? formatOrderGift(order.gift) : undefined,
         };
       }
     }
@@ -406,42 +533,11 @@ export const createOrder = async (
 
   // Purchase keys from G2A using Orders API (create -> pay -> get key)
   // This runs synchronously if queue is not available or failed
-  const gameKeys: Array<{
-    id: string;
-    gameId: string;
-    key: string;
-    orderId: string | null;
-    activated: boolean;
-    activationDate: Date | null;
-    createdAt: Date;
-  }> = [];
-  const purchaseErrors: Array<{ gameId: string; error: string; g2aOrderId?: string }> = [];
-  const g2aOrderIds: string[] = []; // Track G2A order IDs for this order
-
-  // Get G2A client instance
   let g2aClient: G2AIntegrationClient | null = null;
   try {
-    // Get G2A config from database or environment
-    const { getG2AConfig } = await import('../config/g2a.js');
-    const g2aConfig = await getG2AConfig();
-
-    if (g2aConfig.apiKey && g2aConfig.apiHash) {
-      const { getDefaultConfig } = await import('../lib/g2a/config/defaults.js');
-      const defaultConfig = getDefaultConfig(g2aConfig.env || 'sandbox');
-
-      g2aClient = await G2AIntegrationClient.getInstance({
-        env: g2aConfig.env || 'sandbox',
-        apiKey: g2aConfig.apiKey,
-        apiHash: g2aConfig.apiHash,
-        email: g2aConfig.email || 'Welcome@nalytoo.com',
-        baseUrl: g2aConfig.baseUrl || defaultConfig.baseUrl,
-        timeoutMs: g2aConfig.timeoutMs || defaultConfig.timeoutMs,
-      });
-
-      orderLogger.info('G2A client initialized for order processing', {
-        orderId: order.id,
-        env: g2aConfig.env,
-      });
+    g2aClient = await getSupplierClient();
+    if (g2aClient) {
+      orderLogger.info('G2A client initialized for order processing', { orderId: order.id });
     }
   } catch (error) {
     orderLogger.warn('Failed to get G2A client, continuing without G2A', {
@@ -451,248 +547,72 @@ export const createOrder = async (
     // Continue without G2A if client unavailable (for non-G2A games)
   }
 
-  for (const item of items) {
-    const game = games.find((g) => g.id === item.gameId)!;
+  // Each item is fulfilled on its own: keys that were bought are delivered even when
+  // another item fails, and failed items stay open for a retry or refund
+  const results: ItemFulfillmentResult[] = [];
+  for (const item of order.items) {
+    if (!item.game.g2aProductId && !poolStock.get(item.gameId)) {
+      // No G2A product and no local keys - skip processing (manual processing required)
+      orderLogger.info('No G2A product or local keys, skipping automatic delivery', {
+        orderId: order.id,
+        gameId: item.gameId,
+        gameTitle: item.game.title,
+      });
+      continue;
+    }
 
-    if (game.g2aProductId && g2aClient) {
-      // Process each quantity as a separate G2A order (G2A API creates one order per product)
-      for (let qty = 0; qty < item.quantity; qty++) {
-        try {
-          // Step 1: Create G2A order
-          const g2aOrder = await g2aClient.orders.create({
-            product_id: game.g2aProductId,
-            currency: 'EUR',
-            max_price: Number(game.price), // Max price per item
-          });
-
-          const g2aOrderId = g2aOrder.order_id;
-          g2aOrderIds.push(g2aOrderId);
-
-          orderLogger.info('G2A order created', {
-            orderId: order.id,
-            g2aOrderId,
-            gameId: game.id,
-            itemNumber: qty + 1,
-            totalItems: item.quantity,
-          });
-
-          // Step 2: Pay for the G2A order
-          let paymentResult;
-          try {
-            paymentResult = await g2aClient.orders.pay(g2aOrderId);
-            orderLogger.info('G2A order paid', {
-              orderId: order.id,
-              g2aOrderId,
-              transactionId: paymentResult.transaction_id,
-            });
-          } catch (payError) {
-            // Handle payment errors
-            if (
-              payError instanceof G2AError &&
-              payError.code === G2AErrorCode.G2A_INVALID_REQUEST
-            ) {
-              // Check if it's a retryable error (ORD03 - payment not ready yet)
-              const errorCode = payError.metadata?.errorCode;
-              if (errorCode === 'ORD03' && payError.metadata?.retryable) {
-                // Payment not ready yet - retry after delay
-                orderLogger.warn('G2A payment not ready, retrying', {
-                  orderId: order.id,
-                  g2aOrderId,
-                  errorCode: 'ORD03',
-                });
-                await new Promise((resolve) => setTimeout(resolve, 2000)); // Wait 2 seconds
-                try {
-                  await g2aClient.orders.pay(g2aOrderId);
-                } catch {
-                  // Retry failed, throw original error
-                  throw payError;
-                }
-              } else {
-                throw payError;
-              }
-            } else {
-              throw payError;
-            }
-          }
-
-          // Step 3: Get order key (can only be downloaded once)
-          // Wait a bit for order to be processed after payment
-          await new Promise((resolve) => setTimeout(resolve, 1000));
-
-          const keyResponse = await g2aClient.orders.getKey(g2aOrderId);
-          const gameKeyValue = keyResponse.key;
-
-          // Create game key record
-          // NOTE: Game keys are currently stored in plain text in the database.
-          // For production, consider implementing encryption at rest:
-          // - Use AES-256 encryption for key field
-          // - Store encryption key in secure key management service
-          // - Decrypt keys only when needed for delivery
-          const gameKey = await prisma.gameKey.create({
-            data: {
-              gameId: game.id,
-              key: gameKeyValue, // TODO: Consider encrypting this field for production
-              orderId: order.id,
-              activated: false,
-            },
-          });
-          gameKeys.push(gameKey);
-
-          // Send email with key
-          try {
-            await sendGameKeyEmail(user.email, {
-              gameTitle: game.title,
-              key: gameKeyValue,
-              platform: game.platforms[0]?.platform.name || 'PC',
-            });
-            orderLogger.info('Game key email sent', {
-              orderId: order.id,
-              gameId: game.id,
-              keyId: gameKey.id,
-              userEmail: user.email,
-            });
-          } catch (emailError) {
-            orderLogger.error('Failed to send game key email', emailError, {
-              orderId: order.id,
-              gameId: game.id,
-              keyId: gameKey.id,
-              userEmail: user.email,
-            });
-            // Don't fail order if email fails - key is still delivered
-          }
-        } catch (error) {
-          // If error occurs for one item, log but continue with next item
-          const errorMessage =
-            error instanceof G2AError
-              ? error.message
-              : error instanceof Error
-                ? error.message
-                : 'Unknown error';
-
-          purchaseErrors.push({
-            gameId: game.id,
-            error: errorMessage,
-          });
-
-          orderLogger.error('Failed to purchase G2A key', error, {
-            orderId: order.id,
-            gameId: game.id,
-            itemNumber: qty + 1,
-            totalItems: item.quantity,
-            g2aOrderId: g2aOrderIds[g2aOrderIds.length - 1],
-          });
-
-          // If it's a critical error, handle refund in transaction
-          if (
-            error instanceof G2AError &&
-            (error.code === G2AErrorCode.G2A_OUT_OF_STOCK ||
-              error.code === G2AErrorCode.G2A_AUTH_FAILED ||
-              error.code === G2AErrorCode.G2A_API_ERROR)
-          ) {
-            // Use transaction to ensure atomic refund
-            await prisma.$transaction(async (tx) => {
-              // Mark order as failed
-              await tx.order.update({
-                where: { id: order.id },
-                data: {
-                  status: 'FAILED',
-                  paymentStatus: 'FAILED',
-                },
-              });
-
-              // Refund user balance
-              await tx.user.update({
-                where: { id: userId },
-                data: {
-                  balance: {
-                    increment: total,
-                  },
-                },
-              });
-
-              // Create refund transaction
-              await tx.transaction.create({
-                data: {
-                  userId,
-                  orderId: order.id,
-                  type: 'REFUND',
-                  amount: total,
-                  currency: 'EUR',
-                  status: 'COMPLETED',
-                  description: `Refund for failed order ${order.id}`,
-                },
-              });
-            });
-
-            // Audit log: Order failed and refunded
-            orderLogger.audit('ORDER_FAILED_REFUNDED', userId, order.id, {
-              reason: errorMessage,
-              errorCode: error instanceof G2AError ? error.code : 'UNKNOWN',
-              refundAmount: total,
-            });
-
-            throw new AppError(`Order failed: ${errorMessage}. Balance has been refunded.`, 400);
-          }
-          // For other errors, continue with next item
-        }
-      }
-    } else {
-      // Non-G2A game - skip processing (manual processing required)
-      orderLogger.info('Non-G2A game, skipping G2A processing', {
+    const result = await fulfillOrderItem(item.id, g2aClient, { refundOnCriticalError: true });
+    results.push(result);
+    if (result.error) {
+      orderLogger.warn('Order item not fully delivered', {
         orderId: order.id,
-        gameId: game.id,
-        gameTitle: game.title,
+        itemId: item.id,
+        gameId: item.gameId,
+        delivered: result.delivered,
+        refunded: result.refunded,
+        error: result.error,
       });
     }
   }
 
-  // Store G2A order IDs in externalOrderId (comma-separated if multiple)
-  if (g2aOrderIds.length > 0) {
-    await prisma.order.update({
-      where: { id: order.id },
-      data: {
-        externalOrderId: g2aOrderIds.join(','), // Store all G2A order IDs
-      },
-    });
-  }
+  const g2aOrderIds = await recordSupplierOrderIds(order.id);
 
-  // Update order status based on results
-  // If no games have G2A productId, keep order in PENDING status (manual processing)
-  const hasG2AGames = items.some((item) => {
-    const game = games.find((g) => g.id === item.gameId);
-    return game?.g2aProductId;
-  });
+  const finalStatus = await settleOrderStatus(order.id, { actorType: 'SYSTEM' });
+  const keysCount = results.reduce((sum, result) => sum + result.delivered, 0);
+  const failedItems = results.filter((result) => result.error);
 
-  let finalStatus: 'COMPLETED' | 'FAILED' | 'PENDING' = 'PENDING';
-
-  if (hasG2AGames) {
-    // Only process status if there are G2A games
-    finalStatus = 'COMPLETED';
-    if (purchaseErrors.length > 0 && gameKeys.length === 0) {
-      // All purchases failed
-      finalStatus = 'FAILED';
-    } else if (purchaseErrors.length > 0) {
-      // Partial success - some keys purchased, some failed
-      // Order is completed but with errors logged
-      orderLogger.warn('Order completed with partial errors', {
+  // Without the queue nothing retries failed items, so staff pick them up from the dead-letter store
+  const undelivered = results.filter((result) => result.status === 'FAILED');
+  if (undelivered.length > 0) {
+    try {
+      await recordFulfillmentFailure({
+        orderId: order.id,
+        source: 'SYNC',
+        payload: queueData,
+        attempts: [
+          {
+            error: undelivered.map((result) => result.error ?? 'Unknown error').join('; '),
+            failedAt: new Date(),
+          },
+        ],
+      });
+    } catch (deadLetterError) {
+      orderLogger.warn('Failed to store the dead letter of the order', {
         orderId: order.id,
-        errorsCount: purchaseErrors.length,
-        keysPurchased: gameKeys.length,
-        errors: purchaseErrors,
+        error: deadLetterError instanceof Error ? deadLetterError.message : String(deadLetterError),
       });
     }
   }
-  // If no G2A games, keep status as PENDING (set in transaction)
 
-  await prisma.order.update({
-    where: { id: order.id },
-    data: {
-      status: finalStatus,
-      paymentStatus:
-        finalStatus === 'COMPLETED' ? 'COMPLETED' : finalStatus === 'FAILED' ? 'FAILED' : 'PENDING',
-      completedAt: finalStatus === 'COMPLETED' ? new Date() : null,
-    },
-  });
+  // Nothing could be bought and the payment went back to the balance
+  if (finalStatus === 'FAILED' && keysCount === 0 && results.some((result) => result.refunded)) {
+    orderLogger.audit('ORDER_FAILED_REFUNDED', userId, order.id, {
+      reason: failedItems[0]?.error,
+      refundedItems: results.filter((result) => result.refunded).length,
+    });
+
+    throw new AppError(`Order failed: ${failedItems[0]?.error}. Balance has been refunded.`, 400);
+  }
 
   // Get completed order with all relations
   const completedOrderWithRelations = await prisma.order.findUnique({
@@ -711,6 +631,7 @@ export const createOrder = async (
         },
       },
       keys: true,
+      gift: true,
     },
   });
 
@@ -721,8 +642,8 @@ export const createOrder = async (
   // Audit log: Order completion
   orderLogger.audit('ORDER_COMPLETED', userId, order.id, {
     finalStatus,
-    keysCount: gameKeys.length,
-    errorsCount: purchaseErrors.length,
+    keysCount,
+    errorsCount: failedItems.length,
     g2aOrderIds: g2aOrderIds.length > 0 ? g2aOrderIds : null,
   });
 
@@ -745,14 +666,20 @@ export const createOrder = async (
       quantity: item.quantity,
       price: Number(item.price),
       discount: Number(item.discount),
+      fulfillmentStatus: item.fulfillmentStatus,
+      fulfilledQuantity: item.fulfilledQuantity,
+      refundedQuantity: item.refundedQuantity,
     })),
     keys: completedOrderWithRelations.keys.map((key) => ({
       id: key.id,
       gameId: key.gameId,
-      key: key.key,
+      key: maskGameKey(key),
       activated: key.activated,
       activationDate: key.activationDate?.toISOString(),
     })),
+    gift: completedOrderWithRelations.gift
+      ? formatOrderGift(completedOrderWithRelations.gift)
+      : undefined,
   };
 };
 
@@ -774,6 +701,8 @@ export const getUserOrders = async (userId: string): Promise<OrderResponse[]> =>
         },
       },
       keys: true,
+      gift: true,
+      paymentIntent: true,
     },
   });
 
@@ -796,14 +725,19 @@ export const getUserOrders = async (userId: string): Promise<OrderResponse[]> =>
       quantity: item.quantity,
       price: Number(item.price),
       discount: Number(item.discount),
+      fulfillmentStatus: item.fulfillmentStatus,
+      fulfilledQuantity: item.fulfilledQuantity,
+      refundedQuantity: item.refundedQuantity,
     })),
     keys: order.keys.map((key) => ({
       id: key.id,
       gameId: key.gameId,
-      key: key.key,
+      key: maskGameKey(key),
       activated: key.activated,
       activationDate: key.activationDate?.toISOString(),
     })),
+    gift: order.gift ? formatOrderGift(order.gift) : undefined,
+    payment: order.paymentIntent ? formatOrderPayment(order.paymentIntent) : undefined,
   }));
 };
 
@@ -830,6 +764,9 @@ export const getOrderById = async (
         },
       },
       keys: true,
+      gift: true,
+      paymentIntent: true,
+      statusHistory: { orderBy: { createdAt: 'asc' } },
     },
   });
 
@@ -854,13 +791,19 @@ export const getOrderById = async (
       quantity: item.quantity,
       price: Number(item.price),
       discount: Number(item.discount),
+      fulfillmentStatus: item.fulfillmentStatus,
+      fulfilledQuantity: item.fulfilledQuantity,
+      refundedQuantity: item.refundedQuantity,
     })),
     keys: order.keys.map((key) => ({
       id: key.id,
       gameId: key.gameId,
-      key: key.key,
+      key: maskGameKey(key),
       activated: key.activated,
       activationDate: key.activationDate?.toISOString(),
     })),
+    gift: order.gift ? formatOrderGift(order.gift) : undefined,
+    payment: order.paymentIntent ? formatOrderPayment(order.paymentIntent) : undefined,
+    statusHistory: formatCustomerStatusHistory(order.statusHistory),
   };
 };
@@ -1,3 +1,4 @@
+import { PaymentIntent as PaymentIntentRecord } from '@prisma/client';
 import prisma from '../config/database.js';
 import {
   BalanceTopUpRequest,
@@ -7,27 +8,38 @@ import {
 } from '../types/payment.js';
 import { AppError } from '../middleware/errorHandler.js';
 import { sendBalanceTopUpEmail } from './email.service.js';
+import { getTopUpInvoiceAttachment } from './invoice.service.js';
 import { createStripeRefund } from './stripe.service.js';
 import { createPayPalRefund } from './paypal.service.js';
 import { createMollieRefund } from './mollie.service.js';
-
-// Currency conversion rates (EUR to other currencies)
-const CURRENCY_RATES: Record<string, number> = {
-  EUR: 1.0,
-  PLN: 4.3,
-  USD: 1.1,
-  GBP: 0.85,
-};
-
-export const convertCurrency = (amount: number, from: string, to: string): number => {
-  if (from === to) return amount;
-  const fromRate = CURRENCY_RATES[from] || 1.0;
-  const toRate = CURRENCY_RATES[to] || 1.0;
-  return Number((amount * (toRate / fromRate)).toFixed(2));
-};
+import { confirmOrderPayment, releaseOrderPayment } from './order-payment.service.js';
+import { convertCurrency, toTransactionConversion } from './exchange-rate.service.js';
+import { recordInitialStatus } from './order-status.service.js';
+import { encryptGameKey } from '../utils/game-key-crypto.js';
+
+// Minutes a customer has to pay a top-up or an order before its intent expires
+const PAYMENT_INTENT_TTL_MINUTES = parseInt(process.env.PAYMENT_INTENT_TTL_MINUTES || '60', 10);
+
+export const getPaymentIntentExpiry = (from = new Date()): Date =>
+  new Date(from.getTime() + PAYMENT_INTENT_TTL_MINUTES * 60 * 1000);
+
+const toPaymentIntentResponse = (intent: PaymentIntentRecord): PaymentIntent => ({
+  id: intent.id,
+  amount: Number(intent.gatewayAmount),
+  currency: intent.gatewayCurrency,
+  requestedAmount: Number(intent.amount),
+  requestedCurrency: intent.currency,
+  discount: Number(intent.discount),
+  paymentMethod: intent.gateway,
+  // In a real implementation this would come from the gateway
+  redirectUrl: `${process.env.FRONTEND_URL || 'http://localhost:5173'}/payment/redirect?intent=${intent.id}`,
+  status: intent.status.toLowerCase() as PaymentIntent['status'],
+  expiresAt: intent.expiresAt.toISOString(),
+  createdAt: intent.createdAt.toISOString(),
+});
 
 export const createBalanceTopUpIntent = async (
-  _userId: string,
+  userId: string,
   data: BalanceTopUpRequest
 ): Promise<PaymentIntent> => {
   const { amount, currency, paymentMethod, promoCode } = data;
@@ -39,6 +51,7 @@ export const createBalanceTopUpIntent = async (
 
   // Apply promo code if provided
   let discount = 0;
+  let promoCodeId: string | undefined;
   if (promoCode) {
     const promo = await prisma.promoCode.findUnique({
       where: { code: promoCode },
@@ -48,6 +61,7 @@ export const createBalanceTopUpIntent = async (
       const now = new Date();
       if (now >= promo.validFrom && now <= promo.validUntil) {
         discount = Number(((amount * Number(promo.discount)) / 100).toFixed(2));
+        promoCodeId = promo.id;
       }
     }
   }
@@ -56,46 +70,146 @@ export const createBalanceTopUpIntent = async (
 
   // Convert currency if needed (EUR to gateway currency, e.g., PLN)
   const gatewayCurrency = 'PLN'; // Example: gateway uses PLN
-  const gatewayAmount = convertCurrency(finalAmount, currency, gatewayCurrency);
+  const gatewayAmount = (await convertCurrency(finalAmount, currency, gatewayCurrency)).amount;
+  const credit = await convertCurrency(amount, currency, 'EUR');
 
-  // Create payment intent (in real implementation, this would call the payment gateway)
-  const intentId = `pi_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  // The customer pays the discounted amount and gets the full amount on their balance
+  const intent = await prisma.paymentIntent.create({
+    data: {
+      userId,
+      amount,
+      currency,
+      discount,
+      creditAmount: credit.amount,
+      exchangeRate: credit.rate,
+      promoCodeId,
+      gateway: paymentMethod,
+      gatewayCurrency,
+      gatewayAmount,
+      expiresAt: getPaymentIntentExpiry(),
+    },
+  });
 
-  // Store payment intent in database (or cache)
-  // For now, we'll return the intent directly
+  return toPaymentIntentResponse(intent);
+};
 
-  // Generate redirect URL (in real implementation, this would be from the gateway)
-  const redirectUrl = `${process.env.FRONTEND_URL || 'http://localhost:5173'}/payment/redirect?intent=${intentId}`;
+/**
+ * Top-ups the customer started but has not paid yet, newest first
+ */
+export const getPendingTopUps = async (userId: string): Promise<PaymentIntent[]> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
 
-  return {
-    id: intentId,
-    amount: gatewayAmount,
-    currency: gatewayCurrency,
-    paymentMethod,
-    redirectUrl,
-    status: 'pending',
-  };
+  const intents = await prisma.paymentIntent.findMany({
+    where: { userId, orderId: null, status: 'PENDING', expiresAt: { gt: new Date() } },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  return intents.map(toPaymentIntentResponse);
 };
 
+/**
+ * Mark top-ups that were not paid in time as expired, and cancel the orders whose payment
+ * expired so their balance part is released. Returns how many expired.
+ */
+export const expirePaymentIntents = async (): Promise<number> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  const now = new Date();
+  const orderIntents = await prisma.paymentIntent.findMany({
+    where: { status: 'PENDING', orderId: { not: null }, expiresAt: { lte: now } },
+    select: { id: true },
+  });
+
+  let expired = 0;
+  for (const intent of orderIntents) {
+    try {
+      const released = await releaseOrderPayment(intent.id, {
+        status: 'EXPIRED',
+        reason: 'Payment not completed in time',
+        actorType: 'SYSTEM',
+      });
+      if (released) {
+        expired++;
+      }
+    } catch (error) {
+      console.error(`[Payment] Failed to release the expired payment ${intent.id}:`, error);
+    }
+  }
+
+  const result = await prisma.paymentIntent.updateMany({
+    where: { status: 'PENDING', orderId: null, expiresAt: { lte: now } },
+    data: { status: 'EXPIRED' },
+  });
+
+  return expired + result.count;
+};
+
+/**
+ * Apply a gateway webhook to the payment intent it belongs to. The webhook must charge the
+ * amount and currency stored on the intent; the balance of the intent's user is credited
+ * with the requested amount, once. Intents of orders paid at checkout confirm or release
+ * their order instead.
+ */
 export const processPaymentWebhook = async (data: PaymentWebhook): Promise<void> => {
-  const { transactionId, email, amount, currency, method, status } = data;
+  const { intentId, transactionId, amount, currency, method, status } = data;
 
-  // Find or create user
-  let user = await prisma.user.findUnique({
-    where: { email },
+  if (!intentId) {
+    throw new AppError('Webhook has no payment intent', 400);
+  }
+
+  const intent = await prisma.paymentIntent.findUnique({
+    where: { id: intentId },
+    include: { user: { select: { email: true } } },
   });
 
-  if (!user) {
-    // Create user if doesn't exist (shouldn't happen in normal flow, but handle it)
-    user = await prisma.user.create({
+  if (!intent) {
+    throw new AppError('Payment intent not found', 404);
+  }
+
+  if (intent.status === 'COMPLETED') {
+    // Gateways resend webhooks until they get an answer
+    return;
+  }
+
+  if (
+    currency !== intent.gatewayCurrency ||
+    Math.abs(Number(amount) - Number(intent.gatewayAmount)) >= 0.01
+  ) {
+    console.warn(`[Payment] Webhook for intent ${intent.id} does not match it:`, {
+      expected: { amount: Number(intent.gatewayAmount), currency: intent.gatewayCurrency },
+      received: { amount, currency, transactionId },
+    });
+    throw new AppError('Webhook amount or currency does not match the payment intent', 400);
+  }
+
+  if (intent.orderId) {
+    if (status === 'failed' || status === 'cancelled') {
+      await releaseOrderPayment(intent.id, {
+        status: status === 'failed' ? 'FAILED' : 'CANCELLED',
+        reason: `Payment ${status} at the gateway`,
+        actorType: 'WEBHOOK',
+        transactionId,
+      });
+    } else if (status === 'completed') {
+      await confirmOrderPayment(intent.id, { transactionId, method, gatewayResponse: data });
+    }
+    return;
+  }
+
+  if (status === 'failed' || status === 'cancelled') {
+    await prisma.paymentIntent.updateMany({
+      where: { id: intent.id, status: 'PENDING' },
       data: {
-        email,
-        passwordHash: '', // User will need to set password later
-        nickname: 'Newbie Guy',
-        firstName: data.name,
-        lastName: data.surname,
+        status: status === 'failed' ? 'FAILED' : 'CANCELLED',
+        gatewayTransactionId: transactionId,
+        failureReason: `Payment ${status} at the gateway`,
       },
     });
+    return;
   }
 
   // Only process if status is completed
@@ -103,45 +217,84 @@ export const processPaymentWebhook = async (data: PaymentWebhook): Promise<void>
     return;
   }
 
-  // Convert currency back to EUR
-  const eurAmount = convertCurrency(amount, currency, 'EUR');
+  // The gateway has taken the money, so a late payment of an expired or failed intent is
+  // still credited
+  const creditAmount = Number(intent.creditAmount);
+  const topUp = await prisma.$transaction(async (tx) => {
+    const claimed = await tx.paymentIntent.updateMany({
+      where: { id: intent.id, status: { not: 'COMPLETED' } },
+      data: {
+        status: 'COMPLETED',
+        gatewayTransactionId: transactionId,
+        failureReason: null,
+        completedAt: new Date(),
+      },
+    });
+    if (claimed.count === 0) {
+      return null;
+    }
 
-  // Update user balance
-  await prisma.user.update({
-    where: { id: user.id },
-    data: {
-      balance: {
-        increment: eurAmount,
+    await tx.user.update({
+      where: { id: intent.userId },
+      data: {
+        balance: {
+          increment: creditAmount,
+        },
       },
-    },
-  });
+    });
 
-  // Create transaction
-  await prisma.transaction.create({
-    data: {
-      userId: user.id,
-      type: 'TOP_UP',
-      amount: eurAmount,
-      currency: 'EUR',
-      method,
-      status: 'COMPLETED',
-      description: `Balance top-up via ${method}`,
-      transactionHash: transactionId,
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      gatewayResponse: data as any,
-    },
+    const transaction = await tx.transaction.create({
+      data: {
+        userId: intent.userId,
+        type: 'TOP_UP',
+        amount: creditAmount,
+        currency: 'EUR',
+        method,
+        status: 'COMPLETED',
+        description: `Balance top-up via ${method}`,
+        transactionHash: transactionId,
+        ...toTransactionConversion({
+          amount: creditAmount,
+          currency: 'EUR',
+          originalAmount: Number(intent.amount),
+          originalCurrency: intent.currency,
+          rate: Number(intent.exchangeRate),
+        }),
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        gatewayResponse: data as any,
+      },
+    });
+
+    await tx.paymentIntent.update({
+      where: { id: intent.id },
+      data: { transactionId: transaction.id },
+    });
+
+    if (intent.promoCodeId) {
+      await tx.promoCode.update({
+        where: { id: intent.promoCodeId },
+        data: { usedCount: { increment: 1 } },
+      });
+    }
+
+    return transaction;
   });
 
+  if (!topUp) {
+    return;
+  }
+
   // Send email
   const updatedUser = await prisma.user.findUnique({
-    where: { id: user.id },
+    where: { id: intent.userId },
   });
 
   if (updatedUser) {
-    await sendBalanceTopUpEmail(email, {
-      amount: eurAmount,
+    await sendBalanceTopUpEmail(intent.user.email, {
+      amount: creditAmount,
       currency: 'EUR',
       balance: Number(updatedUser.balance),
+      invoice: await getTopUpInvoiceAttachment(topUp.id),
     });
   }
 };
@@ -172,7 +325,8 @@ export const processTerminalWebhook = async (data: TerminalWebhook): Promise<voi
   }
 
   // Convert currency to EUR
-  const eurAmount = convertCurrency(amount, currency, 'EUR');
+  const conversion = await convertCurrency(amount, currency, 'EUR');
+  const eurAmount = conversion.amount;
 
   // Top up balance
   await prisma.user.update({
@@ -195,6 +349,7 @@ export const processTerminalWebhook = async (data: TerminalWebhook): Promise<voi
       status: 'COMPLETED',
       description: `Terminal top-up`,
       transactionHash: transactionId,
+      ...toTransactionConversion(conversion),
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       gatewayResponse: data as any,
     },
@@ -248,6 +403,11 @@ export const processTerminalWebhook = async (data: TerminalWebhook): Promise<voi
         },
       });
 
+      await recordInitialStatus(prisma, order.id, 'COMPLETED', {
+        actorType: 'SYSTEM',
+        reason: 'Terminal purchase',
+      });
+
       // Deduct balance
       await prisma.user.update({
         where: { id: user.id },
@@ -279,7 +439,7 @@ export const processTerminalWebhook = async (data: TerminalWebhook): Promise<voi
           await prisma.gameKey.create({
             data: {
               gameId: item.gameId,
-              key: fakeKey,
+              ...encryptGameKey(fakeKey),
               orderId: order.id,
             },
           });
@@ -331,20 +491,25 @@ export const refundTransaction = async (
     throw new AppError('Only completed transactions can be refunded', 400);
   }
 
-  // Check if already refunded
-  const existingRefund = await prisma.transaction.findFirst({
+  // Orders can be refunded in parts (e.g. item by item), but never beyond what was paid
+  const refunded = await prisma.transaction.aggregate({
     where: {
       orderId: transaction.orderId,
       type: 'REFUND',
-      status: 'COMPLETED',
+      status: { in: ['COMPLETED', 'PENDING'] },
     },
+    _sum: { amount: true },
   });
+  const refundable = Math.abs(Number(transaction.amount)) - Number(refunded._sum.amount ?? 0);
 
-  if (existingRefund) {
+  if (refundable <= 0) {
     throw new AppError('Transaction has already been refunded', 400);
   }
 
-  const refundAmount = amount ? Number(amount) : Math.abs(Number(transaction.amount));
+  const refundAmount = amount ? Number(amount) : refundable;
+  if (refundAmount > refundable) {
+    throw new AppError(`Refund exceeds the refundable amount of ${refundable.toFixed(2)}`, 400);
+  }
   const paymentMethod = transaction.method?.toLowerCase() || '';
 
   let refundResult: RefundResult;
@@ -1,5 +1,6 @@
 import PDFDocument from 'pdfkit';
 import { UserDetailsResponse } from '../types/admin.js';
+import { InvoiceParty, InvoiceResponse } from '../types/invoice.js';
 
 /**
  * Generate PDF report for user summary
@@ -117,3 +118,125 @@ export const generateUserSummaryPDF = async (userData: UserDetailsResponse): Pro
     }
   });
 };
+
+const formatMoney = (amount: number, currency: string): string =>
+  `${amount.toFixed(2)} ${currency}`;
+
+const writeParty = (doc: PDFKit.PDFDocument, title: string, party: InvoiceParty, x: number) => {
+  const top = doc.y;
+  doc.fontSize(10).font('Helvetica-Bold').text(title, x, top, { width: 230 });
+  doc.font('Helvetica').text(party.name, { width: 230 });
+  if (party.address) doc.text(party.address, { width: 230 });
+  if (party.vatId) doc.text(`VAT ID: ${party.vatId}`, { width: 230 });
+  if (party.email) doc.text(party.email, { width: 230 });
+  return doc.y;
+};
+
+/**
+ * Generate the PDF of an invoice from its stored snapshot
+ * @param invoice - Invoice with seller, buyer and lines as issued
+ * @returns PDF buffer
+ */
+export const generateInvoicePDF = async (invoice: InvoiceResponse): Promise<Buffer> => {
+  return new Promise((resolve, reject) => {
+    try {
+      const doc = new PDFDocument({
+        size: 'A4',
+        margins: { top: 50, bottom: 50, left: 50, right: 50 },
+      });
+
+      const chunks: Buffer[] = [];
+
+      doc.on('data', (chunk) => {
+        chunks.push(chunk);
+      });
+
+      doc.on('end', () => {
+        resolve(Buffer.concat(chunks));
+      });
+
+      doc.on('error', (error) => {
+        reject(error);
+      });
+
+      // Header
+      doc.fontSize(20).text(`Invoice ${invoice.number}`, { align: 'left' });
+      doc.fontSize(10);
+      doc.text(`Issue date: ${new Date(invoice.issuedAt).toLocaleDateString('en-GB')}`);
+      if (invoice.orderId) {
+        doc.text(`Order: #${invoice.orderId.substring(0, 8)}`);
+      }
+      doc.moveDown();
+
+      // Seller and buyer side by side
+      const partiesTop = doc.y;
+      const sellerBottom = writeParty(doc, 'Seller', invoice.seller, 50);
+      doc.y = partiesTop;
+      const buyerBottom = writeParty(doc, 'Buyer', invoice.buyer, 310);
+      doc.y = Math.max(sellerBottom, buyerBottom);
+      doc.moveDown(2);
+
+      // Line items
+      const columns = { description: 50, quantity: 330, unitPrice: 390, total: 470 };
+      const drawRow = (row: string[], bold = false) => {
+        const top = doc.y;
+        doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(10);
+        doc.text(row[0], columns.description, top, { width: 270 });
+        const bottom = doc.y;
+        doc.text(row[1], columns.quantity, top, { width: 50, align: 'right' });
+        doc.text(row[2], columns.unitPrice, top, { width: 70, align: 'right' });
+        doc.text(row[3], columns.total, top, { width: 75, align: 'right' });
+        doc.y = Math.max(bottom, doc.y);
+        doc.moveDown(0.3);
+      };
+
+      drawRow(['Description', 'Qty', 'Unit price', 'Amount'], true);
+      doc.strokeColor('#cccccc').moveTo(50, doc.y).lineTo(545, doc.y).stroke();
+      doc.moveDown(0.3);
+      invoice.lines.forEach((line) => {
+        drawRow([
+          line.description,
+          String(line.quantity),
+          formatMoney(line.unitPrice, invoice.currency),
+          formatMoney(line.total, invoice.currency),
+        ]);
+      });
+      doc.strokeColor('#cccccc').moveTo(50, doc.y).lineTo(545, doc.y).stroke();
+      doc.moveDown();
+
+      // Totals; prices include tax
+      const totalRow = (label: string, amount: number, bold = false) => {
+        const top = doc.y;
+        doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(bold ? 12 : 10);
+        doc.text(label, 300, top, { width: 160 });
+        doc.text(formatMoney(amount, invoice.currency), 460, top, { width: 85, align: 'right' });
+        doc.moveDown(0.3);
+      };
+
+      totalRow('Subtotal', invoice.subtotal);
+      if (invoice.discount > 0) {
+        totalRow('Discount', -invoice.discount);
+      }
+      totalRow('Net amount', invoice.total - invoice.taxAmount);
+      totalRow(`VAT ${invoice.taxRate}%`, invoice.taxAmount);
+      totalRow('Total', invoice.total, true);
+
+      if (invoice.note) {
+        doc.moveDown();
+        doc.font('Helvetica').fontSize(9).text(invoice.note, 50, doc.y, { width: 495 });
+      }
+
+      // Footer
+      doc
+        .font('Helvetica')
+        .fontSize(8)
+        .text(`${invoice.seller.name} - Invoice ${invoice.number}`, 50, doc.page.height - 50, {
+          align: 'center',
+        });
+
+      doc.end();
+    } catch (error) {
+      reject(error);
+    }
+  });
+};
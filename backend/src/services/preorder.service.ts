@@ -0,0 +1,404 @@
+import { Game, Prisma } from '@prisma/client';
+import prisma from '../config/database.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { G2AIntegrationClient } from '../lib/g2a/G2AIntegrationClient.js';
+import { PreorderGameSummary, PreorderReleaseResult, PreorderResponse } from '../types/order.js';
+import { sendPreorderUpdateEmail } from './email.service.js';
+import { countAvailablePoolKeys } from './key-pool.service.js';
+import {
+  fulfillOrderItem,
+  getOutstandingQuantity,
+  getSupplierClient,
+  recordSupplierOrderIds,
+  settleOrderStatus,
+} from './order-fulfillment.service.js';
+import { StatusChange, transitionOrderStatus } from './order-status.service.js';
+
+const RELEASE_BATCH_SIZE = 100;
+const MAX_BULK_RELEASE = 100;
+
+export interface PreorderRunResult {
+  released: number;
+  failed: number;
+}
+
+const preorderInclude = {
+  user: { select: { id: true, email: true, nickname: true } },
+  items: {
+    select: {
+      id: true,
+      gameId: true,
+      quantity: true,
+      fulfilledQuantity: true,
+      refundedQuantity: true,
+      game: {
+        select: {
+          id: true,
+          title: true,
+          isPreorder: true,
+          releaseDate: true,
+          g2aProductId: true,
+        },
+      },
+    },
+  },
+} satisfies Prisma.OrderInclude;
+
+type PreorderWithItems = Prisma.OrderGetPayload<{ include: typeof preorderInclude }>;
+
+const preorderLogger = {
+  audit: (operation: string, userId: string | undefined, data: object) => {
+    const auditData = {
+      timestamp: new Date().toISOString(),
+      operation,
+      userId: userId || 'system',
+      data,
+    };
+    console.log(`[Preorders] [AUDIT] ${JSON.stringify(auditData, null, 2)}`);
+  },
+};
+
+/**
+ * A game is sold as a preorder until its release date
+ */
+export const isAwaitingRelease = (
+  game: Pick<Game, 'isPreorder' | 'releaseDate'>,
+  now = new Date()
+): boolean => game.isPreorder && game.releaseDate > now;
+
+const ordersLink = () => `${process.env.FRONTEND_URL || 'http://localhost:5173'}/profile/orders`;
+
+const formatReleaseDate = (date: Date) =>
+  date.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+
+/**
+ * Email the customer about their preorder. A failed email does not undo the step.
+ */
+const notifyCustomer = async (
+  email: string,
+  data: { subject: string; headline: string; message: string }
+) => {
+  try {
+    await sendPreorderUpdateEmail(email, { ...data, ordersLink: ordersLink() });
+  } catch (error) {
+    console.error('[Preorders] Failed to send preorder email:', error);
+  }
+};
+
+/**
+ * Confirm a preorder that was paid at checkout
+ */
+export const notifyPreorderPlaced = async (
+  email: string,
+  games: Array<Pick<Game, 'title' | 'releaseDate'>>
+): Promise<void> => {
+  await notifyCustomer(email, {
+    subject: 'Your preorder is confirmed',
+    headline: 'Your preorder is confirmed.',
+    message: `We will deliver your keys as soon as ${games
+      .map((game) => `${game.title} (release: ${formatReleaseDate(game.releaseDate)})`)
+      .join(', ')} ${games.length === 1 ? 'is' : 'are'} out.`,
+  });
+};
+
+/**
+ * Decide which preorders can be delivered now, oldest first. An order is ready when each
+ * of its games is released, or has enough keys in the local pool for this order and the
+ * older ones. Returns the reason to record for every ready order.
+ */
+export const planPreorderRelease = (
+  orders: PreorderWithItems[],
+  poolStock: Map<string, number>,
+  now = new Date()
+): Map<string, string> => {
+  const remaining = new Map(poolStock);
+  const ready = new Map<string, string>();
+
+  for (const order of orders) {
+    const needed = new Map<string, number>();
+    let coverable = true;
+    for (const item of order.items) {
+      if (!isAwaitingRelease(item.game, now)) {
+        continue;
+      }
+      if (item.game.g2aProductId) {
+        coverable = false;
+        break;
+      }
+      needed.set(item.gameId, (needed.get(item.gameId) ?? 0) + getOutstandingQuantity(item));
+    }
+
+    if (!coverable || [...needed].some(([gameId, units]) => (remaining.get(gameId) ?? 0) < units)) {
+      continue;
+    }
+
+    for (const [gameId, units] of needed) {
+      remaining.set(gameId, (remaining.get(gameId) ?? 0) - units);
+    }
+    ready.set(order.id, needed.size > 0 ? 'Preorder keys arrived before release' : 'Game released');
+  }
+
+  return ready;
+};
+
+const invalidateOrderCache = async (orderId: string, userId: string) => {
+  try {
+    const { invalidateCache } = await import('./cache.service.js');
+    await invalidateCache(`order:${orderId}`);
+    await invalidateCache(`user:${userId}:orders`);
+  } catch (cacheError) {
+    console.warn('[Preorders] Failed to invalidate cache:', cacheError);
+  }
+};
+
+/**
+ * Start delivering a preorder: the order moves to PROCESSING and its items are fulfilled
+ * from G2A or the local key pool like a regular checkout.
+ */
+const releasePreorder = async (
+  orderId: string,
+  change: StatusChange
+): Promise<PreorderReleaseResult> => {
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    include: {
+      ...preorderInclude,
+      gift: { select: { recipientEmail: true } },
+    },
+  });
+  if (!order) {
+    throw new AppError('Order not found', 404);
+  }
+  if (order.status !== 'PREORDER') {
+    throw new AppError('Order is not waiting for a release', 400);
+  }
+
+  await transitionOrderStatus(orderId, 'PROCESSING', change);
+
+  let client: G2AIntegrationClient | null = null;
+  if (order.items.some((item) => item.game.g2aProductId)) {
+    try {
+      client = await getSupplierClient();
+    } catch (error) {
+      console.warn(`[Preorders] Failed to get G2A client for order ${orderId}:`, error);
+    }
+  }
+
+  let delivered = 0;
+  for (const item of order.items) {
+    const result = await fulfillOrderItem(item.id, client, { refundOnCriticalError: true });
+    delivered += result.delivered;
+  }
+
+  await recordSupplierOrderIds(orderId);
+
+  const status = await settleOrderStatus(orderId, {
+    actorType: change.actorType,
+    actorId: change.actorId,
+  });
+
+  const titles = order.items.map((item) => item.game.title).join(', ');
+  await notifyCustomer(order.user.email, {
+    subject: `Your preorder of ${titles} is here`,
+    headline: `Your preorder of ${titles} is here.`,
+    message:
+      status === 'COMPLETED' || status === 'PARTIALLY_COMPLETED'
+        ? order.gift
+          ? `We will email the gift to ${order.gift.recipientEmail}.`
+          : 'Your keys are in My Keys and on their way to your inbox.'
+        : status === 'FAILED'
+          ? 'We could not get your keys yet. Our team will deliver them or refund your payment.'
+          : 'Our team is preparing your keys and will deliver them shortly.',
+  });
+
+  preorderLogger.audit('PREORDER_RELEASED', change.actorId || order.userId, {
+    orderId,
+    reason: change.reason,
+    status,
+    delivered,
+  });
+
+  await invalidateOrderCache(orderId, order.userId);
+  return { orderId, status, delivered };
+};
+
+/**
+ * Deliver the preorders whose games have been released or whose keys arrived in the
+ * local pool early
+ */
+export const processReleasedPreorders = async (): Promise<PreorderRunResult> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  const now = new Date();
+  const awaiting = { isPreorder: true, releaseDate: { gt: now } };
+  const orders: PreorderWithItems[] = await prisma.order.findMany({
+    where: {
+      status: 'PREORDER',
+      OR: [
+        { items: { none: { game: awaiting } } },
+        {
+          items: {
+            some: { game: { ...awaiting, g2aProductId: null, keys: { some: { orderId: null } } } },
+          },
+        },
+      ],
+    },
+    orderBy: { createdAt: 'asc' },
+    take: RELEASE_BATCH_SIZE,
+    include: preorderInclude,
+  });
+  if (orders.length === 0) {
+    return { released: 0, failed: 0 };
+  }
+
+  const poolStock = await countAvailablePoolKeys([
+    ...new Set(orders.flatMap((order) => order.items.map((item) => item.gameId))),
+  ]);
+  const ready = planPreorderRelease(orders, poolStock, now);
+
+  let released = 0;
+  let failed = 0;
+  for (const [orderId, reason] of ready) {
+    try {
+      await releasePreorder(orderId, { actorType: 'SYSTEM', reason });
+      released++;
+    } catch (error) {
+      failed++;
+      console.error(`[Preorders] Failed to release order ${orderId}:`, error);
+    }
+  }
+
+  return { released, failed };
+};
+
+/**
+ * Preorders waiting for a release, oldest first, with a summary per game
+ */
+export const getPreorders = async (filters: {
+  page?: number;
+  limit?: number;
+}): Promise<{
+  preorders: PreorderResponse[];
+  games: PreorderGameSummary[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  const page = Math.max(1, filters.page || 1);
+  const limit = Math.min(100, Math.max(1, filters.limit || 20));
+  const where: Prisma.OrderWhereInput = { status: 'PREORDER' };
+
+  const [orders, total, byGame] = await Promise.all([
+    prisma.order.findMany({
+      where,
+      orderBy: { createdAt: 'asc' },
+      skip: (page - 1) * limit,
+      take: limit,
+      include: preorderInclude,
+    }) as Promise<PreorderWithItems[]>,
+    prisma.order.count({ where }),
+    prisma.orderItem.groupBy({
+      by: ['gameId'],
+      where: { order: where },
+      _sum: { quantity: true },
+      _count: { _all: true },
+    }),
+  ]);
+
+  const gameIds = byGame.map((row) => row.gameId);
+  const [games, poolStock] = await Promise.all([
+    prisma.game.findMany({
+      where: { id: { in: gameIds } },
+      select: { id: true, title: true, releaseDate: true },
+    }),
+    countAvailablePoolKeys(gameIds),
+  ]);
+
+  const now = new Date();
+  const ready = planPreorderRelease(orders, poolStock, now);
+
+  return {
+    preorders: orders.map((order) => ({
+      id: order.id,
+      user: {
+        id: order.user.id,
+        email: order.user.email,
+        nickname: order.user.nickname || undefined,
+      },
+      total: Number(order.total),
+      items: order.items.map((item) => ({
+        gameId: item.gameId,
+        title: item.game.title,
+        quantity: item.quantity,
+        releaseDate: item.game.releaseDate.toISOString(),
+        released: !isAwaitingRelease(item.game, now),
+      })),
+      ready: ready.has(order.id),
+      createdAt: order.createdAt.toISOString(),
+    })),
+    games: games
+      .map((game) => {
+        const row = byGame.find((entry) => entry.gameId === game.id);
+        return {
+          gameId: game.id,
+          title: game.title,
+          releaseDate: game.releaseDate.toISOString(),
+          orders: row?._count._all ?? 0,
+          units: row?._sum.quantity ?? 0,
+          poolKeys: poolStock.get(game.id) ?? 0,
+        };
+      })
+      .sort((a, b) => a.releaseDate.localeCompare(b.releaseDate)),
+    total,
+    page,
+    limit,
+    totalPages: Math.ceil(total / limit),
+  };
+};
+
+/**
+ * Deliver the selected preorders now, whatever the release date of their games.
+ * Each order is handled on its own, so one failure does not stop the rest.
+ */
+export const releasePreorders = async (
+  orderIds: unknown,
+  actorId?: string
+): Promise<PreorderReleaseResult[]> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  if (
+    !Array.isArray(orderIds) ||
+    orderIds.length === 0 ||
+    !orderIds.every((id) => typeof id === 'string')
+  ) {
+    throw new AppError('Select at least one preorder', 400);
+  }
+  if (orderIds.length > MAX_BULK_RELEASE) {
+    throw new AppError(`At most ${MAX_BULK_RELEASE} preorders can be released at once`, 400);
+  }
+
+  const results: PreorderReleaseResult[] = [];
+  for (const orderId of new Set<string>(orderIds)) {
+    try {
+      results.push(
+        await releasePreorder(orderId, { actorType: 'ADMIN', actorId, reason: 'Released by staff' })
+      );
+    } catch (error) {
+      results.push({
+        orderId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  return results;
+};
@@ -0,0 +1,641 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../config/database.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { G2AIntegrationClient } from '../lib/g2a/G2AIntegrationClient.js';
+import {
+  RiskAssessmentResult,
+  RiskReviewDecisionResponse,
+  RiskReviewResponse,
+  RiskRuleConfig,
+  RiskRuleId,
+  RiskSettings,
+  RiskSettingsResponse,
+  RiskSettingsUpdateRequest,
+  RiskSignal,
+} from '../types/risk.js';
+import { cancelOrder } from './admin.service.js';
+import { countAvailablePoolKeys } from './key-pool.service.js';
+import {
+  fulfillOrderItem,
+  getSupplierClient,
+  recordSupplierOrderIds,
+  settleOrderStatus,
+} from './order-fulfillment.service.js';
+import { StatusChange, transitionOrderStatus } from './order-status.service.js';
+import { isAwaitingRelease, notifyPreorderPlaced } from './preorder.service.js';
+
+const SETTINGS_NAME = 'default';
+const DEFAULT_HOLD_THRESHOLD = 50;
+const MAX_SCORE = 1000;
+
+const riskLogger = {
+  audit: (operation: string, userId: string | undefined, data: object) => {
+    const auditData = {
+      timestamp: new Date().toISOString(),
+      operation,
+      userId: userId || 'system',
+      data,
+    };
+    console.log(`[Risk] [AUDIT] ${JSON.stringify(auditData, null, 2)}`);
+  },
+};
+
+interface RiskRuleDefinition {
+  label: string;
+  description: string;
+  points: number;
+  params: Record<string, { label: string; value: number }>;
+}
+
+/**
+ * The rules with their default points and parameters. Staff can change both in the admin.
+ */
+const RISK_RULES: Record<RiskRuleId, RiskRuleDefinition> = {
+  NEW_ACCOUNT: {
+    label: 'New account',
+    description: 'The account was created shortly before the order',
+    points: 20,
+    params: { maxAgeHours: { label: 'Account younger than (hours)', value: 24 } },
+  },
+  ORDER_VELOCITY: {
+    label: 'Order velocity',
+    description: 'The customer placed several orders in a short time',
+    points: 20,
+    params: {
+      windowMinutes: { label: 'Time window (minutes)', value: 60 },
+      maxOrders: { label: 'Earlier orders in the window', value: 3 },
+    },
+  },
+  UNVERIFIED_EMAIL: {
+    label: 'Unverified email',
+    description: 'The customer has not verified their email address',
+    points: 15,
+    params: {},
+  },
+  TOP_UP_THEN_SPEND: {
+    label: 'Top-up then immediate spend',
+    description: 'Most of a fresh balance top-up is spent right away',
+    points: 20,
+    params: {
+      windowMinutes: { label: 'Top-up within (minutes)', value: 30 },
+      minSharePercent: { label: 'Order spends at least (% of the top-up)', value: 80 },
+    },
+  },
+  IP_CHANGE: {
+    label: 'IP address changes',
+    description: 'Recent logins came from many different IP addresses',
+    points: 15,
+    params: {
+      windowHours: { label: 'Time window (hours)', value: 24 },
+      maxDistinctIps: { label: 'IP addresses allowed', value: 3 },
+    },
+  },
+  COUNTRY_CHANGE: {
+    label: 'Country changes',
+    description: 'Recent logins came from more than one country',
+    points: 25,
+    params: { windowDays: { label: 'Time window (days)', value: 30 } },
+  },
+  HIGH_VALUE: {
+    label: 'High-value order',
+    description: 'The order total or a single item price is high',
+    points: 20,
+    params: {
+      minOrderTotal: { label: 'Order total from (EUR)', value: 150 },
+      minItemPrice: { label: 'Item price from (EUR)', value: 80 },
+    },
+  },
+};
+
+const RULE_IDS = Object.keys(RISK_RULES) as RiskRuleId[];
+
+/**
+ * What the rules look at for one order
+ */
+export interface RiskContext {
+  accountAgeHours: number;
+  emailVerified: boolean;
+  // Earlier orders inside the ORDER_VELOCITY window
+  recentOrders: number;
+  // Amount topped up inside the TOP_UP_THEN_SPEND window
+  recentTopUps: number;
+  orderTotal: number;
+  highestItemPrice: number;
+  // Distinct IP addresses of successful logins inside the IP_CHANGE window
+  loginIps: number;
+  // Distinct countries of successful logins inside the COUNTRY_CHANGE window
+  loginCountries: string[];
+}
+
+const roundMoney = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Stored settings on top of the defaults, so rules added later start with their defaults
+ */
+const mergeRiskSettings = (stored?: { holdThreshold: number; rules: unknown } | null) => {
+  const storedRules = (stored?.rules || {}) as Partial<Record<RiskRuleId, Partial<RiskRuleConfig>>>;
+  const rules = {} as Record<RiskRuleId, RiskRuleConfig>;
+
+  for (const id of RULE_IDS) {
+    const definition = RISK_RULES[id];
+    const rule = storedRules[id] || {};
+    rules[id] = {
+      enabled: rule.enabled ?? true,
+      points: rule.points ?? definition.points,
+      params: Object.fromEntries(
+        Object.entries(definition.params).map(([key, param]) => [
+          key,
+          rule.params?.[key] ?? param.value,
+        ])
+      ),
+    };
+  }
+
+  return { holdThreshold: stored?.holdThreshold ?? DEFAULT_HOLD_THRESHOLD, rules };
+};
+
+const getRiskSettings = async (): Promise<RiskSettings> => {
+  const stored = await prisma.fraudSettings.findUnique({ where: { name: SETTINGS_NAME } });
+  return mergeRiskSettings(stored);
+};
+
+/**
+ * Score an order against the enabled rules. An order is held when its score reaches
+ * the threshold.
+ */
+export const evaluateRiskRules = (
+  context: RiskContext,
+  settings: RiskSettings
+): RiskAssessmentResult => {
+  const signals: RiskSignal[] = [];
+  const check = (rule: RiskRuleId, matches: (params: Record<string, number>) => string | null) => {
+    const config = settings.rules[rule];
+    if (!config.enabled) {
+      return;
+    }
+    const detail = matches(config.params);
+    if (detail) {
+      signals.push({ rule, points: config.points, detail });
+    }
+  };
+
+  check('NEW_ACCOUNT', ({ maxAgeHours }) =>
+    context.accountAgeHours < maxAgeHours
+      ? `Account is ${Math.floor(context.accountAgeHours)} hour(s) old`
+      : null
+  );
+  check('ORDER_VELOCITY', ({ windowMinutes, maxOrders }) =>
+    context.recentOrders >= maxOrders
+      ? `${context.recentOrders} earlier order(s) in the last ${windowMinutes} minutes`
+      : null
+  );
+  check('UNVERIFIED_EMAIL', () => (context.emailVerified ? null : 'Email address is not verified'));
+  check('TOP_UP_THEN_SPEND', ({ windowMinutes, minSharePercent }) => {
+    if (context.recentTopUps <= 0) {
+      return null;
+    }
+    const share = Math.round((context.orderTotal / context.recentTopUps) * 100);
+    return share >= minSharePercent
+      ? `Spends ${share}% of EUR ${roundMoney(context.recentTopUps)} topped up in the last ${windowMinutes} minutes`
+      : null;
+  });
+  check('IP_CHANGE', ({ windowHours, maxDistinctIps }) =>
+    context.loginIps > maxDistinctIps
+      ? `Logged in from ${context.loginIps} IP addresses in the last ${windowHours} hours`
+      : null
+  );
+  check('COUNTRY_CHANGE', ({ windowDays }) =>
+    context.loginCountries.length > 1
+      ? `Logged in from ${context.loginCountries.join(', ')} in the last ${windowDays} days`
+      : null
+  );
+  check('HIGH_VALUE', ({ minOrderTotal, minItemPrice }) => {
+    if (context.orderTotal >= minOrderTotal) {
+      return `Order total is EUR ${roundMoney(context.orderTotal)}`;
+    }
+    return context.highestItemPrice >= minItemPrice
+      ? `Item priced at EUR ${roundMoney(context.highestItemPrice)}`
+      : null;
+  });
+
+  const score = signals.reduce((sum, signal) => sum + signal.points, 0);
+  return {
+    score,
+    threshold: settings.holdThreshold,
+    held: score >= settings.holdThreshold,
+    signals,
+  };
+};
+
+/**
+ * Collect what the rules look at from the customer's account, orders, top-ups and logins
+ */
+const collectRiskContext = async (
+  userId: string,
+  order: { total: number; items: Array<{ price: number }> },
+  settings: RiskSettings,
+  now: Date
+): Promise<RiskContext> => {
+  const minutesAgo = (minutes: number) => new Date(now.getTime() - minutes * 60 * 1000);
+  const { rules } = settings;
+  const ipSince = minutesAgo(rules.IP_CHANGE.params.windowHours * 60);
+  const countrySince = minutesAgo(rules.COUNTRY_CHANGE.params.windowDays * 24 * 60);
+
+  const [user, recentOrders, topUps, logins] = await Promise.all([
+    prisma.user.findUnique({
+      where: { id: userId },
+      select: { createdAt: true, emailVerified: true },
+    }),
+    prisma.order.count({
+      where: { userId, createdAt: { gte: minutesAgo(rules.ORDER_VELOCITY.params.windowMinutes) } },
+    }),
+    prisma.transaction.aggregate({
+      where: {
+        userId,
+        type: 'TOP_UP',
+        status: 'COMPLETED',
+        createdAt: { gte: minutesAgo(rules.TOP_UP_THEN_SPEND.params.windowMinutes) },
+      },
+      _sum: { amount: true },
+    }),
+    prisma.loginHistory.findMany({
+      where: {
+        userId,
+        success: true,
+        createdAt: { gte: ipSince < countrySince ? ipSince : countrySince },
+      },
+      orderBy: { createdAt: 'desc' },
+      select: { ipAddress: true, country: true, createdAt: true },
+    }),
+  ]);
+
+  if (!user) {
+    throw new AppError('User not found', 404);
+  }
+
+  const distinct = (values: Array<string | null>) =>
+    Array.from(new Set(values.filter((value): value is string => Boolean(value))));
+
+  return {
+    accountAgeHours: (now.getTime() - user.createdAt.getTime()) / (60 * 60 * 1000),
+    emailVerified: user.emailVerified,
+    recentOrders,
+    recentTopUps: Number(topUps._sum.amount ?? 0),
+    orderTotal: order.total,
+    highestItemPrice: Math.max(0, ...order.items.map((item) => item.price)),
+    loginIps: distinct(
+      logins.filter((login) => login.createdAt >= ipSince).map((login) => login.ipAddress)
+    ).length,
+    loginCountries: distinct(
+      logins.filter((login) => login.createdAt >= countrySince).map((login) => login.country)
+    ),
+  };
+};
+
+/**
+ * Score a paid order before its keys are bought
+ */
+export const assessOrderRisk = async (
+  userId: string,
+  order: { total: number; items: Array<{ price: number }> }
+): Promise<RiskAssessmentResult> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  const settings = await getRiskSettings();
+  const context = await collectRiskContext(userId, order, settings, new Date());
+  const assessment = evaluateRiskRules(context, settings);
+
+  if (assessment.held) {
+    riskLogger.audit('ORDER_HELD', userId, {
+      score: assessment.score,
+      threshold: assessment.threshold,
+      rules: assessment.signals.map((signal) => signal.rule),
+    });
+  }
+
+  return assessment;
+};
+
+const formatRiskSettings = (settings: RiskSettings, updatedAt?: Date): RiskSettingsResponse => ({
+  holdThreshold: settings.holdThreshold,
+  rules: RULE_IDS.map((id) => ({
+    id,
+    label: RISK_RULES[id].label,
+    description: RISK_RULES[id].description,
+    enabled: settings.rules[id].enabled,
+    points: settings.rules[id].points,
+    params: Object.entries(RISK_RULES[id].params).map(([key, param]) => ({
+      key,
+      label: param.label,
+      value: settings.rules[id].params[key],
+    })),
+  })),
+  updatedAt: updatedAt?.toISOString(),
+});
+
+/**
+ * Rules and threshold for the admin editor
+ */
+export const getFraudSettings = async (): Promise<RiskSettingsResponse> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  const stored = await prisma.fraudSettings.findUnique({ where: { name: SETTINGS_NAME } });
+  return formatRiskSettings(mergeRiskSettings(stored), stored?.updatedAt);
+};
+
+const isScore = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= MAX_SCORE;
+
+/**
+ * Change rule points, parameters and the hold threshold. Fields left out keep their value.
+ */
+export const updateFraudSettings = async (
+  data: RiskSettingsUpdateRequest,
+  actorId?: string
+): Promise<RiskSettingsResponse> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  const current = await getRiskSettings();
+  const settings: RiskSettings = {
+    holdThreshold: current.holdThreshold,
+    rules: { ...current.rules },
+  };
+
+  if (data.holdThreshold !== undefined) {
+    if (!isScore(data.holdThreshold) || data.holdThreshold === 0) {
+      throw new AppError(`Hold threshold must be a whole number from 1 to ${MAX_SCORE}`, 400);
+    }
+    settings.holdThreshold = data.holdThreshold;
+  }
+
+  for (const [id, update] of Object.entries(data.rules || {})) {
+    const definition = RISK_RULES[id as RiskRuleId];
+    if (!definition || !update) {
+      throw new AppError(`Unknown fraud rule: ${id}`, 400);
+    }
+    const rule = { ...settings.rules[id as RiskRuleId] };
+
+    if (update.enabled !== undefined) {
+      if (typeof update.enabled !== 'boolean') {
+        throw new AppError(`${definition.label}: enabled must be true or false`, 400);
+      }
+      rule.enabled = update.enabled;
+    }
+    if (update.points !== undefined) {
+      if (!isScore(update.points)) {
+        throw new AppError(
+          `${definition.label}: points must be a whole number from 0 to ${MAX_SCORE}`,
+          400
+        );
+      }
+      rule.points = update.points;
+    }
+    for (const [key, value] of Object.entries(update.params || {})) {
+      if (!definition.params[key]) {
+        throw new AppError(`${definition.label}: unknown parameter ${key}`, 400);
+      }
+      if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+        throw new AppError(
+          `${definition.label}: ${definition.params[key].label} must be 0 or more`,
+          400
+        );
+      }
+      rule.params = { ...rule.params, [key]: value };
+    }
+
+    settings.rules[id as RiskRuleId] = rule;
+  }
+
+  const saved = await prisma.fraudSettings.upsert({
+    where: { name: SETTINGS_NAME },
+    create: {
+      name: SETTINGS_NAME,
+      holdThreshold: settings.holdThreshold,
+      rules: settings.rules as unknown as Prisma.InputJsonObject,
+    },
+    update: {
+      holdThreshold: settings.holdThreshold,
+      rules: settings.rules as unknown as Prisma.InputJsonObject,
+    },
+  });
+
+  riskLogger.audit('FRAUD_RULES_UPDATED', actorId, { from: current, to: settings });
+
+  return formatRiskSettings(settings, saved.updatedAt);
+};
+
+/**
+ * Orders held for a fraud review, oldest first
+ */
+export const getRiskReviewQueue = async (filters: {
+  page?: number;
+  limit?: number;
+}): Promise<{
+  orders: RiskReviewResponse[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  const page = Math.max(1, filters.page || 1);
+  const limit = Math.min(100, Math.max(1, filters.limit || 20));
+  const where: Prisma.OrderWhereInput = { status: 'ON_HOLD' };
+
+  const [orders, total] = await Promise.all([
+    prisma.order.findMany({
+      where,
+      orderBy: { createdAt: 'asc' },
+      skip: (page - 1) * limit,
+      take: limit,
+      include: {
+        user: {
+          select: { id: true, email: true, nickname: true, emailVerified: true, createdAt: true },
+        },
+        items: { include: { game: { select: { title: true } } } },
+        riskAssessment: true,
+      },
+    }),
+    prisma.order.count({ where }),
+  ]);
+
+  return {
+    orders: orders.map((order) => ({
+      orderId: order.id,
+      user: {
+        id: order.user.id,
+        email: order.user.email,
+        nickname: order.user.nickname || undefined,
+        emailVerified: order.user.emailVerified,
+        createdAt: order.user.createdAt.toISOString(),
+      },
+      total: Number(order.total),
+      items: order.items.map((item) => ({
+        gameId: item.gameId,
+        title: item.game.title,
+        quantity: item.quantity,
+        price: Number(item.price),
+      })),
+      score: order.riskAssessment?.score ?? 0,
+      threshold: order.riskAssessment?.threshold ?? 0,
+      signals: (order.riskAssessment?.signals ?? []) as unknown as RiskSignal[],
+      createdAt: order.createdAt.toISOString(),
+    })),
+    total,
+    page,
+    limit,
+    totalPages: Math.ceil(total / limit),
+  };
+};
+
+const findHeldOrder = async (orderId: string) => {
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    include: {
+      user: { select: { email: true } },
+      items: {
+        select: {
+          id: true,
+          gameId: true,
+          game: {
+            select: { title: true, isPreorder: true, releaseDate: true, g2aProductId: true },
+          },
+        },
+      },
+    },
+  });
+
+  if (!order) {
+    throw new AppError('Order not found', 404);
+  }
+  if (order.status !== 'ON_HOLD') {
+    throw new AppError('Order is not waiting for a fraud review', 400);
+  }
+
+  return order;
+};
+
+const invalidateOrderCache = async (orderId: string, userId: string) => {
+  try {
+    const { invalidateCache } = await import('./cache.service.js');
+    await invalidateCache(`order:${orderId}`);
+    await invalidateCache(`user:${userId}:orders`);
+  } catch (cacheError) {
+    console.warn('[Risk] Failed to invalidate cache:', cacheError);
+  }
+};
+
+/**
+ * Release a held order: preorders go back to waiting for their release, other orders are
+ * delivered from G2A or the local key pool like a regular checkout
+ */
+export const approveHeldOrder = async (
+  orderId: string,
+  actorId?: string,
+  note?: string
+): Promise<RiskReviewDecisionResponse> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  const order = await findHeldOrder(orderId);
+  const now = new Date();
+  const preorderGames = order.items
+    .map((item) => item.game)
+    .filter((game) => isAwaitingRelease(game, now));
+  const poolStock = await countAvailablePoolKeys(
+    order.items.filter((item) => !item.game.g2aProductId).map((item) => item.gameId)
+  );
+  // Items without a G2A product or local keys are left for manual fulfilment
+  const automaticItems = order.items.filter(
+    (item) => item.game.g2aProductId || poolStock.get(item.gameId)
+  );
+
+  const nextStatus =
+    preorderGames.length > 0 ? 'PREORDER' : automaticItems.length > 0 ? 'PROCESSING' : 'PENDING';
+  const change: StatusChange = {
+    actorType: 'ADMIN',
+    actorId,
+    reason: note ? `Approved after fraud review: ${note}` : 'Approved after fraud review',
+  };
+
+  await prisma.$transaction(async (tx) => {
+    await transitionOrderStatus(orderId, nextStatus, change, { tx });
+    await tx.orderRiskAssessment.updateMany({
+      where: { orderId },
+      data: {
+        decision: 'APPROVED',
+        reviewedById: actorId,
+        reviewNote: note || null,
+        reviewedAt: new Date(),
+      },
+    });
+  });
+
+  let status: string = nextStatus;
+  if (nextStatus === 'PREORDER') {
+    await notifyPreorderPlaced(order.user.email, preorderGames);
+  } else if (nextStatus === 'PROCESSING') {
+    let client: G2AIntegrationClient | null = null;
+    if (automaticItems.some((item) => item.game.g2aProductId)) {
+      try {
+        client = await getSupplierClient();
+      } catch (error) {
+        console.warn(`[Risk] Failed to get G2A client for order ${orderId}:`, error);
+      }
+    }
+
+    for (const item of automaticItems) {
+      await fulfillOrderItem(item.id, client, { refundOnCriticalError: true });
+    }
+    await recordSupplierOrderIds(orderId);
+    status = await settleOrderStatus(orderId, { actorType: 'ADMIN', actorId });
+  }
+
+  riskLogger.audit('HELD_ORDER_APPROVED', actorId, { orderId, status, note });
+
+  await invalidateOrderCache(orderId, order.userId);
+  return { orderId, decision: 'APPROVED', status };
+};
+
+/**
+ * Cancel a held order and refund the payment to the customer's balance
+ */
+export const rejectHeldOrder = async (
+  orderId: string,
+  actorId: string | undefined,
+  reason: string
+): Promise<RiskReviewDecisionResponse> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  if (!reason?.trim()) {
+    throw new AppError('A reason is required to reject an order', 400);
+  }
+
+  await findHeldOrder(orderId);
+  await cancelOrder(orderId, `Rejected after fraud review: ${reason.trim()}`, actorId);
+  await prisma.orderRiskAssessment.updateMany({
+    where: { orderId },
+    data: {
+      decision: 'REJECTED',
+      reviewedById: actorId,
+      reviewNote: reason.trim(),
+      reviewedAt: new Date(),
+    },
+  });
+
+  riskLogger.audit('HELD_ORDER_REJECTED', actorId, { orderId, reason: reason.trim() });
+
+  return { orderId, decision: 'REJECTED', status: 'CANCELLED' };
+};
@@ -0,0 +1,272 @@
+import crypto from 'crypto';
+import prisma from '../config/database.js';
+import { AppError } from '../middleware/errorHandler.js';
+import {
+  generateAccessToken,
+  generateRefreshToken,
+  getTokenExpiry,
+  verifyRefreshToken,
+  TokenPayload,
+} from '../utils/jwt.js';
+import { ActiveSessionResponse } from '../types/auth.js';
+
+const ACCESS_TOKEN_EXPIRES_IN_SECONDS = 7 * 24 * 60 * 60; // 7 days
+
+export const hashRefreshToken = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+interface SessionUser {
+  id: string;
+  email: string;
+  role: string;
+}
+
+interface SessionContext {
+  ipAddress?: string;
+  userAgent?: string;
+  loginHistoryId?: string;
+}
+
+/**
+ * Start a new device session and issue its first token pair.
+ * The refresh token is only stored as a hash.
+ */
+export const createSession = async (
+  user: SessionUser,
+  context: SessionContext = {}
+): Promise<{ sessionId: string; token: string; refreshToken: string; expiresIn: number }> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  const sessionId = crypto.randomUUID();
+  const tokenPayload: TokenPayload = {
+    userId: user.id,
+    email: user.email,
+    role: user.role,
+    sessionId,
+  };
+
+  let token: string;
+  let refreshToken: string;
+  try {
+    token = generateAccessToken(tokenPayload);
+    refreshToken = generateRefreshToken(tokenPayload);
+  } catch (tokenError) {
+    console.error('Token generation error:', tokenError);
+    throw new AppError('Authentication error. Please try again.', 500);
+  }
+
+  const expiresAt = getTokenExpiry(refreshToken);
+
+  await prisma.userSession.create({
+    data: {
+      id: sessionId,
+      userId: user.id,
+      loginHistoryId: context.loginHistoryId,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+      expiresAt,
+      refreshTokens: {
+        create: { tokenHash: hashRefreshToken(refreshToken), expiresAt },
+      },
+    },
+  });
+
+  return { sessionId, token, refreshToken, expiresIn: ACCESS_TOKEN_EXPIRES_IN_SECONDS };
+};
+
+/**
+ * Exchange a refresh token for a new pair.
+ * Every refresh token works once; presenting one that was already used means it leaked,
+ * so the whole session (token family) is revoked.
+ */
+export const rotateRefreshToken = async (
+  refreshTokenString: string,
+  ipAddress?: string,
+  userAgent?: string
+): Promise<{ token: string; refreshToken: string; expiresIn: number }> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  try {
+    verifyRefreshToken(refreshTokenString);
+  } catch {
+    throw new AppError('Invalid or expired refresh token', 401);
+  }
+
+  const stored = await prisma.refreshToken.findUnique({
+    where: { tokenHash: hashRefreshToken(refreshTokenString) },
+    include: {
+      session: {
+        include: { user: { select: { id: true, email: true, role: true } } },
+      },
+    },
+  });
+
+  if (!stored) {
+    throw new AppError('Invalid or expired refresh token', 401);
+  }
+
+  const { session } = stored;
+
+  if (stored.usedAt) {
+    await handleRefreshTokenReuse(session.userId, session.id);
+  }
+
+  if (session.revokedAt || session.expiresAt < new Date() || stored.expiresAt < new Date()) {
+    throw new AppError('Session has ended. Please log in again.', 401);
+  }
+
+  const tokenPayload: TokenPayload = {
+    userId: session.user.id,
+    email: session.user.email,
+    role: session.user.role,
+    sessionId: session.id,
+  };
+
+  let token: string;
+  let refreshToken: string;
+  try {
+    token = generateAccessToken(tokenPayload);
+    refreshToken = generateRefreshToken(tokenPayload);
+  } catch (tokenError) {
+    console.error('Token generation error during refresh:', tokenError);
+    throw new AppError('Authentication error. Please try again.', 500);
+  }
+
+  const expiresAt = getTokenExpiry(refreshToken);
+
+  const rotated = await prisma.$transaction(async (tx) => {
+    // Consume the token atomically: a concurrent request with the same token counts as reuse
+    const consumed = await tx.refreshToken.updateMany({
+      where: { id: stored.id, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    if (consumed.count === 0) {
+      return false;
+    }
+
+    await tx.refreshToken.create({
+      data: { sessionId: session.id, tokenHash: hashRefreshToken(refreshToken), expiresAt },
+    });
+
+    await tx.userSession.update({
+      where: { id: session.id },
+      data: {
+        lastUsedAt: new Date(),
+        expiresAt,
+        ipAddress: ipAddress || session.ipAddress,
+        userAgent: userAgent || session.userAgent,
+      },
+    });
+
+    return true;
+  });
+
+  if (!rotated) {
+    await handleRefreshTokenReuse(session.userId, session.id);
+  }
+
+  return { token, refreshToken, expiresIn: ACCESS_TOKEN_EXPIRES_IN_SECONDS };
+};
+
+const handleRefreshTokenReuse = async (userId: string, sessionId: string): Promise<never> => {
+  await prisma.userSession.updateMany({
+    where: { id: sessionId, revokedAt: null },
+    data: { revokedAt: new Date(), revokedReason: 'refresh_token_reuse' },
+  });
+  console.warn(`[Auth] Refresh token reuse detected for user ${userId}, session ${sessionId} revoked`);
+  throw new AppError('Refresh token has already been used. Please log in again.', 401);
+};
+
+/**
+ * Whether the session behind an access token has been signed out.
+ * Fails open on database errors so a blip does not log everyone out.
+ */
+export const isSessionRevoked = async (sessionId: string): Promise<boolean> => {
+  if (!prisma) {
+    return false;
+  }
+
+  try {
+    const session = await prisma.userSession.findUnique({
+      where: { id: sessionId },
+      select: { revokedAt: true },
+    });
+    return !session || session.revokedAt !== null;
+  } catch (error) {
+    console.warn('Failed to check session state:', error);
+    return false;
+  }
+};
+
+/**
+ * Sessions that can still refresh, newest activity first
+ */
+export const getActiveSessions = async (
+  userId: string,
+  currentSessionId?: string
+): Promise<ActiveSessionResponse[]> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  const sessions = await prisma.userSession.findMany({
+    where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+    orderBy: { lastUsedAt: 'desc' },
+  });
+
+  return sessions.map((session) => ({
+    id: session.id,
+    ipAddress: session.ipAddress || undefined,
+    userAgent: session.userAgent || undefined,
+    createdAt: session.createdAt.toISOString(),
+    lastUsedAt: session.lastUsedAt.toISOString(),
+    current: session.id === currentSessionId,
+  }));
+};
+
+/**
+ * Sign out a single device
+ */
+export const revokeSession = async (userId: string, sessionId: string): Promise<void> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  const result = await prisma.userSession.updateMany({
+    where: { id: sessionId, userId, revokedAt: null },
+    data: { revokedAt: new Date(), revokedReason: 'signed_out' },
+  });
+
+  if (result.count === 0) {
+    throw new AppError('Session not found', 404);
+  }
+};
+
+/**
+ * Sign out every device of a user, optionally keeping the current one
+ */
+export const revokeAllSessions = async (
+  userId: string,
+  reason: string,
+  exceptSessionId?: string
+): Promise<number> => {
+  if (!prisma) {
+    throw new AppError('Database connection not available', 503);
+  }
+
+  const result = await prisma.userSession.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(exceptSessionId && { id: { not: exceptSessionId } }),
+    },
+    data: { revokedAt: new Date(), revokedReason: reason },
+  });
+
+  return result.count;
+};
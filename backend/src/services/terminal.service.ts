@@ -1,7 +1,8 @@
 import prisma from '../config/database.js';
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 import { AppError } from '../middleware/errorHandler.js';
-import { convertCurrency, processTerminalWebhook } from './payment.service.js';
+import { processTerminalWebhook } from './payment.service.js';
+import { convertCurrency } from './exchange-rate.service.js';
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 import { sendBalanceTopUpEmail } from './email.service';
 
@@ -204,7 +205,7 @@ export const processParsedTransactions = async (
               AND: [
                 { createdAt: { gte: new Date(Date.now() - 24 * 60 * 60 * 1000) } },
                 { user: { email: tx.email } },
-                { amount: convertCurrency(tx.amount, tx.currency, 'EUR') },
+                { amount: (await convertCurrency(tx.amount, tx.currency, 'EUR')).amount },
               ],
             },
           ],
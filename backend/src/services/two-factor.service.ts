@@ -0,0 +1,229 @@
+import crypto from 'crypto';
+import QRCode from 'qrcode';
+import prisma from '../config/database.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { comparePassword } from '../utils/bcrypt.js';
+import { decryptSecret, encryptSecret } from '../utils/game-key-crypto.js';
+import { buildOtpAuthUrl, findTotpStep, generateTotpSecret } from '../utils/totp.js';
+import { TwoFactorSetupResponse } from '../types/auth.js';
+
+const TOTP_ISSUER = process.env.TOTP_ISSUER || 'GKEYS Store';
+const RECOVERY_CODE_COUNT = 10;
+
+/**
+ * Whether 2FA is mandatory for the given role (every staff role).
+ * Controlled by ADMIN_2FA_REQUIRED so it can be rolled out before every admin has enrolled.
+ */
+export const isTwoFactorRequiredForRole = (role: string): boolean =>
+  role !== 'USER' && process.env.ADMIN_2FA_REQUIRED === 'true';
+
+const hashRecoveryCode = (code: string): string =>
+  crypto
+    .createHash('sha256')
+    .update(code.replace(/[\s-]/g, '').toUpperCase())
+    .digest('hex');
+
+/**
+ * Generate a fresh set of recovery codes.
+ * Returns the plaintext codes (shown to the user once) and their hashes (stored).
+ */
+const generateRecoveryCodes = (): { codes: string[]; hashes: string[] } => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString('hex').toUpperCase();
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+};
+
+const getUserOrThrow = async (userId: string) => {
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user) {
+    throw new AppError('User not found', 404);
+  }
+  return user;
+};
+
+/**
+ * Check a TOTP code and mark its time step as used. A code is accepted once, and codes
+ * from earlier steps are refused afterwards, so an intercepted code cannot be replayed
+ * while it is still inside the drift window.
+ */
+const acceptTotpCode = async (
+  user: { id: string; twoFactorSecret: string | null; twoFactorLastStep: number | null },
+  code: string
+): Promise<boolean> => {
+  if (!user.twoFactorSecret) {
+    return false;
+  }
+
+  const step = findTotpStep(decryptSecret(user.twoFactorSecret), code);
+  if (step === null || (user.twoFactorLastStep !== null && step <= user.twoFactorLastStep)) {
+    return false;
+  }
+
+  // Guarded so two requests with the same code cannot both succeed
+  const { count } = await prisma.user.updateMany({
+    where: {
+      id: user.id,
+      OR: [{ twoFactorLastStep: null }, { twoFactorLastStep: { lt: step } }],
+    },
+    data: { twoFactorLastStep: step },
+  });
+  return count > 0;
+};
+
+/**
+ * Start 2FA enrolment: create a secret and return it with a scannable QR code.
+ * The secret only becomes active once confirmed with enableTwoFactor.
+ */
+export const beginTwoFactorSetup = async (userId: string): Promise<TwoFactorSetupResponse> => {
+  const user = await getUserOrThrow(userId);
+
+  if (user.twoFactorEnabled) {
+    throw new AppError('Two-factor authentication is already enabled', 400);
+  }
+
+  const secret = generateTotpSecret();
+  await prisma.user.update({
+    where: { id: userId },
+    data: { twoFactorSecret: encryptSecret(secret), twoFactorLastStep: null },
+  });
+
+  const otpauthUrl = buildOtpAuthUrl(secret, user.email, TOTP_ISSUER);
+  const qrCode = await QRCode.toDataURL(otpauthUrl);
+
+  return { secret, otpauthUrl, qrCode };
+};
+
+/**
+ * Confirm enrolment with a code from the authenticator app.
+ * Returns the recovery codes, which are only ever shown this once.
+ */
+export const enableTwoFactor = async (userId: string, code: string): Promise<string[]> => {
+  const user = await getUserOrThrow(userId);
+
+  if (user.twoFactorEnabled) {
+    throw new AppError('Two-factor authentication is already enabled', 400);
+  }
+
+  if (!user.twoFactorSecret) {
+    throw new AppError('Two-factor setup has not been started', 400);
+  }
+
+  if (!(await acceptTotpCode(user, code))) {
+    throw new AppError('Invalid authentication code', 400);
+  }
+
+  const { codes, hashes } = generateRecoveryCodes();
+  await prisma.user.update({
+    where: { id: userId },
+    data: { twoFactorEnabled: true, twoFactorRecoveryCodes: hashes },
+  });
+
+  return codes;
+};
+
+/**
+ * Check a TOTP code or a recovery code for a user with 2FA enabled.
+ * A matching recovery code is consumed.
+ */
+export const verifyTwoFactorCode = async (
+  userId: string,
+  credentials: { code?: string; recoveryCode?: string }
+): Promise<boolean> => {
+  const user = await getUserOrThrow(userId);
+
+  if (!user.twoFactorEnabled || !user.twoFactorSecret) {
+    return false;
+  }
+
+  if (credentials.code) {
+    return acceptTotpCode(user, credentials.code);
+  }
+
+  if (credentials.recoveryCode) {
+    const hash = hashRecoveryCode(credentials.recoveryCode);
+    if (!user.twoFactorRecoveryCodes.includes(hash)) {
+      return false;
+    }
+    await prisma.user.update({
+      where: { id: userId },
+      data: { twoFactorRecoveryCodes: user.twoFactorRecoveryCodes.filter((h) => h !== hash) },
+    });
+    return true;
+  }
+
+  return false;
+};
+
+/**
+ * Turn 2FA off. Requires the current password and a valid code.
+ */
+export const disableTwoFactor = async (
+  userId: string,
+  password: string,
+  code: string
+): Promise<void> => {
+  const user = await getUserOrThrow(userId);
+
+  if (!user.twoFactorEnabled) {
+    throw new AppError('Two-factor authentication is not enabled', 400);
+  }
+
+  if (isTwoFactorRequiredForRole(user.role)) {
+    throw new AppError('Two-factor authentication is mandatory for administrators', 403);
+  }
+
+  const isValidPassword = await comparePassword(password, user.passwordHash);
+  if (!isValidPassword) {
+    throw new AppError('Current password is incorrect', 400);
+  }
+
+  if (!(await verifyTwoFactorCode(userId, { code }))) {
+    throw new AppError('Invalid authentication code', 400);
+  }
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      twoFactorEnabled: false,
+      twoFactorSecret: null,
+      twoFactorLastStep: null,
+      twoFactorRecoveryCodes: [],
+    },
+  });
+};
+
+/**
+ * Replace all recovery codes. Requires a valid TOTP code.
+ */
+export const regenerateRecoveryCodes = async (userId: string, code: string): Promise<string[]> => {
+  const user = await getUserOrThrow(userId);
+
+  if (!user.twoFactorEnabled || !user.twoFactorSecret) {
+    throw new AppError('Two-factor authentication is not enabled', 400);
+  }
+
+  if (!(await acceptTotpCode(user, code))) {
+    throw new AppError('Invalid authentication code', 400);
+  }
+
+  const { codes, hashes } = generateRecoveryCodes();
+  await prisma.user.update({
+    where: { id: userId },
+    data: { twoFactorRecoveryCodes: hashes },
+  });
+
+  return codes;
+};
+
+export const getTwoFactorStatus = async (
+  userId: string
+): Promise<{ enabled: boolean; required: boolean; recoveryCodesRemaining: number }> => {
+  const user = await getUserOrThrow(userId);
+  return {
+    enabled: user.twoFactorEnabled,
+    required: isTwoFactorRequiredForRole(user.role),
+    recoveryCodesRemaining: user.twoFactorRecoveryCodes.length,
+  };
+};
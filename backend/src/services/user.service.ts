@@ -1,4 +1,6 @@
+import { Role } from '@prisma/client';
 import prisma from '../config/database.js';
+import { resolvePermissions } from '../config/permissions.js';
 import { hashPassword, comparePassword } from '../utils/bcrypt.js';
 import {
   UserProfileResponse,
@@ -10,6 +12,7 @@ import {
   WishlistResponse,
 } from '../types/user.js';
 import { AppError } from '../middleware/errorHandler.js';
+import { isDisplayCurrency } from './display-currency.service.js';
 
 export const getUserProfile = async (userId: string): Promise<UserProfileResponse> => {
   const user = await prisma.user.findUnique({
@@ -21,6 +24,7 @@ export const getUserProfile = async (userId: string): Promise<UserProfileRespons
           items: true,
         },
       },
+      adminRole: { select: { permissions: true } },
     },
   });
 
@@ -52,7 +56,11 @@ export const getUserProfile = async (userId: string): Promise<UserProfileRespons
     avatar: user.avatar || undefined,
     balance: Number(user.balance),
     role: user.role,
+    permissions: resolvePermissions(user.role, user.adminRole?.permissions),
     emailVerified: user.emailVerified,
+    twoFactorEnabled: user.twoFactorEnabled,
+    displayCurrency: user.displayCurrency || undefined,
+    deletionScheduledFor: user.deletionScheduledFor?.toISOString(),
     createdAt: user.createdAt.toISOString(),
     stats: {
       gamesPurchased,
@@ -72,6 +80,7 @@ export const updateUserProfile = async (
     firstName?: string | null;
     lastName?: string | null;
     passwordHash?: string;
+    displayCurrency?: string | null;
   } = {};
 
   if (data.nickname !== undefined) {
@@ -86,6 +95,14 @@ export const updateUserProfile = async (
   if (data.password) {
     updateData.passwordHash = await hashPassword(data.password);
   }
+  if (data.displayCurrency !== undefined) {
+    // null goes back to the currency of the browser language
+    const currency = data.displayCurrency?.trim().toUpperCase() || null;
+    if (currency && !isDisplayCurrency(currency)) {
+      throw new AppError(`Prices cannot be shown in ${data.displayCurrency}`, 400);
+    }
+    updateData.displayCurrency = currency;
+  }
 
   await prisma.user.update({
     where: { id: userId },
@@ -200,7 +217,8 @@ export const removeFromWishlist = async (userId: string, gameId: string): Promis
 
 export const changeUserPassword = async (
   userId: string,
-  data: ChangePasswordRequest
+  data: ChangePasswordRequest,
+  currentSessionId?: string
 ): Promise<void> => {
   const user = await prisma.user.findUnique({
     where: { id: userId },
@@ -223,6 +241,10 @@ export const changeUserPassword = async (
     where: { id: userId },
     data: { passwordHash: newPasswordHash },
   });
+
+  // Sign out every other device; the one that changed the password stays signed in
+  const { revokeAllSessions } = await import('./session.service.js');
+  await revokeAllSessions(userId, 'password_changed', currentSessionId);
 };
 
 export const getUserStats = async (userId: string): Promise<UserStatsResponse> => {
@@ -333,21 +355,51 @@ export const updateUserBalance = async (
 };
 
 /**
- * Update user role (admin function)
+ * Update user role (admin function).
+ * A custom admin role can only be attached to staff accounts and is dropped when demoting to USER.
  */
-export const updateUserRole = async (userId: string, role: 'USER' | 'ADMIN'): Promise<void> => {
+export const updateUserRole = async (
+  userId: string,
+  role: Role,
+  adminRoleId?: string | null
+): Promise<void> => {
   const user = await prisma.user.findUnique({
     where: { id: userId },
-    select: { id: true },
+    select: { id: true, role: true },
   });
 
   if (!user) {
     throw new AppError('User not found', 404);
   }
 
+  if (user.role === Role.SUPERADMIN && role !== Role.SUPERADMIN) {
+    const superadminCount = await prisma.user.count({ where: { role: Role.SUPERADMIN } });
+    if (superadminCount <= 1) {
+      throw new AppError('Cannot change the role of the last superadmin', 400);
+    }
+  }
+
+  if (adminRoleId) {
+    if (role === Role.USER) {
+      throw new AppError('Custom roles can only be assigned to staff accounts', 400);
+    }
+    const adminRole = await prisma.adminRole.findUnique({
+      where: { id: adminRoleId },
+      select: { id: true },
+    });
+    if (!adminRole) {
+      throw new AppError('Admin role not found', 404);
+    }
+  }
+
   await prisma.user.update({
     where: { id: userId },
-    data: { role },
+    data: {
+      role,
+      ...(role === Role.USER
+        ? { adminRoleId: null }
+        : adminRoleId !== undefined && { adminRoleId }),
+    },
   });
 
   // Invalidate user-related cache (non-blocking)
@@ -1,3 +1,6 @@
+import { Role } from '@prisma/client';
+import type { ReconciliationOverview } from './order.js';
+
 export interface AdminDashboardStats {
   totalUsers: number;
   newUsersToday: number;
@@ -37,12 +40,15 @@ export interface AdminDashboardStats {
     count: number;
     revenue: number;
   }[];
+  reconciliation: ReconciliationOverview;
 }
 
 export interface UserSearchFilters {
   query?: string;
   email?: string;
   name?: string;
+  // Only accounts with an active login lockout
+  locked?: boolean;
   page?: number;
   pageSize?: number;
 }
@@ -65,6 +71,7 @@ export interface UserDetailsResponse {
   lastName?: string;
   balance: number;
   role: string;
+  adminRole?: { id: string; name: string };
   createdAt: string;
   orders: {
     id: string;
@@ -85,12 +92,12 @@ export interface UserUpdateInput {
   nickname?: string;
   firstName?: string;
   lastName?: string;
-  role?: 'USER' | 'ADMIN';
+  role?: Role;
   balance?: number;
 }
 
 export interface OrderUpdateInput {
-  status?: 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
+  status?: 'PENDING' | 'PROCESSING' | 'PARTIALLY_COMPLETED' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
   paymentStatus?: 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
   paymentMethod?: string;
   promoCode?: string;
@@ -184,6 +191,10 @@ export interface TransactionResult {
     type: 'TOP_UP' | 'PURCHASE' | 'REFUND';
     amount: number;
     currency: string;
+    // Set when the amount was converted from another currency
+    originalAmount?: number;
+    originalCurrency?: string;
+    exchangeRate?: number;
     method?: string;
     status: 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
     description?: string;
@@ -424,7 +435,32 @@ export interface BalanceUpdateResult {
 }
 
 export interface RoleUpdateRequest {
-  role: 'USER' | 'ADMIN';
+  role: Role;
+  // Custom role granting extra permissions on top of a staff role; null removes it
+  adminRoleId?: string | null;
+}
+
+export interface AdminRoleInput {
+  name: string;
+  description?: string;
+  permissions: string[];
+}
+
+export interface AdminRoleResponse {
+  id: string;
+  name: string;
+  description?: string;
+  permissions: string[];
+  userCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RolesOverviewResponse {
+  // Every permission that can be granted
+  permissions: string[];
+  builtIn: { role: Role; permissions: string[] }[];
+  custom: AdminRoleResponse[];
 }
 
 export interface ActivityFilters {
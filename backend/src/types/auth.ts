@@ -20,10 +20,36 @@ export interface AuthResponse {
     lastName?: string;
     avatar?: string;
     role: string;
+    permissions: string[];
+    displayCurrency?: string;
   };
   token: string;
   refreshToken: string;
   expiresIn: number;
+  // Only present right after 2FA enrolment completed during login
+  recoveryCodes?: string[];
+}
+
+export interface TwoFactorChallengeResponse {
+  twoFactorRequired: true;
+  // True when the account must enrol in 2FA (e.g. admins under ADMIN_2FA_REQUIRED) before signing in
+  setupRequired: boolean;
+  challengeToken: string;
+  expiresIn: number;
+}
+
+export type LoginResponse = AuthResponse | TwoFactorChallengeResponse;
+
+export interface TwoFactorVerifyRequest {
+  challengeToken: string;
+  code?: string;
+  recoveryCode?: string;
+}
+
+export interface TwoFactorSetupResponse {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
 }
 
 export interface RefreshTokenRequest {
@@ -35,3 +61,13 @@ export interface RefreshTokenResponse {
   refreshToken: string;
   expiresIn: number;
 }
+
+export interface ActiveSessionResponse {
+  id: string;
+  ipAddress?: string;
+  userAgent?: string;
+  createdAt: string;
+  lastUsedAt: string;
+  // True for the session the request was made from
+  current: boolean;
+}
@@ -0,0 +1,54 @@
+export interface CurrencyConversion {
+  amount: number;
+  currency: string;
+  originalAmount: number;
+  originalCurrency: string;
+  // amount = originalAmount * rate
+  rate: number;
+}
+
+export interface ExchangeRateResponse {
+  id: string;
+  currency: string;
+  // Units of the currency per 1 EUR
+  rate: number;
+  source: 'PROVIDER' | 'MANUAL';
+  provider?: string;
+  note?: string;
+  createdBy?: string;
+  // When the provider published the rate
+  effectiveAt: string;
+  createdAt: string;
+}
+
+export interface CurrentExchangeRate extends ExchangeRateResponse {
+  ageHours: number;
+  // Older than the maximum rate age, so conversions with this currency are refused
+  stale: boolean;
+}
+
+export interface ExchangeRateOverview {
+  baseCurrency: 'EUR';
+  maxRateAgeHours: number;
+  provider: string;
+  rates: CurrentExchangeRate[];
+}
+
+export interface ExchangeRateRefreshResult {
+  provider: string;
+  updated: string[];
+  // Currencies whose newest stored rate is not older than the provider's data
+  unchanged: string[];
+}
+
+// Currency storefront prices are shown in, with its rate against EUR
+export interface DisplayPricing {
+  currency: string;
+  rate: number;
+}
+
+export interface DisplayCurrencyOptions {
+  currencies: string[];
+  // Currency the request's language maps to
+  detected: string;
+}
@@ -0,0 +1,39 @@
+export interface InvoiceParty {
+  name: string;
+  email?: string;
+  address?: string;
+  vatId?: string;
+}
+
+export interface InvoiceLine {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  // Gross amount of the line before the order discount
+  total: number;
+}
+
+export interface InvoiceResponse {
+  id: string;
+  number: string;
+  type: 'ORDER' | 'TOP_UP';
+  orderId?: string;
+  transactionId?: string;
+  currency: string;
+  seller: InvoiceParty;
+  buyer: InvoiceParty;
+  lines: InvoiceLine[];
+  subtotal: number;
+  discount: number;
+  taxRate: number;
+  taxAmount: number;
+  total: number;
+  note?: string;
+  issuedAt: string;
+}
+
+export interface InvoiceDocument {
+  number: string;
+  filename: string;
+  pdf: Buffer;
+}
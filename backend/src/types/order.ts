@@ -4,6 +4,25 @@ export interface CreateOrderRequest {
     quantity: number;
   }[];
   promoCode?: string;
+  gift?: GiftRequest;
+  // Pay through a gateway instead of the balance alone
+  payment?: OrderPaymentRequest;
+}
+
+export type OrderPaymentGateway = 'stripe' | 'paypal' | 'mollie';
+
+export interface OrderPaymentRequest {
+  gateway: OrderPaymentGateway;
+  // Pay as much as possible from the balance and only the rest through the gateway (default)
+  useBalance?: boolean;
+}
+
+export interface GiftRequest {
+  recipientEmail: string;
+  senderName: string;
+  message?: string;
+  // ISO date; the gift is sent right after delivery when omitted
+  deliverAt?: string;
 }
 
 export interface OrderResponse {
@@ -20,6 +39,48 @@ export interface OrderResponse {
   completedAt?: string;
   items: OrderItemResponse[];
   keys?: GameKeyResponse[];
+  statusHistory?: OrderStatusHistoryResponse[];
+  gift?: OrderGiftResponse;
+  payment?: OrderPaymentResponse;
+}
+
+export interface OrderPaymentResponse {
+  intentId: string;
+  gateway: string;
+  // Charged through the gateway
+  amount: number;
+  currency: string;
+  // Paid from the balance
+  balanceAmount: number;
+  status: 'pending' | 'completed' | 'failed' | 'cancelled' | 'expired';
+  // Where the customer pays, while the payment is pending
+  checkoutUrl?: string;
+  expiresAt: string;
+}
+
+export interface OrderGiftResponse {
+  recipientEmail: string;
+  senderName: string;
+  message?: string;
+  deliverAt: string;
+  sentAt?: string;
+  openedAt?: string;
+  redeemedAt?: string;
+}
+
+export interface GiftPreviewResponse {
+  senderName: string;
+  message?: string;
+  games: {
+    id: string;
+    title: string;
+    image: string;
+    slug: string;
+    quantity: number;
+  }[];
+  redeemed: boolean;
+  // Set when the gift was redeemed by the user looking at it
+  redeemedByYou: boolean;
 }
 
 export interface OrderItemResponse {
@@ -34,12 +95,203 @@ export interface OrderItemResponse {
   quantity: number;
   price: number;
   discount: number;
+  fulfillmentStatus: string;
+  fulfilledQuantity: number;
+  refundedQuantity: number;
 }
 
 export interface GameKeyResponse {
   id: string;
   gameId: string;
+  // Masked; customers reveal keys from their key library
   key: string;
   activated: boolean;
   activationDate?: string;
 }
+
+export interface OrderStatusHistoryResponse {
+  id: string;
+  fromStatus?: string;
+  toStatus: string;
+  actorType: string;
+  reason?: string;
+  actor?: {
+    id: string;
+    email: string;
+    nickname?: string;
+  };
+  createdAt: string;
+}
+
+export interface CreateClaimRequest {
+  orderItemId: string;
+  gameKeyId?: string;
+  type: 'KEY_NOT_WORKING' | 'REFUND_REQUEST';
+  reason: string;
+  // Image as a data URL (PNG, JPEG or WebP)
+  screenshot?: string;
+}
+
+export interface ClaimEventResponse {
+  id: string;
+  status: string;
+  actorType: string;
+  note?: string;
+  actor?: {
+    id: string;
+    email: string;
+    nickname?: string;
+  };
+  createdAt: string;
+}
+
+export interface ClaimResponse {
+  id: string;
+  orderId: string;
+  orderItemId: string;
+  game: {
+    id: string;
+    title: string;
+  };
+  type: string;
+  status: string;
+  reason: string;
+  maskedKey?: string;
+  hasScreenshot: boolean;
+  resolutionNote?: string;
+  replacementKey?: string;
+  refundAmount?: number;
+  resolvedAt?: string;
+  createdAt: string;
+  events: ClaimEventResponse[];
+}
+
+export interface AdminClaimResponse extends ClaimResponse {
+  user: {
+    id: string;
+    email: string;
+    nickname?: string;
+  };
+  screenshot?: string;
+}
+
+export interface PreorderResponse {
+  id: string;
+  user: {
+    id: string;
+    email: string;
+    nickname?: string;
+  };
+  total: number;
+  items: Array<{
+    gameId: string;
+    title: string;
+    quantity: number;
+    releaseDate: string;
+    released: boolean;
+  }>;
+  // Delivered by the next run of the preorder job
+  ready: boolean;
+  createdAt: string;
+}
+
+export interface PreorderGameSummary {
+  gameId: string;
+  title: string;
+  releaseDate: string;
+  orders: number;
+  units: number;
+  poolKeys: number;
+}
+
+export interface PreorderReleaseResult {
+  orderId: string;
+  status?: string;
+  delivered?: number;
+  error?: string;
+}
+
+export type ReconciliationAction = 'COMPLETED' | 'RETRIED' | 'REFUNDED' | 'SKIPPED' | 'FAILED';
+
+export interface ReconciliationEntry {
+  orderId: string;
+  action: ReconciliationAction;
+  // Order status after the run
+  status: string;
+  recoveredKeys: number;
+  deliveredKeys: number;
+  refundedUnits: number;
+  refundedAmount: number;
+  notes: string[];
+}
+
+export interface ReconciliationReport {
+  // Missing for scheduled runs that found nothing to do, which are not stored
+  id?: string;
+  trigger: 'SCHEDULED' | 'MANUAL';
+  triggeredBy?: string;
+  checked: number;
+  completed: number;
+  retried: number;
+  refunded: number;
+  skipped: number;
+  failed: number;
+  entries: ReconciliationEntry[];
+  startedAt: string;
+  finishedAt: string;
+}
+
+export interface ReconciliationOverview {
+  stuckOrders: number;
+  runs: ReconciliationReport[];
+}
+
+export interface FulfillmentAttempt {
+  attempt: number;
+  // The queue worker, checkout without the queue, or a staff retry
+  source: 'QUEUE' | 'SYNC' | 'RETRY';
+  error: string;
+  supplier?: 'G2A' | 'POOL';
+  failedAt?: string;
+}
+
+export interface DeadLetterResponse {
+  id: string;
+  orderId: string;
+  source: 'QUEUE' | 'SYNC';
+  jobId?: string;
+  status: 'OPEN' | 'RETRIED' | 'REFUNDED';
+  error: string;
+  attempts: FulfillmentAttempt[];
+  payload: Record<string, unknown>;
+  order: {
+    status: string;
+    total: number;
+    userEmail: string;
+    createdAt: string;
+  };
+  items: Array<{
+    id: string;
+    gameId: string;
+    title: string;
+    quantity: number;
+    outstanding: number;
+    fulfillmentStatus: string;
+    fulfillmentError?: string;
+    hasG2AProduct: boolean;
+    poolKeys: number;
+  }>;
+  resolvedBy?: string;
+  resolvedAt?: string;
+  resolveNote?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DeadLetterActionResult {
+  deadLetter: DeadLetterResponse;
+  orderStatus: string;
+  delivered: number;
+  refundedUnits: number;
+  refundedAmount: number;
+}
@@ -7,14 +7,22 @@ export interface BalanceTopUpRequest {
 
 export interface PaymentIntent {
   id: string;
+  // What the gateway charges
   amount: number;
   currency: string;
+  // What the customer asked to add to their balance, before the promo discount
+  requestedAmount: number;
+  requestedCurrency: string;
+  discount: number;
   paymentMethod: string;
   redirectUrl: string;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  status: 'pending' | 'completed' | 'failed' | 'cancelled' | 'expired';
+  expiresAt: string;
+  createdAt: string;
 }
 
 export interface PaymentWebhook {
+  intentId: string;
   transactionId: string;
   email: string;
   name?: string;
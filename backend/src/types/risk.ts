@@ -0,0 +1,79 @@
+export type RiskRuleId =
+  | 'NEW_ACCOUNT'
+  | 'ORDER_VELOCITY'
+  | 'UNVERIFIED_EMAIL'
+  | 'TOP_UP_THEN_SPEND'
+  | 'IP_CHANGE'
+  | 'COUNTRY_CHANGE'
+  | 'HIGH_VALUE';
+
+export interface RiskRuleConfig {
+  enabled: boolean;
+  points: number;
+  params: Record<string, number>;
+}
+
+export interface RiskSettings {
+  // Orders scoring at least this many points are held for review
+  holdThreshold: number;
+  rules: Record<RiskRuleId, RiskRuleConfig>;
+}
+
+export interface RiskSignal {
+  rule: RiskRuleId;
+  points: number;
+  detail: string;
+}
+
+export interface RiskAssessmentResult {
+  score: number;
+  threshold: number;
+  held: boolean;
+  signals: RiskSignal[];
+}
+
+export interface RiskSettingsResponse {
+  holdThreshold: number;
+  rules: Array<{
+    id: RiskRuleId;
+    label: string;
+    description: string;
+    enabled: boolean;
+    points: number;
+    params: Array<{ key: string; label: string; value: number }>;
+  }>;
+  updatedAt?: string;
+}
+
+export interface RiskSettingsUpdateRequest {
+  holdThreshold?: number;
+  rules?: Partial<Record<RiskRuleId, Partial<RiskRuleConfig>>>;
+}
+
+export interface RiskReviewResponse {
+  orderId: string;
+  user: {
+    id: string;
+    email: string;
+    nickname?: string;
+    emailVerified: boolean;
+    createdAt: string;
+  };
+  total: number;
+  items: Array<{
+    gameId: string;
+    title: string;
+    quantity: number;
+    price: number;
+  }>;
+  score: number;
+  threshold: number;
+  signals: RiskSignal[];
+  createdAt: string;
+}
+
+export interface RiskReviewDecisionResponse {
+  orderId: string;
+  decision: 'APPROVED' | 'REJECTED';
+  status: string;
+}
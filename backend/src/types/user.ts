@@ -1,3 +1,5 @@
+import { ActivationGuide } from '../config/activation-services.js';
+
 export interface UserProfileResponse {
   id: string;
   email: string;
@@ -7,7 +9,14 @@ export interface UserProfileResponse {
   avatar?: string;
   balance: number;
   role: string;
+  // Admin panel permissions; empty for customers
+  permissions: string[];
   emailVerified: boolean;
+  twoFactorEnabled: boolean;
+  // Storefront currency picked by the customer; unset follows the browser language
+  displayCurrency?: string;
+  // Set while a self-service account deletion is pending
+  deletionScheduledFor?: string;
   createdAt: string;
   stats?: {
     gamesPurchased: number;
@@ -22,6 +31,7 @@ export interface UpdateProfileRequest {
   firstName?: string;
   lastName?: string;
   password?: string;
+  displayCurrency?: string | null;
 }
 
 export interface ChangePasswordRequest {
@@ -67,3 +77,37 @@ export interface WishlistResponse {
   };
   addedAt: string;
 }
+
+export interface DataExportResponse {
+  // Works without authentication until expiresAt
+  downloadPath: string;
+  expiresAt: string;
+}
+
+export interface AccountDeletionResponse {
+  deletionScheduledFor: string;
+}
+
+export interface LibraryKeyResponse {
+  id: string;
+  orderId: string;
+  // Masked until the customer reveals it
+  maskedKey: string;
+  activated: boolean;
+  activationDate?: string;
+  purchasedAt: string;
+  lastRevealedAt?: string;
+}
+
+export interface KeyLibraryGroupResponse {
+  game: {
+    id: string;
+    title: string;
+    slug: string;
+    image: string;
+  };
+  platform: string;
+  activationService?: string;
+  activation: ActivationGuide;
+  keys: LibraryKeyResponse[];
+}
@@ -0,0 +1,225 @@
+import crypto from 'crypto';
+
+// Envelope encryption: every key value gets its own random data key, and only the
+// data key is encrypted ("wrapped") with a master key. Rotating the master key
+// re-wraps the data keys without touching the key ciphertexts.
+const CIPHER = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const AUTH_TAG_LENGTH = 16;
+const KEY_LENGTH = 32;
+const HINT_LENGTH = 4;
+
+interface MasterKeyring {
+  activeId: string;
+  keys: Map<string, Buffer>;
+}
+
+/**
+ * Encrypted columns stored on a game key
+ */
+export interface EncryptedGameKey {
+  encryptedKey: string;
+  encryptedDataKey: string;
+  masterKeyId: string;
+  keyHash: string;
+  keyHint: string;
+}
+
+/**
+ * Game key columns needed to read the value back.
+ * `key` only holds a value for rows written before encryption was introduced.
+ */
+export interface StoredGameKey {
+  key?: string | null;
+  encryptedKey?: string | null;
+  encryptedDataKey?: string | null;
+  masterKeyId?: string | null;
+  keyHint?: string | null;
+}
+
+/**
+ * Read the master keys from GAME_KEY_MASTER_KEYS ("id:base64,id:base64").
+ * GAME_KEY_ACTIVE_MASTER_KEY selects the key for new writes, defaulting to the last one listed.
+ */
+const loadKeyring = (): MasterKeyring => {
+  const raw = process.env.GAME_KEY_MASTER_KEYS;
+  if (!raw) {
+    throw new Error(
+      'GAME_KEY_MASTER_KEYS environment variable is required to store game keys. Generate a key with: openssl rand -base64 32'
+    );
+  }
+
+  const keys = new Map<string, Buffer>();
+  for (const entry of raw
+    .split(',')
+    .map((part) => part.trim())
+    .filter(Boolean)) {
+    const separator = entry.indexOf(':');
+    const id = entry.slice(0, separator).trim();
+    const key = Buffer.from(entry.slice(separator + 1).trim(), 'base64');
+    if (separator <= 0 || key.length !== KEY_LENGTH) {
+      throw new Error(
+        `Invalid GAME_KEY_MASTER_KEYS entry "${id || entry}". Expected "id:base64" with a 32-byte key.`
+      );
+    }
+    keys.set(id, key);
+  }
+
+  const activeId = process.env.GAME_KEY_ACTIVE_MASTER_KEY || Array.from(keys.keys()).pop()!;
+  if (!keys.has(activeId)) {
+    throw new Error(
+      `GAME_KEY_ACTIVE_MASTER_KEY "${activeId}" is not listed in GAME_KEY_MASTER_KEYS`
+    );
+  }
+
+  return { activeId, keys };
+};
+
+const getHashSecret = (): string => {
+  const secret = process.env.GAME_KEY_HASH_SECRET;
+  if (!secret || secret.length < 32) {
+    throw new Error(
+      'GAME_KEY_HASH_SECRET environment variable must be at least 32 characters long'
+    );
+  }
+  return secret;
+};
+
+const seal = (key: Buffer, plaintext: Buffer): string => {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(CIPHER, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+};
+
+const open = (key: Buffer, sealed: string): Buffer => {
+  const data = Buffer.from(sealed, 'base64');
+  const iv = data.subarray(0, IV_LENGTH);
+  const authTag = data.subarray(IV_LENGTH, IV_LENGTH + AUTH_TAG_LENGTH);
+  const decipher = crypto.createDecipheriv(CIPHER, key, iv);
+  decipher.setAuthTag(authTag);
+  return Buffer.concat([
+    decipher.update(data.subarray(IV_LENGTH + AUTH_TAG_LENGTH)),
+    decipher.final(),
+  ]);
+};
+
+const getMasterKey = (keyring: MasterKeyring, id: string): Buffer => {
+  const key = keyring.keys.get(id);
+  if (!key) {
+    throw new Error(`Master key "${id}" is not configured in GAME_KEY_MASTER_KEYS`);
+  }
+  return key;
+};
+
+const normalizeGameKey = (value: string): string => value.trim();
+
+/**
+ * Deterministic hash of a key value, used for uniqueness checks and exact-match search
+ */
+export const hashGameKey = (value: string): string =>
+  crypto.createHmac('sha256', getHashSecret()).update(normalizeGameKey(value)).digest('hex');
+
+/**
+ * Encrypt a key value with a fresh data key wrapped by the active master key
+ */
+export const encryptGameKey = (value: string): EncryptedGameKey => {
+  const normalized = normalizeGameKey(value);
+  if (!normalized) {
+    throw new Error('Game key value is empty');
+  }
+  const keyring = loadKeyring();
+  const dataKey = crypto.randomBytes(KEY_LENGTH);
+
+  return {
+    encryptedKey: seal(dataKey, Buffer.from(normalized, 'utf8')),
+    encryptedDataKey: seal(getMasterKey(keyring, keyring.activeId), dataKey),
+    masterKeyId: keyring.activeId,
+    keyHash: hashGameKey(normalized),
+    keyHint: normalized.slice(-HINT_LENGTH),
+  };
+};
+
+/**
+ * Read the plaintext key value. Rows that were never encrypted return their legacy value.
+ */
+export const decryptGameKey = (stored: StoredGameKey): string => {
+  if (!stored.encryptedKey || !stored.encryptedDataKey || !stored.masterKeyId) {
+    if (stored.key) {
+      return stored.key;
+    }
+    throw new Error('Game key has no stored value');
+  }
+
+  const keyring = loadKeyring();
+  const dataKey = open(getMasterKey(keyring, stored.masterKeyId), stored.encryptedDataKey);
+  return open(dataKey, stored.encryptedKey).toString('utf8');
+};
+
+/**
+ * Masked form shown in listings, e.g. "****-****-7QXA"
+ */
+export const maskGameKey = (stored: StoredGameKey): string => {
+  const hint = stored.keyHint ?? stored.key?.trim().slice(-HINT_LENGTH) ?? '';
+  return `****-****-${hint}`;
+};
+
+/**
+ * Whether the row still needs encrypting or re-wrapping with the active master key
+ */
+export const needsReencryption = (stored: StoredGameKey): boolean =>
+  !stored.encryptedKey || stored.masterKeyId !== loadKeyring().activeId;
+
+/**
+ * Re-wrap the data key with the active master key. The key ciphertext stays as it is.
+ */
+export const rewrapGameKey = (
+  stored: StoredGameKey
+): Pick<EncryptedGameKey, 'encryptedDataKey' | 'masterKeyId'> => {
+  if (!stored.encryptedDataKey || !stored.masterKeyId) {
+    throw new Error('Game key is not encrypted yet');
+  }
+
+  const keyring = loadKeyring();
+  const dataKey = open(getMasterKey(keyring, stored.masterKeyId), stored.encryptedDataKey);
+  return {
+    encryptedDataKey: seal(getMasterKey(keyring, keyring.activeId), dataKey),
+    masterKeyId: keyring.activeId,
+  };
+};
+
+/**
+ * Encrypt another secret, such as a TOTP seed, under the same master keys.
+ * The result fits one column as "masterKeyId:encryptedDataKey:encryptedValue".
+ */
+export const encryptSecret = (value: string): string => {
+  const keyring = loadKeyring();
+  const dataKey = crypto.randomBytes(KEY_LENGTH);
+  return [
+    keyring.activeId,
+    seal(getMasterKey(keyring, keyring.activeId), dataKey),
+    seal(dataKey, Buffer.from(value, 'utf8')),
+  ].join(':');
+};
+
+/**
+ * Read a secret written by encryptSecret. Values stored before encryption are returned as they are.
+ */
+export const decryptSecret = (stored: string): string => {
+  const parts = stored.split(':');
+  if (parts.length !== 3) {
+    return stored;
+  }
+
+  const [masterKeyId, encryptedDataKey, encryptedValue] = parts;
+  const dataKey = open(getMasterKey(loadKeyring(), masterKeyId), encryptedDataKey);
+  return open(dataKey, encryptedValue).toString('utf8');
+};
+
+/**
+ * Whether a secret is still plaintext or wrapped with an older master key
+ */
+export const needsSecretReencryption = (stored: string): boolean => {
+  const parts = stored.split(':');
+  return parts.length !== 3 || parts[0] !== loadKeyring().activeId;
+};
@@ -1,3 +1,4 @@
+import crypto from 'crypto';
 import jwt, { SignOptions } from 'jsonwebtoken';
 
 const JWT_SECRET = process.env.JWT_SECRET;
@@ -38,6 +39,18 @@ export interface TokenPayload {
   userId: string;
   email: string;
   role: string;
+  // Device session the token was issued for (see session.service.ts)
+  sessionId?: string;
+}
+
+// Issued after a correct password when a second factor is still needed.
+// It cannot be used as an access token: it lacks email/role and carries its own purpose claim.
+const TWO_FACTOR_CHALLENGE_EXPIRES_IN = '5m';
+const TWO_FACTOR_CHALLENGE_PURPOSE = '2fa_challenge';
+
+export interface TwoFactorChallengePayload {
+  userId: string;
+  purpose: typeof TWO_FACTOR_CHALLENGE_PURPOSE;
 }
 
 export const generateAccessToken = (payload: TokenPayload): string => {
@@ -50,10 +63,23 @@ export const generateAccessToken = (payload: TokenPayload): string => {
 export const generateRefreshToken = (payload: TokenPayload): string => {
   const options: SignOptions = {
     expiresIn: JWT_REFRESH_EXPIRES_IN as SignOptions['expiresIn'],
+    // Unique id so two tokens issued in the same second never share a hash
+    jwtid: crypto.randomUUID(),
   };
   return jwt.sign(payload, JWT_REFRESH_SECRET, options);
 };
 
+/**
+ * Read the expiry of a token we just signed (no signature check)
+ */
+export const getTokenExpiry = (token: string): Date => {
+  const decoded = jwt.decode(token) as { exp?: number } | null;
+  if (!decoded?.exp) {
+    throw new Error('Token has no expiry');
+  }
+  return new Date(decoded.exp * 1000);
+};
+
 export const verifyAccessToken = (token: string): TokenPayload => {
   try {
     const decoded = jwt.verify(token, JWT_SECRET) as TokenPayload;
@@ -99,3 +125,27 @@ export const verifyRefreshToken = (token: string): TokenPayload => {
     throw error;
   }
 };
+
+export const generateTwoFactorChallengeToken = (userId: string): string => {
+  const payload: TwoFactorChallengePayload = { userId, purpose: TWO_FACTOR_CHALLENGE_PURPOSE };
+  return jwt.sign(payload, JWT_SECRET, { expiresIn: TWO_FACTOR_CHALLENGE_EXPIRES_IN });
+};
+
+export const verifyTwoFactorChallengeToken = (token: string): TwoFactorChallengePayload => {
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET) as TwoFactorChallengePayload;
+
+    if (!decoded.userId || decoded.purpose !== TWO_FACTOR_CHALLENGE_PURPOSE) {
+      throw new Error('Invalid challenge token payload');
+    }
+
+    return decoded;
+  } catch (error) {
+    if (error instanceof jwt.TokenExpiredError) {
+      throw new Error('Two-factor challenge has expired');
+    } else if (error instanceof jwt.JsonWebTokenError) {
+      throw new Error('Invalid two-factor challenge');
+    }
+    throw error;
+  }
+};
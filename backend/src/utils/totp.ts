@@ -0,0 +1,128 @@
+import crypto from 'crypto';
+
+// RFC 6238 defaults understood by Google Authenticator, Authy, 1Password etc.
+const TOTP_DIGITS = 6;
+const TOTP_PERIOD_SECONDS = 30;
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export const base32Encode = (buffer: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+};
+
+export const base32Decode = (input: string): Buffer => {
+  const cleaned = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+};
+
+/**
+ * Generate a new random TOTP secret (160 bits, base32 encoded)
+ */
+export const generateTotpSecret = (): string => base32Encode(crypto.randomBytes(20));
+
+/**
+ * Generate the TOTP code for a given secret and time
+ */
+export const generateTotp = (
+  secret: string,
+  timestamp: number = Date.now(),
+  digits: number = TOTP_DIGITS
+): string => {
+  const counter = Math.floor(timestamp / 1000 / TOTP_PERIOD_SECONDS);
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counterBuffer).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    ((hmac[offset + 1] & 0xff) << 16) |
+    ((hmac[offset + 2] & 0xff) << 8) |
+    (hmac[offset + 3] & 0xff);
+
+  return (binary % 10 ** digits).toString().padStart(digits, '0');
+};
+
+/**
+ * Find the time step a TOTP code belongs to, allowing for `window` periods of clock drift
+ * in each direction. Returns null when the code does not match.
+ */
+export const findTotpStep = (
+  secret: string,
+  code: string,
+  window: number = 1,
+  timestamp: number = Date.now()
+): number | null => {
+  const normalized = code.replace(/\s/g, '');
+  if (!/^\d{6}$/.test(normalized)) {
+    return null;
+  }
+
+  const currentStep = Math.floor(timestamp / 1000 / TOTP_PERIOD_SECONDS);
+  for (let step = -window; step <= window; step++) {
+    const candidate = generateTotp(secret, timestamp + step * TOTP_PERIOD_SECONDS * 1000);
+    if (crypto.timingSafeEqual(Buffer.from(candidate), Buffer.from(normalized))) {
+      return currentStep + step;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Verify a TOTP code, allowing for `window` periods of clock drift in each direction
+ */
+export const verifyTotp = (
+  secret: string,
+  code: string,
+  window: number = 1,
+  timestamp: number = Date.now()
+): boolean => findTotpStep(secret, code, window, timestamp) !== null;
+
+/**
+ * Build the otpauth:// URI that authenticator apps read from the QR code
+ */
+export const buildOtpAuthUrl = (secret: string, accountName: string, issuer: string): string => {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: TOTP_DIGITS.toString(),
+    period: TOTP_PERIOD_SECONDS.toString(),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+};
@@ -39,3 +39,51 @@ export const loginValidator: ValidationChain[] = [
 export const refreshTokenValidator: ValidationChain[] = [
   body('refreshToken').notEmpty().withMessage('Refresh token is required'),
 ];
+
+export const resetPasswordValidator: ValidationChain[] = [
+  body('token').notEmpty().withMessage('Reset token is required'),
+  body('newPassword')
+    .isLength({ min: 8 })
+    .withMessage('Password must be at least 8 characters')
+    .matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/)
+    .withMessage(
+      'Password must contain at least one uppercase letter, one lowercase letter, and one number'
+    ),
+];
+
+export const twoFactorVerifyValidator: ValidationChain[] = [
+  body('challengeToken').notEmpty().withMessage('Challenge token is required'),
+  body('code')
+    .optional()
+    .matches(/^\d{6}$/)
+    .withMessage('Authentication code must be 6 digits'),
+  body('recoveryCode').optional().isString().withMessage('Recovery code must be a string'),
+  body().custom((value) => {
+    if (!value?.code && !value?.recoveryCode) {
+      throw new Error('Authentication code or recovery code is required');
+    }
+    return true;
+  }),
+];
+
+export const twoFactorCodeValidator: ValidationChain[] = [
+  body('code')
+    .matches(/^\d{6}$/)
+    .withMessage('Authentication code must be 6 digits'),
+];
+
+export const twoFactorDisableValidator: ValidationChain[] = [
+  body('password').notEmpty().withMessage('Password is required'),
+  ...twoFactorCodeValidator,
+];
+
+export const emailChangeValidator: ValidationChain[] = [
+  body('newEmail').isEmail().withMessage('Valid email is required').normalizeEmail(),
+  body('password').notEmpty().withMessage('Password is required'),
+];
+
+export const emailChangeConfirmValidator: ValidationChain[] = [
+  body('code')
+    .matches(/^\d{6}$/)
+    .withMessage('Verification code must be 6 digits'),
+];
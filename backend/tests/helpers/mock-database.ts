@@ -0,0 +1,60 @@
+/**
+ * Mock Database
+ *
+ * Stand-in for the Prisma client in unit tests that must not reach a database.
+ * Every model method (e.g. `db.user.findUnique`) is a vi.fn created on first use, and
+ * `$transaction` runs an interactive callback or an array of queries against the mock.
+ *
+ * Usage:
+ *   vi.mock('../../config/database', () => import('../../../tests/helpers/mock-database.js'));
+ *   import db from '../../../tests/helpers/mock-database.js';
+ */
+
+import { vi, type Mock } from 'vitest';
+
+export type MockModel = Record<string, Mock>;
+
+export type MockDatabase = Record<string, MockModel> & {
+  $transaction: Mock;
+  $queryRaw: Mock;
+  $executeRaw: Mock;
+};
+
+// Properties that matchers and promise handling probe on any object; they must stay undefined
+const PROBED_PROPERTIES = new Set(['then', 'toJSON', 'asymmetricMatch', '$$typeof', 'nodeType']);
+
+const lazyRecord = <T>(create: (name: string) => T): Record<string, T> => {
+  const created = new Map<string, T>();
+  return new Proxy({} as Record<string, T>, {
+    get: (_target, property) => {
+      if (typeof property !== 'string' || PROBED_PROPERTIES.has(property)) {
+        return undefined;
+      }
+      if (!created.has(property)) {
+        created.set(property, create(property));
+      }
+      return created.get(property);
+    },
+  });
+};
+
+/**
+ * Create an empty mock client. Client methods ($queryRaw etc.) are plain mocks, every
+ * other property is a model whose methods are mocks.
+ */
+export const createMockDatabase = (): MockDatabase => {
+  const db: MockDatabase = lazyRecord((name) => {
+    if (name === '$transaction') {
+      return vi.fn((queries: unknown) =>
+        typeof queries === 'function' ? queries(db) : Promise.all(queries as unknown[])
+      ) as unknown as MockModel;
+    }
+    return name.startsWith('$') ? (vi.fn() as unknown as MockModel) : lazyRecord(() => vi.fn());
+  }) as MockDatabase;
+
+  return db;
+};
+
+const db = createMockDatabase();
+
+export default db;
@@ -3,6 +3,8 @@ import { AnimatePresence } from 'framer-motion';
 import { AuthProvider } from './context/AuthContext';
 import { CartProvider } from './context/CartContext';
 import { WishlistProvider } from './context/WishlistContext';
+import { CurrencyProvider } from './context/CurrencyContext';
+import { useCurrency } from './hooks/useCurrency';
 import Layout from './components/Layout';
 import PageTransition from './components/PageTransition';
 import ProtectedRoute from './components/ProtectedRoute';
@@ -15,6 +17,8 @@ import HomePage from './pages/HomePage';
 import ProfilePage from './pages/ProfilePage';
 // @ts-expect-error - Dynamic import
 import ProfileOrdersPage from './pages/ProfileOrdersPage';
+import ProfileKeysPage from './pages/ProfileKeysPage';
+import GiftPage from './pages/GiftPage';
 // @ts-expect-error - Dynamic import
 import ProfileWishlistPage from './pages/ProfileWishlistPage';
 // @ts-expect-error - Dynamic import
@@ -50,6 +54,8 @@ import RegisterPage from './pages/RegisterPage';
 // @ts-expect-error - Dynamic import
 import ForgotPasswordPage from './pages/ForgotPasswordPage';
 // @ts-expect-error - Dynamic import
+import ResetPasswordPage from './pages/ResetPasswordPage';
+// @ts-expect-error - Dynamic import
 import ComponentShowcase from './pages/ComponentShowcase';
 
 
@@ -57,10 +63,12 @@ import ComponentShowcase from './pages/ComponentShowcase';
 
 function AnimatedRoutes() {
   const location = useLocation();
+  // Pages load their prices again when the display currency changes
+  const { currency } = useCurrency();
 
   return (
     <AnimatePresence mode="wait">
-      <Routes location={location} key={location.pathname}>
+      <Routes location={location} key={`${location.pathname}:${currency}`}>
         <Route
           path="/"
           element={
@@ -103,6 +111,14 @@ function AnimatedRoutes() {
             </ProtectedRoute>
           }
         />
+        <Route
+          path="/gift/:token"
+          element={
+            <PageTransition>
+              <GiftPage />
+            </PageTransition>
+          }
+        />
         <Route
           path="/wishlist"
           element={
@@ -139,6 +155,16 @@ function AnimatedRoutes() {
             </ProtectedRoute>
           }
         />
+        <Route
+          path="/profile/keys"
+          element={
+            <ProtectedRoute>
+              <PageTransition>
+                <ProfileKeysPage />
+              </PageTransition>
+            </ProtectedRoute>
+          }
+        />
         <Route
           path="/profile/wishlist"
           element={
@@ -233,6 +259,14 @@ function AnimatedRoutes() {
             </PageTransition>
           }
         />
+        <Route
+          path="/reset-password"
+          element={
+            <PageTransition>
+              <ResetPasswordPage />
+            </PageTransition>
+          }
+        />
         <Route 
           path="/admin/*" 
           element={
@@ -256,7 +290,7 @@ function AnimatedRoutes() {
 
 function AppRoutes() {
   const location = useLocation();
-  const isAuthRoute = ['/login', '/register', '/forgot-password'].includes(location.pathname);
+  const isAuthRoute = ['/login', '/register', '/forgot-password', '/reset-password'].includes(location.pathname);
   const isShowcaseRoute = location.pathname === '/component-showcase';
   const isProfileRoute = location.pathname.startsWith('/profile');
   const isAdminRoute = location.pathname.startsWith('/admin');
@@ -296,14 +330,16 @@ function AppRoutes() {
 function App() {
   return (
     <AuthProvider>
-      <CartProvider>
-        <WishlistProvider>
-          <Router>
-            <AppRoutes />
-            <Toaster position="top-right" richColors />
-          </Router>
-        </WishlistProvider>
-      </CartProvider>
+      <CurrencyProvider>
+        <CartProvider>
+          <WishlistProvider>
+            <Router>
+              <AppRoutes />
+              <Toaster position="top-right" richColors />
+            </Router>
+          </WishlistProvider>
+        </CartProvider>
+      </CurrencyProvider>
     </AuthProvider>
   );
 }
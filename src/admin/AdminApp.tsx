@@ -28,6 +28,10 @@ import GameKeysPage from './pages/GameKeysPage';
 import G2ALiveSyncPage from './pages/G2ALiveSyncPage';
 import G2AScriptsPage from './pages/G2AScriptsPage';
 import MenuSettingsPage from './pages/MenuSettingsPage';
+import RolesPage from './pages/RolesPage';
+import FraudRulesPage from './pages/FraudRulesPage';
+import DeadLettersPage from './pages/DeadLettersPage';
+import ExchangeRatesPage from './pages/ExchangeRatesPage';
 
 const AdminApp: React.FC = () => {
   return (
@@ -59,6 +63,10 @@ const AdminApp: React.FC = () => {
         <Route path="email-settings" element={<EmailSettingsPage />} />
         <Route path="promo-codes" element={<PromoCodesPage />} />
         <Route path="game-keys" element={<GameKeysPage />} />
+        <Route path="roles" element={<RolesPage />} />
+        <Route path="fraud-rules" element={<FraudRulesPage />} />
+        <Route path="dead-letters" element={<DeadLettersPage />} />
+        <Route path="exchange-rates" element={<ExchangeRatesPage />} />
         <Route path="menu-settings" element={<MenuSettingsPage />} />
         <Route path="*" element={<Navigate to="/admin" replace />} />
       </Route>
@@ -28,8 +28,8 @@ const AdminLayout: React.FC = () => {
     return <Navigate to="/" replace />;
   }
 
-  // Check if user has ADMIN role
-  if (user?.role !== 'ADMIN') {
+  // Any staff role with at least one admin permission can open the panel
+  if (!user?.permissions?.length) {
     return <Navigate to="/" replace />;
   }
 
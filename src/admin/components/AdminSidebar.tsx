@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import { Link, useLocation } from 'react-router-dom';
+import { useAuth } from '../../context/AuthContext';
 
 const theme = {
   colors: {
@@ -39,6 +40,7 @@ const Icons = {
   PromoCode: () => <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M21 10c0 7-9 13-9 13s-9-6-9-13a9 9 0 0 1 18 0z"/><circle cx="12" cy="10" r="3"/></svg>,
   GameKeys: () => <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><rect x="3" y="11" width="18" height="11" rx="2" ry="2"/><path d="M7 11V7a5 5 0 0110 0v4"/></svg>,
   Settings: () => <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><circle cx="12" cy="12" r="3"/><path d="M19.4 15a1.65 1.65 0 00.33 1.82l.06.06a2 2 0 010 2.83 2 2 0 01-2.83 0l-.06-.06a1.65 1.65 0 00-1.82-.33 1.65 1.65 0 00-1 1.51V21a2 2 0 01-2 2 2 2 0 01-2-2v-.09A1.65 1.65 0 009 19.4a1.65 1.65 0 00-1.82.33l-.06.06a2 2 0 01-2.83 0 2 2 0 010-2.83l.06-.06a1.65 1.65 0 00.33-1.82 1.65 1.65 0 00-1.51-1H3a2 2 0 01-2-2 2 2 0 012-2h.09A1.65 1.65 0 004.6 9a1.65 1.65 0 00-.33-1.82l-.06-.06a2 2 0 010-2.83 2 2 0 012.83 0l.06.06a1.65 1.65 0 001.82.33H9a1.65 1.65 0 001-1.51V3a2 2 0 012-2 2 2 0 012 2v.09a1.65 1.65 0 001 1.51 1.65 1.65 0 001.82-.33l.06-.06a2 2 0 012.83 0 2 2 0 010 2.83l-.06.06a1.65 1.65 0 00-.33 1.82V9a1.65 1.65 0 001.51 1H21a2 2 0 012 2 2 2 0 01-2 2h-.09a1.65 1.65 0 00-1.51 1z"/></svg>,
+  Roles: () => <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M12 22s8-4 8-10V5l-8-3-8 3v7c0 6 8 10 8 10z"/></svg>,
   Home: () => <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M3 9l9-7 9 7v11a2 2 0 01-2 2H5a2 2 0 01-2-2z"/><polyline points="9 22 9 12 15 12 15 22"/></svg>,
 };
 
@@ -83,9 +85,58 @@ const defaultMenuItems = [
   { id: 'email-templates', label: 'Email Templates', path: '/admin/email-templates', icon: Icons.Email },
   { id: 'email-settings', label: 'Email Settings', path: '/admin/email-settings', icon: Icons.Email },
   { id: 'promo-codes', label: 'Promo Codes', path: '/admin/promo-codes', icon: Icons.PromoCode },
+  { id: 'roles', label: 'Roles', path: '/admin/roles', icon: Icons.Roles },
+  { id: 'fraud-rules', label: 'Fraud Rules', path: '/admin/fraud-rules', icon: Icons.Roles },
+  { id: 'dead-letters', label: 'Failed Deliveries', path: '/admin/dead-letters', icon: Icons.Orders },
+  { id: 'exchange-rates', label: 'Exchange Rates', path: '/admin/exchange-rates', icon: Icons.Transactions },
   { id: 'menu-settings', label: 'Menu Settings', path: '/admin/menu-settings', icon: Icons.Settings },
 ];
 
+// Permission needed to see each page; pages missing here (menu settings) are open to all staff
+const menuPermissions: Record<string, string> = {
+  dashboard: 'dashboard:view',
+  games: 'catalog:read',
+  categories: 'catalog:read',
+  genres: 'catalog:read',
+  platforms: 'catalog:read',
+  tags: 'catalog:read',
+  'game-keys': 'game-keys:read',
+  users: 'users:read',
+  orders: 'orders:read',
+  blog: 'content:write',
+  transactions: 'transactions:read',
+  payments: 'payments:read',
+  carts: 'carts:manage',
+  wishlists: 'wishlists:read',
+  faqs: 'content:write',
+  g2a: 'g2a:manage',
+  'g2a-live-sync': 'g2a:manage',
+  'g2a-env-setup': 'g2a:settings',
+  'g2a-key-manager': 'g2a:settings',
+  cache: 'cache:manage',
+  'email-templates': 'email:templates',
+  'email-settings': 'email:settings',
+  'promo-codes': 'promo-codes:manage',
+  roles: 'roles:manage',
+  'fraud-rules': 'fraud:rules',
+  'dead-letters': 'orders:read',
+  'exchange-rates': 'exchange-rates:manage',
+};
+
+// Drop pages the current role cannot use, and groups left without children
+const filterByPermissions = <T extends { id: string; children?: { id: string }[] }>(
+  items: T[],
+  permissions: string[]
+): T[] => {
+  const canView = (id: string) => !menuPermissions[id] || permissions.includes(menuPermissions[id]);
+
+  return items
+    .map((item) =>
+      item.children ? { ...item, children: item.children.filter((child) => canView(child.id)) } : item
+    )
+    .filter((item) => (item.children ? item.children.length > 0 : canView(item.id)));
+};
+
 // Функция для загрузки настроек меню
 const getMenuItems = () => {
   try {
@@ -139,7 +190,8 @@ const AdminSidebar: React.FC<AdminSidebarProps> = ({
   onClose 
 }) => {
   const location = useLocation();
-  const menuItems = getMenuItems();
+  const { user } = useAuth();
+  const menuItems = filterByPermissions(getMenuItems(), user?.permissions ?? []);
   const [expandedGroups, setExpandedGroups] = useState<Set<string>>(new Set(['g2a-group', 'games-group']));
 
   const isActive = (path: string) => {
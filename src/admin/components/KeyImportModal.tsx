@@ -0,0 +1,420 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { FiX, FiUpload, FiDownload, FiCheckCircle, FiAlertTriangle } from 'react-icons/fi';
+import { adminApi, type KeyImportReport, type KeyImportRowStatus } from '../services/adminApi';
+
+const theme = {
+  colors: {
+    primary: '#10B981',
+    background: '#0a0a0a',
+    surface: '#141414',
+    surfaceLight: '#1a1a1a',
+    text: '#ffffff',
+    textSecondary: '#a0a0a0',
+    border: '#2a2a2a',
+    success: '#10B981',
+    error: '#EF4444',
+    warning: '#F59E0B',
+  },
+};
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '12px 16px',
+  backgroundColor: theme.colors.surfaceLight,
+  border: `1px solid ${theme.colors.border}`,
+  borderRadius: '8px',
+  color: theme.colors.text,
+  fontSize: '14px',
+  outline: 'none',
+};
+
+const buttonStyle: React.CSSProperties = {
+  padding: '12px 24px',
+  borderRadius: '8px',
+  border: 'none',
+  cursor: 'pointer',
+  fontWeight: '500',
+  fontSize: '14px',
+  display: 'flex',
+  alignItems: 'center',
+  gap: '8px',
+  transition: 'all 0.2s',
+};
+
+const labelStyle: React.CSSProperties = {
+  display: 'block',
+  color: theme.colors.textSecondary,
+  fontSize: '13px',
+  marginBottom: '8px',
+};
+
+// Formats the server can check; empty uses the game's activation service
+const KEY_FORMATS = ['Steam', 'EA app', 'Ubisoft Connect', 'Xbox'];
+
+// Rows listed in the preview; the downloadable report has all of them
+const MAX_LISTED_ROWS = 200;
+
+const STATUS_LABELS: Record<KeyImportRowStatus, { label: string; color: string }> = {
+  VALID: { label: 'Valid', color: theme.colors.success },
+  IMPORTED: { label: 'Imported', color: theme.colors.success },
+  INVALID_FORMAT: { label: 'Invalid format', color: theme.colors.error },
+  DUPLICATE_IN_FILE: { label: 'Duplicate in file', color: theme.colors.warning },
+  DUPLICATE_EXISTING: { label: 'Already exists', color: theme.colors.warning },
+  FAILED: { label: 'Failed', color: theme.colors.error },
+};
+
+interface KeyImportModalProps {
+  games: Array<{ id: string; title: string }>;
+  onClose: () => void;
+  onImported: () => void;
+}
+
+const csvCell = (value: string | number) => `"${String(value).replace(/"/g, '""')}"`;
+
+const downloadReport = (report: KeyImportReport) => {
+  const lines = [
+    ['Line', 'Key', 'Status', 'Message'].map(csvCell).join(','),
+    ...report.rows.map((row) =>
+      [row.line, row.maskedKey, STATUS_LABELS[row.status].label, row.message || '']
+        .map(csvCell)
+        .join(',')
+    ),
+  ];
+
+  const blob = new Blob([lines.join('\n')], { type: 'text/csv' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `key-import-${report.fileName.replace(/\.[^.]+$/, '')}-${new Date().toISOString().split('T')[0]}.csv`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+const KeyImportModal: React.FC<KeyImportModalProps> = ({ games, onClose, onImported }) => {
+  const [gameId, setGameId] = useState('');
+  const [activationService, setActivationService] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [report, setReport] = useState<KeyImportReport | null>(null);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const resetReport = () => {
+    setReport(null);
+    setError(null);
+  };
+
+  const runImport = async (dryRun: boolean) => {
+    if (!gameId || !file) return;
+
+    setWorking(true);
+    setError(null);
+    try {
+      const result = await adminApi.importGameKeys({
+        gameId,
+        fileName: file.name,
+        content: await file.text(),
+        activationService: activationService || undefined,
+        dryRun,
+      });
+      setReport(result);
+      if (!dryRun && result.summary.imported > 0) {
+        onImported();
+      }
+    } catch (err) {
+      console.error('Failed to import game keys:', err);
+      setError(err instanceof Error ? err.message : 'Failed to import game keys');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const problemRows = report
+    ? report.rows.filter((row) => row.status !== 'VALID' && row.status !== 'IMPORTED')
+    : [];
+  const committed = report && !report.dryRun;
+  const canPreview = !!gameId && !!file && !working;
+  const canImport = !!report && report.dryRun && report.summary.valid > 0 && !working;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      style={{
+        position: 'fixed',
+        inset: 0,
+        backgroundColor: 'rgba(0,0,0,0.8)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 1001,
+        padding: '20px',
+      }}
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+        onClick={(e) => e.stopPropagation()}
+        style={{
+          backgroundColor: theme.colors.surface,
+          borderRadius: '16px',
+          padding: '24px',
+          maxWidth: '760px',
+          width: '100%',
+          maxHeight: '90vh',
+          overflowY: 'auto',
+        }}
+      >
+        <div
+          style={{
+            display: 'flex',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+            marginBottom: '24px',
+          }}
+        >
+          <h2 style={{ color: theme.colors.text, fontSize: '20px', fontWeight: '600' }}>
+            Import Game Keys
+          </h2>
+          <button
+            onClick={onClose}
+            style={{
+              padding: '8px',
+              borderRadius: '6px',
+              border: 'none',
+              backgroundColor: 'transparent',
+              color: theme.colors.textSecondary,
+              cursor: 'pointer',
+            }}
+          >
+            <FiX size={20} />
+          </button>
+        </div>
+
+        <div style={{ display: 'grid', gap: '16px' }}>
+          <div>
+            <label style={labelStyle}>Game *</label>
+            <select
+              value={gameId}
+              onChange={(e) => {
+                setGameId(e.target.value);
+                resetReport();
+              }}
+              style={inputStyle}
+              disabled={working || !!committed}
+            >
+              <option value="">Select a game</option>
+              {games.map((game) => (
+                <option key={game.id} value={game.id}>
+                  {game.title}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label style={labelStyle}>Key format</label>
+            <select
+              value={activationService}
+              onChange={(e) => {
+                setActivationService(e.target.value);
+                resetReport();
+              }}
+              style={inputStyle}
+              disabled={working || !!committed}
+            >
+              <option value="">Game's activation service</option>
+              {KEY_FORMATS.map((format) => (
+                <option key={format} value={format}>
+                  {format}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label style={labelStyle}>File * (CSV or TXT, one key per line)</label>
+            <input
+              type="file"
+              accept=".csv,.txt,text/csv,text/plain"
+              onChange={(e) => {
+                setFile(e.target.files?.[0] || null);
+                resetReport();
+              }}
+              style={inputStyle}
+              disabled={working || !!committed}
+            />
+          </div>
+        </div>
+
+        {error && (
+          <div
+            style={{
+              marginTop: '16px',
+              padding: '12px 16px',
+              borderRadius: '8px',
+              backgroundColor: 'rgba(239, 68, 68, 0.1)',
+              color: theme.colors.error,
+              fontSize: '14px',
+            }}
+          >
+            {error}
+          </div>
+        )}
+
+        {report && (
+          <div style={{ marginTop: '24px' }}>
+            <div
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '8px',
+                color: committed ? theme.colors.success : theme.colors.text,
+                fontSize: '15px',
+                fontWeight: '600',
+                marginBottom: '12px',
+              }}
+            >
+              {committed ? <FiCheckCircle /> : <FiAlertTriangle color={theme.colors.warning} />}
+              {committed
+                ? `Imported ${report.summary.imported} of ${report.summary.total} keys into ${report.game.title}`
+                : `Preview: ${report.summary.valid} of ${report.summary.total} keys can be imported`}
+            </div>
+            <div style={{ color: theme.colors.textSecondary, fontSize: '13px', lineHeight: 1.7 }}>
+              {report.format
+                ? `Checked as ${report.format.service} keys (e.g. ${report.format.example})`
+                : 'No format check for this activation service'}
+              <br />
+              Invalid format: {report.summary.invalidFormat} · Duplicates in file:{' '}
+              {report.summary.duplicateInFile} · Already exist: {report.summary.duplicateExisting}
+              {committed && ` · Failed: ${report.summary.failed}`}
+            </div>
+
+            {problemRows.length > 0 && (
+              <div
+                style={{
+                  marginTop: '16px',
+                  maxHeight: '240px',
+                  overflowY: 'auto',
+                  border: `1px solid ${theme.colors.border}`,
+                  borderRadius: '8px',
+                }}
+              >
+                <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '13px' }}>
+                  <thead>
+                    <tr style={{ color: theme.colors.textSecondary, textAlign: 'left' }}>
+                      <th style={{ padding: '8px 12px' }}>Line</th>
+                      <th style={{ padding: '8px 12px' }}>Key</th>
+                      <th style={{ padding: '8px 12px' }}>Problem</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {problemRows.slice(0, MAX_LISTED_ROWS).map((row) => (
+                      <tr key={row.line} style={{ borderTop: `1px solid ${theme.colors.border}` }}>
+                        <td style={{ padding: '8px 12px', color: theme.colors.textSecondary }}>
+                          {row.line}
+                        </td>
+                        <td
+                          style={{
+                            padding: '8px 12px',
+                            color: theme.colors.text,
+                            fontFamily: 'monospace',
+                          }}
+                        >
+                          {row.maskedKey}
+                        </td>
+                        <td style={{ padding: '8px 12px', color: STATUS_LABELS[row.status].color }}>
+                          {STATUS_LABELS[row.status].label}
+                          {row.message && (
+                            <span style={{ color: theme.colors.textSecondary }}>
+                              {' '}
+                              — {row.message}
+                            </span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {problemRows.length > MAX_LISTED_ROWS && (
+                  <div
+                    style={{
+                      padding: '8px 12px',
+                      color: theme.colors.textSecondary,
+                      fontSize: '12px',
+                    }}
+                  >
+                    {problemRows.length - MAX_LISTED_ROWS} more — download the report for the full
+                    list
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        <div style={{ display: 'flex', gap: '12px', justifyContent: 'flex-end', marginTop: '24px' }}>
+          {report && (
+            <button
+              onClick={() => downloadReport(report)}
+              style={{
+                ...buttonStyle,
+                backgroundColor: theme.colors.surfaceLight,
+                color: theme.colors.text,
+              }}
+            >
+              <FiDownload />
+              Download report
+            </button>
+          )}
+          {committed ? (
+            <button
+              onClick={onClose}
+              style={{
+                ...buttonStyle,
+                backgroundColor: theme.colors.primary,
+                color: theme.colors.background,
+              }}
+            >
+              Done
+            </button>
+          ) : report ? (
+            <button
+              onClick={() => runImport(false)}
+              disabled={!canImport}
+              style={{
+                ...buttonStyle,
+                backgroundColor: canImport ? theme.colors.primary : theme.colors.surface,
+                color: canImport ? theme.colors.background : theme.colors.textSecondary,
+                cursor: canImport ? 'pointer' : 'not-allowed',
+              }}
+            >
+              <FiUpload />
+              {working ? 'Importing...' : `Import ${report.summary.valid} keys`}
+            </button>
+          ) : (
+            <button
+              onClick={() => runImport(true)}
+              disabled={!canPreview}
+              style={{
+                ...buttonStyle,
+                backgroundColor: canPreview ? theme.colors.primary : theme.colors.surface,
+                color: canPreview ? theme.colors.background : theme.colors.textSecondary,
+                cursor: canPreview ? 'pointer' : 'not-allowed',
+              }}
+            >
+              {working ? 'Checking...' : 'Preview'}
+            </button>
+          )}
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default KeyImportModal;
@@ -6,10 +6,11 @@ import {
   FiDollarSign, 
   FiPackage,
   FiTrendingUp,
-  FiAlertCircle
+  FiAlertCircle,
+  FiRefreshCw
 } from 'react-icons/fi';
 import { adminApi } from '../services/adminApi';
-import type { DashboardStats } from '../services/adminApi';
+import type { DashboardStats, ReconciliationEntry } from '../services/adminApi';
 ;
 
 const theme = {
@@ -117,10 +118,39 @@ const getStatusColor = (status: string) => {
   }
 };
 
+const getReconciliationColor = (action: ReconciliationEntry['action']) => {
+  switch (action) {
+    case 'COMPLETED':
+      return theme.colors.success;
+    case 'REFUNDED':
+      return theme.colors.warning;
+    case 'FAILED':
+      return theme.colors.error;
+    case 'SKIPPED':
+      return theme.colors.textSecondary;
+    default:
+      return theme.colors.info;
+  }
+};
+
 const DashboardPage: React.FC = () => {
   const [stats, setStats] = useState<DashboardStats | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [reconciling, setReconciling] = useState(false);
+
+  const handleRunReconciliation = async () => {
+    try {
+      setReconciling(true);
+      await adminApi.runOrderReconciliation();
+      setStats(await adminApi.getDashboard());
+    } catch (err) {
+      console.error('Failed to run order reconciliation:', err);
+      alert(err instanceof Error ? err.message : 'Failed to run order reconciliation');
+    } finally {
+      setReconciling(false);
+    }
+  };
 
   useEffect(() => {
     const fetchStats = async () => {
@@ -371,6 +401,118 @@ const DashboardPage: React.FC = () => {
         </div>
       </motion.div>
 
+      {/* Stuck Order Reconciliation */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.35 }}
+        style={{
+          backgroundColor: theme.colors.surface,
+          borderRadius: '16px',
+          padding: '24px',
+          border: `1px solid ${stats.reconciliation.stuckOrders > 0 ? theme.colors.warning : theme.colors.border}`,
+          marginBottom: '32px',
+        }}
+      >
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '20px' }}>
+          <div>
+            <h3 style={{ color: theme.colors.text, fontSize: '18px', fontWeight: '600', marginBottom: '4px' }}>
+              Stuck Orders
+            </h3>
+            <p style={{ color: theme.colors.textSecondary, fontSize: '13px' }}>
+              {stats.reconciliation.stuckOrders > 0
+                ? `${stats.reconciliation.stuckOrders} order(s) stuck in processing right now`
+                : 'No orders stuck in processing'}
+              {' · '}checked automatically every ten minutes
+            </p>
+          </div>
+          <button
+            onClick={handleRunReconciliation}
+            disabled={reconciling}
+            style={{
+              padding: '10px 16px',
+              borderRadius: '8px',
+              border: 'none',
+              backgroundColor: theme.colors.primary,
+              color: '#fff',
+              cursor: reconciling ? 'not-allowed' : 'pointer',
+              opacity: reconciling ? 0.5 : 1,
+              display: 'flex',
+              alignItems: 'center',
+              gap: '8px',
+              fontSize: '14px',
+            }}
+          >
+            <FiRefreshCw size={14} />
+            {reconciling ? 'Running...' : 'Run now'}
+          </button>
+        </div>
+        {stats.reconciliation.runs.length > 0 ? (
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
+            {stats.reconciliation.runs.map((run, index) => (
+              <div
+                key={run.id}
+                style={{
+                  padding: '12px',
+                  backgroundColor: theme.colors.surfaceLight,
+                  borderRadius: '8px',
+                }}
+              >
+                <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '13px' }}>
+                  <span style={{ color: theme.colors.text }}>
+                    {formatDate(run.finishedAt)} · {run.trigger === 'MANUAL' ? `started by ${run.triggeredBy || 'staff'}` : 'scheduled'}
+                  </span>
+                  <span style={{ color: theme.colors.textSecondary }}>
+                    {run.checked} checked · {run.completed} completed · {run.retried} retried · {run.refunded} refunded · {run.skipped} skipped · {run.failed} failed
+                  </span>
+                </div>
+                {/* Only the latest run is shown order by order */}
+                {index === 0 && run.entries.map((entry) => (
+                  <div
+                    key={entry.orderId}
+                    style={{
+                      display: 'flex',
+                      alignItems: 'flex-start',
+                      gap: '12px',
+                      marginTop: '10px',
+                      fontSize: '13px',
+                    }}
+                  >
+                    <span style={{
+                      fontSize: '11px',
+                      padding: '2px 8px',
+                      borderRadius: '4px',
+                      backgroundColor: `${getReconciliationColor(entry.action)}20`,
+                      color: getReconciliationColor(entry.action),
+                      minWidth: '80px',
+                      textAlign: 'center',
+                    }}>
+                      {entry.action}
+                    </span>
+                    <div>
+                      <p style={{ color: theme.colors.text, fontFamily: 'monospace' }}>
+                        #{entry.orderId.slice(0, 8)} → {entry.status}
+                      </p>
+                      <p style={{ color: theme.colors.textSecondary }}>
+                        {entry.recoveredKeys} key(s) recovered · {entry.deliveredKeys} bought again
+                        {entry.refundedUnits > 0 && ` · ${entry.refundedUnits} unit(s) refunded (${formatCurrency(entry.refundedAmount)})`}
+                      </p>
+                      {entry.notes.map((note) => (
+                        <p key={note} style={{ color: theme.colors.textSecondary }}>{note}</p>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p style={{ color: theme.colors.textSecondary, textAlign: 'center', padding: '20px' }}>
+            No reconciliation runs yet
+          </p>
+        )}
+      </motion.div>
+
       {/* Two Column Layout */}
       <div style={{
         display: 'grid',
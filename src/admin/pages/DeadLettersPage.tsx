@@ -0,0 +1,409 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { FiChevronDown, FiChevronRight, FiDollarSign, FiPackage, FiRefreshCw } from 'react-icons/fi';
+import { adminApi } from '../services/adminApi';
+import type { DeadLetter, DeadLetterStatus, FulfillmentSupplier } from '../services/adminApi';
+
+const theme = {
+  colors: {
+    primary: '#10B981',
+    background: '#0a0a0a',
+    surface: '#141414',
+    surfaceLight: '#1a1a1a',
+    text: '#ffffff',
+    textSecondary: '#a0a0a0',
+    border: '#2a2a2a',
+    success: '#10B981',
+    error: '#EF4444',
+    warning: '#F59E0B',
+    info: '#3B82F6',
+  },
+};
+
+const STATUS_TABS: { status: DeadLetterStatus; label: string }[] = [
+  { status: 'OPEN', label: 'Open' },
+  { status: 'RETRIED', label: 'Delivered on retry' },
+  { status: 'REFUNDED', label: 'Refunded' },
+];
+
+const buttonStyle: React.CSSProperties = {
+  padding: '8px 14px',
+  borderRadius: '8px',
+  border: 'none',
+  cursor: 'pointer',
+  fontWeight: '500',
+  fontSize: '13px',
+  display: 'flex',
+  alignItems: 'center',
+  gap: '6px',
+  transition: 'all 0.2s',
+};
+
+const sectionTitleStyle: React.CSSProperties = {
+  fontSize: '13px',
+  fontWeight: '600',
+  color: theme.colors.textSecondary,
+  textTransform: 'uppercase',
+  marginBottom: '8px',
+};
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+  }).format(amount);
+};
+
+const formatDate = (dateStr: string) => {
+  return new Date(dateStr).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+const getSourceLabel = (source: string) => {
+  switch (source) {
+    case 'QUEUE':
+      return 'Queue';
+    case 'SYNC':
+      return 'Checkout (queue unavailable)';
+    case 'RETRY':
+      return 'Staff retry';
+    default:
+      return source;
+  }
+};
+
+const DeadLettersPage: React.FC = () => {
+  const [status, setStatus] = useState<DeadLetterStatus>('OPEN');
+  const [deadLetters, setDeadLetters] = useState<DeadLetter[]>([]);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [actionId, setActionId] = useState<string | null>(null);
+
+  const fetchDeadLetters = useCallback(async () => {
+    try {
+      setLoading(true);
+      const result = await adminApi.getDeadLetters(status, page);
+      setDeadLetters(result.deadLetters);
+      setTotalPages(Math.max(1, result.totalPages));
+      setTotal(result.total);
+    } catch (err) {
+      console.error('Failed to fetch failed deliveries:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [status, page]);
+
+  useEffect(() => {
+    fetchDeadLetters();
+  }, [fetchDeadLetters]);
+
+  const handleRetry = async (letter: DeadLetter, supplier: FulfillmentSupplier) => {
+    try {
+      setActionId(letter.id);
+      const result = await adminApi.retryDeadLetter(letter.id, supplier);
+      alert(
+        result.deadLetter.status === 'RETRIED'
+          ? `Delivered ${result.delivered} key(s). Order is now ${result.orderStatus}.`
+          : `Delivered ${result.delivered} key(s). Still failing: ${result.deadLetter.error}`
+      );
+      fetchDeadLetters();
+    } catch (err) {
+      console.error('Failed to retry delivery:', err);
+      alert(err instanceof Error ? err.message : 'Failed to retry delivery');
+    } finally {
+      setActionId(null);
+    }
+  };
+
+  const handleRefund = async (letter: DeadLetter) => {
+    const reason = prompt('Refund the undelivered units of this order to the customer balance and close it?\nReason (optional):');
+    if (reason === null) {
+      return;
+    }
+
+    try {
+      setActionId(letter.id);
+      const result = await adminApi.refundDeadLetter(letter.id, reason || undefined);
+      alert(`Refunded ${result.refundedUnits} unit(s): ${formatCurrency(result.refundedAmount)}`);
+      fetchDeadLetters();
+    } catch (err) {
+      console.error('Failed to refund delivery:', err);
+      alert(err instanceof Error ? err.message : 'Failed to refund delivery');
+    } finally {
+      setActionId(null);
+    }
+  };
+
+  const renderDetails = (letter: DeadLetter) => (
+    <div style={{
+      borderTop: `1px solid ${theme.colors.border}`,
+      padding: '20px',
+      display: 'grid',
+      gap: '20px',
+    }}>
+      <div>
+        <div style={sectionTitleStyle}>Items</div>
+        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '13px' }}>
+          <thead>
+            <tr style={{ color: theme.colors.textSecondary, textAlign: 'left' }}>
+              <th style={{ padding: '6px 0' }}>Game</th>
+              <th>Ordered</th>
+              <th>Undelivered</th>
+              <th>Keys in pool</th>
+              <th>Status</th>
+            </tr>
+          </thead>
+          <tbody>
+            {letter.items.map((item) => (
+              <tr key={item.id} style={{ color: theme.colors.text }}>
+                <td style={{ padding: '6px 0' }}>
+                  {item.title}
+                  {!item.hasG2AProduct && (
+                    <span style={{ color: theme.colors.textSecondary }}> (key pool only)</span>
+                  )}
+                </td>
+                <td>{item.quantity}</td>
+                <td style={{ color: item.outstanding > 0 ? theme.colors.warning : theme.colors.text }}>
+                  {item.outstanding}
+                </td>
+                <td style={{ color: item.poolKeys < item.outstanding ? theme.colors.error : theme.colors.text }}>
+                  {item.poolKeys}
+                </td>
+                <td title={item.fulfillmentError}>{item.fulfillmentStatus}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div>
+        <div style={sectionTitleStyle}>Attempts</div>
+        <div style={{ display: 'grid', gap: '8px' }}>
+          {letter.attempts.map((attempt) => (
+            <div key={attempt.attempt} style={{ fontSize: '13px', color: theme.colors.text }}>
+              <span style={{ color: theme.colors.textSecondary }}>
+                #{attempt.attempt} · {getSourceLabel(attempt.source)}
+                {attempt.supplier && ` from ${attempt.supplier === 'POOL' ? 'key pool' : 'G2A'}`}
+                {attempt.failedAt && ` · ${formatDate(attempt.failedAt)}`}
+              </span>
+              <div style={{ color: theme.colors.error, marginTop: '2px' }}>{attempt.error}</div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <div style={sectionTitleStyle}>Job payload</div>
+        <pre style={{
+          margin: 0,
+          padding: '12px',
+          backgroundColor: theme.colors.background,
+          borderRadius: '8px',
+          color: theme.colors.textSecondary,
+          fontSize: '12px',
+          overflowX: 'auto',
+        }}>
+          {JSON.stringify(letter.payload, null, 2)}
+        </pre>
+      </div>
+
+      {letter.status === 'OPEN' ? (
+        <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap' }}>
+          <button
+            onClick={() => handleRetry(letter, 'G2A')}
+            disabled={actionId === letter.id || letter.order.status === 'CANCELLED'}
+            style={{
+              ...buttonStyle,
+              backgroundColor: theme.colors.primary,
+              color: '#fff',
+              opacity: actionId === letter.id || letter.order.status === 'CANCELLED' ? 0.5 : 1,
+            }}
+          >
+            <FiRefreshCw size={14} />
+            Retry
+          </button>
+          <button
+            onClick={() => handleRetry(letter, 'POOL')}
+            disabled={actionId === letter.id || letter.order.status === 'CANCELLED'}
+            style={{
+              ...buttonStyle,
+              backgroundColor: theme.colors.info,
+              color: '#fff',
+              opacity: actionId === letter.id || letter.order.status === 'CANCELLED' ? 0.5 : 1,
+            }}
+          >
+            <FiPackage size={14} />
+            Retry from key pool
+          </button>
+          <button
+            onClick={() => handleRefund(letter)}
+            disabled={actionId === letter.id}
+            style={{
+              ...buttonStyle,
+              backgroundColor: theme.colors.error,
+              color: '#fff',
+              opacity: actionId === letter.id ? 0.5 : 1,
+            }}
+          >
+            <FiDollarSign size={14} />
+            Refund &amp; close
+          </button>
+        </div>
+      ) : (
+        <div style={{ fontSize: '13px', color: theme.colors.textSecondary }}>
+          Resolved {letter.resolvedAt && formatDate(letter.resolvedAt)}
+          {letter.resolvedBy && ` by ${letter.resolvedBy}`}
+          {letter.resolveNote && `: ${letter.resolveNote}`}
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div>
+      <div style={{ marginBottom: '32px' }}>
+        <h1 style={{
+          fontSize: '28px',
+          fontWeight: '700',
+          color: theme.colors.text,
+          marginBottom: '8px',
+        }}>
+          Failed Deliveries
+        </h1>
+        <p style={{ color: theme.colors.textSecondary }}>
+          Orders whose keys could not be delivered after every automatic attempt. Retry them, deliver from the local key pool or refund the customer.
+        </p>
+      </div>
+
+      <div style={{ display: 'flex', gap: '8px', marginBottom: '24px' }}>
+        {STATUS_TABS.map((tab) => (
+          <button
+            key={tab.status}
+            onClick={() => {
+              setStatus(tab.status);
+              setPage(1);
+              setExpandedId(null);
+            }}
+            style={{
+              ...buttonStyle,
+              backgroundColor: status === tab.status ? theme.colors.primary : theme.colors.surfaceLight,
+              color: status === tab.status ? '#fff' : theme.colors.textSecondary,
+              border: `1px solid ${theme.colors.border}`,
+            }}
+          >
+            {tab.label}
+            {status === tab.status && ` (${total})`}
+          </button>
+        ))}
+      </div>
+
+      {loading ? (
+        <div style={{ color: theme.colors.textSecondary }}>Loading...</div>
+      ) : deadLetters.length === 0 ? (
+        <div style={{
+          backgroundColor: theme.colors.surface,
+          borderRadius: '16px',
+          border: `1px solid ${theme.colors.border}`,
+          padding: '40px',
+          textAlign: 'center',
+          color: theme.colors.textSecondary,
+        }}>
+          No failed deliveries here
+        </div>
+      ) : (
+        <div style={{ display: 'grid', gap: '12px' }}>
+          {deadLetters.map((letter) => (
+            <div
+              key={letter.id}
+              style={{
+                backgroundColor: theme.colors.surface,
+                borderRadius: '16px',
+                border: `1px solid ${theme.colors.border}`,
+              }}
+            >
+              <div
+                onClick={() => setExpandedId(expandedId === letter.id ? null : letter.id)}
+                style={{
+                  padding: '16px 20px',
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '16px',
+                  cursor: 'pointer',
+                }}
+              >
+                {expandedId === letter.id
+                  ? <FiChevronDown size={16} color={theme.colors.textSecondary} />
+                  : <FiChevronRight size={16} color={theme.colors.textSecondary} />}
+                <div style={{ flex: 1, minWidth: 0 }}>
+                  <div style={{ color: theme.colors.text, fontWeight: '600' }}>
+                    Order #{letter.orderId.slice(0, 8)} · {letter.order.userEmail}
+                  </div>
+                  <div style={{
+                    color: theme.colors.error,
+                    fontSize: '13px',
+                    marginTop: '4px',
+                    overflow: 'hidden',
+                    textOverflow: 'ellipsis',
+                    whiteSpace: 'nowrap',
+                  }}>
+                    {letter.error}
+                  </div>
+                </div>
+                <div style={{ textAlign: 'right', fontSize: '13px', color: theme.colors.textSecondary }}>
+                  <div>
+                    {getSourceLabel(letter.source)} · {letter.attempts.length} attempt(s)
+                  </div>
+                  <div>
+                    {formatCurrency(letter.order.total)} · {letter.order.status} · {formatDate(letter.createdAt)}
+                  </div>
+                </div>
+              </div>
+              {expandedId === letter.id && renderDetails(letter)}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {totalPages > 1 && (
+        <div style={{ display: 'flex', justifyContent: 'center', alignItems: 'center', gap: '12px', marginTop: '24px' }}>
+          <button
+            onClick={() => setPage((prev) => Math.max(1, prev - 1))}
+            disabled={page === 1}
+            style={{
+              ...buttonStyle,
+              backgroundColor: theme.colors.surfaceLight,
+              color: theme.colors.text,
+              opacity: page === 1 ? 0.5 : 1,
+            }}
+          >
+            Previous
+          </button>
+          <span style={{ color: theme.colors.textSecondary, fontSize: '14px' }}>
+            Page {page} of {totalPages}
+          </span>
+          <button
+            onClick={() => setPage((prev) => Math.min(totalPages, prev + 1))}
+            disabled={page === totalPages}
+            style={{
+              ...buttonStyle,
+              backgroundColor: theme.colors.surfaceLight,
+              color: theme.colors.text,
+              opacity: page === totalPages ? 0.5 : 1,
+            }}
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DeadLettersPage;
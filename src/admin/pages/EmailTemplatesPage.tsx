@@ -96,8 +96,13 @@ const EmailTemplatesPage: React.FC = () => {
         newBalance: '150.00',
         date: new Date().toLocaleDateString('en-GB').replace(/\//g, '.'),
         paymentMethod: 'Trustly',
-        newPassword: 'NewSecurePass123!',
+        resetLink: 'https://gkeys.store/reset-password?token=example',
+        expiresInMinutes: '60',
+        lockoutMinutes: '15',
+        deletionDate: 'March 1, 2026',
+        profileLink: 'https://gkeys.store/profile/edit',
         verificationCode: '123456',
+        newEmail: 'new.address@example.com',
       };
       
       const initialVars: Record<string, string> = {};
@@ -0,0 +1,366 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { FiChevronDown, FiChevronRight, FiRefreshCw, FiSave } from 'react-icons/fi';
+import { adminApi } from '../services/adminApi';
+import type { ExchangeRate, ExchangeRateOverview } from '../services/adminApi';
+
+const theme = {
+  colors: {
+    primary: '#10B981',
+    background: '#0a0a0a',
+    surface: '#141414',
+    surfaceLight: '#1a1a1a',
+    text: '#ffffff',
+    textSecondary: '#a0a0a0',
+    border: '#2a2a2a',
+    success: '#10B981',
+    error: '#EF4444',
+    warning: '#F59E0B',
+    info: '#3B82F6',
+  },
+};
+
+const buttonStyle: React.CSSProperties = {
+  padding: '8px 14px',
+  borderRadius: '8px',
+  border: 'none',
+  cursor: 'pointer',
+  fontWeight: '500',
+  fontSize: '13px',
+  display: 'flex',
+  alignItems: 'center',
+  gap: '6px',
+  transition: 'all 0.2s',
+};
+
+const inputStyle: React.CSSProperties = {
+  padding: '8px 12px',
+  borderRadius: '8px',
+  border: `1px solid ${theme.colors.border}`,
+  backgroundColor: theme.colors.background,
+  color: theme.colors.text,
+  fontSize: '13px',
+};
+
+const sectionTitleStyle: React.CSSProperties = {
+  fontSize: '13px',
+  fontWeight: '600',
+  color: theme.colors.textSecondary,
+  textTransform: 'uppercase',
+  marginBottom: '8px',
+};
+
+const cardStyle: React.CSSProperties = {
+  backgroundColor: theme.colors.surface,
+  borderRadius: '16px',
+  border: `1px solid ${theme.colors.border}`,
+  padding: '20px',
+};
+
+const formatDate = (dateStr: string) => {
+  return new Date(dateStr).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+const formatAge = (hours: number) => {
+  if (hours < 1) {
+    return 'less than an hour';
+  }
+  if (hours < 48) {
+    return `${Math.floor(hours)} h`;
+  }
+  return `${Math.floor(hours / 24)} days`;
+};
+
+const getSourceLabel = (rate: ExchangeRate) =>
+  rate.source === 'MANUAL' ? 'Manual' : `Provider (${rate.provider || 'unknown'})`;
+
+const ExchangeRatesPage: React.FC = () => {
+  const [overview, setOverview] = useState<ExchangeRateOverview | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [expandedCurrency, setExpandedCurrency] = useState<string | null>(null);
+  const [history, setHistory] = useState<ExchangeRate[]>([]);
+  const [form, setForm] = useState({ currency: '', rate: '', note: '' });
+  const [maxRateAgeHours, setMaxRateAgeHours] = useState('');
+
+  const fetchOverview = useCallback(async () => {
+    try {
+      setLoading(true);
+      const result = await adminApi.getExchangeRates();
+      setOverview(result);
+      setMaxRateAgeHours(String(result.maxRateAgeHours));
+    } catch (err) {
+      console.error('Failed to fetch exchange rates:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchOverview();
+  }, [fetchOverview]);
+
+  const toggleHistory = async (currency: string) => {
+    if (expandedCurrency === currency) {
+      setExpandedCurrency(null);
+      return;
+    }
+
+    try {
+      setExpandedCurrency(currency);
+      setHistory([]);
+      setHistory(await adminApi.getExchangeRateHistory(currency));
+    } catch (err) {
+      console.error('Failed to fetch rate history:', err);
+      alert(err instanceof Error ? err.message : 'Failed to fetch rate history');
+    }
+  };
+
+  const handleRefresh = async () => {
+    try {
+      setRefreshing(true);
+      const result = await adminApi.refreshExchangeRates();
+      const unchanged = result.unchanged.length > 0 ? `\nUnchanged since the last refresh: ${result.unchanged.join(', ')}` : '';
+      alert(`Updated ${result.updated.length} rate(s) from ${result.provider}: ${result.updated.join(', ') || 'none'}${unchanged}`);
+      setExpandedCurrency(null);
+      fetchOverview();
+    } catch (err) {
+      console.error('Failed to refresh exchange rates:', err);
+      alert(err instanceof Error ? err.message : 'Failed to refresh exchange rates');
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  const handleOverride = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      await adminApi.setExchangeRate({
+        currency: form.currency,
+        rate: parseFloat(form.rate),
+        note: form.note || undefined,
+      });
+      setForm({ currency: '', rate: '', note: '' });
+      setExpandedCurrency(null);
+      fetchOverview();
+    } catch (err) {
+      console.error('Failed to save exchange rate:', err);
+      alert(err instanceof Error ? err.message : 'Failed to save exchange rate');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveSettings = async () => {
+    try {
+      setSaving(true);
+      const result = await adminApi.updateExchangeRateSettings({
+        maxRateAgeHours: parseInt(maxRateAgeHours, 10),
+      });
+      setOverview(result);
+      setMaxRateAgeHours(String(result.maxRateAgeHours));
+    } catch (err) {
+      console.error('Failed to save exchange rate settings:', err);
+      alert(err instanceof Error ? err.message : 'Failed to save exchange rate settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderHistory = () => (
+    <tr>
+      <td colSpan={6} style={{ padding: '0 20px 16px 48px' }}>
+        <div style={sectionTitleStyle}>History</div>
+        {history.length === 0 ? (
+          <div style={{ color: theme.colors.textSecondary, fontSize: '13px' }}>Loading...</div>
+        ) : (
+          <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '13px' }}>
+            <tbody>
+              {history.map((rate) => (
+                <tr key={rate.id} style={{ color: theme.colors.textSecondary }}>
+                  <td style={{ padding: '4px 0' }}>{formatDate(rate.createdAt)}</td>
+                  <td style={{ color: theme.colors.text }}>{rate.rate}</td>
+                  <td>{getSourceLabel(rate)}</td>
+                  <td>
+                    {rate.createdBy}
+                    {rate.note && ` · ${rate.note}`}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </td>
+    </tr>
+  );
+
+  return (
+    <div>
+      <div style={{ marginBottom: '32px', display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: '16px' }}>
+        <div>
+          <h1 style={{
+            fontSize: '28px',
+            fontWeight: '700',
+            color: theme.colors.text,
+            marginBottom: '8px',
+          }}>
+            Exchange Rates
+          </h1>
+          <p style={{ color: theme.colors.textSecondary }}>
+            Rates used to convert payments into EUR, as units of each currency per 1 EUR. Conversions with a rate older than the maximum age are refused.
+          </p>
+        </div>
+        <button
+          onClick={handleRefresh}
+          disabled={refreshing}
+          style={{
+            ...buttonStyle,
+            backgroundColor: theme.colors.primary,
+            color: '#fff',
+            opacity: refreshing ? 0.5 : 1,
+            whiteSpace: 'nowrap',
+          }}
+        >
+          <FiRefreshCw size={14} />
+          Refresh from {overview?.provider || 'provider'}
+        </button>
+      </div>
+
+      <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '16px', marginBottom: '24px' }}>
+        <form onSubmit={handleOverride} style={cardStyle}>
+          <div style={sectionTitleStyle}>Override a rate</div>
+          <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap' }}>
+            <input
+              value={form.currency}
+              onChange={(e) => setForm({ ...form, currency: e.target.value.toUpperCase() })}
+              placeholder="PLN"
+              maxLength={3}
+              required
+              style={{ ...inputStyle, width: '70px' }}
+            />
+            <input
+              type="number"
+              step="any"
+              min="0"
+              value={form.rate}
+              onChange={(e) => setForm({ ...form, rate: e.target.value })}
+              placeholder="Rate per 1 EUR"
+              required
+              style={{ ...inputStyle, width: '140px' }}
+            />
+            <input
+              value={form.note}
+              onChange={(e) => setForm({ ...form, note: e.target.value })}
+              placeholder="Note (optional)"
+              style={{ ...inputStyle, flex: 1, minWidth: '120px' }}
+            />
+            <button
+              type="submit"
+              disabled={saving}
+              style={{ ...buttonStyle, backgroundColor: theme.colors.info, color: '#fff', opacity: saving ? 0.5 : 1 }}
+            >
+              <FiSave size={14} />
+              Save
+            </button>
+          </div>
+        </form>
+
+        <div style={cardStyle}>
+          <div style={sectionTitleStyle}>Maximum rate age</div>
+          <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+            <input
+              type="number"
+              min="1"
+              step="1"
+              value={maxRateAgeHours}
+              onChange={(e) => setMaxRateAgeHours(e.target.value)}
+              style={{ ...inputStyle, width: '100px' }}
+            />
+            <span style={{ color: theme.colors.textSecondary, fontSize: '13px' }}>hours</span>
+            <button
+              onClick={handleSaveSettings}
+              disabled={saving || maxRateAgeHours === String(overview?.maxRateAgeHours)}
+              style={{
+                ...buttonStyle,
+                backgroundColor: theme.colors.info,
+                color: '#fff',
+                opacity: saving || maxRateAgeHours === String(overview?.maxRateAgeHours) ? 0.5 : 1,
+              }}
+            >
+              <FiSave size={14} />
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {loading ? (
+        <div style={{ color: theme.colors.textSecondary }}>Loading...</div>
+      ) : !overview || overview.rates.length === 0 ? (
+        <div style={{ ...cardStyle, padding: '40px', textAlign: 'center', color: theme.colors.textSecondary }}>
+          No exchange rates stored yet. Payments in currencies other than EUR are refused until rates are refreshed or entered.
+        </div>
+      ) : (
+        <div style={{ ...cardStyle, padding: 0, overflow: 'hidden' }}>
+          <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '14px' }}>
+            <thead>
+              <tr style={{ color: theme.colors.textSecondary, textAlign: 'left', borderBottom: `1px solid ${theme.colors.border}` }}>
+                <th style={{ padding: '12px 20px' }}>Currency</th>
+                <th>Rate</th>
+                <th>Source</th>
+                <th>As of</th>
+                <th>Age</th>
+                <th>Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {overview.rates.map((rate) => (
+                <React.Fragment key={rate.currency}>
+                  <tr
+                    onClick={() => toggleHistory(rate.currency)}
+                    style={{ color: theme.colors.text, cursor: 'pointer', borderTop: `1px solid ${theme.colors.border}` }}
+                  >
+                    <td style={{ padding: '12px 20px', fontWeight: '600' }}>
+                      <span style={{ display: 'inline-flex', alignItems: 'center', gap: '8px' }}>
+                        {expandedCurrency === rate.currency
+                          ? <FiChevronDown size={16} color={theme.colors.textSecondary} />
+                          : <FiChevronRight size={16} color={theme.colors.textSecondary} />}
+                        {rate.currency}
+                      </span>
+                    </td>
+                    <td>{rate.rate}</td>
+                    <td style={{ color: theme.colors.textSecondary }}>{getSourceLabel(rate)}</td>
+                    <td style={{ color: theme.colors.textSecondary }}>{formatDate(rate.effectiveAt)}</td>
+                    <td style={{ color: theme.colors.textSecondary }}>{formatAge(rate.ageHours)}</td>
+                    <td>
+                      <span style={{
+                        padding: '2px 8px',
+                        borderRadius: '6px',
+                        fontSize: '12px',
+                        fontWeight: '600',
+                        backgroundColor: rate.stale ? `${theme.colors.error}20` : `${theme.colors.success}20`,
+                        color: rate.stale ? theme.colors.error : theme.colors.success,
+                      }}>
+                        {rate.stale ? 'Stale' : 'Current'}
+                      </span>
+                    </td>
+                  </tr>
+                  {expandedCurrency === rate.currency && renderHistory()}
+                </React.Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExchangeRatesPage;
@@ -0,0 +1,237 @@
+import React, { useEffect, useState } from 'react';
+import { FiSave, FiShield } from 'react-icons/fi';
+import { adminApi } from '../services/adminApi';
+import type { FraudRule, FraudSettings } from '../services/adminApi';
+
+const theme = {
+  colors: {
+    primary: '#10B981',
+    background: '#0a0a0a',
+    surface: '#141414',
+    surfaceLight: '#1a1a1a',
+    text: '#ffffff',
+    textSecondary: '#a0a0a0',
+    border: '#2a2a2a',
+    success: '#10B981',
+    error: '#EF4444',
+    warning: '#F59E0B',
+  },
+};
+
+const inputStyle: React.CSSProperties = {
+  width: '100px',
+  padding: '8px 12px',
+  backgroundColor: theme.colors.surfaceLight,
+  border: `1px solid ${theme.colors.border}`,
+  borderRadius: '8px',
+  color: theme.colors.text,
+  fontSize: '14px',
+  outline: 'none',
+};
+
+const buttonStyle: React.CSSProperties = {
+  padding: '12px 24px',
+  borderRadius: '8px',
+  border: 'none',
+  cursor: 'pointer',
+  fontWeight: '500',
+  fontSize: '14px',
+  display: 'flex',
+  alignItems: 'center',
+  gap: '8px',
+  transition: 'all 0.2s',
+};
+
+const labelStyle: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: '8px',
+  fontSize: '13px',
+  color: theme.colors.textSecondary,
+};
+
+const FraudRulesPage: React.FC = () => {
+  const [holdThreshold, setHoldThreshold] = useState(0);
+  const [rules, setRules] = useState<FraudRule[]>([]);
+  const [updatedAt, setUpdatedAt] = useState<string | undefined>();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const applySettings = (settings: FraudSettings) => {
+    setHoldThreshold(settings.holdThreshold);
+    setRules(settings.rules);
+    setUpdatedAt(settings.updatedAt);
+  };
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      try {
+        applySettings(await adminApi.getFraudSettings());
+      } catch (err) {
+        console.error('Failed to fetch fraud rules:', err);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchSettings();
+  }, []);
+
+  const updateRule = (id: string, change: Partial<FraudRule>) => {
+    setRules((prev) => prev.map((rule) => (rule.id === id ? { ...rule, ...change } : rule)));
+  };
+
+  const updateParam = (rule: FraudRule, key: string, value: number) => {
+    updateRule(rule.id, {
+      params: rule.params.map((param) => (param.key === key ? { ...param, value } : param)),
+    });
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      const settings = await adminApi.updateFraudSettings({
+        holdThreshold,
+        rules: Object.fromEntries(
+          rules.map((rule) => [
+            rule.id,
+            {
+              enabled: rule.enabled,
+              points: rule.points,
+              params: Object.fromEntries(rule.params.map((param) => [param.key, param.value])),
+            },
+          ])
+        ),
+      });
+      applySettings(settings);
+    } catch (err) {
+      console.error('Failed to save fraud rules:', err);
+      alert(err instanceof Error ? err.message : 'Failed to save fraud rules');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <div style={{ color: theme.colors.textSecondary }}>Loading...</div>;
+  }
+
+  return (
+    <div>
+      <div style={{
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginBottom: '32px',
+      }}>
+        <div>
+          <h1 style={{
+            fontSize: '28px',
+            fontWeight: '700',
+            color: theme.colors.text,
+            marginBottom: '8px',
+          }}>
+            Fraud Rules
+          </h1>
+          <p style={{ color: theme.colors.textSecondary }}>
+            Every paid order is scored before keys are bought. Orders reaching the threshold wait in the review queue on the Orders page.
+          </p>
+        </div>
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          style={{
+            ...buttonStyle,
+            backgroundColor: theme.colors.primary,
+            color: '#fff',
+            opacity: saving ? 0.5 : 1,
+          }}
+        >
+          <FiSave size={16} />
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+
+      <div style={{
+        backgroundColor: theme.colors.surface,
+        borderRadius: '16px',
+        border: `1px solid ${theme.colors.border}`,
+        padding: '20px',
+        marginBottom: '24px',
+        display: 'flex',
+        alignItems: 'center',
+        gap: '16px',
+      }}>
+        <FiShield size={20} color={theme.colors.warning} />
+        <label style={{ ...labelStyle, fontSize: '14px', color: theme.colors.text }}>
+          Hold orders scoring at least
+          <input
+            type="number"
+            min={1}
+            value={holdThreshold}
+            onChange={(e) => setHoldThreshold(Number(e.target.value))}
+            style={inputStyle}
+          />
+          points
+        </label>
+        {updatedAt && (
+          <span style={{ marginLeft: 'auto', fontSize: '13px', color: theme.colors.textSecondary }}>
+            Last changed {new Date(updatedAt).toLocaleString()}
+          </span>
+        )}
+      </div>
+
+      <div style={{ display: 'grid', gap: '12px' }}>
+        {rules.map((rule) => (
+          <div
+            key={rule.id}
+            style={{
+              backgroundColor: theme.colors.surface,
+              borderRadius: '16px',
+              border: `1px solid ${theme.colors.border}`,
+              padding: '20px',
+              opacity: rule.enabled ? 1 : 0.6,
+            }}
+          >
+            <div style={{ display: 'flex', alignItems: 'center', gap: '12px', marginBottom: '12px' }}>
+              <input
+                type="checkbox"
+                checked={rule.enabled}
+                onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+              />
+              <div>
+                <div style={{ color: theme.colors.text, fontWeight: '600' }}>{rule.label}</div>
+                <div style={{ color: theme.colors.textSecondary, fontSize: '13px' }}>{rule.description}</div>
+              </div>
+            </div>
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '16px', paddingLeft: '28px' }}>
+              <label style={labelStyle}>
+                Points
+                <input
+                  type="number"
+                  min={0}
+                  value={rule.points}
+                  onChange={(e) => updateRule(rule.id, { points: Number(e.target.value) })}
+                  style={inputStyle}
+                />
+              </label>
+              {rule.params.map((param) => (
+                <label key={param.key} style={labelStyle}>
+                  {param.label}
+                  <input
+                    type="number"
+                    min={0}
+                    value={param.value}
+                    onChange={(e) => updateParam(rule, param.key, Number(e.target.value))}
+                    style={inputStyle}
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default FraudRulesPage;
@@ -16,9 +16,12 @@ import {
   FiChevronLeft,
   FiChevronRight,
   FiEye,
-  FiCheck
+  FiCheck,
+  FiUnlock,
+  FiUpload
 } from 'react-icons/fi';
 import { adminApi } from '../services/adminApi';
+import KeyImportModal from '../components/KeyImportModal';
 
 const theme = {
   colors: {
@@ -62,7 +65,7 @@ const buttonStyle: React.CSSProperties = {
 interface GameKey {
   id: string;
   gameId: string;
-  key: string;
+  maskedKey: string;
   orderId: string | null;
   activated: boolean;
   activationDate: string | null;
@@ -128,6 +131,7 @@ const GameKeysPage: React.FC = () => {
   });
   const [showFilters, setShowFilters] = useState(false);
   const [showModal, setShowModal] = useState(false);
+  const [showImport, setShowImport] = useState(false);
   const [editingGameKey, setEditingGameKey] = useState<GameKey | null>(null);
   const [viewingGameKey, setViewingGameKey] = useState<GameKey | null>(null);
   const [formData, setFormData] = useState({
@@ -140,6 +144,9 @@ const GameKeysPage: React.FC = () => {
   const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null);
   const [deleting, setDeleting] = useState(false);
   const [copied, setCopied] = useState<string | null>(null);
+  // Plaintext keys revealed in this session, by key id
+  const [revealedKeys, setRevealedKeys] = useState<Record<string, string>>({});
+  const [revealing, setRevealing] = useState<string | null>(null);
 
   const fetchGameKeys = async () => {
     try {
@@ -195,7 +202,8 @@ const GameKeysPage: React.FC = () => {
     setEditingGameKey(gameKey);
     setFormData({
       gameId: gameKey.gameId,
-      key: gameKey.key,
+      // Left empty to keep the stored key
+      key: '',
       orderId: gameKey.orderId || '',
       activated: gameKey.activated,
     });
@@ -206,6 +214,22 @@ const GameKeysPage: React.FC = () => {
     setViewingGameKey(gameKey);
   };
 
+  const handleReveal = async (gameKey: GameKey) => {
+    const reason = prompt('Reason for revealing this key (recorded in the audit log):');
+    if (reason === null) return;
+
+    setRevealing(gameKey.id);
+    try {
+      const result = await adminApi.revealGameKey(gameKey.id, reason || undefined);
+      setRevealedKeys((prev) => ({ ...prev, [gameKey.id]: result.key }));
+    } catch (err) {
+      console.error('Failed to reveal game key:', err);
+      alert(err instanceof Error ? err.message : 'Failed to reveal game key');
+    } finally {
+      setRevealing(null);
+    }
+  };
+
   const handleCopy = async (key: string) => {
     try {
       await navigator.clipboard.writeText(key);
@@ -216,8 +240,10 @@ const GameKeysPage: React.FC = () => {
     }
   };
 
+  const missingRequired = !formData.gameId || (!editingGameKey && !formData.key.trim());
+
   const handleSave = async () => {
-    if (!formData.gameId || !formData.key) {
+    if (missingRequired) {
       return;
     }
 
@@ -225,7 +251,7 @@ const GameKeysPage: React.FC = () => {
     try {
       const data = {
         gameId: formData.gameId,
-        key: formData.key.trim(),
+        key: formData.key.trim() || undefined,
         orderId: formData.orderId || null,
         activated: formData.activated,
       };
@@ -233,7 +259,7 @@ const GameKeysPage: React.FC = () => {
       if (editingGameKey) {
         await adminApi.updateGameKey(editingGameKey.id, data);
       } else {
-        await adminApi.createGameKey(data);
+        await adminApi.createGameKey({ ...data, key: formData.key.trim() });
       }
 
       setShowModal(false);
@@ -271,11 +297,6 @@ const GameKeysPage: React.FC = () => {
     });
   };
 
-  const maskKey = (key: string) => {
-    if (key.length <= 8) return key;
-    return `${key.substring(0, 4)}...${key.substring(key.length - 4)}`;
-  };
-
   return (
     <div style={{ padding: '32px', maxWidth: '1600px', margin: '0 auto' }}>
       <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '32px' }}>
@@ -287,17 +308,30 @@ const GameKeysPage: React.FC = () => {
             Manage game keys, track activations, and view statistics
           </p>
         </div>
-        <button
-          onClick={handleCreate}
-          style={{
-            ...buttonStyle,
-            backgroundColor: theme.colors.primary,
-            color: theme.colors.background,
-          }}
-        >
-          <FiPlus />
-          Add Game Key
-        </button>
+        <div style={{ display: 'flex', gap: '12px' }}>
+          <button
+            onClick={() => setShowImport(true)}
+            style={{
+              ...buttonStyle,
+              backgroundColor: theme.colors.surfaceLight,
+              color: theme.colors.text,
+            }}
+          >
+            <FiUpload />
+            Import Keys
+          </button>
+          <button
+            onClick={handleCreate}
+            style={{
+              ...buttonStyle,
+              backgroundColor: theme.colors.primary,
+              color: theme.colors.background,
+            }}
+          >
+            <FiPlus />
+            Add Game Key
+          </button>
+        </div>
       </div>
 
       {/* Statistics Cards */}
@@ -380,7 +414,7 @@ const GameKeysPage: React.FC = () => {
             type="text"
             value={search}
             onChange={(e) => setSearch(e.target.value)}
-            placeholder="Search by key, game title, or user email..."
+            placeholder="Search by full key, game title, or user email..."
             style={{
               ...inputStyle,
               paddingLeft: '44px',
@@ -523,22 +557,40 @@ const GameKeysPage: React.FC = () => {
                     <td style={{ padding: '16px' }}>
                       <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
                         <span style={{ color: theme.colors.text, fontFamily: 'monospace', fontSize: '13px' }}>
-                          {maskKey(gameKey.key)}
+                          {revealedKeys[gameKey.id] || gameKey.maskedKey}
                         </span>
-                        <button
-                          onClick={() => handleCopy(gameKey.key)}
-                          style={{
-                            padding: '4px',
-                            borderRadius: '4px',
-                            border: 'none',
-                            backgroundColor: 'transparent',
-                            color: copied === gameKey.key ? theme.colors.success : theme.colors.textSecondary,
-                            cursor: 'pointer',
-                          }}
-                          title="Copy key"
-                        >
-                          {copied === gameKey.key ? <FiCheck size={14} /> : <FiCopy size={14} />}
-                        </button>
+                        {revealedKeys[gameKey.id] ? (
+                          <button
+                            onClick={() => handleCopy(revealedKeys[gameKey.id])}
+                            style={{
+                              padding: '4px',
+                              borderRadius: '4px',
+                              border: 'none',
+                              backgroundColor: 'transparent',
+                              color: copied === revealedKeys[gameKey.id] ? theme.colors.success : theme.colors.textSecondary,
+                              cursor: 'pointer',
+                            }}
+                            title="Copy key"
+                          >
+                            {copied === revealedKeys[gameKey.id] ? <FiCheck size={14} /> : <FiCopy size={14} />}
+                          </button>
+                        ) : (
+                          <button
+                            onClick={() => handleReveal(gameKey)}
+                            disabled={revealing === gameKey.id}
+                            style={{
+                              padding: '4px',
+                              borderRadius: '4px',
+                              border: 'none',
+                              backgroundColor: 'transparent',
+                              color: theme.colors.textSecondary,
+                              cursor: revealing === gameKey.id ? 'wait' : 'pointer',
+                            }}
+                            title="Reveal key (audited)"
+                          >
+                            <FiUnlock size={14} />
+                          </button>
+                        )}
                       </div>
                     </td>
                     <td style={{ padding: '16px', color: theme.colors.text }}>
@@ -763,7 +815,7 @@ const GameKeysPage: React.FC = () => {
                   <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
                     <input
                       type="text"
-                      value={viewingGameKey.key}
+                      value={revealedKeys[viewingGameKey.id] || viewingGameKey.maskedKey}
                       readOnly
                       style={{
                         ...inputStyle,
@@ -771,17 +823,34 @@ const GameKeysPage: React.FC = () => {
                         flex: 1,
                       }}
                     />
-                    <button
-                      onClick={() => handleCopy(viewingGameKey.key)}
-                      style={{
-                        ...buttonStyle,
-                        backgroundColor: copied === viewingGameKey.key ? theme.colors.success : theme.colors.surfaceLight,
-                        color: copied === viewingGameKey.key ? theme.colors.background : theme.colors.text,
-                        padding: '12px',
-                      }}
-                    >
-                      {copied === viewingGameKey.key ? <FiCheck /> : <FiCopy />}
-                    </button>
+                    {revealedKeys[viewingGameKey.id] ? (
+                      <button
+                        onClick={() => handleCopy(revealedKeys[viewingGameKey.id])}
+                        style={{
+                          ...buttonStyle,
+                          backgroundColor: copied === revealedKeys[viewingGameKey.id] ? theme.colors.success : theme.colors.surfaceLight,
+                          color: copied === revealedKeys[viewingGameKey.id] ? theme.colors.background : theme.colors.text,
+                          padding: '12px',
+                        }}
+                      >
+                        {copied === revealedKeys[viewingGameKey.id] ? <FiCheck /> : <FiCopy />}
+                      </button>
+                    ) : (
+                      <button
+                        onClick={() => handleReveal(viewingGameKey)}
+                        disabled={revealing === viewingGameKey.id}
+                        style={{
+                          ...buttonStyle,
+                          backgroundColor: theme.colors.surfaceLight,
+                          color: theme.colors.text,
+                          padding: '12px',
+                        }}
+                        title="Reveal key (audited)"
+                      >
+                        <FiUnlock />
+                        {revealing === viewingGameKey.id ? 'Revealing...' : 'Reveal'}
+                      </button>
+                    )}
                   </div>
                 </div>
 
@@ -927,13 +996,13 @@ const GameKeysPage: React.FC = () => {
 
                 <div>
                   <label style={{ display: 'block', color: theme.colors.textSecondary, fontSize: '13px', marginBottom: '8px' }}>
-                    Key *
+                    {editingGameKey ? 'New key' : 'Key *'}
                   </label>
                   <input
                     type="text"
                     value={formData.key}
                     onChange={(e) => setFormData({ ...formData, key: e.target.value })}
-                    placeholder="Enter game key"
+                    placeholder={editingGameKey ? `Leave empty to keep ${editingGameKey.maskedKey}` : 'Enter game key'}
                     style={{
                       ...inputStyle,
                       fontFamily: 'monospace',
@@ -980,16 +1049,16 @@ const GameKeysPage: React.FC = () => {
                 </button>
                 <button
                   onClick={handleSave}
-                  disabled={saving || !formData.gameId || !formData.key}
+                  disabled={saving || missingRequired}
                   style={{
                     ...buttonStyle,
-                    backgroundColor: saving || !formData.gameId || !formData.key
+                    backgroundColor: saving || missingRequired
                       ? theme.colors.surface
                       : theme.colors.primary,
-                    color: saving || !formData.gameId || !formData.key
+                    color: saving || missingRequired
                       ? theme.colors.textSecondary
                       : theme.colors.background,
-                    cursor: saving || !formData.gameId || !formData.key
+                    cursor: saving || missingRequired
                       ? 'not-allowed'
                       : 'pointer',
                   }}
@@ -1003,6 +1072,17 @@ const GameKeysPage: React.FC = () => {
         )}
       </AnimatePresence>
 
+      {/* Bulk Import Modal */}
+      <AnimatePresence>
+        {showImport && (
+          <KeyImportModal
+            games={games}
+            onClose={() => setShowImport(false)}
+            onImported={fetchGameKeys}
+          />
+        )}
+      </AnimatePresence>
+
       {/* Delete Confirmation Modal */}
       <AnimatePresence>
         {deleteConfirm && (
@@ -92,7 +92,11 @@ const MenuSettingsPage: React.FC = () => {
       { id: 'email-templates', label: 'Email Templates', path: '/admin/email-templates', visible: true, order: 22 },
       { id: 'email-settings', label: 'Email Settings', path: '/admin/email-settings', visible: true, order: 23 },
       { id: 'promo-codes', label: 'Promo Codes', path: '/admin/promo-codes', visible: true, order: 24 },
-      { id: 'menu-settings', label: 'Menu Settings', path: '/admin/menu-settings', visible: true, order: 26 },
+      { id: 'roles', label: 'Roles', path: '/admin/roles', visible: true, order: 25 },
+      { id: 'fraud-rules', label: 'Fraud Rules', path: '/admin/fraud-rules', visible: true, order: 26 },
+      { id: 'dead-letters', label: 'Failed Deliveries', path: '/admin/dead-letters', visible: true, order: 27 },
+      { id: 'exchange-rates', label: 'Exchange Rates', path: '/admin/exchange-rates', visible: true, order: 28 },
+      { id: 'menu-settings', label: 'Menu Settings', path: '/admin/menu-settings', visible: true, order: 29 },
     ];
     setMenuItems(defaultItems);
   };
@@ -11,10 +11,24 @@ import {
   FiXCircle,
   FiEdit,
   FiSave,
-  FiTrash2
+  FiTrash2,
+  FiRefreshCw,
+  FiRotateCcw,
+  FiAlertTriangle,
+  FiImage,
+  FiDownload,
+  FiShield
 } from 'react-icons/fi';
 import { adminApi } from '../services/adminApi';
-import type { OrderItem, OrderDetails } from '../services/adminApi';
+import { saveBlob } from '../../lib/utils';
+import type {
+  OrderItem,
+  OrderDetails,
+  OrderStatusHistoryEntry,
+  AdminClaim,
+  PreordersResult,
+  RiskReviewResult,
+} from '../services/adminApi';
 
 const theme = {
   colors: {
@@ -74,29 +88,69 @@ const formatDate = (dateStr: string) => {
   });
 };
 
+const getHistoryActor = (entry: OrderStatusHistoryEntry) => {
+  switch (entry.actorType) {
+    case 'ADMIN':
+      return entry.actor?.email || 'Admin';
+    case 'CUSTOMER':
+      return 'Customer';
+    case 'WEBHOOK':
+      return 'G2A webhook';
+    default:
+      return 'System';
+  }
+};
+
 const getStatusColor = (status: string) => {
   switch (status.toUpperCase()) {
     case 'COMPLETED':
+    case 'FULFILLED':
       return theme.colors.success;
     case 'PENDING':
+    case 'PARTIALLY_COMPLETED':
+    case 'ON_HOLD':
+    case 'AWAITING_PAYMENT':
       return theme.colors.warning;
     case 'PROCESSING':
+    case 'PREORDER':
       return theme.colors.info;
     case 'CANCELLED':
     case 'REFUNDED':
+    case 'FAILED':
       return theme.colors.error;
     default:
       return theme.colors.textSecondary;
   }
 };
 
+const CLAIM_TYPE_LABELS: Record<AdminClaim['type'], string> = {
+  KEY_NOT_WORKING: "Key doesn't work",
+  REFUND_REQUEST: 'Refund request',
+};
+
+const getClaimStatusColor = (status: AdminClaim['status']) => {
+  switch (status) {
+    case 'OPEN':
+      return theme.colors.warning;
+    case 'REJECTED':
+      return theme.colors.error;
+    default:
+      return theme.colors.success;
+  }
+};
+
 const getStatusIcon = (status: string) => {
   switch (status.toUpperCase()) {
     case 'COMPLETED':
       return <FiCheck size={14} />;
     case 'PENDING':
+    case 'PREORDER':
+    case 'AWAITING_PAYMENT':
       return <FiClock size={14} />;
+    case 'ON_HOLD':
+      return <FiShield size={14} />;
     case 'PROCESSING':
+    case 'PARTIALLY_COMPLETED':
       return <FiPackage size={14} />;
     case 'CANCELLED':
     case 'REFUNDED':
@@ -119,10 +173,25 @@ const OrdersPage: React.FC = () => {
   const [updatingStatus, setUpdatingStatus] = useState(false);
   const [updatingOrder, setUpdatingOrder] = useState(false);
   const [cancellingOrder, setCancellingOrder] = useState(false);
+  const [downloadingInvoice, setDownloadingInvoice] = useState(false);
+  const [itemAction, setItemAction] = useState<string | null>(null);
+  const [orderClaims, setOrderClaims] = useState<AdminClaim[]>([]);
+  const [openClaims, setOpenClaims] = useState<AdminClaim[]>([]);
+  const [openClaimsTotal, setOpenClaimsTotal] = useState(0);
+  const [claimAction, setClaimAction] = useState<string | null>(null);
+  const [claimScreenshots, setClaimScreenshots] = useState<Record<string, string>>({});
+  const [preorders, setPreorders] = useState<PreordersResult | null>(null);
+  const [selectedPreorders, setSelectedPreorders] = useState<string[]>([]);
+  const [releasingPreorders, setReleasingPreorders] = useState(false);
+  const [riskReview, setRiskReview] = useState<RiskReviewResult | null>(null);
+  const [reviewAction, setReviewAction] = useState<string | null>(null);
+  // Plaintext keys revealed in this session, by key id
+  const [revealedKeys, setRevealedKeys] = useState<Record<string, string>>({});
   const [editingOrder, setEditingOrder] = useState<{
     status: string;
     paymentStatus: string;
     paymentMethod: string;
+    reason: string;
   } | null>(null);
   const [cancelReason, setCancelReason] = useState('');
 
@@ -140,22 +209,60 @@ const OrdersPage: React.FC = () => {
     }
   };
 
+  const fetchOpenClaims = async () => {
+    try {
+      const result = await adminApi.getClaims({ status: 'OPEN', limit: 10 });
+      setOpenClaims(result.claims);
+      setOpenClaimsTotal(result.total);
+    } catch (err) {
+      console.error('Failed to fetch open claims:', err);
+    }
+  };
+
   useEffect(() => {
     fetchOrders();
   }, [page, statusFilter]);
 
+  const fetchPreorders = async () => {
+    try {
+      setPreorders(await adminApi.getPreorders(1, 50));
+    } catch (err) {
+      console.error('Failed to fetch preorders:', err);
+    }
+  };
+
+  const fetchRiskReview = async () => {
+    try {
+      setRiskReview(await adminApi.getRiskReviewQueue(1, 50));
+    } catch (err) {
+      console.error('Failed to fetch held orders:', err);
+    }
+  };
+
+  useEffect(() => {
+    fetchOpenClaims();
+    fetchPreorders();
+    fetchRiskReview();
+  }, []);
+
   const handleViewOrder = async (orderId: string) => {
     setLoadingDetails(true);
     setOrderDetails(null);
+    setOrderClaims([]);
     setEditingOrder(null);
     setCancelReason('');
     try {
-      const details = await adminApi.getOrderDetails(orderId);
+      const [details, claims] = await Promise.all([
+        adminApi.getOrderDetails(orderId),
+        adminApi.getClaims({ orderId, limit: 100 }).catch(() => null),
+      ]);
       setOrderDetails(details);
+      setOrderClaims(claims?.claims || []);
       setEditingOrder({
         status: details.status,
         paymentStatus: details.paymentStatus || 'PENDING',
         paymentMethod: details.paymentMethod || '',
+        reason: '',
       });
     } catch (err) {
       console.error('Failed to fetch order details:', err);
@@ -193,6 +300,7 @@ const OrdersPage: React.FC = () => {
         status: editingOrder.status as any,
         paymentStatus: editingOrder.paymentStatus as any,
         paymentMethod: editingOrder.paymentMethod || undefined,
+        reason: editingOrder.reason || undefined,
       });
       alert('Order updated successfully');
       await handleViewOrder(orderId); // Refresh details
@@ -225,6 +333,207 @@ const OrdersPage: React.FC = () => {
     }
   };
 
+  const handleRetryItem = async (orderId: string, itemId: string) => {
+    try {
+      setItemAction(itemId);
+      const { result, order } = await adminApi.retryOrderItem(orderId, itemId);
+      alert(
+        result.error
+          ? `Delivered ${result.delivered} key(s). Retry failed: ${result.error}`
+          : `Delivered ${result.delivered} key(s)`
+      );
+      setOrderDetails(order);
+      fetchOrders(); // Refresh list
+    } catch (err: unknown) {
+      console.error('Failed to retry order item:', err);
+      alert(err instanceof Error ? err.message : 'Failed to retry order item');
+    } finally {
+      setItemAction(null);
+    }
+  };
+
+  const handleRefundItem = async (orderId: string, itemId: string) => {
+    const reason = prompt('Refund the undelivered units of this item to the customer balance?\nReason (optional):');
+    if (reason === null) {
+      return;
+    }
+
+    try {
+      setItemAction(itemId);
+      const { result, order } = await adminApi.refundOrderItem(orderId, itemId, reason || undefined);
+      alert(`Refunded ${result.units} unit(s): ${formatCurrency(result.amount)}`);
+      setOrderDetails(order);
+      fetchOrders(); // Refresh list
+    } catch (err: unknown) {
+      console.error('Failed to refund order item:', err);
+      alert(err instanceof Error ? err.message : 'Failed to refund order item');
+    } finally {
+      setItemAction(null);
+    }
+  };
+
+  const handleReviewClaim = (claim: AdminClaim) => {
+    setSelectedOrder({
+      id: claim.orderId,
+      userEmail: claim.user.email,
+      userNickname: claim.user.nickname || '',
+      total: 0,
+      status: '',
+      itemsCount: 0,
+      items: [],
+      createdAt: claim.createdAt,
+    });
+    handleViewOrder(claim.orderId);
+  };
+
+  const handleViewScreenshot = async (claimId: string) => {
+    try {
+      const claim = await adminApi.getClaimDetails(claimId);
+      if (claim.screenshot) {
+        setClaimScreenshots((prev) => ({ ...prev, [claimId]: claim.screenshot! }));
+      }
+    } catch (err: unknown) {
+      console.error('Failed to load claim screenshot:', err);
+      alert(err instanceof Error ? err.message : 'Failed to load screenshot');
+    }
+  };
+
+  const handleResolveClaim = async (
+    claim: AdminClaim,
+    action: 'replace' | 'refund' | 'reject'
+  ) => {
+    const questions = {
+      replace: 'Send the customer a new key from the key pool?\nNote for the customer (optional):',
+      refund: 'Refund one unit of this item to the customer balance?\nNote for the customer (optional):',
+      reject: 'Reject this claim?\nReason for the customer (required):',
+    };
+    const note = prompt(questions[action]);
+    if (note === null) {
+      return;
+    }
+    if (action === 'reject' && !note.trim()) {
+      alert('Please give the customer a reason');
+      return;
+    }
+
+    try {
+      setClaimAction(claim.id);
+      const updated =
+        action === 'replace'
+          ? await adminApi.replaceClaimKey(claim.id, note || undefined)
+          : action === 'refund'
+            ? await adminApi.refundClaim(claim.id, note || undefined)
+            : await adminApi.rejectClaim(claim.id, note);
+      setOrderClaims((prev) => prev.map((c) => (c.id === updated.id ? updated : c)));
+      fetchOpenClaims();
+      if (action !== 'reject') {
+        setOrderDetails(await adminApi.getOrderDetails(claim.orderId));
+      }
+    } catch (err: unknown) {
+      console.error('Failed to resolve claim:', err);
+      alert(err instanceof Error ? err.message : 'Failed to resolve claim');
+    } finally {
+      setClaimAction(null);
+    }
+  };
+
+  const handleDownloadInvoice = async (orderId: string) => {
+    try {
+      setDownloadingInvoice(true);
+      const blob = await adminApi.getOrderInvoice(orderId);
+      saveBlob(blob, `invoice-${orderId.slice(0, 8)}.pdf`);
+    } catch (err: unknown) {
+      console.error('Failed to generate invoice:', err);
+      alert(err instanceof Error ? err.message : 'Failed to generate invoice');
+    } finally {
+      setDownloadingInvoice(false);
+    }
+  };
+
+  const handleApproveHeldOrder = async (orderId: string) => {
+    const note = prompt('Approve this order and start delivery? Optional note for the audit log:');
+    if (note === null) {
+      return;
+    }
+
+    try {
+      setReviewAction(orderId);
+      const result = await adminApi.approveHeldOrder(orderId, note.trim() || undefined);
+      alert(`Order approved. Status: ${result.status}`);
+      fetchRiskReview();
+      fetchOrders();
+    } catch (err: unknown) {
+      console.error('Failed to approve order:', err);
+      alert(err instanceof Error ? err.message : 'Failed to approve order');
+    } finally {
+      setReviewAction(null);
+    }
+  };
+
+  const handleRejectHeldOrder = async (orderId: string) => {
+    const reason = prompt('Reason for rejecting this order (the payment is refunded to the balance):');
+    if (!reason?.trim()) {
+      return;
+    }
+
+    try {
+      setReviewAction(orderId);
+      await adminApi.rejectHeldOrder(orderId, reason.trim());
+      fetchRiskReview();
+      fetchOrders();
+    } catch (err: unknown) {
+      console.error('Failed to reject order:', err);
+      alert(err instanceof Error ? err.message : 'Failed to reject order');
+    } finally {
+      setReviewAction(null);
+    }
+  };
+
+  const handleReleasePreorders = async () => {
+    if (
+      !confirm(
+        `Deliver ${selectedPreorders.length} preorder(s) now? Keys are bought or taken from the pool even if the game is not released yet.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      setReleasingPreorders(true);
+      const results = await adminApi.releasePreorders(selectedPreorders);
+      const failed = results.filter((result) => result.error);
+      if (failed.length > 0) {
+        alert(
+          `${results.length - failed.length} preorder(s) released, ${failed.length} failed:\n` +
+            failed.map((result) => `${result.orderId.slice(0, 8)}: ${result.error}`).join('\n')
+        );
+      }
+      setSelectedPreorders([]);
+      fetchPreorders();
+      fetchOrders();
+    } catch (err: unknown) {
+      console.error('Failed to release preorders:', err);
+      alert(err instanceof Error ? err.message : 'Failed to release preorders');
+    } finally {
+      setReleasingPreorders(false);
+    }
+  };
+
+  const handleRevealKey = async (keyId: string) => {
+    const reason = prompt('Reason for revealing this key (recorded in the audit log):');
+    if (reason === null) {
+      return;
+    }
+
+    try {
+      const result = await adminApi.revealGameKey(keyId, reason || undefined);
+      setRevealedKeys((prev) => ({ ...prev, [keyId]: result.key }));
+    } catch (err: unknown) {
+      console.error('Failed to reveal game key:', err);
+      alert(err instanceof Error ? err.message : 'Failed to reveal game key');
+    }
+  };
+
   // Calculate stats
   const pendingCount = orders.filter(o => o.status === 'PENDING').length;
   const completedCount = orders.filter(o => o.status === 'COMPLETED').length;
@@ -303,6 +612,267 @@ const OrdersPage: React.FC = () => {
         </div>
       </div>
 
+      {/* Open Claims */}
+      {openClaims.length > 0 && (
+        <div style={{
+          backgroundColor: theme.colors.surface,
+          borderRadius: '12px',
+          padding: '20px',
+          border: `1px solid ${theme.colors.warning}`,
+          marginBottom: '24px',
+        }}>
+          <p style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: '8px',
+            color: theme.colors.warning,
+            fontSize: '14px',
+            fontWeight: '600',
+            marginBottom: '12px',
+          }}>
+            <FiAlertTriangle size={16} />
+            {openClaimsTotal} open claim{openClaimsTotal === 1 ? '' : 's'}
+          </p>
+          <div style={{ display: 'grid', gap: '8px' }}>
+            {openClaims.map((claim) => (
+              <div
+                key={claim.id}
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '12px',
+                  padding: '10px 12px',
+                  backgroundColor: theme.colors.surfaceLight,
+                  borderRadius: '8px',
+                  fontSize: '13px',
+                }}
+              >
+                <span style={{ color: theme.colors.text, fontWeight: '500' }}>{claim.game.title}</span>
+                <span style={{ color: theme.colors.textSecondary }}>{CLAIM_TYPE_LABELS[claim.type]}</span>
+                <span style={{ color: theme.colors.textSecondary }}>{claim.user.email}</span>
+                <span style={{ color: theme.colors.textSecondary, marginLeft: 'auto' }}>
+                  {formatDate(claim.createdAt)}
+                </span>
+                <button
+                  onClick={() => handleReviewClaim(claim)}
+                  style={{
+                    ...buttonStyle,
+                    padding: '6px 12px',
+                    fontSize: '12px',
+                    backgroundColor: theme.colors.primary,
+                    color: '#fff',
+                  }}
+                >
+                  Review
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Orders held for a fraud review */}
+      {riskReview && riskReview.total > 0 && (
+        <div style={{
+          backgroundColor: theme.colors.surface,
+          borderRadius: '12px',
+          padding: '20px',
+          border: `1px solid ${theme.colors.error}`,
+          marginBottom: '24px',
+        }}>
+          <p style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: '8px',
+            color: theme.colors.error,
+            fontSize: '14px',
+            fontWeight: '600',
+            marginBottom: '12px',
+          }}>
+            <FiShield size={16} />
+            {riskReview.total} order{riskReview.total === 1 ? '' : 's'} held for a fraud review
+          </p>
+          <div style={{ display: 'grid', gap: '8px' }}>
+            {riskReview.orders.map((held) => (
+              <div
+                key={held.orderId}
+                style={{
+                  padding: '12px',
+                  backgroundColor: theme.colors.surfaceLight,
+                  borderRadius: '8px',
+                  fontSize: '13px',
+                }}
+              >
+                <div style={{ display: 'flex', alignItems: 'center', gap: '12px', marginBottom: '8px' }}>
+                  <span style={{ color: theme.colors.error, fontWeight: '600' }}>
+                    Score {held.score}/{held.threshold}
+                  </span>
+                  <span style={{ color: theme.colors.text, fontWeight: '500' }}>
+                    {held.items.map((item) => `${item.title}${item.quantity > 1 ? ` ×${item.quantity}` : ''}`).join(', ')}
+                  </span>
+                  <span style={{ color: theme.colors.textSecondary }}>
+                    {held.user.email} · joined {formatDate(held.user.createdAt)}
+                  </span>
+                  <span style={{ color: theme.colors.textSecondary, marginLeft: 'auto' }}>
+                    {formatCurrency(held.total)} · {formatDate(held.createdAt)}
+                  </span>
+                </div>
+                <div style={{ display: 'flex', alignItems: 'center', gap: '8px', flexWrap: 'wrap' }}>
+                  {held.signals.map((signal) => (
+                    <span
+                      key={signal.rule}
+                      style={{
+                        padding: '4px 8px',
+                        backgroundColor: theme.colors.surface,
+                        borderRadius: '6px',
+                        fontSize: '12px',
+                        color: theme.colors.textSecondary,
+                      }}
+                    >
+                      +{signal.points} {signal.detail}
+                    </span>
+                  ))}
+                  <div style={{ display: 'flex', gap: '8px', marginLeft: 'auto' }}>
+                    <button
+                      onClick={() => handleViewOrder(held.orderId)}
+                      style={{ ...buttonStyle, padding: '6px 12px', fontSize: '12px', backgroundColor: theme.colors.surface, color: theme.colors.text }}
+                    >
+                      <FiEye size={14} />
+                      Details
+                    </button>
+                    <button
+                      onClick={() => handleApproveHeldOrder(held.orderId)}
+                      disabled={reviewAction === held.orderId}
+                      style={{
+                        ...buttonStyle,
+                        padding: '6px 12px',
+                        fontSize: '12px',
+                        backgroundColor: theme.colors.success,
+                        color: '#fff',
+                        opacity: reviewAction === held.orderId ? 0.5 : 1,
+                      }}
+                    >
+                      <FiCheck size={14} />
+                      Approve
+                    </button>
+                    <button
+                      onClick={() => handleRejectHeldOrder(held.orderId)}
+                      disabled={reviewAction === held.orderId}
+                      style={{
+                        ...buttonStyle,
+                        padding: '6px 12px',
+                        fontSize: '12px',
+                        backgroundColor: theme.colors.error,
+                        color: '#fff',
+                        opacity: reviewAction === held.orderId ? 0.5 : 1,
+                      }}
+                    >
+                      <FiXCircle size={14} />
+                      Reject
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Preorders */}
+      {preorders && preorders.total > 0 && (
+        <div style={{
+          backgroundColor: theme.colors.surface,
+          borderRadius: '12px',
+          padding: '20px',
+          border: `1px solid ${theme.colors.info}`,
+          marginBottom: '24px',
+        }}>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '12px', marginBottom: '12px' }}>
+            <p style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '8px',
+              color: theme.colors.info,
+              fontSize: '14px',
+              fontWeight: '600',
+            }}>
+              <FiClock size={16} />
+              {preorders.total} preorder{preorders.total === 1 ? '' : 's'} waiting for release
+            </p>
+            <button
+              onClick={handleReleasePreorders}
+              disabled={selectedPreorders.length === 0 || releasingPreorders}
+              style={{
+                ...buttonStyle,
+                marginLeft: 'auto',
+                padding: '6px 12px',
+                fontSize: '12px',
+                backgroundColor: theme.colors.primary,
+                color: '#fff',
+                opacity: selectedPreorders.length === 0 || releasingPreorders ? 0.5 : 1,
+              }}
+            >
+              <FiPackage size={14} />
+              {releasingPreorders ? 'Delivering...' : `Deliver selected now (${selectedPreorders.length})`}
+            </button>
+          </div>
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px', marginBottom: '12px' }}>
+            {preorders.games.map((game) => (
+              <span
+                key={game.gameId}
+                style={{
+                  padding: '6px 10px',
+                  backgroundColor: theme.colors.surfaceLight,
+                  borderRadius: '6px',
+                  fontSize: '12px',
+                  color: theme.colors.textSecondary,
+                }}
+              >
+                <span style={{ color: theme.colors.text }}>{game.title}</span>
+                {' · '}releases {formatDate(game.releaseDate)} · {game.orders} order(s), {game.units} unit(s) · {game.poolKeys} key(s) in pool
+              </span>
+            ))}
+          </div>
+          <div style={{ display: 'grid', gap: '8px' }}>
+            {preorders.preorders.map((preorder) => (
+              <label
+                key={preorder.id}
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '12px',
+                  padding: '10px 12px',
+                  backgroundColor: theme.colors.surfaceLight,
+                  borderRadius: '8px',
+                  fontSize: '13px',
+                  cursor: 'pointer',
+                }}
+              >
+                <input
+                  type="checkbox"
+                  checked={selectedPreorders.includes(preorder.id)}
+                  onChange={(e) =>
+                    setSelectedPreorders((prev) =>
+                      e.target.checked ? [...prev, preorder.id] : prev.filter((id) => id !== preorder.id)
+                    )
+                  }
+                />
+                <span style={{ color: theme.colors.text, fontWeight: '500' }}>
+                  {preorder.items.map((item) => `${item.title}${item.quantity > 1 ? ` ×${item.quantity}` : ''}`).join(', ')}
+                </span>
+                <span style={{ color: theme.colors.textSecondary }}>{preorder.user.email}</span>
+                {preorder.ready && (
+                  <span style={{ color: theme.colors.success, fontSize: '12px' }}>Ready for delivery</span>
+                )}
+                <span style={{ color: theme.colors.textSecondary, marginLeft: 'auto' }}>
+                  {formatCurrency(preorder.total)} · {formatDate(preorder.createdAt)}
+                </span>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Filter */}
       <div style={{ marginBottom: '24px', display: 'flex', gap: '16px', flexWrap: 'wrap' }}>
         <select
@@ -312,7 +882,11 @@ const OrdersPage: React.FC = () => {
         >
           <option value="">All Statuses</option>
           <option value="PENDING">Pending</option>
+          <option value="AWAITING_PAYMENT">Awaiting Payment</option>
+          <option value="PREORDER">Preorder</option>
+          <option value="ON_HOLD">On Hold</option>
           <option value="PROCESSING">Processing</option>
+          <option value="PARTIALLY_COMPLETED">Partially Completed</option>
           <option value="COMPLETED">Completed</option>
           <option value="CANCELLED">Cancelled</option>
           <option value="REFUNDED">Refunded</option>
@@ -631,7 +1205,7 @@ const OrdersPage: React.FC = () => {
                     Order #{selectedOrder.id.slice(0, 8)}
                   </h2>
                   <p style={{ color: theme.colors.textSecondary, fontSize: '14px' }}>
-                    {formatDate(selectedOrder.createdAt)}
+                    {formatDate(orderDetails?.createdAt || selectedOrder.createdAt)}
                   </p>
                 </div>
                 <button
@@ -715,6 +1289,7 @@ const OrdersPage: React.FC = () => {
                                   status: orderDetails.status,
                                   paymentStatus: orderDetails.paymentStatus || 'PENDING',
                                   paymentMethod: orderDetails.paymentMethod || '',
+                                  reason: '',
                                 });
                               }}
                               style={{
@@ -755,13 +1330,25 @@ const OrdersPage: React.FC = () => {
                               onChange={(e) => setEditingOrder({ ...editingOrder, status: e.target.value })}
                               style={inputStyle}
                             >
-                              <option value="PENDING">PENDING</option>
-                              <option value="PROCESSING">PROCESSING</option>
-                              <option value="COMPLETED">COMPLETED</option>
-                              <option value="FAILED">FAILED</option>
-                              <option value="CANCELLED">CANCELLED</option>
+                              {[orderDetails.status, ...orderDetails.allowedTransitions].map((status) => (
+                                <option key={status} value={status}>{status}</option>
+                              ))}
                             </select>
                           </div>
+                          {editingOrder.status !== orderDetails.status && (
+                            <div>
+                              <label style={{ display: 'block', color: theme.colors.textSecondary, fontSize: '13px', marginBottom: '8px' }}>
+                                Reason for status change
+                              </label>
+                              <input
+                                type="text"
+                                value={editingOrder.reason}
+                                onChange={(e) => setEditingOrder({ ...editingOrder, reason: e.target.value })}
+                                placeholder="Shown in the order history"
+                                style={inputStyle}
+                              />
+                            </div>
+                          )}
                           <div>
                             <label style={{ display: 'block', color: theme.colors.textSecondary, fontSize: '13px', marginBottom: '8px' }}>
                               Payment Status
@@ -817,6 +1404,7 @@ const OrdersPage: React.FC = () => {
                               status: orderDetails.status,
                               paymentStatus: orderDetails.paymentStatus || 'PENDING',
                               paymentMethod: orderDetails.paymentMethod || '',
+                              reason: '',
                             })}
                             style={{
                               ...buttonStyle,
@@ -833,6 +1421,83 @@ const OrdersPage: React.FC = () => {
                       )}
                     </div>
 
+                    {/* Fraud check */}
+                    {orderDetails.risk && (orderDetails.risk.held || orderDetails.risk.score > 0) && (
+                      <div style={{ marginBottom: '24px' }}>
+                        <h4 style={{
+                          color: theme.colors.textSecondary,
+                          fontSize: '12px',
+                          fontWeight: '600',
+                          textTransform: 'uppercase',
+                          marginBottom: '12px',
+                        }}>
+                          Fraud check
+                        </h4>
+                        <div style={{
+                          backgroundColor: theme.colors.surfaceLight,
+                          borderRadius: '12px',
+                          padding: '16px',
+                          fontSize: '14px',
+                          color: theme.colors.text,
+                          display: 'grid',
+                          gap: '6px',
+                        }}>
+                          <div>
+                            Score {orderDetails.risk.score} of {orderDetails.risk.threshold} needed for a hold
+                            {orderDetails.risk.held && ' · held for review'}
+                          </div>
+                          {orderDetails.risk.signals.map((signal) => (
+                            <div key={signal.rule} style={{ color: theme.colors.textSecondary, fontSize: '13px' }}>
+                              +{signal.points} {signal.detail}
+                            </div>
+                          ))}
+                          {orderDetails.risk.decision && (
+                            <div style={{ color: theme.colors.textSecondary, fontSize: '13px' }}>
+                              {orderDetails.risk.decision === 'APPROVED' ? 'Approved' : 'Rejected'}
+                              {orderDetails.risk.reviewedBy && ` by ${orderDetails.risk.reviewedBy}`}
+                              {orderDetails.risk.reviewedAt && ` on ${formatDate(orderDetails.risk.reviewedAt)}`}
+                              {orderDetails.risk.reviewNote && `: ${orderDetails.risk.reviewNote}`}
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                    )}
+
+                    {/* Gift */}
+                    {orderDetails.gift && (
+                      <div style={{ marginBottom: '24px' }}>
+                        <h4 style={{
+                          color: theme.colors.textSecondary,
+                          fontSize: '12px',
+                          fontWeight: '600',
+                          textTransform: 'uppercase',
+                          marginBottom: '12px',
+                        }}>
+                          Gift
+                        </h4>
+                        <div style={{
+                          backgroundColor: theme.colors.surfaceLight,
+                          borderRadius: '12px',
+                          padding: '16px',
+                          fontSize: '14px',
+                          color: theme.colors.text,
+                          display: 'grid',
+                          gap: '6px',
+                        }}>
+                          <div>To: {orderDetails.gift.recipientEmail} · From: {orderDetails.gift.senderName}</div>
+                          {orderDetails.gift.message && (
+                            <div style={{ color: theme.colors.textSecondary, fontStyle: 'italic' }}>“{orderDetails.gift.message}”</div>
+                          )}
+                          <div style={{ color: theme.colors.textSecondary, fontSize: '13px' }}>
+                            Delivery: {formatDate(orderDetails.gift.deliverAt)}
+                            {' · '}Sent: {orderDetails.gift.sentAt ? formatDate(orderDetails.gift.sentAt) : '—'}
+                            {' · '}Opened: {orderDetails.gift.openedAt ? formatDate(orderDetails.gift.openedAt) : '—'}
+                            {' · '}Redeemed: {orderDetails.gift.redeemedAt ? formatDate(orderDetails.gift.redeemedAt) : '—'}
+                          </div>
+                        </div>
+                      </div>
+                    )}
+
                     {/* Items */}
                     <div style={{ marginBottom: '24px' }}>
                       <h4 style={{ 
@@ -849,7 +1514,10 @@ const OrdersPage: React.FC = () => {
                         borderRadius: '12px',
                         overflow: 'hidden',
                       }}>
-                        {orderDetails.items.map((item, index) => (
+                        {orderDetails.items.map((item, index) => {
+                          const outstanding = item.quantity - item.fulfilledQuantity - item.refundedQuantity;
+                          const canAct = outstanding > 0 && orderDetails.status !== 'CANCELLED';
+                          return (
                           <div 
                             key={item.id}
                             style={{
@@ -867,27 +1535,299 @@ const OrdersPage: React.FC = () => {
                               <p style={{ color: theme.colors.textSecondary, fontSize: '12px' }}>
                                 Quantity: {item.quantity} × {formatCurrency(item.price)}
                               </p>
-                              {item.key && (
-                                <p style={{ 
-                                  color: item.keyActivated ? theme.colors.success : theme.colors.warning, 
-                                  fontSize: '12px',
-                                  fontFamily: 'monospace',
-                                  marginTop: '4px',
-                                }}>
-                                  Key: {item.key} {item.keyActivated && '(Activated)'}
+                              <p style={{ fontSize: '12px', marginTop: '4px' }}>
+                                <span style={{ color: getStatusColor(item.fulfillmentStatus), fontWeight: '500' }}>
+                                  {item.fulfillmentStatus}
+                                </span>
+                                <span style={{ color: theme.colors.textSecondary }}>
+                                  {' '}· Delivered {item.fulfilledQuantity}/{item.quantity}
+                                  {item.refundedQuantity > 0 && ` · Refunded ${item.refundedQuantity}`}
+                                </span>
+                              </p>
+                              {item.fulfillmentError && outstanding > 0 && (
+                                <p style={{ color: theme.colors.error, fontSize: '12px', marginTop: '4px' }}>
+                                  {item.fulfillmentError}
+                                </p>
+                              )}
+                              {item.supplierOrderIds.length > 0 && (
+                                <p style={{ color: theme.colors.textSecondary, fontSize: '12px', fontFamily: 'monospace', marginTop: '4px' }}>
+                                  G2A: {item.supplierOrderIds.join(', ')}
                                 </p>
                               )}
+                              {item.keys.map((key) => (
+                                <p
+                                  key={key.id}
+                                  style={{ 
+                                    color: key.activated ? theme.colors.success : theme.colors.warning, 
+                                    fontSize: '12px',
+                                    fontFamily: 'monospace',
+                                    marginTop: '4px',
+                                  }}
+                                >
+                                  Key: {revealedKeys[key.id] || key.key} {key.activated && '(Activated)'}
+                                  {!revealedKeys[key.id] && (
+                                    <button
+                                      onClick={() => handleRevealKey(key.id)}
+                                      style={{
+                                        marginLeft: '8px',
+                                        padding: 0,
+                                        border: 'none',
+                                        background: 'none',
+                                        color: theme.colors.primary,
+                                        fontSize: '12px',
+                                        cursor: 'pointer',
+                                      }}
+                                    >
+                                      Reveal
+                                    </button>
+                                  )}
+                                </p>
+                              ))}
                             </div>
-                            <div style={{ textAlign: 'right' }}>
+                            <div style={{ textAlign: 'right', display: 'flex', flexDirection: 'column', alignItems: 'flex-end', gap: '8px' }}>
                               <p style={{ color: theme.colors.success, fontWeight: '600' }}>
                                 {formatCurrency(item.price * item.quantity)}
                               </p>
+                              {canAct && (
+                                <div style={{ display: 'flex', gap: '8px' }}>
+                                  <button
+                                    onClick={() => handleRetryItem(orderDetails.id, item.id)}
+                                    disabled={itemAction !== null}
+                                    title="Buy the undelivered units from G2A again"
+                                    style={{
+                                      ...buttonStyle,
+                                      padding: '6px 10px',
+                                      fontSize: '12px',
+                                      backgroundColor: theme.colors.info,
+                                      color: theme.colors.text,
+                                      opacity: itemAction !== null ? 0.6 : 1,
+                                    }}
+                                  >
+                                    <FiRefreshCw size={12} />
+                                    {itemAction === item.id ? 'Working...' : 'Retry'}
+                                  </button>
+                                  <button
+                                    onClick={() => handleRefundItem(orderDetails.id, item.id)}
+                                    disabled={itemAction !== null}
+                                    title="Refund the undelivered units to the customer balance"
+                                    style={{
+                                      ...buttonStyle,
+                                      padding: '6px 10px',
+                                      fontSize: '12px',
+                                      backgroundColor: 'transparent',
+                                      border: `1px solid ${theme.colors.error}`,
+                                      color: theme.colors.error,
+                                      opacity: itemAction !== null ? 0.6 : 1,
+                                    }}
+                                  >
+                                    <FiRotateCcw size={12} />
+                                    Refund {outstanding}
+                                  </button>
+                                </div>
+                              )}
                             </div>
                           </div>
-                        ))}
+                          );
+                        })}
                       </div>
                     </div>
 
+                    {/* Claims */}
+                    {orderClaims.length > 0 && (
+                      <div style={{ marginBottom: '24px' }}>
+                        <h4 style={{ 
+                          color: theme.colors.textSecondary, 
+                          fontSize: '12px', 
+                          fontWeight: '600',
+                          textTransform: 'uppercase',
+                          marginBottom: '12px',
+                        }}>
+                          Claims
+                        </h4>
+                        <div style={{ display: 'grid', gap: '12px' }}>
+                          {orderClaims.map((claim) => (
+                            <div
+                              key={claim.id}
+                              style={{
+                                backgroundColor: theme.colors.surfaceLight,
+                                borderRadius: '12px',
+                                padding: '16px',
+                              }}
+                            >
+                              <div style={{ display: 'flex', alignItems: 'center', gap: '12px', marginBottom: '8px' }}>
+                                <span style={{ color: theme.colors.text, fontSize: '14px', fontWeight: '500' }}>
+                                  {claim.game.title} · {CLAIM_TYPE_LABELS[claim.type]}
+                                </span>
+                                {claim.maskedKey && (
+                                  <code style={{ color: theme.colors.textSecondary, fontSize: '12px' }}>
+                                    {claim.maskedKey}
+                                  </code>
+                                )}
+                                <span style={{
+                                  marginLeft: 'auto',
+                                  color: getClaimStatusColor(claim.status),
+                                  fontSize: '12px',
+                                  fontWeight: '600',
+                                }}>
+                                  {claim.status}
+                                  {claim.refundAmount !== undefined && ` · ${formatCurrency(claim.refundAmount)}`}
+                                </span>
+                              </div>
+                              <p style={{ color: theme.colors.text, fontSize: '13px', whiteSpace: 'pre-wrap' }}>
+                                {claim.reason}
+                              </p>
+                              {claim.replacementKey && (
+                                <p style={{ color: theme.colors.textSecondary, fontSize: '12px', marginTop: '8px' }}>
+                                  Replacement key: <code>{claim.replacementKey}</code>
+                                </p>
+                              )}
+                              {claim.hasScreenshot && (
+                                claimScreenshots[claim.id] ? (
+                                  <img
+                                    src={claimScreenshots[claim.id]}
+                                    alt="Claim screenshot"
+                                    style={{ display: 'block', maxWidth: '100%', marginTop: '12px', borderRadius: '8px' }}
+                                  />
+                                ) : (
+                                  <button
+                                    onClick={() => handleViewScreenshot(claim.id)}
+                                    style={{
+                                      ...buttonStyle,
+                                      marginTop: '12px',
+                                      padding: '6px 12px',
+                                      fontSize: '12px',
+                                      backgroundColor: 'transparent',
+                                      border: `1px solid ${theme.colors.border}`,
+                                      color: theme.colors.text,
+                                    }}
+                                  >
+                                    <FiImage size={14} />
+                                    View Screenshot
+                                  </button>
+                                )
+                              )}
+                              <div style={{ marginTop: '12px', display: 'grid', gap: '4px' }}>
+                                {claim.events.map((event) => (
+                                  <p key={event.id} style={{ color: theme.colors.textSecondary, fontSize: '12px' }}>
+                                    {event.status} · {event.actorType === 'ADMIN' ? event.actor?.email || 'Admin' : 'Customer'} · {formatDate(event.createdAt)}
+                                    {event.note && <span style={{ fontStyle: 'italic' }}> · {event.note}</span>}
+                                  </p>
+                                ))}
+                              </div>
+                              {claim.status === 'OPEN' && (
+                                <div style={{ display: 'flex', gap: '8px', marginTop: '12px', flexWrap: 'wrap' }}>
+                                  <button
+                                    onClick={() => handleResolveClaim(claim, 'replace')}
+                                    disabled={claimAction === claim.id}
+                                    style={{
+                                      ...buttonStyle,
+                                      padding: '6px 12px',
+                                      fontSize: '12px',
+                                      backgroundColor: theme.colors.primary,
+                                      color: '#fff',
+                                      opacity: claimAction === claim.id ? 0.6 : 1,
+                                    }}
+                                  >
+                                    <FiRefreshCw size={14} />
+                                    Replace Key
+                                  </button>
+                                  <button
+                                    onClick={() => handleResolveClaim(claim, 'refund')}
+                                    disabled={claimAction === claim.id}
+                                    style={{
+                                      ...buttonStyle,
+                                      padding: '6px 12px',
+                                      fontSize: '12px',
+                                      backgroundColor: theme.colors.warning,
+                                      color: '#000',
+                                      opacity: claimAction === claim.id ? 0.6 : 1,
+                                    }}
+                                  >
+                                    <FiRotateCcw size={14} />
+                                    Refund to Balance
+                                  </button>
+                                  <button
+                                    onClick={() => handleResolveClaim(claim, 'reject')}
+                                    disabled={claimAction === claim.id}
+                                    style={{
+                                      ...buttonStyle,
+                                      padding: '6px 12px',
+                                      fontSize: '12px',
+                                      backgroundColor: 'transparent',
+                                      border: `1px solid ${theme.colors.error}`,
+                                      color: theme.colors.error,
+                                      opacity: claimAction === claim.id ? 0.6 : 1,
+                                    }}
+                                  >
+                                    <FiXCircle size={14} />
+                                    Reject
+                                  </button>
+                                </div>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
+                    {/* Status History */}
+                    {orderDetails.statusHistory.length > 0 && (
+                      <div style={{ marginBottom: '24px' }}>
+                        <h4 style={{ 
+                          color: theme.colors.textSecondary, 
+                          fontSize: '12px', 
+                          fontWeight: '600',
+                          textTransform: 'uppercase',
+                          marginBottom: '12px',
+                        }}>
+                          Status History
+                        </h4>
+                        <div style={{
+                          backgroundColor: theme.colors.surfaceLight,
+                          borderRadius: '12px',
+                          padding: '16px',
+                        }}>
+                          {orderDetails.statusHistory.map((entry, index) => (
+                            <div
+                              key={entry.id}
+                              style={{
+                                display: 'flex',
+                                gap: '12px',
+                                paddingBottom: index < orderDetails.statusHistory.length - 1 ? '12px' : 0,
+                                marginLeft: '4px',
+                                borderLeft: index < orderDetails.statusHistory.length - 1
+                                  ? `2px solid ${theme.colors.border}`
+                                  : '2px solid transparent',
+                              }}
+                            >
+                              <span style={{
+                                width: '10px',
+                                height: '10px',
+                                borderRadius: '50%',
+                                backgroundColor: getStatusColor(entry.toStatus),
+                                marginLeft: '-6px',
+                                marginTop: '4px',
+                                flexShrink: 0,
+                              }} />
+                              <div>
+                                <p style={{ color: theme.colors.text, fontSize: '13px', fontWeight: '500' }}>
+                                  {entry.fromStatus ? `${entry.fromStatus} → ${entry.toStatus}` : entry.toStatus}
+                                </p>
+                                <p style={{ color: theme.colors.textSecondary, fontSize: '12px' }}>
+                                  {getHistoryActor(entry)} · {formatDate(entry.createdAt)}
+                                </p>
+                                {entry.reason && (
+                                  <p style={{ color: theme.colors.textSecondary, fontSize: '12px', fontStyle: 'italic' }}>
+                                    {entry.reason}
+                                  </p>
+                                )}
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
                     {/* Transaction Info */}
                     {orderDetails.transaction && (
                       <div style={{ marginBottom: '24px' }}>
@@ -935,6 +1875,26 @@ const OrdersPage: React.FC = () => {
                               </div>
                             )}
                           </div>
+                          {orderDetails.refunds.map((refund) => (
+                            <div
+                              key={refund.id}
+                              style={{
+                                display: 'flex',
+                                justifyContent: 'space-between',
+                                gap: '12px',
+                                marginTop: '12px',
+                                paddingTop: '12px',
+                                borderTop: `1px solid ${theme.colors.border}`,
+                              }}
+                            >
+                              <span style={{ color: theme.colors.textSecondary, fontSize: '12px' }}>
+                                {refund.description || 'Refund'} · {formatDate(refund.createdAt)}
+                              </span>
+                              <span style={{ color: getStatusColor(refund.status), fontSize: '13px', fontWeight: '600', whiteSpace: 'nowrap' }}>
+                                +{formatCurrency(refund.amount)}
+                              </span>
+                            </div>
+                          ))}
                         </div>
                       </div>
                     )}
@@ -964,8 +1924,29 @@ const OrdersPage: React.FC = () => {
                       </span>
                     </div>
 
-                    {/* Cancel Order */}
-                    {orderDetails.status !== 'CANCELLED' && (
+                    {/* Invoice */}
+                    {orderDetails.status === 'COMPLETED' && (
+                      <button
+                        type="button"
+                        onClick={() => handleDownloadInvoice(orderDetails.id)}
+                        disabled={downloadingInvoice}
+                        style={{
+                          ...buttonStyle,
+                          width: '100%',
+                          justifyContent: 'center',
+                          marginBottom: '24px',
+                          backgroundColor: theme.colors.surfaceLight,
+                          color: theme.colors.text,
+                          cursor: downloadingInvoice ? 'not-allowed' : 'pointer',
+                        }}
+                      >
+                        <FiDownload />
+                        {downloadingInvoice ? 'Generating invoice...' : 'Download invoice (PDF)'}
+                      </button>
+                    )}
+
+                    {/* Cancel Order; orders awaiting a gateway payment are released when it fails or expires */}
+                    {orderDetails.status !== 'CANCELLED' && orderDetails.status !== 'AWAITING_PAYMENT' && (
                       <div style={{
                         backgroundColor: `${theme.colors.error}20`,
                         borderRadius: '12px',
@@ -11,9 +11,11 @@ import {
   FiClock,
   FiChevronLeft,
   FiChevronRight,
-  FiAlertCircle
+  FiAlertCircle,
+  FiDownload
 } from 'react-icons/fi';
 import { adminApi } from '../services/adminApi';
+import { saveBlob } from '../../lib/utils';
 import type { TransactionResult } from '../services/adminApi';
 
 const theme = {
@@ -351,6 +353,16 @@ const PaymentManagementPage: React.FC = () => {
     }
   };
 
+  const handleDownloadInvoice = async (transactionId: string) => {
+    try {
+      const blob = await adminApi.getTopUpInvoice(transactionId);
+      saveBlob(blob, `invoice-${transactionId.slice(0, 8)}.pdf`);
+    } catch (err) {
+      console.error('Failed to generate invoice:', err);
+      alert(err instanceof Error ? err.message : 'Failed to generate invoice');
+    }
+  };
+
   const clearFilters = () => {
     setMethod('');
     setStatus('');
@@ -883,6 +895,28 @@ const PaymentManagementPage: React.FC = () => {
                         })}
                       </td>
                       <td style={{ padding: '16px', textAlign: 'right' }}>
+                        {transaction.type === 'TOP_UP' &&
+                         transaction.status === 'COMPLETED' &&
+                         transaction.method && (
+                          <button
+                            type="button"
+                            onClick={() => handleDownloadInvoice(transaction.id)}
+                            title="Download invoice"
+                            style={{
+                              padding: '6px 12px',
+                              marginRight: '8px',
+                              borderRadius: '6px',
+                              border: `1px solid ${theme.colors.info}`,
+                              backgroundColor: 'transparent',
+                              color: theme.colors.info,
+                              cursor: 'pointer',
+                              fontSize: '12px',
+                              fontWeight: '500',
+                            }}
+                          >
+                            <FiDownload style={{ verticalAlign: 'middle' }} /> Invoice
+                          </button>
+                        )}
                         {transaction.type !== 'REFUND' && 
                          transaction.status === 'COMPLETED' && 
                          (transaction.type === 'TOP_UP' || transaction.type === 'PURCHASE') && (
@@ -0,0 +1,465 @@
+import React, { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import {
+  FiPlus,
+  FiEdit2,
+  FiTrash2,
+  FiX,
+  FiSave,
+  FiShield
+} from 'react-icons/fi';
+import { adminApi } from '../services/adminApi';
+import type { AdminRoleResponse, RolesOverviewResponse } from '../services/adminApi';
+
+const theme = {
+  colors: {
+    primary: '#10B981',
+    background: '#0a0a0a',
+    surface: '#141414',
+    surfaceLight: '#1a1a1a',
+    text: '#ffffff',
+    textSecondary: '#a0a0a0',
+    border: '#2a2a2a',
+    success: '#10B981',
+    error: '#EF4444',
+    warning: '#F59E0B',
+  },
+};
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '12px 16px',
+  backgroundColor: theme.colors.surfaceLight,
+  border: `1px solid ${theme.colors.border}`,
+  borderRadius: '8px',
+  color: theme.colors.text,
+  fontSize: '14px',
+  outline: 'none',
+};
+
+const buttonStyle: React.CSSProperties = {
+  padding: '12px 24px',
+  borderRadius: '8px',
+  border: 'none',
+  cursor: 'pointer',
+  fontWeight: '500',
+  fontSize: '14px',
+  display: 'flex',
+  alignItems: 'center',
+  gap: '8px',
+  transition: 'all 0.2s',
+};
+
+const chipStyle: React.CSSProperties = {
+  fontSize: '11px',
+  padding: '3px 8px',
+  borderRadius: '4px',
+  backgroundColor: theme.colors.surfaceLight,
+  color: theme.colors.textSecondary,
+  fontFamily: 'monospace',
+};
+
+const PermissionChips: React.FC<{ permissions: string[] }> = ({ permissions }) => (
+  <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px' }}>
+    {permissions.length > 0
+      ? permissions.map((permission) => (
+          <span key={permission} style={chipStyle}>{permission}</span>
+        ))
+      : <span style={{ color: theme.colors.textSecondary, fontSize: '13px' }}>—</span>}
+  </div>
+);
+
+const RolesPage: React.FC = () => {
+  const [overview, setOverview] = useState<RolesOverviewResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [showModal, setShowModal] = useState(false);
+  const [editingRole, setEditingRole] = useState<AdminRoleResponse | null>(null);
+  const [formData, setFormData] = useState<{ name: string; description: string; permissions: string[] }>({
+    name: '',
+    description: '',
+    permissions: [],
+  });
+  const [saving, setSaving] = useState(false);
+
+  const fetchRoles = async () => {
+    try {
+      setLoading(true);
+      setOverview(await adminApi.getRoles());
+    } catch (err) {
+      console.error('Failed to fetch roles:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchRoles();
+  }, []);
+
+  const handleCreate = () => {
+    setEditingRole(null);
+    setFormData({ name: '', description: '', permissions: [] });
+    setShowModal(true);
+  };
+
+  const handleEdit = (role: AdminRoleResponse) => {
+    setEditingRole(role);
+    setFormData({ name: role.name, description: role.description || '', permissions: role.permissions });
+    setShowModal(true);
+  };
+
+  const togglePermission = (permission: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      permissions: prev.permissions.includes(permission)
+        ? prev.permissions.filter((p) => p !== permission)
+        : [...prev.permissions, permission],
+    }));
+  };
+
+  const handleSave = async () => {
+    if (!formData.name.trim()) {
+      alert('Name is required');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      if (editingRole) {
+        await adminApi.updateRole(editingRole.id, formData);
+      } else {
+        await adminApi.createRole(formData);
+      }
+      setShowModal(false);
+      fetchRoles();
+    } catch (err) {
+      console.error('Failed to save role:', err);
+      alert(err instanceof Error ? err.message : 'Failed to save role');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (role: AdminRoleResponse) => {
+    const warning = role.userCount > 0
+      ? ` ${role.userCount} user(s) will keep only their built-in role.`
+      : '';
+    if (!confirm(`Delete role "${role.name}"?${warning}`)) {
+      return;
+    }
+
+    try {
+      await adminApi.deleteRole(role.id);
+      fetchRoles();
+    } catch (err) {
+      console.error('Failed to delete role:', err);
+      alert(err instanceof Error ? err.message : 'Failed to delete role');
+    }
+  };
+
+  const thStyle: React.CSSProperties = {
+    textAlign: 'left',
+    padding: '16px',
+    color: theme.colors.textSecondary,
+    fontSize: '13px',
+    fontWeight: '600',
+  };
+
+  const sectionStyle: React.CSSProperties = {
+    backgroundColor: theme.colors.surface,
+    borderRadius: '16px',
+    overflow: 'hidden',
+    border: `1px solid ${theme.colors.border}`,
+    marginBottom: '32px',
+  };
+
+  return (
+    <div>
+      <div style={{
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginBottom: '32px',
+      }}>
+        <div>
+          <h1 style={{
+            fontSize: '28px',
+            fontWeight: '700',
+            color: theme.colors.text,
+            marginBottom: '8px',
+          }}>
+            Roles & Permissions
+          </h1>
+          <p style={{ color: theme.colors.textSecondary }}>
+            Custom roles add permissions on top of a user's built-in staff role
+          </p>
+        </div>
+        <button
+          onClick={handleCreate}
+          style={{
+            ...buttonStyle,
+            backgroundColor: theme.colors.primary,
+            color: theme.colors.background,
+          }}
+        >
+          <FiPlus />
+          Create Role
+        </button>
+      </div>
+
+      {loading || !overview ? (
+        <div style={{ display: 'flex', justifyContent: 'center', padding: '60px' }}>
+          <motion.div
+            animate={{ rotate: 360 }}
+            transition={{ duration: 1, repeat: Infinity, ease: 'linear' }}
+            style={{
+              width: '40px',
+              height: '40px',
+              border: `3px solid ${theme.colors.border}`,
+              borderTopColor: theme.colors.primary,
+              borderRadius: '50%',
+            }}
+          />
+        </div>
+      ) : (
+        <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }}>
+          {/* Custom Roles */}
+          <div style={sectionStyle}>
+            <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+              <thead>
+                <tr style={{ borderBottom: `1px solid ${theme.colors.border}` }}>
+                  <th style={thStyle}>Custom Role</th>
+                  <th style={thStyle}>Permissions</th>
+                  <th style={{ ...thStyle, textAlign: 'center' }}>Users</th>
+                  <th style={{ ...thStyle, textAlign: 'right' }}>Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {overview.custom.map((role) => (
+                  <tr key={role.id} style={{ borderTop: `1px solid ${theme.colors.border}` }}>
+                    <td style={{ padding: '16px', verticalAlign: 'top' }}>
+                      <div style={{ color: theme.colors.text, fontWeight: '500' }}>{role.name}</div>
+                      {role.description && (
+                        <div style={{ color: theme.colors.textSecondary, fontSize: '13px', marginTop: '4px' }}>
+                          {role.description}
+                        </div>
+                      )}
+                    </td>
+                    <td style={{ padding: '16px' }}>
+                      <PermissionChips permissions={role.permissions} />
+                    </td>
+                    <td style={{ padding: '16px', textAlign: 'center', color: theme.colors.text }}>
+                      {role.userCount}
+                    </td>
+                    <td style={{ padding: '16px', textAlign: 'right' }}>
+                      <div style={{ display: 'flex', gap: '8px', justifyContent: 'flex-end' }}>
+                        <button
+                          onClick={() => handleEdit(role)}
+                          style={{
+                            padding: '8px',
+                            borderRadius: '6px',
+                            border: 'none',
+                            backgroundColor: theme.colors.surfaceLight,
+                            color: theme.colors.text,
+                            cursor: 'pointer',
+                          }}
+                          title="Edit"
+                        >
+                          <FiEdit2 size={16} />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(role)}
+                          style={{
+                            padding: '8px',
+                            borderRadius: '6px',
+                            border: 'none',
+                            backgroundColor: `${theme.colors.error}20`,
+                            color: theme.colors.error,
+                            cursor: 'pointer',
+                          }}
+                          title="Delete"
+                        >
+                          <FiTrash2 size={16} />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+                {overview.custom.length === 0 && (
+                  <tr>
+                    <td colSpan={4} style={{
+                      textAlign: 'center',
+                      padding: '40px',
+                      color: theme.colors.textSecondary,
+                    }}>
+                      No custom roles yet
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Built-in Roles */}
+          <div style={sectionStyle}>
+            <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+              <thead>
+                <tr style={{ borderBottom: `1px solid ${theme.colors.border}` }}>
+                  <th style={thStyle}>Built-in Role</th>
+                  <th style={thStyle}>Permissions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {overview.builtIn.map(({ role, permissions }) => (
+                  <tr key={role} style={{ borderTop: `1px solid ${theme.colors.border}` }}>
+                    <td style={{ padding: '16px', verticalAlign: 'top' }}>
+                      <span style={{ display: 'inline-flex', alignItems: 'center', gap: '8px', color: theme.colors.warning, fontWeight: '500' }}>
+                        <FiShield size={14} />
+                        {role}
+                      </span>
+                    </td>
+                    <td style={{ padding: '16px' }}>
+                      <PermissionChips permissions={permissions} />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </motion.div>
+      )}
+
+      {/* Create/Edit Modal */}
+      <AnimatePresence>
+        {showModal && overview && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            style={{
+              position: 'fixed',
+              inset: 0,
+              backgroundColor: 'rgba(0,0,0,0.8)',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              zIndex: 1000,
+              padding: '20px',
+            }}
+            onClick={() => setShowModal(false)}
+          >
+            <motion.div
+              initial={{ scale: 0.9, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              exit={{ scale: 0.9, opacity: 0 }}
+              onClick={(e) => e.stopPropagation()}
+              style={{
+                backgroundColor: theme.colors.surface,
+                borderRadius: '16px',
+                padding: '24px',
+                maxWidth: '600px',
+                width: '100%',
+                maxHeight: '90vh',
+                overflowY: 'auto',
+              }}
+            >
+              <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '24px' }}>
+                <h2 style={{ color: theme.colors.text, fontSize: '20px', fontWeight: '600' }}>
+                  {editingRole ? 'Edit Role' : 'Create Role'}
+                </h2>
+                <button
+                  onClick={() => setShowModal(false)}
+                  style={{
+                    padding: '8px',
+                    borderRadius: '6px',
+                    border: 'none',
+                    backgroundColor: 'transparent',
+                    color: theme.colors.textSecondary,
+                    cursor: 'pointer',
+                  }}
+                >
+                  <FiX size={20} />
+                </button>
+              </div>
+
+              <div style={{ display: 'grid', gap: '16px' }}>
+                <div>
+                  <label style={{ display: 'block', color: theme.colors.textSecondary, fontSize: '13px', marginBottom: '8px' }}>
+                    Name *
+                  </label>
+                  <input
+                    type="text"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    placeholder="Role name"
+                    style={inputStyle}
+                  />
+                </div>
+                <div>
+                  <label style={{ display: 'block', color: theme.colors.textSecondary, fontSize: '13px', marginBottom: '8px' }}>
+                    Description
+                  </label>
+                  <input
+                    type="text"
+                    value={formData.description}
+                    onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                    placeholder="What this role is for (optional)"
+                    style={inputStyle}
+                  />
+                </div>
+                <div>
+                  <label style={{ display: 'block', color: theme.colors.textSecondary, fontSize: '13px', marginBottom: '8px' }}>
+                    Permissions
+                  </label>
+                  <div style={{ display: 'grid', gridTemplateColumns: 'repeat(2, 1fr)', gap: '8px' }}>
+                    {overview.permissions.map((permission) => (
+                      <label
+                        key={permission}
+                        style={{ display: 'flex', alignItems: 'center', gap: '8px', color: theme.colors.text, fontSize: '13px', cursor: 'pointer' }}
+                      >
+                        <input
+                          type="checkbox"
+                          checked={formData.permissions.includes(permission)}
+                          onChange={() => togglePermission(permission)}
+                        />
+                        <span style={{ fontFamily: 'monospace' }}>{permission}</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              </div>
+
+              <div style={{ display: 'flex', gap: '12px', justifyContent: 'flex-end', marginTop: '24px' }}>
+                <button
+                  onClick={() => setShowModal(false)}
+                  style={{
+                    ...buttonStyle,
+                    backgroundColor: theme.colors.surfaceLight,
+                    color: theme.colors.text,
+                  }}
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleSave}
+                  disabled={saving || !formData.name.trim()}
+                  style={{
+                    ...buttonStyle,
+                    backgroundColor: saving || !formData.name.trim() ? theme.colors.surface : theme.colors.primary,
+                    color: saving || !formData.name.trim() ? theme.colors.textSecondary : theme.colors.background,
+                    cursor: saving || !formData.name.trim() ? 'not-allowed' : 'pointer',
+                  }}
+                >
+                  <FiSave />
+                  {saving ? 'Saving...' : 'Save'}
+                </button>
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default RolesPage;
@@ -509,6 +509,11 @@ const TransactionsPage: React.FC = () => {
                       color: tx.type === 'TOP_UP' ? theme.colors.success : theme.colors.text,
                     }}>
                       {tx.type === 'TOP_UP' ? '+' : ''}{formatCurrency(tx.amount)}
+                      {tx.originalCurrency && (
+                        <div style={{ fontSize: '12px', fontWeight: '400', color: theme.colors.textSecondary }}>
+                          {tx.originalAmount} {tx.originalCurrency} at {tx.exchangeRate}
+                        </div>
+                      )}
                     </td>
                     <td style={{ padding: '16px', textAlign: 'center' }}>
                       {tx.method ? (
@@ -18,10 +18,15 @@ import {
   FiCreditCard,
   FiCheckCircle,
   FiXCircle,
-  FiTrash2
+  FiTrash2,
+  FiLock,
+  FiUnlock
 } from 'react-icons/fi';
 import { adminApi } from '../services/adminApi';
-import type { UserSearchResult, UserDetails } from '../services/adminApi';
+import type { UserSearchResult, UserDetails, UserRole, AdminRoleResponse } from '../services/adminApi';
+import { useAuth } from '../../context/AuthContext';
+
+const USER_ROLES: UserRole[] = ['USER', 'SUPPORT', 'CONTENT_EDITOR', 'FINANCE', 'ADMIN', 'SUPERADMIN'];
 
 const theme = {
   colors: {
@@ -95,11 +100,14 @@ const getStatusColor = (status: string) => {
 
 const UsersPage: React.FC = () => {
   const [users, setUsers] = useState<UserSearchResult['users']>([]);
+  const { user: currentUser } = useAuth();
+  const canManageRoles = currentUser?.permissions?.includes('users:roles') ?? false;
   const [loading, setLoading] = useState(true);
   const [page, setPage] = useState(1);
   const [totalPages, setTotalPages] = useState(1);
   const [total, setTotal] = useState(0);
   const [search, setSearch] = useState('');
+  const [lockedOnly, setLockedOnly] = useState(false);
   const [searchInput, setSearchInput] = useState('');
   const [selectedUser, setSelectedUser] = useState<UserDetails | null>(null);
   const [loadingDetails, setLoadingDetails] = useState(false);
@@ -130,7 +138,9 @@ const UsersPage: React.FC = () => {
   const [balanceAmount, setBalanceAmount] = useState('');
   const [balanceReason, setBalanceReason] = useState('');
   const [updatingBalance, setUpdatingBalance] = useState(false);
-  const [selectedRole, setSelectedRole] = useState<'USER' | 'ADMIN' | null>(null);
+  const [selectedRole, setSelectedRole] = useState<UserRole | null>(null);
+  const [selectedAdminRoleId, setSelectedAdminRoleId] = useState('');
+  const [customRoles, setCustomRoles] = useState<AdminRoleResponse[]>([]);
   const [updatingRole, setUpdatingRole] = useState(false);
   const [activeTab, setActiveTab] = useState<'details' | 'activity'>('details');
   const [editingUser, setEditingUser] = useState<{
@@ -147,6 +157,7 @@ const UsersPage: React.FC = () => {
       setLoading(true);
       const result = await adminApi.searchUsers({
         query: search || undefined,
+        locked: lockedOnly || undefined,
         page,
         pageSize: 20,
       });
@@ -162,7 +173,15 @@ const UsersPage: React.FC = () => {
 
   useEffect(() => {
     fetchUsers();
-  }, [page, search]);
+  }, [page, search, lockedOnly]);
+
+  useEffect(() => {
+    if (!canManageRoles) return;
+    adminApi
+      .getRoles()
+      .then((roles) => setCustomRoles(roles.custom))
+      .catch((err) => console.error('Failed to fetch roles:', err));
+  }, [canManageRoles]);
 
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
@@ -185,7 +204,8 @@ const UsersPage: React.FC = () => {
       ]);
       setSelectedUser(details);
       setUserActivity(activity);
-      setSelectedRole(details.role as 'USER' | 'ADMIN');
+      setSelectedRole(details.role as UserRole);
+      setSelectedAdminRoleId(details.adminRole?.id || '');
     } catch (err) {
       console.error('Failed to fetch user details:', err);
     } finally {
@@ -227,25 +247,48 @@ const UsersPage: React.FC = () => {
     }
   };
 
-  const handleUpdateRole = async (userId: string, newRole: 'USER' | 'ADMIN') => {
+  const handleUpdateRole = async (userId: string, newRole: UserRole) => {
     if (!confirm(`Change user role to ${newRole}?`)) {
       return;
     }
 
     try {
       setUpdatingRole(true);
-      await adminApi.updateUser(userId, { role: newRole });
+      // Customers cannot hold a custom admin role
+      await adminApi.updateUserRole(
+        userId,
+        newRole,
+        newRole === 'USER' ? null : selectedAdminRoleId || null
+      );
       alert(`User role updated to ${newRole}`);
       await handleViewUser(userId); // Refresh user details
       fetchUsers(); // Refresh user list
     } catch (err) {
       console.error('Failed to update role:', err);
-      alert('Failed to update role');
+      alert(err instanceof Error ? err.message : 'Failed to update role');
     } finally {
       setUpdatingRole(false);
     }
   };
 
+  const roleUnchanged =
+    selectedRole === selectedUser?.role &&
+    selectedAdminRoleId === (selectedUser?.adminRole?.id || '');
+
+  const handleUnlockUser = async (userId: string) => {
+    if (!confirm('Unlock this account? The failed login counter will be reset.')) {
+      return;
+    }
+
+    try {
+      await adminApi.unlockUser(userId);
+      fetchUsers(); // Refresh user list
+    } catch (err) {
+      console.error('Failed to unlock user:', err);
+      alert('Failed to unlock user');
+    }
+  };
+
   const handleEditUser = (user: UserDetails) => {
     setEditingUser({
       nickname: user.nickname,
@@ -389,6 +432,20 @@ const UsersPage: React.FC = () => {
               Clear
             </button>
           )}
+          <button
+            type="button"
+            onClick={() => { setPage(1); setLockedOnly(!lockedOnly); }}
+            style={{
+              ...buttonStyle,
+              backgroundColor: lockedOnly ? `${theme.colors.error}20` : 'transparent',
+              border: `1px solid ${lockedOnly ? theme.colors.error : theme.colors.border}`,
+              color: lockedOnly ? theme.colors.error : theme.colors.text,
+              whiteSpace: 'nowrap',
+            }}
+          >
+            <FiLock size={14} />
+            Locked only
+          </button>
         </div>
       </form>
 
@@ -549,16 +606,41 @@ const UsersPage: React.FC = () => {
                         fontSize: '11px',
                         padding: '4px 10px',
                         borderRadius: '4px',
-                        backgroundColor: user.role === 'ADMIN' 
+                        backgroundColor: user.role !== 'USER' 
                           ? `${theme.colors.warning}20`
                           : `${theme.colors.info}20`,
-                        color: user.role === 'ADMIN' 
+                        color: user.role !== 'USER' 
                           ? theme.colors.warning
                           : theme.colors.info,
                         textTransform: 'uppercase',
                       }}>
                         {user.role}
                       </span>
+                      {user.adminRole && (
+                        <div style={{ color: theme.colors.textSecondary, fontSize: '11px', marginTop: '4px' }}>
+                          + {user.adminRole.name}
+                        </div>
+                      )}
+                      {user.lockedUntil && (
+                        <span
+                          title={`Locked until ${new Date(user.lockedUntil).toLocaleString()}`}
+                          style={{
+                            display: 'inline-flex',
+                            alignItems: 'center',
+                            gap: '4px',
+                            marginLeft: '6px',
+                            fontSize: '11px',
+                            padding: '4px 10px',
+                            borderRadius: '4px',
+                            backgroundColor: `${theme.colors.error}20`,
+                            color: theme.colors.error,
+                            textTransform: 'uppercase',
+                          }}
+                        >
+                          <FiLock size={10} />
+                          Locked
+                        </span>
+                      )}
                     </td>
                     <td style={{ 
                       padding: '16px',
@@ -597,6 +679,22 @@ const UsersPage: React.FC = () => {
                         >
                           <FiDownload size={16} />
                         </button>
+                        {user.lockedUntil && (
+                          <button
+                            onClick={() => handleUnlockUser(user.id)}
+                            style={{
+                              padding: '8px',
+                              borderRadius: '6px',
+                              border: 'none',
+                              backgroundColor: `${theme.colors.warning}20`,
+                              color: theme.colors.warning,
+                              cursor: 'pointer',
+                            }}
+                            title="Unlock Account"
+                          >
+                            <FiUnlock size={16} />
+                          </button>
+                        )}
                       </div>
                     </td>
                   </tr>
@@ -854,6 +952,7 @@ const UsersPage: React.FC = () => {
                             </div>
                             <p style={{ color: theme.colors.text, fontSize: '14px', fontWeight: '500', textTransform: 'uppercase' }}>
                               {selectedUser.role}
+                              {selectedUser.adminRole && ` + ${selectedUser.adminRole.name}`}
                             </p>
                           </div>
                           <div style={{
@@ -1055,6 +1154,7 @@ const UsersPage: React.FC = () => {
                         </div>
 
                         {/* Role Update */}
+                        {canManageRoles && selectedUser.id !== currentUser?.id && (
                         <div style={{
                           backgroundColor: theme.colors.surfaceLight,
                           borderRadius: '12px',
@@ -1067,25 +1167,41 @@ const UsersPage: React.FC = () => {
                           <div style={{ display: 'flex', gap: '12px', alignItems: 'center' }}>
                             <select
                               value={selectedRole || selectedUser.role}
-                              onChange={(e) => setSelectedRole(e.target.value as 'USER' | 'ADMIN')}
+                              onChange={(e) => setSelectedRole(e.target.value as UserRole)}
+                              style={{
+                                ...inputStyle,
+                                width: '200px',
+                              }}
+                            >
+                              {USER_ROLES.map((role) => (
+                                <option key={role} value={role}>{role}</option>
+                              ))}
+                            </select>
+                            <select
+                              value={selectedAdminRoleId}
+                              onChange={(e) => setSelectedAdminRoleId(e.target.value)}
+                              disabled={selectedRole === 'USER'}
+                              title="Custom role granting extra permissions"
                               style={{
                                 ...inputStyle,
                                 width: '200px',
                               }}
                             >
-                              <option value="USER">USER</option>
-                              <option value="ADMIN">ADMIN</option>
+                              <option value="">No custom role</option>
+                              {customRoles.map((role) => (
+                                <option key={role.id} value={role.id}>{role.name}</option>
+                              ))}
                             </select>
                             <button
                               type="button"
                               onClick={() => selectedRole && handleUpdateRole(selectedUser.id, selectedRole)}
-                              disabled={updatingRole || !selectedRole || selectedRole === selectedUser.role}
+                              disabled={updatingRole || !selectedRole || roleUnchanged}
                               style={{
                                 ...buttonStyle,
-                                backgroundColor: updatingRole || !selectedRole || selectedRole === selectedUser.role ? theme.colors.surface : theme.colors.warning,
-                                color: updatingRole || !selectedRole || selectedRole === selectedUser.role ? theme.colors.textSecondary : '#ffffff',
-                                cursor: updatingRole || !selectedRole || selectedRole === selectedUser.role ? 'not-allowed' : 'pointer',
-                                opacity: updatingRole || !selectedRole || selectedRole === selectedUser.role ? 0.6 : 1,
+                                backgroundColor: updatingRole || !selectedRole || roleUnchanged ? theme.colors.surface : theme.colors.warning,
+                                color: updatingRole || !selectedRole || roleUnchanged ? theme.colors.textSecondary : '#ffffff',
+                                cursor: updatingRole || !selectedRole || roleUnchanged ? 'not-allowed' : 'pointer',
+                                opacity: updatingRole || !selectedRole || roleUnchanged ? 0.6 : 1,
                               }}
                             >
                               <FiSave />
@@ -1093,6 +1209,7 @@ const UsersPage: React.FC = () => {
                             </button>
                           </div>
                         </div>
+                        )}
 
                         {/* Delete User */}
                         <div style={{
@@ -25,9 +25,19 @@ export type {
   BalanceUpdateRequest,
   BalanceUpdateResult,
   RoleUpdateRequest,
+  AdminRoleInput,
+  AdminRoleResponse,
+  RolesOverviewResponse,
   ActivityFilters,
   UserActivity,
 } from '../../../backend/src/types/admin';
+import type {
+  AdminRoleInput,
+  AdminRoleResponse,
+  RolesOverviewResponse,
+} from '../../../backend/src/types/admin';
+
+export type UserRole = 'USER' | 'ADMIN' | 'SUPERADMIN' | 'SUPPORT' | 'CONTENT_EDITOR' | 'FINANCE';
 
 export interface DashboardStats {
   totalUsers: number;
@@ -68,6 +78,36 @@ export interface DashboardStats {
     count: number;
     revenue: number;
   }[];
+  reconciliation: {
+    stuckOrders: number;
+    runs: ReconciliationReport[];
+  };
+}
+
+export interface ReconciliationEntry {
+  orderId: string;
+  action: 'COMPLETED' | 'RETRIED' | 'REFUNDED' | 'SKIPPED' | 'FAILED';
+  status: string;
+  recoveredKeys: number;
+  deliveredKeys: number;
+  refundedUnits: number;
+  refundedAmount: number;
+  notes: string[];
+}
+
+export interface ReconciliationReport {
+  id?: string;
+  trigger: 'SCHEDULED' | 'MANUAL';
+  triggeredBy?: string;
+  checked: number;
+  completed: number;
+  retried: number;
+  refunded: number;
+  skipped: number;
+  failed: number;
+  entries: ReconciliationEntry[];
+  startedAt: string;
+  finishedAt: string;
 }
 
 export interface UserSearchResult {
@@ -81,6 +121,10 @@ export interface UserSearchResult {
     role: string;
     createdAt: string;
     ordersCount: number;
+    // Set while the account is locked after too many failed logins
+    lockedUntil?: string;
+    // Custom role adding permissions on top of the built-in one
+    adminRole?: { id: string; name: string };
   }[];
   total: number;
   page: number;
@@ -96,6 +140,7 @@ export interface UserDetails {
   lastName?: string;
   balance: number;
   role: string;
+  adminRole?: { id: string; name: string };
   createdAt: string;
   orders: {
     id: string;
@@ -129,6 +174,10 @@ export interface TransactionResult {
     type: string;
     amount: number;
     currency: string;
+    // Set when the amount was converted from another currency
+    originalAmount?: number;
+    originalCurrency?: string;
+    exchangeRate?: number;
     method?: string;
     status: string;
     description?: string;
@@ -211,6 +260,34 @@ export interface OrdersResult {
   totalPages: number;
 }
 
+export type FulfillmentStatus = 'PENDING' | 'FULFILLED' | 'FAILED' | 'REFUNDED';
+
+export interface OrderTransaction {
+  id: string;
+  type: string;
+  amount: number;
+  currency: string;
+  method?: string;
+  status: string;
+  description?: string;
+  transactionHash?: string;
+  createdAt: string;
+}
+
+export interface OrderStatusHistoryEntry {
+  id: string;
+  fromStatus?: OrderDetails['status'];
+  toStatus: OrderDetails['status'];
+  actorType: 'CUSTOMER' | 'ADMIN' | 'SYSTEM' | 'WEBHOOK';
+  reason?: string;
+  actor?: {
+    id: string;
+    email: string;
+    nickname?: string;
+  };
+  createdAt: string;
+}
+
 export interface OrderDetails {
   id: string;
   userId: string;
@@ -221,7 +298,7 @@ export interface OrderDetails {
     firstName?: string;
     lastName?: string;
   };
-  status: 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
+  status: 'PENDING' | 'AWAITING_PAYMENT' | 'PREORDER' | 'ON_HOLD' | 'PROCESSING' | 'PARTIALLY_COMPLETED' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
   subtotal: number;
   discount: number;
   total: number;
@@ -244,20 +321,244 @@ export interface OrderDetails {
     quantity: number;
     price: number;
     discount: number;
+    // Keys are masked; the plaintext comes from revealGameKey
     key?: string;
     keyActivated: boolean;
+    keys: { id: string; key: string; activated: boolean }[];
+    fulfillmentStatus: FulfillmentStatus;
+    fulfilledQuantity: number;
+    refundedQuantity: number;
+    supplierOrderIds: string[];
+    fulfillmentError?: string;
+    fulfilledAt?: string;
   }[];
-  transaction?: {
+  transaction?: OrderTransaction;
+  refunds: OrderTransaction[];
+  gift?: {
+    recipientEmail: string;
+    senderName: string;
+    message?: string;
+    deliverAt: string;
+    sentAt?: string;
+    openedAt?: string;
+    redeemedAt?: string;
+  };
+  allowedTransitions: OrderDetails['status'][];
+  statusHistory: OrderStatusHistoryEntry[];
+  risk?: {
+    score: number;
+    threshold: number;
+    held: boolean;
+    signals: RiskSignal[];
+    decision?: 'APPROVED' | 'REJECTED';
+    reviewedBy?: string;
+    reviewNote?: string;
+    reviewedAt?: string;
+  };
+}
+
+export type ClaimStatus = 'OPEN' | 'REPLACED' | 'REFUNDED' | 'REJECTED';
+
+export interface AdminClaim {
+  id: string;
+  orderId: string;
+  orderItemId: string;
+  game: { id: string; title: string };
+  user: { id: string; email: string; nickname?: string };
+  type: 'KEY_NOT_WORKING' | 'REFUND_REQUEST';
+  status: ClaimStatus;
+  reason: string;
+  maskedKey?: string;
+  hasScreenshot: boolean;
+  // Only returned by getClaimDetails
+  screenshot?: string;
+  resolutionNote?: string;
+  replacementKey?: string;
+  refundAmount?: number;
+  resolvedAt?: string;
+  createdAt: string;
+  events: {
     id: string;
-    type: string;
-    amount: number;
-    currency: string;
-    method?: string;
-    status: string;
-    description?: string;
-    transactionHash?: string;
+    status: ClaimStatus;
+    actorType: OrderStatusHistoryEntry['actorType'];
+    note?: string;
+    actor?: { id: string; email: string; nickname?: string };
+    createdAt: string;
+  }[];
+}
+
+export interface ClaimsResult {
+  claims: AdminClaim[];
+  total: number;
+  page: number;
+  totalPages: number;
+}
+
+export interface AdminPreorder {
+  id: string;
+  user: { id: string; email: string; nickname?: string };
+  total: number;
+  items: {
+    gameId: string;
+    title: string;
+    quantity: number;
+    releaseDate: string;
+    released: boolean;
+  }[];
+  // Delivered by the next run of the preorder job
+  ready: boolean;
+  createdAt: string;
+}
+
+export interface PreordersResult {
+  preorders: AdminPreorder[];
+  games: {
+    gameId: string;
+    title: string;
+    releaseDate: string;
+    orders: number;
+    units: number;
+    poolKeys: number;
+  }[];
+  total: number;
+  page: number;
+  totalPages: number;
+}
+
+export interface PreorderReleaseResult {
+  orderId: string;
+  status?: string;
+  delivered?: number;
+  error?: string;
+}
+
+export interface RiskSignal {
+  rule: string;
+  points: number;
+  detail: string;
+}
+
+export interface RiskReviewOrder {
+  orderId: string;
+  user: {
+    id: string;
+    email: string;
+    nickname?: string;
+    emailVerified: boolean;
     createdAt: string;
   };
+  total: number;
+  items: { gameId: string; title: string; quantity: number; price: number }[];
+  score: number;
+  threshold: number;
+  signals: RiskSignal[];
+  createdAt: string;
+}
+
+export interface RiskReviewResult {
+  orders: RiskReviewOrder[];
+  total: number;
+  page: number;
+  totalPages: number;
+}
+
+export interface RiskReviewDecision {
+  orderId: string;
+  decision: 'APPROVED' | 'REJECTED';
+  status: string;
+}
+
+export interface FraudRule {
+  id: string;
+  label: string;
+  description: string;
+  enabled: boolean;
+  points: number;
+  params: { key: string; label: string; value: number }[];
+}
+
+export interface FraudSettings {
+  holdThreshold: number;
+  rules: FraudRule[];
+  updatedAt?: string;
+}
+
+export interface FraudSettingsUpdate {
+  holdThreshold?: number;
+  rules?: Record<string, { enabled?: boolean; points?: number; params?: Record<string, number> }>;
+}
+
+export type DeadLetterStatus = 'OPEN' | 'RETRIED' | 'REFUNDED';
+export type FulfillmentSupplier = 'G2A' | 'POOL';
+
+export interface FulfillmentAttempt {
+  attempt: number;
+  source: 'QUEUE' | 'SYNC' | 'RETRY';
+  error: string;
+  supplier?: FulfillmentSupplier;
+  failedAt?: string;
+}
+
+export interface DeadLetter {
+  id: string;
+  orderId: string;
+  source: 'QUEUE' | 'SYNC';
+  jobId?: string;
+  status: DeadLetterStatus;
+  error: string;
+  attempts: FulfillmentAttempt[];
+  payload: Record<string, unknown>;
+  order: { status: string; total: number; userEmail: string; createdAt: string };
+  items: {
+    id: string;
+    gameId: string;
+    title: string;
+    quantity: number;
+    outstanding: number;
+    fulfillmentStatus: string;
+    fulfillmentError?: string;
+    hasG2AProduct: boolean;
+    poolKeys: number;
+  }[];
+  resolvedBy?: string;
+  resolvedAt?: string;
+  resolveNote?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DeadLetterActionResult {
+  deadLetter: DeadLetter;
+  orderStatus: string;
+  delivered: number;
+  refundedUnits: number;
+  refundedAmount: number;
+}
+
+export interface ExchangeRate {
+  id: string;
+  currency: string;
+  // Units of the currency per 1 EUR
+  rate: number;
+  source: 'PROVIDER' | 'MANUAL';
+  provider?: string;
+  note?: string;
+  createdBy?: string;
+  // When the provider published the rate; ageHours counts from here
+  effectiveAt: string;
+  createdAt: string;
+}
+
+export interface CurrentExchangeRate extends ExchangeRate {
+  ageHours: number;
+  stale: boolean;
+}
+
+export interface ExchangeRateOverview {
+  baseCurrency: 'EUR';
+  maxRateAgeHours: number;
+  provider: string;
+  rates: CurrentExchangeRate[];
 }
 
 export interface GameCreateInput {
@@ -277,6 +578,36 @@ export interface GameCreateInput {
   inStock?: boolean;
 }
 
+export type KeyImportRowStatus =
+  | 'VALID'
+  | 'INVALID_FORMAT'
+  | 'DUPLICATE_IN_FILE'
+  | 'DUPLICATE_EXISTING'
+  | 'IMPORTED'
+  | 'FAILED';
+
+export interface KeyImportReport {
+  fileName: string;
+  game: { id: string; title: string };
+  format: { service: string; example: string } | null;
+  dryRun: boolean;
+  summary: {
+    total: number;
+    valid: number;
+    invalidFormat: number;
+    duplicateInFile: number;
+    duplicateExisting: number;
+    imported: number;
+    failed: number;
+  };
+  rows: Array<{
+    line: number;
+    maskedKey: string;
+    status: KeyImportRowStatus;
+    message?: string;
+  }>;
+}
+
 export interface BlogPostCreateInput {
   title: string;
   slug: string;
@@ -302,6 +633,7 @@ export const adminApi = {
     query?: string;
     email?: string;
     name?: string;
+    locked?: boolean;
     page?: number;
     pageSize?: number;
   }): Promise<UserSearchResult> => {
@@ -309,6 +641,7 @@ export const adminApi = {
     if (filters?.query) params.query = filters.query;
     if (filters?.email) params.email = filters.email;
     if (filters?.name) params.name = filters.name;
+    if (filters?.locked) params.locked = 'true';
     if (filters?.page) params.page = filters.page.toString();
     if (filters?.pageSize) params.pageSize = filters.pageSize.toString();
 
@@ -330,7 +663,7 @@ export const adminApi = {
     nickname?: string;
     firstName?: string;
     lastName?: string;
-    role?: 'USER' | 'ADMIN';
+    role?: UserRole;
     balance?: number;
   }): Promise<UserDetails> => {
     const response = await apiClient.put<{ success: boolean; data: UserDetails }>(
@@ -583,6 +916,19 @@ export const adminApi = {
     await apiClient.delete(`/api/admin/tags/${id}`);
   },
 
+  // Issues the invoice first if the order has none yet
+  getOrderInvoice: async (orderId: string): Promise<Blob> => {
+    return apiClient.get<Blob>(`/api/admin/orders/${orderId}/invoice`, {
+      responseType: 'blob',
+    });
+  },
+
+  getTopUpInvoice: async (transactionId: string): Promise<Blob> => {
+    return apiClient.get<Blob>(`/api/admin/payments/transactions/${transactionId}/invoice`, {
+      responseType: 'blob',
+    });
+  },
+
   exportUserReport: async (id: string): Promise<Blob> => {
     const response = await apiClient.get<Blob>(`/api/admin/users/${id}/export`, {
       responseType: 'blob',
@@ -779,10 +1125,11 @@ export const adminApi = {
   },
 
   updateOrder: async (id: string, data: {
-    status?: 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
+    status?: OrderDetails['status'];
     paymentStatus?: 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
     paymentMethod?: string;
     promoCode?: string;
+    reason?: string;
   }): Promise<{ id: string; status: string; paymentStatus?: string; paymentMethod?: string }> => {
     const response = await apiClient.put<{ success: boolean; data: { id: string; status: string; paymentStatus?: string; paymentMethod?: string } }>(
       `/api/admin/orders/${id}`,
@@ -795,6 +1142,218 @@ export const adminApi = {
     await apiClient.post(`/api/admin/orders/${id}/cancel`, { reason });
   },
 
+  retryOrderItem: async (
+    orderId: string,
+    itemId: string
+  ): Promise<{ result: { delivered: number; error?: string }; order: OrderDetails }> => {
+    const response = await apiClient.post<{
+      success: boolean;
+      data: { result: { delivered: number; error?: string }; order: OrderDetails };
+    }>(`/api/admin/orders/${orderId}/items/${itemId}/retry`);
+    return response.data;
+  },
+
+  refundOrderItem: async (
+    orderId: string,
+    itemId: string,
+    reason?: string
+  ): Promise<{ result: { units: number; amount: number }; order: OrderDetails }> => {
+    const response = await apiClient.post<{
+      success: boolean;
+      data: { result: { units: number; amount: number }; order: OrderDetails };
+    }>(`/api/admin/orders/${orderId}/items/${itemId}/refund`, { reason });
+    return response.data;
+  },
+
+  getClaims: async (filters?: {
+    status?: ClaimStatus;
+    orderId?: string;
+    page?: number;
+    limit?: number;
+  }): Promise<ClaimsResult> => {
+    const params: Record<string, string> = {};
+    if (filters?.status) params.status = filters.status;
+    if (filters?.orderId) params.orderId = filters.orderId;
+    if (filters?.page) params.page = filters.page.toString();
+    if (filters?.limit) params.limit = filters.limit.toString();
+
+    const response = await apiClient.get<{ success: boolean; data: ClaimsResult }>(
+      '/api/admin/claims',
+      { params }
+    );
+    return response.data;
+  },
+
+  getClaimDetails: async (id: string): Promise<AdminClaim> => {
+    const response = await apiClient.get<{ success: boolean; data: AdminClaim }>(
+      `/api/admin/claims/${id}`
+    );
+    return response.data;
+  },
+
+  /**
+   * Resolve a claim with a new key from the local key pool
+   */
+  replaceClaimKey: async (id: string, note?: string): Promise<AdminClaim> => {
+    const response = await apiClient.post<{ success: boolean; data: AdminClaim }>(
+      `/api/admin/claims/${id}/replace`,
+      { note }
+    );
+    return response.data;
+  },
+
+  /**
+   * Resolve a claim by refunding one unit of the item to the customer balance
+   */
+  refundClaim: async (id: string, note?: string): Promise<AdminClaim> => {
+    const response = await apiClient.post<{ success: boolean; data: AdminClaim }>(
+      `/api/admin/claims/${id}/refund`,
+      { note }
+    );
+    return response.data;
+  },
+
+  rejectClaim: async (id: string, note: string): Promise<AdminClaim> => {
+    const response = await apiClient.post<{ success: boolean; data: AdminClaim }>(
+      `/api/admin/claims/${id}/reject`,
+      { note }
+    );
+    return response.data;
+  },
+
+  getPreorders: async (page = 1, limit = 20): Promise<PreordersResult> => {
+    const response = await apiClient.get<{ success: boolean; data: PreordersResult }>(
+      '/api/admin/preorders',
+      { params: { page: page.toString(), limit: limit.toString() } }
+    );
+    return response.data;
+  },
+
+  releasePreorders: async (orderIds: string[]): Promise<PreorderReleaseResult[]> => {
+    const response = await apiClient.post<{ success: boolean; data: PreorderReleaseResult[] }>(
+      '/api/admin/preorders/release',
+      { orderIds }
+    );
+    return response.data;
+  },
+
+  getRiskReviewQueue: async (page = 1, limit = 20): Promise<RiskReviewResult> => {
+    const response = await apiClient.get<{ success: boolean; data: RiskReviewResult }>(
+      '/api/admin/risk-review',
+      { params: { page: page.toString(), limit: limit.toString() } }
+    );
+    return response.data;
+  },
+
+  approveHeldOrder: async (id: string, note?: string): Promise<RiskReviewDecision> => {
+    const response = await apiClient.post<{ success: boolean; data: RiskReviewDecision }>(
+      `/api/admin/risk-review/${id}/approve`,
+      { note }
+    );
+    return response.data;
+  },
+
+  rejectHeldOrder: async (id: string, reason: string): Promise<RiskReviewDecision> => {
+    const response = await apiClient.post<{ success: boolean; data: RiskReviewDecision }>(
+      `/api/admin/risk-review/${id}/reject`,
+      { reason }
+    );
+    return response.data;
+  },
+
+  runOrderReconciliation: async (): Promise<ReconciliationReport> => {
+    const response = await apiClient.post<{ success: boolean; data: ReconciliationReport }>(
+      '/api/admin/reconciliation/run'
+    );
+    return response.data;
+  },
+
+  getFraudSettings: async (): Promise<FraudSettings> => {
+    const response = await apiClient.get<{ success: boolean; data: FraudSettings }>(
+      '/api/admin/fraud-settings'
+    );
+    return response.data;
+  },
+
+  updateFraudSettings: async (data: FraudSettingsUpdate): Promise<FraudSettings> => {
+    const response = await apiClient.put<{ success: boolean; data: FraudSettings }>(
+      '/api/admin/fraud-settings',
+      data
+    );
+    return response.data;
+  },
+
+  getDeadLetters: async (status: DeadLetterStatus = 'OPEN', page = 1): Promise<{
+    deadLetters: DeadLetter[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }> => {
+    const params = new URLSearchParams({ status, page: page.toString() });
+    const response = await apiClient.get<{
+      success: boolean;
+      data: { deadLetters: DeadLetter[]; total: number; page: number; limit: number; totalPages: number };
+    }>(`/api/admin/dead-letters?${params.toString()}`);
+    return response.data;
+  },
+
+  retryDeadLetter: async (id: string, supplier?: FulfillmentSupplier): Promise<DeadLetterActionResult> => {
+    const response = await apiClient.post<{ success: boolean; data: DeadLetterActionResult }>(
+      `/api/admin/dead-letters/${id}/retry`,
+      { supplier }
+    );
+    return response.data;
+  },
+
+  refundDeadLetter: async (id: string, reason?: string): Promise<DeadLetterActionResult> => {
+    const response = await apiClient.post<{ success: boolean; data: DeadLetterActionResult }>(
+      `/api/admin/dead-letters/${id}/refund`,
+      { reason }
+    );
+    return response.data;
+  },
+
+  getExchangeRates: async (): Promise<ExchangeRateOverview> => {
+    const response = await apiClient.get<{ success: boolean; data: ExchangeRateOverview }>(
+      '/api/admin/exchange-rates'
+    );
+    return response.data;
+  },
+
+  getExchangeRateHistory: async (currency: string): Promise<ExchangeRate[]> => {
+    const response = await apiClient.get<{ success: boolean; data: ExchangeRate[] }>(
+      `/api/admin/exchange-rates/${currency}/history`
+    );
+    return response.data;
+  },
+
+  setExchangeRate: async (data: { currency: string; rate: number; note?: string }): Promise<ExchangeRate> => {
+    const response = await apiClient.post<{ success: boolean; data: ExchangeRate }>(
+      '/api/admin/exchange-rates',
+      data
+    );
+    return response.data;
+  },
+
+  refreshExchangeRates: async (): Promise<{ provider: string; updated: string[]; unchanged: string[] }> => {
+    const response = await apiClient.post<{
+      success: boolean;
+      data: { provider: string; updated: string[]; unchanged: string[] };
+    }>(
+      '/api/admin/exchange-rates/refresh'
+    );
+    return response.data;
+  },
+
+  updateExchangeRateSettings: async (data: { maxRateAgeHours: number }): Promise<ExchangeRateOverview> => {
+    const response = await apiClient.put<{ success: boolean; data: ExchangeRateOverview }>(
+      '/api/admin/exchange-rates/settings',
+      data
+    );
+    return response.data;
+  },
+
   updateOrderStatus: async (id: string, status: string): Promise<{ id: string; status: string }> => {
     const response = await apiClient.put<{ success: boolean; data: { id: string; status: string } }>(
       `/api/admin/orders/${id}/status`,
@@ -1584,8 +2143,44 @@ export const adminApi = {
     return response.data;
   },
 
-  updateUserRole: async (userId: string, role: 'USER' | 'ADMIN'): Promise<void> => {
-    await apiClient.put(`/api/admin/users/${userId}/role`, { role });
+  updateUserRole: async (
+    userId: string,
+    role: UserRole,
+    adminRoleId?: string | null
+  ): Promise<void> => {
+    await apiClient.put(`/api/admin/users/${userId}/role`, { role, adminRoleId });
+  },
+
+  // Admin Roles
+  getRoles: async (): Promise<RolesOverviewResponse> => {
+    const response = await apiClient.get<{ success: boolean; data: RolesOverviewResponse }>(
+      '/api/admin/roles'
+    );
+    return response.data;
+  },
+
+  createRole: async (data: AdminRoleInput): Promise<AdminRoleResponse> => {
+    const response = await apiClient.post<{ success: boolean; data: AdminRoleResponse }>(
+      '/api/admin/roles',
+      data
+    );
+    return response.data;
+  },
+
+  updateRole: async (id: string, data: Partial<AdminRoleInput>): Promise<AdminRoleResponse> => {
+    const response = await apiClient.put<{ success: boolean; data: AdminRoleResponse }>(
+      `/api/admin/roles/${id}`,
+      data
+    );
+    return response.data;
+  },
+
+  deleteRole: async (id: string): Promise<void> => {
+    await apiClient.delete(`/api/admin/roles/${id}`);
+  },
+
+  unlockUser: async (userId: string): Promise<void> => {
+    await apiClient.post(`/api/admin/users/${userId}/unlock`);
   },
 
   getUserActivity: async (userId: string, filters?: {
@@ -1984,7 +2579,7 @@ export const adminApi = {
       keys: Array<{
         id: string;
         gameId: string;
-        key: string;
+        maskedKey: string;
         orderId: string | null;
         activated: boolean;
         activationDate: string | null;
@@ -2020,7 +2615,7 @@ export const adminApi = {
     const response = await apiClient.get<{ success: boolean; data: {
       id: string;
       gameId: string;
-      key: string;
+      maskedKey: string;
       orderId: string | null;
       activated: boolean;
       activationDate: string | null;
@@ -2056,7 +2651,7 @@ export const adminApi = {
     const response = await apiClient.post<{ success: boolean; data: {
       id: string;
       gameId: string;
-      key: string;
+      maskedKey: string;
       orderId: string | null;
       activated: boolean;
       activationDate: string | null;
@@ -2075,7 +2670,7 @@ export const adminApi = {
     const response = await apiClient.put<{ success: boolean; data: {
       id: string;
       gameId: string;
-      key: string;
+      maskedKey: string;
       orderId: string | null;
       activated: boolean;
       activationDate: string | null;
@@ -2089,6 +2684,31 @@ export const adminApi = {
     return response.data;
   },
 
+  /**
+   * Validate a key file and, unless dryRun is false, import its valid keys
+   */
+  importGameKeys: async (data: {
+    gameId: string;
+    fileName: string;
+    content: string;
+    activationService?: string;
+    dryRun: boolean;
+  }): Promise<KeyImportReport> => {
+    const response = await apiClient.post<{ success: boolean; data: KeyImportReport }>(
+      '/api/admin/game-keys/import',
+      data
+    );
+    return response.data;
+  },
+
+  revealGameKey: async (id: string, reason?: string) => {
+    const response = await apiClient.post<{ success: boolean; data: {
+      id: string;
+      key: string;
+    } }>(`/api/admin/game-keys/${id}/reveal`, { reason });
+    return response.data;
+  },
+
   getGameKeyStatistics: async () => {
     const response = await apiClient.get<{ success: boolean; data: {
       totalKeys: number;
@@ -2,6 +2,7 @@
 import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
+import TwoFactorLoginStep from './auth/TwoFactorLoginStep';
 
 
 const theme = {
@@ -49,6 +50,7 @@ export default function AuthModal({ isOpen: propIsOpen, onClose, initialMode = '
   });
   const [errors, setErrors] = useState({});
   const [successMessage, setSuccessMessage] = useState('');
+  const [twoFactorChallenge, setTwoFactorChallenge] = useState(null);
 
   const handleChange = (e) => {
     const { name, value, type, checked } = e.target;
@@ -90,7 +92,11 @@ export default function AuthModal({ isOpen: propIsOpen, onClose, initialMode = '
     
     try {
       if (mode === 'login') {
-        await login(formData.email, formData.password);
+        const challenge = await login(formData.email, formData.password);
+        if (challenge) {
+          setTwoFactorChallenge(challenge);
+          return;
+        }
         setSuccessMessage('Login successful!');
         setTimeout(() => handleClose(), 500);
       } else if (mode === 'register') {
@@ -339,6 +345,17 @@ export default function AuthModal({ isOpen: propIsOpen, onClose, initialMode = '
         </div>
       )}
       
+      {twoFactorChallenge ? (
+        <TwoFactorLoginStep
+          challenge={twoFactorChallenge}
+          onSuccess={() => {
+            setTwoFactorChallenge(null);
+            setSuccessMessage('Login successful!');
+            setTimeout(() => handleClose(), 500);
+          }}
+          onCancel={() => setTwoFactorChallenge(null)}
+        />
+      ) : (
       <form onSubmit={handleSubmit} style={styles.form}>
         <div style={styles.inputGroup}>
           <label style={styles.label}>Email</label>
@@ -387,6 +404,7 @@ export default function AuthModal({ isOpen: propIsOpen, onClose, initialMode = '
           {isSubmitting ? 'Signing in...' : 'Sign In'}
         </button>
       </form>
+      )}
 
       <div style={styles.divider}>
         <div style={styles.dividerLine} />
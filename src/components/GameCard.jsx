@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { motion } from 'framer-motion';
 import { Link } from 'react-router-dom';
 import { colors } from '../styles/design-tokens';
+import { formatPrice } from '../utils/currency';
 import bestSellerBadge from '../assets/best-sellers-full-badge.png';
 import newBadge from '../assets/new-games-full-badge.png';
 import preorderBadge from '../assets/preorder-full-badge.png';
@@ -260,7 +261,7 @@ export default function GameCard({ game, size = 'medium', showNewBadge = false }
                   color: theme.colors.text,
                 }}
               >
-                {game.price}€
+                {formatPrice(game.price, game.currency)}
               </span>
               {game.originalPrice && (
                 <span
@@ -270,7 +271,7 @@ export default function GameCard({ game, size = 'medium', showNewBadge = false }
                     textDecoration: 'line-through',
                   }}
                 >
-                  {game.originalPrice}€
+                  {formatPrice(game.originalPrice, game.currency)}
                 </span>
               )}
               {game.discount && (
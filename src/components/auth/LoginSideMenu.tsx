@@ -4,6 +4,8 @@ import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../../hooks/useAuth';
 import { validateLoginForm } from '../../utils/authValidation';
 import { getAuthErrorMessage } from '../../utils/authErrors';
+import type { TwoFactorChallengeResponse } from '../../services/authApi';
+import TwoFactorLoginStep from './TwoFactorLoginStep';
 
 
 const theme = {
@@ -106,6 +108,7 @@ export default function LoginSideMenu({ isOpen, onClose, onSwitchToRegister }: L
   });
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [successMessage, setSuccessMessage] = useState('');
+  const [twoFactorChallenge, setTwoFactorChallenge] = useState<TwoFactorChallengeResponse | null>(null);
 
   // Prevent body scroll when menu is open
   React.useEffect(() => {
@@ -136,6 +139,28 @@ export default function LoginSideMenu({ isOpen, onClose, onSwitchToRegister }: L
     return validationResult.isValid;
   };
 
+  const finishLogin = async () => {
+    setTwoFactorChallenge(null);
+    setSuccessMessage('Login successful!');
+
+    // Migrate cart and wishlist after login
+    try {
+      const { cartApi } = await import('../../services/cartApi');
+      const { wishlistApi } = await import('../../services/wishlistApi');
+      await Promise.all([
+        cartApi.migrateCart().catch(() => {}),
+        wishlistApi.migrateWishlist().catch(() => {}),
+      ]);
+    } catch (migrationError) {
+      console.warn('Cart/wishlist migration failed:', migrationError);
+    }
+
+    setTimeout(() => {
+      onClose();
+      navigate('/');
+    }, 500);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!validateForm()) return;
@@ -145,25 +170,12 @@ export default function LoginSideMenu({ isOpen, onClose, onSwitchToRegister }: L
     setSuccessMessage('');
 
     try {
-      await login(formData.email, formData.password);
-      setSuccessMessage('Login successful!');
-      
-      // Migrate cart and wishlist after login
-      try {
-        const { cartApi } = await import('../../services/cartApi');
-        const { wishlistApi } = await import('../../services/wishlistApi');
-        await Promise.all([
-          cartApi.migrateCart().catch(() => {}),
-          wishlistApi.migrateWishlist().catch(() => {}),
-        ]);
-      } catch (migrationError) {
-        console.warn('Cart/wishlist migration failed:', migrationError);
+      const challenge = await login(formData.email, formData.password);
+      if (challenge) {
+        setTwoFactorChallenge(challenge);
+        return;
       }
-
-      setTimeout(() => {
-        onClose();
-        navigate('/');
-      }, 500);
+      await finishLogin();
     } catch (error: unknown) {
       const errorMessage = getAuthErrorMessage(error, 'Login failed. Please check your credentials.');
       setErrors({
@@ -254,7 +266,18 @@ export default function LoginSideMenu({ isOpen, onClose, onSwitchToRegister }: L
               </div>
             </div>
 
-            {/* Form */}
+            {/* Second factor */}
+            {twoFactorChallenge ? (
+              <TwoFactorLoginStep
+                challenge={twoFactorChallenge}
+                onSuccess={finishLogin}
+                onCancel={() => {
+                  setTwoFactorChallenge(null);
+                  setFormData((prev) => ({ ...prev, password: '' }));
+                }}
+              />
+            ) : (
+            /* Form */
             <form onSubmit={handleSubmit} style={{ flex: 1, display: 'flex', flexDirection: 'column' }}>
               {/* Email Field */}
               <div style={{ marginBottom: '20px' }}>
@@ -515,6 +538,7 @@ export default function LoginSideMenu({ isOpen, onClose, onSwitchToRegister }: L
                 </button>
               </div>
             </form>
+            )}
           </motion.div>
         </>
       )}
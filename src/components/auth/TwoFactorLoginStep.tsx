@@ -0,0 +1,215 @@
+import React, { useEffect, useState } from 'react';
+import { useAuth } from '../../hooks/useAuth';
+import { authApi } from '../../services/authApi';
+import type { TwoFactorChallengeResponse, TwoFactorSetupResponse } from '../../services/authApi';
+import { getAuthErrorMessage } from '../../utils/authErrors';
+
+const theme = {
+  colors: {
+    primary: '#00C8C2',
+    background: '#0D0D0D',
+    surfaceLight: '#2A2A2A',
+    text: '#FFFFFF',
+    textSecondary: '#999999',
+    textMuted: '#666666',
+    border: '#333333',
+    error: '#FF4444',
+  },
+};
+
+interface TwoFactorLoginStepProps {
+  challenge: TwoFactorChallengeResponse;
+  onSuccess: () => void;
+  onCancel: () => void;
+}
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '12px',
+  backgroundColor: theme.colors.background,
+  border: `1px solid ${theme.colors.border}`,
+  borderRadius: '8px',
+  color: theme.colors.text,
+  fontSize: '18px',
+  letterSpacing: '4px',
+  textAlign: 'center',
+  outline: 'none',
+};
+
+const primaryButtonStyle = (disabled: boolean): React.CSSProperties => ({
+  width: '100%',
+  padding: '14px',
+  backgroundColor: disabled ? theme.colors.textMuted : theme.colors.primary,
+  color: '#000',
+  border: 'none',
+  borderRadius: '8px',
+  fontSize: '16px',
+  fontWeight: '600',
+  cursor: disabled ? 'not-allowed' : 'pointer',
+});
+
+const linkButtonStyle: React.CSSProperties = {
+  backgroundColor: 'transparent',
+  border: 'none',
+  color: theme.colors.primary,
+  fontSize: '14px',
+  cursor: 'pointer',
+  padding: 0,
+};
+
+/**
+ * Second login step: asks for a TOTP (or recovery) code after the password was accepted.
+ * When the account must enrol first (mandatory admin 2FA) it shows the QR code and,
+ * once confirmed, the one-time recovery codes.
+ */
+export default function TwoFactorLoginStep({ challenge, onSuccess, onCancel }: TwoFactorLoginStepProps) {
+  const { completeTwoFactorLogin } = useAuth();
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [setup, setSetup] = useState<TwoFactorSetupResponse | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!challenge.setupRequired) return;
+
+    authApi
+      .setupTwoFactorForChallenge(challenge.challengeToken)
+      .then(setSetup)
+      .catch((err: unknown) => setError(getAuthErrorMessage(err, 'Failed to start two-factor setup.')));
+  }, [challenge]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) {
+      setError(useRecoveryCode ? 'Recovery code is required' : 'Authentication code is required');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError('');
+    try {
+      const codes = await completeTwoFactorLogin(
+        challenge.challengeToken,
+        useRecoveryCode ? { recoveryCode: code.trim() } : { code: code.trim() }
+      );
+      if (codes && codes.length > 0) {
+        setRecoveryCodes(codes);
+      } else {
+        onSuccess();
+      }
+    } catch (err: unknown) {
+      setError(getAuthErrorMessage(err, 'Invalid authentication code.'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (recoveryCodes) {
+    return (
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '16px' }}>
+        <h3 style={{ color: theme.colors.text, fontSize: '18px', fontWeight: '600' }}>
+          Save your recovery codes
+        </h3>
+        <p style={{ color: theme.colors.textSecondary, fontSize: '14px' }}>
+          Each code can be used once if you lose access to your authenticator app. They will not be shown again.
+        </p>
+        <div
+          style={{
+            display: 'grid',
+            gridTemplateColumns: '1fr 1fr',
+            gap: '8px',
+            padding: '16px',
+            backgroundColor: theme.colors.background,
+            borderRadius: '8px',
+            fontFamily: 'monospace',
+            color: theme.colors.text,
+          }}
+        >
+          {recoveryCodes.map((recoveryCode) => (
+            <span key={recoveryCode}>{recoveryCode}</span>
+          ))}
+        </div>
+        <button type="button" onClick={onSuccess} style={primaryButtonStyle(false)}>
+          I've saved these codes
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} style={{ display: 'flex', flexDirection: 'column', gap: '16px' }}>
+      <h3 style={{ color: theme.colors.text, fontSize: '18px', fontWeight: '600' }}>
+        {challenge.setupRequired ? 'Set up two-factor authentication' : 'Two-factor authentication'}
+      </h3>
+
+      {challenge.setupRequired ? (
+        <>
+          <p style={{ color: theme.colors.textSecondary, fontSize: '14px' }}>
+            Your account requires two-factor authentication. Scan this QR code with an authenticator app,
+            then enter the 6-digit code it shows.
+          </p>
+          {setup && (
+            <div style={{ textAlign: 'center' }}>
+              <img
+                src={setup.qrCode}
+                alt="Two-factor QR code"
+                style={{ width: '180px', height: '180px', borderRadius: '8px', background: '#fff' }}
+              />
+              <p style={{ color: theme.colors.textMuted, fontSize: '12px', marginTop: '8px', wordBreak: 'break-all' }}>
+                Or enter this key manually: <span style={{ fontFamily: 'monospace' }}>{setup.secret}</span>
+              </p>
+            </div>
+          )}
+        </>
+      ) : (
+        <p style={{ color: theme.colors.textSecondary, fontSize: '14px' }}>
+          {useRecoveryCode
+            ? 'Enter one of your recovery codes.'
+            : 'Enter the 6-digit code from your authenticator app.'}
+        </p>
+      )}
+
+      <input
+        type="text"
+        inputMode={useRecoveryCode ? 'text' : 'numeric'}
+        autoComplete="one-time-code"
+        value={code}
+        onChange={(e) => {
+          setCode(e.target.value);
+          setError('');
+        }}
+        placeholder={useRecoveryCode ? 'XXXXX-XXXXX' : '123456'}
+        maxLength={useRecoveryCode ? 11 : 6}
+        style={{ ...inputStyle, borderColor: error ? theme.colors.error : theme.colors.border }}
+        autoFocus
+      />
+
+      {error && <p style={{ color: theme.colors.error, fontSize: '13px' }}>{error}</p>}
+
+      <button type="submit" disabled={isSubmitting} style={primaryButtonStyle(isSubmitting)}>
+        {isSubmitting ? 'Verifying...' : 'Verify'}
+      </button>
+
+      <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+        <button type="button" onClick={onCancel} style={linkButtonStyle}>
+          Back
+        </button>
+        {!challenge.setupRequired && (
+          <button
+            type="button"
+            onClick={() => {
+              setUseRecoveryCode(!useRecoveryCode);
+              setCode('');
+              setError('');
+            }}
+            style={linkButtonStyle}
+          >
+            {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
@@ -3,8 +3,10 @@ import { useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { toast } from 'sonner';
 import { useAuth } from '../../context/AuthContext';
+import { useCurrency } from '../../hooks/useCurrency';
 import apiClient from '../../services/api';
 import type { CartResponse } from '../../services/cartApi';
+import type { OrderPaymentGateway, OrderPaymentOptions } from '../../services/orderApi';
 
 const theme = {
   colors: {
@@ -57,9 +59,15 @@ interface CheckoutSummaryProps {
   promoCode?: string;
   onPromoCodeChange?: (code: string) => void;
   onPromoApply?: (code: string) => Promise<{ success: boolean; discount: number }>;
-  onCreateOrder?: (promoCode?: string) => Promise<void>;
+  onCreateOrder?: (promoCode?: string, payment?: OrderPaymentOptions) => Promise<void>;
 }
 
+const PAYMENT_GATEWAYS: Array<{ id: OrderPaymentGateway; label: string }> = [
+  { id: 'stripe', label: 'Card' },
+  { id: 'paypal', label: 'PayPal' },
+  { id: 'mollie', label: 'Mollie' },
+];
+
 export const CheckoutSummary: React.FC<CheckoutSummaryProps> = ({
   cart,
   promoCode: initialPromoCode = '',
@@ -69,12 +77,15 @@ export const CheckoutSummary: React.FC<CheckoutSummaryProps> = ({
 }) => {
   const navigate = useNavigate();
   const { user, isAuthenticated } = useAuth();
+  const { currency } = useCurrency();
   const [promoCode, setPromoCode] = useState(initialPromoCode);
   const [promoApplied, setPromoApplied] = useState(false);
   const [promoDiscount, setPromoDiscount] = useState(0);
   const [userBalance, setUserBalance] = useState<number | null>(null);
   const [loadingBalance, setLoadingBalance] = useState(true);
   const [paymentMethod, setPaymentMethod] = useState<'balance' | 'card'>('balance');
+  const [gateway, setGateway] = useState<OrderPaymentGateway>('stripe');
+  const [useBalance, setUseBalance] = useState(true);
   const [processing, setProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -104,6 +115,9 @@ export const CheckoutSummary: React.FC<CheckoutSummaryProps> = ({
   const discount = promoApplied ? (subtotal * promoDiscount / 100) : 0;
   const total = subtotal - discount;
   const canPayWithBalance = userBalance !== null && userBalance >= total;
+  // Paying by card takes what the balance covers first, unless the customer opts out
+  const balancePart = paymentMethod === 'card' && useBalance ? Math.min(Math.max(userBalance ?? 0, 0), total) : 0;
+  const gatewayPart = total - balancePart;
 
   const handlePromoApply = async () => {
     if (!promoCode.trim()) return;
@@ -133,7 +147,10 @@ export const CheckoutSummary: React.FC<CheckoutSummaryProps> = ({
     setProcessing(true);
     setError(null);
     try {
-      await onCreateOrder(promoApplied ? promoCode : undefined);
+      await onCreateOrder(
+        promoApplied ? promoCode : undefined,
+        paymentMethod === 'card' ? { gateway, useBalance } : undefined
+      );
       // Navigation is handled by onCreateOrder in CheckoutPage
     } catch (err) {
       console.error('Failed to create order:', err);
@@ -272,6 +289,11 @@ export const CheckoutSummary: React.FC<CheckoutSummaryProps> = ({
           €{total.toFixed(2)}
         </span>
       </div>
+      {currency !== 'EUR' && (
+        <p style={{ fontSize: '12px', color: theme.colors.textSecondary, marginTop: '-16px', marginBottom: '24px' }}>
+          Orders are charged in EUR, the currency of your balance.
+        </p>
+      )}
 
       {/* Payment Method */}
       {isAuthenticated && (
@@ -364,10 +386,60 @@ export const CheckoutSummary: React.FC<CheckoutSummaryProps> = ({
             </div>
             <Icons.CreditCard />
             <div style={{ flex: 1 }}>
-              <p style={{ fontSize: '14px', fontWeight: '500', color: theme.colors.text }}>Credit/Debit Card</p>
-              <p style={{ fontSize: '12px', color: theme.colors.textMuted }}>Visa, Mastercard, etc.</p>
+              <p style={{ fontSize: '14px', fontWeight: '500', color: theme.colors.text }}>Card, PayPal or Mollie</p>
+              <p style={{ fontSize: '12px', color: theme.colors.textMuted }}>Visa, Mastercard, PayPal, iDEAL, etc.</p>
             </div>
           </div>
+
+          {paymentMethod === 'card' && (
+            <div style={{ marginTop: '12px' }}>
+              <div style={{ display: 'flex', gap: '8px', marginBottom: '12px' }}>
+                {PAYMENT_GATEWAYS.map((option) => (
+                  <button
+                    key={option.id}
+                    type="button"
+                    onClick={() => setGateway(option.id)}
+                    style={{
+                      flex: 1,
+                      background: gateway === option.id ? theme.colors.surfaceLight : 'transparent',
+                      border: `1px solid ${gateway === option.id ? theme.colors.primary : theme.colors.border}`,
+                      borderRadius: '8px',
+                      padding: '10px',
+                      color: theme.colors.text,
+                      fontSize: '13px',
+                      fontWeight: '500',
+                      cursor: 'pointer',
+                    }}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+
+              {!!userBalance && userBalance > 0 && (
+                <label
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '8px',
+                    fontSize: '13px',
+                    color: theme.colors.textSecondary,
+                    cursor: 'pointer',
+                  }}
+                >
+                  <input type="checkbox" checked={useBalance} onChange={(e) => setUseBalance(e.target.checked)} />
+                  Use my balance first
+                </label>
+              )}
+
+              {balancePart > 0 && (
+                <p style={{ fontSize: '12px', color: theme.colors.textMuted, marginTop: '8px' }}>
+                  €{balancePart.toFixed(2)} from your balance
+                  {gatewayPart > 0 ? `, €${gatewayPart.toFixed(2)} paid at checkout` : ''}
+                </p>
+              )}
+            </div>
+          )}
         </div>
       )}
 
@@ -420,7 +492,7 @@ export const CheckoutSummary: React.FC<CheckoutSummaryProps> = ({
           >
             top up
           </a>{' '}
-          or use another payment method.
+          or pay the rest by card, PayPal or Mollie.
         </p>
       )}
 
@@ -0,0 +1,149 @@
+import React from 'react';
+import type { GiftOptions as GiftOptionsValue } from '../../services/orderApi';
+
+const theme = {
+  colors: {
+    primary: '#00C8C2',
+    background: '#0D0D0D',
+    surface: '#1A1A1A',
+    surfaceLight: '#2A2A2A',
+    text: '#FFFFFF',
+    textSecondary: '#999999',
+    textMuted: '#666666',
+    border: '#333333',
+  },
+};
+
+const MAX_MESSAGE_LENGTH = 500;
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '10px 12px',
+  backgroundColor: theme.colors.background,
+  border: `1px solid ${theme.colors.border}`,
+  borderRadius: '8px',
+  color: theme.colors.text,
+  fontSize: '14px',
+  boxSizing: 'border-box',
+};
+
+const labelStyle: React.CSSProperties = {
+  display: 'block',
+  fontSize: '13px',
+  color: theme.colors.textSecondary,
+  marginBottom: '6px',
+};
+
+interface GiftOptionsProps {
+  enabled: boolean;
+  value: GiftOptionsValue;
+  onToggle: (enabled: boolean) => void;
+  onChange: (value: GiftOptionsValue) => void;
+}
+
+// Earliest selectable delivery date, in the local time zone
+const today = () => {
+  const now = new Date();
+  now.setMinutes(now.getMinutes() - now.getTimezoneOffset());
+  return now.toISOString().slice(0, 10);
+};
+
+export const GiftOptions: React.FC<GiftOptionsProps> = ({ enabled, value, onToggle, onChange }) => {
+  const update = (patch: Partial<GiftOptionsValue>) => onChange({ ...value, ...patch });
+
+  return (
+    <div
+      style={{
+        marginTop: '24px',
+        padding: '20px',
+        backgroundColor: theme.colors.surface,
+        border: `1px solid ${enabled ? theme.colors.primary : theme.colors.border}`,
+        borderRadius: '12px',
+      }}
+    >
+      <label
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '10px',
+          cursor: 'pointer',
+          color: theme.colors.text,
+          fontSize: '15px',
+          fontWeight: '600',
+        }}
+      >
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => onToggle(e.target.checked)}
+          style={{ accentColor: theme.colors.primary, width: '16px', height: '16px' }}
+        />
+        🎁 Buy as a gift
+      </label>
+      <p style={{ margin: '6px 0 0 26px', fontSize: '13px', color: theme.colors.textMuted }}>
+        We email the recipient a link to claim the keys into their own library.
+      </p>
+
+      {enabled && (
+        <div style={{ display: 'grid', gap: '14px', marginTop: '18px' }}>
+          <div>
+            <label style={labelStyle} htmlFor="gift-recipient">
+              Recipient email
+            </label>
+            <input
+              id="gift-recipient"
+              type="email"
+              value={value.recipientEmail}
+              onChange={(e) => update({ recipientEmail: e.target.value })}
+              placeholder="friend@example.com"
+              style={inputStyle}
+            />
+          </div>
+          <div>
+            <label style={labelStyle} htmlFor="gift-sender">
+              From
+            </label>
+            <input
+              id="gift-sender"
+              type="text"
+              value={value.senderName}
+              onChange={(e) => update({ senderName: e.target.value })}
+              placeholder="Your name"
+              maxLength={50}
+              style={inputStyle}
+            />
+          </div>
+          <div>
+            <label style={labelStyle} htmlFor="gift-message">
+              Personal message (optional)
+            </label>
+            <textarea
+              id="gift-message"
+              value={value.message || ''}
+              onChange={(e) => update({ message: e.target.value })}
+              rows={3}
+              maxLength={MAX_MESSAGE_LENGTH}
+              style={{ ...inputStyle, resize: 'vertical' }}
+            />
+            <div style={{ textAlign: 'right', fontSize: '12px', color: theme.colors.textMuted }}>
+              {(value.message || '').length}/{MAX_MESSAGE_LENGTH}
+            </div>
+          </div>
+          <div>
+            <label style={labelStyle} htmlFor="gift-date">
+              Delivery date (optional, sent right away if empty)
+            </label>
+            <input
+              id="gift-date"
+              type="date"
+              min={today()}
+              value={value.deliverAt || ''}
+              onChange={(e) => update({ deliverAt: e.target.value || undefined })}
+              style={{ ...inputStyle, colorScheme: 'dark' }}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,5 +1,7 @@
 import React, { useState } from 'react';
 import { SearchAutocomplete } from '../ui/search-autocomplete';
+import { useCurrency } from '../../hooks/useCurrency';
+import { getCurrencySymbol } from '../../utils/currency';
 
 const theme = {
   colors: {
@@ -31,12 +33,13 @@ const ChevronUp: React.FC = () => (
   </svg>
 );
 
-const pricePresets = [
-  { label: 'Under €10', value: 'under-10' },
-  { label: '€10 - €25', value: '10-25' },
-  { label: '€25 - €50', value: '25-50' },
-  { label: '€50 - €100', value: '50-100' },
-  { label: 'Over €100', value: 'over-100' },
+// Amounts are in the display currency; the server converts them back to EUR
+const getPricePresets = (symbol: string) => [
+  { label: `Under ${symbol}10`, value: 'under-10' },
+  { label: `${symbol}10 - ${symbol}25`, value: '10-25' },
+  { label: `${symbol}25 - ${symbol}50`, value: '25-50' },
+  { label: `${symbol}50 - ${symbol}100`, value: '50-100' },
+  { label: `Over ${symbol}100`, value: 'over-100' },
 ];
 
 interface FilterSectionProps {
@@ -158,6 +161,9 @@ export const GameFilters: React.FC<GameFiltersProps> = ({
   activeFiltersCount,
   onClearFilters,
 }) => {
+  const { currency } = useCurrency();
+  const symbol = getCurrencySymbol(currency);
+
   return (
     <>
       {activeFiltersCount > 0 && (
@@ -198,7 +204,7 @@ export const GameFilters: React.FC<GameFiltersProps> = ({
       </FilterSection>
 
       <FilterSection title="Price Presets">
-        {pricePresets.map(preset => (
+        {getPricePresets(symbol).map(preset => (
           <Checkbox
             key={preset.value}
             label={preset.label}
@@ -224,8 +230,8 @@ export const GameFilters: React.FC<GameFiltersProps> = ({
             style={{ width: '100%', accentColor: theme.colors.primary }}
           />
           <div style={{ display: 'flex', justifyContent: 'space-between', marginTop: '8px' }}>
-            <span style={{ color: theme.colors.textMuted, fontSize: '13px' }}>€{priceRange[0]}</span>
-            <span style={{ color: theme.colors.textMuted, fontSize: '13px' }}>€{priceRange[1]}</span>
+            <span style={{ color: theme.colors.textMuted, fontSize: '13px' }}>{symbol}{priceRange[0]}</span>
+            <span style={{ color: theme.colors.textMuted, fontSize: '13px' }}>{symbol}{priceRange[1]}</span>
           </div>
         </div>
       </FilterSection>
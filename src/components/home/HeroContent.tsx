@@ -4,6 +4,7 @@ import { Link } from 'react-router-dom';
 import { Aurora } from '../ui/aurora';
 import { ClickSpark } from '../ui/click-spark';
 import { colors } from '@/styles/design-tokens';
+import { formatPrice } from '@/utils/currency';
 import cartIcon from '../../assets/cart.svg';
 import wishlistIcon from '../../assets/wishlist.svg';
 interface Game {
@@ -14,6 +15,7 @@ interface Game {
   price: number;
   originalPrice?: number;
   discount?: number;
+  currency?: string;
   slug: string;
   platforms?: string[];
 }
@@ -183,9 +185,9 @@ export const HeroContent: React.FC<HeroContentProps> = ({
           {game.originalPrice && game.discount ? (
             <>
               <span style={{ textDecoration: 'line-through', color: '#666666', fontSize: 'clamp(18px, 3.5vw, 24px)' }}>
-                {game.originalPrice}€
+                {formatPrice(game.originalPrice, game.currency)}
               </span>
-              <span>{game.price}€</span>
+              <span>{formatPrice(game.price, game.currency)}</span>
               <span
                 style={{
                   backgroundColor: '#00C8C2',
@@ -199,7 +201,7 @@ export const HeroContent: React.FC<HeroContentProps> = ({
               </span>
             </>
           ) : (
-            <span>{game.price}€</span>
+            <span>{formatPrice(game.price, game.currency)}</span>
           )}
         </motion.div>
 
@@ -5,6 +5,7 @@ import { Link } from 'react-router-dom';
 import { useAuth } from '../../hooks/useAuth';
 import { useCart } from '../../hooks/useCart';
 import { useWishlist } from '../../hooks/useWishlist';
+import { useCurrency } from '../../hooks/useCurrency';
 import UserDropdown from '../UserDropdown';
 import LoginSideMenu from '../auth/LoginSideMenu';
 import RegisterSideMenu from '../auth/RegisterSideMenu';
@@ -64,6 +65,7 @@ export default function Header({ onMenuClick, onAuthClick }: HeaderProps) {
   const navigate = useNavigate();
   const { itemCount: cartCount } = useCart();
   const { itemCount: wishlistCount } = useWishlist();
+  const { preference, currencies, detected, setCurrency } = useCurrency();
   const [isLoginMenuOpen, setIsLoginMenuOpen] = useState(false);
   const [isRegisterMenuOpen, setIsRegisterMenuOpen] = useState(false);
 
@@ -118,6 +120,28 @@ export default function Header({ onMenuClick, onAuthClick }: HeaderProps) {
         </div>
 
         <div style={{ display: 'flex', alignItems: 'center', gap: '16px' }}>
+          <select
+            value={preference || ''}
+            onChange={(e) => setCurrency(e.target.value || null)}
+            aria-label="Display currency"
+            style={{
+              height: '44px',
+              padding: '0 12px',
+              borderRadius: '22px',
+              backgroundColor: theme.colors.surface,
+              color: theme.colors.text,
+              border: 'none',
+              fontSize: '14px',
+              cursor: 'pointer',
+            }}
+          >
+            <option value="">Auto ({detected})</option>
+            {currencies.map((code) => (
+              <option key={code} value={code}>
+                {code}
+              </option>
+            ))}
+          </select>
           <motion.button
             whileHover={{ scale: 1.05 }}
             whileTap={{ scale: 0.95 }}
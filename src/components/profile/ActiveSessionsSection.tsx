@@ -0,0 +1,116 @@
+import * as React from "react"
+import { cn } from "@/lib/utils"
+import { Button } from "@/components/ui/button"
+import { useAuth } from "@/hooks/useAuth"
+import { authApi } from "@/services/authApi"
+import type { ActiveSession } from "@/services/authApi"
+
+export interface ActiveSessionsSectionProps {
+  className?: string
+}
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" })
+
+/**
+ * Lists the devices signed in to the account and lets the user sign them out
+ */
+export const ActiveSessionsSection: React.FC<ActiveSessionsSectionProps> = ({ className }) => {
+  const { logout } = useAuth()
+  const [sessions, setSessions] = React.useState<ActiveSession[] | null>(null)
+  const [pendingId, setPendingId] = React.useState<string | null>(null)
+  const [error, setError] = React.useState("")
+
+  const loadSessions = React.useCallback(async () => {
+    try {
+      setSessions(await authApi.getSessions())
+    } catch (err) {
+      console.error("Failed to load sessions:", err)
+      setError("Failed to load active sessions")
+    }
+  }, [])
+
+  React.useEffect(() => {
+    loadSessions()
+  }, [loadSessions])
+
+  const handleRevoke = async (session: ActiveSession) => {
+    setPendingId(session.id)
+    setError("")
+    try {
+      await authApi.revokeSession(session.id)
+      if (session.current) {
+        await logout()
+        return
+      }
+      setSessions((prev) => prev?.filter((s) => s.id !== session.id) ?? null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to sign out device")
+    } finally {
+      setPendingId(null)
+    }
+  }
+
+  const handleRevokeAll = async () => {
+    setPendingId("all")
+    setError("")
+    try {
+      await authApi.revokeAllSessions()
+      await logout()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to sign out everywhere")
+      setPendingId(null)
+    }
+  }
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-lg font-semibold text-design-text">Active sessions</h2>
+        <Button
+          variant="secondary"
+          size="sm"
+          onClick={handleRevokeAll}
+          disabled={pendingId !== null || !sessions?.length}
+        >
+          Sign out everywhere
+        </Button>
+      </div>
+
+      {!sessions ? (
+        !error && <p className="text-sm text-design-text-muted">Loading...</p>
+      ) : (
+        <ul className="space-y-2">
+          {sessions.map((session) => (
+            <li
+              key={session.id}
+              className="flex items-center justify-between gap-3 rounded-lg bg-design-surface-light p-3"
+            >
+              <div className="min-w-0">
+                <p className="truncate text-sm text-design-text" title={session.userAgent}>
+                  {session.userAgent || "Unknown device"}
+                  {session.current && <span className="ml-2 text-design-primary">(this device)</span>}
+                </p>
+                <p className="text-xs text-design-text-muted">
+                  {session.ipAddress || "Unknown IP"} · Last used {formatDate(session.lastUsedAt)}
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleRevoke(session)}
+                disabled={pendingId !== null}
+              >
+                Sign out
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && <p className="text-sm text-design-error">{error}</p>}
+    </div>
+  )
+}
+
+export default ActiveSessionsSection
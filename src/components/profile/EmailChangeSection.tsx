@@ -0,0 +1,127 @@
+import * as React from "react"
+import { cn } from "@/lib/utils"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { useAuth } from "@/hooks/useAuth"
+import { authApi } from "@/services/authApi"
+
+export interface EmailChangeSectionProps {
+  className?: string
+  onEmailChanged?: (email: string) => void
+}
+
+type Message = { type: "success" | "error"; text: string } | null
+
+const errorText = (err: unknown, fallback: string) =>
+  err instanceof Error ? err.message : fallback
+
+/**
+ * Changes the account email once the new address is confirmed with an emailed code
+ */
+export const EmailChangeSection: React.FC<EmailChangeSectionProps> = ({ className, onEmailChanged }) => {
+  const { refreshToken } = useAuth()
+  const [newEmail, setNewEmail] = React.useState("")
+  const [password, setPassword] = React.useState("")
+  const [code, setCode] = React.useState("")
+  const [pendingEmail, setPendingEmail] = React.useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = React.useState(false)
+  const [message, setMessage] = React.useState<Message>(null)
+
+  const run = async (action: () => Promise<void>, fallback: string) => {
+    setIsSubmitting(true)
+    setMessage(null)
+    try {
+      await action()
+    } catch (err) {
+      setMessage({ type: "error", text: errorText(err, fallback) })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleRequest = () =>
+    run(async () => {
+      await authApi.requestEmailChange(newEmail.trim(), password)
+      setPendingEmail(newEmail.trim())
+      setPassword("")
+      setMessage({ type: "success", text: `We sent a confirmation code to ${newEmail.trim()}` })
+    }, "Failed to request email change")
+
+  const handleConfirm = () =>
+    run(async () => {
+      const email = await authApi.confirmEmailChange(code.trim())
+      setPendingEmail(null)
+      setNewEmail("")
+      setCode("")
+      setMessage({ type: "success", text: "Email changed. Other devices have been signed out." })
+      onEmailChanged?.(email)
+      // Pick up a token and user data carrying the new address
+      await refreshToken().catch((err) => console.warn("Failed to refresh session:", err))
+    }, "Failed to confirm email change")
+
+  const handleCancel = () => {
+    setPendingEmail(null)
+    setCode("")
+    setMessage(null)
+  }
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      <h2 className="text-lg font-semibold text-design-text">Change email</h2>
+
+      {pendingEmail ? (
+        <>
+          <p className="text-sm text-design-text-muted">
+            Enter the code sent to {pendingEmail}. Your current address stays active until you confirm.
+          </p>
+          <div className="flex gap-2">
+            <Input
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              placeholder="6-digit code"
+              maxLength={6}
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              className="flex-1 min-w-0"
+            />
+            <Button onClick={handleConfirm} disabled={isSubmitting || code.trim().length !== 6}>
+              Confirm
+            </Button>
+            <Button variant="outline" onClick={handleCancel} disabled={isSubmitting}>
+              Cancel
+            </Button>
+          </div>
+        </>
+      ) : (
+        <div className="flex flex-col gap-2 sm:flex-row">
+          <Input
+            type="email"
+            placeholder="New email"
+            value={newEmail}
+            onChange={(e) => setNewEmail(e.target.value)}
+            className="flex-1 min-w-0"
+          />
+          <Input
+            type="password"
+            placeholder="Current password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className="flex-1 min-w-0"
+          />
+          <Button onClick={handleRequest} disabled={isSubmitting || !newEmail.trim() || !password}>
+            Send code
+          </Button>
+        </div>
+      )}
+
+      {message && (
+        <p className={cn("text-sm", message.type === "success" ? "text-design-primary" : "text-design-error")}>
+          {message.text}
+        </p>
+      )}
+    </div>
+  )
+}
+
+export default EmailChangeSection
@@ -0,0 +1,132 @@
+import * as React from "react"
+import { cn } from "@/lib/utils"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { userApi } from "@/services/userApi"
+
+export interface PrivacySectionProps {
+  className?: string
+}
+
+type Message = { type: "success" | "error"; text: string } | null
+
+const errorText = (err: unknown, fallback: string) =>
+  err instanceof Error ? err.message : fallback
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleString(undefined, { dateStyle: "long", timeStyle: "short" })
+
+/**
+ * Personal data download and account deletion with its grace period
+ */
+export const PrivacySection: React.FC<PrivacySectionProps> = ({ className }) => {
+  const [deletionScheduledFor, setDeletionScheduledFor] = React.useState<string | null>(null)
+  const [password, setPassword] = React.useState("")
+  const [isSubmitting, setIsSubmitting] = React.useState(false)
+  const [message, setMessage] = React.useState<Message>(null)
+
+  React.useEffect(() => {
+    userApi
+      .getProfile()
+      .then((profile) => setDeletionScheduledFor(profile.deletionScheduledFor ?? null))
+      .catch((err) => console.error("Failed to load deletion status:", err))
+  }, [])
+
+  const run = async (action: () => Promise<void>, fallback: string) => {
+    setIsSubmitting(true)
+    setMessage(null)
+    try {
+      await action()
+    } catch (err) {
+      setMessage({ type: "error", text: errorText(err, fallback) })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleExport = () =>
+    run(async () => {
+      const { downloadPath } = await userApi.requestDataExport()
+      const blob = await userApi.downloadDataExport(downloadPath)
+      const url = window.URL.createObjectURL(blob)
+      const a = document.createElement("a")
+      a.href = url
+      a.download = `gkeys-data-export-${new Date().toISOString().slice(0, 10)}.json`
+      document.body.appendChild(a)
+      a.click()
+      window.URL.revokeObjectURL(url)
+      document.body.removeChild(a)
+    }, "Failed to export your data")
+
+  const handleRequestDeletion = () =>
+    run(async () => {
+      const result = await userApi.requestAccountDeletion(password)
+      setDeletionScheduledFor(result.deletionScheduledFor)
+      setPassword("")
+      setMessage({ type: "success", text: "Account deletion scheduled" })
+    }, "Failed to schedule account deletion")
+
+  const handleCancelDeletion = () =>
+    run(async () => {
+      await userApi.cancelAccountDeletion()
+      setDeletionScheduledFor(null)
+      setMessage({ type: "success", text: "Account deletion cancelled" })
+    }, "Failed to cancel account deletion")
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      <h2 className="text-lg font-semibold text-design-text">Privacy</h2>
+
+      <div className="flex items-center justify-between gap-3 rounded-lg bg-design-surface-light p-3">
+        <p className="text-sm text-design-text-muted">
+          Download your profile, orders, keys, transactions, wishlist and login history as a JSON file.
+        </p>
+        <Button variant="secondary" size="sm" onClick={handleExport} disabled={isSubmitting}>
+          Download my data
+        </Button>
+      </div>
+
+      {deletionScheduledFor ? (
+        <div className="flex items-center justify-between gap-3 rounded-lg bg-design-surface-light p-3">
+          <p className="text-sm text-design-text">
+            Your account will be deleted on {formatDate(deletionScheduledFor)}.
+          </p>
+          <Button variant="outline" size="sm" onClick={handleCancelDeletion} disabled={isSubmitting}>
+            Keep my account
+          </Button>
+        </div>
+      ) : (
+        <>
+          <p className="text-sm text-design-text-muted">
+            Deleting your account removes your personal data after a grace period. Order and payment
+            records are kept without your personal details.
+          </p>
+          <div className="flex gap-2">
+            <Input
+              type="password"
+              placeholder="Current password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="flex-1 min-w-0"
+            />
+            <Button
+              variant="destructive"
+              onClick={handleRequestDeletion}
+              disabled={isSubmitting || !password}
+            >
+              Delete account
+            </Button>
+          </div>
+        </>
+      )}
+
+      {message && (
+        <p className={cn("text-sm", message.type === "success" ? "text-design-primary" : "text-design-error")}>
+          {message.text}
+        </p>
+      )}
+    </div>
+  )
+}
+
+export default PrivacySection
@@ -35,6 +35,7 @@ const DefaultAvatar = () => (
 const menuItems = [
   { label: 'Profile', path: '/profile', exact: true },
   { label: 'Orders', path: '/profile/orders' },
+  { label: 'My Keys', path: '/profile/keys' },
   { label: 'Wishlist', path: '/profile/wishlist' },
   { label: 'Balance', path: '/profile/balance' },
   { label: 'Edit Profile', path: '/profile/edit' },
@@ -268,8 +269,8 @@ export default function ProfileLayout({ children }: { children: React.ReactNode
                 Create Ticket
               </Link>
 
-              {/* Admin Panel (only for admins) */}
-              {user?.role === 'ADMIN' && (
+              {/* Admin Panel (only for staff with admin permissions) */}
+              {!!user?.permissions?.length && (
                 <Link
                   to="/admin"
                   style={{
@@ -485,7 +486,7 @@ export default function ProfileLayout({ children }: { children: React.ReactNode
                     </svg>
                     Create Ticket
                   </Link>
-                  {user?.role === 'ADMIN' && (
+                  {!!user?.permissions?.length && (
                     <Link
                       to="/admin"
                       onClick={() => setIsMobileMenuOpen(false)}
@@ -0,0 +1,185 @@
+import * as React from "react"
+import { cn } from "@/lib/utils"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { authApi } from "@/services/authApi"
+import type { TwoFactorSetupResponse, TwoFactorStatus } from "@/services/authApi"
+
+export interface TwoFactorSectionProps {
+  className?: string
+}
+
+type Message = { type: "success" | "error"; text: string } | null
+
+const errorText = (err: unknown, fallback: string) =>
+  err instanceof Error ? err.message : fallback
+
+/**
+ * Profile settings block for enabling, disabling and managing TOTP two-factor authentication
+ */
+export const TwoFactorSection: React.FC<TwoFactorSectionProps> = ({ className }) => {
+  const [status, setStatus] = React.useState<TwoFactorStatus | null>(null)
+  const [setup, setSetup] = React.useState<TwoFactorSetupResponse | null>(null)
+  const [recoveryCodes, setRecoveryCodes] = React.useState<string[] | null>(null)
+  const [code, setCode] = React.useState("")
+  const [password, setPassword] = React.useState("")
+  const [isSubmitting, setIsSubmitting] = React.useState(false)
+  const [message, setMessage] = React.useState<Message>(null)
+
+  const loadStatus = React.useCallback(async () => {
+    try {
+      setStatus(await authApi.getTwoFactorStatus())
+    } catch (err) {
+      console.error("Failed to load two-factor status:", err)
+    }
+  }, [])
+
+  React.useEffect(() => {
+    loadStatus()
+  }, [loadStatus])
+
+  const run = async (action: () => Promise<void>, fallback: string) => {
+    setIsSubmitting(true)
+    setMessage(null)
+    try {
+      await action()
+    } catch (err) {
+      setMessage({ type: "error", text: errorText(err, fallback) })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleStartSetup = () =>
+    run(async () => {
+      setSetup(await authApi.setupTwoFactor())
+      setRecoveryCodes(null)
+    }, "Failed to start two-factor setup")
+
+  const handleEnable = () =>
+    run(async () => {
+      const codes = await authApi.enableTwoFactor(code.trim())
+      setRecoveryCodes(codes)
+      setSetup(null)
+      setCode("")
+      setMessage({ type: "success", text: "Two-factor authentication enabled" })
+      await loadStatus()
+    }, "Invalid authentication code")
+
+  const handleDisable = () =>
+    run(async () => {
+      await authApi.disableTwoFactor(password, code.trim())
+      setPassword("")
+      setCode("")
+      setRecoveryCodes(null)
+      setMessage({ type: "success", text: "Two-factor authentication disabled" })
+      await loadStatus()
+    }, "Failed to disable two-factor authentication")
+
+  const handleRegenerate = () =>
+    run(async () => {
+      setRecoveryCodes(await authApi.regenerateRecoveryCodes(code.trim()))
+      setCode("")
+      await loadStatus()
+    }, "Failed to generate new recovery codes")
+
+  const codeInput = (
+    <Input
+      type="text"
+      inputMode="numeric"
+      autoComplete="one-time-code"
+      placeholder="6-digit code"
+      maxLength={6}
+      value={code}
+      onChange={(e) => setCode(e.target.value)}
+      className="flex-1 min-w-0"
+    />
+  )
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      <h2 className="text-lg font-semibold text-design-text">Two-factor authentication</h2>
+
+      {!status ? (
+        <p className="text-sm text-design-text-muted">Loading...</p>
+      ) : status.enabled ? (
+        <>
+          <p className="text-sm text-design-text-muted">
+            Enabled. {status.recoveryCodesRemaining} recovery codes remaining.
+            {status.required && " Two-factor authentication is mandatory for your account."}
+          </p>
+          <div className="flex gap-2">
+            {codeInput}
+            <Button variant="secondary" onClick={handleRegenerate} disabled={isSubmitting || code.length !== 6}>
+              New recovery codes
+            </Button>
+          </div>
+          {!status.required && (
+            <div className="flex gap-2">
+              <Input
+                type="password"
+                placeholder="Current password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="flex-1 min-w-0"
+              />
+              <Button
+                variant="destructive"
+                onClick={handleDisable}
+                disabled={isSubmitting || !password || code.length !== 6}
+              >
+                Disable
+              </Button>
+            </div>
+          )}
+        </>
+      ) : setup ? (
+        <>
+          <p className="text-sm text-design-text-muted">
+            Scan the QR code with your authenticator app, then enter the code it shows.
+          </p>
+          <img src={setup.qrCode} alt="Two-factor QR code" className="h-44 w-44 rounded-lg bg-white" />
+          <p className="break-all text-xs text-design-text-muted">
+            Manual key: <span className="font-mono">{setup.secret}</span>
+          </p>
+          <div className="flex gap-2">
+            {codeInput}
+            <Button onClick={handleEnable} disabled={isSubmitting || code.length !== 6}>
+              Confirm
+            </Button>
+          </div>
+        </>
+      ) : (
+        <>
+          <p className="text-sm text-design-text-muted">
+            Protect your account with a code from an authenticator app in addition to your password.
+          </p>
+          <Button onClick={handleStartSetup} disabled={isSubmitting}>
+            Enable two-factor authentication
+          </Button>
+        </>
+      )}
+
+      {recoveryCodes && (
+        <div className="space-y-2 rounded-lg bg-design-surface-light p-4">
+          <p className="text-sm text-design-text">
+            Save these recovery codes somewhere safe. Each can be used once and they will not be shown again.
+          </p>
+          <div className="grid grid-cols-2 gap-1 font-mono text-sm text-design-text">
+            {recoveryCodes.map((recoveryCode) => (
+              <span key={recoveryCode}>{recoveryCode}</span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {message && (
+        <p className={cn("text-sm", message.type === "success" ? "text-design-primary" : "text-design-error")}>
+          {message.text}
+        </p>
+      )}
+    </div>
+  )
+}
+
+export default TwoFactorSection
@@ -4,6 +4,7 @@ import * as React from "react";
 import { motion } from "framer-motion";
 import { cn } from "@/lib/utils";
 import { ShoppingCart } from "lucide-react";
+import { formatPrice } from "@/utils/currency";
 
 // --- PROPS INTERFACE ---
 interface GameItemCardProps extends Omit<React.HTMLAttributes<HTMLDivElement>, 'onAnimationStart' | 'onAnimationEnd' | 'onAnimationIteration' | 'onDragStart' | 'onDrag' | 'onDragEnd'> {
@@ -14,6 +15,7 @@ interface GameItemCardProps extends Omit<React.HTMLAttributes<HTMLDivElement>, '
   title: string;
   price: number;
   originalPrice?: number;
+  currency?: string;
   platform: string;
   genre?: string;
   releaseDate?: string;
@@ -31,6 +33,7 @@ const GameItemCard = React.forwardRef<HTMLDivElement, GameItemCardProps>(
       title,
       price,
       originalPrice,
+      currency = "EUR",
       platform,
       genre,
       releaseDate,
@@ -129,10 +132,10 @@ const GameItemCard = React.forwardRef<HTMLDivElement, GameItemCardProps>(
           <div className="absolute inset-x-0 bottom-0 p-3 design-mobile:p-2 flex flex-col gap-1.5 design-mobile:gap-1 z-10">
             {/* Price row: current price, original price, discount badge */}
             <div className="flex items-baseline gap-2 design-mobile:gap-1.5 flex-wrap">
-              <span className="text-2xl design-mobile:text-xl design-tablet:text-lg font-extrabold text-white drop-shadow-lg">€{price.toFixed(2)}</span>
+              <span className="text-2xl design-mobile:text-xl design-tablet:text-lg font-extrabold text-white drop-shadow-lg">{formatPrice(price, currency)}</span>
               {originalPrice && originalPrice > price && (
                 <>
-                  <span className="text-sm design-mobile:text-xs line-through text-white/70 align-baseline">€{originalPrice.toFixed(2)}</span>
+                  <span className="text-sm design-mobile:text-xs line-through text-white/70 align-baseline">{formatPrice(originalPrice, currency)}</span>
                   {discount > 0 && (
                     <span className="px-2.5 design-mobile:px-2 py-1 design-mobile:py-0.5 text-xs design-mobile:text-[10px] font-bold rounded-full bg-design-primary text-black shadow-sm whitespace-nowrap">
                       -{discount}%
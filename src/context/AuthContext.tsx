@@ -1,6 +1,7 @@
 import { createContext, useContext, useState, useEffect, useRef } from 'react';
 import type { ReactNode } from 'react';
-import { authApi } from '../services/authApi';
+import { authApi, isTwoFactorChallenge } from '../services/authApi';
+import type { AuthResponse, TwoFactorChallengeResponse } from '../services/authApi';
 import apiClient from '../services/api';
 
 export interface User {
@@ -9,6 +10,10 @@ export interface User {
   name: string;
   avatar?: string;
   role?: string;
+  // Admin panel permissions; empty for customers
+  permissions?: string[];
+  // Storefront display currency; unset follows the browser language
+  displayCurrency?: string;
 }
 
 interface AuthContextType {
@@ -16,7 +21,13 @@ interface AuthContextType {
   token: string | null;
   isLoading: boolean;
   isAuthenticated: boolean;
-  login: (email: string, password: string) => Promise<void>;
+  // Resolves with a challenge when the account needs a second factor, otherwise with null
+  login: (email: string, password: string) => Promise<TwoFactorChallengeResponse | null>;
+  // Resolves with recovery codes when the login also completed 2FA enrolment
+  completeTwoFactorLogin: (
+    challengeToken: string,
+    credentials: { code?: string; recoveryCode?: string }
+  ) => Promise<string[] | undefined>;
   register: (email: string, password: string, nickname: string) => Promise<void>;
   logout: () => void;
   refreshToken: () => Promise<void>;
@@ -54,6 +65,8 @@ export function AuthProvider({ children }: AuthProviderProps) {
     lastName?: string;
     avatar?: string;
     role?: string;
+    permissions?: string[];
+    displayCurrency?: string;
   }): User {
     return {
       id: backendUser.id,
@@ -61,6 +74,8 @@ export function AuthProvider({ children }: AuthProviderProps) {
       name: backendUser.nickname || backendUser.email, // Transform nickname to name
       avatar: backendUser.avatar,
       role: backendUser.role,
+      permissions: backendUser.permissions,
+      displayCurrency: backendUser.displayCurrency,
     };
   }
 
@@ -144,32 +159,44 @@ export function AuthProvider({ children }: AuthProviderProps) {
     }
   }
 
+  function persistSession(response: AuthResponse) {
+    // Transform response to User format using transformUser for consistency
+    const user = transformUser(response.user);
+
+    const expiryTime = new Date();
+    expiryTime.setSeconds(expiryTime.getSeconds() + response.expiresIn);
+
+    // Store in state
+    setUser(user);
+    setToken(response.token);
+
+    // Token is already set in apiClient by authApi
+    // But we ensure it's set
+    apiClient.setToken(response.token);
+
+    // Store in localStorage
+    localStorage.setItem(TOKEN_KEY, response.token);
+    localStorage.setItem(REFRESH_TOKEN_KEY, response.refreshToken);
+    localStorage.setItem(USER_KEY, JSON.stringify(user));
+    localStorage.setItem(TOKEN_EXPIRY_KEY, expiryTime.toISOString());
+
+    return user;
+  }
+
   async function login(email: string, password: string) {
     setIsLoading(true);
     try {
       const response = await authApi.login({ email, password });
 
-      // Transform response to User format using transformUser for consistency
-      const user = transformUser(response.user);
-
-      const expiryTime = new Date();
-      expiryTime.setSeconds(expiryTime.getSeconds() + response.expiresIn);
-
-      // Store in state
-      setUser(user);
-      setToken(response.token);
-
-      // Token is already set in apiClient by authApi.login
-      // But we ensure it's set
-      apiClient.setToken(response.token);
+      if (isTwoFactorChallenge(response)) {
+        console.log('🔐 Two-factor authentication required');
+        return response;
+      }
 
-      // Store in localStorage
-      localStorage.setItem(TOKEN_KEY, response.token);
-      localStorage.setItem(REFRESH_TOKEN_KEY, response.refreshToken);
-      localStorage.setItem(USER_KEY, JSON.stringify(user));
-      localStorage.setItem(TOKEN_EXPIRY_KEY, expiryTime.toISOString());
+      const user = persistSession(response);
       
       console.log('✅ Login successful', { userId: user.id, email: user.email });
+      return null;
     } catch (error) {
       console.error('❌ Login failed:', error);
       clearAuth();
@@ -179,6 +206,22 @@ export function AuthProvider({ children }: AuthProviderProps) {
     }
   }
 
+  async function completeTwoFactorLogin(
+    challengeToken: string,
+    credentials: { code?: string; recoveryCode?: string }
+  ) {
+    setIsLoading(true);
+    try {
+      const response = await authApi.verifyTwoFactor({ challengeToken, ...credentials });
+      const user = persistSession(response);
+
+      console.log('✅ Two-factor login successful', { userId: user.id, email: user.email });
+      return response.recoveryCodes;
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
   async function register(email: string, password: string, nickname: string) {
     setIsLoading(true);
     try {
@@ -332,6 +375,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
     isLoading,
     isAuthenticated: !!user && !!token,
     login,
+    completeTwoFactorLogin,
     register,
     logout,
     refreshToken,
@@ -0,0 +1,61 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import apiClient from '../services/api';
+import { gamesApi, type DisplayCurrencyOptions } from '../services/gamesApi';
+import { userApi } from '../services/userApi';
+import { useAuth } from './AuthContext';
+import { CurrencyContext } from './currency';
+
+export const CurrencyProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [preference, setPreference] = useState<string | null>(() => apiClient.getCurrency());
+  const [options, setOptions] = useState<DisplayCurrencyOptions>({
+    currencies: ['EUR'],
+    detected: 'EUR',
+  });
+  const { user } = useAuth();
+
+  useEffect(() => {
+    gamesApi.getCurrencies().then(setOptions);
+  }, []);
+
+  // Signed-in customers keep the currency saved on their account. The client is switched
+  // while rendering so pages that load again with the new currency already send it.
+  const [accountCurrency, setAccountCurrency] = useState<string | undefined>();
+  if (user?.displayCurrency && user.displayCurrency !== accountCurrency) {
+    apiClient.setCurrency(user.displayCurrency);
+    setAccountCurrency(user.displayCurrency);
+    setPreference(user.displayCurrency);
+  }
+
+  const setCurrency = useCallback(
+    async (currency: string | null) => {
+      apiClient.setCurrency(currency);
+      setPreference(currency);
+
+      if (user) {
+        try {
+          await userApi.updateProfile({ displayCurrency: currency });
+        } catch (err) {
+          console.warn('Failed to save display currency:', err);
+        }
+      }
+    },
+    [user]
+  );
+
+  const currency =
+    preference && options.currencies.includes(preference) ? preference : options.detected;
+
+  return (
+    <CurrencyContext.Provider
+      value={{
+        currency,
+        preference,
+        currencies: options.currencies,
+        detected: options.detected,
+        setCurrency,
+      }}
+    >
+      {children}
+    </CurrencyContext.Provider>
+  );
+};
@@ -0,0 +1,14 @@
+import { createContext } from 'react';
+
+export interface CurrencyContextType {
+  // Currency storefront prices are requested in
+  currency: string;
+  // Chosen currency; null follows the browser language
+  preference: string | null;
+  currencies: string[];
+  detected: string;
+  setCurrency: (currency: string | null) => Promise<void>;
+}
+
+// Kept apart from CurrencyProvider so the provider module only exports components
+export const CurrencyContext = createContext<CurrencyContextType | undefined>(undefined);
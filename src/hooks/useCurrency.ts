@@ -0,0 +1,13 @@
+import { useContext } from 'react';
+import { CurrencyContext, type CurrencyContextType } from '../context/currency';
+
+/**
+ * Hook for the storefront display currency
+ */
+export const useCurrency = (): CurrencyContextType => {
+  const context = useContext(CurrencyContext);
+  if (context === undefined) {
+    throw new Error('useCurrency must be used within a CurrencyProvider');
+  }
+  return context;
+};
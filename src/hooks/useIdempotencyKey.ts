@@ -0,0 +1,27 @@
+/**
+ * useIdempotencyKey Hook
+ *
+ * Gives the Idempotency-Key for a payment request. The key stays the same while the
+ * payload does, so a double click or a retry after a network error cannot charge twice.
+ * A changed payload is a new request and gets a new key.
+ *
+ * @example
+ * ```tsx
+ * const getIdempotencyKey = useIdempotencyKey();
+ * await orderApi.createOrder(orderData, getIdempotencyKey(orderData));
+ * ```
+ */
+
+import { useCallback, useRef } from 'react';
+
+export function useIdempotencyKey() {
+  const current = useRef<{ payload: string; key: string } | null>(null);
+
+  return useCallback((payload: unknown): string => {
+    const serialized = JSON.stringify(payload);
+    if (!current.current || current.current.payload !== serialized) {
+      current.current = { payload: serialized, key: crypto.randomUUID() };
+    }
+    return current.current.key;
+  }, []);
+}
@@ -2,6 +2,7 @@
 import React, { useState, useEffect } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { gamesApi } from '../services/gamesApi';
+import { formatPrice } from '../utils/currency';
 import { motion } from 'framer-motion';
 import { cn } from '@/lib/utils';
 import { Container } from '../components/ui/container';
@@ -222,10 +223,10 @@ export default function CartPage() {
                               <p style={styles.recommendedTitle}>{game.title}</p>
                             </Link>
                             <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '8px' }}>
-                              <p style={styles.recommendedPrice}>€{game.price?.toFixed(2)}</p>
+                              <p style={styles.recommendedPrice}>{formatPrice(game.price, game.currency)}</p>
                               {game.originalPrice && game.originalPrice > game.price && (
                                 <span style={{ fontSize: '12px', color: theme.colors.textMuted, textDecoration: 'line-through' }}>
-                                  €{game.originalPrice.toFixed(2)}
+                                  {formatPrice(game.originalPrice, game.currency)}
                                 </span>
                               )}
                             </div>
@@ -2,6 +2,7 @@
 import React, { useState, useEffect } from 'react';
 import { Link, useSearchParams } from 'react-router-dom';
 import { gamesApi } from '../services/gamesApi';
+import { formatPrice } from '../utils/currency';
 import { Badge } from '../components/ui/badge';
 import { Container } from '../components/ui/container';
 import { GameFilters } from '../components/games/GameFilters';
@@ -95,10 +96,10 @@ const GameCard = ({ game, onWishlist, isWishlisted }) => {
           {/* Price overlay at bottom */}
           <div className="absolute inset-x-0 bottom-0 p-2 design-mobile:p-1.5 flex flex-col gap-1 design-mobile:gap-0.5 z-10">
             <div className="flex items-baseline gap-1.5 design-mobile:gap-1 flex-wrap">
-              <span className="text-lg design-mobile:text-base design-tablet:text-sm font-extrabold text-white drop-shadow-lg">€{typeof game.price === 'number' ? game.price.toFixed(2) : game.price}</span>
+              <span className="text-lg design-mobile:text-base design-tablet:text-sm font-extrabold text-white drop-shadow-lg">{typeof game.price === 'number' ? formatPrice(game.price, game.currency) : game.price}</span>
               {game.originalPrice && game.originalPrice > game.price && (
                 <>
-                  <span className="text-xs design-mobile:text-[10px] line-through text-white/70 align-baseline">€{typeof game.originalPrice === 'number' ? game.originalPrice.toFixed(2) : game.originalPrice}</span>
+                  <span className="text-xs design-mobile:text-[10px] line-through text-white/70 align-baseline">{typeof game.originalPrice === 'number' ? formatPrice(game.originalPrice, game.currency) : game.originalPrice}</span>
                   {discount > 0 && (
                     <span className="px-1.5 design-mobile:px-1 py-0.5 design-mobile:py-0 text-[10px] design-mobile:text-[9px] font-bold rounded-full bg-design-primary text-black shadow-sm whitespace-nowrap">
                       -{discount}%
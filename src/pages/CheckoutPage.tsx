@@ -4,12 +4,15 @@ import { motion } from 'framer-motion';
 import { toast } from 'sonner';
 import { useCart } from '../hooks/useCart';
 import { useAuth } from '../context/AuthContext';
+import { useIdempotencyKey } from '../hooks/useIdempotencyKey';
 import { CartItem as CartItemComponent } from '../components/cart/CartItem';
 import { CheckoutSummary } from '../components/cart/CheckoutSummary';
+import { GiftOptions } from '../components/cart/GiftOptions';
 import { gamesApi } from '../services/gamesApi';
 import { orderApi } from '../services/orderApi';
 import { Container } from '../components/ui/container';
 import type { Game } from '../services/gamesApi';
+import type { GiftOptions as GiftOptionsValue, OrderPaymentOptions } from '../services/orderApi';
 
 const theme = {
   colors: {
@@ -33,6 +36,9 @@ export default function CheckoutPage() {
   const [promoDiscount, setPromoDiscount] = useState(0);
   const [processing, setProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [isGift, setIsGift] = useState(false);
+  const [gift, setGift] = useState<GiftOptionsValue>({ recipientEmail: '', senderName: '' });
+  const getIdempotencyKey = useIdempotencyKey();
 
   // Redirect if not authenticated
   useEffect(() => {
@@ -79,7 +85,7 @@ export default function CheckoutPage() {
     return { success: false, discount: 0 };
   };
 
-  const handleCreateOrder = async (promoCode?: string) => {
+  const handleCreateOrder = async (promoCode?: string, payment?: OrderPaymentOptions) => {
     if (!cart || cart.items.length === 0) return;
 
     setProcessing(true);
@@ -91,9 +97,31 @@ export default function CheckoutPage() {
           quantity: item.quantity,
         })),
         promoCode: promoCode || undefined,
+        gift: isGift
+          ? {
+              ...gift,
+              message: gift.message || undefined,
+              // The date picker gives a day; deliver from midnight local time
+              deliverAt: gift.deliverAt
+                ? new Date(`${gift.deliverAt}T00:00:00`).toISOString()
+                : undefined,
+            }
+          : undefined,
+        payment,
       };
 
-      const order = await orderApi.createOrder(orderData);
+      const order = await orderApi.createOrder(orderData, getIdempotencyKey(orderData));
+
+      // The rest is paid at the gateway; the order continues once it confirms the payment
+      if (order.payment?.checkoutUrl) {
+        try {
+          await clearCart();
+        } catch (clearError) {
+          console.warn('Failed to clear cart after order:', clearError);
+        }
+        window.location.href = order.payment.checkoutUrl;
+        return;
+      }
       
       // Show success toast
       toast.success('Order created successfully!', {
@@ -116,7 +144,10 @@ export default function CheckoutPage() {
       navigate('/profile/orders', { 
         state: { 
           orderCreated: true,
-          orderId: order.id 
+          orderId: order.id,
+          giftRecipient: isGift ? gift.recipientEmail : undefined,
+          preorder: order.status === 'PREORDER',
+          onHold: order.status === 'ON_HOLD',
         },
         replace: true // Use replace to prevent back navigation to checkout
       });
@@ -275,6 +306,8 @@ export default function CheckoutPage() {
                 ))}
               </div>
 
+              <GiftOptions enabled={isGift} value={gift} onToggle={setIsGift} onChange={setGift} />
+
               {/* Recommended Games */}
               {recommendedGames.length > 0 && (
                 <>
@@ -2,6 +2,7 @@
 import React, { useState } from 'react';
 import { Link } from 'react-router-dom';
 import { motion } from 'framer-motion';
+import { authApi } from '../services/authApi';
 
 // Using design tokens from design-tokens.ts
 // Colors: background #121212, surface #242424, surfaceLight #2A2A2A, border #333333
@@ -54,11 +55,10 @@ export default function ForgotPasswordPage() {
     setError('');
     
     try {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 1500));
+      await authApi.forgotPassword({ email });
       setIsSubmitted(true);
     } catch (err) {
-      setError('Something went wrong. Please try again.');
+      setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
     } finally {
       setIsSubmitting(false);
     }
@@ -232,6 +232,8 @@ export default function ForgotPasswordPage() {
             <span style={styles.emailHighlight}>{email}</span>
           </p>
           <p style={{ ...styles.successText, fontSize: '13px', color: theme.colors.textMuted }}>
+            The link is valid for 60 minutes and opens the{' '}
+            <Link to="/reset-password" style={styles.loginLink}>password reset page</Link>.
             Didn't receive the email? Check your spam folder or try again with a different email address.
           </p>
           <button
@@ -3,6 +3,7 @@ import React, { useState, useRef, useEffect } from 'react';
 import { useParams, Link, useNavigate } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
 import { gamesApi } from '../services/gamesApi';
+import { formatPrice } from '../utils/currency';
 import { useCart } from '../hooks/useCart';
 import { useWishlist } from '../hooks/useWishlist';
 
@@ -172,7 +173,7 @@ const GameCard = ({ game, size = 'medium' }) => {
                 color: '#FFFFFF',
                 textShadow: '0 2px 8px rgba(0, 0, 0, 0.8)',
               }}>
-                €{typeof game.price === 'number' ? game.price.toFixed(2) : game.price}
+                {typeof game.price === 'number' ? formatPrice(game.price, game.currency) : game.price}
               </span>
               {game.originalPrice && game.originalPrice > game.price && (
                 <>
@@ -182,7 +183,7 @@ const GameCard = ({ game, size = 'medium' }) => {
                     textDecoration: 'line-through',
                     textShadow: '0 2px 8px rgba(0, 0, 0, 0.8)',
                   }}>
-                    €{typeof game.originalPrice === 'number' ? game.originalPrice.toFixed(2) : game.originalPrice}
+                    {typeof game.originalPrice === 'number' ? formatPrice(game.originalPrice, game.currency) : game.originalPrice}
                   </span>
                   {discount > 0 && (
                     <span style={{ 
@@ -608,7 +609,7 @@ export default function GameDetailPage() {
                     color: theme.colors.text,
                   }}
                 >
-                  {game.price.toFixed(2)}€
+                  {formatPrice(game.price, game.currency)}
                 </span>
                 {game.originalPrice && game.originalPrice > game.price && (
                   <span
@@ -618,7 +619,7 @@ export default function GameDetailPage() {
                       textDecoration: 'line-through',
                     }}
                   >
-                    {game.originalPrice.toFixed(2)}€
+                    {formatPrice(game.originalPrice, game.currency)}
                   </span>
                 )}
                 {discount > 0 && (
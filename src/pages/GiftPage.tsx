@@ -0,0 +1,201 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useLocation, useNavigate, useParams } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { useAuth } from '../context/AuthContext';
+import { orderApi, type GiftPreview } from '../services/orderApi';
+import { Container } from '../components/ui/container';
+
+const theme = {
+  colors: {
+    primary: '#00C8C2',
+    background: '#0D0D0D',
+    surface: '#1A1A1A',
+    surfaceLight: '#2A2A2A',
+    text: '#FFFFFF',
+    textSecondary: '#999999',
+    textMuted: '#666666',
+    border: '#333333',
+  },
+};
+
+const buttonStyle: React.CSSProperties = {
+  display: 'inline-block',
+  padding: '14px 32px',
+  backgroundColor: theme.colors.primary,
+  color: '#000',
+  border: 'none',
+  borderRadius: '8px',
+  fontSize: '16px',
+  fontWeight: '700',
+  textDecoration: 'none',
+  cursor: 'pointer',
+};
+
+export default function GiftPage() {
+  const { token = '' } = useParams<{ token: string }>();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { isAuthenticated } = useAuth();
+  const [gift, setGift] = useState<GiftPreview | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRedeeming, setIsRedeeming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadGift = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        setGift(await orderApi.getGift(token));
+      } catch (err) {
+        console.error('Failed to load gift:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load gift');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadGift();
+  }, [token, isAuthenticated]);
+
+  const handleRedeem = async () => {
+    if (!isAuthenticated) {
+      // Come back here after signing in
+      navigate('/login', { state: { from: location } });
+      return;
+    }
+
+    setIsRedeeming(true);
+    setError(null);
+    try {
+      setGift(await orderApi.redeemGift(token));
+    } catch (err) {
+      console.error('Failed to redeem gift:', err);
+      setError(err instanceof Error ? err.message : 'Failed to redeem gift');
+    } finally {
+      setIsRedeeming(false);
+    }
+  };
+
+  return (
+    <main style={{ minHeight: '100vh', backgroundColor: theme.colors.background }}>
+      <Container padding="md">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          style={{
+            maxWidth: '560px',
+            margin: '48px auto',
+            padding: '32px',
+            backgroundColor: theme.colors.surface,
+            border: `1px solid ${theme.colors.border}`,
+            borderRadius: '16px',
+            textAlign: 'center',
+            color: theme.colors.text,
+          }}
+        >
+          {isLoading ? (
+            <p style={{ color: theme.colors.textSecondary }}>Loading...</p>
+          ) : !gift ? (
+            <>
+              <h1 style={{ fontSize: '24px', fontWeight: '700', marginBottom: '12px' }}>
+                Gift not found
+              </h1>
+              <p style={{ color: theme.colors.textSecondary, marginBottom: '24px' }}>
+                {error || 'This gift link is not valid anymore.'}
+              </p>
+              <Link to="/" style={buttonStyle}>
+                Go to the store
+              </Link>
+            </>
+          ) : (
+            <>
+              <div style={{ fontSize: '48px', marginBottom: '12px' }}>🎁</div>
+              <h1 style={{ fontSize: '24px', fontWeight: '700', marginBottom: '8px' }}>
+                {gift.senderName} sent you a gift
+              </h1>
+              {gift.message && (
+                <p
+                  style={{
+                    margin: '20px 0',
+                    padding: '16px',
+                    borderLeft: `3px solid ${theme.colors.primary}`,
+                    backgroundColor: theme.colors.background,
+                    textAlign: 'left',
+                    fontStyle: 'italic',
+                    whiteSpace: 'pre-line',
+                  }}
+                >
+                  {gift.message}
+                </p>
+              )}
+
+              <div style={{ display: 'grid', gap: '12px', margin: '24px 0', textAlign: 'left' }}>
+                {gift.games.map((game) => (
+                  <div
+                    key={game.id}
+                    style={{
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: '16px',
+                      padding: '12px',
+                      backgroundColor: theme.colors.surfaceLight,
+                      borderRadius: '8px',
+                    }}
+                  >
+                    <img
+                      src={game.image}
+                      alt={game.title}
+                      style={{ width: '48px', height: '60px', objectFit: 'cover', borderRadius: '6px' }}
+                    />
+                    <span style={{ fontWeight: '600' }}>{game.title}</span>
+                    {game.quantity > 1 && (
+                      <span style={{ marginLeft: 'auto', color: theme.colors.textSecondary }}>
+                        × {game.quantity}
+                      </span>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              {error && <p style={{ color: '#FF4444', fontSize: '14px', marginBottom: '16px' }}>{error}</p>}
+
+              {gift.redeemedByYou ? (
+                <>
+                  <p style={{ color: theme.colors.primary, marginBottom: '16px' }}>
+                    The keys are in your library.
+                  </p>
+                  <Link to="/profile/keys" style={buttonStyle}>
+                    Open My Keys
+                  </Link>
+                </>
+              ) : gift.redeemed ? (
+                <p style={{ color: theme.colors.textSecondary }}>This gift has already been claimed.</p>
+              ) : (
+                <>
+                  <button
+                    type="button"
+                    onClick={handleRedeem}
+                    disabled={isRedeeming}
+                    style={{ ...buttonStyle, opacity: isRedeeming ? 0.6 : 1 }}
+                  >
+                    {isRedeeming ? 'Claiming...' : 'Claim My Gift'}
+                  </button>
+                  {!isAuthenticated && (
+                    <p style={{ marginTop: '16px', fontSize: '13px', color: theme.colors.textMuted }}>
+                      Sign in or{' '}
+                      <Link to="/register" style={{ color: theme.colors.primary }}>
+                        create a free account
+                      </Link>{' '}
+                      to add the keys to your library.
+                    </p>
+                  )}
+                </>
+              )}
+            </>
+          )}
+        </motion.div>
+      </Container>
+    </main>
+  );
+}
@@ -7,6 +7,7 @@ import  apiClient  from '../services/api';
 import { authApi } from '../services/authApi';
 import { validateLoginForm } from '../utils/authValidation';
 import { getAuthErrorMessage } from '../utils/authErrors';
+import TwoFactorLoginStep from '../components/auth/TwoFactorLoginStep';
 
 
 // Using design tokens from design-tokens.ts
@@ -52,6 +53,7 @@ export default function LoginPage() {
   });
   const [errors, setErrors] = useState({});
   const [successMessage, setSuccessMessage] = useState('');
+  const [twoFactorChallenge, setTwoFactorChallenge] = useState(null);
 
   // Get redirect URL from query params or default to home
   const from = location.state?.from?.pathname || '/';
@@ -100,7 +102,11 @@ export default function LoginPage() {
     setErrors({});
     
     try {
-      await login(formData.email, formData.password);
+      const challenge = await login(formData.email, formData.password);
+      if (challenge) {
+        setTwoFactorChallenge(challenge);
+        return;
+      }
       setSuccessMessage('Login successful! Redirecting...');
       setTimeout(() => {
         navigate(from, { replace: true });
@@ -373,6 +379,22 @@ export default function LoginPage() {
           <div style={styles.successMessage}>{successMessage}</div>
         )}
 
+        {twoFactorChallenge ? (
+          <TwoFactorLoginStep
+            challenge={twoFactorChallenge}
+            onSuccess={() => {
+              setTwoFactorChallenge(null);
+              setSuccessMessage('Login successful! Redirecting...');
+              setTimeout(() => {
+                navigate(from, { replace: true });
+              }, 500);
+            }}
+            onCancel={() => {
+              setTwoFactorChallenge(null);
+              setFormData((prev) => ({ ...prev, password: '' }));
+            }}
+          />
+        ) : (
         <form onSubmit={handleSubmit} style={styles.form}>
           <div style={styles.inputGroup}>
             <label style={styles.label}>Email</label>
@@ -458,6 +480,7 @@ export default function LoginPage() {
             )}
           </button>
         </form>
+        )}
 
         <div style={styles.divider}>
           <div style={styles.dividerLine} />
@@ -2,7 +2,10 @@ import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import ProfileLayout from '../components/profile/ProfileLayout';
 import { paymentApi } from '../services/paymentApi';
+import { userApi } from '../services/userApi';
+import { useIdempotencyKey } from '../hooks/useIdempotencyKey';
 import apiClient from '../services/api';
+import { saveBlob } from '../lib/utils';
 
 const theme = {
   colors: {
@@ -63,6 +66,49 @@ export default function ProfileBalancePage() {
   const [currentBalance, setCurrentBalance] = useState(null);
   const [loadingBalance, setLoadingBalance] = useState(true);
   const [error, setError] = useState(null);
+  const [topUps, setTopUps] = useState([]);
+  const [pendingTopUps, setPendingTopUps] = useState([]);
+  const [downloadingInvoice, setDownloadingInvoice] = useState(null);
+  const getIdempotencyKey = useIdempotencyKey();
+
+  // Load paid top-ups; balance corrections by staff have no payment method and no invoice
+  useEffect(() => {
+    const loadTopUps = async () => {
+      const transactions = await userApi.getTransactions();
+      setTopUps(
+        transactions.filter(
+          (t) => t.type === 'TOP_UP' && t.status === 'COMPLETED' && t.method
+        )
+      );
+    };
+    loadTopUps();
+  }, []);
+
+  // Load top-ups that were started but not paid yet
+  useEffect(() => {
+    const loadPendingTopUps = async () => {
+      try {
+        setPendingTopUps(await paymentApi.getPendingTopUps());
+      } catch (err) {
+        console.error('Failed to load pending top-ups:', err);
+      }
+    };
+    loadPendingTopUps();
+  }, []);
+
+  const handleDownloadInvoice = async (transactionId) => {
+    setDownloadingInvoice(transactionId);
+    setError(null);
+    try {
+      const blob = await userApi.getTopUpInvoice(transactionId);
+      saveBlob(blob, `invoice-${transactionId.slice(0, 8)}.pdf`);
+    } catch (err) {
+      console.error('Failed to download invoice:', err);
+      setError(err instanceof Error ? err.message : 'Failed to download invoice');
+    } finally {
+      setDownloadingInvoice(null);
+    }
+  };
 
   // Load current balance
   useEffect(() => {
@@ -96,12 +142,13 @@ export default function ProfileBalancePage() {
     setError(null);
     
     try {
-      const intent = await paymentApi.createBalanceTopUp({
+      const topUp = {
         amount: parseFloat(amount),
         currency: 'EUR',
         paymentMethod: selectedPaymentMethod,
         promoCode: promoCode.trim() || undefined,
-      });
+      };
+      const intent = await paymentApi.createBalanceTopUp(topUp, getIdempotencyKey(topUp));
       
       // Redirect to payment gateway
       if (intent.redirectUrl) {
@@ -367,6 +414,131 @@ export default function ProfileBalancePage() {
             </motion.button>
           </div>
         </motion.div>
+
+        {/* Pending Top-ups */}
+        {pendingTopUps.length > 0 && (
+          <motion.div
+            variants={itemVariants}
+            style={{
+              marginTop: '24px',
+              backgroundColor: theme.colors.surface,
+              borderRadius: '16px',
+              padding: '24px',
+              border: `1px solid ${theme.colors.border}`,
+            }}
+          >
+            <h3
+              style={{
+                fontSize: '16px',
+                fontWeight: '500',
+                color: theme.colors.text,
+                margin: '0 0 12px 0',
+              }}
+            >
+              Waiting for payment
+            </h3>
+            {pendingTopUps.map((intent) => (
+              <div
+                key={intent.id}
+                style={{
+                  display: 'flex',
+                  justifyContent: 'space-between',
+                  alignItems: 'center',
+                  gap: '12px',
+                  padding: '12px 0',
+                  borderBottom: `1px solid ${theme.colors.border}`,
+                }}
+              >
+                <div>
+                  <div style={{ color: theme.colors.text, fontSize: '14px', fontWeight: '600' }}>
+                    {Number(intent.requestedAmount).toFixed(2)} {intent.requestedCurrency}
+                  </div>
+                  <div style={{ color: theme.colors.textMuted, fontSize: '12px' }}>
+                    {intent.paymentMethod} · expires {new Date(intent.expiresAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  </div>
+                </div>
+                <a
+                  href={intent.redirectUrl}
+                  style={{
+                    padding: '8px 14px',
+                    border: `1px solid ${theme.colors.primary}`,
+                    borderRadius: '8px',
+                    color: theme.colors.primary,
+                    fontSize: '13px',
+                    fontWeight: '500',
+                    textDecoration: 'none',
+                  }}
+                >
+                  Continue payment
+                </a>
+              </div>
+            ))}
+          </motion.div>
+        )}
+
+        {/* Top-up History */}
+        {topUps.length > 0 && (
+          <motion.div
+            variants={itemVariants}
+            style={{
+              marginTop: '24px',
+              backgroundColor: theme.colors.surface,
+              borderRadius: '16px',
+              padding: '24px',
+              border: `1px solid ${theme.colors.border}`,
+            }}
+          >
+            <h3
+              style={{
+                fontSize: '16px',
+                fontWeight: '500',
+                color: theme.colors.text,
+                margin: '0 0 12px 0',
+              }}
+            >
+              Top-up history
+            </h3>
+            {topUps.map((topUp) => (
+              <div
+                key={topUp.id}
+                style={{
+                  display: 'flex',
+                  justifyContent: 'space-between',
+                  alignItems: 'center',
+                  gap: '12px',
+                  padding: '12px 0',
+                  borderBottom: `1px solid ${theme.colors.border}`,
+                }}
+              >
+                <div>
+                  <div style={{ color: theme.colors.text, fontSize: '14px', fontWeight: '600' }}>
+                    {Number(topUp.amount).toFixed(2)}€
+                  </div>
+                  <div style={{ color: theme.colors.textMuted, fontSize: '12px' }}>
+                    {new Date(topUp.createdAt).toLocaleDateString()} · {topUp.method}
+                  </div>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => handleDownloadInvoice(topUp.id)}
+                  disabled={downloadingInvoice === topUp.id}
+                  style={{
+                    padding: '8px 14px',
+                    backgroundColor: 'transparent',
+                    border: `1px solid ${theme.colors.primary}`,
+                    borderRadius: '8px',
+                    color: theme.colors.primary,
+                    fontSize: '13px',
+                    fontWeight: '500',
+                    cursor: downloadingInvoice === topUp.id ? 'wait' : 'pointer',
+                  }}
+                >
+                  {downloadingInvoice === topUp.id ? 'Downloading...' : 'Invoice (PDF)'}
+                </button>
+              </div>
+            ))}
+          </motion.div>
+        )}
       </motion.div>
     </ProfileLayout>
   );
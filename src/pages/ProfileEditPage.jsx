@@ -1,7 +1,12 @@
 import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import ProfileLayout from '../components/profile/ProfileLayout';
+import TwoFactorSection from '../components/profile/TwoFactorSection';
+import ActiveSessionsSection from '../components/profile/ActiveSessionsSection';
+import EmailChangeSection from '../components/profile/EmailChangeSection';
+import PrivacySection from '../components/profile/PrivacySection';
 import { useAuth } from '../hooks/useAuth';
+import { useCurrency } from '../hooks/useCurrency';
 import { userApi } from '../services/userApi';
 
 const theme = {
@@ -116,6 +121,7 @@ const InputField = ({ label, type = 'text', value, onChange, placeholder, disabl
 
 export default function ProfileEditPage() {
   const { user } = useAuth();
+  const { preference, currencies, detected, setCurrency } = useCurrency();
   const [profile, setProfile] = useState(null);
   const [loadingProfile, setLoadingProfile] = useState(true);
 
@@ -303,6 +309,46 @@ export default function ProfileEditPage() {
             disabled={true}
             placeholder="Email"
           />
+          <div style={{ marginBottom: '16px' }}>
+            <label
+              htmlFor="input-display-currency"
+              style={{
+                display: 'block',
+                fontSize: '12px',
+                color: theme.colors.textSecondary,
+                marginBottom: '8px',
+              }}
+            >
+              Price Currency
+            </label>
+            <select
+              id="input-display-currency"
+              value={preference || ''}
+              onChange={(e) => setCurrency(e.target.value || null)}
+              style={{
+                width: '100%',
+                padding: '14px 16px',
+                backgroundColor: theme.colors.surfaceLight,
+                border: `1px solid ${theme.colors.border}`,
+                borderRadius: '8px',
+                color: theme.colors.text,
+                fontSize: '14px',
+                outline: 'none',
+                boxSizing: 'border-box',
+                cursor: 'pointer',
+              }}
+            >
+              <option value="">Auto ({detected})</option>
+              {currencies.map((code) => (
+                <option key={code} value={code}>
+                  {code}
+                </option>
+              ))}
+            </select>
+            <p style={{ fontSize: '12px', color: theme.colors.textMuted, marginTop: '8px' }}>
+              Prices are shown in this currency. Payments and your balance stay in EUR.
+            </p>
+          </div>
 
           {/* Profile Message */}
           {profileMessage && (
@@ -368,6 +414,13 @@ export default function ProfileEditPage() {
           </div>
         </motion.div>
 
+        {/* Email Change Section */}
+        <motion.div variants={itemVariants}>
+          <EmailChangeSection
+            onEmailChanged={(email) => setProfileForm((prev) => ({ ...prev, email }))}
+          />
+        </motion.div>
+
         {/* Password Change Section */}
         <motion.div variants={itemVariants}>
           <h2
@@ -450,6 +503,21 @@ export default function ProfileEditPage() {
             </motion.button>
           </div>
         </motion.div>
+
+        {/* Two-Factor Authentication Section */}
+        <motion.div variants={itemVariants}>
+          <TwoFactorSection />
+        </motion.div>
+
+        {/* Active Sessions Section */}
+        <motion.div variants={itemVariants}>
+          <ActiveSessionsSection />
+        </motion.div>
+
+        {/* Privacy Section */}
+        <motion.div variants={itemVariants}>
+          <PrivacySection />
+        </motion.div>
       </motion.div>
     </ProfileLayout>
   );
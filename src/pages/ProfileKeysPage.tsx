@@ -0,0 +1,415 @@
+import React, { useState, useEffect } from 'react';
+import { motion, type Variants } from 'framer-motion';
+import { Link } from 'react-router-dom';
+import ProfileLayout from '../components/profile/ProfileLayout';
+import { userApi, type KeyLibraryGroup, type LibraryKey } from '../services/userApi';
+
+const theme = {
+  colors: {
+    primary: '#00C8C2',
+    background: '#0D0D0D',
+    surface: '#1A1A1A',
+    surfaceLight: '#2A2A2A',
+    text: '#FFFFFF',
+    textSecondary: '#999999',
+    textMuted: '#666666',
+    border: '#333333',
+  },
+};
+
+const containerVariants: Variants = {
+  hidden: { opacity: 0 },
+  visible: {
+    opacity: 1,
+    transition: {
+      staggerChildren: 0.05,
+    },
+  },
+};
+
+const itemVariants: Variants = {
+  hidden: { opacity: 0, y: 20 },
+  visible: {
+    opacity: 1,
+    y: 0,
+    transition: {
+      duration: 0.4,
+      ease: [0.25, 0.1, 0.25, 1],
+    },
+  },
+};
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+
+const buttonStyle = (primary: boolean): React.CSSProperties => ({
+  padding: '8px 14px',
+  backgroundColor: primary ? theme.colors.primary : 'transparent',
+  color: primary ? '#000' : theme.colors.text,
+  border: primary ? 'none' : `1px solid ${theme.colors.border}`,
+  borderRadius: '8px',
+  fontSize: '13px',
+  fontWeight: '600',
+  cursor: 'pointer',
+  whiteSpace: 'nowrap',
+});
+
+export default function ProfileKeysPage() {
+  const [library, setLibrary] = useState<KeyLibraryGroup[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [revealedKeys, setRevealedKeys] = useState<Record<string, string>>({});
+  const [busyKeyId, setBusyKeyId] = useState<string | null>(null);
+  const [copiedKeyId, setCopiedKeyId] = useState<string | null>(null);
+  const [openGuide, setOpenGuide] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadLibrary = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const groups = await userApi.getKeyLibrary();
+        setLibrary(groups || []);
+      } catch (err) {
+        console.error('Failed to load key library:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load your keys');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadLibrary();
+  }, []);
+
+  const updateKey = (keyId: string, changes: Partial<LibraryKey>) => {
+    setLibrary((groups) =>
+      groups.map((group) => ({
+        ...group,
+        keys: group.keys.map((key) => (key.id === keyId ? { ...key, ...changes } : key)),
+      }))
+    );
+  };
+
+  const handleReveal = async (keyId: string) => {
+    setBusyKeyId(keyId);
+    setError(null);
+    try {
+      const result = await userApi.revealKey(keyId);
+      setRevealedKeys((prev) => ({ ...prev, [keyId]: result.key }));
+      updateKey(keyId, { lastRevealedAt: new Date().toISOString() });
+    } catch (err) {
+      console.error('Failed to reveal key:', err);
+      setError(err instanceof Error ? err.message : 'Failed to reveal key');
+    } finally {
+      setBusyKeyId(null);
+    }
+  };
+
+  const handleCopy = async (keyId: string) => {
+    try {
+      await navigator.clipboard.writeText(revealedKeys[keyId]);
+      setCopiedKeyId(keyId);
+      setTimeout(() => setCopiedKeyId(null), 2000);
+    } catch (err) {
+      console.error('Failed to copy key:', err);
+    }
+  };
+
+  const handleMarkActivated = async (keyId: string) => {
+    if (!confirm('Mark this key as activated? This cannot be undone.')) {
+      return;
+    }
+    setBusyKeyId(keyId);
+    setError(null);
+    try {
+      const result = await userApi.markKeyActivated(keyId);
+      updateKey(keyId, { activated: result.activated, activationDate: result.activationDate });
+    } catch (err) {
+      console.error('Failed to mark key as activated:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update key');
+    } finally {
+      setBusyKeyId(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <ProfileLayout>
+        <div
+          style={{
+            display: 'flex',
+            justifyContent: 'center',
+            alignItems: 'center',
+            minHeight: '200px',
+          }}
+        >
+          <div
+            style={{
+              width: '40px',
+              height: '40px',
+              border: '3px solid ' + theme.colors.border,
+              borderTopColor: theme.colors.primary,
+              borderRadius: '50%',
+              animation: 'spin 0.8s linear infinite',
+            }}
+          />
+          <style>
+            {`
+              @keyframes spin {
+                to { transform: rotate(360deg); }
+              }
+            `}
+          </style>
+        </div>
+      </ProfileLayout>
+    );
+  }
+
+  return (
+    <ProfileLayout>
+      <div>
+        {error && (
+          <motion.div
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            style={{
+              padding: '12px 16px',
+              backgroundColor: 'rgba(255, 68, 68, 0.1)',
+              border: `1px solid #FF4444`,
+              borderRadius: '8px',
+              color: '#FF4444',
+              fontSize: '14px',
+              marginBottom: '24px',
+            }}
+          >
+            {error}
+          </motion.div>
+        )}
+
+        {library.length === 0 ? (
+          /* Empty State */
+          <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }}>
+            <h2
+              style={{
+                fontSize: '24px',
+                fontWeight: '600',
+                color: theme.colors.text,
+                margin: '0 0 8px 0',
+              }}
+            >
+              No keys yet
+            </h2>
+            <p
+              style={{
+                fontSize: '14px',
+                color: theme.colors.textSecondary,
+                margin: '0 0 20px 0',
+              }}
+            >
+              Keys from your completed orders will appear here.
+            </p>
+            <Link
+              to="/catalog"
+              style={{
+                display: 'inline-block',
+                padding: '12px 32px',
+                backgroundColor: theme.colors.primary,
+                color: '#000',
+                borderRadius: '8px',
+                textDecoration: 'none',
+                fontWeight: '600',
+                fontSize: '14px',
+              }}
+            >
+              Go to Store
+            </Link>
+          </motion.div>
+        ) : (
+          <motion.div
+            variants={containerVariants}
+            initial="hidden"
+            animate="visible"
+            style={{ display: 'flex', flexDirection: 'column', gap: '16px' }}
+          >
+            {library.map((group) => {
+              const groupId = `${group.game.id}:${group.platform}`;
+              const guideOpen = openGuide === groupId;
+
+              return (
+                <motion.div
+                  key={groupId}
+                  variants={itemVariants}
+                  style={{
+                    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+                    borderRadius: '12px',
+                    padding: '20px',
+                  }}
+                >
+                  {/* Game header */}
+                  <div style={{ display: 'flex', alignItems: 'center', gap: '16px' }}>
+                    <img
+                      src={group.game.image || 'https://via.placeholder.com/64x64?text=Game'}
+                      alt={group.game.title}
+                      style={{
+                        width: '64px',
+                        height: '64px',
+                        borderRadius: '8px',
+                        objectFit: 'cover',
+                      }}
+                    />
+                    <div style={{ flex: 1, minWidth: 0 }}>
+                      <Link
+                        to={`/game/${group.game.slug}`}
+                        style={{
+                          color: theme.colors.text,
+                          fontSize: '16px',
+                          fontWeight: '600',
+                          textDecoration: 'none',
+                        }}
+                      >
+                        {group.game.title}
+                      </Link>
+                      <div
+                        style={{
+                          fontSize: '13px',
+                          color: theme.colors.textSecondary,
+                          marginTop: '4px',
+                        }}
+                      >
+                        {group.platform} · {group.activation.service}
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => setOpenGuide(guideOpen ? null : groupId)}
+                      style={buttonStyle(false)}
+                    >
+                      {guideOpen ? 'Hide instructions' : 'How to activate'}
+                    </button>
+                  </div>
+
+                  {/* Activation instructions */}
+                  {guideOpen && (
+                    <div
+                      style={{
+                        marginTop: '16px',
+                        padding: '16px',
+                        backgroundColor: theme.colors.surface,
+                        borderRadius: '8px',
+                        fontSize: '14px',
+                        color: theme.colors.textSecondary,
+                      }}
+                    >
+                      <ol style={{ margin: 0, paddingLeft: '20px', lineHeight: 1.7 }}>
+                        {group.activation.steps.map((step) => (
+                          <li key={step}>{step}</li>
+                        ))}
+                      </ol>
+                      {group.activation.redeemUrl && (
+                        <a
+                          href={group.activation.redeemUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          style={{
+                            display: 'inline-block',
+                            marginTop: '12px',
+                            color: theme.colors.primary,
+                            textDecoration: 'none',
+                            fontWeight: '600',
+                          }}
+                        >
+                          Redeem on {group.activation.service} →
+                        </a>
+                      )}
+                    </div>
+                  )}
+
+                  {/* Keys */}
+                  <div
+                    style={{
+                      display: 'flex',
+                      flexDirection: 'column',
+                      gap: '8px',
+                      marginTop: '16px',
+                    }}
+                  >
+                    {group.keys.map((key) => {
+                      const revealed = revealedKeys[key.id];
+                      const busy = busyKeyId === key.id;
+
+                      return (
+                        <div
+                          key={key.id}
+                          style={{
+                            display: 'flex',
+                            alignItems: 'center',
+                            gap: '12px',
+                            flexWrap: 'wrap',
+                            padding: '12px 16px',
+                            backgroundColor: theme.colors.surface,
+                            borderRadius: '8px',
+                          }}
+                        >
+                          <div style={{ flex: 1, minWidth: '200px' }}>
+                            <div
+                              style={{
+                                fontFamily: 'monospace',
+                                fontSize: '15px',
+                                color: theme.colors.text,
+                                wordBreak: 'break-all',
+                              }}
+                            >
+                              {revealed || key.maskedKey}
+                            </div>
+                            <div
+                              style={{
+                                fontSize: '12px',
+                                color: theme.colors.textMuted,
+                                marginTop: '4px',
+                              }}
+                            >
+                              Purchased {formatDate(key.purchasedAt)}
+                              {key.activated
+                                ? ` · Activated${key.activationDate ? ` ${formatDate(key.activationDate)}` : ''}`
+                                : ' · Not activated'}
+                            </div>
+                          </div>
+
+                          {revealed ? (
+                            <button onClick={() => handleCopy(key.id)} style={buttonStyle(true)}>
+                              {copiedKeyId === key.id ? 'Copied!' : 'Copy'}
+                            </button>
+                          ) : (
+                            <button
+                              onClick={() => handleReveal(key.id)}
+                              disabled={busy}
+                              style={{ ...buttonStyle(true), opacity: busy ? 0.6 : 1 }}
+                            >
+                              Reveal
+                            </button>
+                          )}
+                          {!key.activated && (
+                            <button
+                              onClick={() => handleMarkActivated(key.id)}
+                              disabled={busy}
+                              style={{ ...buttonStyle(false), opacity: busy ? 0.6 : 1 }}
+                            >
+                              Mark as activated
+                            </button>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                </motion.div>
+              );
+            })}
+          </motion.div>
+        )}
+      </div>
+    </ProfileLayout>
+  );
+}
@@ -3,6 +3,7 @@ import { motion } from 'framer-motion';
 import { Link, useLocation } from 'react-router-dom';
 import ProfileLayout from '../components/profile/ProfileLayout';
 import { orderApi } from '../services/orderApi';
+import { saveBlob } from '../lib/utils';
 
 const theme = {
   colors: {
@@ -46,8 +47,13 @@ const StatusBadge = ({ status }) => {
       case 'COMPLETED':
         return { bg: 'rgba(0, 200, 194, 0.15)', text: theme.colors.primary };
       case 'PENDING':
+      case 'AWAITING_PAYMENT':
         return { bg: 'rgba(255, 217, 61, 0.15)', text: '#FFD93D' };
+      case 'PREORDER':
+        return { bg: 'rgba(139, 92, 246, 0.15)', text: '#A78BFA' };
+      case 'ON_HOLD':
       case 'PROCESSING':
+      case 'PARTIALLY_COMPLETED':
         return { bg: 'rgba(255, 217, 61, 0.15)', text: '#FFD93D' };
       case 'CANCELLED':
       case 'FAILED':
@@ -58,7 +64,7 @@ const StatusBadge = ({ status }) => {
   };
 
   const colors = getStatusColor(status);
-  const displayStatus = status?.charAt(0).toUpperCase() + status?.slice(1).toLowerCase() || 'Unknown';
+  const displayStatus = status?.charAt(0).toUpperCase() + status?.slice(1).toLowerCase().replace(/_/g, ' ') || 'Unknown';
   return (
     <span
       style={{
@@ -85,12 +91,318 @@ const formatDate = (dateString) => {
   });
 };
 
+const HISTORY_LABELS = {
+  PENDING: 'Order placed',
+  AWAITING_PAYMENT: 'Waiting for payment',
+  PREORDER: 'Preorder placed',
+  ON_HOLD: 'Security check',
+  PROCESSING: 'Delivering keys',
+  PARTIALLY_COMPLETED: 'Partially delivered',
+  COMPLETED: 'Completed',
+  FAILED: 'Delivery failed',
+  CANCELLED: 'Cancelled',
+};
+
+const describeFulfillment = (item) => {
+  const delivered = `${item.fulfilledQuantity} of ${item.quantity} delivered`;
+  switch (item.fulfillmentStatus) {
+    case 'REFUNDED':
+      return item.fulfilledQuantity > 0
+        ? `${delivered}, ${item.refundedQuantity} refunded to your balance`
+        : 'Refunded to your balance';
+    case 'FAILED':
+      return `${delivered}. We are working on the rest.`;
+    default:
+      return item.fulfilledQuantity > 0 ? delivered : 'Awaiting delivery';
+  }
+};
+
+const formatDateTime = (dateString) =>
+  new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+const OrderTimeline = ({ history }) => (
+  <div style={{ display: 'flex', flexDirection: 'column', gap: '8px', marginTop: '12px' }}>
+    {history.map((entry) => (
+      <div key={entry.id} style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
+        <StatusBadge status={entry.toStatus} />
+        <span style={{ fontSize: '13px', color: theme.colors.text }}>
+          {HISTORY_LABELS[entry.toStatus] || entry.toStatus}
+          {entry.actorType === 'ADMIN' && ' by support'}
+        </span>
+        <span style={{ fontSize: '12px', color: theme.colors.textMuted, marginLeft: 'auto' }}>
+          {formatDateTime(entry.createdAt)}
+        </span>
+      </div>
+    ))}
+  </div>
+);
+
+const CLAIM_LABELS = {
+  OPEN: 'Under review',
+  REPLACED: 'Key replaced',
+  REFUNDED: 'Refunded to your balance',
+  REJECTED: 'Rejected',
+};
+
+const CLAIM_TYPE_LABELS = {
+  KEY_NOT_WORKING: "Key doesn't work",
+  REFUND_REQUEST: 'Refund request',
+};
+
+const MAX_SCREENSHOT_SIZE = 2 * 1024 * 1024;
+
+const readAsDataUrl = (file) =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+const inputStyle = {
+  width: '100%',
+  padding: '10px 12px',
+  backgroundColor: theme.colors.background,
+  border: `1px solid ${theme.colors.border}`,
+  borderRadius: '8px',
+  color: theme.colors.text,
+  fontSize: '13px',
+  boxSizing: 'border-box',
+};
+
+const ItemClaims = ({ claims }) => (
+  <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+    {claims.map((claim) => (
+      <div
+        key={claim.id}
+        style={{
+          padding: '12px',
+          backgroundColor: theme.colors.background,
+          border: `1px solid ${theme.colors.border}`,
+          borderRadius: '8px',
+          fontSize: '13px',
+          color: theme.colors.textSecondary,
+        }}
+      >
+        <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+          <span style={{ color: theme.colors.text, fontWeight: '600' }}>
+            {CLAIM_TYPE_LABELS[claim.type]}
+          </span>
+          {claim.maskedKey && <span style={{ fontFamily: 'monospace' }}>{claim.maskedKey}</span>}
+          <span
+            style={{
+              marginLeft: 'auto',
+              color: claim.status === 'REJECTED' ? '#FF4444' : claim.status === 'OPEN' ? '#FFD93D' : theme.colors.primary,
+            }}
+          >
+            {CLAIM_LABELS[claim.status]}
+            {claim.status === 'REFUNDED' && claim.refundAmount !== undefined && ` (€${claim.refundAmount.toFixed(2)})`}
+          </span>
+        </div>
+        {claim.resolutionNote && <p style={{ margin: '8px 0 0' }}>{claim.resolutionNote}</p>}
+        {claim.status === 'REPLACED' && (
+          <p style={{ margin: '8px 0 0' }}>
+            Your new key is in <Link to="/profile/keys" style={{ color: theme.colors.primary }}>My Keys</Link>.
+          </p>
+        )}
+        <div style={{ marginTop: '8px', fontSize: '12px', color: theme.colors.textMuted }}>
+          {claim.events.map((event) => (
+            <div key={event.id}>
+              {formatDateTime(event.createdAt)} · {event.status === 'OPEN' ? 'Claim opened' : CLAIM_LABELS[event.status]}
+              {event.actorType === 'ADMIN' && ' by support'}
+            </div>
+          ))}
+        </div>
+      </div>
+    ))}
+  </div>
+);
+
+const GiftStatus = ({ gift }) => {
+  const steps = [
+    { label: 'Sent', date: gift.sentAt },
+    { label: 'Opened', date: gift.openedAt },
+    { label: 'Redeemed', date: gift.redeemedAt },
+  ];
+
+  return (
+    <div
+      style={{
+        padding: '12px',
+        marginBottom: '16px',
+        backgroundColor: theme.colors.background,
+        border: `1px solid ${theme.colors.border}`,
+        borderRadius: '8px',
+        fontSize: '13px',
+        color: theme.colors.textSecondary,
+      }}
+    >
+      <div style={{ color: theme.colors.text, fontWeight: '600' }}>
+        🎁 Gift for {gift.recipientEmail}
+      </div>
+      {!gift.sentAt && (
+        <div style={{ marginTop: '4px' }}>Scheduled for {formatDate(gift.deliverAt)}</div>
+      )}
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '16px', marginTop: '8px' }}>
+        {steps.map((step) => (
+          <span key={step.label} style={{ color: step.date ? theme.colors.primary : theme.colors.textMuted }}>
+            {step.date ? '✓' : '○'} {step.label}
+            {step.date && ` · ${formatDateTime(step.date)}`}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const ClaimForm = ({ order, item, onCreated, onCancel }) => {
+  const itemKeys = (order.keys || []).filter((key) => key.gameId === item.gameId);
+  const [type, setType] = useState('KEY_NOT_WORKING');
+  const [gameKeyId, setGameKeyId] = useState(itemKeys[0]?.id || '');
+  const [reason, setReason] = useState('');
+  const [screenshot, setScreenshot] = useState(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [formError, setFormError] = useState(null);
+
+  const handleScreenshot = async (e) => {
+    const file = e.target.files?.[0];
+    setFormError(null);
+    if (!file) {
+      setScreenshot(null);
+      return;
+    }
+    if (!['image/png', 'image/jpeg', 'image/webp'].includes(file.type)) {
+      setFormError('The screenshot must be a PNG, JPEG or WebP image');
+      return;
+    }
+    if (file.size > MAX_SCREENSHOT_SIZE) {
+      setFormError('The screenshot can be at most 2 MB');
+      return;
+    }
+    setScreenshot(await readAsDataUrl(file));
+  };
+
+  const handleSubmit = async (e) => {
+    e.preventDefault();
+    if (!reason.trim()) {
+      setFormError('Please describe the problem');
+      return;
+    }
+    setIsSubmitting(true);
+    setFormError(null);
+    try {
+      const claim = await orderApi.createClaim(order.id, {
+        orderItemId: item.id,
+        gameKeyId: gameKeyId || undefined,
+        type,
+        reason: reason.trim(),
+        screenshot: screenshot || undefined,
+      });
+      onCreated(claim);
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Failed to send your claim');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '10px',
+        padding: '12px',
+        backgroundColor: theme.colors.background,
+        border: `1px solid ${theme.colors.border}`,
+        borderRadius: '8px',
+      }}
+    >
+      <select value={type} onChange={(e) => setType(e.target.value)} style={inputStyle}>
+        <option value="KEY_NOT_WORKING">{CLAIM_TYPE_LABELS.KEY_NOT_WORKING}</option>
+        <option value="REFUND_REQUEST">{CLAIM_TYPE_LABELS.REFUND_REQUEST}</option>
+      </select>
+      {itemKeys.length > 1 && (
+        <select value={gameKeyId} onChange={(e) => setGameKeyId(e.target.value)} style={inputStyle}>
+          {itemKeys.map((key) => (
+            <option key={key.id} value={key.id}>
+              {key.key}
+            </option>
+          ))}
+        </select>
+      )}
+      <textarea
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        placeholder="What went wrong? Include the error message you see when activating the key."
+        rows={3}
+        maxLength={2000}
+        style={{ ...inputStyle, resize: 'vertical' }}
+      />
+      <label style={{ fontSize: '13px', color: theme.colors.textSecondary }}>
+        Screenshot (optional, up to 2 MB)
+        <input
+          type="file"
+          accept="image/png,image/jpeg,image/webp"
+          onChange={handleScreenshot}
+          style={{ display: 'block', marginTop: '6px', color: theme.colors.textSecondary }}
+        />
+      </label>
+      {formError && <p style={{ margin: 0, fontSize: '13px', color: '#FF4444' }}>{formError}</p>}
+      <div style={{ display: 'flex', gap: '8px', justifyContent: 'flex-end' }}>
+        <button
+          type="button"
+          onClick={onCancel}
+          style={{
+            padding: '8px 16px',
+            background: 'none',
+            border: `1px solid ${theme.colors.border}`,
+            borderRadius: '8px',
+            color: theme.colors.textSecondary,
+            cursor: 'pointer',
+          }}
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          style={{
+            padding: '8px 16px',
+            backgroundColor: theme.colors.primary,
+            border: 'none',
+            borderRadius: '8px',
+            color: '#000',
+            fontWeight: '600',
+            cursor: isSubmitting ? 'default' : 'pointer',
+            opacity: isSubmitting ? 0.6 : 1,
+          }}
+        >
+          {isSubmitting ? 'Sending...' : 'Send claim'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
 export default function ProfileOrdersPage() {
   const location = useLocation();
   const [orders, setOrders] = useState([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState(null);
   const [orderCreated, setOrderCreated] = useState(false);
+  const [expandedOrderId, setExpandedOrderId] = useState(null);
+  const [histories, setHistories] = useState({});
+  const [claims, setClaims] = useState([]);
+  const [claimItemId, setClaimItemId] = useState(null);
+  const [downloadingInvoice, setDownloadingInvoice] = useState(null);
+  const [invoiceError, setInvoiceError] = useState(null);
 
   useEffect(() => {
     // Check if we just created an order
@@ -106,8 +418,12 @@ export default function ProfileOrdersPage() {
       setIsLoading(true);
       setError(null);
       try {
-        const result = await orderApi.getOrders(1, 50); // Get up to 50 orders
+        const [result, userClaims] = await Promise.all([
+          orderApi.getOrders(1, 50), // Get up to 50 orders
+          orderApi.getClaims().catch(() => []),
+        ]);
         setOrders(result.orders);
+        setClaims(userClaims);
       } catch (err) {
         console.error('Failed to load orders:', err);
         setError(err instanceof Error ? err.message : 'Failed to load orders');
@@ -120,6 +436,44 @@ export default function ProfileOrdersPage() {
     loadOrders();
   }, []);
 
+  const toggleHistory = async (orderId) => {
+    if (expandedOrderId === orderId) {
+      setExpandedOrderId(null);
+      return;
+    }
+    setExpandedOrderId(orderId);
+    if (histories[orderId]) return;
+    try {
+      const details = await orderApi.getOrderById(orderId);
+      setHistories((prev) => ({ ...prev, [orderId]: details.statusHistory || [] }));
+    } catch (err) {
+      console.error('Failed to load order history:', err);
+      setHistories((prev) => ({ ...prev, [orderId]: [] }));
+    }
+  };
+
+  const handleDownloadInvoice = async (orderId) => {
+    setDownloadingInvoice(orderId);
+    setInvoiceError(null);
+    try {
+      const blob = await orderApi.getInvoice(orderId);
+      saveBlob(blob, `invoice-${orderId.slice(0, 8)}.pdf`);
+    } catch (err) {
+      console.error('Failed to download invoice:', err);
+      setInvoiceError({
+        orderId,
+        message: err instanceof Error ? err.message : 'Failed to download invoice',
+      });
+    } finally {
+      setDownloadingInvoice(null);
+    }
+  };
+
+  const handleClaimCreated = (claim) => {
+    setClaims((prev) => [claim, ...prev]);
+    setClaimItemId(null);
+  };
+
   if (isLoading) {
     return (
       <ProfileLayout>
@@ -172,7 +526,18 @@ export default function ProfileOrdersPage() {
             marginBottom: '24px',
           }}
         >
-          ✅ Order created successfully! Your game keys will be sent to your email.
+          {location.state?.onHold ? (
+            <>✅ Order placed! We are running a quick security check and will deliver your keys as soon as it is done.</>
+          ) : location.state?.preorder ? (
+            <>✅ Preorder placed! Your keys will be delivered automatically when the game is released.</>
+          ) : location.state?.giftRecipient ? (
+            <>✅ Order created successfully! We will email the gift to {location.state.giftRecipient}.</>
+          ) : (
+            <>
+              ✅ Order created successfully! Your game keys will be sent to your email and appear in{' '}
+              <Link to="/profile/keys" style={{ color: theme.colors.primary }}>My Keys</Link>.
+            </>
+          )}
         </motion.div>
       )}
       <motion.div
@@ -284,113 +649,268 @@ export default function ProfileOrdersPage() {
                 </div>
               </div>
 
-              {/* Order Items */}
-              <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
-                {order.items && order.items.length > 0 ? (
-                  order.items.map((item) => (
-                    <div
-                      key={item.id || item.gameId}
+              {order.gift && <GiftStatus gift={order.gift} />}
+
+              {order.status === 'PREORDER' && (
+                <p style={{ fontSize: '13px', color: theme.colors.textSecondary, margin: '0 0 16px 0' }}>
+                  Your payment is received. The keys are delivered automatically as soon as the game is released.
+                </p>
+              )}
+
+              {order.status === 'AWAITING_PAYMENT' && order.payment && (
+                <div
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'space-between',
+                    gap: '16px',
+                    margin: '0 0 16px 0',
+                  }}
+                >
+                  <p style={{ fontSize: '13px', color: theme.colors.textSecondary, margin: 0 }}>
+                    €{order.payment.amount.toFixed(2)} is still to be paid
+                    {order.payment.balanceAmount > 0 &&
+                      ` (€${order.payment.balanceAmount.toFixed(2)} is held from your balance)`}
+                    . If the payment is not completed by {new Date(order.payment.expiresAt).toLocaleString()}, the
+                    order is cancelled and your balance is released.
+                  </p>
+                  {order.payment.checkoutUrl && (
+                    <a
+                      href={order.payment.checkoutUrl}
                       style={{
-                        display: 'flex',
-                        alignItems: 'center',
-                        gap: '16px',
-                        padding: '12px',
-                        backgroundColor: theme.colors.surfaceLight,
+                        padding: '8px 14px',
+                        border: `1px solid ${theme.colors.primary}`,
                         borderRadius: '8px',
+                        color: theme.colors.primary,
+                        fontSize: '13px',
+                        fontWeight: '500',
+                        textDecoration: 'none',
+                        whiteSpace: 'nowrap',
                       }}
                     >
-                      {/* Game Thumbnail - Clickable */}
-                      {item.game && (
-                        <Link
-                          to={`/game/${item.game.slug}`}
+                      Complete payment
+                    </a>
+                  )}
+                </div>
+              )}
+
+              {order.status === 'ON_HOLD' && (
+                <p style={{ fontSize: '13px', color: theme.colors.textSecondary, margin: '0 0 16px 0' }}>
+                  Your payment is received. We are running a routine security check on this order and will deliver
+                  your keys as soon as it is done. If we cannot approve it, the payment goes back to your balance.
+                </p>
+              )}
+
+              {/* Order Items */}
+              <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
+                {order.items && order.items.length > 0 ? (
+                  order.items.map((item) => {
+                    const itemClaims = claims.filter((claim) => claim.orderItemId === item.id);
+                    const canClaim =
+                      item.fulfilledQuantity > 0 &&
+                      order.status !== 'CANCELLED' &&
+                      !itemClaims.some((claim) => claim.status === 'OPEN');
+                    return (
+                      <div key={item.id || item.gameId} style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+                        <div
                           style={{
-                            width: '60px',
-                            height: '75px',
+                            display: 'flex',
+                            alignItems: 'center',
+                            gap: '16px',
+                            padding: '12px',
+                            backgroundColor: theme.colors.surfaceLight,
                             borderRadius: '8px',
-                            overflow: 'hidden',
-                            flexShrink: 0,
-                            textDecoration: 'none',
                           }}
                         >
-                          <img
-                            src={item.game.image}
-                            alt={item.game.title}
-                            style={{
-                              width: '100%',
-                              height: '100%',
-                              objectFit: 'cover',
-                            }}
-                            onError={(e) => {
-                              e.target.src = 'https://via.placeholder.com/60x75?text=Game';
-                            }}
-                          />
-                        </Link>
-                      )}
-
-                      {/* Game Info */}
-                      <div style={{ flex: 1 }}>
-                        {item.game ? (
-                          <Link
-                            to={`/game/${item.game.slug}`}
-                            style={{
-                              textDecoration: 'none',
-                              color: 'inherit',
-                            }}
-                          >
-                            <h4
+                          {/* Game Thumbnail - Clickable */}
+                          {item.game && (
+                            <Link
+                              to={`/game/${item.game.slug}`}
                               style={{
-                                fontSize: '16px',
-                                fontWeight: '600',
-                                color: theme.colors.text,
-                                margin: '0 0 4px 0',
+                                width: '60px',
+                                height: '75px',
+                                borderRadius: '8px',
+                                overflow: 'hidden',
+                                flexShrink: 0,
+                                textDecoration: 'none',
                               }}
                             >
-                              {item.game.title}
-                            </h4>
-                          </Link>
-                        ) : (
-                          <h4
+                              <img
+                                src={item.game.image}
+                                alt={item.game.title}
+                                style={{
+                                  width: '100%',
+                                  height: '100%',
+                                  objectFit: 'cover',
+                                }}
+                                onError={(e) => {
+                                  e.target.src = 'https://via.placeholder.com/60x75?text=Game';
+                                }}
+                              />
+                            </Link>
+                          )}
+
+                          {/* Game Info */}
+                          <div style={{ flex: 1 }}>
+                            {item.game ? (
+                              <Link
+                                to={`/game/${item.game.slug}`}
+                                style={{
+                                  textDecoration: 'none',
+                                  color: 'inherit',
+                                }}
+                              >
+                                <h4
+                                  style={{
+                                    fontSize: '16px',
+                                    fontWeight: '600',
+                                    color: theme.colors.text,
+                                    margin: '0 0 4px 0',
+                                  }}
+                                >
+                                  {item.game.title}
+                                </h4>
+                              </Link>
+                            ) : (
+                              <h4
+                                style={{
+                                  fontSize: '16px',
+                                  fontWeight: '600',
+                                  color: theme.colors.text,
+                                  margin: '0 0 4px 0',
+                                }}
+                              >
+                                Game ID: {item.gameId}
+                              </h4>
+                            )}
+                            <p
+                              style={{
+                                fontSize: '13px',
+                                color: theme.colors.textMuted,
+                                margin: 0,
+                              }}
+                            >
+                              Quantity: {item.quantity} × €{item.price.toFixed(2)} = €{(item.price * item.quantity).toFixed(2)}
+                            </p>
+                            {item.fulfillmentStatus && item.fulfillmentStatus !== 'FULFILLED' && (
+                              <p
+                                style={{
+                                  fontSize: '12px',
+                                  color: item.fulfillmentStatus === 'FAILED' ? '#FF4444' : '#FFD93D',
+                                  margin: '4px 0 0',
+                                }}
+                              >
+                                {describeFulfillment(item)}
+                              </p>
+                            )}
+                          </div>
+
+                          {/* Item Price */}
+                          <div
                             style={{
-                              fontSize: '16px',
-                              fontWeight: '600',
+                              fontSize: '18px',
+                              fontWeight: '700',
                               color: theme.colors.text,
-                              margin: '0 0 4px 0',
+                              minWidth: '80px',
+                              textAlign: 'right',
                             }}
                           >
-                            Game ID: {item.gameId}
-                          </h4>
-                        )}
-                        <p
-                          style={{
-                            fontSize: '13px',
-                            color: theme.colors.textMuted,
-                            margin: 0,
-                          }}
-                        >
-                          Quantity: {item.quantity} × €{item.price.toFixed(2)} = €{(item.price * item.quantity).toFixed(2)}
-                        </p>
-                      </div>
+                            €{(item.price * item.quantity).toFixed(2)}
+                          </div>
+                        </div>
 
-                      {/* Item Price */}
-                      <div
-                        style={{
-                          fontSize: '18px',
-                          fontWeight: '700',
-                          color: theme.colors.text,
-                          minWidth: '80px',
-                          textAlign: 'right',
-                        }}
-                      >
-                        €{(item.price * item.quantity).toFixed(2)}
+                        {/* Claims */}
+                        {itemClaims.length > 0 && <ItemClaims claims={itemClaims} />}
+                        {claimItemId === item.id ? (
+                          <ClaimForm
+                            order={order}
+                            item={item}
+                            onCreated={handleClaimCreated}
+                            onCancel={() => setClaimItemId(null)}
+                          />
+                        ) : (
+                          canClaim && (
+                            <button
+                              type="button"
+                              onClick={() => setClaimItemId(item.id)}
+                              style={{
+                                alignSelf: 'flex-start',
+                                background: 'none',
+                                border: 'none',
+                                padding: 0,
+                                color: theme.colors.textSecondary,
+                                fontSize: '13px',
+                                cursor: 'pointer',
+                              }}
+                            >
+                              Report a problem
+                            </button>
+                          )
+                        )}
                       </div>
-                    </div>
-                  ))
+                    );
+                  })
                 ) : (
                   <p style={{ color: theme.colors.textMuted, fontSize: '14px' }}>
                     No items in this order
                   </p>
                 )}
               </div>
+
+              {/* Order History */}
+              <div style={{ marginTop: '16px' }}>
+                <button
+                  type="button"
+                  onClick={() => toggleHistory(order.id)}
+                  style={{
+                    background: 'none',
+                    border: 'none',
+                    padding: 0,
+                    color: theme.colors.primary,
+                    fontSize: '13px',
+                    cursor: 'pointer',
+                  }}
+                >
+                  {expandedOrderId === order.id ? 'Hide order history' : 'Show order history'}
+                </button>
+                {order.status === 'COMPLETED' && (
+                  <button
+                    type="button"
+                    onClick={() => handleDownloadInvoice(order.id)}
+                    disabled={downloadingInvoice === order.id}
+                    style={{
+                      background: 'none',
+                      border: 'none',
+                      padding: 0,
+                      marginLeft: '20px',
+                      color: theme.colors.primary,
+                      fontSize: '13px',
+                      cursor: downloadingInvoice === order.id ? 'wait' : 'pointer',
+                    }}
+                  >
+                    {downloadingInvoice === order.id ? 'Downloading invoice...' : 'Download invoice (PDF)'}
+                  </button>
+                )}
+                {invoiceError?.orderId === order.id && (
+                  <p style={{ color: '#FF4444', fontSize: '13px', marginTop: '8px' }}>
+                    {invoiceError.message}
+                  </p>
+                )}
+                {expandedOrderId === order.id &&
+                  (histories[order.id] ? (
+                    histories[order.id].length > 0 ? (
+                      <OrderTimeline history={histories[order.id]} />
+                    ) : (
+                      <p style={{ color: theme.colors.textMuted, fontSize: '13px', marginTop: '12px' }}>
+                        No history available
+                      </p>
+                    )
+                  ) : (
+                    <p style={{ color: theme.colors.textMuted, fontSize: '13px', marginTop: '12px' }}>
+                      Loading...
+                    </p>
+                  ))}
+              </div>
             </motion.div>
           ))
         )}
@@ -27,6 +27,7 @@ interface RequestConfig extends RequestInit {
 class ApiClient {
   private baseURL: string;
   private token: string | null = null;
+  private currency: string | null = null;
 
   constructor(_baseURL: string) {
     // In development, always use localhost unless explicitly set
@@ -75,6 +76,7 @@ class ApiClient {
     this.baseURL = this.normalizeBaseURL(finalBaseURL);
     console.log(`✅ API Client initialized with baseURL: ${this.baseURL}`);
     this.loadToken();
+    this.loadCurrency();
   }
 
   /**
@@ -170,6 +172,36 @@ class ApiClient {
     return this.token;
   }
 
+  private loadCurrency() {
+    try {
+      this.currency = localStorage.getItem('gkeys_display_currency');
+    } catch (error) {
+      console.warn('⚠️ Failed to load display currency from localStorage:', error);
+      this.currency = null;
+    }
+  }
+
+  /**
+   * Currency storefront prices are shown in. null lets the server detect it from the
+   * browser language.
+   */
+  public setCurrency(currency: string | null) {
+    this.currency = currency;
+    try {
+      if (currency) {
+        localStorage.setItem('gkeys_display_currency', currency);
+      } else {
+        localStorage.removeItem('gkeys_display_currency');
+      }
+    } catch (error) {
+      console.warn('⚠️ Failed to save display currency to localStorage:', error);
+    }
+  }
+
+  public getCurrency(): string | null {
+    return this.currency;
+  }
+
   private getHeaders(): HeadersInit {
     const headers: HeadersInit = {
       'Content-Type': 'application/json',
@@ -179,6 +211,10 @@ class ApiClient {
       headers.Authorization = `Bearer ${this.token}`;
     }
 
+    if (this.currency) {
+      headers['X-Currency'] = this.currency;
+    }
+
     return headers;
   }
 
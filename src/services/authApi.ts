@@ -25,10 +25,54 @@ export interface AuthResponse {
     lastName?: string;
     avatar?: string;
     role: string;
+    permissions?: string[];
+    displayCurrency?: string;
   };
   token: string;
   refreshToken: string;
   expiresIn: number;
+  // Only present right after 2FA enrolment completed during login
+  recoveryCodes?: string[];
+}
+
+// Returned by /login instead of tokens when the account needs a second factor
+export interface TwoFactorChallengeResponse {
+  twoFactorRequired: true;
+  setupRequired: boolean;
+  challengeToken: string;
+  expiresIn: number;
+}
+
+export type LoginResponse = AuthResponse | TwoFactorChallengeResponse;
+
+export interface TwoFactorVerifyRequest {
+  challengeToken: string;
+  code?: string;
+  recoveryCode?: string;
+}
+
+export interface TwoFactorSetupResponse {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export const isTwoFactorChallenge = (response: LoginResponse): response is TwoFactorChallengeResponse =>
+  'twoFactorRequired' in response && response.twoFactorRequired === true;
+
+export interface ActiveSession {
+  id: string;
+  ipAddress?: string;
+  userAgent?: string;
+  createdAt: string;
+  lastUsedAt: string;
+  current: boolean;
 }
 
 export interface RefreshTokenResponse {
@@ -48,16 +92,21 @@ export interface ResetPasswordRequest {
 
 // Auth API methods
 export const authApi = {
-  async login(credentials: LoginRequest): Promise<AuthResponse> {
+  async login(credentials: LoginRequest): Promise<LoginResponse> {
     try {
       if (import.meta.env.DEV) {
         console.log('🔐 Attempting login for:', credentials.email);
       }
       
-      const response = await apiClient.post<{ success: boolean; data: AuthResponse }>('/api/auth/login', credentials);
+      const response = await apiClient.post<{ success: boolean; data: LoginResponse }>('/api/auth/login', credentials);
       
       // Check if response has success wrapper
-      const authData = response.success ? response.data : response as unknown as AuthResponse;
+      const authData = response.success ? response.data : response as unknown as LoginResponse;
+      
+      // Second factor still needed - no tokens yet
+      if (isTwoFactorChallenge(authData)) {
+        return authData;
+      }
       
       // Set token in API client
       if (authData.token) {
@@ -153,6 +202,96 @@ export const authApi = {
     }
   },
 
+  async verifyTwoFactor(data: TwoFactorVerifyRequest): Promise<AuthResponse> {
+    try {
+      const response = await apiClient.post<{ success: boolean; data: AuthResponse }>('/api/auth/2fa/verify', data);
+      const authData = response.success ? response.data : response as unknown as AuthResponse;
+
+      if (authData.token) {
+        apiClient.setToken(authData.token);
+      }
+
+      return authData;
+    } catch (error) {
+      console.error('❌ Two-factor verification error:', error);
+      if (error instanceof Error) {
+        let message = error.message;
+        if (message.includes('HTTP 401')) {
+          message = 'Invalid authentication code. Please try again.';
+        } else if (message.includes('HTTP 400')) {
+          message = 'Please enter the 6-digit code from your authenticator app.';
+        } else if (message.includes('Failed to fetch') || message.includes('NetworkError')) {
+          message = 'Network error. Please check your internet connection and try again.';
+        }
+        throw new Error(message);
+      }
+      throw new Error('Two-factor verification failed. Please try again.');
+    }
+  },
+
+  async setupTwoFactorForChallenge(challengeToken: string): Promise<TwoFactorSetupResponse> {
+    const response = await apiClient.post<{ success: boolean; data: TwoFactorSetupResponse }>(
+      '/api/auth/2fa/challenge/setup',
+      { challengeToken }
+    );
+    return response.data;
+  },
+
+  async getTwoFactorStatus(): Promise<TwoFactorStatus> {
+    const response = await apiClient.get<{ success: boolean; data: TwoFactorStatus }>('/api/auth/2fa/status');
+    return response.data;
+  },
+
+  async setupTwoFactor(): Promise<TwoFactorSetupResponse> {
+    const response = await apiClient.post<{ success: boolean; data: TwoFactorSetupResponse }>('/api/auth/2fa/setup');
+    return response.data;
+  },
+
+  async enableTwoFactor(code: string): Promise<string[]> {
+    const response = await apiClient.post<{ success: boolean; data: { recoveryCodes: string[] } }>(
+      '/api/auth/2fa/enable',
+      { code }
+    );
+    return response.data.recoveryCodes;
+  },
+
+  async disableTwoFactor(password: string, code: string): Promise<void> {
+    await apiClient.post('/api/auth/2fa/disable', { password, code });
+  },
+
+  async regenerateRecoveryCodes(code: string): Promise<string[]> {
+    const response = await apiClient.post<{ success: boolean; data: { recoveryCodes: string[] } }>(
+      '/api/auth/2fa/recovery-codes',
+      { code }
+    );
+    return response.data.recoveryCodes;
+  },
+
+  async requestEmailChange(newEmail: string, password: string): Promise<void> {
+    await apiClient.post('/api/auth/change-email', { newEmail, password });
+  },
+
+  async confirmEmailChange(code: string): Promise<string> {
+    const response = await apiClient.post<{ success: boolean; data: { email: string } }>(
+      '/api/auth/change-email/confirm',
+      { code }
+    );
+    return response.data.email;
+  },
+
+  async getSessions(): Promise<ActiveSession[]> {
+    const response = await apiClient.get<{ success: boolean; data: ActiveSession[] }>('/api/auth/sessions');
+    return response.data;
+  },
+
+  async revokeSession(sessionId: string): Promise<void> {
+    await apiClient.delete(`/api/auth/sessions/${sessionId}`);
+  },
+
+  async revokeAllSessions(): Promise<void> {
+    await apiClient.delete('/api/auth/sessions');
+  },
+
   async logout(): Promise<void> {
     try {
       await apiClient.post('/api/auth/logout');
@@ -278,6 +417,8 @@ export const authApi = {
     lastName?: string;
     avatar?: string;
     role: string;
+    permissions?: string[];
+    displayCurrency?: string;
   }> {
     try {
       const response = await apiClient.get<{ success: boolean; data: {
@@ -288,6 +429,8 @@ export const authApi = {
         lastName?: string;
         avatar?: string;
         role: string;
+        permissions?: string[];
+        displayCurrency?: string;
       } }>('/api/auth/me');
       
       // Check if response has success wrapper
@@ -299,6 +442,8 @@ export const authApi = {
         lastName?: string;
         avatar?: string;
         role: string;
+        permissions?: string[];
+        displayCurrency?: string;
       };
       
       return userData;
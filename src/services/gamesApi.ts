@@ -464,6 +464,11 @@ export interface GameFilters {
   pageSize?: number;
 }
 
+export interface DisplayCurrencyOptions {
+  currencies: string[];
+  detected: string;
+}
+
 export interface PaginatedResponse<T> {
   data: T[];
   total: number;
@@ -931,6 +936,22 @@ export const gamesApi = {
     }
   },
 
+  /**
+   * Currencies prices can be shown in, and the one detected from the browser language
+   */
+  getCurrencies: async (): Promise<DisplayCurrencyOptions> => {
+    try {
+      const response = await apiClient.get<{ success: boolean; data: DisplayCurrencyOptions }>(
+        '/api/games/currencies'
+      );
+      return response.data;
+    } catch (error) {
+      // Prices are still shown in EUR when the options cannot be loaded
+      console.warn('Failed to fetch display currencies:', error);
+      return { currencies: ['EUR'], detected: 'EUR' };
+    }
+  },
+
   getCollections: async (): Promise<Array<{ id: string; title: string; type: 'genre' | 'publisher'; value: string; games: Game[] }>> => {
     try {
       const response = await apiClient.get<{ success: boolean; data: Array<{ id: string; title: string; type: 'genre' | 'publisher'; value: string; games: Game[] }> }>(
@@ -5,14 +5,75 @@ export interface OrderItem {
   quantity: number;
 }
 
+export interface GiftOptions {
+  recipientEmail: string;
+  senderName: string;
+  message?: string;
+  // ISO date; sent right after delivery when omitted
+  deliverAt?: string;
+}
+
+export type OrderPaymentGateway = 'stripe' | 'paypal' | 'mollie';
+
+export interface OrderPaymentOptions {
+  gateway: OrderPaymentGateway;
+  // Pay what the balance covers and only the rest through the gateway (default)
+  useBalance?: boolean;
+}
+
 export interface CreateOrderRequest {
   items: OrderItem[];
   promoCode?: string;
+  gift?: GiftOptions;
+  payment?: OrderPaymentOptions;
+}
+
+export interface OrderPayment {
+  intentId: string;
+  gateway: string;
+  amount: number;
+  currency: string;
+  balanceAmount: number;
+  status: 'pending' | 'completed' | 'failed' | 'cancelled' | 'expired';
+  checkoutUrl?: string;
+  expiresAt: string;
+}
+
+export interface OrderGift {
+  recipientEmail: string;
+  senderName: string;
+  message?: string;
+  deliverAt: string;
+  sentAt?: string;
+  openedAt?: string;
+  redeemedAt?: string;
+}
+
+export interface GiftPreview {
+  senderName: string;
+  message?: string;
+  games: Array<{
+    id: string;
+    title: string;
+    image: string;
+    slug: string;
+    quantity: number;
+  }>;
+  redeemed: boolean;
+  redeemedByYou: boolean;
+}
+
+export interface OrderStatusHistoryEntry {
+  id: string;
+  fromStatus?: Order['status'];
+  toStatus: Order['status'];
+  actorType: 'CUSTOMER' | 'ADMIN' | 'SYSTEM' | 'WEBHOOK';
+  createdAt: string;
 }
 
 export interface Order {
   id: string;
-  status: 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
+  status: 'PENDING' | 'AWAITING_PAYMENT' | 'PREORDER' | 'ON_HOLD' | 'PROCESSING' | 'PARTIALLY_COMPLETED' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
   subtotal: number;
   discount: number;
   total: number;
@@ -25,6 +86,9 @@ export interface Order {
     gameId: string;
     quantity: number;
     price: number;
+    fulfillmentStatus: 'PENDING' | 'FULFILLED' | 'FAILED' | 'REFUNDED';
+    fulfilledQuantity: number;
+    refundedQuantity: number;
     game: {
       id: string;
       title: string;
@@ -32,6 +96,51 @@ export interface Order {
       image: string;
     };
   }>;
+  keys?: Array<{
+    id: string;
+    gameId: string;
+    key: string;
+    activated: boolean;
+  }>;
+  statusHistory?: OrderStatusHistoryEntry[];
+  gift?: OrderGift;
+  payment?: OrderPayment;
+}
+
+export type ClaimType = 'KEY_NOT_WORKING' | 'REFUND_REQUEST';
+export type ClaimStatus = 'OPEN' | 'REPLACED' | 'REFUNDED' | 'REJECTED';
+
+export interface OrderClaim {
+  id: string;
+  orderId: string;
+  orderItemId: string;
+  game: { id: string; title: string };
+  type: ClaimType;
+  status: ClaimStatus;
+  reason: string;
+  maskedKey?: string;
+  hasScreenshot: boolean;
+  resolutionNote?: string;
+  replacementKey?: string;
+  refundAmount?: number;
+  resolvedAt?: string;
+  createdAt: string;
+  events: Array<{
+    id: string;
+    status: ClaimStatus;
+    actorType: 'CUSTOMER' | 'ADMIN' | 'SYSTEM' | 'WEBHOOK';
+    note?: string;
+    createdAt: string;
+  }>;
+}
+
+export interface CreateClaimRequest {
+  orderItemId: string;
+  gameKeyId?: string;
+  type: ClaimType;
+  reason: string;
+  // Image as a data URL
+  screenshot?: string;
 }
 
 export interface CreateOrderResponse {
@@ -39,16 +148,23 @@ export interface CreateOrderResponse {
   status: string;
   total: number;
   items: OrderItem[];
+  // Set when part of the order is paid through a gateway
+  payment?: OrderPayment;
 }
 
 export const orderApi = {
   /**
-   * Create a new order from cart items
+   * Create a new order from cart items. Retries with the same idempotency key return the
+   * order created by the first request instead of a second one.
    */
-  createOrder: async (data: CreateOrderRequest): Promise<CreateOrderResponse> => {
+  createOrder: async (
+    data: CreateOrderRequest,
+    idempotencyKey?: string
+  ): Promise<CreateOrderResponse> => {
     const response = await apiClient.post<{ success: boolean; data: CreateOrderResponse }>(
       '/api/orders',
-      data
+      data,
+      idempotencyKey ? { headers: { 'Idempotency-Key': idempotencyKey } } : undefined
     );
     return response.data;
   },
@@ -91,4 +207,52 @@ export const orderApi = {
     );
     return response.data;
   },
+
+  /**
+   * Get the user's claims on order items
+   */
+  getClaims: async (): Promise<OrderClaim[]> => {
+    const response = await apiClient.get<{ success: boolean; data: OrderClaim[] }>(
+      '/api/orders/claims'
+    );
+    return response.data;
+  },
+
+  /**
+   * Report a key that does not work or ask for a refund of an order item
+   */
+  createClaim: async (orderId: string, data: CreateClaimRequest): Promise<OrderClaim> => {
+    const response = await apiClient.post<{ success: boolean; data: OrderClaim }>(
+      `/api/orders/${orderId}/claims`,
+      data
+    );
+    return response.data;
+  },
+
+  /**
+   * Get a gift from its claim link
+   */
+  getGift: async (token: string): Promise<GiftPreview> => {
+    const response = await apiClient.get<{ success: boolean; data: GiftPreview }>(
+      `/api/gifts/${token}`
+    );
+    return response.data;
+  },
+
+  /**
+   * Add the keys of a gift to the user's key library
+   */
+  redeemGift: async (token: string): Promise<GiftPreview> => {
+    const response = await apiClient.post<{ success: boolean; data: GiftPreview }>(
+      `/api/gifts/${token}/redeem`
+    );
+    return response.data;
+  },
+
+  /**
+   * Download the PDF invoice of a completed order
+   */
+  getInvoice: async (orderId: string): Promise<Blob> => {
+    return apiClient.get<Blob>(`/api/orders/${orderId}/invoice`, { responseType: 'blob' });
+  },
 };
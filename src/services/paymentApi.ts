@@ -11,19 +11,39 @@ export interface PaymentIntent {
   id: string;
   amount: number;
   currency: string;
+  requestedAmount: number;
+  requestedCurrency: string;
+  discount: number;
   paymentMethod: string;
   redirectUrl: string;
   status: string;
+  expiresAt: string;
+  createdAt: string;
 }
 
 export const paymentApi = {
   /**
-   * Create a balance top-up payment intent
+   * Create a balance top-up payment intent. Retries with the same idempotency key return the
+   * intent created by the first request.
    */
-  createBalanceTopUp: async (data: BalanceTopUpRequest): Promise<PaymentIntent> => {
+  createBalanceTopUp: async (
+    data: BalanceTopUpRequest,
+    idempotencyKey?: string
+  ): Promise<PaymentIntent> => {
     const response = await apiClient.post<{ success: boolean; data: PaymentIntent }>(
       '/api/payment/balance-top-up',
-      data
+      data,
+      idempotencyKey ? { headers: { 'Idempotency-Key': idempotencyKey } } : undefined
+    );
+    return response.data;
+  },
+
+  /**
+   * Top-ups the user started but has not paid yet
+   */
+  getPendingTopUps: async (): Promise<PaymentIntent[]> => {
+    const response = await apiClient.get<{ success: boolean; data: PaymentIntent[] }>(
+      '/api/payment/balance-top-up/pending'
     );
     return response.data;
   },
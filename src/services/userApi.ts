@@ -7,7 +7,10 @@ export interface UserProfile {
   firstName: string | null;
   lastName: string | null;
   avatar: string | null;
+  // Unset follows the browser language
+  displayCurrency?: string;
   createdAt: string;
+  deletionScheduledFor?: string;
   stats?: {
     gamesPurchased: number;
     totalSaved: number;
@@ -28,6 +31,8 @@ export interface UpdateProfileData {
   nickname?: string;
   firstName?: string;
   lastName?: string;
+  // null goes back to the currency of the browser language
+  displayCurrency?: string | null;
 }
 
 export interface ChangePasswordData {
@@ -35,6 +40,40 @@ export interface ChangePasswordData {
   newPassword: string;
 }
 
+export interface DataExportLink {
+  downloadPath: string;
+  expiresAt: string;
+}
+
+export interface ActivationGuide {
+  service: string;
+  steps: string[];
+  redeemUrl?: string;
+}
+
+export interface LibraryKey {
+  id: string;
+  orderId: string;
+  maskedKey: string;
+  activated: boolean;
+  activationDate?: string;
+  purchasedAt: string;
+  lastRevealedAt?: string;
+}
+
+export interface KeyLibraryGroup {
+  game: {
+    id: string;
+    title: string;
+    slug: string;
+    image: string;
+  };
+  platform: string;
+  activationService?: string;
+  activation: ActivationGuide;
+  keys: LibraryKey[];
+}
+
 export const userApi = {
   getProfile: async (): Promise<UserProfile> => {
     try {
@@ -120,5 +159,60 @@ export const userApi = {
       return [];
     }
   },
-};
 
+  getTopUpInvoice: async (transactionId: string): Promise<Blob> => {
+    return apiClient.get<Blob>(`/api/user/transactions/${transactionId}/invoice`, {
+      responseType: 'blob',
+    });
+  },
+
+  requestDataExport: async (): Promise<DataExportLink> => {
+    const response = await apiClient.post<{ success: boolean; data: DataExportLink }>(
+      '/api/user/data-export'
+    );
+    return response.data;
+  },
+
+  downloadDataExport: async (downloadPath: string): Promise<Blob> => {
+    return apiClient.get<Blob>(downloadPath, { responseType: 'blob' });
+  },
+
+  requestAccountDeletion: async (password: string): Promise<{ deletionScheduledFor: string }> => {
+    const response = await apiClient.post<{
+      success: boolean;
+      data: { deletionScheduledFor: string };
+    }>('/api/user/account-deletion', { password });
+    return response.data;
+  },
+
+  cancelAccountDeletion: async (): Promise<void> => {
+    await apiClient.delete('/api/user/account-deletion');
+  },
+
+  getKeyLibrary: async (): Promise<KeyLibraryGroup[]> => {
+    const response = await apiClient.get<{ success: boolean; data: KeyLibraryGroup[] }>(
+      '/api/user/keys'
+    );
+    return response.data;
+  },
+
+  /**
+   * Reveal a key. Every reveal is logged on the server.
+   */
+  revealKey: async (keyId: string): Promise<{ id: string; key: string }> => {
+    const response = await apiClient.post<{ success: boolean; data: { id: string; key: string } }>(
+      `/api/user/keys/${keyId}/reveal`
+    );
+    return response.data;
+  },
+
+  markKeyActivated: async (
+    keyId: string
+  ): Promise<{ id: string; activated: boolean; activationDate?: string }> => {
+    const response = await apiClient.post<{
+      success: boolean;
+      data: { id: string; activated: boolean; activationDate?: string };
+    }>(`/api/user/keys/${keyId}/activate`);
+    return response.data;
+  },
+};
@@ -0,0 +1,31 @@
+/**
+ * Storefront price formatting
+ * Game prices arrive already converted to the display currency; cart and checkout stay in EUR
+ */
+
+/**
+ * Format a price with its currency symbol and the currency's minor units
+ * @param amount - Price in the given currency
+ * @param currency - ISO 4217 code, EUR when the price has none
+ * @returns Formatted price, e.g. "€19.99" or "PLN 85.96"
+ */
+export function formatPrice(amount: number, currency: string = 'EUR'): string {
+  try {
+    return new Intl.NumberFormat('en', { style: 'currency', currency }).format(amount);
+  } catch {
+    // Unknown currency code
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+}
+
+/**
+ * Currency symbol for labels such as price filters, e.g. "€" or "PLN"
+ */
+export function getCurrencySymbol(currency: string = 'EUR'): string {
+  try {
+    const parts = new Intl.NumberFormat('en', { style: 'currency', currency }).formatToParts(0);
+    return parts.find((part) => part.type === 'currency')?.value || currency;
+  } catch {
+    return currency;
+  }
+}